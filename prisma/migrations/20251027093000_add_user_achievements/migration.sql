@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "user_achievements" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "achievement_id" TEXT NOT NULL,
+    "unlocked_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "user_achievements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "user_achievements_user_id_idx" ON "user_achievements"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_achievements_user_id_achievement_id_key" ON "user_achievements"("user_id", "achievement_id");
+
+-- AddForeignKey
+ALTER TABLE "user_achievements" ADD CONSTRAINT "user_achievements_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "user_upgrades" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "upgrade_id" TEXT NOT NULL,
+    "level" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "user_upgrades_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "user_upgrades_upgrade_id_level_idx" ON "user_upgrades"("upgrade_id", "level");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_upgrades_user_id_upgrade_id_key" ON "user_upgrades"("user_id", "upgrade_id");
+
+-- AddForeignKey
+ALTER TABLE "user_upgrades" ADD CONSTRAINT "user_upgrades_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
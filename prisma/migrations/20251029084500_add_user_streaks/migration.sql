@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "user_streaks" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "current_streak" INTEGER NOT NULL DEFAULT 0,
+    "best_streak" INTEGER NOT NULL DEFAULT 0,
+    "last_claim_date" DATE,
+    "reminders_enabled" BOOLEAN NOT NULL DEFAULT false,
+    "last_reminded_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "user_streaks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_streaks_user_id_key" ON "user_streaks"("user_id");
+
+-- CreateIndex
+CREATE INDEX "user_streaks_reminders_enabled_last_claim_date_idx" ON "user_streaks"("reminders_enabled", "last_claim_date");
+
+-- AddForeignKey
+ALTER TABLE "user_streaks" ADD CONSTRAINT "user_streaks_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "user_preferences" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "notifications_enabled" BOOLEAN NOT NULL DEFAULT true,
+    "notify_achievements" BOOLEAN NOT NULL DEFAULT true,
+    "notify_reminders" BOOLEAN NOT NULL DEFAULT false,
+    "notify_events" BOOLEAN NOT NULL DEFAULT true,
+    "notify_social" BOOLEAN NOT NULL DEFAULT true,
+    "language" TEXT NOT NULL DEFAULT 'en',
+    "theme" TEXT NOT NULL DEFAULT 'classic',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "user_preferences_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_preferences_user_id_key" ON "user_preferences"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "user_preferences" ADD CONSTRAINT "user_preferences_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Move streak reminder opt-ins into preferences
+INSERT INTO "user_preferences" ("id", "user_id", "notify_reminders", "updated_at")
+SELECT gen_random_uuid()::text, "user_id", true, CURRENT_TIMESTAMP
+FROM "user_streaks"
+WHERE "reminders_enabled" = true;
+
+-- DropIndex
+DROP INDEX "user_streaks_reminders_enabled_last_claim_date_idx";
+
+-- AlterTable
+ALTER TABLE "user_streaks" DROP COLUMN "reminders_enabled";
+
+-- CreateIndex
+CREATE INDEX "user_streaks_last_claim_date_idx" ON "user_streaks"("last_claim_date");
@@ -0,0 +1,7 @@
+-- A NULL language follows the user's Telegram client language
+ALTER TABLE "user_preferences" ALTER COLUMN "language" DROP NOT NULL,
+ALTER COLUMN "language" DROP DEFAULT;
+
+-- 'en' was the old default and cannot be told apart from an explicit choice,
+-- so treat it as unset
+UPDATE "user_preferences" SET "language" = NULL WHERE "language" = 'en';
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "account_audits" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "telegram_id" BIGINT NOT NULL,
+    "action" TEXT NOT NULL,
+    "previous_score" BIGINT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "account_audits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "account_audits_telegram_id_created_at_idx" ON "account_audits"("telegram_id", "created_at");
@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "referral_code" TEXT;
+
+-- CreateTable
+CREATE TABLE "referrals" (
+    "id" TEXT NOT NULL,
+    "inviter_id" TEXT NOT NULL,
+    "invitee_id" TEXT NOT NULL,
+    "inviter_bonus" INTEGER NOT NULL DEFAULT 0,
+    "invitee_bonus" INTEGER NOT NULL DEFAULT 0,
+    "rewarded_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "referrals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_referral_code_key" ON "users"("referral_code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "referrals_invitee_id_key" ON "referrals"("invitee_id");
+
+-- CreateIndex
+CREATE INDEX "referrals_inviter_id_idx" ON "referrals"("inviter_id");
+
+-- AddForeignKey
+ALTER TABLE "referrals" ADD CONSTRAINT "referrals_inviter_id_fkey" FOREIGN KEY ("inviter_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "referrals" ADD CONSTRAINT "referrals_invitee_id_fkey" FOREIGN KEY ("invitee_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "clans" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "invite_code" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "clans_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "clan_members" (
+    "id" TEXT NOT NULL,
+    "clan_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "role" TEXT NOT NULL DEFAULT 'member',
+    "joined_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "clan_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "clans_name_key" ON "clans"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "clans_invite_code_key" ON "clans"("invite_code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "clan_members_user_id_key" ON "clan_members"("user_id");
+
+-- CreateIndex
+CREATE INDEX "clan_members_clan_id_idx" ON "clan_members"("clan_id");
+
+-- AddForeignKey
+ALTER TABLE "clan_members" ADD CONSTRAINT "clan_members_clan_id_fkey" FOREIGN KEY ("clan_id") REFERENCES "clans"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "clan_members" ADD CONSTRAINT "clan_members_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,52 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "season_score" BIGINT NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "leaderboard_snapshots" ADD COLUMN "season_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "seasons" (
+    "id" TEXT NOT NULL,
+    "number" INTEGER NOT NULL,
+    "starts_at" TIMESTAMP(3) NOT NULL,
+    "ends_at" TIMESTAMP(3) NOT NULL,
+    "ended_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "seasons_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "season_badges" (
+    "id" TEXT NOT NULL,
+    "season_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "rank" INTEGER NOT NULL,
+    "awarded_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "season_badges_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "leaderboard_snapshots_season_id_rank_idx" ON "leaderboard_snapshots"("season_id", "rank");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "seasons_number_key" ON "seasons"("number");
+
+-- CreateIndex
+CREATE INDEX "seasons_ended_at_idx" ON "seasons"("ended_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "season_badges_season_id_user_id_key" ON "season_badges"("season_id", "user_id");
+
+-- CreateIndex
+CREATE INDEX "season_badges_user_id_idx" ON "season_badges"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "leaderboard_snapshots" ADD CONSTRAINT "leaderboard_snapshots_season_id_fkey" FOREIGN KEY ("season_id") REFERENCES "seasons"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "season_badges" ADD CONSTRAINT "season_badges_season_id_fkey" FOREIGN KEY ("season_id") REFERENCES "seasons"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "season_badges" ADD CONSTRAINT "season_badges_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
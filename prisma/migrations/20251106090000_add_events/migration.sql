@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "events" (
+    "id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "multiplier" DOUBLE PRECISION NOT NULL,
+    "audience" TEXT,
+    "starts_at" TIMESTAMP(3) NOT NULL,
+    "ends_at" TIMESTAMP(3) NOT NULL,
+    "announced_at" TIMESTAMP(3),
+    "created_by" BIGINT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "events_starts_at_ends_at_idx" ON "events"("starts_at", "ends_at");
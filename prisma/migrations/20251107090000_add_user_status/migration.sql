@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "user_status" AS ENUM ('active', 'inactive', 'banned', 'unreachable');
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "status" "user_status" NOT NULL DEFAULT 'active';
@@ -0,0 +1,7 @@
+-- CreateTable
+CREATE TABLE "rewarded_invitees" (
+    "telegram_id" BIGINT NOT NULL,
+    "rewarded_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "rewarded_invitees_pkey" PRIMARY KEY ("telegram_id")
+);
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "clans" ADD COLUMN "member_count" INTEGER NOT NULL DEFAULT 0;
+
+-- Backfill
+UPDATE "clans" SET "member_count" = (
+    SELECT COUNT(*) FROM "clan_members" WHERE "clan_members"."clan_id" = "clans"."id"
+);
@@ -2,16 +2,17 @@ import { BaseErrorHandler } from './BaseErrorHandler';
 import { UserNotFoundError, DatabaseError, RedisError, ValidationError } from '../../shared/errors';
 import type { ErrorResponse } from '../../domain/interfaces/IErrorHandler';
 import type { BotContext } from '../../infrastructure/telegram/types';
-import { EMOJIS, ERROR_MESSAGES } from '../../shared/constants';
+import { EMOJIS } from '../../shared/constants';
+import { getTranslator } from '../../shared/i18n';
 
 export class UserNotFoundErrorHandler extends BaseErrorHandler<UserNotFoundError> {
   constructor() {
     super(UserNotFoundError);
   }
 
-  async handle(_error: UserNotFoundError, _ctx: BotContext): Promise<ErrorResponse> {
+  async handle(_error: UserNotFoundError, ctx: BotContext): Promise<ErrorResponse> {
     return {
-      message: `${EMOJIS.INFO} ${ERROR_MESSAGES.NOT_FOUND}`,
+      message: `${EMOJIS.INFO} ${getTranslator(ctx)('errors.notFound')}`,
       shouldReply: true,
       logLevel: 'info',
     };
@@ -23,11 +24,10 @@ export class DatabaseErrorHandler extends BaseErrorHandler<DatabaseError> {
     super(DatabaseError);
   }
 
-  async handle(_error: DatabaseError, _ctx: BotContext): Promise<ErrorResponse> {
+  async handle(_error: DatabaseError, ctx: BotContext): Promise<ErrorResponse> {
+    const t = getTranslator(ctx);
     return {
-      message: `${EMOJIS.ERROR} ${ERROR_MESSAGES.DATABASE_ERROR}
-
-<i>Our team has been notified. Please try again later.</i>`,
+      message: `${EMOJIS.ERROR} ${t('errors.database')}\n\n${t('errors.databaseHint')}`,
       shouldReply: true,
       logLevel: 'error',
     };
@@ -39,11 +39,9 @@ export class RedisErrorHandler extends BaseErrorHandler<RedisError> {
     super(RedisError);
   }
 
-  async handle(_error: RedisError, _ctx: BotContext): Promise<ErrorResponse> {
+  async handle(_error: RedisError, ctx: BotContext): Promise<ErrorResponse> {
     return {
-      message: `${EMOJIS.ERROR} Temporary service issue.
-
-<i>Please try again in a moment.</i>`,
+      message: `${EMOJIS.ERROR} ${getTranslator(ctx)('errors.redis')}`,
       shouldReply: true,
       logLevel: 'error',
     };
@@ -55,17 +53,13 @@ export class ValidationErrorHandler extends BaseErrorHandler<ValidationError> {
     super(ValidationError);
   }
 
-  async handle(error: ValidationError, _ctx: BotContext): Promise<ErrorResponse> {
+  async handle(error: ValidationError, ctx: BotContext): Promise<ErrorResponse> {
     const fieldErrors = Object.entries(error.fields)
       .map(([field, message]) => `• ${field}: ${message}`)
       .join('\n');
 
     return {
-      message: `${EMOJIS.WARNING} <b>Validation Error</b>
-
-${fieldErrors}
-
-<i>Please check your input and try again.</i>`,
+      message: `${EMOJIS.WARNING} ${getTranslator(ctx)('errors.validation', { fields: fieldErrors })}`,
       shouldReply: true,
       logLevel: 'warn',
     };
@@ -1,19 +1,16 @@
 import type { IErrorHandler, ErrorResponse } from '../../domain/interfaces/IErrorHandler';
 import type { BotContext } from '../../infrastructure/telegram/types';
 import { EMOJIS } from '../../shared/constants';
+import { getTranslator } from '../../shared/i18n';
 
 export class FallbackErrorHandler implements IErrorHandler {
   canHandle(_error: unknown): boolean {
     return true;
   }
 
-  async handle(_error: unknown, _ctx: BotContext): Promise<ErrorResponse> {
+  async handle(_error: unknown, ctx: BotContext): Promise<ErrorResponse> {
     return {
-      message: `${EMOJIS.ERROR} <b>Unexpected Error</b>
-
-Something went wrong. Our team has been notified.
-
-<i>Please try again later.</i>`,
+      message: `${EMOJIS.ERROR} ${getTranslator(ctx)('errors.unexpected')}`,
       shouldReply: true,
       logLevel: 'error',
     };
@@ -2,16 +2,17 @@ import { BaseErrorHandler } from './BaseErrorHandler';
 import { SessionExpiredError, InvalidSessionError } from '../../shared/errors';
 import type { ErrorResponse } from '../../domain/interfaces/IErrorHandler';
 import type { BotContext } from '../../infrastructure/telegram/types';
-import { EMOJIS, ERROR_MESSAGES } from '../../shared/constants';
+import { EMOJIS } from '../../shared/constants';
+import { getTranslator } from '../../shared/i18n';
 
 export class SessionExpiredErrorHandler extends BaseErrorHandler<SessionExpiredError> {
   constructor() {
     super(SessionExpiredError);
   }
 
-  async handle(_error: SessionExpiredError, _ctx: BotContext): Promise<ErrorResponse> {
+  async handle(_error: SessionExpiredError, ctx: BotContext): Promise<ErrorResponse> {
     return {
-      message: `${EMOJIS.INFO} ${ERROR_MESSAGES.SESSION_EXPIRED}`,
+      message: `${EMOJIS.INFO} ${getTranslator(ctx)('errors.sessionExpired')}`,
       shouldReply: true,
       shouldClearSession: true,
       logLevel: 'info',
@@ -24,9 +25,9 @@ export class InvalidSessionErrorHandler extends BaseErrorHandler<InvalidSessionE
     super(InvalidSessionError);
   }
 
-  async handle(_error: InvalidSessionError, _ctx: BotContext): Promise<ErrorResponse> {
+  async handle(_error: InvalidSessionError, ctx: BotContext): Promise<ErrorResponse> {
     return {
-      message: `${EMOJIS.WARNING} Invalid session. Please use /start to begin.`,
+      message: `${EMOJIS.WARNING} ${getTranslator(ctx)('errors.invalidSession')}`,
       shouldReply: true,
       shouldClearSession: true,
       logLevel: 'warn',
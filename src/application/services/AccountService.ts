@@ -0,0 +1,225 @@
+import type Redis from 'ioredis';
+import type { Result } from 'ioredis';
+import { randomBytes } from 'crypto';
+import type { PrismaClient } from '../../generated/prisma';
+import { redisClient } from '../../infrastructure/redis/client';
+import type { BatchSaveWorker } from '../workers/BatchSaveWorker';
+import type { ClanService } from './ClanService';
+import type { ILeaderboardRepository } from '../../domain/repositories/ILeaderboardRepository';
+import type { ISessionRepository } from '../../domain/repositories/ISessionRepository';
+import type { IStatsRepository } from '../../domain/repositories/IStatsRepository';
+import { AccountCooldownError, ClanActionError } from '../../shared/errors';
+import { REDIS_KEYS } from '../../shared/constants';
+
+const COOLDOWN_MS = 86400000;
+const CONFIRM_TTL_SECONDS = 120;
+
+/**
+ * Take a player's points back from every clan that still exists.
+ * KEYS[1] = the player's contributions hash, KEYS[2] = the clan leaderboard.
+ */
+const FORFEIT_CLAN_POINTS_SCRIPT = `
+local contributions = redis.call('HGETALL', KEYS[1])
+for i = 1, #contributions, 2 do
+  if redis.call('ZSCORE', KEYS[2], contributions[i]) then
+    redis.call('ZINCRBY', KEYS[2], -tonumber(contributions[i + 1]), contributions[i])
+  end
+end
+redis.call('DEL', KEYS[1])
+return #contributions / 2
+`;
+
+declare module 'ioredis' {
+  interface RedisCommander<Context> {
+    forfeitClanPoints(contributionsKey: string, leaderboardKey: string): Result<number, Context>;
+  }
+}
+
+export const ACCOUNT_WIPE_ACTIONS = ['reset', 'delete'] as const;
+export type AccountWipeAction = (typeof ACCOUNT_WIPE_ACTIONS)[number];
+
+export function isAccountWipeAction(value: unknown): value is AccountWipeAction {
+  return ACCOUNT_WIPE_ACTIONS.includes(value as AccountWipeAction);
+}
+
+/**
+ * Resets a user's progress or deletes their account. Both need a second
+ * confirmation with a short-lived token, are limited to one per day and leave
+ * an audit record behind.
+ */
+export class AccountService {
+  private prisma: PrismaClient;
+  private redis: Redis;
+  private batchSaveWorker: BatchSaveWorker;
+  private leaderboardRepo: ILeaderboardRepository;
+  private sessionRepo: ISessionRepository;
+  private statsRepo: IStatsRepository;
+  private clanService?: ClanService;
+
+  constructor(
+    prisma: PrismaClient,
+    batchSaveWorker: BatchSaveWorker,
+    leaderboardRepo: ILeaderboardRepository,
+    sessionRepo: ISessionRepository,
+    statsRepo: IStatsRepository,
+    clanService?: ClanService,
+  ) {
+    this.prisma = prisma;
+    this.batchSaveWorker = batchSaveWorker;
+    this.leaderboardRepo = leaderboardRepo;
+    this.sessionRepo = sessionRepo;
+    this.statsRepo = statsRepo;
+    this.clanService = clanService;
+    this.redis = redisClient.getClient();
+    this.redis.defineCommand('forfeitClanPoints', {
+      numberOfKeys: 2,
+      lua: FORFEIT_CLAN_POINTS_SCRIPT,
+    });
+  }
+
+  /**
+   * When the user may next reset or delete, or null if they may now
+   */
+  async getCooldownEnd(telegramId: bigint, now: Date = new Date()): Promise<Date | null> {
+    const last = await this.prisma.accountAudit.findFirst({
+      where: { telegramId, createdAt: { gt: new Date(now.getTime() - COOLDOWN_MS) } },
+      orderBy: { createdAt: 'desc' },
+      select: { createdAt: true },
+    });
+    return last ? new Date(last.createdAt.getTime() + COOLDOWN_MS) : null;
+  }
+
+  /**
+   * First step: check the cooldown and issue the token the final
+   * confirmation must present
+   */
+  async requestWipe(
+    userId: string,
+    telegramId: bigint,
+    action: AccountWipeAction,
+  ): Promise<string> {
+    await this.assertNoCooldown(telegramId);
+
+    const token = randomBytes(6).toString('hex');
+    await this.redis.setex(
+      `${REDIS_KEYS.ACCOUNT_CONFIRM}${userId}`,
+      CONFIRM_TTL_SECONDS,
+      `${action}:${token}`,
+    );
+    return token;
+  }
+
+  /**
+   * Second step: carry out the wipe. Returns false when the token is wrong,
+   * already used or expired.
+   */
+  async confirmWipe(
+    userId: string,
+    telegramId: bigint,
+    action: AccountWipeAction,
+    token: string,
+  ): Promise<boolean> {
+    const expected = await this.redis.getdel(`${REDIS_KEYS.ACCOUNT_CONFIRM}${userId}`);
+    if (expected !== `${action}:${token}`) return false;
+
+    await this.assertNoCooldown(telegramId);
+
+    // A deleted owner hands their clan on like any owner who leaves
+    if (action === 'delete') {
+      await this.leaveClan(userId);
+    }
+
+    // Hold off the batch save so no in-flight clicks land after the wipe
+    await this.batchSaveWorker.runExclusive(async () => {
+      await this.wipeDatabase(userId, telegramId, action);
+      await this.wipeRedis(userId, telegramId, action);
+    });
+
+    console.log(`[AccountService] ${action} completed for user ${userId}`);
+    return true;
+  }
+
+  private async assertNoCooldown(telegramId: bigint): Promise<void> {
+    const cooldownEnd = await this.getCooldownEnd(telegramId);
+    if (cooldownEnd) {
+      throw new AccountCooldownError(cooldownEnd);
+    }
+  }
+
+  private async leaveClan(userId: string): Promise<void> {
+    if (!this.clanService) return;
+
+    try {
+      await this.clanService.leave(userId);
+    } catch (error) {
+      if (!(error instanceof ClanActionError && error.reason === 'not_member')) throw error;
+    }
+  }
+
+  private async wipeDatabase(
+    userId: string,
+    telegramId: bigint,
+    action: AccountWipeAction,
+  ): Promise<void> {
+    await this.prisma.$transaction(async (tx) => {
+      const user = await tx.user.findUnique({ where: { id: userId }, select: { score: true } });
+      if (!user) return;
+
+      await tx.accountAudit.create({
+        data: { userId, telegramId, action, previousScore: user.score },
+      });
+      await tx.leaderboardSnapshot.deleteMany({ where: { userId } });
+
+      if (action === 'delete') {
+        // Clicks, sessions, upgrades, streak, achievements and preferences cascade
+        await tx.user.delete({ where: { id: userId } });
+        return;
+      }
+
+      await tx.click.deleteMany({ where: { userId } });
+      await tx.session.deleteMany({ where: { userId } });
+      await tx.userUpgrade.deleteMany({ where: { userId } });
+      await tx.userStreak.deleteMany({ where: { userId } });
+      await tx.userAchievement.deleteMany({ where: { userId } });
+      await tx.user.update({
+        where: { id: userId },
+        data: { score: BigInt(0), seasonScore: BigInt(0) },
+      });
+    });
+  }
+
+  private async wipeRedis(
+    userId: string,
+    telegramId: bigint,
+    action: AccountWipeAction,
+  ): Promise<void> {
+    await this.leaderboardRepo.removeUser(userId);
+    await this.sessionRepo.clearUserSessions(userId);
+    await this.statsRepo.clear(userId);
+
+    const pipeline = this.redis
+      .multi()
+      .del(
+        `${REDIS_KEYS.CLICK_PENDING}${userId}`,
+        `${REDIS_KEYS.SCORE_PENDING}${userId}`,
+        `${REDIS_KEYS.UPGRADES}${userId}`,
+        `${REDIS_KEYS.STREAK}${userId}`,
+        `${REDIS_KEYS.ACHIEVEMENTS}${userId}`,
+        `${REDIS_KEYS.ENERGY}${userId}`,
+      )
+      .hdel(REDIS_KEYS.PASSIVE_INCOME, userId)
+      .hdel(REDIS_KEYS.LEADERBOARD_SNAPSHOT, userId);
+    if (action === 'delete') {
+      // A deleted player's points stay with the clans they played for
+      pipeline
+        .del(`${REDIS_KEYS.CLAN_CONTRIBUTIONS}${userId}`)
+        .del(`${REDIS_KEYS.PREFERENCES}${telegramId}`);
+    } else {
+      pipeline.forfeitClanPoints(
+        `${REDIS_KEYS.CLAN_CONTRIBUTIONS}${userId}`,
+        REDIS_KEYS.CLAN_LEADERBOARD,
+      );
+    }
+    await pipeline.exec();
+  }
+}
@@ -0,0 +1,140 @@
+import type Redis from 'ioredis';
+import { Prisma, type PrismaClient } from '../../generated/prisma';
+import { redisClient } from '../../infrastructure/redis/client';
+import type { QueuedMessageService } from './QueuedMessageService';
+import type { PreferencesService } from './PreferencesService';
+import {
+  ACHIEVEMENT_CATALOGUE,
+  type Achievement,
+  type AchievementProgress,
+} from '../../domain/value-objects/Achievement';
+import { ActionChannels } from '../../domain/value-objects/ActionChannel';
+import { REDIS_KEYS } from '../../shared/constants';
+
+/**
+ * Marks a cached set as loaded from the database, so users without any
+ * achievement do not hit Postgres on every click.
+ */
+const LOADED_MARKER = '__loaded__';
+const CACHE_TTL_SECONDS = 86400;
+
+/**
+ * Evaluates the achievement catalogue against a user's progress, records
+ * new unlocks in Postgres and notifies the user once per achievement
+ */
+export class AchievementService {
+  private prisma: PrismaClient;
+  private redis: Redis;
+  private queuedMessageService: QueuedMessageService;
+  private preferencesService: PreferencesService;
+
+  constructor(
+    prisma: PrismaClient,
+    queuedMessageService: QueuedMessageService,
+    preferencesService: PreferencesService,
+  ) {
+    this.prisma = prisma;
+    this.queuedMessageService = queuedMessageService;
+    this.preferencesService = preferencesService;
+    this.redis = redisClient.getClient();
+  }
+
+  /**
+   * Get the ids of all achievements the user has unlocked
+   */
+  async getUnlockedIds(userId: string): Promise<Set<string>> {
+    const key = `${REDIS_KEYS.ACHIEVEMENTS}${userId}`;
+    const cached = await this.redis.smembers(key);
+
+    if (cached.includes(LOADED_MARKER)) {
+      return new Set(cached.filter((id) => id !== LOADED_MARKER));
+    }
+
+    const rows = await this.prisma.userAchievement.findMany({
+      where: { userId },
+      select: { achievementId: true },
+    });
+    const ids = rows.map((row) => row.achievementId);
+
+    await this.redis.sadd(key, LOADED_MARKER, ...ids);
+    await this.redis.expire(key, CACHE_TTL_SECONDS);
+
+    return new Set(ids);
+  }
+
+  /**
+   * Get the full catalogue with the user's unlock state
+   */
+  async getProgress(
+    userId: string,
+  ): Promise<Array<{ achievement: Achievement; unlocked: boolean }>> {
+    const unlocked = await this.getUnlockedIds(userId);
+    return ACHIEVEMENT_CATALOGUE.map((achievement) => ({
+      achievement,
+      unlocked: unlocked.has(achievement.id),
+    }));
+  }
+
+  /**
+   * Unlock every achievement satisfied by the given progress and notify the user.
+   * Returns the achievements that were unlocked by this call.
+   */
+  async evaluate(
+    userId: string,
+    chatId: string,
+    progress: AchievementProgress,
+  ): Promise<Achievement[]> {
+    const unlocked = await this.getUnlockedIds(userId);
+    const candidates = ACHIEVEMENT_CATALOGUE.filter(
+      (achievement) => !unlocked.has(achievement.id) && achievement.isUnlockedBy(progress),
+    );
+
+    const newlyUnlocked: Achievement[] = [];
+
+    for (const achievement of candidates) {
+      if (await this.recordUnlock(userId, achievement)) {
+        newlyUnlocked.push(achievement);
+        await this.notifyUnlock(chatId, achievement);
+      }
+    }
+
+    return newlyUnlocked;
+  }
+
+  /**
+   * Persist an unlock. The unique (user, achievement) constraint guarantees
+   * concurrent evaluations only report the unlock once.
+   */
+  private async recordUnlock(userId: string, achievement: Achievement): Promise<boolean> {
+    try {
+      await this.prisma.userAchievement.create({
+        data: { userId, achievementId: achievement.id },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        await this.redis.sadd(`${REDIS_KEYS.ACHIEVEMENTS}${userId}`, achievement.id);
+        return false;
+      }
+      console.error(`[Achievements] Failed to record ${achievement.id} for ${userId}:`, error);
+      return false;
+    }
+
+    await this.redis.sadd(`${REDIS_KEYS.ACHIEVEMENTS}${userId}`, achievement.id);
+    return true;
+  }
+
+  private async notifyUnlock(chatId: string, achievement: Achievement): Promise<void> {
+    const t = await this.preferencesService.getTranslator(chatId);
+    await this.queuedMessageService.sendNotification(
+      chatId,
+      t('achievements.unlocked', {
+        emoji: achievement.emoji,
+        title: t(achievement.title),
+        description: t(achievement.description),
+      }),
+      { parse_mode: 'HTML' },
+      ActionChannels.System.notification,
+      'achievements',
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import type { ActionPayloads, ActionType } from '../../domain/interfaces/IMessageQueue';
+
+export type ActionHandler<T extends ActionType> = (
+  chatId: string,
+  payload: ActionPayloads[T],
+) => Promise<void>;
+
+/**
+ * Handlers for queued actions, looked up by name when a job runs. Every
+ * process that works the queue registers the same handlers at startup.
+ */
+export class ActionRegistry {
+  private handlers = new Map<string, (chatId: string, payload: unknown) => Promise<void>>();
+
+  /**
+   * Register the handler for an action type; each type has one handler
+   */
+  register<T extends ActionType>(type: T, handler: ActionHandler<T>): void {
+    if (this.handlers.has(type)) {
+      throw new Error(`Action handler already registered: ${type}`);
+    }
+    this.handlers.set(type, handler as (chatId: string, payload: unknown) => Promise<void>);
+  }
+
+  has(type: string): boolean {
+    return this.handlers.has(type);
+  }
+
+  /**
+   * Run a stored action. Throws for types no handler is registered for.
+   */
+  async execute(type: string, chatId: string, payload: unknown): Promise<void> {
+    const handler = this.handlers.get(type);
+    if (!handler) {
+      throw new Error(`No handler registered for action: ${type}`);
+    }
+    await handler(chatId, payload);
+  }
+}
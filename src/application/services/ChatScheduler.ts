@@ -0,0 +1,165 @@
+import type {
+  ChatQueueEntry,
+  ChatSendLimits,
+  IChatQueueRepository,
+} from '../../domain/repositories/IChatQueueRepository';
+import type { IFloodWaitRepository } from '../../domain/repositories/IFloodWaitRepository';
+import { TELEGRAM_LIMITS } from '../../shared/constants';
+
+/**
+ * Group and supergroup chat ids are negative
+ */
+export function isGroupChat(chatId: string): boolean {
+  return chatId.startsWith('-');
+}
+
+/**
+ * Send limits Telegram applies to a chat
+ */
+export function sendLimitsFor(chatId: string): ChatSendLimits {
+  const minIntervalMs = 1000 / TELEGRAM_LIMITS.MESSAGES_PER_SECOND_PER_CHAT;
+  return isGroupChat(chatId)
+    ? { minIntervalMs, perMinute: TELEGRAM_LIMITS.MESSAGES_PER_MINUTE_PER_CHAT }
+    : { minIntervalMs };
+}
+
+/**
+ * A chat held longer than this is taken as left behind by a process that
+ * stopped mid-turn, and goes back in the ring
+ */
+const MAX_TURN_MS = 30000;
+
+/**
+ * Fair scheduling in front of the send queue. Jobs wait in their chat's own
+ * queue, most urgent first, and chats take turns: each tick walks the ring
+ * of chats once and dispatches one job from every chat whose send limits
+ * allow it, so a busy chat cannot hold up the others. Jobs marked exempt,
+ * such as callback answers and edits, go ahead of the chat's other jobs and
+ * do not count against those limits.
+ * Chats Telegram asked us to pause keep their jobs until the pause ends.
+ */
+export class ChatScheduler<T> {
+  private chatQueue: IChatQueueRepository<T>;
+  private dispatch: (entry: ChatQueueEntry<T>) => Promise<void>;
+  private floodWaits?: IFloodWaitRepository;
+  private readonly intervalMs: number;
+  private readonly maxPerTick: number;
+  private intervalId?: NodeJS.Timeout;
+  private isRunning = false;
+  private ticking = false;
+
+  constructor(
+    chatQueue: IChatQueueRepository<T>,
+    dispatch: (entry: ChatQueueEntry<T>) => Promise<void>,
+    intervalMs: number,
+    maxPerTick: number,
+    floodWaits?: IFloodWaitRepository,
+  ) {
+    this.chatQueue = chatQueue;
+    this.dispatch = dispatch;
+    this.intervalMs = intervalMs;
+    this.maxPerTick = maxPerTick;
+    this.floodWaits = floodWaits;
+  }
+
+  start(): void {
+    if (this.isRunning) return;
+
+    this.isRunning = true;
+    this.intervalId = setInterval(() => {
+      void this.tick();
+    }, this.intervalMs);
+  }
+
+  stop(): void {
+    if (!this.isRunning) return;
+
+    this.isRunning = false;
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = undefined;
+    }
+  }
+
+  async schedule(entry: ChatQueueEntry<T>): Promise<void> {
+    await this.chatQueue.push(entry);
+  }
+
+  /**
+   * Take back a job that has not been dispatched yet
+   */
+  async cancel(chatId: string, id: string): Promise<boolean> {
+    return this.chatQueue.remove(chatId, id);
+  }
+
+  async clear(): Promise<void> {
+    await this.chatQueue.clear();
+  }
+
+  async getPendingCount(): Promise<number> {
+    return this.chatQueue.size();
+  }
+
+  /**
+   * Give every chat waiting its turn once. Returns the number of jobs
+   * dispatched.
+   */
+  async tick(): Promise<number> {
+    // Ticks that run long must not overlap and hand out extra turns
+    if (this.ticking) return 0;
+    this.ticking = true;
+
+    let dispatched = 0;
+    try {
+      await this.chatQueue.recoverChats(MAX_TURN_MS);
+
+      const chats = await this.chatQueue.countChats();
+      for (let turn = 0; turn < chats && dispatched < this.maxPerTick; turn++) {
+        const chatId = await this.chatQueue.nextChat();
+        if (!chatId) break;
+
+        try {
+          if (await this.dispatchNext(chatId)) dispatched++;
+        } finally {
+          await this.chatQueue.releaseChat(chatId);
+        }
+      }
+    } catch (error) {
+      console.error('[ChatScheduler] Failed to dispatch jobs:', error);
+    } finally {
+      this.ticking = false;
+    }
+
+    return dispatched;
+  }
+
+  /**
+   * Dispatch the chat's most urgent job if the chat may send now
+   */
+  private async dispatchNext(chatId: string): Promise<boolean> {
+    if (await this.isPaused(chatId)) return false;
+
+    const next = await this.chatQueue.peek(chatId);
+    if (!next) return false;
+    if (!next.exempt && !(await this.chatQueue.acquireSendSlot(chatId, sendLimitsFor(chatId)))) {
+      return false;
+    }
+
+    // Cancelled since the peek
+    const entry = await this.chatQueue.take(chatId, next.id);
+    if (!entry) return false;
+
+    try {
+      await this.dispatch(entry);
+    } catch (error) {
+      await this.chatQueue.push(entry);
+      throw error;
+    }
+    return true;
+  }
+
+  private async isPaused(chatId: string): Promise<boolean> {
+    if (!this.floodWaits) return false;
+    return (await this.floodWaits.getPauseRemaining(chatId)) > 0;
+  }
+}
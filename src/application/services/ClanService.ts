@@ -0,0 +1,277 @@
+import { randomBytes } from 'crypto';
+import { Prisma, type PrismaClient } from '../../generated/prisma';
+import type { IClanRepository } from '../../domain/repositories/IClanRepository';
+import { User } from '../../domain/entities/User';
+import {
+  CLAN_MAX_MEMBERS,
+  Clan,
+  canChangeRole,
+  canKick,
+  isClanRole,
+  isValidClanName,
+  type ClanMemberInfo,
+  type ClanRole,
+} from '../../domain/value-objects/Clan';
+import { ClanActionError } from '../../shared/errors';
+
+const INVITE_CODE_LENGTH = 8;
+const INVITE_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+/**
+ * `/start` payload of a clan invite link, followed by the invite code
+ */
+export const CLAN_INVITE_PREFIX = 'clan_';
+
+export interface ClanOverview {
+  clan: Clan;
+  role: ClanRole;
+  score: number;
+  rank: number | null;
+}
+
+const CLAN_SELECT = {
+  id: true,
+  name: true,
+  inviteCode: true,
+  members: {
+    select: {
+      userId: true,
+      role: true,
+      joinedAt: true,
+      user: {
+        select: {
+          id: true,
+          telegramId: true,
+          username: true,
+          firstName: true,
+          lastName: true,
+          customName: true,
+        },
+      },
+    },
+  },
+} as const;
+
+type ClanRecord = Prisma.ClanGetPayload<{ select: typeof CLAN_SELECT }>;
+
+function toClan(record: ClanRecord): Clan {
+  return new Clan({
+    id: record.id,
+    name: record.name,
+    inviteCode: record.inviteCode,
+    members: record.members.map(({ userId, role, joinedAt, user }) => ({
+      userId,
+      name: User.fromRecord(user).getDisplayName(),
+      role: isClanRole(role) ? role : 'member',
+      joinedAt,
+    })),
+  });
+}
+
+function generateInviteCode(): string {
+  return [...randomBytes(INVITE_CODE_LENGTH)]
+    .map((byte) => INVITE_CODE_ALPHABET[byte % INVITE_CODE_ALPHABET.length])
+    .join('');
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
+/**
+ * Clans: players team up under an owner, who appoints officers to help
+ * manage the roster. The roster is stored in the database and mirrored to
+ * Redis so every click can add to the team score. Points count from the day
+ * a player joins and stay with the clan when they leave.
+ */
+export class ClanService {
+  private prisma: PrismaClient;
+  private clanRepo: IClanRepository;
+
+  constructor(prisma: PrismaClient, clanRepo: IClanRepository) {
+    this.prisma = prisma;
+    this.clanRepo = clanRepo;
+  }
+
+  /**
+   * The user's clan with their role and the team standing, or null
+   */
+  async getOverview(userId: string): Promise<ClanOverview | null> {
+    const membership = await this.prisma.clanMember.findUnique({
+      where: { userId },
+      select: { role: true, clan: { select: CLAN_SELECT } },
+    });
+    if (!membership) {
+      // Keep the click path from crediting a clan the user no longer belongs to
+      await this.clanRepo.removeMembership(userId);
+      return null;
+    }
+
+    const clan = toClan(membership.clan);
+    await this.clanRepo.setMembership(userId, clan.id);
+    const [score, rank] = await Promise.all([
+      this.clanRepo.getScore(clan.id),
+      this.clanRepo.getRank(clan.id),
+    ]);
+
+    return { clan, role: isClanRole(membership.role) ? membership.role : 'member', score, rank };
+  }
+
+  /**
+   * Found a clan with the user as its owner
+   */
+  async create(userId: string, name: string): Promise<Clan> {
+    const trimmed = name.trim().replace(/\s+/g, ' ');
+    if (!isValidClanName(trimmed)) {
+      throw new ClanActionError('invalid_name');
+    }
+    if (await this.prisma.clanMember.findUnique({ where: { userId }, select: { id: true } })) {
+      throw new ClanActionError('already_member');
+    }
+
+    let record: ClanRecord;
+    try {
+      record = await this.prisma.clan.create({
+        data: {
+          name: trimmed,
+          inviteCode: generateInviteCode(),
+          memberCount: 1,
+          members: { create: { userId, role: 'owner' } },
+        },
+        select: CLAN_SELECT,
+      });
+    } catch (error) {
+      if (!isUniqueViolation(error)) throw error;
+      // Lost a race with another create or join for the same user
+      const fields = String((error as Prisma.PrismaClientKnownRequestError).meta?.['target']);
+      throw new ClanActionError(/user/i.test(fields) ? 'already_member' : 'name_taken');
+    }
+
+    await this.clanRepo.register(record.id, record.name);
+    await this.clanRepo.setMembership(userId, record.id);
+    console.log(`[ClanService] User ${userId} founded clan ${record.id}`);
+
+    return toClan(record);
+  }
+
+  /**
+   * Join the clan behind an invite code
+   */
+  async join(userId: string, inviteCode: string): Promise<Clan> {
+    const code = inviteCode.trim().toUpperCase();
+    const record = await this.prisma.$transaction(async (tx) => {
+      // Claim a seat with a conditional update, so concurrent joins cannot
+      // take the clan past the cap. A failed join rolls the seat back.
+      const { count: seated } = await tx.clan.updateMany({
+        where: { inviteCode: code, memberCount: { lt: CLAN_MAX_MEMBERS } },
+        data: { memberCount: { increment: 1 } },
+      });
+      const clan = await tx.clan.findUnique({ where: { inviteCode: code }, select: { id: true } });
+      if (!clan) throw new ClanActionError('unknown_code');
+      if (seated === 0) throw new ClanActionError('full');
+
+      try {
+        await tx.clanMember.create({ data: { clanId: clan.id, userId, role: 'member' } });
+      } catch (error) {
+        if (isUniqueViolation(error)) throw new ClanActionError('already_member');
+        throw error;
+      }
+
+      return tx.clan.findUniqueOrThrow({ where: { id: clan.id }, select: CLAN_SELECT });
+    });
+
+    await this.clanRepo.setMembership(userId, record.id);
+    console.log(`[ClanService] User ${userId} joined clan ${record.id}`);
+
+    return toClan(record);
+  }
+
+  /**
+   * Leave the user's clan. An owner hands the clan to their successor; the
+   * last member leaving disbands it. Returns the clan left.
+   */
+  async leave(userId: string): Promise<{ clan: Clan; disbanded: boolean }> {
+    const overview = await this.getOverview(userId);
+    if (!overview) throw new ClanActionError('not_member');
+
+    const { clan, role } = overview;
+    const successor = role === 'owner' ? clan.getSuccessor() : undefined;
+    const disbanded = clan.members.length === 1;
+
+    await this.prisma.$transaction(async (tx) => {
+      if (disbanded) {
+        await tx.clan.delete({ where: { id: clan.id } });
+        return;
+      }
+      await tx.clanMember.delete({ where: { userId } });
+      await tx.clan.update({
+        where: { id: clan.id },
+        data: { memberCount: { decrement: 1 } },
+      });
+      if (successor) {
+        await tx.clanMember.update({
+          where: { userId: successor.userId },
+          data: { role: 'owner' },
+        });
+      }
+    });
+
+    await this.clanRepo.removeMembership(userId);
+    if (disbanded) {
+      await this.clanRepo.remove(clan.id);
+    }
+    console.log(
+      `[ClanService] User ${userId} left clan ${clan.id}${disbanded ? ' (disbanded)' : ''}`,
+    );
+
+    return { clan, disbanded };
+  }
+
+  /**
+   * Remove a lower-ranked member from the actor's clan. Returns the member removed.
+   */
+  async kick(actorId: string, targetId: string): Promise<ClanMemberInfo> {
+    const { clan, target } = await this.authorize(actorId, targetId, canKick);
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.clanMember.delete({ where: { userId: target.userId } });
+      await tx.clan.update({
+        where: { id: clan.id },
+        data: { memberCount: { decrement: 1 } },
+      });
+    });
+    await this.clanRepo.removeMembership(target.userId);
+    console.log(`[ClanService] User ${actorId} removed ${target.userId} from clan ${clan.id}`);
+
+    return target;
+  }
+
+  /**
+   * Promote a member to officer or demote an officer back to member.
+   * Returns the member as they were before the change.
+   */
+  async setRole(actorId: string, targetId: string, role: ClanRole): Promise<ClanMemberInfo> {
+    const { target } = await this.authorize(actorId, targetId, (actor, current) =>
+      canChangeRole(actor, current, role),
+    );
+
+    await this.prisma.clanMember.update({ where: { userId: target.userId }, data: { role } });
+
+    return target;
+  }
+
+  private async authorize(
+    actorId: string,
+    targetId: string,
+    allowed: (actor: ClanRole, target: ClanRole) => boolean,
+  ): Promise<{ clan: Clan; target: ClanMemberInfo }> {
+    const overview = await this.getOverview(actorId);
+    if (!overview) throw new ClanActionError('not_member');
+
+    const target = overview.clan.getMember(targetId);
+    if (!target) throw new ClanActionError('unknown_member');
+    if (!allowed(overview.role, target.role)) throw new ClanActionError('forbidden');
+
+    return { clan: overview.clan, target };
+  }
+}
@@ -0,0 +1,130 @@
+import type { AchievementService } from './AchievementService';
+import type { EnergyService } from './EnergyService';
+import type { EventService } from './EventService';
+import type { UpgradeService } from './UpgradeService';
+import type { IClickRepository } from '../../domain/repositories/IClickRepository';
+import type { IClanRepository } from '../../domain/repositories/IClanRepository';
+import type { IDuelRepository } from '../../domain/repositories/IDuelRepository';
+import type { IGroupRepository } from '../../domain/repositories/IGroupRepository';
+import type { ILeaderboardRepository } from '../../domain/repositories/ILeaderboardRepository';
+import type { ISessionRepository } from '../../domain/repositories/ISessionRepository';
+import type { IStatsRepository } from '../../domain/repositories/IStatsRepository';
+import type { User } from '../../domain/entities/User';
+import type { Session } from '../../domain/entities/Session';
+import { Click } from '../../domain/value-objects/Click';
+import type { Combo } from '../../domain/value-objects/Combo';
+import type { Energy } from '../../domain/value-objects/Energy';
+import type { GameEvent } from '../../domain/value-objects/GameEvent';
+
+export interface ClickContext {
+  user: User;
+  session: Session;
+  chatId: string;
+  chatType?: string;
+  /** The player's combo before this click */
+  combo: Combo;
+}
+
+export interface ClickOutcome {
+  points: number;
+  critical: boolean;
+  pendingTotal: number;
+  energy: Energy;
+  combo: Combo;
+  event: GameEvent | null;
+}
+
+/**
+ * Registers a single click: spends its energy, extends the combo, rolls its
+ * points from the user's upgrades and the combo and running event
+ * multipliers, and records them in the
+ * pending counter, session, leaderboards (the player's and their clan's),
+ * running duel, hourly stats and click stream
+ */
+export class ClickService {
+  private clickRepo: IClickRepository;
+  private sessionRepo: ISessionRepository;
+  private leaderboardRepo: ILeaderboardRepository;
+  private groupRepo: IGroupRepository;
+  private clanRepo: IClanRepository;
+  private duelRepo: IDuelRepository;
+  private statsRepo: IStatsRepository;
+  private upgradeService: UpgradeService;
+  private energyService: EnergyService;
+  private achievementService: AchievementService;
+  private eventService: EventService;
+
+  constructor(
+    clickRepo: IClickRepository,
+    sessionRepo: ISessionRepository,
+    leaderboardRepo: ILeaderboardRepository,
+    groupRepo: IGroupRepository,
+    clanRepo: IClanRepository,
+    duelRepo: IDuelRepository,
+    statsRepo: IStatsRepository,
+    upgradeService: UpgradeService,
+    energyService: EnergyService,
+    achievementService: AchievementService,
+    eventService: EventService,
+  ) {
+    this.clickRepo = clickRepo;
+    this.sessionRepo = sessionRepo;
+    this.leaderboardRepo = leaderboardRepo;
+    this.groupRepo = groupRepo;
+    this.clanRepo = clanRepo;
+    this.duelRepo = duelRepo;
+    this.statsRepo = statsRepo;
+    this.upgradeService = upgradeService;
+    this.energyService = energyService;
+    this.achievementService = achievementService;
+    this.eventService = eventService;
+  }
+
+  /**
+   * Register one click. Throws OutOfEnergyError when the user has no energy
+   * left; rate limiting is left to the caller.
+   */
+  async click(context: ClickContext): Promise<ClickOutcome> {
+    const { user, session, chatId, chatType } = context;
+    const energy = await this.energyService.spend(user.id);
+    const combo = context.combo.hit();
+    const power = await this.upgradeService.getClickPower(user.id);
+    const event = await this.eventService.getActiveFor(user);
+    const multiplier = combo.multiplier * (event?.multiplier ?? 1);
+    const { points, critical } = power.withMultiplier(multiplier).roll();
+
+    const click = new Click({ userId: user.id, count: points });
+
+    const pendingTotal = await this.clickRepo.incrementClickCount(user.id, click.count);
+
+    user.addClicks(click.count);
+
+    // Sessions count clicks, not the points they earned
+    session.addClicks(1);
+    await this.sessionRepo.incrementClickCount(session.token, 1);
+
+    await this.leaderboardRepo.incrementScore(user.id, click.count);
+    await this.clanRepo.addMemberPoints(user.id, click.count);
+    // Duels are decided by clicks, so upgrades give no edge
+    await this.duelRepo.addClicks(user.id, 1);
+    await this.statsRepo.recordClick(user.id, click.count);
+    await this.clickRepo.addClickEvent(user.id, click.count);
+
+    if (chatType === 'group' || chatType === 'supergroup') {
+      await this.groupRepo.addMember(chatId, user.id);
+    }
+
+    return { points: click.count, critical, pendingTotal, energy, combo, event };
+  }
+
+  /**
+   * Evaluate achievements after a click
+   */
+  async evaluateAchievements({ user, session, chatId }: ClickContext): Promise<void> {
+    await this.achievementService.evaluate(user.id, chatId, {
+      score: user.score,
+      sessionClicks: session.clickCount,
+      rank: await this.leaderboardRepo.getUserRank(user.id),
+    });
+  }
+}
@@ -0,0 +1,199 @@
+import type Redis from 'ioredis';
+import type { PrismaClient } from '../../generated/prisma';
+import { redisClient } from '../../infrastructure/redis/client';
+import type { QueuedMessageService } from './QueuedMessageService';
+import { DataExport } from '../../domain/value-objects/DataExport';
+import { toDayKey } from '../../domain/value-objects/Streak';
+import { RateLimitError } from '../../shared/errors';
+import { REDIS_KEYS } from '../../shared/constants';
+
+const EXPORT_INTERVAL_SECONDS = 86400;
+
+/**
+ * Collects everything stored about a user and sends it to them as files
+ */
+export class DataExportService {
+  private prisma: PrismaClient;
+  private redis: Redis;
+  private queuedMessageService: QueuedMessageService;
+
+  constructor(prisma: PrismaClient, queuedMessageService: QueuedMessageService) {
+    this.prisma = prisma;
+    this.queuedMessageService = queuedMessageService;
+    this.redis = redisClient.getClient();
+  }
+
+  /**
+   * Assemble the user's data, or null if the user does not exist
+   */
+  async collect(userId: string, now: Date = new Date()): Promise<DataExport | null> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        telegramId: true,
+        username: true,
+        firstName: true,
+        lastName: true,
+        customName: true,
+        referralCode: true,
+        score: true,
+        seasonScore: true,
+        status: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+    });
+    if (!user) return null;
+
+    const [clicks, sessions, leaderboardSnapshots, achievements, upgrades, streak, preferences] =
+      await Promise.all([
+        this.prisma.click.findMany({
+          where: { userId },
+          orderBy: { timestamp: 'asc' },
+          select: { count: true, timestamp: true },
+        }),
+        // Session tokens are credentials and stay out of the export
+        this.prisma.session.findMany({
+          where: { userId },
+          orderBy: { createdAt: 'asc' },
+          select: { isActive: true, lastSeen: true, createdAt: true, expiresAt: true },
+        }),
+        this.prisma.leaderboardSnapshot.findMany({
+          where: { userId },
+          orderBy: { createdAt: 'asc' },
+          select: { rank: true, score: true, username: true, seasonId: true, createdAt: true },
+        }),
+        this.prisma.userAchievement.findMany({
+          where: { userId },
+          orderBy: { unlockedAt: 'asc' },
+          select: { achievementId: true, unlockedAt: true },
+        }),
+        this.prisma.userUpgrade.findMany({
+          where: { userId },
+          select: { upgradeId: true, level: true, createdAt: true, updatedAt: true },
+        }),
+        this.prisma.userStreak.findUnique({
+          where: { userId },
+          select: {
+            currentStreak: true,
+            bestStreak: true,
+            lastClaimDate: true,
+            lastRemindedAt: true,
+            createdAt: true,
+            updatedAt: true,
+          },
+        }),
+        this.prisma.userPreferences.findUnique({
+          where: { userId },
+          select: {
+            notificationsEnabled: true,
+            notifyAchievements: true,
+            notifyReminders: true,
+            notifyEvents: true,
+            notifySocial: true,
+            language: true,
+            theme: true,
+            createdAt: true,
+            updatedAt: true,
+          },
+        }),
+      ]);
+
+    const [referredBy, invitees, clanMember, seasonBadges] = await Promise.all([
+      this.prisma.referral.findUnique({
+        where: { inviteeId: userId },
+        select: { inviterId: true, inviteeBonus: true, rewardedAt: true, createdAt: true },
+      }),
+      this.prisma.referral.findMany({
+        where: { inviterId: userId },
+        orderBy: { createdAt: 'asc' },
+        select: { inviteeId: true, inviterBonus: true, rewardedAt: true, createdAt: true },
+      }),
+      this.prisma.clanMember.findUnique({
+        where: { userId },
+        select: { role: true, joinedAt: true, clan: { select: { name: true } } },
+      }),
+      this.prisma.seasonBadge.findMany({
+        where: { userId },
+        orderBy: { awardedAt: 'asc' },
+        select: { rank: true, awardedAt: true, season: { select: { number: true } } },
+      }),
+    ]);
+
+    const accountHistory = await this.prisma.accountAudit.findMany({
+      where: { telegramId: user.telegramId },
+      orderBy: { createdAt: 'asc' },
+      select: { action: true, previousScore: true, createdAt: true },
+    });
+
+    return new DataExport(
+      {
+        user,
+        clicks,
+        sessions,
+        leaderboardSnapshots,
+        achievements,
+        upgrades,
+        streak,
+        preferences,
+        referredBy,
+        invitees,
+        clan: clanMember && {
+          name: clanMember.clan.name,
+          role: clanMember.role,
+          joinedAt: clanMember.joinedAt,
+        },
+        seasonBadges: seasonBadges.map(({ season, ...badge }) => ({
+          season: season.number,
+          ...badge,
+        })),
+        accountHistory,
+      },
+      now,
+    );
+  }
+
+  /**
+   * Queue the user's data to the chat as a JSON and a CSV file. Allowed once
+   * per day; throws RateLimitError with the time of the next allowed export.
+   * Returns false if the user no longer exists.
+   */
+  async sendExport(userId: string, chatId: string, caption: string): Promise<boolean> {
+    const key = `${REDIS_KEYS.DATA_EXPORT}${userId}`;
+    const claimed = await this.redis.set(key, Date.now(), 'EX', EXPORT_INTERVAL_SECONDS, 'NX');
+    if (!claimed) {
+      const ttl = await this.redis.ttl(key);
+      throw new RateLimitError(new Date(Date.now() + Math.max(ttl, 0) * 1000));
+    }
+
+    let dataExport: DataExport | null;
+    try {
+      dataExport = await this.collect(userId);
+    } catch (error) {
+      // A failed export should not use up the day's allowance
+      await this.redis.del(key);
+      throw error;
+    }
+
+    if (!dataExport) {
+      await this.redis.del(key);
+      return false;
+    }
+
+    const basename = `data-export-${toDayKey(dataExport.exportedAt)}`;
+    await this.queuedMessageService.sendDocument(
+      chatId,
+      { filename: `${basename}.json`, content: dataExport.toJsonFile() },
+      caption,
+      { parse_mode: 'HTML' },
+    );
+    await this.queuedMessageService.sendDocument(chatId, {
+      filename: `${basename}.csv`,
+      content: dataExport.toCsvFile(),
+    });
+
+    console.log(`[DataExportService] Export queued for user ${userId}`);
+    return true;
+  }
+}
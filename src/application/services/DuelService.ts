@@ -0,0 +1,280 @@
+import { randomUUID } from 'crypto';
+import type { PrismaClient } from '../../generated/prisma';
+import type { PreferencesService } from './PreferencesService';
+import type { QueuedMessageService } from './QueuedMessageService';
+import type { UpgradeService } from './UpgradeService';
+import type { IClickRepository } from '../../domain/repositories/IClickRepository';
+import type { IDuelRepository } from '../../domain/repositories/IDuelRepository';
+import type { ILeaderboardRepository } from '../../domain/repositories/ILeaderboardRepository';
+import { User } from '../../domain/entities/User';
+import { ActionChannels } from '../../domain/value-objects/ActionChannel';
+import {
+  DUEL_DURATION_MS,
+  DUEL_INVITE_TTL_SECONDS,
+  Duel,
+  type DuelPlayer,
+} from '../../domain/value-objects/Duel';
+import { DuelActionError } from '../../shared/errors';
+
+/**
+ * Timed duels: a player challenges another by username, optionally wagering
+ * points. Once the opponent accepts, both wagers are escrowed and every click
+ * in the next minute counts toward the duel. The worker then resolves it:
+ * the player with more clicks takes the pot, a draw hands the wagers back.
+ */
+export class DuelService {
+  private prisma: PrismaClient;
+  private duelRepo: IDuelRepository;
+  private clickRepo: IClickRepository;
+  private leaderboardRepo: ILeaderboardRepository;
+  private upgradeService: UpgradeService;
+  private queuedMessageService: QueuedMessageService;
+  private preferencesService: PreferencesService;
+
+  constructor(
+    prisma: PrismaClient,
+    duelRepo: IDuelRepository,
+    clickRepo: IClickRepository,
+    leaderboardRepo: ILeaderboardRepository,
+    upgradeService: UpgradeService,
+    queuedMessageService: QueuedMessageService,
+    preferencesService: PreferencesService,
+  ) {
+    this.prisma = prisma;
+    this.duelRepo = duelRepo;
+    this.clickRepo = clickRepo;
+    this.leaderboardRepo = leaderboardRepo;
+    this.upgradeService = upgradeService;
+    this.queuedMessageService = queuedMessageService;
+    this.preferencesService = preferencesService;
+  }
+
+  /**
+   * Challenge the player with this username from the given chat. The wager
+   * is checked against the challenger's balance now but only taken once the
+   * opponent accepts.
+   */
+  async challenge(
+    challenger: User,
+    chatId: string,
+    username: string,
+    wager: number,
+  ): Promise<Duel> {
+    if (!Number.isSafeInteger(wager) || wager < 0) {
+      throw new DuelActionError('invalid_wager');
+    }
+
+    const opponent = await this.prisma.user.findFirst({
+      where: { username: { equals: username.replace(/^@/, ''), mode: 'insensitive' } },
+      select: {
+        id: true,
+        telegramId: true,
+        username: true,
+        firstName: true,
+        lastName: true,
+        customName: true,
+      },
+    });
+    if (!opponent) throw new DuelActionError('unknown_player');
+    if (opponent.id === challenger.id) throw new DuelActionError('self');
+
+    if (wager > 0 && (await this.upgradeService.getBalance(challenger.id)) < BigInt(wager)) {
+      throw new DuelActionError('insufficient_points');
+    }
+
+    const duel = new Duel({
+      id: randomUUID(),
+      challenger: {
+        userId: challenger.id,
+        telegramId: challenger.telegramId.toString(),
+        chatId,
+        name: challenger.getDisplayName(),
+      },
+      opponent: {
+        userId: opponent.id,
+        telegramId: opponent.telegramId.toString(),
+        chatId: opponent.telegramId.toString(),
+        name: User.fromRecord(opponent).getDisplayName(),
+      },
+      wager,
+    });
+    if (!(await this.duelRepo.create(duel, DUEL_INVITE_TTL_SECONDS))) {
+      throw new DuelActionError('busy');
+    }
+
+    console.log(`[DuelService] User ${challenger.id} challenged ${opponent.id} (duel ${duel.id})`);
+    return duel;
+  }
+
+  /**
+   * Accept a challenge: escrow both wagers and open the click window.
+   * Returns the running duel.
+   */
+  async accept(userId: string, duelId: string): Promise<Duel> {
+    const duel = await this.getPending(userId, duelId);
+
+    const endsAt = Date.now() + DUEL_DURATION_MS;
+    if (!(await this.duelRepo.start(duel.id, endsAt))) {
+      throw new DuelActionError('expired');
+    }
+
+    if (duel.wager > 0) {
+      try {
+        await this.escrow(duel);
+      } catch (error) {
+        await this.duelRepo.remove(duel);
+        throw error;
+      }
+    }
+
+    console.log(`[DuelService] Duel ${duel.id} started`);
+    return duel.withEndsAt(endsAt);
+  }
+
+  /**
+   * Turn a challenge down. Returns the declined duel.
+   */
+  async decline(userId: string, duelId: string): Promise<Duel> {
+    const duel = await this.getPending(userId, duelId);
+    await this.duelRepo.remove(duel);
+    return duel;
+  }
+
+  /**
+   * Resolve every duel whose click window has closed. Returns how many
+   * were resolved. A duel that fails before its payout goes back on the
+   * deadlines for the next run.
+   */
+  async resolveDue(now: number = Date.now()): Promise<number> {
+    let resolved = 0;
+
+    for (const duelId of await this.duelRepo.getDue(now)) {
+      if (!(await this.duelRepo.claim(duelId))) continue;
+
+      try {
+        const duel = await this.duelRepo.get(duelId);
+        if (!duel) continue;
+
+        await this.resolve(duel);
+        resolved++;
+      } catch (error) {
+        console.error(`[DuelService] Failed to resolve duel ${duelId}:`, error);
+        await this.duelRepo.unclaim(duelId, now);
+      }
+    }
+
+    return resolved;
+  }
+
+  private async getPending(userId: string, duelId: string): Promise<Duel> {
+    const duel = await this.duelRepo.get(duelId);
+    if (!duel || duel.isStarted()) throw new DuelActionError('expired');
+    if (duel.opponent.userId !== userId) throw new DuelActionError('not_invited');
+    return duel;
+  }
+
+  /**
+   * Take the wager from both players, counting points still waiting for the
+   * batch save like a shop purchase does
+   */
+  private async escrow(duel: Duel): Promise<void> {
+    const { wager } = duel;
+
+    await this.prisma.$transaction(async (tx) => {
+      for (const player of duel.players) {
+        const pending = await this.clickRepo.getPendingPoints(player.userId);
+        const { count } = await tx.user.updateMany({
+          where: { id: player.userId, score: { gte: BigInt(wager - pending) } },
+          data: { score: { decrement: wager }, updatedAt: new Date() },
+        });
+        if (count === 0) throw new DuelActionError('insufficient_points');
+      }
+    });
+
+    for (const player of duel.players) {
+      await this.leaderboardRepo.deductScore(player.userId, wager);
+    }
+  }
+
+  /**
+   * Hand out the escrowed wagers. They go back exactly where escrow took
+   * them from, the saved score and the global board, so a duel cannot add
+   * to the season or period boards or count as clicks.
+   */
+  private async payOut(payouts: Array<[DuelPlayer, number]>): Promise<void> {
+    await this.prisma.$transaction(async (tx) => {
+      for (const [player, points] of payouts) {
+        await tx.user.updateMany({
+          where: { id: player.userId },
+          data: { score: { increment: points }, updatedAt: new Date() },
+        });
+      }
+    });
+
+    // The payout is saved, so a failure from here on must not pay it again
+    try {
+      for (const [player, points] of payouts) {
+        await this.leaderboardRepo.creditScore(player.userId, points);
+      }
+    } catch (error) {
+      console.error('[DuelService] Failed to credit a duel payout to the leaderboard:', error);
+    }
+  }
+
+  private async resolve(duel: Duel): Promise<void> {
+    const clicks = await this.duelRepo.getClicks(duel.id);
+    const winner = duel.getWinner(clicks);
+
+    if (duel.wager > 0) {
+      await this.payOut(
+        winner ? [[winner, duel.wager * 2]] : duel.players.map((player) => [player, duel.wager]),
+      );
+    }
+
+    try {
+      await this.duelRepo.remove(duel);
+      console.log(
+        `[DuelService] Duel ${duel.id} resolved: ${winner ? `won by ${winner.userId}` : 'draw'}`,
+      );
+
+      for (const player of duel.players) {
+        await this.announce(duel, player, clicks, winner);
+      }
+    } catch (error) {
+      // Paid out already, so the duel must not go back on the deadlines
+      console.error(`[DuelService] Failed to close duel ${duel.id} after its payout:`, error);
+    }
+  }
+
+  private async announce(
+    duel: Duel,
+    recipient: DuelPlayer,
+    clicks: Record<string, number>,
+    winner: DuelPlayer | null,
+  ): Promise<void> {
+    const t = await this.preferencesService.getTranslator(recipient.telegramId);
+
+    let outcome: string;
+    if (winner) {
+      outcome = t('duel.winner', {
+        name: winner.name,
+        prize: duel.wager > 0 ? t('click.points', { count: duel.wager * 2 }) : '',
+      });
+    } else {
+      outcome = t(duel.wager > 0 ? 'duel.drawRefunded' : 'duel.draw');
+    }
+
+    await this.queuedMessageService.sendMessage(
+      recipient.chatId,
+      t('duel.result', {
+        challenger: duel.challenger.name,
+        challengerClicks: clicks[duel.challenger.userId] ?? 0,
+        opponent: duel.opponent.name,
+        opponentClicks: clicks[duel.opponent.userId] ?? 0,
+        outcome,
+      }),
+      { parse_mode: 'HTML' },
+      ActionChannels.Game.results,
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import type { UpgradeService } from './UpgradeService';
+import type { IEnergyRepository } from '../../domain/repositories/IEnergyRepository';
+import { Energy, ENERGY_PER_CLICK } from '../../domain/value-objects/Energy';
+import { OutOfEnergyError } from '../../shared/errors';
+
+/**
+ * The gameplay cap on clicking. Every click spends energy, which refills
+ * over time; the tank size and refill rate grow with upgrades.
+ */
+export class EnergyService {
+  private energyRepo: IEnergyRepository;
+  private upgradeService: UpgradeService;
+
+  constructor(energyRepo: IEnergyRepository, upgradeService: UpgradeService) {
+    this.energyRepo = energyRepo;
+    this.upgradeService = upgradeService;
+  }
+
+  /**
+   * Get the user's energy right now
+   */
+  async getEnergy(userId: string, now: Date = new Date()): Promise<Energy> {
+    const levels = await this.upgradeService.getLevels(userId);
+    return Energy.fromLevels(levels, await this.energyRepo.get(userId), now.getTime());
+  }
+
+  /**
+   * Spend energy for a click and return what is left. Throws
+   * OutOfEnergyError with the time enough has refilled when the tank is empty.
+   */
+  async spend(
+    userId: string,
+    cost: number = ENERGY_PER_CLICK,
+    now: Date = new Date(),
+  ): Promise<Energy> {
+    const levels = await this.upgradeService.getLevels(userId);
+    const tank = Energy.fromLevels(levels, null, now.getTime());
+
+    // Checked and spent in one step, so parallel clicks cannot both spend
+    // the same energy
+    const { spent, energy: stored } = await this.energyRepo.spend(
+      userId,
+      cost,
+      tank,
+      now.getTime(),
+    );
+    const energy = Energy.fromLevels(levels, stored, now.getTime());
+    if (!spent) {
+      throw new OutOfEnergyError(new Date(now.getTime() + energy.msUntil(cost)));
+    }
+    return energy;
+  }
+}
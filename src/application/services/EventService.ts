@@ -0,0 +1,225 @@
+import type { Prisma, PrismaClient } from '../../generated/prisma';
+import type { PreferencesService } from './PreferencesService';
+import type { QueuedMessageService } from './QueuedMessageService';
+import type { IClanRepository } from '../../domain/repositories/IClanRepository';
+import type { IEventRepository } from '../../domain/repositories/IEventRepository';
+import type { User } from '../../domain/entities/User';
+import { ActionChannels } from '../../domain/value-objects/ActionChannel';
+import {
+  GameEvent,
+  MAX_EVENT_MULTIPLIER,
+  NEW_PLAYER_WINDOW_MS,
+  type EventAudience,
+} from '../../domain/value-objects/GameEvent';
+import { EventScheduleError } from '../../shared/errors';
+
+/**
+ * The cache is refreshed at least this often even without a boundary, so
+ * events scheduled on another instance show up
+ */
+const MAX_CACHE_TTL_SECONDS = 300;
+
+export interface EventDraft {
+  title: string;
+  multiplier: number;
+  audience: EventAudience | null;
+  startsAt: Date;
+  endsAt: Date;
+  createdBy: bigint;
+}
+
+/**
+ * Timed score multipliers ("double points weekend") scheduled by admins.
+ * Running events are cached in Redis for the click pipeline, and each event
+ * is announced to its audience once it starts.
+ */
+export class EventService {
+  private prisma: PrismaClient;
+  private eventRepo: IEventRepository;
+  private clanRepo: IClanRepository;
+  private queuedMessageService: QueuedMessageService;
+  private preferencesService: PreferencesService;
+
+  constructor(
+    prisma: PrismaClient,
+    eventRepo: IEventRepository,
+    clanRepo: IClanRepository,
+    queuedMessageService: QueuedMessageService,
+    preferencesService: PreferencesService,
+  ) {
+    this.prisma = prisma;
+    this.eventRepo = eventRepo;
+    this.clanRepo = clanRepo;
+    this.queuedMessageService = queuedMessageService;
+    this.preferencesService = preferencesService;
+  }
+
+  /**
+   * Schedule an event
+   */
+  async schedule(draft: EventDraft, now: Date = new Date()): Promise<GameEvent> {
+    if (
+      !Number.isFinite(draft.multiplier) ||
+      draft.multiplier <= 1 ||
+      draft.multiplier > MAX_EVENT_MULTIPLIER
+    ) {
+      throw new EventScheduleError('invalid_multiplier');
+    }
+    if (
+      isNaN(draft.startsAt.getTime()) ||
+      isNaN(draft.endsAt.getTime()) ||
+      draft.endsAt <= draft.startsAt ||
+      draft.endsAt <= now
+    ) {
+      throw new EventScheduleError('invalid_window');
+    }
+
+    const row = await this.prisma.event.create({ data: draft });
+    await this.eventRepo.clearActive();
+
+    console.log(`[EventService] Event ${row.id} scheduled by ${draft.createdBy}`);
+    return GameEvent.fromRecord(row);
+  }
+
+  /**
+   * Cancel a scheduled or running event
+   */
+  async cancel(eventId: string): Promise<GameEvent> {
+    const row = await this.prisma.event.findUnique({ where: { id: eventId } });
+    if (!row) throw new EventScheduleError('not_found');
+
+    await this.prisma.event.delete({ where: { id: eventId } });
+    await this.eventRepo.clearActive();
+
+    console.log(`[EventService] Event ${eventId} cancelled`);
+    return GameEvent.fromRecord(row);
+  }
+
+  /**
+   * Get running and upcoming events, soonest first
+   */
+  async listUpcoming(now: Date = new Date()): Promise<GameEvent[]> {
+    const rows = await this.prisma.event.findMany({
+      where: { endsAt: { gt: now } },
+      orderBy: { startsAt: 'asc' },
+    });
+    return rows.map((row) => GameEvent.fromRecord(row));
+  }
+
+  /**
+   * Get every running event, from the cache when possible
+   */
+  async getActive(now: Date = new Date()): Promise<GameEvent[]> {
+    const cached = await this.eventRepo.getActive();
+    if (cached) return cached.filter((event) => event.isActive(now));
+
+    const rows = await this.prisma.event.findMany({
+      where: { startsAt: { lte: now }, endsAt: { gt: now } },
+    });
+    const active = rows.map((row) => GameEvent.fromRecord(row));
+
+    // Expire the cache when the next event starts or a running one ends
+    const next = await this.prisma.event.findFirst({
+      where: { startsAt: { gt: now } },
+      orderBy: { startsAt: 'asc' },
+      select: { startsAt: true },
+    });
+    const boundaries = [
+      ...active.map(({ endsAt }) => endsAt.getTime()),
+      ...(next ? [next.startsAt.getTime()] : []),
+    ];
+    const ttlSeconds = Math.ceil((Math.min(...boundaries) - now.getTime()) / 1000);
+    await this.eventRepo.setActive(
+      active,
+      Math.max(1, Math.min(ttlSeconds, MAX_CACHE_TTL_SECONDS)),
+    );
+
+    return active;
+  }
+
+  /**
+   * Get the running event that boosts this user's clicks the most, or null
+   */
+  async getActiveFor(user: User, now: Date = new Date()): Promise<GameEvent | null> {
+    const active = await this.getActive(now);
+    if (active.length === 0) return null;
+
+    const inClan = active.some(({ audience }) => audience === 'clan_members')
+      ? (await this.clanRepo.getMembership(user.id)) !== null
+      : false;
+    const participant = { joinedAt: user.createdAt, inClan };
+
+    let best: GameEvent | null = null;
+    for (const event of active) {
+      if (event.appliesTo(participant, now) && (!best || event.multiplier > best.multiplier)) {
+        best = event;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Announce every event that has started but was not announced yet.
+   * Returns the number of events announced.
+   */
+  async announceStarted(now: Date = new Date()): Promise<number> {
+    const started = await this.prisma.event.findMany({
+      where: { startsAt: { lte: now }, endsAt: { gt: now }, announcedAt: null },
+    });
+
+    let announced = 0;
+    for (const row of started) {
+      // Claim the announcement so only one instance broadcasts it
+      const { count } = await this.prisma.event.updateMany({
+        where: { id: row.id, announcedAt: null },
+        data: { announcedAt: now },
+      });
+      if (count === 0) continue;
+
+      await this.eventRepo.clearActive();
+      const recipients = await this.broadcast(GameEvent.fromRecord(row), now);
+      console.log(`[EventService] Event ${row.id} started, announced to ${recipients} users`);
+      announced++;
+    }
+
+    return announced;
+  }
+
+  private async broadcast(event: GameEvent, now: Date): Promise<number> {
+    const users = await this.prisma.user.findMany({
+      where: this.audienceFilter(event.audience, now),
+      select: { telegramId: true },
+    });
+
+    for (const { telegramId } of users) {
+      const chatId = telegramId.toString();
+      const t = await this.preferencesService.getTranslator(chatId);
+      await this.queuedMessageService.sendNotification(
+        chatId,
+        t('event.started', {
+          title: event.title,
+          multiplier: event.multiplier,
+          duration: t('event.hours', {
+            count: Math.max(1, Math.ceil((event.endsAt.getTime() - now.getTime()) / 3600000)),
+          }),
+        }),
+        { parse_mode: 'HTML' },
+        ActionChannels.System.notification,
+        'events',
+      );
+    }
+
+    return users.length;
+  }
+
+  private audienceFilter(audience: EventAudience | null, now: Date): Prisma.UserWhereInput {
+    switch (audience) {
+      case 'new_players':
+        return { createdAt: { gte: new Date(now.getTime() - NEW_PLAYER_WINDOW_MS) } };
+      case 'clan_members':
+        return { clanMember: { isNot: null } };
+      default:
+        return {};
+    }
+  }
+}
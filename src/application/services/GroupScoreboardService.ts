@@ -0,0 +1,122 @@
+import { GrammyError, type Api } from 'grammy';
+import type { ActionRegistry } from './ActionRegistry';
+import type { QueuedMessageService } from './QueuedMessageService';
+import type { PreferencesService } from './PreferencesService';
+import type { IGroupRepository } from '../../domain/repositories/IGroupRepository';
+import { LeaderboardEntry } from '../../domain/value-objects/LeaderboardEntry';
+import { ActionChannels } from '../../domain/value-objects/ActionChannel';
+import { config } from '../../shared/config/env';
+
+/**
+ * Renders per-group leaderboards and keeps one pinned scoreboard message
+ * per group up to date
+ */
+export class GroupScoreboardService {
+  private api: Api;
+  private groupRepo: IGroupRepository;
+  private queuedMessageService: QueuedMessageService;
+  private preferencesService: PreferencesService;
+  private readonly size = config.groups.scoreboardSize;
+
+  constructor(
+    api: Api,
+    groupRepo: IGroupRepository,
+    queuedMessageService: QueuedMessageService,
+    preferencesService: PreferencesService,
+    actions: ActionRegistry,
+  ) {
+    this.api = api;
+    this.groupRepo = groupRepo;
+    this.queuedMessageService = queuedMessageService;
+    this.preferencesService = preferencesService;
+
+    actions.register('editGroupScoreboard', (chatId, { messageId, text }) =>
+      this.editScoreboard(chatId, messageId, text),
+    );
+    actions.register('postGroupScoreboard', (chatId, { text }) =>
+      this.postScoreboard(chatId, text),
+    );
+  }
+
+  /**
+   * Render the group leaderboard as HTML
+   */
+  async render(chatId: string): Promise<string> {
+    const members = await this.groupRepo.getLeaderboard(chatId, this.size);
+    const memberCount = await this.groupRepo.getMemberCount(chatId);
+    const t = await this.preferencesService.getTranslator(chatId);
+
+    let text = `${t('leaderboard.groupTitle')}\n\n`;
+
+    if (members.length === 0) {
+      text += `${t('leaderboard.groupEmpty')}\n`;
+    } else {
+      for (const member of members) {
+        // Group ranks are not snapshotted, so no movement arrows
+        const entry = new LeaderboardEntry({ ...member, previousRank: member.rank });
+        text += `${entry.format()}\n`;
+      }
+    }
+
+    text += `\n${t('leaderboard.groupPlayers', { count: memberCount })}`;
+    return text;
+  }
+
+  /**
+   * Edit the pinned scoreboard, or post and pin a new one if the group has none
+   */
+  async publish(chatId: string): Promise<void> {
+    const text = await this.render(chatId);
+    const messageId = await this.groupRepo.getScoreboardMessageId(chatId);
+
+    if (messageId) {
+      await this.queuedMessageService.queueNamedAction(
+        chatId,
+        'editGroupScoreboard',
+        { messageId, text },
+        `Group scoreboard update for ${chatId}`,
+        -2,
+        ActionChannels.Social.leaderboard,
+      );
+      return;
+    }
+
+    await this.queuedMessageService.queueNamedAction(
+      chatId,
+      'postGroupScoreboard',
+      { text },
+      `Group scoreboard post for ${chatId}`,
+      -2,
+      ActionChannels.Social.leaderboard,
+    );
+  }
+
+  private async editScoreboard(chatId: string, messageId: number, text: string): Promise<void> {
+    try {
+      await this.api.editMessageText(chatId, messageId, text, { parse_mode: 'HTML' });
+    } catch (error) {
+      if (error instanceof GrammyError && error.description.includes('not found')) {
+        await this.groupRepo.clearScoreboardMessageId(chatId);
+        return;
+      }
+      if (error instanceof GrammyError && error.description.includes('not modified')) {
+        return;
+      }
+      throw error;
+    }
+  }
+
+  private async postScoreboard(chatId: string, text: string): Promise<void> {
+    const message = await this.api.sendMessage(chatId, text, { parse_mode: 'HTML' });
+    await this.groupRepo.setScoreboardMessageId(chatId, message.message_id);
+
+    try {
+      await this.api.pinChatMessage(chatId, message.message_id, {
+        disable_notification: true,
+      });
+    } catch (error) {
+      // The bot needs admin rights to pin, the scoreboard still works unpinned
+      console.warn(`[GroupScoreboard] Could not pin scoreboard in ${chatId}:`, error);
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import type Redis from 'ioredis';
+import { redisClient } from '../../infrastructure/redis/client';
+import type {
+  ILeaderboardRepository,
+  LeaderboardEntry,
+  LeaderboardPeriod,
+} from '../../domain/repositories/ILeaderboardRepository';
+import { REDIS_KEYS } from '../../shared/constants';
+
+const CACHE_TTL_SECONDS = 30;
+const TOP_SIZE = 10;
+
+/**
+ * A player's standing as shown on the shared score card
+ */
+export interface PlayerCard {
+  score: number;
+  rank: number | null;
+  totalPlayers: number;
+}
+
+/**
+ * Data behind inline mode: a player's score card and the current top 10.
+ * Every inline query hits this as the user types, so the top 10 is cached
+ * briefly and shared by all users.
+ */
+export class InlineQueryService {
+  private redis: Redis;
+  private leaderboardRepo: ILeaderboardRepository;
+
+  constructor(leaderboardRepo: ILeaderboardRepository) {
+    this.leaderboardRepo = leaderboardRepo;
+    this.redis = redisClient.getClient();
+  }
+
+  async getTopPlayers(period: LeaderboardPeriod = 'global'): Promise<LeaderboardEntry[]> {
+    const key = `${REDIS_KEYS.INLINE_CACHE}top:${period}`;
+    const cached = await this.redis.get(key);
+    if (cached) {
+      return JSON.parse(cached) as LeaderboardEntry[];
+    }
+
+    const topPlayers = await this.leaderboardRepo.getFullLeaderboard(TOP_SIZE, period);
+    await this.redis.setex(key, CACHE_TTL_SECONDS, JSON.stringify(topPlayers));
+    return topPlayers;
+  }
+
+  async getPlayerCard(userId: string, period: LeaderboardPeriod = 'global'): Promise<PlayerCard> {
+    const [score, rank, totalPlayers] = await Promise.all([
+      this.leaderboardRepo.getUserScore(userId, period),
+      this.leaderboardRepo.getUserRank(userId, period),
+      this.leaderboardRepo.getTotalUsers(period),
+    ]);
+    return { score, rank, totalPlayers };
+  }
+}
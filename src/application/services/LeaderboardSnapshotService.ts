@@ -0,0 +1,145 @@
+import type Redis from 'ioredis';
+import type { PrismaClient } from '../../generated/prisma';
+import { redisClient } from '../../infrastructure/redis/client';
+import type { ILeaderboardRepository } from '../../domain/repositories/ILeaderboardRepository';
+import { config } from '../../shared/config/env';
+import { REDIS_KEYS } from '../../shared/constants';
+
+const DAY_MS = 86400000;
+
+/**
+ * Persists periodic copies of the global leaderboard and answers
+ * "what was this user's rank before" questions from them
+ */
+export class LeaderboardSnapshotService {
+  private prisma: PrismaClient;
+  private redis: Redis;
+  private leaderboardRepo: ILeaderboardRepository;
+  private readonly topSize = config.leaderboard.size;
+
+  constructor(prisma: PrismaClient, leaderboardRepo: ILeaderboardRepository) {
+    this.prisma = prisma;
+    this.leaderboardRepo = leaderboardRepo;
+    this.redis = redisClient.getClient();
+  }
+
+  /**
+   * Snapshot the top N players plus every user who scored today.
+   * Returns the number of rows written.
+   */
+  async takeSnapshot(): Promise<number> {
+    const createdAt = new Date();
+    const ranks = new Map<string, { score: number; rank: number }>();
+
+    const top = await this.leaderboardRepo.getTop(this.topSize);
+    top.forEach(({ userId, score, rank }) => ranks.set(userId, { score, rank }));
+
+    const activeCount = await this.leaderboardRepo.getTotalUsers('daily');
+    const activeToday =
+      activeCount > 0 ? await this.leaderboardRepo.getTop(activeCount, 'daily') : [];
+    for (const { userId } of activeToday) {
+      if (ranks.has(userId)) continue;
+
+      const rank = await this.leaderboardRepo.getUserRank(userId);
+      if (rank !== null) {
+        ranks.set(userId, { score: await this.leaderboardRepo.getUserScore(userId), rank });
+      }
+    }
+
+    if (ranks.size === 0) {
+      return 0;
+    }
+
+    const rows = [];
+    for (const [userId, { score, rank }] of ranks) {
+      rows.push({
+        userId,
+        username: await this.leaderboardRepo.getUserData(userId),
+        score: BigInt(Math.floor(score)),
+        rank,
+        createdAt,
+      });
+    }
+
+    await this.prisma.leaderboardSnapshot.createMany({ data: rows });
+    await this.cacheLatest(rows);
+
+    return rows.length;
+  }
+
+  /**
+   * Get each user's rank in the most recent snapshot.
+   * Users absent from the snapshot are absent from the map.
+   */
+  async getPreviousRanks(userIds: string[]): Promise<Map<string, number>> {
+    const result = new Map<string, number>();
+    if (userIds.length === 0) return result;
+
+    if (!(await this.redis.exists(REDIS_KEYS.LEADERBOARD_SNAPSHOT))) {
+      await this.loadLatestFromDatabase();
+    }
+
+    const ranks = await this.redis.hmget(REDIS_KEYS.LEADERBOARD_SNAPSHOT, ...userIds);
+    userIds.forEach((userId, index) => {
+      const rank = ranks[index];
+      if (rank) {
+        result.set(userId, parseInt(rank, 10));
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * Get the user's rank from the latest snapshot taken at least `agoMs` ago
+   */
+  async getRankAgo(userId: string, agoMs: number = DAY_MS): Promise<number | null> {
+    const snapshot = await this.prisma.leaderboardSnapshot.findFirst({
+      where: {
+        userId,
+        seasonId: null,
+        createdAt: { lte: new Date(Date.now() - agoMs) },
+      },
+      orderBy: { createdAt: 'desc' },
+      select: { rank: true },
+    });
+
+    return snapshot?.rank ?? null;
+  }
+
+  private async loadLatestFromDatabase(): Promise<void> {
+    // Season archives are final standings, not periodic copies
+    const latest = await this.prisma.leaderboardSnapshot.findFirst({
+      where: { seasonId: null },
+      orderBy: { createdAt: 'desc' },
+      select: { createdAt: true },
+    });
+    if (!latest) return;
+
+    const rows = await this.prisma.leaderboardSnapshot.findMany({
+      where: { createdAt: latest.createdAt },
+      select: { userId: true, rank: true },
+    });
+
+    await this.cacheLatest(rows);
+  }
+
+  private async cacheLatest(rows: Array<{ userId: string; rank: number }>): Promise<void> {
+    if (rows.length === 0) return;
+
+    const ranks: Record<string, string> = {};
+    rows.forEach(({ userId, rank }) => {
+      ranks[userId] = rank.toString();
+    });
+
+    await this.redis
+      .multi()
+      .del(REDIS_KEYS.LEADERBOARD_SNAPSHOT)
+      .hset(REDIS_KEYS.LEADERBOARD_SNAPSHOT, ranks)
+      .expire(
+        REDIS_KEYS.LEADERBOARD_SNAPSHOT,
+        Math.ceil((2 * config.leaderboard.snapshotIntervalMs) / 1000),
+      )
+      .exec();
+  }
+}
@@ -1,15 +1,49 @@
+import { randomUUID } from 'crypto';
 import Bull from 'bull';
-import type { Bot, InlineKeyboard } from 'grammy';
+import { GrammyError, InputFile, type Bot, type InlineKeyboard } from 'grammy';
 import type Redis from 'ioredis';
 import type { BotContext } from '../../infrastructure/telegram/types';
 import { TELEGRAM_LIMITS } from '../../shared/constants';
 import { ActionChannel } from '../../domain/value-objects/ActionChannel';
 import { redisClient } from '../../infrastructure/redis/client';
 import { config } from '../../shared/config/env';
-import type { IMessageQueue } from '../../domain/interfaces/IMessageQueue';
-import { TelegramApiError } from '../../shared/errors';
+import { ActionRegistry } from './ActionRegistry';
+import { ChatScheduler } from './ChatScheduler';
+import { ChatQueueRedisRepository } from '../../infrastructure/redis/repositories/chatQueueRepository';
+import { FloodWaitRedisRepository } from '../../infrastructure/redis/repositories/floodWaitRepository';
+import { DeadLetterRedisRepository } from '../../infrastructure/redis/repositories/deadLetterRepository';
+import type { IFloodWaitRepository } from '../../domain/repositories/IFloodWaitRepository';
+import type {
+  DeadLetter,
+  DeadLetterAttempt,
+  IDeadLetterRepository,
+} from '../../domain/repositories/IDeadLetterRepository';
+import type {
+  ActionPayloads,
+  ActionType,
+  IMessageQueue,
+  QueuedDocument,
+  QueuedPhoto,
+  QueueStats,
+} from '../../domain/interfaces/IMessageQueue';
+
+/**
+ * Sends per second across all chats, just under Telegram's limit of 30
+ */
+const GLOBAL_SENDS_PER_SECOND = 28;
+
+/**
+ * Bull runs the lowest priority number first, starting at 1, while queued
+ * jobs run the highest first with 0 as normal. Normal jobs sit here on
+ * Bull's scale.
+ */
+const BULL_NORMAL_PRIORITY = 1000;
+
+function toBullPriority(priority: number): number {
+  return Math.max(1, BULL_NORMAL_PRIORITY - priority);
+}
 
-interface TelegramRateLimitError {
+interface TelegramApiError {
   error_code: number;
   description: string;
   parameters?: {
@@ -17,26 +51,58 @@ interface TelegramRateLimitError {
   };
 }
 
-function isTelegramRateLimitError(error: unknown): error is TelegramRateLimitError {
+function isTelegramApiError(error: unknown): error is TelegramApiError {
+  return typeof error === 'object' && error !== null && 'error_code' in error;
+}
+
+function isTelegramRateLimitError(error: unknown): error is TelegramApiError {
+  return isTelegramApiError(error) && error.error_code === 429;
+}
+
+/**
+ * The user blocked the bot or deleted their account, so nothing sent to
+ * their chat will arrive until they start the bot again
+ */
+function isUnreachableUserError(error: unknown): boolean {
   return (
-    typeof error === 'object' &&
-    error !== null &&
-    'error_code' in error &&
-    (error as TelegramRateLimitError).error_code === 429
+    isTelegramApiError(error) &&
+    error.error_code === 403 &&
+    /bot was blocked by the user|user is deactivated/i.test(error.description ?? '')
+  );
+}
+
+/**
+ * Errors a retry cannot fix: the bot was blocked or removed from the chat
+ * (403), or the chat does not exist (400)
+ */
+function isPermanentTelegramError(error: unknown): error is TelegramApiError {
+  if (!isTelegramApiError(error)) return false;
+  return (
+    error.error_code === 403 ||
+    (error.error_code === 400 && /chat not found/i.test(error.description ?? ''))
   );
 }
 
 interface ActionJob {
-  type: 'message' | 'action' | 'edit';
+  type: 'message' | 'named' | 'action' | 'edit' | 'document' | 'photo';
   chatId: string;
   message?: string;
+  document?: QueuedDocument;
+  photo?: QueuedPhoto;
   options?: {
     parse_mode?: 'HTML' | 'Markdown';
     reply_markup?: InlineKeyboard;
   };
+  /** Lost when the job is stored; only set by the deprecated closure methods */
   action?: () => Promise<void>;
+  actionType?: string;
+  payload?: unknown;
   description?: string;
   priority?: number;
+  /** Place in the chat's queue, kept when the job goes back to the scheduler */
+  sequence?: number;
+  /** Failed attempts so far, kept for the dead-letter store */
+  attempts?: DeadLetterAttempt[];
   channel?: {
     domain: string;
     context: string;
@@ -44,14 +110,47 @@ interface ActionJob {
   };
 }
 
+/**
+ * Named actions that answer a callback or edit a message in place
+ */
+const EXEMPT_ACTIONS = new Set(['answerCallbackQuery', 'editMessageText', 'editGroupScoreboard']);
+
+/**
+ * Callback answers and edits do not post to the chat, so Telegram's per-chat
+ * message limits do not apply to them
+ */
+function isExemptFromChatLimits(data: ActionJob): boolean {
+  return (
+    data.type === 'edit' ||
+    (data.type === 'named' && data.actionType !== undefined && EXEMPT_ACTIONS.has(data.actionType))
+  );
+}
+
 export class MessageQueueService implements IMessageQueue {
   private queue: Bull.Queue<ActionJob>;
   private bot: Bot<BotContext>;
   private redis: Redis;
+  private actions: ActionRegistry;
+  private floodWaits: IFloodWaitRepository;
+  private deadLetters: IDeadLetterRepository<ActionJob>;
+  private scheduler: ChatScheduler<ActionJob>;
+  private unreachableListeners: Array<(chatId: string) => Promise<void>> = [];
   private readonly channelTtl: number;
 
-  constructor(bot: Bot<BotContext>) {
+  constructor(
+    bot: Bot<BotContext>,
+    actions: ActionRegistry = new ActionRegistry(),
+    floodWaits: IFloodWaitRepository = new FloodWaitRedisRepository(
+      config.queue.globalFloodWaitChats,
+    ),
+    deadLetters: IDeadLetterRepository<ActionJob> = new DeadLetterRedisRepository(
+      config.queue.deadLetterLimit,
+    ),
+  ) {
     this.bot = bot;
+    this.actions = actions;
+    this.floodWaits = floodWaits;
+    this.deadLetters = deadLetters;
     this.redis = redisClient.getClient();
     this.channelTtl = config.queue.channelTrackingTtlSeconds;
 
@@ -61,7 +160,7 @@ export class MessageQueueService implements IMessageQueue {
         port: 6379,
       },
       limiter: {
-        max: 28,
+        max: GLOBAL_SENDS_PER_SECOND,
         duration: 1000,
         bounceBack: true,
       },
@@ -76,8 +175,57 @@ export class MessageQueueService implements IMessageQueue {
       },
     });
 
+    // New jobs wait in per-chat queues and reach Bull in turns
+    const dispatchIntervalMs = config.queue.dispatchIntervalMs;
+    this.scheduler = new ChatScheduler(
+      new ChatQueueRedisRepository<ActionJob>(),
+      async ({ id, data, priority, sequence }) => {
+        await this.queue.add(
+          { ...data, sequence },
+          { jobId: id, priority: toBullPriority(priority) },
+        );
+      },
+      dispatchIntervalMs,
+      Math.ceil((GLOBAL_SENDS_PER_SECOND * dispatchIntervalMs) / 1000),
+      this.floodWaits,
+    );
+
+    this.registerTelegramActions();
     this.setupProcessor();
     this.setupEventHandlers();
+    this.scheduler.start();
+  }
+
+  /**
+   * Handlers for the plain Telegram calls any service can queue by name
+   */
+  private registerTelegramActions(): void {
+    this.actions.register('editMessageText', async (chatId, { messageId, text, options }) => {
+      try {
+        await this.bot.api.editMessageText(chatId, messageId, text, options);
+      } catch (error) {
+        // Nothing to retry when the message already shows this text
+        if (error instanceof GrammyError && error.description.includes('not modified')) return;
+        throw error;
+      }
+    });
+    this.actions.register('answerCallbackQuery', async (_chatId, payload) => {
+      await this.bot.api.answerCallbackQuery(payload.callbackQueryId, {
+        text: payload.text,
+        show_alert: payload.showAlert,
+      });
+    });
+    this.actions.register('sendPhoto', async (chatId, { photo, caption, options }) => {
+      await this.sendPhoto(chatId, photo, caption, options);
+    });
+    this.actions.register('deleteMessage', async (chatId, { messageId }) => {
+      await this.bot.api.deleteMessage(chatId, messageId);
+    });
+    this.actions.register('pinChatMessage', async (chatId, payload) => {
+      await this.bot.api.pinChatMessage(chatId, payload.messageId, {
+        disable_notification: payload.disableNotification,
+      });
+    });
   }
 
   private setupProcessor(): void {
@@ -97,7 +245,26 @@ export class MessageQueueService implements IMessageQueue {
           }
         }
 
-        if (data.type === 'action' && data.action) {
+        // Telegram asked us to hold off this chat, or every chat, after the
+        // job was dispatched; the scheduler holds it until the pause ends
+        if ((await this.floodWaits.getPauseRemaining(data.chatId)) > 0) {
+          await this.requeue(job);
+          return { rescheduled: true, reason: 'flood_wait', chatId: data.chatId };
+        }
+
+        if ((data.type === 'action' || data.type === 'edit') && !data.action) {
+          console.warn(
+            `[QUEUE] Job ${job.id} lost its closure when stored, use a named action: ${data.description || 'unknown'}`,
+          );
+          return { skipped: true, reason: 'closure_lost', chatId: data.chatId };
+        }
+
+        if (data.type === 'named' && data.actionType) {
+          await this.actions.execute(data.actionType, data.chatId, data.payload);
+          console.log(
+            `[QUEUE] Action ${data.actionType} executed: ${data.description || 'unknown'}`,
+          );
+        } else if (data.type === 'action' && data.action) {
           await data.action();
           console.log(`[QUEUE] Action executed: ${data.description || 'unknown'}`);
         } else if (data.type === 'message' && data.message) {
@@ -106,21 +273,73 @@ export class MessageQueueService implements IMessageQueue {
         } else if (data.type === 'edit' && data.action) {
           await data.action();
           console.log(`[QUEUE] Edit executed for chat ${data.chatId}`);
+        } else if (data.type === 'document' && data.document) {
+          const { filename, content } = data.document;
+          await this.bot.api.sendDocument(
+            data.chatId,
+            new InputFile(Buffer.from(content, 'utf8'), filename),
+            { caption: data.message, parse_mode: data.options?.parse_mode },
+          );
+          console.log(`[QUEUE] Document ${filename} sent to chat ${data.chatId}`);
+        } else if (data.type === 'photo' && data.photo) {
+          await this.sendPhoto(data.chatId, data.photo, data.message, data.options);
+          console.log(`[QUEUE] Photo ${data.photo.filename} sent to chat ${data.chatId}`);
         }
 
         return { success: true, chatId: data.chatId };
       } catch (error) {
         if (isTelegramRateLimitError(error)) {
           const retryAfter = error.parameters?.retry_after || 1;
-          console.error(`[QUEUE] Rate limited! Retry after ${retryAfter}s`);
-          throw new TelegramApiError(error.error_code, error.description);
+          const global = await this.floodWaits.record(data.chatId, retryAfter * 1000);
+          console.error(
+            `[QUEUE] Rate limited in chat ${data.chatId}${global ? ', pausing all chats' : ''}! Retry after ${retryAfter}s`,
+          );
+          // The scheduler holds the chat until Telegram allows it, and the
+          // retry does not use up an attempt
+          await this.requeue(job);
+          return { rescheduled: true, reason: 'flood_wait', chatId: data.chatId };
+        }
+        if (isUnreachableUserError(error)) {
+          await this.reportUnreachable(data.chatId);
+          return { skipped: true, reason: 'unreachable', chatId: data.chatId };
         }
         console.error(`[QUEUE] Failed to process job for ${data.chatId}:`, error);
+
+        await job.update({
+          ...data,
+          attempts: [
+            ...(data.attempts ?? []),
+            { at: Date.now(), error: error instanceof Error ? error.message : String(error) },
+          ],
+        });
+        if (isPermanentTelegramError(error)) {
+          // Fails the same way every time, so go straight to the dead letters
+          await job.discard();
+        }
         throw error;
       }
     });
   }
 
+  /**
+   * Be told when a user turns out to have blocked the bot or deleted their
+   * account
+   */
+  onUnreachable(listener: (chatId: string) => Promise<void>): void {
+    this.unreachableListeners.push(listener);
+  }
+
+  private async reportUnreachable(chatId: string): Promise<void> {
+    console.warn(`[QUEUE] Chat ${chatId} is unreachable, dropping the message`);
+    for (const listener of this.unreachableListeners) {
+      try {
+        await listener(chatId);
+      } catch (error) {
+        console.error(`[QUEUE] Failed to report unreachable chat ${chatId}:`, error);
+      }
+    }
+  }
+
   private setupEventHandlers(): void {
     this.queue.on('completed', async (job, result) => {
       console.log(`[QUEUE] Job ${job.id} completed:`, result);
@@ -131,6 +350,9 @@ export class MessageQueueService implements IMessageQueue {
       console.error(`[QUEUE] Job ${job?.id} failed:`, err.message);
       if (job) {
         await this.cleanupChannelTracking(job.data);
+        if (job.attemptsMade >= (job.opts.attempts ?? 1) || isPermanentTelegramError(err)) {
+          await this.moveToDeadLetters(job, err);
+        }
       }
     });
 
@@ -157,32 +379,71 @@ export class MessageQueueService implements IMessageQueue {
       await this.removePreviousChannelJob(chatId, channel);
     }
 
-    const job = await this.queue.add(
-      {
-        type: 'message',
-        chatId,
-        message,
-        options,
-        priority,
-        channel: channel
-          ? {
-              domain: channel.domain,
-              context: channel.context,
-              isReplaceable: channel.isReplaceable,
-            }
-          : undefined,
-      },
-      {
-        priority,
-        delay: 0,
-      },
-    );
+    const jobId = await this.enqueue({
+      type: 'message',
+      chatId,
+      message,
+      options,
+      priority,
+      channel: channel
+        ? {
+            domain: channel.domain,
+            context: channel.context,
+            isReplaceable: channel.isReplaceable,
+          }
+        : undefined,
+    });
+
+    if (channel?.isReplaceable) {
+      await this.trackChannelJob(chatId, channel, jobId);
+    }
+  }
+
+  /**
+   * Queue an action by name with a plain-data payload, run by the handler
+   * registered for that name
+   */
+  async queueNamedAction<T extends ActionType>(
+    chatId: string,
+    type: T,
+    payload: ActionPayloads[T],
+    description: string = '',
+    priority = 0,
+    channel?: ActionChannel,
+  ): Promise<void> {
+    if (!this.actions.has(type)) {
+      throw new Error(`No handler registered for action: ${type}`);
+    }
+
+    if (channel?.isReplaceable) {
+      await this.removePreviousChannelJob(chatId, channel);
+    }
+
+    const jobId = await this.enqueue({
+      type: 'named',
+      chatId,
+      actionType: type,
+      payload,
+      description,
+      priority,
+      channel: channel
+        ? {
+            domain: channel.domain,
+            context: channel.context,
+            isReplaceable: channel.isReplaceable,
+          }
+        : undefined,
+    });
 
     if (channel?.isReplaceable) {
-      await this.trackChannelJob(chatId, channel, job.id!.toString());
+      await this.trackChannelJob(chatId, channel, jobId);
     }
   }
 
+  /**
+   * @deprecated The closure does not survive the job being stored in Redis;
+   * use queueNamedAction
+   */
   async queueAction(
     chatId: string,
     action: () => Promise<void>,
@@ -194,32 +455,30 @@ export class MessageQueueService implements IMessageQueue {
       await this.removePreviousChannelJob(chatId, channel);
     }
 
-    const job = await this.queue.add(
-      {
-        type: 'action',
-        chatId,
-        action,
-        description,
-        priority,
-        channel: channel
-          ? {
-              domain: channel.domain,
-              context: channel.context,
-              isReplaceable: channel.isReplaceable,
-            }
-          : undefined,
-      },
-      {
-        priority,
-        delay: 0,
-      },
-    );
+    const jobId = await this.enqueue({
+      type: 'action',
+      chatId,
+      action,
+      description,
+      priority,
+      channel: channel
+        ? {
+            domain: channel.domain,
+            context: channel.context,
+            isReplaceable: channel.isReplaceable,
+          }
+        : undefined,
+    });
 
     if (channel?.isReplaceable) {
-      await this.trackChannelJob(chatId, channel, job.id!.toString());
+      await this.trackChannelJob(chatId, channel, jobId);
     }
   }
 
+  /**
+   * @deprecated The closure does not survive the job being stored in Redis;
+   * use queueNamedAction with editMessageText
+   */
   async queueEdit(
     chatId: string,
     editAction: () => Promise<void>,
@@ -231,32 +490,66 @@ export class MessageQueueService implements IMessageQueue {
       await this.removePreviousChannelJob(chatId, channel);
     }
 
-    const job = await this.queue.add(
-      {
-        type: 'edit',
-        chatId,
-        action: editAction,
-        description,
-        priority,
-        channel: channel
-          ? {
-              domain: channel.domain,
-              context: channel.context,
-              isReplaceable: channel.isReplaceable,
-            }
-          : undefined,
-      },
-      {
-        priority,
-        delay: 0,
-      },
-    );
+    const jobId = await this.enqueue({
+      type: 'edit',
+      chatId,
+      action: editAction,
+      description,
+      priority,
+      channel: channel
+        ? {
+            domain: channel.domain,
+            context: channel.context,
+            isReplaceable: channel.isReplaceable,
+          }
+        : undefined,
+    });
 
     if (channel?.isReplaceable) {
-      await this.trackChannelJob(chatId, channel, job.id!.toString());
+      await this.trackChannelJob(chatId, channel, jobId);
     }
   }
 
+  /**
+   * Queue a file, with the caption sent alongside it
+   */
+  async queueDocument(
+    chatId: string,
+    document: QueuedDocument,
+    caption?: string,
+    options?: ActionJob['options'],
+    priority = 0,
+  ): Promise<void> {
+    await this.enqueue({
+      type: 'document',
+      chatId,
+      document,
+      message: caption,
+      options,
+      priority,
+    });
+  }
+
+  /**
+   * Queue an image, with the caption and keyboard sent alongside it
+   */
+  async queuePhoto(
+    chatId: string,
+    photo: QueuedPhoto,
+    caption?: string,
+    options?: ActionJob['options'],
+    priority = 0,
+  ): Promise<void> {
+    await this.enqueue({
+      type: 'photo',
+      chatId,
+      photo,
+      message: caption,
+      options,
+      priority,
+    });
+  }
+
   /**
    * Broadcast message to multiple users
    */
@@ -274,25 +567,19 @@ export class MessageQueueService implements IMessageQueue {
       chunks.push(chatIds.slice(i, i + chunkSize));
     }
 
+    // Chats take turns in the scheduler, and Bull's limiter paces the sends
     for (let i = 0; i < chunks.length; i++) {
       const chunk = chunks[i];
       if (!chunk) continue;
-      const delay = i * 1000;
 
       for (const chatId of chunk) {
-        await this.queue.add(
-          {
-            type: 'message',
-            chatId,
-            message,
-            options,
-            priority: -1,
-          },
-          {
-            delay,
-            priority: -1,
-          },
-        );
+        await this.enqueue({
+          type: 'message',
+          chatId,
+          message,
+          options,
+          priority: -1,
+        });
       }
 
       console.log(`[BROADCAST] Queued chunk ${i + 1}/${chunks.length}`);
@@ -304,21 +591,61 @@ export class MessageQueueService implements IMessageQueue {
   /**
    * Get queue statistics
    */
-  async getQueueStats(): Promise<{
-    waiting: number;
-    active: number;
-    completed: number;
-    failed: number;
-    delayed: number;
-    paused: number;
-  }> {
+  async getQueueStats(): Promise<QueueStats & { paused: number }> {
     const counts = await this.queue.getJobCounts();
+    const floodWaits = await this.floodWaits.getStats();
+    // Jobs still in their chat's queue are waiting too
+    const scheduled = await this.scheduler.getPendingCount();
     return {
       ...counts,
+      waiting: counts.waiting + scheduled,
       paused: 0,
+      floodWaits: floodWaits.total,
+      globalFloodWaits: floodWaits.global,
+      deadLetters: await this.deadLetters.count(),
     };
   }
 
+  /**
+   * Jobs that failed for good, newest first
+   */
+  async listDeadLetters(offset = 0, limit = 10): Promise<DeadLetter<ActionJob>[]> {
+    return this.deadLetters.list(offset, limit);
+  }
+
+  async getDeadLetter(id: string): Promise<DeadLetter<ActionJob> | null> {
+    return this.deadLetters.get(id);
+  }
+
+  /**
+   * Queue a dead letter's job again with fresh attempts. Returns false when
+   * there is no dead letter with that id.
+   */
+  async replayDeadLetter(id: string): Promise<boolean> {
+    const letter = await this.deadLetters.get(id);
+    if (!letter) return false;
+
+    // A replay joins the end of its chat's queue
+    const jobId = await this.enqueue({ ...letter.data, sequence: undefined });
+    if (letter.data.channel?.isReplaceable) {
+      const channel = ActionChannel.deserialize(letter.data.channel);
+      await this.trackChannelJob(letter.chatId, channel, jobId);
+    }
+
+    await this.deadLetters.remove(id);
+    console.log(`[QUEUE] Replayed dead letter ${id} for ${letter.chatId} as job ${jobId}`);
+    return true;
+  }
+
+  /**
+   * Drop every dead letter. Returns how many there were.
+   */
+  async purgeDeadLetters(): Promise<number> {
+    const purged = await this.deadLetters.purge();
+    console.log(`[QUEUE] Purged ${purged} dead letters`);
+    return purged;
+  }
+
   /**
    * Pause queue processing
    */
@@ -339,6 +666,7 @@ export class MessageQueueService implements IMessageQueue {
    * Clear all jobs from queue
    */
   async clear(): Promise<void> {
+    await this.scheduler.clear();
     await this.queue.empty();
     console.log('[QUEUE] All jobs cleared');
   }
@@ -347,10 +675,75 @@ export class MessageQueueService implements IMessageQueue {
    * Graceful shutdown
    */
   async shutdown(): Promise<void> {
+    this.scheduler.stop();
     await this.queue.close();
     console.log('[QUEUE] Queue closed');
   }
 
+  /**
+   * Hand a new job to the scheduler. Returns its id, which it keeps in Bull.
+   */
+  private async enqueue(data: ActionJob): Promise<string> {
+    const id = randomUUID();
+    await this.scheduler.schedule({
+      id,
+      chatId: data.chatId,
+      priority: data.priority ?? 0,
+      sequence: data.sequence,
+      exempt: isExemptFromChatLimits(data),
+      data,
+    });
+    return id;
+  }
+
+  /**
+   * Hand the job back to the scheduler as a new job, keeping its place in
+   * its chat's queue and as the latest in its channel
+   */
+  private async requeue(job: Bull.Job<ActionJob>): Promise<void> {
+    const id = await this.enqueue(job.data);
+
+    if (job.data.channel) {
+      const channel = ActionChannel.deserialize(job.data.channel);
+      if (await this.isLatestInChannel(job.data.chatId, channel, job.id!.toString())) {
+        await this.trackChannelJob(job.data.chatId, channel, id);
+      }
+    }
+  }
+
+  /**
+   * Keep a job that will not be retried, with its error and attempts
+   */
+  private async moveToDeadLetters(job: Bull.Job<ActionJob>, error: Error): Promise<void> {
+    const { attempts = [], ...data } = job.data;
+
+    await this.deadLetters.add({
+      id: job.id!.toString(),
+      chatId: data.chatId,
+      channel: data.channel ? ActionChannel.deserialize(data.channel).fullName : null,
+      description: data.description || data.actionType || data.type,
+      error: error.message,
+      errorCode: isTelegramApiError(error) ? error.error_code : null,
+      retryable: !isPermanentTelegramError(error),
+      attempts,
+      failedAt: Date.now(),
+      data,
+    });
+    console.warn(`[QUEUE] Job ${job.id} for ${data.chatId} moved to dead letters`);
+  }
+
+  private async sendPhoto(
+    chatId: string,
+    { filename, data }: QueuedPhoto,
+    caption?: string,
+    options?: ActionJob['options'],
+  ): Promise<void> {
+    await this.bot.api.sendPhoto(chatId, new InputFile(Buffer.from(data, 'base64'), filename), {
+      caption,
+      ...options,
+    });
+  }
+
   private async trackChannelJob(
     chatId: string,
     channel: ActionChannel,
@@ -366,6 +759,13 @@ export class MessageQueueService implements IMessageQueue {
 
     if (!previousJobId) return;
 
+    if (await this.scheduler.cancel(chatId, previousJobId)) {
+      console.log(
+        `[QUEUE] Removed superseded job ${previousJobId} for ${chatId} in channel ${channel.fullName}`,
+      );
+      return;
+    }
+
     try {
       const previousJob = await this.queue.getJob(previousJobId);
 
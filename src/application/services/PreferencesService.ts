@@ -0,0 +1,98 @@
+import type Redis from 'ioredis';
+import type { PrismaClient } from '../../generated/prisma';
+import { redisClient } from '../../infrastructure/redis/client';
+import { Preferences, type NotificationCategory } from '../../domain/value-objects/Preferences';
+import { REDIS_KEYS } from '../../shared/constants';
+import { resolveLocale, translator, type TranslateFn } from '../../shared/i18n';
+
+const CACHE_TTL_SECONDS = 86400;
+
+/**
+ * Loads and stores user preferences. Lookups are keyed by Telegram id, which
+ * is also the private chat id notifications are sent to.
+ */
+export class PreferencesService {
+  private prisma: PrismaClient;
+  private redis: Redis;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+    this.redis = redisClient.getClient();
+  }
+
+  /**
+   * Get a user's preferences, falling back to the defaults
+   */
+  async get(telegramId: string): Promise<Preferences> {
+    const key = `${REDIS_KEYS.PREFERENCES}${telegramId}`;
+    const cached = await this.redis.get(key);
+    if (cached) {
+      return new Preferences(JSON.parse(cached));
+    }
+
+    const row = await this.prisma.userPreferences.findFirst({
+      where: { user: { telegramId: BigInt(telegramId) } },
+    });
+    const preferences = row
+      ? new Preferences({
+          notificationsEnabled: row.notificationsEnabled,
+          notifications: {
+            achievements: row.notifyAchievements,
+            reminders: row.notifyReminders,
+            events: row.notifyEvents,
+            social: row.notifySocial,
+          },
+          language: row.language,
+          theme: row.theme,
+        })
+      : Preferences.defaults();
+
+    await this.redis.setex(key, CACHE_TTL_SECONDS, JSON.stringify(preferences));
+    return preferences;
+  }
+
+  /**
+   * Persist a user's preferences
+   */
+  async save(userId: string, telegramId: string, preferences: Preferences): Promise<void> {
+    const { notificationsEnabled, notifications, language, theme } = preferences.toJSON();
+    const data = {
+      notificationsEnabled,
+      notifyAchievements: notifications.achievements,
+      notifyReminders: notifications.reminders,
+      notifyEvents: notifications.events,
+      notifySocial: notifications.social,
+      language,
+      theme,
+    };
+
+    await this.prisma.userPreferences.upsert({
+      where: { userId },
+      create: { userId, ...data },
+      update: data,
+    });
+
+    await this.redis.setex(
+      `${REDIS_KEYS.PREFERENCES}${telegramId}`,
+      CACHE_TTL_SECONDS,
+      JSON.stringify(preferences),
+    );
+  }
+
+  /**
+   * Check whether a notification may be sent to a chat. Only private chats
+   * belong to a user, so group chats are always allowed.
+   */
+  async canNotify(chatId: string, category?: NotificationCategory): Promise<boolean> {
+    if (!/^\d+$/.test(chatId)) return true;
+    return (await this.get(chatId)).allows(category);
+  }
+
+  /**
+   * Translate for a user outside their own updates, e.g. when another
+   * player's action messages them
+   */
+  async getTranslator(telegramId: string): Promise<TranslateFn> {
+    return translator(resolveLocale((await this.get(telegramId)).language));
+  }
+}
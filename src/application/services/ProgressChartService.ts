@@ -0,0 +1,123 @@
+import type Redis from 'ioredis';
+import { redisClient } from '../../infrastructure/redis/client';
+import {
+  renderBarChart,
+  renderLineChart,
+  type ChartSeries,
+} from '../../infrastructure/charts/ChartRenderer';
+import type { StatisticsService } from './StatisticsService';
+import type { QueuedMessageService } from './QueuedMessageService';
+import type { ClickHistory, StatsPeriod } from '../../domain/value-objects/ClickHistory';
+import { REDIS_KEYS } from '../../shared/constants';
+
+const CACHE_TTL_SECONDS = 300;
+
+export interface ProgressCharts {
+  score: Buffer;
+  clicks: Buffer;
+}
+
+/**
+ * Clicks and points earned per hour for a single day, per day otherwise
+ */
+function toSeries(history: ClickHistory): { clicks: ChartSeries; points: ChartSeries } {
+  if (history.period === 'day') {
+    const labels = Array.from({ length: 24 }, (_, hour) => String(hour));
+    return {
+      clicks: { labels, values: history.hourOfDayTotals() },
+      points: { labels, values: history.hourOfDayPoints() },
+    };
+  }
+
+  const days = history.dailyTotals();
+  const labels = days.map(({ day }) => String(day.getUTCDate()));
+  return {
+    clicks: { labels, values: days.map(({ clicks }) => clicks) },
+    points: { labels, values: history.dailyPoints() },
+  };
+}
+
+/**
+ * Renders a player's progress as PNG charts and sends them as photos. Charts
+ * are cached for a few minutes so repeated requests do not re-render.
+ */
+export class ProgressChartService {
+  private redis: Redis;
+  private statisticsService: StatisticsService;
+  private queuedMessageService: QueuedMessageService;
+
+  constructor(statisticsService: StatisticsService, queuedMessageService: QueuedMessageService) {
+    this.statisticsService = statisticsService;
+    this.queuedMessageService = queuedMessageService;
+    this.redis = redisClient.getClient();
+  }
+
+  /**
+   * Score gained over the period (points from clicks, passive income and
+   * rewards) as a line chart, and clicks per day (per hour for a
+   * single day) as a bar chart
+   */
+  async render(
+    userId: string,
+    period: StatsPeriod,
+    offset: number = 0,
+    now: Date = new Date(),
+  ): Promise<ProgressCharts> {
+    const key = `${REDIS_KEYS.CHART_CACHE}${userId}:${period}:${offset}`;
+    const cached = await this.redis.hgetall(key);
+    if (cached['score'] && cached['clicks']) {
+      return {
+        score: Buffer.from(cached['score'], 'base64'),
+        clicks: Buffer.from(cached['clicks'], 'base64'),
+      };
+    }
+
+    const history = await this.statisticsService.getHistory(userId, period, offset, now);
+    const series = toSeries(history);
+    let runningTotal = 0;
+    const scoreSeries = {
+      labels: series.points.labels,
+      values: series.points.values.map((points) => (runningTotal += points)),
+    };
+
+    const charts = { score: renderLineChart(scoreSeries), clicks: renderBarChart(series.clicks) };
+    await this.redis
+      .multi()
+      .hset(key, {
+        score: charts.score.toString('base64'),
+        clicks: charts.clicks.toString('base64'),
+      })
+      .expire(key, CACHE_TTL_SECONDS)
+      .exec();
+
+    return charts;
+  }
+
+  /**
+   * Queue both charts to the chat, each with its caption
+   */
+  async sendCharts(
+    userId: string,
+    chatId: string,
+    period: StatsPeriod,
+    offset: number,
+    captions: { score: string; clicks: string },
+  ): Promise<void> {
+    const charts = await this.render(userId, period, offset);
+
+    await this.queuedMessageService.sendPhoto(
+      chatId,
+      { filename: `score-${period}.png`, data: charts.score.toString('base64') },
+      captions.score,
+      { parse_mode: 'HTML' },
+    );
+    await this.queuedMessageService.sendPhoto(
+      chatId,
+      { filename: `clicks-${period}.png`, data: charts.clicks.toString('base64') },
+      captions.clicks,
+      { parse_mode: 'HTML' },
+    );
+
+    console.log(`[ProgressChartService] Charts queued for user ${userId}`);
+  }
+}
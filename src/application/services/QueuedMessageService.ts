@@ -1,12 +1,30 @@
 import type { InlineKeyboard } from 'grammy';
 import type { MessageQueueService } from './MessageQueueService';
+import type { PreferencesService } from './PreferencesService';
+import type { UserStatusService } from './UserStatusService';
 import type { ActionChannel } from '../../domain/value-objects/ActionChannel';
+import type {
+  ActionPayloads,
+  ActionType,
+  QueuedDocument,
+  QueuedPhoto,
+} from '../../domain/interfaces/IMessageQueue';
+import type { NotificationCategory } from '../../domain/value-objects/Preferences';
+import { DEFAULT_LOCALE, translator } from '../../shared/i18n';
 
 export class QueuedMessageService {
   private messageQueue: MessageQueueService;
+  private preferencesService?: PreferencesService;
+  private userStatusService?: UserStatusService;
 
-  constructor(messageQueue: MessageQueueService) {
+  constructor(
+    messageQueue: MessageQueueService,
+    preferencesService?: PreferencesService,
+    userStatusService?: UserStatusService,
+  ) {
     this.messageQueue = messageQueue;
+    this.preferencesService = preferencesService;
+    this.userStatusService = userStatusService;
   }
 
   async sendMessage(
@@ -58,7 +76,10 @@ export class QueuedMessageService {
       reply_markup?: InlineKeyboard;
     },
     channel?: ActionChannel,
+    category?: NotificationCategory,
   ): Promise<void> {
+    if (!(await this.isNotificationAllowed(chatId, category))) return;
+
     try {
       await this.messageQueue.queueMessage(chatId, message, options, -1, channel);
     } catch (error) {
@@ -66,6 +87,37 @@ export class QueuedMessageService {
     }
   }
 
+  async sendDocument(
+    chatId: string,
+    document: QueuedDocument,
+    caption?: string,
+    options?: {
+      parse_mode?: 'HTML' | 'Markdown';
+    },
+  ): Promise<void> {
+    try {
+      await this.messageQueue.queueDocument(chatId, document, caption, options);
+    } catch (error) {
+      console.error(`[QueuedMessage] Failed to queue document for ${chatId}:`, error);
+    }
+  }
+
+  async sendPhoto(
+    chatId: string,
+    photo: QueuedPhoto,
+    caption?: string,
+    options?: {
+      parse_mode?: 'HTML' | 'Markdown';
+      reply_markup?: InlineKeyboard;
+    },
+  ): Promise<void> {
+    try {
+      await this.messageQueue.queuePhoto(chatId, photo, caption, options);
+    } catch (error) {
+      console.error(`[QueuedMessage] Failed to queue photo for ${chatId}:`, error);
+    }
+  }
+
   async broadcastMessage(
     chatIds: string[],
     message: string,
@@ -73,9 +125,15 @@ export class QueuedMessageService {
       parse_mode?: 'HTML' | 'Markdown';
       reply_markup?: InlineKeyboard;
     },
+    category?: NotificationCategory,
   ): Promise<void> {
-    console.warn(`[QueuedMessage] Broadcasting to ${chatIds.length} users`);
-    await this.messageQueue.broadcastMessage(chatIds, message, options);
+    const recipients: string[] = [];
+    for (const chatId of chatIds) {
+      if (await this.isNotificationAllowed(chatId, category)) recipients.push(chatId);
+    }
+
+    console.warn(`[QueuedMessage] Broadcasting to ${recipients.length} users`);
+    await this.messageQueue.broadcastMessage(recipients, message, options);
   }
 
   async sendLeaderboardUpdate(
@@ -87,6 +145,8 @@ export class QueuedMessageService {
     },
     channel?: ActionChannel,
   ): Promise<void> {
+    if (!(await this.isNotificationAllowed(chatId))) return;
+
     try {
       await this.messageQueue.queueMessage(chatId, leaderboard, options, -2, channel);
     } catch (error) {
@@ -102,8 +162,11 @@ export class QueuedMessageService {
     },
     channel?: ActionChannel,
   ): Promise<void> {
-    const message = `❌ <b>Error</b>\n\n${errorMessage}`;
     try {
+      const t = this.preferencesService
+        ? await this.preferencesService.getTranslator(chatId)
+        : translator(DEFAULT_LOCALE);
+      const message = t('errors.queued', { message: errorMessage });
       await this.messageQueue.queueMessage(
         chatId,
         message,
@@ -116,6 +179,32 @@ export class QueuedMessageService {
     }
   }
 
+  async queueNamedAction<T extends ActionType>(
+    chatId: string,
+    type: T,
+    payload: ActionPayloads[T],
+    description: string = '',
+    priority: number = 0,
+    channel?: ActionChannel,
+  ): Promise<void> {
+    try {
+      await this.messageQueue.queueNamedAction(
+        chatId,
+        type,
+        payload,
+        description,
+        priority,
+        channel,
+      );
+    } catch (error) {
+      console.error(`[QueuedMessage] Failed to queue ${type} action for ${chatId}:`, error);
+    }
+  }
+
+  /**
+   * @deprecated The closure does not survive the job being stored in Redis;
+   * use queueNamedAction
+   */
   async queueNavigationAction(
     chatId: string,
     action: () => Promise<void>,
@@ -130,6 +219,10 @@ export class QueuedMessageService {
     }
   }
 
+  /**
+   * @deprecated The closure does not survive the job being stored in Redis;
+   * use queueNamedAction with editMessageText
+   */
   async queueMessageEdit(
     chatId: string,
     editAction: () => Promise<void>,
@@ -144,6 +237,26 @@ export class QueuedMessageService {
     }
   }
 
+  /**
+   * Check the recipient can be reached and their notification opt-outs.
+   * Sends go ahead if either cannot be read.
+   */
+  private async isNotificationAllowed(
+    chatId: string,
+    category?: NotificationCategory,
+  ): Promise<boolean> {
+    try {
+      if (this.userStatusService && !(await this.userStatusService.isReachable(chatId))) {
+        return false;
+      }
+      if (!this.preferencesService) return true;
+      return await this.preferencesService.canNotify(chatId, category);
+    } catch (error) {
+      console.error(`[QueuedMessage] Failed to read preferences or status for ${chatId}:`, error);
+      return true;
+    }
+  }
+
   /**
    * Get queue statistics
    */
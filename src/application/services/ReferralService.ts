@@ -0,0 +1,280 @@
+import { randomBytes } from 'crypto';
+import { Prisma, type PrismaClient } from '../../generated/prisma';
+import type { QueuedMessageService } from './QueuedMessageService';
+import type { PreferencesService } from './PreferencesService';
+import type { IClickRepository } from '../../domain/repositories/IClickRepository';
+import type { ILeaderboardRepository } from '../../domain/repositories/ILeaderboardRepository';
+import { User } from '../../domain/entities/User';
+import { ActionChannels } from '../../domain/value-objects/ActionChannel';
+import { ReferralNotAllowedError } from '../../shared/errors';
+import type { MessageKey, MessageParams } from '../../shared/i18n';
+
+const CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+const CODE_LENGTH = 8;
+const CODE_ATTEMPTS = 3;
+const NEW_ACCOUNT_WINDOW_MS = 3600000;
+const SUMMARY_LIMIT = 20;
+
+/**
+ * `/start` payload of a referral link, followed by the inviter's code
+ */
+export const REFERRAL_PREFIX = 'ref_';
+
+/**
+ * Both sides are paid once the invitee's saved score reaches the threshold
+ */
+export const REFERRAL_REWARDS = {
+  threshold: 1000,
+  inviter: 500,
+  invitee: 250,
+} as const;
+
+export interface ReferralSummary {
+  code: string;
+  invitees: Array<{ name: string; score: bigint; rewarded: boolean; joinedAt: Date }>;
+  totalInvited: number;
+  totalEarned: number;
+}
+
+const USER_NAME_SELECT = {
+  id: true,
+  telegramId: true,
+  username: true,
+  firstName: true,
+  lastName: true,
+  customName: true,
+} as const;
+
+function displayName(record: Parameters<typeof User.fromRecord>[0]): string {
+  return User.fromRecord(record).getDisplayName();
+}
+
+function generateCode(): string {
+  return [...randomBytes(CODE_LENGTH)]
+    .map((byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length])
+    .join('');
+}
+
+/**
+ * Referral links: each user gets a code for `t.me/<bot>?start=ref_<code>`.
+ * Only brand-new accounts can be referred, once, and never by themselves.
+ * A Telegram account is paid as an invitee at most once, even if it is
+ * deleted and starts over.
+ */
+export class ReferralService {
+  private prisma: PrismaClient;
+  private clickRepo: IClickRepository;
+  private leaderboardRepo: ILeaderboardRepository;
+  private queuedMessageService: QueuedMessageService;
+  private preferencesService: PreferencesService;
+
+  constructor(
+    prisma: PrismaClient,
+    clickRepo: IClickRepository,
+    leaderboardRepo: ILeaderboardRepository,
+    queuedMessageService: QueuedMessageService,
+    preferencesService: PreferencesService,
+  ) {
+    this.prisma = prisma;
+    this.clickRepo = clickRepo;
+    this.leaderboardRepo = leaderboardRepo;
+    this.queuedMessageService = queuedMessageService;
+    this.preferencesService = preferencesService;
+  }
+
+  /**
+   * The user's referral code, created on first use
+   */
+  async getCode(userId: string): Promise<string> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { referralCode: true },
+    });
+    if (user?.referralCode) return user.referralCode;
+
+    for (let attempt = 1; ; attempt++) {
+      const code = generateCode();
+      try {
+        // Only set it if still empty, in case two requests race
+        const { count } = await this.prisma.user.updateMany({
+          where: { id: userId, referralCode: null },
+          data: { referralCode: code },
+        });
+        if (count > 0) return code;
+
+        const current = await this.prisma.user.findUnique({
+          where: { id: userId },
+          select: { referralCode: true },
+        });
+        if (!current?.referralCode) throw new Error(`User ${userId} not found`);
+        return current.referralCode;
+      } catch (error) {
+        const collision =
+          error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+        if (!collision || attempt >= CODE_ATTEMPTS) throw error;
+      }
+    }
+  }
+
+  /**
+   * Link a new player to the owner of the code. Returns the inviter's name;
+   * throws ReferralNotAllowedError when a rule is broken.
+   */
+  async register(
+    invitee: { id: string; telegramId: bigint; createdAt: Date },
+    code: string,
+    now: Date = new Date(),
+  ): Promise<string> {
+    const inviter = await this.prisma.user.findUnique({
+      where: { referralCode: code },
+      select: USER_NAME_SELECT,
+    });
+
+    if (!inviter) throw new ReferralNotAllowedError('unknown_code');
+    if (inviter.id === invitee.id) throw new ReferralNotAllowedError('self');
+    if (now.getTime() - invitee.createdAt.getTime() > NEW_ACCOUNT_WINDOW_MS) {
+      throw new ReferralNotAllowedError('not_new');
+    }
+
+    const rewarded = await this.prisma.rewardedInvitee.findUnique({
+      where: { telegramId: invitee.telegramId },
+    });
+    if (rewarded) throw new ReferralNotAllowedError('already_referred');
+
+    try {
+      await this.prisma.referral.create({
+        data: { inviterId: inviter.id, inviteeId: invitee.id },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ReferralNotAllowedError('already_referred');
+      }
+      throw error;
+    }
+
+    console.log(`[ReferralService] User ${invitee.id} referred by ${inviter.id}`);
+    return displayName(inviter);
+  }
+
+  /**
+   * Pay out the referrals whose invitee has reached the threshold, given
+   * freshly saved scores. Returns the number of referrals rewarded.
+   */
+  async rewardQualified(savedUsers: Array<{ userId: string; score: bigint }>): Promise<number> {
+    const qualified = savedUsers
+      .filter(({ score }) => score >= BigInt(REFERRAL_REWARDS.threshold))
+      .map(({ userId }) => userId);
+    if (qualified.length === 0) return 0;
+
+    const pending = await this.prisma.referral.findMany({
+      where: { inviteeId: { in: qualified }, rewardedAt: null },
+      select: {
+        id: true,
+        inviter: { select: USER_NAME_SELECT },
+        invitee: { select: USER_NAME_SELECT },
+      },
+    });
+
+    let rewarded = 0;
+    for (const { id, inviter, invitee } of pending) {
+      const paid = await this.prisma.$transaction(async (tx) => {
+        // Guard on rewardedAt so overlapping batches only pay once
+        const { count } = await tx.referral.updateMany({
+          where: { id, rewardedAt: null },
+          data: {
+            rewardedAt: new Date(),
+            inviterBonus: REFERRAL_REWARDS.inviter,
+            inviteeBonus: REFERRAL_REWARDS.invitee,
+          },
+        });
+        if (count === 0) return false;
+
+        const { count: firstReward } = await tx.rewardedInvitee.createMany({
+          data: [{ telegramId: invitee.telegramId }],
+          skipDuplicates: true,
+        });
+        if (firstReward === 0) {
+          await tx.referral.update({
+            where: { id },
+            data: { inviterBonus: 0, inviteeBonus: 0 },
+          });
+        }
+        return firstReward > 0;
+      });
+      if (!paid) continue;
+
+      await this.credit(inviter.id, REFERRAL_REWARDS.inviter);
+      await this.credit(invitee.id, REFERRAL_REWARDS.invitee);
+      rewarded++;
+
+      await this.notify(inviter.telegramId, 'referral.rewardInviter', {
+        name: displayName(invitee),
+        threshold: REFERRAL_REWARDS.threshold,
+        points: REFERRAL_REWARDS.inviter,
+      });
+      await this.notify(invitee.telegramId, 'referral.rewardInvitee', {
+        name: displayName(inviter),
+        threshold: REFERRAL_REWARDS.threshold,
+        points: REFERRAL_REWARDS.invitee,
+      });
+    }
+
+    return rewarded;
+  }
+
+  /**
+   * The user's code, their most recent invitees and the bonuses earned
+   */
+  async getSummary(userId: string): Promise<ReferralSummary> {
+    const code = await this.getCode(userId);
+    const [referrals, totalInvited, earned] = await Promise.all([
+      this.prisma.referral.findMany({
+        where: { inviterId: userId },
+        orderBy: { createdAt: 'desc' },
+        take: SUMMARY_LIMIT,
+        select: {
+          rewardedAt: true,
+          createdAt: true,
+          invitee: { select: { ...USER_NAME_SELECT, score: true } },
+        },
+      }),
+      this.prisma.referral.count({ where: { inviterId: userId } }),
+      this.prisma.referral.aggregate({
+        where: { inviterId: userId },
+        _sum: { inviterBonus: true },
+      }),
+    ]);
+
+    return {
+      code,
+      invitees: referrals.map(({ rewardedAt, createdAt, invitee }) => ({
+        name: displayName(invitee),
+        score: invitee.score,
+        rewarded: rewardedAt !== null,
+        joinedAt: createdAt,
+      })),
+      totalInvited,
+      totalEarned: earned._sum.inviterBonus ?? 0,
+    };
+  }
+
+  /**
+   * Bonuses go to the pending score for the batch save, not recorded as
+   * clicks, and straight onto the leaderboards
+   */
+  private async credit(userId: string, points: number): Promise<void> {
+    await this.clickRepo.incrementPendingScore(userId, points);
+    await this.leaderboardRepo.incrementScore(userId, points);
+  }
+
+  private async notify(telegramId: bigint, key: MessageKey, params: MessageParams): Promise<void> {
+    const t = await this.preferencesService.getTranslator(telegramId.toString());
+    await this.queuedMessageService.sendNotification(
+      telegramId.toString(),
+      t(key, params),
+      { parse_mode: 'HTML' },
+      ActionChannels.System.notification,
+      'social',
+    );
+  }
+}
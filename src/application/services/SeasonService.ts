@@ -0,0 +1,217 @@
+import { Prisma, type PrismaClient } from '../../generated/prisma';
+import type { BatchSaveWorker } from '../workers/BatchSaveWorker';
+import type { PreferencesService } from './PreferencesService';
+import type { QueuedMessageService } from './QueuedMessageService';
+import type { ILeaderboardRepository } from '../../domain/repositories/ILeaderboardRepository';
+import { ActionChannels } from '../../domain/value-objects/ActionChannel';
+import {
+  Season,
+  badgeEmoji,
+  isBadgeRank,
+  type SeasonBadgeInfo,
+} from '../../domain/value-objects/Season';
+import { config } from '../../shared/config/env';
+
+const DAY_MS = 86400000;
+
+type Standing = { userId: string; score: number; rank: number };
+
+/**
+ * Seasons split the game into fixed-length rounds. Points earned during a
+ * season are ranked on their own board next to the lifetime one. When a
+ * season ends its final standings are archived as leaderboard snapshots,
+ * the top players get a badge and the season board starts over.
+ */
+export class SeasonService {
+  private prisma: PrismaClient;
+  private leaderboardRepo: ILeaderboardRepository;
+  private batchSaveWorker: BatchSaveWorker;
+  private queuedMessageService: QueuedMessageService;
+  private preferencesService: PreferencesService;
+  private readonly lengthMs = config.seasons.lengthDays * DAY_MS;
+
+  constructor(
+    prisma: PrismaClient,
+    leaderboardRepo: ILeaderboardRepository,
+    batchSaveWorker: BatchSaveWorker,
+    queuedMessageService: QueuedMessageService,
+    preferencesService: PreferencesService,
+  ) {
+    this.prisma = prisma;
+    this.leaderboardRepo = leaderboardRepo;
+    this.batchSaveWorker = batchSaveWorker;
+    this.queuedMessageService = queuedMessageService;
+    this.preferencesService = preferencesService;
+  }
+
+  /**
+   * Get the running season, opening the first one if there is none yet
+   */
+  async getCurrent(now: Date = new Date()): Promise<Season> {
+    const open = await this.findOpen();
+    if (open) return open;
+
+    const last = await this.prisma.season.findFirst({
+      orderBy: { number: 'desc' },
+      select: { number: true },
+    });
+
+    try {
+      const created = await this.prisma.season.create({
+        data: {
+          number: (last?.number ?? 0) + 1,
+          startsAt: now,
+          endsAt: new Date(now.getTime() + this.lengthMs),
+        },
+      });
+      return new Season(created);
+    } catch (error) {
+      // Another instance opened it first
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        const season = await this.findOpen();
+        if (season) return season;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * End the current season if its time is up: archive the final standings,
+   * award badges, reset season scores and open the next season. Returns the
+   * season that ended, or null when it is still running.
+   */
+  async rollover(now: Date = new Date()): Promise<Season | null> {
+    const season = await this.getCurrent(now);
+    if (!season.isOver(now)) return null;
+
+    // Batch saves add to season scores, so none may land between the
+    // archive and the reset
+    const winners = await this.batchSaveWorker.runExclusive(() => this.archive(season));
+    if (!winners) return null;
+
+    console.log(`[SeasonService] Season ${season.number} ended, ${winners.length} badges awarded`);
+
+    for (const winner of winners) {
+      await this.notifyWinner(season, winner);
+    }
+
+    return season;
+  }
+
+  /**
+   * Get the badges a user earned, newest season first
+   */
+  async getBadges(userId: string): Promise<SeasonBadgeInfo[]> {
+    const badges = await this.prisma.seasonBadge.findMany({
+      where: { userId },
+      orderBy: { season: { number: 'desc' } },
+      select: { rank: true, season: { select: { number: true } } },
+    });
+
+    return badges.map(({ rank, season }) => ({ seasonNumber: season.number, rank }));
+  }
+
+  /**
+   * Returns the badge winners, or null when another instance already ended
+   * the season
+   */
+  private async archive(season: Season): Promise<Standing[] | null> {
+    const standings = await this.leaderboardRepo.resetSeason();
+
+    try {
+      const rows: Prisma.LeaderboardSnapshotCreateManyInput[] = [];
+      for (const { userId, score, rank } of standings) {
+        rows.push({
+          userId,
+          username: await this.leaderboardRepo.getUserData(userId),
+          score: BigInt(Math.floor(score)),
+          rank,
+          seasonId: season.id,
+        });
+      }
+
+      const candidates = standings.filter(({ rank, score }) => isBadgeRank(rank) && score > 0);
+      const existing = await this.prisma.user.findMany({
+        where: { id: { in: candidates.map(({ userId }) => userId) } },
+        select: { id: true },
+      });
+      const existingIds = new Set(existing.map(({ id }) => id));
+      const winners = candidates.filter(({ userId }) => existingIds.has(userId));
+
+      const ended = await this.prisma.$transaction(async (tx) => {
+        const { count } = await tx.season.updateMany({
+          where: { id: season.id, endedAt: null },
+          data: { endedAt: new Date() },
+        });
+        if (count === 0) return false;
+
+        if (rows.length > 0) {
+          await tx.leaderboardSnapshot.createMany({ data: rows });
+        }
+        if (winners.length > 0) {
+          await tx.seasonBadge.createMany({
+            data: winners.map(({ userId, rank }) => ({ seasonId: season.id, userId, rank })),
+          });
+        }
+        await tx.user.updateMany({
+          where: { seasonScore: { not: 0 } },
+          data: { seasonScore: 0 },
+        });
+        await tx.season.create({
+          data: {
+            number: season.number + 1,
+            startsAt: season.endsAt,
+            endsAt: new Date(season.endsAt.getTime() + this.lengthMs),
+          },
+        });
+        return true;
+      });
+
+      if (!ended) {
+        await this.leaderboardRepo.restoreSeason(standings);
+        return null;
+      }
+
+      return winners;
+    } catch (error) {
+      // Keep the standings so the next check can archive them
+      await this.leaderboardRepo.restoreSeason(standings);
+      throw error;
+    }
+  }
+
+  private async notifyWinner(season: Season, { userId, score, rank }: Standing): Promise<void> {
+    try {
+      const user = await this.prisma.user.findUnique({
+        where: { id: userId },
+        select: { telegramId: true },
+      });
+      if (!user) return;
+
+      const chatId = user.telegramId.toString();
+      const t = await this.preferencesService.getTranslator(chatId);
+      await this.queuedMessageService.sendNotification(
+        chatId,
+        t('season.badgeAwarded', {
+          emoji: badgeEmoji(rank),
+          number: season.number,
+          rank,
+          score: Math.floor(score),
+        }),
+        { parse_mode: 'HTML' },
+        ActionChannels.System.notification,
+        'achievements',
+      );
+    } catch (error) {
+      console.error(`[SeasonService] Failed to notify season winner ${userId}:`, error);
+    }
+  }
+
+  private async findOpen(): Promise<Season | null> {
+    const season = await this.prisma.season.findFirst({
+      where: { endedAt: null },
+      orderBy: { number: 'desc' },
+    });
+    return season ? new Season(season) : null;
+  }
+}
@@ -0,0 +1,80 @@
+import type Redis from 'ioredis';
+import { redisClient } from '../../infrastructure/redis/client';
+import type { IStatsRepository } from '../../domain/repositories/IStatsRepository';
+import {
+  ClickHistory,
+  getStatsRange,
+  type StatsPeriod,
+} from '../../domain/value-objects/ClickHistory';
+import { REDIS_KEYS } from '../../shared/constants';
+
+const CACHE_TTL_SECONDS = 60;
+
+interface CachedHistory {
+  hourly: Array<[number, number, number]>;
+  sessions: number;
+}
+
+/**
+ * Builds a user's click history from their hourly click and point counts
+ */
+export class StatisticsService {
+  private redis: Redis;
+  private statsRepo: IStatsRepository;
+
+  constructor(statsRepo: IStatsRepository) {
+    this.statsRepo = statsRepo;
+    this.redis = redisClient.getClient();
+  }
+
+  /**
+   * Click history for the period `offset` periods back from the current one.
+   * Cached briefly so paging back and forth stays cheap.
+   */
+  async getHistory(
+    userId: string,
+    period: StatsPeriod,
+    offset: number = 0,
+    now: Date = new Date(),
+  ): Promise<ClickHistory> {
+    const { start, end } = getStatsRange(period, offset, now);
+    const previous = getStatsRange(period, offset + 1, now);
+    const cacheKey = `${REDIS_KEYS.STATS_CACHE}${userId}:${period}:${offset}`;
+
+    const cached = await this.redis.get(cacheKey);
+    let data: CachedHistory;
+    if (cached) {
+      data = JSON.parse(cached) as CachedHistory;
+    } else {
+      data = await this.load(userId, previous.start, start, end);
+      await this.redis.setex(cacheKey, CACHE_TTL_SECONDS, JSON.stringify(data));
+    }
+
+    const hourly = data.hourly.map(([hour, clicks, points]) => ({
+      hour: new Date(hour),
+      clicks,
+      points,
+    }));
+    const previousTotal = hourly
+      .filter(({ hour }) => hour.getTime() < start.getTime())
+      .reduce((sum, { clicks }) => sum + clicks, 0);
+
+    return new ClickHistory({ period, start, end, hourly, sessions: data.sessions, previousTotal });
+  }
+
+  private async load(
+    userId: string,
+    previousStart: Date,
+    start: Date,
+    end: Date,
+  ): Promise<CachedHistory> {
+    const activity = await this.statsRepo.getHourly(userId, previousStart, end);
+
+    return {
+      hourly: activity.map(({ hour, clicks, points }) => [hour.getTime(), clicks, points]),
+      sessions: activity
+        .filter(({ hour }) => hour.getTime() >= start.getTime())
+        .reduce((sum, { sessions }) => sum + sessions, 0),
+    };
+  }
+}
@@ -0,0 +1,187 @@
+import type Redis from 'ioredis';
+import { InlineKeyboard } from 'grammy';
+import { Prisma, type PrismaClient } from '../../generated/prisma';
+import { redisClient } from '../../infrastructure/redis/client';
+import type { QueuedMessageService } from './QueuedMessageService';
+import type { PreferencesService } from './PreferencesService';
+import type { IClickRepository } from '../../domain/repositories/IClickRepository';
+import type { ILeaderboardRepository } from '../../domain/repositories/ILeaderboardRepository';
+import { Streak, toDayKey } from '../../domain/value-objects/Streak';
+import { ActionChannels } from '../../domain/value-objects/ActionChannel';
+import { DailyRewardClaimedError } from '../../shared/errors';
+import { REDIS_KEYS } from '../../shared/constants';
+
+const DAY_MS = 86400000;
+const CACHE_TTL_SECONDS = 86400;
+
+export interface DailyClaim {
+  streak: Streak;
+  reward: number;
+}
+
+/**
+ * Postgres stores DATE columns as UTC midnight
+ */
+function dayToDate(day: string): Date {
+  return new Date(`${day}T00:00:00.000Z`);
+}
+
+/**
+ * Tracks daily reward claims, pays escalating rewards and reminds opted-in
+ * users before their streak breaks
+ */
+export class StreakService {
+  private prisma: PrismaClient;
+  private redis: Redis;
+  private clickRepo: IClickRepository;
+  private leaderboardRepo: ILeaderboardRepository;
+  private queuedMessageService: QueuedMessageService;
+  private preferencesService: PreferencesService;
+
+  constructor(
+    prisma: PrismaClient,
+    clickRepo: IClickRepository,
+    leaderboardRepo: ILeaderboardRepository,
+    queuedMessageService: QueuedMessageService,
+    preferencesService: PreferencesService,
+  ) {
+    this.prisma = prisma;
+    this.clickRepo = clickRepo;
+    this.leaderboardRepo = leaderboardRepo;
+    this.queuedMessageService = queuedMessageService;
+    this.preferencesService = preferencesService;
+    this.redis = redisClient.getClient();
+  }
+
+  /**
+   * Get the user's streak
+   */
+  async getStreak(userId: string): Promise<Streak> {
+    const key = `${REDIS_KEYS.STREAK}${userId}`;
+    const cached = await this.redis.hgetall(key);
+
+    if (cached.current !== undefined) {
+      return new Streak({
+        current: parseInt(cached.current, 10),
+        best: parseInt(cached.best ?? '0', 10),
+        lastClaimDay: cached.lastClaimDay || null,
+      });
+    }
+
+    const row = await this.prisma.userStreak.findUnique({ where: { userId } });
+    const streak = row
+      ? new Streak({
+          current: row.currentStreak,
+          best: row.bestStreak,
+          lastClaimDay: row.lastClaimDate ? toDayKey(row.lastClaimDate) : null,
+        })
+      : Streak.empty();
+
+    await this.cacheStreak(userId, streak);
+    return streak;
+  }
+
+  /**
+   * Claim today's reward. The reward is credited like clicks: to the pending
+   * counter for the batch save and straight onto the leaderboards.
+   */
+  async claim(userId: string, now: Date = new Date()): Promise<DailyClaim> {
+    const streak = await this.getStreak(userId);
+    if (!streak.canClaim(now)) {
+      throw new DailyRewardClaimedError();
+    }
+
+    const claimed = streak.claim(now);
+    const reward = Streak.rewardFor(claimed.current);
+    const data = {
+      currentStreak: claimed.current,
+      bestStreak: claimed.best,
+      lastClaimDate: dayToDate(claimed.lastClaimDay!),
+    };
+
+    // Guard on the previous claim day so concurrent claims only pay once
+    const { count } = await this.prisma.userStreak.updateMany({
+      where: {
+        userId,
+        lastClaimDate: streak.lastClaimDay ? dayToDate(streak.lastClaimDay) : null,
+      },
+      data,
+    });
+
+    if (count === 0) {
+      try {
+        await this.prisma.userStreak.create({ data: { userId, ...data } });
+      } catch (error) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          await this.redis.del(`${REDIS_KEYS.STREAK}${userId}`);
+          throw new DailyRewardClaimedError();
+        }
+        throw error;
+      }
+    }
+
+    await this.cacheStreak(userId, claimed);
+    await this.clickRepo.incrementPendingScore(userId, reward);
+    await this.leaderboardRepo.incrementScore(userId, reward);
+
+    return { streak: claimed, reward };
+  }
+
+  /**
+   * Remind users who opted into reminders and claimed yesterday but not yet today.
+   * Each user is reminded at most once per day. Returns the number reminded.
+   */
+  async sendReminders(now: Date = new Date()): Promise<number> {
+    const startOfToday = dayToDate(toDayKey(now));
+    const yesterday = dayToDate(toDayKey(new Date(now.getTime() - DAY_MS)));
+
+    const atRisk = await this.prisma.userStreak.findMany({
+      where: {
+        user: { preferences: { is: { notificationsEnabled: true, notifyReminders: true } } },
+        currentStreak: { gt: 0 },
+        lastClaimDate: yesterday,
+        OR: [{ lastRemindedAt: null }, { lastRemindedAt: { lt: startOfToday } }],
+      },
+      select: { userId: true, currentStreak: true, user: { select: { telegramId: true } } },
+    });
+
+    if (atRisk.length === 0) return 0;
+
+    for (const { currentStreak, user } of atRisk) {
+      const t = await this.preferencesService.getTranslator(user.telegramId.toString());
+      await this.queuedMessageService.sendNotification(
+        user.telegramId.toString(),
+        t('daily.reminder', {
+          count: currentStreak,
+          reward: Streak.rewardFor(currentStreak + 1),
+        }),
+        {
+          parse_mode: 'HTML',
+          reply_markup: new InlineKeyboard().text(t('daily.claimButton'), 'action:daily_claim'),
+        },
+        ActionChannels.System.notification,
+        'reminders',
+      );
+    }
+
+    await this.prisma.userStreak.updateMany({
+      where: { userId: { in: atRisk.map(({ userId }) => userId) } },
+      data: { lastRemindedAt: now },
+    });
+
+    return atRisk.length;
+  }
+
+  private async cacheStreak(userId: string, streak: Streak): Promise<void> {
+    const key = `${REDIS_KEYS.STREAK}${userId}`;
+    await this.redis
+      .multi()
+      .hset(key, {
+        current: streak.current,
+        best: streak.best,
+        lastClaimDay: streak.lastClaimDay ?? '',
+      })
+      .expire(key, CACHE_TTL_SECONDS)
+      .exec();
+  }
+}
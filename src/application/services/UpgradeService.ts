@@ -0,0 +1,226 @@
+import type Redis from 'ioredis';
+import type { PrismaClient } from '../../generated/prisma';
+import { redisClient } from '../../infrastructure/redis/client';
+import type { IClickRepository } from '../../domain/repositories/IClickRepository';
+import type { ILeaderboardRepository } from '../../domain/repositories/ILeaderboardRepository';
+import { ClickPower } from '../../domain/value-objects/ClickPower';
+import { findUpgrade, UPGRADE_CATALOGUE, type Upgrade } from '../../domain/value-objects/Upgrade';
+import {
+  DomainError,
+  InsufficientPointsError,
+  UpgradeMaxLevelError,
+  ValidationError,
+} from '../../shared/errors';
+import { REDIS_KEYS } from '../../shared/constants';
+
+/**
+ * Marks a cached hash as loaded from the database, so users without any
+ * upgrade do not hit Postgres on every click.
+ */
+const LOADED_MARKER = '__loaded__';
+const CACHE_TTL_SECONDS = 86400;
+
+export interface UpgradePurchase {
+  upgrade: Upgrade;
+  level: number;
+  price: number;
+}
+
+/**
+ * Sells upgrades for points and derives click power and passive income
+ * from the levels a user owns
+ */
+export class UpgradeService {
+  private prisma: PrismaClient;
+  private redis: Redis;
+  private clickRepo: IClickRepository;
+  private leaderboardRepo: ILeaderboardRepository;
+
+  constructor(
+    prisma: PrismaClient,
+    clickRepo: IClickRepository,
+    leaderboardRepo: ILeaderboardRepository,
+  ) {
+    this.prisma = prisma;
+    this.clickRepo = clickRepo;
+    this.leaderboardRepo = leaderboardRepo;
+    this.redis = redisClient.getClient();
+  }
+
+  /**
+   * Get the user's upgrade levels keyed by upgrade id
+   */
+  async getLevels(userId: string): Promise<Record<string, number>> {
+    const key = `${REDIS_KEYS.UPGRADES}${userId}`;
+    const cached = await this.redis.hgetall(key);
+
+    if (cached[LOADED_MARKER]) {
+      const levels: Record<string, number> = {};
+      for (const [upgradeId, level] of Object.entries(cached)) {
+        if (upgradeId !== LOADED_MARKER) levels[upgradeId] = parseInt(level, 10);
+      }
+      return levels;
+    }
+
+    const rows = await this.prisma.userUpgrade.findMany({
+      where: { userId },
+      select: { upgradeId: true, level: true },
+    });
+    const levels: Record<string, number> = {};
+    rows.forEach(({ upgradeId, level }) => {
+      levels[upgradeId] = level;
+    });
+
+    await this.redis
+      .multi()
+      .hset(key, { ...levels, [LOADED_MARKER]: 1 })
+      .expire(key, CACHE_TTL_SECONDS)
+      .exec();
+
+    return levels;
+  }
+
+  /**
+   * Get the points a click of this user is worth
+   */
+  async getClickPower(userId: string): Promise<ClickPower> {
+    return ClickPower.fromLevels(await this.getLevels(userId));
+  }
+
+  /**
+   * Get the full catalogue with the user's current levels
+   */
+  async getShop(userId: string): Promise<Array<{ upgrade: Upgrade; level: number }>> {
+    const levels = await this.getLevels(userId);
+    return UPGRADE_CATALOGUE.map((upgrade) => ({ upgrade, level: levels[upgrade.id] ?? 0 }));
+  }
+
+  /**
+   * Get the points a user can spend: the persisted score plus clicks and
+   * passive income still waiting for the batch save
+   */
+  async getBalance(userId: string): Promise<bigint> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { score: true },
+    });
+    const pending = await this.clickRepo.getPendingPoints(userId);
+    return (user?.score ?? BigInt(0)) + BigInt(pending);
+  }
+
+  /**
+   * Buy the next level of an upgrade. The price is checked against the
+   * persisted score plus points still waiting for the batch save.
+   */
+  async purchase(userId: string, upgradeId: string): Promise<UpgradePurchase> {
+    const upgrade = findUpgrade(upgradeId);
+    if (!upgrade) {
+      throw new ValidationError({ upgradeId: 'Unknown upgrade' });
+    }
+
+    const level = (await this.getLevels(userId))[upgrade.id] ?? 0;
+    if (upgrade.isMaxed(level)) {
+      throw new UpgradeMaxLevelError(upgrade.id);
+    }
+
+    const price = upgrade.getPrice(level);
+    const pending = await this.clickRepo.getPendingPoints(userId);
+
+    try {
+      await this.prisma.$transaction(async (tx) => {
+        const { count } = await tx.user.updateMany({
+          where: { id: userId, score: { gte: BigInt(price - pending) } },
+          data: { score: { decrement: price }, updatedAt: new Date() },
+        });
+
+        if (count === 0) {
+          const user = await tx.user.findUnique({ where: { id: userId }, select: { score: true } });
+          throw new InsufficientPointsError(
+            BigInt(price),
+            (user?.score ?? BigInt(0)) + BigInt(pending),
+          );
+        }
+
+        // The level guard, or the unique row for a first level, makes two
+        // concurrent purchases of the same level pay only once
+        const { count: bought } =
+          level === 0
+            ? await tx.userUpgrade.createMany({
+                data: { userId, upgradeId: upgrade.id, level: 1 },
+                skipDuplicates: true,
+              })
+            : await tx.userUpgrade.updateMany({
+                where: { userId, upgradeId: upgrade.id, level },
+                data: { level: level + 1 },
+              });
+        if (bought === 0) {
+          throw new DomainError('Upgrade level changed, please try again', 'UPGRADE_CONFLICT');
+        }
+      });
+    } catch (error) {
+      if (!(error instanceof InsufficientPointsError)) {
+        await this.redis.del(`${REDIS_KEYS.UPGRADES}${userId}`);
+      }
+      throw error;
+    }
+
+    const newLevel = level + 1;
+    await this.redis.hset(`${REDIS_KEYS.UPGRADES}${userId}`, upgrade.id, newLevel);
+    await this.leaderboardRepo.deductScore(userId, price);
+
+    if (upgrade.effect === 'autoClicker') {
+      await this.redis.hset(
+        REDIS_KEYS.PASSIVE_INCOME,
+        userId,
+        await this.getPassivePerMinute(userId),
+      );
+    }
+
+    return { upgrade, level: newLevel, price };
+  }
+
+  /**
+   * Get the points per minute every user with an auto clicker earns
+   */
+  async getPassiveIncome(): Promise<Map<string, number>> {
+    const income = await this.redis.hgetall(REDIS_KEYS.PASSIVE_INCOME);
+    const result = new Map<string, number>();
+    for (const [userId, perMinute] of Object.entries(income)) {
+      const points = parseInt(perMinute, 10);
+      if (points > 0) result.set(userId, points);
+    }
+    return result;
+  }
+
+  /**
+   * Rebuild the passive income hash from Postgres
+   */
+  async loadPassiveIncome(): Promise<number> {
+    const autoClickers = UPGRADE_CATALOGUE.filter((upgrade) => upgrade.effect === 'autoClicker');
+    const rows = await this.prisma.userUpgrade.findMany({
+      where: { upgradeId: { in: autoClickers.map((upgrade) => upgrade.id) }, level: { gt: 0 } },
+      select: { userId: true, upgradeId: true, level: true },
+    });
+
+    const income: Record<string, number> = {};
+    for (const { userId, upgradeId, level } of rows) {
+      income[userId] = (income[userId] ?? 0) + (findUpgrade(upgradeId)?.getEffect(level) ?? 0);
+    }
+
+    const pipeline = this.redis.multi().del(REDIS_KEYS.PASSIVE_INCOME);
+    if (Object.keys(income).length > 0) {
+      pipeline.hset(REDIS_KEYS.PASSIVE_INCOME, income);
+    }
+    await pipeline.exec();
+
+    return Object.keys(income).length;
+  }
+
+  private async getPassivePerMinute(userId: string): Promise<number> {
+    const levels = await this.getLevels(userId);
+    return UPGRADE_CATALOGUE.filter((upgrade) => upgrade.effect === 'autoClicker').reduce(
+      (total, upgrade) => total + upgrade.getEffect(levels[upgrade.id] ?? 0),
+      0,
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import type Redis from 'ioredis';
+import type { PrismaClient } from '../../generated/prisma';
+import { redisClient } from '../../infrastructure/redis/client';
+import { REDIS_KEYS } from '../../shared/constants';
+import { UserStatus } from '../../shared/types';
+
+const CACHE_TTL_SECONDS = 86400;
+
+/**
+ * Tracks users the bot can no longer message because they blocked it or
+ * deleted their account. Lookups are keyed by Telegram id, which is also the
+ * private chat id messages are sent to.
+ */
+export class UserStatusService {
+  private prisma: PrismaClient;
+  private redis: Redis;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+    this.redis = redisClient.getClient();
+  }
+
+  /**
+   * Whether messages can reach the chat. Only private chats belong to a
+   * user, so group chats are always reachable.
+   */
+  async isReachable(chatId: string): Promise<boolean> {
+    if (!/^\d+$/.test(chatId)) return true;
+
+    const key = `${REDIS_KEYS.USER_STATUS}${chatId}`;
+    let status = await this.redis.get(key);
+    if (!status) {
+      const user = await this.prisma.user.findUnique({
+        where: { telegramId: BigInt(chatId) },
+        select: { status: true },
+      });
+      status = user?.status ?? UserStatus.ACTIVE;
+      await this.redis.setex(key, CACHE_TTL_SECONDS, status);
+    }
+
+    return status !== UserStatus.UNREACHABLE;
+  }
+
+  /**
+   * Stop messaging a user after Telegram refused a send to them. Returns
+   * false when they were already marked or are not a user.
+   */
+  async markUnreachable(chatId: string): Promise<boolean> {
+    return this.setStatus(chatId, UserStatus.ACTIVE, UserStatus.UNREACHABLE);
+  }
+
+  /**
+   * Message the user again once they are back. Returns false when they were
+   * not marked unreachable.
+   */
+  async markReachable(chatId: string): Promise<boolean> {
+    return this.setStatus(chatId, UserStatus.UNREACHABLE, UserStatus.ACTIVE);
+  }
+
+  private async setStatus(chatId: string, from: UserStatus, to: UserStatus): Promise<boolean> {
+    if (!/^\d+$/.test(chatId)) return false;
+
+    const { count } = await this.prisma.user.updateMany({
+      where: { telegramId: BigInt(chatId), status: from },
+      data: { status: to },
+    });
+    await this.redis.del(`${REDIS_KEYS.USER_STATUS}${chatId}`);
+    return count > 0;
+  }
+}
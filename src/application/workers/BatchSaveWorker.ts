@@ -1,21 +1,38 @@
 import type { PrismaClient } from '../../generated/prisma';
 import type { RedisClient } from '../../infrastructure/redis/client';
+import type { AchievementService } from '../services/AchievementService';
+import type { ReferralService } from '../services/ReferralService';
+import type { IStatsRepository } from '../../domain/repositories/IStatsRepository';
 import { REDIS_KEYS, GAME_SETTINGS } from '../../shared/constants';
 
 /**
- * Worker that periodically saves pending clicks from Redis to the database
+ * Worker that periodically saves pending clicks and score from Redis to the
+ * database
  */
 export class BatchSaveWorker {
   private prisma: PrismaClient;
   private redis: RedisClient;
+  private achievementService?: AchievementService;
+  private referralService?: ReferralService;
+  private statsRepo?: IStatsRepository;
   private isRunning = false;
   private intervalId: NodeJS.Timeout | null = null;
   private batchSize = 100;
   private intervalMs = GAME_SETTINGS.BATCH_SAVE_INTERVAL_MS;
+  private lock: Promise<void> = Promise.resolve();
 
-  constructor(prisma: PrismaClient, redis: RedisClient) {
+  constructor(
+    prisma: PrismaClient,
+    redis: RedisClient,
+    achievementService?: AchievementService,
+    referralService?: ReferralService,
+    statsRepo?: IStatsRepository,
+  ) {
     this.prisma = prisma;
     this.redis = redis;
+    this.achievementService = achievementService;
+    this.referralService = referralService;
+    this.statsRepo = statsRepo;
   }
 
   /**
@@ -55,6 +72,19 @@ export class BatchSaveWorker {
     console.log('[BatchSaveWorker] Stopped');
   }
 
+  /**
+   * Run a task while no batch is in flight. Account resets use this so clicks
+   * already taken from Redis cannot be written back after the reset.
+   */
+  async runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.lock.then(task);
+    this.lock = result.then(
+      () => undefined,
+      () => undefined,
+    );
+    return result;
+  }
+
   /**
    * Process a batch of pending clicks
    */
@@ -63,22 +93,35 @@ export class BatchSaveWorker {
       return;
     }
 
+    await this.runExclusive(() => this.saveAllPending());
+  }
+
+  /**
+   * Save every pending click and score counter
+   */
+  private async saveAllPending(): Promise<void> {
     try {
       const startTime = Date.now();
       const client = this.redis.getClient();
 
-      const pattern = `${REDIS_KEYS.CLICK_PENDING}*`;
-      const keys = await client.keys(pattern);
+      const clickKeys = await client.keys(`${REDIS_KEYS.CLICK_PENDING}*`);
+      const scoreKeys = await client.keys(`${REDIS_KEYS.SCORE_PENDING}*`);
+      const userIds = [
+        ...new Set([
+          ...clickKeys.map((key) => key.slice(REDIS_KEYS.CLICK_PENDING.length)),
+          ...scoreKeys.map((key) => key.slice(REDIS_KEYS.SCORE_PENDING.length)),
+        ]),
+      ];
 
-      if (keys.length === 0) {
+      if (userIds.length === 0) {
         return;
       }
 
-      console.log(`[BatchSaveWorker] Processing ${keys.length} users with pending clicks`);
+      console.log(`[BatchSaveWorker] Processing ${userIds.length} users with pending clicks`);
 
-      for (let i = 0; i < keys.length; i += this.batchSize) {
-        const batch = keys.slice(i, i + this.batchSize);
-        await this.processBatchKeys(batch);
+      for (let i = 0; i < userIds.length; i += this.batchSize) {
+        const batch = userIds.slice(i, i + this.batchSize);
+        await this.processBatchUsers(batch);
       }
 
       const duration = Date.now() - startTime;
@@ -89,21 +132,26 @@ export class BatchSaveWorker {
   }
 
   /**
-   * Process a batch of Redis keys
+   * Save the pending counters of a batch of users. Points from clicks are
+   * recorded as click rows; other points (passive income, rewards) only
+   * raise the score.
    */
-  private async processBatchKeys(keys: string[]): Promise<void> {
+  private async processBatchUsers(userIds: string[]): Promise<void> {
     const client = this.redis.getClient();
-    const updates: Array<{ userId: string; clicks: number }> = [];
+    let updates: Array<{ userId: string; clicks: number; bonus: number }> = [];
 
-    for (const key of keys) {
-      const userId = key.replace(REDIS_KEYS.CLICK_PENDING, '');
-      const clicks = await client.getdel(key);
-
-      if (clicks && parseInt(clicks, 10) > 0) {
-        updates.push({
-          userId,
-          clicks: parseInt(clicks, 10),
-        });
+    for (const userId of userIds) {
+      const clicks = parseInt(
+        (await client.getdel(`${REDIS_KEYS.CLICK_PENDING}${userId}`)) ?? '0',
+        10,
+      );
+      const bonus = parseInt(
+        (await client.getdel(`${REDIS_KEYS.SCORE_PENDING}${userId}`)) ?? '0',
+        10,
+      );
+
+      if (clicks > 0 || bonus > 0) {
+        updates.push({ userId, clicks: Math.max(clicks, 0), bonus: Math.max(bonus, 0) });
       }
     }
 
@@ -111,24 +159,50 @@ export class BatchSaveWorker {
       return;
     }
 
+    // Clicks can still arrive from stale sessions of a deleted account
+    const existing = await this.prisma.user.findMany({
+      where: { id: { in: updates.map(({ userId }) => userId) } },
+      select: { id: true },
+    });
+    const existingIds = new Set(existing.map(({ id }) => id));
+    const orphaned = updates.filter(({ userId }) => !existingIds.has(userId));
+    if (orphaned.length > 0) {
+      console.warn(`[BatchSaveWorker] Dropping clicks for ${orphaned.length} deleted users`);
+      updates = updates.filter(({ userId }) => existingIds.has(userId));
+      if (updates.length === 0) return;
+    }
+
+    const savedUsers: Array<{ userId: string; telegramId: bigint; score: bigint }> = [];
+
     try {
       await this.prisma.$transaction(async (tx) => {
-        for (const { userId, clicks } of updates) {
-          await tx.user.update({
+        for (const { userId, clicks, bonus } of updates) {
+          const savedUser = await tx.user.update({
             where: { id: userId },
             data: {
-              score: { increment: clicks },
+              score: { increment: clicks + bonus },
+              seasonScore: { increment: clicks + bonus },
               updatedAt: new Date(),
             },
           });
 
-          await tx.click.create({
-            data: {
+          if (clicks > 0) {
+            await tx.click.create({
+              data: {
+                userId,
+                count: clicks,
+                timestamp: new Date(),
+              },
+            });
+          }
+
+          if (savedUser) {
+            savedUsers.push({
               userId,
-              count: clicks,
-              timestamp: new Date(),
-            },
-          });
+              telegramId: savedUser.telegramId,
+              score: savedUser.score,
+            });
+          }
         }
       });
 
@@ -136,12 +210,69 @@ export class BatchSaveWorker {
     } catch (error) {
       console.error('[BatchSaveWorker] Database transaction failed:', error);
 
-      for (const { userId, clicks } of updates) {
-        await client.incrby(`${REDIS_KEYS.CLICK_PENDING}${userId}`, clicks);
+      for (const { userId, clicks, bonus } of updates) {
+        if (clicks > 0) await client.incrby(`${REDIS_KEYS.CLICK_PENDING}${userId}`, clicks);
+        if (bonus > 0) await client.incrby(`${REDIS_KEYS.SCORE_PENDING}${userId}`, bonus);
       }
 
       throw error;
     }
+
+    await this.recordBonusPoints(updates);
+    await this.evaluateAchievements(savedUsers);
+    await this.rewardReferrals(savedUsers);
+  }
+
+  /**
+   * Add the saved points that did not come from clicks to the hourly stats.
+   * Click points are recorded as the clicks happen.
+   */
+  private async recordBonusPoints(
+    updates: Array<{ userId: string; clicks: number; bonus: number }>,
+  ): Promise<void> {
+    if (!this.statsRepo) return;
+
+    for (const { userId, bonus } of updates) {
+      if (bonus <= 0) continue;
+      try {
+        await this.statsRepo.recordPoints(userId, bonus);
+      } catch (error) {
+        console.error(`[BatchSaveWorker] Recording stats failed for ${userId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Check score achievements against the persisted scores, which include
+   * clicks from every session of the user
+   */
+  private async evaluateAchievements(
+    savedUsers: Array<{ userId: string; telegramId: bigint; score: bigint }>,
+  ): Promise<void> {
+    if (!this.achievementService) return;
+
+    for (const { userId, telegramId, score } of savedUsers) {
+      try {
+        await this.achievementService.evaluate(userId, telegramId.toString(), { score });
+      } catch (error) {
+        console.error(`[BatchSaveWorker] Achievement evaluation failed for ${userId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Pay referral bonuses for invitees whose persisted score crossed the threshold
+   */
+  private async rewardReferrals(
+    savedUsers: Array<{ userId: string; telegramId: bigint; score: bigint }>,
+  ): Promise<void> {
+    if (!this.referralService || savedUsers.length === 0) return;
+
+    try {
+      await this.referralService.rewardQualified(savedUsers);
+    } catch (error) {
+      console.error('[BatchSaveWorker] Referral rewards failed:', error);
+    }
   }
 
   /**
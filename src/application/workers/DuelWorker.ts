@@ -0,0 +1,61 @@
+import type { DuelService } from '../services/DuelService';
+import { config } from '../../shared/config/env';
+
+/**
+ * Worker that resolves duels once their click window has closed
+ */
+export class DuelWorker {
+  private duelService: DuelService;
+  private isRunning = false;
+  private intervalId: NodeJS.Timeout | null = null;
+  private intervalMs = config.duels.resolveIntervalMs;
+
+  constructor(duelService: DuelService) {
+    this.duelService = duelService;
+  }
+
+  /**
+   * Start the duel worker
+   */
+  start(): void {
+    if (this.isRunning) {
+      console.log('[DuelWorker] Already running');
+      return;
+    }
+
+    this.isRunning = true;
+    console.log('[DuelWorker] Starting with interval:', this.intervalMs, 'ms');
+
+    this.intervalId = setInterval(() => {
+      void this.resolve();
+    }, this.intervalMs);
+  }
+
+  /**
+   * Stop the duel worker
+   */
+  stop(): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    this.isRunning = false;
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+
+    console.log('[DuelWorker] Stopped');
+  }
+
+  private async resolve(): Promise<void> {
+    try {
+      const resolved = await this.duelService.resolveDue();
+      if (resolved > 0) {
+        console.log(`[DuelWorker] Resolved ${resolved} duels`);
+      }
+    } catch (error) {
+      console.error('[DuelWorker] Error resolving duels:', error);
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import type { EventService } from '../services/EventService';
+import { config } from '../../shared/config/env';
+
+/**
+ * Worker that announces scheduled events to their audience as they start
+ */
+export class EventWorker {
+  private eventService: EventService;
+  private isRunning = false;
+  private intervalId: NodeJS.Timeout | null = null;
+  private intervalMs = config.events.checkIntervalMs;
+
+  constructor(eventService: EventService) {
+    this.eventService = eventService;
+  }
+
+  /**
+   * Start the event worker
+   */
+  start(): void {
+    if (this.isRunning) {
+      console.log('[EventWorker] Already running');
+      return;
+    }
+
+    this.isRunning = true;
+    console.log('[EventWorker] Starting with interval:', this.intervalMs, 'ms');
+
+    this.intervalId = setInterval(() => {
+      void this.announce();
+    }, this.intervalMs);
+  }
+
+  /**
+   * Stop the event worker
+   */
+  stop(): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    this.isRunning = false;
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+
+    console.log('[EventWorker] Stopped');
+  }
+
+  private async announce(): Promise<void> {
+    try {
+      const announced = await this.eventService.announceStarted();
+      if (announced > 0) {
+        console.log(`[EventWorker] Announced ${announced} events`);
+      }
+    } catch (error) {
+      console.error('[EventWorker] Error announcing events:', error);
+    }
+  }
+}
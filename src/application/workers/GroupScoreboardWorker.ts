@@ -0,0 +1,70 @@
+import type { GroupScoreboardService } from '../services/GroupScoreboardService';
+import type { IGroupRepository } from '../../domain/repositories/IGroupRepository';
+import { config } from '../../shared/config/env';
+
+/**
+ * Worker that periodically refreshes the pinned scoreboard of every group
+ * that had clicks since the previous run
+ */
+export class GroupScoreboardWorker {
+  private scoreboardService: GroupScoreboardService;
+  private groupRepo: IGroupRepository;
+  private isRunning = false;
+  private intervalId: NodeJS.Timeout | null = null;
+  private intervalMs = config.groups.scoreboardIntervalMs;
+
+  constructor(scoreboardService: GroupScoreboardService, groupRepo: IGroupRepository) {
+    this.scoreboardService = scoreboardService;
+    this.groupRepo = groupRepo;
+  }
+
+  /**
+   * Start the scoreboard worker
+   */
+  start(): void {
+    if (this.isRunning) {
+      console.log('[GroupScoreboardWorker] Already running');
+      return;
+    }
+
+    this.isRunning = true;
+    console.log('[GroupScoreboardWorker] Starting with interval:', this.intervalMs, 'ms');
+
+    this.intervalId = setInterval(() => {
+      void this.refresh();
+    }, this.intervalMs);
+  }
+
+  /**
+   * Stop the scoreboard worker
+   */
+  stop(): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    this.isRunning = false;
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+
+    console.log('[GroupScoreboardWorker] Stopped');
+  }
+
+  private async refresh(): Promise<void> {
+    try {
+      const chatIds = await this.groupRepo.takeUpdatedGroups();
+
+      for (const chatId of chatIds) {
+        await this.scoreboardService.publish(chatId);
+      }
+
+      if (chatIds.length > 0) {
+        console.log(`[GroupScoreboardWorker] Refreshed ${chatIds.length} group scoreboards`);
+      }
+    } catch (error) {
+      console.error('[GroupScoreboardWorker] Error refreshing scoreboards:', error);
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import type { LeaderboardSnapshotService } from '../services/LeaderboardSnapshotService';
+import { config } from '../../shared/config/env';
+
+/**
+ * Worker that periodically snapshots the global leaderboard to the database
+ */
+export class LeaderboardSnapshotWorker {
+  private snapshotService: LeaderboardSnapshotService;
+  private isRunning = false;
+  private intervalId: NodeJS.Timeout | null = null;
+  private intervalMs = config.leaderboard.snapshotIntervalMs;
+
+  constructor(snapshotService: LeaderboardSnapshotService) {
+    this.snapshotService = snapshotService;
+  }
+
+  /**
+   * Start the snapshot worker
+   */
+  start(): void {
+    if (this.isRunning) {
+      console.log('[LeaderboardSnapshotWorker] Already running');
+      return;
+    }
+
+    this.isRunning = true;
+    console.log('[LeaderboardSnapshotWorker] Starting with interval:', this.intervalMs, 'ms');
+
+    this.intervalId = setInterval(() => {
+      void this.snapshot();
+    }, this.intervalMs);
+  }
+
+  /**
+   * Stop the snapshot worker
+   */
+  stop(): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    this.isRunning = false;
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+
+    console.log('[LeaderboardSnapshotWorker] Stopped');
+  }
+
+  private async snapshot(): Promise<void> {
+    try {
+      const startTime = Date.now();
+      const rows = await this.snapshotService.takeSnapshot();
+      console.log(`[LeaderboardSnapshotWorker] Saved ${rows} ranks in ${Date.now() - startTime}ms`);
+    } catch (error) {
+      console.error('[LeaderboardSnapshotWorker] Error taking snapshot:', error);
+    }
+  }
+}
@@ -0,0 +1,103 @@
+import type { UpgradeService } from '../services/UpgradeService';
+import type { IClickRepository } from '../../domain/repositories/IClickRepository';
+import type { ILeaderboardRepository } from '../../domain/repositories/ILeaderboardRepository';
+import type { IClanRepository } from '../../domain/repositories/IClanRepository';
+import { GAME_SETTINGS } from '../../shared/constants';
+
+/**
+ * Worker that credits auto clicker income once a minute. Income goes through
+ * the pending score counter, so the batch save adds it to the score without
+ * counting it as clicks. Like clicks, it also counts toward the owner's clan.
+ */
+export class PassiveIncomeWorker {
+  private upgradeService: UpgradeService;
+  private clickRepo: IClickRepository;
+  private leaderboardRepo: ILeaderboardRepository;
+  private clanRepo: IClanRepository;
+  private isRunning = false;
+  private intervalId: NodeJS.Timeout | null = null;
+  private intervalMs = GAME_SETTINGS.PASSIVE_INCOME_INTERVAL_MS;
+
+  constructor(
+    upgradeService: UpgradeService,
+    clickRepo: IClickRepository,
+    leaderboardRepo: ILeaderboardRepository,
+    clanRepo: IClanRepository,
+  ) {
+    this.upgradeService = upgradeService;
+    this.clickRepo = clickRepo;
+    this.leaderboardRepo = leaderboardRepo;
+    this.clanRepo = clanRepo;
+  }
+
+  /**
+   * Start the passive income worker
+   */
+  start(): void {
+    if (this.isRunning) {
+      console.log('[PassiveIncomeWorker] Already running');
+      return;
+    }
+
+    this.isRunning = true;
+    console.log('[PassiveIncomeWorker] Starting with interval:', this.intervalMs, 'ms');
+
+    void this.warmUp();
+
+    this.intervalId = setInterval(() => {
+      void this.payout();
+    }, this.intervalMs);
+  }
+
+  /**
+   * Stop the passive income worker
+   */
+  stop(): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    this.isRunning = false;
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+
+    console.log('[PassiveIncomeWorker] Stopped');
+  }
+
+  private async warmUp(): Promise<void> {
+    try {
+      const users = await this.upgradeService.loadPassiveIncome();
+      console.log(`[PassiveIncomeWorker] Loaded ${users} auto clickers`);
+    } catch (error) {
+      console.error('[PassiveIncomeWorker] Error loading auto clickers:', error);
+    }
+  }
+
+  /**
+   * Credit one minute of income to every auto clicker owner
+   */
+  async payout(): Promise<number> {
+    let credited = 0;
+
+    try {
+      const income = await this.upgradeService.getPassiveIncome();
+
+      for (const [userId, points] of income) {
+        await this.clickRepo.incrementPendingScore(userId, points);
+        await this.leaderboardRepo.incrementScore(userId, points);
+        await this.clanRepo.addMemberPoints(userId, points);
+        credited++;
+      }
+
+      if (credited > 0) {
+        console.log(`[PassiveIncomeWorker] Credited passive income to ${credited} users`);
+      }
+    } catch (error) {
+      console.error('[PassiveIncomeWorker] Error crediting passive income:', error);
+    }
+
+    return credited;
+  }
+}
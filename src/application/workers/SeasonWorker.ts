@@ -0,0 +1,58 @@
+import type { SeasonService } from '../services/SeasonService';
+import { config } from '../../shared/config/env';
+
+/**
+ * Worker that ends the current season once its end date has passed
+ */
+export class SeasonWorker {
+  private seasonService: SeasonService;
+  private isRunning = false;
+  private intervalId: NodeJS.Timeout | null = null;
+  private intervalMs = config.seasons.checkIntervalMs;
+
+  constructor(seasonService: SeasonService) {
+    this.seasonService = seasonService;
+  }
+
+  /**
+   * Start the season worker
+   */
+  start(): void {
+    if (this.isRunning) {
+      console.log('[SeasonWorker] Already running');
+      return;
+    }
+
+    this.isRunning = true;
+    console.log('[SeasonWorker] Starting with interval:', this.intervalMs, 'ms');
+
+    this.intervalId = setInterval(() => {
+      void this.check();
+    }, this.intervalMs);
+  }
+
+  /**
+   * Stop the season worker
+   */
+  stop(): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    this.isRunning = false;
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+
+    console.log('[SeasonWorker] Stopped');
+  }
+
+  private async check(): Promise<void> {
+    try {
+      await this.seasonService.rollover();
+    } catch (error) {
+      console.error('[SeasonWorker] Error ending season:', error);
+    }
+  }
+}
@@ -0,0 +1,65 @@
+import type { StreakService } from '../services/StreakService';
+import { config } from '../../shared/config/env';
+
+/**
+ * Worker that reminds opted-in users in the evening (UTC) when their
+ * daily streak will break unless they claim today
+ */
+export class StreakReminderWorker {
+  private streakService: StreakService;
+  private isRunning = false;
+  private intervalId: NodeJS.Timeout | null = null;
+  private intervalMs = config.streak.reminderIntervalMs;
+  private reminderHourUtc = config.streak.reminderHourUtc;
+
+  constructor(streakService: StreakService) {
+    this.streakService = streakService;
+  }
+
+  /**
+   * Start the reminder worker
+   */
+  start(): void {
+    if (this.isRunning) {
+      console.log('[StreakReminderWorker] Already running');
+      return;
+    }
+
+    this.isRunning = true;
+    console.log('[StreakReminderWorker] Starting with interval:', this.intervalMs, 'ms');
+
+    this.intervalId = setInterval(() => {
+      void this.remind();
+    }, this.intervalMs);
+  }
+
+  /**
+   * Stop the reminder worker
+   */
+  stop(): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    this.isRunning = false;
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+
+    console.log('[StreakReminderWorker] Stopped');
+  }
+
+  private async remind(): Promise<void> {
+    if (new Date().getUTCHours() < this.reminderHourUtc) return;
+
+    try {
+      const reminded = await this.streakService.sendReminders();
+      if (reminded > 0) {
+        console.log(`[StreakReminderWorker] Reminded ${reminded} users`);
+      }
+    } catch (error) {
+      console.error('[StreakReminderWorker] Error sending reminders:', error);
+    }
+  }
+}
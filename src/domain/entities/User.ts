@@ -33,6 +33,29 @@ export class User {
     this.updatedAt = params.updatedAt ?? new Date();
   }
 
+  /**
+   * Build a user from a database row, where missing names are null
+   */
+  static fromRecord(record: {
+    id: string;
+    telegramId: bigint;
+    username?: string | null;
+    firstName?: string | null;
+    lastName?: string | null;
+    customName?: string | null;
+    score?: bigint;
+    createdAt?: Date;
+    updatedAt?: Date;
+  }): User {
+    return new User({
+      ...record,
+      username: record.username ?? undefined,
+      firstName: record.firstName ?? undefined,
+      lastName: record.lastName ?? undefined,
+      customName: record.customName ?? undefined,
+    });
+  }
+
   getDisplayName(): string {
     if (this.customName) return this.customName;
     if (this.username) return `@${this.username}`;
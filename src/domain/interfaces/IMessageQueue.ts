@@ -1,17 +1,56 @@
 import type { InlineKeyboard } from 'grammy';
 import type { ActionChannel } from '../value-objects/ActionChannel';
+import type { DeadLetter } from '../repositories/IDeadLetterRepository';
 
 export interface MessageOptions {
   parse_mode?: 'HTML' | 'Markdown';
   reply_markup?: InlineKeyboard;
 }
 
+/**
+ * A text file sent as a Telegram document. Kept as plain data so it can be
+ * stored in the job.
+ */
+export interface QueuedDocument {
+  filename: string;
+  content: string;
+}
+
+/**
+ * An image sent as a Telegram photo, base64-encoded so it can be stored in
+ * the job
+ */
+export interface QueuedPhoto {
+  filename: string;
+  data: string;
+}
+
+/**
+ * Payloads of the actions the queue runs by name. Jobs are stored in Redis
+ * as JSON, so payloads must be plain data and the handler is looked up by
+ * name when the job runs, in whichever process picks it up.
+ */
+export interface ActionPayloads {
+  editMessageText: { messageId: number; text: string; options?: MessageOptions };
+  answerCallbackQuery: { callbackQueryId: string; text?: string; showAlert?: boolean };
+  sendPhoto: { photo: QueuedPhoto; caption?: string; options?: MessageOptions };
+  deleteMessage: { messageId: number };
+  pinChatMessage: { messageId: number; disableNotification?: boolean };
+  postGroupScoreboard: { text: string };
+  editGroupScoreboard: { messageId: number; text: string };
+}
+
+export type ActionType = keyof ActionPayloads;
+
 export interface QueueStats {
   waiting: number;
   active: number;
   completed: number;
   failed: number;
   delayed: number;
+  floodWaits: number;
+  globalFloodWaits: number;
+  deadLetters: number;
 }
 
 export interface IMessageQueue {
@@ -23,6 +62,19 @@ export interface IMessageQueue {
     channel?: ActionChannel,
   ): Promise<void>;
 
+  queueNamedAction<T extends ActionType>(
+    chatId: string,
+    type: T,
+    payload: ActionPayloads[T],
+    description?: string,
+    priority?: number,
+    channel?: ActionChannel,
+  ): Promise<void>;
+
+  /**
+   * @deprecated The closure does not survive the job being stored in Redis;
+   * use queueNamedAction
+   */
   queueAction(
     chatId: string,
     action: () => Promise<void>,
@@ -31,6 +83,10 @@ export interface IMessageQueue {
     channel?: ActionChannel,
   ): Promise<void>;
 
+  /**
+   * @deprecated The closure does not survive the job being stored in Redis;
+   * use queueNamedAction with editMessageText
+   */
   queueEdit(
     chatId: string,
     editAction: () => Promise<void>,
@@ -39,9 +95,31 @@ export interface IMessageQueue {
     channel?: ActionChannel,
   ): Promise<void>;
 
+  queueDocument(
+    chatId: string,
+    document: QueuedDocument,
+    caption?: string,
+    options?: MessageOptions,
+    priority?: number,
+  ): Promise<void>;
+
+  queuePhoto(
+    chatId: string,
+    photo: QueuedPhoto,
+    caption?: string,
+    options?: MessageOptions,
+    priority?: number,
+  ): Promise<void>;
+
   broadcastMessage(chatIds: string[], message: string, options?: MessageOptions): Promise<void>;
 
   getQueueStats(): Promise<QueueStats>;
+
+  listDeadLetters(offset?: number, limit?: number): Promise<DeadLetter[]>;
+  getDeadLetter(id: string): Promise<DeadLetter | null>;
+  replayDeadLetter(id: string): Promise<boolean>;
+  purgeDeadLetters(): Promise<number>;
+
   pause(): Promise<void>;
   resume(): Promise<void>;
   clear(): Promise<void>;
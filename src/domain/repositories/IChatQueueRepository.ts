@@ -0,0 +1,30 @@
+export interface ChatQueueEntry<T> {
+  id: string;
+  chatId: string;
+  priority: number;
+  data: T;
+  /** Place among jobs of the same priority; kept when a job is pushed back */
+  sequence?: number;
+  /** Not a message to the chat, so sent without waiting for a send slot */
+  exempt?: boolean;
+}
+
+export interface ChatSendLimits {
+  minIntervalMs: number;
+  perMinute?: number;
+}
+
+export interface IChatQueueRepository<T> {
+  push(entry: ChatQueueEntry<T>): Promise<void>;
+  remove(chatId: string, id: string): Promise<boolean>;
+  peek(chatId: string): Promise<ChatQueueEntry<T> | null>;
+  take(chatId: string, id: string): Promise<ChatQueueEntry<T> | null>;
+  pop(chatId: string): Promise<ChatQueueEntry<T> | null>;
+  nextChat(): Promise<string | null>;
+  releaseChat(chatId: string): Promise<void>;
+  recoverChats(maxHoldMs: number): Promise<number>;
+  countChats(): Promise<number>;
+  size(): Promise<number>;
+  acquireSendSlot(chatId: string, limits: ChatSendLimits): Promise<boolean>;
+  clear(): Promise<void>;
+}
@@ -0,0 +1,19 @@
+export interface ClanStanding {
+  clanId: string;
+  name: string;
+  score: number;
+  rank: number;
+}
+
+export interface IClanRepository {
+  register(clanId: string, name: string): Promise<void>;
+  remove(clanId: string): Promise<void>;
+  setMembership(userId: string, clanId: string): Promise<void>;
+  removeMembership(userId: string): Promise<void>;
+  getMembership(userId: string): Promise<string | null>;
+  addMemberPoints(userId: string, points: number): Promise<number | null>;
+  getScore(clanId: string): Promise<number>;
+  getRank(clanId: string): Promise<number | null>;
+  getTop(limit: number, offset?: number): Promise<ClanStanding[]>;
+  getTotalClans(): Promise<number>;
+}
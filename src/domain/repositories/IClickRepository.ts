@@ -1,8 +1,11 @@
 export interface IClickRepository {
   incrementClickCount(userId: string, count: number): Promise<number>;
   getPendingClicks(userId: string): Promise<number>;
+  incrementPendingScore(userId: string, points: number): Promise<number>;
+  getPendingPoints(userId: string): Promise<number>;
   getAllPendingClicks(): Promise<Map<string, number>>;
   clearPendingClicks(userIds: string[]): Promise<void>;
+  clearPendingScore(userIds: string[]): Promise<void>;
   addClickEvent(userId: string, count: number): Promise<string>;
   readClickEvents(
     lastId?: string,
@@ -0,0 +1,33 @@
+/**
+ * One failed attempt at sending a job
+ */
+export interface DeadLetterAttempt {
+  at: number;
+  error: string;
+}
+
+/**
+ * A job that failed for good, kept with what is needed to look into it or
+ * send it again
+ */
+export interface DeadLetter<T = unknown> {
+  id: string;
+  chatId: string;
+  channel: string | null;
+  description: string;
+  error: string;
+  errorCode: number | null;
+  retryable: boolean;
+  attempts: DeadLetterAttempt[];
+  failedAt: number;
+  data: T;
+}
+
+export interface IDeadLetterRepository<T> {
+  add(letter: DeadLetter<T>): Promise<void>;
+  get(id: string): Promise<DeadLetter<T> | null>;
+  list(offset: number, limit: number): Promise<DeadLetter<T>[]>;
+  remove(id: string): Promise<boolean>;
+  purge(): Promise<number>;
+  count(): Promise<number>;
+}
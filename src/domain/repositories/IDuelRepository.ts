@@ -0,0 +1,14 @@
+import type { Duel } from '../value-objects/Duel';
+
+export interface IDuelRepository {
+  create(duel: Duel, ttlSeconds: number): Promise<boolean>;
+  get(duelId: string): Promise<Duel | null>;
+  getUserDuel(userId: string): Promise<string | null>;
+  start(duelId: string, endsAt: number): Promise<boolean>;
+  addClicks(userId: string, count: number, now?: number): Promise<number | null>;
+  getClicks(duelId: string): Promise<Record<string, number>>;
+  getDue(now: number): Promise<string[]>;
+  claim(duelId: string): Promise<boolean>;
+  unclaim(duelId: string, dueAt: number): Promise<void>;
+  remove(duel: Duel): Promise<void>;
+}
@@ -0,0 +1,24 @@
+import type { StoredEnergy } from '../value-objects/Energy';
+
+/**
+ * Size and refill rate of a player's energy tank
+ */
+export interface EnergyTank {
+  max: number;
+  regenPerMinute: number;
+}
+
+/**
+ * Whether a spend went through, and the energy as of the attempt
+ */
+export interface SpendResult {
+  spent: boolean;
+  energy: StoredEnergy;
+}
+
+export interface IEnergyRepository {
+  get(userId: string): Promise<StoredEnergy | null>;
+  set(userId: string, energy: StoredEnergy, ttlSeconds: number): Promise<void>;
+  spend(userId: string, cost: number, tank: EnergyTank, now: number): Promise<SpendResult>;
+  clear(userId: string): Promise<void>;
+}
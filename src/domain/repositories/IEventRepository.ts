@@ -0,0 +1,7 @@
+import type { GameEvent } from '../value-objects/GameEvent';
+
+export interface IEventRepository {
+  getActive(): Promise<GameEvent[] | null>;
+  setActive(events: GameEvent[], ttlSeconds: number): Promise<void>;
+  clearActive(): Promise<void>;
+}
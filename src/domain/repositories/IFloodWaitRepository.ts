@@ -0,0 +1,10 @@
+export interface FloodWaitStats {
+  total: number;
+  global: number;
+}
+
+export interface IFloodWaitRepository {
+  record(chatId: string, retryAfterMs: number): Promise<boolean>;
+  getPauseRemaining(chatId: string): Promise<number>;
+  getStats(): Promise<FloodWaitStats>;
+}
@@ -0,0 +1,13 @@
+import type { LeaderboardEntry } from './ILeaderboardRepository';
+
+export interface IGroupRepository {
+  addMember(chatId: string, userId: string): Promise<void>;
+  removeMember(chatId: string, userId: string): Promise<void>;
+  getMemberCount(chatId: string): Promise<number>;
+  getLeaderboard(chatId: string, limit: number): Promise<LeaderboardEntry[]>;
+  getMemberRank(chatId: string, userId: string): Promise<number | null>;
+  getScoreboardMessageId(chatId: string): Promise<number | null>;
+  setScoreboardMessageId(chatId: string, messageId: number): Promise<void>;
+  clearScoreboardMessageId(chatId: string): Promise<void>;
+  takeUpdatedGroups(): Promise<string[]>;
+}
@@ -5,21 +5,43 @@ export interface LeaderboardEntry {
   rank: number;
 }
 
+export type LeaderboardPeriod = 'global' | 'season' | 'daily' | 'weekly' | 'monthly';
+
+export const LEADERBOARD_PERIODS: readonly LeaderboardPeriod[] = [
+  'global',
+  'season',
+  'daily',
+  'weekly',
+  'monthly',
+];
+
+export function isLeaderboardPeriod(value: unknown): value is LeaderboardPeriod {
+  return LEADERBOARD_PERIODS.includes(value as LeaderboardPeriod);
+}
+
 export interface ILeaderboardRepository {
   updateScore(userId: string, score: number): Promise<void>;
   incrementScore(userId: string, increment: number): Promise<number>;
-  getUserRank(userId: string): Promise<number | null>;
-  getUserScore(userId: string): Promise<number>;
-  getTop(limit: number): Promise<Array<{ userId: string; score: number; rank: number }>>;
+  deductScore(userId: string, amount: number): Promise<number>;
+  creditScore(userId: string, amount: number): Promise<number>;
+  getUserRank(userId: string, period?: LeaderboardPeriod): Promise<number | null>;
+  getUserScore(userId: string, period?: LeaderboardPeriod): Promise<number>;
+  getTop(
+    limit: number,
+    period?: LeaderboardPeriod,
+  ): Promise<Array<{ userId: string; score: number; rank: number }>>;
   getUserNeighbors(
     userId: string,
     above: number,
     below: number,
+    period?: LeaderboardPeriod,
   ): Promise<Array<{ userId: string; score: number; rank: number }>>;
   setUserData(userId: string, username: string): Promise<void>;
   getUserData(userId: string): Promise<string | null>;
-  getFullLeaderboard(limit: number): Promise<LeaderboardEntry[]>;
+  getFullLeaderboard(limit: number, period?: LeaderboardPeriod): Promise<LeaderboardEntry[]>;
   removeUser(userId: string): Promise<void>;
-  getTotalUsers(): Promise<number>;
+  getTotalUsers(period?: LeaderboardPeriod): Promise<number>;
+  resetSeason(): Promise<Array<{ userId: string; score: number; rank: number }>>;
+  restoreSeason(standings: Array<{ userId: string; score: number }>): Promise<void>;
   clear(): Promise<void>;
 }
@@ -0,0 +1,17 @@
+import type { HourlyClicks } from '../value-objects/ClickHistory';
+
+/**
+ * A user's activity within one UTC hour
+ */
+export interface HourlyActivity extends HourlyClicks {
+  points: number;
+  /** Play sessions that started within the hour */
+  sessions: number;
+}
+
+export interface IStatsRepository {
+  recordClick(userId: string, points: number, at?: Date): Promise<void>;
+  recordPoints(userId: string, points: number, at?: Date): Promise<void>;
+  getHourly(userId: string, from: Date, to: Date): Promise<HourlyActivity[]>;
+  clear(userId: string, now?: Date): Promise<void>;
+}
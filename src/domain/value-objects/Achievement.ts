@@ -0,0 +1,178 @@
+import type { MessageKey, TranslateFn } from '../../shared/i18n';
+
+export type AchievementCriterion = 'score' | 'sessionClicks' | 'streakDays' | 'rank';
+
+export interface AchievementProgress {
+  score: bigint;
+  sessionClicks?: number;
+  streakDays?: number;
+  rank?: number | null;
+}
+
+export class Achievement {
+  public readonly id: string;
+  /** Catalogue keys, rendered in the reader's language */
+  public readonly title: MessageKey;
+  public readonly description: MessageKey;
+  public readonly emoji: string;
+  public readonly criterion: AchievementCriterion;
+  public readonly threshold: number;
+
+  constructor(params: {
+    id: string;
+    title: MessageKey;
+    description: MessageKey;
+    emoji: string;
+    criterion: AchievementCriterion;
+    threshold: number;
+  }) {
+    if (!/^[a-z][a-z0-9_]*$/.test(params.id)) {
+      throw new Error('Achievement id must be snake_case');
+    }
+    if (!Number.isInteger(params.threshold) || params.threshold <= 0) {
+      throw new Error('Achievement threshold must be a positive integer');
+    }
+
+    this.id = params.id;
+    this.title = params.title;
+    this.description = params.description;
+    this.emoji = params.emoji;
+    this.criterion = params.criterion;
+    this.threshold = params.threshold;
+  }
+
+  /**
+   * Check whether the given progress satisfies this achievement.
+   * Criteria missing from the progress are treated as not reached.
+   */
+  isUnlockedBy(progress: AchievementProgress): boolean {
+    switch (this.criterion) {
+      case 'score':
+        return progress.score >= BigInt(this.threshold);
+      case 'sessionClicks':
+        return (progress.sessionClicks ?? 0) >= this.threshold;
+      case 'streakDays':
+        return (progress.streakDays ?? 0) >= this.threshold;
+      case 'rank':
+        return progress.rank !== undefined && progress.rank !== null
+          ? progress.rank <= this.threshold
+          : false;
+    }
+  }
+
+  /**
+   * Format for display in the achievements list
+   */
+  format(unlocked: boolean, t: TranslateFn): string {
+    return `${unlocked ? '✅' : '⬜'} ${this.emoji} ${t(this.title)} - ${t(this.description)}`;
+  }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      id: this.id,
+      title: this.title,
+      description: this.description,
+      criterion: this.criterion,
+      threshold: this.threshold,
+    };
+  }
+}
+
+export const ACHIEVEMENT_CATALOGUE: readonly Achievement[] = [
+  new Achievement({
+    id: 'first_century',
+    title: 'achievements.firstCentury.title',
+    description: 'achievements.firstCentury.description',
+    emoji: '⭐',
+    criterion: 'score',
+    threshold: 100,
+  }),
+  new Achievement({
+    id: 'thousand_club',
+    title: 'achievements.thousandClub.title',
+    description: 'achievements.thousandClub.description',
+    emoji: '🥉',
+    criterion: 'score',
+    threshold: 1_000,
+  }),
+  new Achievement({
+    id: 'ten_k_master',
+    title: 'achievements.tenKMaster.title',
+    description: 'achievements.tenKMaster.description',
+    emoji: '🥈',
+    criterion: 'score',
+    threshold: 10_000,
+  }),
+  new Achievement({
+    id: 'hundred_k_legend',
+    title: 'achievements.hundredKLegend.title',
+    description: 'achievements.hundredKLegend.description',
+    emoji: '🥇',
+    criterion: 'score',
+    threshold: 100_000,
+  }),
+  new Achievement({
+    id: 'millionaire',
+    title: 'achievements.millionaire.title',
+    description: 'achievements.millionaire.description',
+    emoji: '🏆',
+    criterion: 'score',
+    threshold: 1_000_000,
+  }),
+  new Achievement({
+    id: 'warming_up',
+    title: 'achievements.warmingUp.title',
+    description: 'achievements.warmingUp.description',
+    emoji: '🔥',
+    criterion: 'sessionClicks',
+    threshold: 50,
+  }),
+  new Achievement({
+    id: 'marathon',
+    title: 'achievements.marathon.title',
+    description: 'achievements.marathon.description',
+    emoji: '🏃',
+    criterion: 'sessionClicks',
+    threshold: 500,
+  }),
+  new Achievement({
+    id: 'regular',
+    title: 'achievements.regular.title',
+    description: 'achievements.regular.description',
+    emoji: '📅',
+    criterion: 'streakDays',
+    threshold: 3,
+  }),
+  new Achievement({
+    id: 'dedicated',
+    title: 'achievements.dedicated.title',
+    description: 'achievements.dedicated.description',
+    emoji: '🗓️',
+    criterion: 'streakDays',
+    threshold: 7,
+  }),
+  new Achievement({
+    id: 'top_hundred',
+    title: 'achievements.topHundred.title',
+    description: 'achievements.topHundred.description',
+    emoji: '📈',
+    criterion: 'rank',
+    threshold: 100,
+  }),
+  new Achievement({
+    id: 'top_ten',
+    title: 'achievements.topTen.title',
+    description: 'achievements.topTen.description',
+    emoji: '🚀',
+    criterion: 'rank',
+    threshold: 10,
+  }),
+  new Achievement({
+    id: 'champion',
+    title: 'achievements.champion.title',
+    description: 'achievements.champion.description',
+    emoji: '👑',
+    criterion: 'rank',
+    threshold: 1,
+  }),
+];
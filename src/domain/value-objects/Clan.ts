@@ -0,0 +1,85 @@
+export type ClanRole = 'owner' | 'officer' | 'member';
+
+/**
+ * Highest rank first
+ */
+export const CLAN_ROLES: readonly ClanRole[] = ['owner', 'officer', 'member'];
+
+export const CLAN_MAX_MEMBERS = 30;
+export const CLAN_NAME_MIN_LENGTH = 3;
+export const CLAN_NAME_MAX_LENGTH = 24;
+
+export function isClanRole(value: unknown): value is ClanRole {
+  return CLAN_ROLES.includes(value as ClanRole);
+}
+
+export function isValidClanName(name: string): boolean {
+  return (
+    name.length >= CLAN_NAME_MIN_LENGTH &&
+    name.length <= CLAN_NAME_MAX_LENGTH &&
+    /^[\p{L}\p{N} _-]+$/u.test(name)
+  );
+}
+
+function rankOf(role: ClanRole): number {
+  return CLAN_ROLES.indexOf(role);
+}
+
+/**
+ * Owners and officers can remove members ranked below them
+ */
+export function canKick(actor: ClanRole, target: ClanRole): boolean {
+  return actor !== 'member' && rankOf(actor) < rankOf(target);
+}
+
+/**
+ * Only the owner promotes members to officer and demotes officers back
+ */
+export function canChangeRole(actor: ClanRole, target: ClanRole, role: ClanRole): boolean {
+  return actor === 'owner' && target !== 'owner' && role !== 'owner' && target !== role;
+}
+
+export interface ClanMemberInfo {
+  userId: string;
+  name: string;
+  role: ClanRole;
+  joinedAt: Date;
+}
+
+export class Clan {
+  public readonly id: string;
+  public readonly name: string;
+  public readonly inviteCode: string;
+  public readonly members: readonly ClanMemberInfo[];
+
+  constructor(params: {
+    id: string;
+    name: string;
+    inviteCode: string;
+    members: readonly ClanMemberInfo[];
+  }) {
+    this.id = params.id;
+    this.name = params.name;
+    this.inviteCode = params.inviteCode;
+    // Owner first, then officers, then members, each by seniority
+    this.members = [...params.members].sort(
+      (a, b) => rankOf(a.role) - rankOf(b.role) || a.joinedAt.getTime() - b.joinedAt.getTime(),
+    );
+  }
+
+  isFull(): boolean {
+    return this.members.length >= CLAN_MAX_MEMBERS;
+  }
+
+  getMember(userId: string): ClanMemberInfo | undefined {
+    return this.members.find((member) => member.userId === userId);
+  }
+
+  /**
+   * The member who takes over when the owner leaves: the most senior
+   * officer, otherwise the most senior member
+   */
+  getSuccessor(): ClanMemberInfo | undefined {
+    return this.members.find((member) => member.role !== 'owner');
+  }
+}
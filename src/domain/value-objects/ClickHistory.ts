@@ -0,0 +1,179 @@
+const HOUR_MS = 3600000;
+const DAY_MS = 86400000;
+
+export const STATS_PERIODS = ['day', 'week', 'month'] as const;
+export type StatsPeriod = (typeof STATS_PERIODS)[number];
+
+export function isStatsPeriod(value: unknown): value is StatsPeriod {
+  return STATS_PERIODS.includes(value as StatsPeriod);
+}
+
+/**
+ * Clicks made within one UTC hour, keyed by the start of the hour
+ */
+export interface HourlyClicks {
+  hour: Date;
+  clicks: number;
+  /** Points earned within the hour, from clicks and every other source */
+  points?: number;
+}
+
+/**
+ * The UTC day, ISO week (starting Monday) or calendar month `offset` periods
+ * before the one containing `now`. The end is exclusive.
+ */
+export function getStatsRange(
+  period: StatsPeriod,
+  offset: number,
+  now: Date = new Date(),
+): { start: Date; end: Date } {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  const day = now.getUTCDate();
+
+  switch (period) {
+    case 'day':
+      return {
+        start: new Date(Date.UTC(year, month, day - offset)),
+        end: new Date(Date.UTC(year, month, day - offset + 1)),
+      };
+    case 'week': {
+      const monday = day - ((now.getUTCDay() + 6) % 7) - offset * 7;
+      return {
+        start: new Date(Date.UTC(year, month, monday)),
+        end: new Date(Date.UTC(year, month, monday + 7)),
+      };
+    }
+    case 'month':
+      return {
+        start: new Date(Date.UTC(year, month - offset, 1)),
+        end: new Date(Date.UTC(year, month - offset + 1, 1)),
+      };
+  }
+}
+
+/**
+ * A user's clicks over one day, week or month, bucketed by UTC hour, with the
+ * number of play sessions and the previous period's total for comparison
+ */
+export class ClickHistory {
+  public readonly period: StatsPeriod;
+  public readonly start: Date;
+  public readonly end: Date;
+  public readonly sessions: number;
+  public readonly previousTotal: number;
+  private readonly hourly: HourlyClicks[];
+
+  constructor(params: {
+    period: StatsPeriod;
+    start: Date;
+    end: Date;
+    hourly: HourlyClicks[];
+    sessions: number;
+    previousTotal: number;
+  }) {
+    if (params.end.getTime() <= params.start.getTime()) {
+      throw new Error('Statistics range must end after it starts');
+    }
+
+    this.period = params.period;
+    this.start = params.start;
+    this.end = params.end;
+    this.sessions = params.sessions;
+    this.previousTotal = params.previousTotal;
+    this.hourly = params.hourly.filter(
+      ({ hour }) =>
+        hour.getTime() >= params.start.getTime() && hour.getTime() < params.end.getTime(),
+    );
+  }
+
+  get total(): number {
+    return this.hourly.reduce((sum, { clicks }) => sum + clicks, 0);
+  }
+
+  /**
+   * Clicks per UTC day of the period, including days without any
+   */
+  dailyTotals(): Array<{ day: Date; clicks: number }> {
+    const clicks = this.perDay(({ clicks }) => clicks);
+    return clicks.map((total, index) => ({
+      day: new Date(this.start.getTime() + index * DAY_MS),
+      clicks: total,
+    }));
+  }
+
+  /**
+   * Clicks per hour of the day (0-23, UTC), summed over the period
+   */
+  hourOfDayTotals(): number[] {
+    return this.perHourOfDay(({ clicks }) => clicks);
+  }
+
+  /**
+   * Points earned per UTC day of the period, including days without any
+   */
+  dailyPoints(): number[] {
+    return this.perDay(({ points }) => points ?? 0);
+  }
+
+  /**
+   * Points earned per hour of the day (0-23, UTC), summed over the period
+   */
+  hourOfDayPoints(): number[] {
+    return this.perHourOfDay(({ points }) => points ?? 0);
+  }
+
+  /**
+   * The day with the most clicks, or null if there were none. Ties go to the
+   * earlier day.
+   */
+  bestDay(): { day: Date; clicks: number } | null {
+    let best: { day: Date; clicks: number } | null = null;
+    for (const entry of this.dailyTotals()) {
+      if (entry.clicks > (best?.clicks ?? 0)) best = entry;
+    }
+    return best;
+  }
+
+  /**
+   * The UTC hour of the day with the most clicks, or null if there were none
+   */
+  busiestHour(): number | null {
+    const hours = this.hourOfDayTotals();
+    const most = Math.max(...hours);
+    return most > 0 ? hours.indexOf(most) : null;
+  }
+
+  averagePerSession(): number {
+    return this.sessions > 0 ? Math.round(this.total / this.sessions) : 0;
+  }
+
+  /**
+   * Change from the previous period in whole percent, or null when the
+   * previous period had no clicks to compare with
+   */
+  changePercent(): number | null {
+    if (this.previousTotal === 0) return null;
+    return Math.round(((this.total - this.previousTotal) / this.previousTotal) * 100);
+  }
+
+  private perDay(value: (entry: HourlyClicks) => number): number[] {
+    const days = new Array<number>(
+      Math.ceil((this.end.getTime() - this.start.getTime()) / DAY_MS),
+    ).fill(0);
+    for (const entry of this.hourly) {
+      const index = Math.floor((entry.hour.getTime() - this.start.getTime()) / DAY_MS);
+      days[index] = (days[index] ?? 0) + value(entry);
+    }
+    return days;
+  }
+
+  private perHourOfDay(value: (entry: HourlyClicks) => number): number[] {
+    const hours = new Array<number>(24).fill(0);
+    for (const entry of this.hourly) {
+      const index = Math.floor((entry.hour.getTime() % DAY_MS) / HOUR_MS);
+      hours[index] = (hours[index] ?? 0) + value(entry);
+    }
+    return hours;
+  }
+}
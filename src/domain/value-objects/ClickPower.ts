@@ -0,0 +1,70 @@
+import { UPGRADE_CATALOGUE } from './Upgrade';
+import { GAME_SETTINGS } from '../../shared/constants';
+
+export interface ClickRoll {
+  points: number;
+  critical: boolean;
+}
+
+/**
+ * Points a single click is worth, derived from the user's owned upgrades and
+ * any running event's multiplier
+ */
+export class ClickPower {
+  static readonly CRIT_MULTIPLIER = 5;
+
+  public readonly basePoints: number;
+  public readonly critChance: number;
+  public readonly multiplier: number;
+
+  constructor(params: { basePoints: number; critChance: number; multiplier?: number }) {
+    if (!Number.isInteger(params.basePoints) || params.basePoints <= 0) {
+      throw new Error('Click power must be a positive integer');
+    }
+    if (params.critChance < 0 || params.critChance > 1) {
+      throw new Error('Crit chance must be between 0 and 1');
+    }
+    if (params.multiplier !== undefined && params.multiplier < 1) {
+      throw new Error('Click multiplier cannot be below 1');
+    }
+
+    this.basePoints = params.basePoints;
+    this.critChance = params.critChance;
+    this.multiplier = params.multiplier ?? 1;
+  }
+
+  /**
+   * Build click power from upgrade levels keyed by upgrade id
+   */
+  static fromLevels(levels: Record<string, number>): ClickPower {
+    let basePoints = 1;
+    let critChance = 0;
+
+    for (const upgrade of UPGRADE_CATALOGUE) {
+      const level = levels[upgrade.id] ?? 0;
+      if (upgrade.effect === 'clickMultiplier') basePoints += upgrade.getEffect(level);
+      if (upgrade.effect === 'critChance') critChance += upgrade.getEffect(level);
+    }
+
+    return new ClickPower({ basePoints, critChance: Math.min(critChance, 1) });
+  }
+
+  /**
+   * The same power boosted by an event multiplier
+   */
+  withMultiplier(multiplier: number): ClickPower {
+    return new ClickPower({ basePoints: this.basePoints, critChance: this.critChance, multiplier });
+  }
+
+  /**
+   * Roll the points for one click, capped to the maximum a click may carry
+   */
+  roll(random: () => number = Math.random): ClickRoll {
+    const critical = this.critChance > 0 && random() < this.critChance;
+    const points = critical ? this.basePoints * ClickPower.CRIT_MULTIPLIER : this.basePoints;
+    return {
+      points: Math.min(Math.round(points * this.multiplier), GAME_SETTINGS.MAX_CLICK_COUNT),
+      critical,
+    };
+  }
+}
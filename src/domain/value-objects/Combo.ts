@@ -0,0 +1,117 @@
+/**
+ * idle: no combo. clicking: the last click was recent enough to extend the
+ * combo. cooldown: the player stopped and the combo is fading away.
+ */
+export type ComboPhase = 'idle' | 'clicking' | 'cooldown';
+
+/**
+ * A click within this long of the previous one extends the combo
+ */
+export const COMBO_WINDOW_MS = 5000;
+
+/**
+ * Once the window has passed, the combo loses one click this often
+ */
+export const COMBO_DECAY_MS = 1000;
+
+/**
+ * Every this many combo clicks raise the multiplier by one step
+ */
+export const COMBO_STEP = 10;
+export const COMBO_BONUS_PER_STEP = 0.5;
+export const MAX_COMBO_MULTIPLIER = 3;
+
+/**
+ * Clicks kept in the buffer; a longer combo would not raise the multiplier
+ */
+export const MAX_COMBO_LENGTH = ((MAX_COMBO_MULTIPLIER - 1) / COMBO_BONUS_PER_STEP) * COMBO_STEP;
+
+/**
+ * How a combo is kept between updates. The buffer holds the combo's click
+ * times as of the last click; decay since then is derived from lastClickTime.
+ */
+export interface ComboSnapshot {
+  gameState: ComboPhase;
+  lastClickTime?: number;
+  clickBuffer: number[];
+}
+
+/**
+ * Consecutive clicks in quick succession, which raise the points per click
+ */
+export class Combo {
+  public readonly phase: ComboPhase;
+  public readonly count: number;
+  public readonly lastClickTime: number | null;
+  private readonly buffer: number[];
+
+  private constructor(
+    phase: ComboPhase,
+    count: number,
+    lastClickTime: number | null,
+    buffer: number[],
+  ) {
+    this.phase = phase;
+    this.count = count;
+    this.lastClickTime = lastClickTime;
+    this.buffer = buffer;
+  }
+
+  static empty(): Combo {
+    return new Combo('idle', 0, null, []);
+  }
+
+  /**
+   * The combo as it stands at `now`, with any decay since the last click
+   */
+  static fromSnapshot(snapshot: ComboSnapshot, now: number = Date.now()): Combo {
+    const { lastClickTime, clickBuffer } = snapshot;
+    if (lastClickTime === undefined || clickBuffer.length === 0) return Combo.empty();
+
+    const idleFor = now - lastClickTime;
+    if (idleFor <= COMBO_WINDOW_MS) {
+      return new Combo('clicking', clickBuffer.length, lastClickTime, [...clickBuffer]);
+    }
+
+    const lost = Math.floor((idleFor - COMBO_WINDOW_MS) / COMBO_DECAY_MS);
+    if (lost >= clickBuffer.length) return Combo.empty();
+    return new Combo('cooldown', clickBuffer.length - lost, lastClickTime, [...clickBuffer]);
+  }
+
+  /**
+   * Points multiplier this combo gives a click
+   */
+  get multiplier(): number {
+    const steps = Math.floor(this.count / COMBO_STEP);
+    return Math.min(1 + steps * COMBO_BONUS_PER_STEP, MAX_COMBO_MULTIPLIER);
+  }
+
+  /**
+   * When the combo starts fading while clicking, or is gone while cooling
+   * down. Null when idle.
+   */
+  get expiresAt(): number | null {
+    if (this.lastClickTime === null) return null;
+    if (this.phase === 'clicking') return this.lastClickTime + COMBO_WINDOW_MS;
+    return this.lastClickTime + COMBO_WINDOW_MS + this.buffer.length * COMBO_DECAY_MS;
+  }
+
+  /**
+   * The combo after one more click at `now`. Clicks lost while cooling down
+   * are dropped, oldest first.
+   */
+  hit(now: number = Date.now()): Combo {
+    const clicks = [...this.buffer.slice(this.buffer.length - this.count), now].slice(
+      -MAX_COMBO_LENGTH,
+    );
+    return new Combo('clicking', clicks.length, now, clicks);
+  }
+
+  toSnapshot(): ComboSnapshot {
+    return {
+      gameState: this.phase,
+      lastClickTime: this.lastClickTime ?? undefined,
+      clickBuffer: [...this.buffer],
+    };
+  }
+}
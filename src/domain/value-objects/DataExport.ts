@@ -0,0 +1,86 @@
+type ExportValue = string | number | boolean | bigint | Date | null;
+type ExportRecord = Record<string, ExportValue>;
+
+/**
+ * Everything stored about a user, grouped by where it comes from. Single
+ * records are null when the user has none.
+ */
+export interface DataExportSections {
+  user: ExportRecord;
+  clicks: ExportRecord[];
+  sessions: ExportRecord[];
+  leaderboardSnapshots: ExportRecord[];
+  achievements: ExportRecord[];
+  upgrades: ExportRecord[];
+  streak: ExportRecord | null;
+  preferences: ExportRecord | null;
+  referredBy: ExportRecord | null;
+  invitees: ExportRecord[];
+  clan: ExportRecord | null;
+  seasonBadges: ExportRecord[];
+  accountHistory: ExportRecord[];
+}
+
+function serializeValue(value: ExportValue): string | number | boolean | null {
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'bigint') return value.toString();
+  return value;
+}
+
+function csvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * A personal data export, rendered as JSON or as CSV
+ */
+export class DataExport {
+  public readonly exportedAt: Date;
+  public readonly sections: DataExportSections;
+
+  constructor(sections: DataExportSections, exportedAt: Date = new Date()) {
+    this.sections = sections;
+    this.exportedAt = exportedAt;
+  }
+
+  /**
+   * Pretty-printed JSON. Dates become ISO strings and big integers strings.
+   */
+  toJsonFile(): string {
+    const sections: Record<string, unknown> = {};
+    for (const [name, section] of Object.entries(this.sections)) {
+      sections[name] = Array.isArray(section)
+        ? section.map((record) => this.serializeRecord(record))
+        : section && this.serializeRecord(section);
+    }
+
+    return JSON.stringify({ exportedAt: this.exportedAt.toISOString(), ...sections }, null, 2);
+  }
+
+  /**
+   * CSV with one row per field: section, record index, field, value
+   */
+  toCsvFile(): string {
+    const rows = [['section', 'record', 'field', 'value']];
+
+    for (const [name, section] of Object.entries(this.sections)) {
+      const records: ExportRecord[] = Array.isArray(section) ? section : section ? [section] : [];
+      records.forEach((record, index) => {
+        for (const [field, value] of Object.entries(record)) {
+          const serialized = serializeValue(value);
+          rows.push([name, String(index), field, serialized === null ? '' : String(serialized)]);
+        }
+      });
+    }
+
+    return rows.map((row) => row.map(csvCell).join(',')).join('\r\n');
+  }
+
+  private serializeRecord(record: ExportRecord): Record<string, string | number | boolean | null> {
+    const serialized: Record<string, string | number | boolean | null> = {};
+    for (const [field, value] of Object.entries(record)) {
+      serialized[field] = serializeValue(value);
+    }
+    return serialized;
+  }
+}
@@ -0,0 +1,59 @@
+export const DUEL_DURATION_MS = 60000;
+
+/**
+ * How long a challenge waits for the opponent to accept
+ */
+export const DUEL_INVITE_TTL_SECONDS = 300;
+
+export interface DuelPlayer {
+  userId: string;
+  telegramId: string;
+  /** Where the player hears about the duel: the challenge's chat or their private chat */
+  chatId: string;
+  name: string;
+}
+
+export class Duel {
+  public readonly id: string;
+  public readonly challenger: DuelPlayer;
+  public readonly opponent: DuelPlayer;
+  public readonly wager: number;
+  /** When the click window closes (ms), null until the opponent accepts */
+  public readonly endsAt: number | null;
+
+  constructor(params: {
+    id: string;
+    challenger: DuelPlayer;
+    opponent: DuelPlayer;
+    wager: number;
+    endsAt?: number | null;
+  }) {
+    this.id = params.id;
+    this.challenger = params.challenger;
+    this.opponent = params.opponent;
+    this.wager = params.wager;
+    this.endsAt = params.endsAt ?? null;
+  }
+
+  isStarted(): boolean {
+    return this.endsAt !== null;
+  }
+
+  get players(): [DuelPlayer, DuelPlayer] {
+    return [this.challenger, this.opponent];
+  }
+
+  /**
+   * The player with more clicks, or null on a draw
+   */
+  getWinner(clicks: Record<string, number>): DuelPlayer | null {
+    const challengerClicks = clicks[this.challenger.userId] ?? 0;
+    const opponentClicks = clicks[this.opponent.userId] ?? 0;
+    if (challengerClicks === opponentClicks) return null;
+    return challengerClicks > opponentClicks ? this.challenger : this.opponent;
+  }
+
+  withEndsAt(endsAt: number): Duel {
+    return new Duel({ ...this, endsAt });
+  }
+}
@@ -0,0 +1,115 @@
+import { UPGRADE_CATALOGUE } from './Upgrade';
+
+const MINUTE_MS = 60000;
+
+/**
+ * Energy a click costs, whatever points it earns
+ */
+export const ENERGY_PER_CLICK = 1;
+
+/**
+ * Energy as last written, before regeneration since then
+ */
+export interface StoredEnergy {
+  energy: number;
+  updatedAt: number;
+}
+
+/**
+ * The player's energy at one moment. Clicks spend it and it refills at a
+ * steady rate; the current amount is derived from the last stored value and
+ * the time passed since, so nothing has to tick in the background.
+ */
+export class Energy {
+  static readonly BASE_MAX = 500;
+  static readonly BASE_REGEN_PER_MINUTE = 30;
+
+  public readonly current: number;
+  public readonly max: number;
+  public readonly regenPerMinute: number;
+
+  constructor(params: { current: number; max: number; regenPerMinute: number }) {
+    if (!Number.isInteger(params.max) || params.max <= 0) {
+      throw new Error('Maximum energy must be a positive integer');
+    }
+    if (params.regenPerMinute <= 0) {
+      throw new Error('Energy regeneration must be positive');
+    }
+
+    this.max = params.max;
+    this.regenPerMinute = params.regenPerMinute;
+    this.current = Math.min(Math.max(params.current, 0), params.max);
+  }
+
+  /**
+   * Build energy from upgrade levels keyed by upgrade id and the stored
+   * value, regenerated up to now. Nothing stored means a full tank.
+   */
+  static fromLevels(
+    levels: Record<string, number>,
+    stored: StoredEnergy | null,
+    now: number = Date.now(),
+  ): Energy {
+    let max = Energy.BASE_MAX;
+    let regenPerMinute = Energy.BASE_REGEN_PER_MINUTE;
+
+    for (const upgrade of UPGRADE_CATALOGUE) {
+      const level = levels[upgrade.id] ?? 0;
+      if (upgrade.effect === 'maxEnergy') max += upgrade.getEffect(level);
+      if (upgrade.effect === 'energyRegen') regenPerMinute += upgrade.getEffect(level);
+    }
+
+    if (!stored) return new Energy({ current: max, max, regenPerMinute });
+
+    const elapsed = Math.max(now - stored.updatedAt, 0);
+    return new Energy({
+      current: stored.energy + (elapsed / MINUTE_MS) * regenPerMinute,
+      max,
+      regenPerMinute,
+    });
+  }
+
+  /**
+   * Whole energy available to spend
+   */
+  get available(): number {
+    return Math.floor(this.current);
+  }
+
+  get isFull(): boolean {
+    return this.current >= this.max;
+  }
+
+  canSpend(cost: number = ENERGY_PER_CLICK): boolean {
+    return this.current >= cost;
+  }
+
+  /**
+   * The energy left after spending; throws when there is not enough
+   */
+  spend(cost: number = ENERGY_PER_CLICK): Energy {
+    if (!this.canSpend(cost)) {
+      throw new Error('Not enough energy');
+    }
+    return new Energy({
+      current: this.current - cost,
+      max: this.max,
+      regenPerMinute: this.regenPerMinute,
+    });
+  }
+
+  /**
+   * Milliseconds until the given amount can be spent
+   */
+  msUntil(cost: number = ENERGY_PER_CLICK): number {
+    if (this.canSpend(cost)) return 0;
+    return Math.ceil(((cost - this.current) / this.regenPerMinute) * MINUTE_MS);
+  }
+
+  /**
+   * Milliseconds until the tank is full again
+   */
+  msUntilFull(): number {
+    return Math.ceil(((this.max - this.current) / this.regenPerMinute) * MINUTE_MS);
+  }
+}
@@ -0,0 +1,86 @@
+export const EVENT_AUDIENCES = ['new_players', 'clan_members'] as const;
+
+/**
+ * Players an event is limited to; null targets everyone
+ */
+export type EventAudience = (typeof EVENT_AUDIENCES)[number];
+
+export const MAX_EVENT_MULTIPLIER = 10;
+
+/**
+ * Accounts younger than this count as new players
+ */
+export const NEW_PLAYER_WINDOW_MS = 7 * 86400000;
+
+export function isEventAudience(value: string): value is EventAudience {
+  return (EVENT_AUDIENCES as readonly string[]).includes(value);
+}
+
+/**
+ * What an event needs to know about a player to decide if it applies
+ */
+export interface EventParticipant {
+  joinedAt: Date;
+  inClan: boolean;
+}
+
+/**
+ * A timed score multiplier such as a double points weekend
+ */
+export class GameEvent {
+  public readonly id: string;
+  public readonly title: string;
+  public readonly multiplier: number;
+  public readonly audience: EventAudience | null;
+  public readonly startsAt: Date;
+  public readonly endsAt: Date;
+
+  constructor(params: {
+    id: string;
+    title: string;
+    multiplier: number;
+    audience: EventAudience | null;
+    startsAt: Date;
+    endsAt: Date;
+  }) {
+    this.id = params.id;
+    this.title = params.title;
+    this.multiplier = params.multiplier;
+    this.audience = params.audience;
+    this.startsAt = params.startsAt;
+    this.endsAt = params.endsAt;
+  }
+
+  /**
+   * Build an event from a database row, dropping audiences this version
+   * does not know
+   */
+  static fromRecord(record: {
+    id: string;
+    title: string;
+    multiplier: number;
+    audience: string | null;
+    startsAt: Date;
+    endsAt: Date;
+  }): GameEvent {
+    return new GameEvent({
+      ...record,
+      audience: record.audience && isEventAudience(record.audience) ? record.audience : null,
+    });
+  }
+
+  isActive(now: Date = new Date()): boolean {
+    return this.startsAt.getTime() <= now.getTime() && now.getTime() < this.endsAt.getTime();
+  }
+
+  appliesTo(participant: EventParticipant, now: Date = new Date()): boolean {
+    switch (this.audience) {
+      case 'new_players':
+        return now.getTime() - participant.joinedAt.getTime() < NEW_PLAYER_WINDOW_MS;
+      case 'clan_members':
+        return participant.inClan;
+      default:
+        return true;
+    }
+  }
+}
@@ -0,0 +1,116 @@
+export type NotificationCategory = 'achievements' | 'reminders' | 'events' | 'social';
+
+export const NOTIFICATION_CATEGORIES: readonly NotificationCategory[] = [
+  'achievements',
+  'reminders',
+  'events',
+  'social',
+];
+
+export const LANGUAGES = {
+  en: '🇬🇧 English',
+  es: '🇪🇸 Español',
+  ru: '🇷🇺 Русский',
+} as const;
+
+export type Language = keyof typeof LANGUAGES;
+
+/**
+ * Themes change the emoji used on the click button and page headers
+ */
+export const THEMES = {
+  classic: { emoji: '👆' },
+  fire: { emoji: '🔥' },
+  space: { emoji: '🚀' },
+} as const;
+
+export type Theme = keyof typeof THEMES;
+
+export function isNotificationCategory(value: unknown): value is NotificationCategory {
+  return NOTIFICATION_CATEGORIES.includes(value as NotificationCategory);
+}
+
+export function isLanguage(value: unknown): value is Language {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(LANGUAGES, value);
+}
+
+export function isTheme(value: unknown): value is Theme {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(THEMES, value);
+}
+
+/**
+ * Streak reminders are opt-in, every other category is opt-out
+ */
+const DEFAULT_NOTIFICATIONS: Record<NotificationCategory, boolean> = {
+  achievements: true,
+  reminders: false,
+  events: true,
+  social: true,
+};
+
+export class Preferences {
+  public readonly notificationsEnabled: boolean;
+  public readonly notifications: Readonly<Record<NotificationCategory, boolean>>;
+  /** Null follows the language of the user's Telegram client */
+  public readonly language: Language | null;
+  public readonly theme: Theme;
+
+  constructor(params: {
+    notificationsEnabled?: boolean;
+    notifications?: Partial<Record<NotificationCategory, boolean>>;
+    language?: string | null;
+    theme?: string;
+  }) {
+    this.notificationsEnabled = params.notificationsEnabled ?? true;
+    this.notifications = { ...DEFAULT_NOTIFICATIONS, ...params.notifications };
+    // Unknown values from older rows fall back to the defaults
+    this.language = isLanguage(params.language) ? params.language : null;
+    this.theme = isTheme(params.theme) ? params.theme : 'classic';
+  }
+
+  static defaults(): Preferences {
+    return new Preferences({});
+  }
+
+  /**
+   * Check whether a notification may be sent. Without a category only the
+   * master switch applies.
+   */
+  allows(category?: NotificationCategory): boolean {
+    if (!this.notificationsEnabled) return false;
+    return category ? this.notifications[category] : true;
+  }
+
+  withNotificationsEnabled(enabled: boolean): Preferences {
+    return new Preferences({ ...this.toJSON(), notificationsEnabled: enabled });
+  }
+
+  withNotification(category: NotificationCategory, enabled: boolean): Preferences {
+    return new Preferences({
+      ...this.toJSON(),
+      notifications: { ...this.notifications, [category]: enabled },
+    });
+  }
+
+  withLanguage(language: Language | null): Preferences {
+    return new Preferences({ ...this.toJSON(), language });
+  }
+
+  withTheme(theme: Theme): Preferences {
+    return new Preferences({ ...this.toJSON(), theme });
+  }
+
+  toJSON(): {
+    notificationsEnabled: boolean;
+    notifications: Record<NotificationCategory, boolean>;
+    language: Language | null;
+    theme: Theme;
+  } {
+    return {
+      notificationsEnabled: this.notificationsEnabled,
+      notifications: { ...this.notifications },
+      language: this.language,
+      theme: this.theme,
+    };
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Final ranks that earn a season badge
+ */
+export const SEASON_BADGE_EMOJIS: readonly string[] = ['🥇', '🥈', '🥉'];
+
+export function isBadgeRank(rank: number): boolean {
+  return rank >= 1 && rank <= SEASON_BADGE_EMOJIS.length;
+}
+
+export function badgeEmoji(rank: number): string {
+  return SEASON_BADGE_EMOJIS[rank - 1] ?? '🏅';
+}
+
+export interface SeasonBadgeInfo {
+  seasonNumber: number;
+  rank: number;
+}
+
+export class Season {
+  public readonly id: string;
+  public readonly number: number;
+  public readonly startsAt: Date;
+  public readonly endsAt: Date;
+
+  constructor(params: { id: string; number: number; startsAt: Date; endsAt: Date }) {
+    this.id = params.id;
+    this.number = params.number;
+    this.startsAt = params.startsAt;
+    this.endsAt = params.endsAt;
+  }
+
+  isOver(now: Date = new Date()): boolean {
+    return now.getTime() >= this.endsAt.getTime();
+  }
+}
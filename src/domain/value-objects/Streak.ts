@@ -0,0 +1,102 @@
+const DAY_MS = 86400000;
+
+/**
+ * Reward for each day of a streak. Days past the end keep the last reward.
+ */
+export const DAILY_REWARDS: readonly number[] = [50, 75, 100, 150, 200, 300, 500];
+
+/**
+ * Format a date as a UTC calendar day, e.g. 2024-12-30
+ */
+export function toDayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * A user's daily claim streak. Days are UTC calendar days, matching the
+ * daily leaderboard buckets.
+ */
+export class Streak {
+  public readonly current: number;
+  public readonly best: number;
+  public readonly lastClaimDay: string | null;
+
+  constructor(params: { current: number; best: number; lastClaimDay: string | null }) {
+    if (!Number.isInteger(params.current) || params.current < 0) {
+      throw new Error('Streak must be a non-negative integer');
+    }
+    if (params.lastClaimDay !== null && !/^\d{4}-\d{2}-\d{2}$/.test(params.lastClaimDay)) {
+      throw new Error('Last claim day must be formatted as YYYY-MM-DD');
+    }
+
+    this.current = params.current;
+    this.best = Math.max(params.best, params.current);
+    this.lastClaimDay = params.lastClaimDay;
+  }
+
+  static empty(): Streak {
+    return new Streak({ current: 0, best: 0, lastClaimDay: null });
+  }
+
+  /**
+   * Reward for claiming on the given streak day (1-indexed)
+   */
+  static rewardFor(day: number): number {
+    const index = Math.min(Math.max(day, 1), DAILY_REWARDS.length) - 1;
+    return DAILY_REWARDS[index]!;
+  }
+
+  /**
+   * Check whether today's reward is still unclaimed
+   */
+  canClaim(now: Date = new Date()): boolean {
+    return this.lastClaimDay !== toDayKey(now);
+  }
+
+  /**
+   * The streak as it stands today: a missed day resets it to zero
+   */
+  activeDays(now: Date = new Date()): number {
+    const today = toDayKey(now);
+    const yesterday = toDayKey(new Date(now.getTime() - DAY_MS));
+    return this.lastClaimDay === today || this.lastClaimDay === yesterday ? this.current : 0;
+  }
+
+  /**
+   * Check whether the streak breaks unless the user claims today
+   */
+  isAtRisk(now: Date = new Date()): boolean {
+    return this.current > 0 && this.lastClaimDay === toDayKey(new Date(now.getTime() - DAY_MS));
+  }
+
+  /**
+   * The streak after claiming today
+   */
+  claim(now: Date = new Date()): Streak {
+    if (!this.canClaim(now)) {
+      throw new Error('Daily reward already claimed today');
+    }
+
+    const current = this.activeDays(now) + 1;
+    return new Streak({
+      current,
+      best: Math.max(this.best, current),
+      lastClaimDay: toDayKey(now),
+    });
+  }
+
+  /**
+   * Reward for the next claim
+   */
+  nextReward(now: Date = new Date()): number {
+    return Streak.rewardFor(this.activeDays(now) + 1);
+  }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      current: this.current,
+      best: this.best,
+      lastClaimDay: this.lastClaimDay,
+    };
+  }
+}
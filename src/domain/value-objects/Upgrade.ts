@@ -0,0 +1,177 @@
+import type { MessageKey, TranslateFn } from '../../shared/i18n';
+
+export type UpgradeEffect =
+  | 'clickMultiplier'
+  | 'autoClicker'
+  | 'critChance'
+  | 'maxEnergy'
+  | 'energyRegen';
+
+export class Upgrade {
+  public readonly id: string;
+  /** Catalogue keys, rendered in the reader's language */
+  public readonly title: MessageKey;
+  public readonly description: MessageKey;
+  public readonly emoji: string;
+  public readonly effect: UpgradeEffect;
+  public readonly basePrice: number;
+  public readonly priceGrowth: number;
+  public readonly maxLevel: number;
+  public readonly effectPerLevel: number;
+
+  constructor(params: {
+    id: string;
+    title: MessageKey;
+    description: MessageKey;
+    emoji: string;
+    effect: UpgradeEffect;
+    basePrice: number;
+    priceGrowth: number;
+    maxLevel: number;
+    effectPerLevel: number;
+  }) {
+    if (!/^[a-z][a-z0-9_]*$/.test(params.id)) {
+      throw new Error('Upgrade id must be snake_case');
+    }
+    if (!Number.isInteger(params.basePrice) || params.basePrice <= 0) {
+      throw new Error('Upgrade base price must be a positive integer');
+    }
+    if (params.priceGrowth < 1) {
+      throw new Error('Upgrade price growth must be at least 1');
+    }
+    if (!Number.isInteger(params.maxLevel) || params.maxLevel <= 0) {
+      throw new Error('Upgrade max level must be a positive integer');
+    }
+
+    this.id = params.id;
+    this.title = params.title;
+    this.description = params.description;
+    this.emoji = params.emoji;
+    this.effect = params.effect;
+    this.basePrice = params.basePrice;
+    this.priceGrowth = params.priceGrowth;
+    this.maxLevel = params.maxLevel;
+    this.effectPerLevel = params.effectPerLevel;
+  }
+
+  /**
+   * Price of the next level when the user currently owns `level`
+   */
+  getPrice(level: number): number {
+    return Math.round(this.basePrice * Math.pow(this.priceGrowth, level));
+  }
+
+  /**
+   * Check whether no further level can be bought
+   */
+  isMaxed(level: number): boolean {
+    return level >= this.maxLevel;
+  }
+
+  /**
+   * Total effect granted by owning `level` levels
+   */
+  getEffect(level: number): number {
+    return this.effectPerLevel * Math.min(Math.max(level, 0), this.maxLevel);
+  }
+
+  /**
+   * Human readable effect at the given level
+   */
+  formatEffect(level: number, t: TranslateFn): string {
+    const effect = this.getEffect(level);
+    const value = this.effect === 'critChance' ? Math.round(effect * 100) : effect;
+    return t(`shop.effect.${this.effect}`, { value });
+  }
+
+  /**
+   * Format for display in the shop
+   */
+  format(level: number, t: TranslateFn): string {
+    return t('shop.upgrade', {
+      emoji: this.emoji,
+      title: t(this.title),
+      level,
+      maxLevel: this.maxLevel,
+      description: t(this.description),
+      effect: this.formatEffect(level, t),
+      next: this.isMaxed(level)
+        ? t('shop.maxLevel')
+        : t('shop.next', { effect: this.formatEffect(level + 1, t), price: this.getPrice(level) }),
+    });
+  }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      id: this.id,
+      title: this.title,
+      effect: this.effect,
+      basePrice: this.basePrice,
+      priceGrowth: this.priceGrowth,
+      maxLevel: this.maxLevel,
+      effectPerLevel: this.effectPerLevel,
+    };
+  }
+}
+
+export const UPGRADE_CATALOGUE: readonly Upgrade[] = [
+  new Upgrade({
+    id: 'power_finger',
+    title: 'upgrades.powerFinger.title',
+    description: 'upgrades.powerFinger.description',
+    emoji: '💪',
+    effect: 'clickMultiplier',
+    basePrice: 50,
+    priceGrowth: 2,
+    maxLevel: 9,
+    effectPerLevel: 1,
+  }),
+  new Upgrade({
+    id: 'auto_clicker',
+    title: 'upgrades.autoClicker.title',
+    description: 'upgrades.autoClicker.description',
+    emoji: '🤖',
+    effect: 'autoClicker',
+    basePrice: 200,
+    priceGrowth: 1.8,
+    maxLevel: 10,
+    effectPerLevel: 2,
+  }),
+  new Upgrade({
+    id: 'lucky_strike',
+    title: 'upgrades.luckyStrike.title',
+    description: 'upgrades.luckyStrike.description',
+    emoji: '🍀',
+    effect: 'critChance',
+    basePrice: 100,
+    priceGrowth: 1.7,
+    maxLevel: 10,
+    effectPerLevel: 0.05,
+  }),
+  new Upgrade({
+    id: 'energy_tank',
+    title: 'upgrades.energyTank.title',
+    description: 'upgrades.energyTank.description',
+    emoji: '🔋',
+    effect: 'maxEnergy',
+    basePrice: 150,
+    priceGrowth: 1.8,
+    maxLevel: 10,
+    effectPerLevel: 100,
+  }),
+  new Upgrade({
+    id: 'quick_charge',
+    title: 'upgrades.quickCharge.title',
+    description: 'upgrades.quickCharge.description',
+    emoji: '⚡',
+    effect: 'energyRegen',
+    basePrice: 150,
+    priceGrowth: 1.9,
+    maxLevel: 10,
+    effectPerLevel: 10,
+  }),
+];
+
+export function findUpgrade(id: string): Upgrade | undefined {
+  return UPGRADE_CATALOGUE.find((upgrade) => upgrade.id === id);
+}
@@ -0,0 +1,146 @@
+import { PngImage, type Rgb } from './PngImage';
+
+const WIDTH = 800;
+const HEIGHT = 400;
+const MARGIN = { top: 24, right: 24, bottom: 40, left: 72 };
+const GRID_LINES = 4;
+const MAX_X_LABELS = 12;
+
+const COLORS: Record<'background' | 'grid' | 'axis' | 'label' | 'bar' | 'line', Rgb> = {
+  background: [255, 255, 255],
+  grid: [232, 234, 240],
+  axis: [140, 144, 156],
+  label: [80, 84, 96],
+  bar: [76, 132, 255],
+  line: [255, 140, 0],
+};
+
+/**
+ * One value per x position, labelled with a short numeric label (a day of
+ * the month or an hour)
+ */
+export interface ChartSeries {
+  labels: string[];
+  values: number[];
+}
+
+/**
+ * Shorten a number for an axis label, e.g. 1200 -> 1.2k
+ */
+export function formatCompact(value: number): string {
+  const units: Array<[number, string]> = [
+    [1_000_000, 'M'],
+    [1_000, 'k'],
+  ];
+  for (const [size, suffix] of units) {
+    if (Math.abs(value) >= size) {
+      const scaled = value / size;
+      return `${scaled < 10 ? Number(scaled.toFixed(1)) : Math.round(scaled)}${suffix}`;
+    }
+  }
+  return String(Math.round(value));
+}
+
+/**
+ * Round the axis maximum up to a value that divides evenly into grid lines
+ */
+function niceMax(max: number): number {
+  if (max <= 0) return GRID_LINES;
+  const magnitude = 10 ** Math.floor(Math.log10(max / GRID_LINES));
+  const step = [1, 2, 2.5, 5, 10].map((m) => m * magnitude).find((s) => s * GRID_LINES >= max);
+  return (step ?? magnitude * 10) * GRID_LINES;
+}
+
+interface Plot {
+  image: PngImage;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  max: number;
+}
+
+function drawFrame(series: ChartSeries): Plot {
+  const image = new PngImage(WIDTH, HEIGHT, COLORS.background);
+  const plot = {
+    image,
+    left: MARGIN.left,
+    top: MARGIN.top,
+    width: WIDTH - MARGIN.left - MARGIN.right,
+    height: HEIGHT - MARGIN.top - MARGIN.bottom,
+    max: niceMax(Math.max(0, ...series.values)),
+  };
+  const textHeight = PngImage.textHeight();
+
+  for (let i = 0; i <= GRID_LINES; i++) {
+    const y = plot.top + plot.height - (plot.height * i) / GRID_LINES;
+    image.drawLine(plot.left, y, plot.left + plot.width, y, i === 0 ? COLORS.axis : COLORS.grid);
+
+    const label = formatCompact((plot.max * i) / GRID_LINES);
+    image.drawText(
+      plot.left - 10 - PngImage.textWidth(label),
+      y - textHeight / 2,
+      label,
+      COLORS.label,
+    );
+  }
+  image.drawLine(plot.left, plot.top, plot.left, plot.top + plot.height, COLORS.axis);
+
+  const every = Math.ceil(series.labels.length / MAX_X_LABELS);
+  const slot = plot.width / Math.max(series.labels.length, 1);
+  series.labels.forEach((label, index) => {
+    if (index % every !== 0) return;
+    const center = plot.left + slot * (index + 0.5);
+    image.drawText(
+      center - PngImage.textWidth(label) / 2,
+      plot.top + plot.height + 12,
+      label,
+      COLORS.label,
+    );
+  });
+
+  return plot;
+}
+
+/**
+ * Bar chart with one bar per value
+ */
+export function renderBarChart(series: ChartSeries): Buffer {
+  const plot = drawFrame(series);
+  const slot = plot.width / Math.max(series.values.length, 1);
+  const barWidth = Math.max(1, slot * 0.7);
+
+  series.values.forEach((value, index) => {
+    if (value <= 0) return;
+    const barHeight = Math.max(1, (value / plot.max) * plot.height);
+    plot.image.fillRect(
+      plot.left + slot * index + (slot - barWidth) / 2,
+      plot.top + plot.height - barHeight,
+      barWidth,
+      barHeight,
+      COLORS.bar,
+    );
+  });
+
+  return plot.image.toPng();
+}
+
+/**
+ * Line chart joining the values left to right
+ */
+export function renderLineChart(series: ChartSeries): Buffer {
+  const plot = drawFrame(series);
+  const slot = plot.width / Math.max(series.values.length, 1);
+  const points = series.values.map((value, index) => ({
+    x: plot.left + slot * (index + 0.5),
+    y: plot.top + plot.height - (value / plot.max) * plot.height,
+  }));
+
+  points.forEach((point, index) => {
+    const next = points[index + 1];
+    if (next) plot.image.drawLine(point.x, point.y, next.x, next.y, COLORS.line, 3);
+    plot.image.fillRect(point.x - 3, point.y - 3, 7, 7, COLORS.line);
+  });
+
+  return plot.image.toPng();
+}
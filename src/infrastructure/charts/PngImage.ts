@@ -0,0 +1,180 @@
+import { deflateSync } from 'zlib';
+
+export type Rgb = readonly [number, number, number];
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(buffer: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of buffer) {
+    crc = (CRC_TABLE[(crc ^ byte) & 0xff] ?? 0) ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/**
+ * 3x5 pixel glyphs, one string of rows per character. Covers what chart
+ * labels need: digits and compact number suffixes.
+ */
+const GLYPHS: Record<string, string> = {
+  '0': '111101101101111',
+  '1': '010110010010111',
+  '2': '111001111100111',
+  '3': '111001111001111',
+  '4': '101101111001001',
+  '5': '111100111001111',
+  '6': '111100111101111',
+  '7': '111001001001001',
+  '8': '111101111101111',
+  '9': '111101111001111',
+  k: '100101110101101',
+  M: '101111111101101',
+  '.': '000000000000010',
+  '-': '000000111000000',
+};
+
+const GLYPH_WIDTH = 3;
+const GLYPH_HEIGHT = 5;
+
+/**
+ * A minimal RGB raster that encodes itself as PNG, enough to draw charts
+ * without a browser or a native canvas
+ */
+export class PngImage {
+  public readonly width: number;
+  public readonly height: number;
+  private readonly pixels: Buffer;
+
+  constructor(width: number, height: number, background: Rgb) {
+    if (!Number.isInteger(width) || !Number.isInteger(height) || width <= 0 || height <= 0) {
+      throw new Error('Image size must be positive integers');
+    }
+
+    this.width = width;
+    this.height = height;
+    this.pixels = Buffer.alloc(width * height * 3);
+    this.fillRect(0, 0, width, height, background);
+  }
+
+  /**
+   * Pixels outside the image are ignored
+   */
+  setPixel(x: number, y: number, color: Rgb): void {
+    const px = Math.round(x);
+    const py = Math.round(y);
+    if (px < 0 || py < 0 || px >= this.width || py >= this.height) return;
+
+    const offset = (py * this.width + px) * 3;
+    this.pixels[offset] = color[0];
+    this.pixels[offset + 1] = color[1];
+    this.pixels[offset + 2] = color[2];
+  }
+
+  getPixel(x: number, y: number): Rgb {
+    const offset = (y * this.width + x) * 3;
+    return [this.pixels[offset] ?? 0, this.pixels[offset + 1] ?? 0, this.pixels[offset + 2] ?? 0];
+  }
+
+  fillRect(x: number, y: number, width: number, height: number, color: Rgb): void {
+    const left = Math.max(0, Math.round(x));
+    const top = Math.max(0, Math.round(y));
+    const right = Math.min(this.width, Math.round(x + width));
+    const bottom = Math.min(this.height, Math.round(y + height));
+
+    for (let py = top; py < bottom; py++) {
+      for (let px = left; px < right; px++) {
+        this.setPixel(px, py, color);
+      }
+    }
+  }
+
+  /**
+   * Straight line drawn with a square brush of the given thickness
+   */
+  drawLine(x0: number, y0: number, x1: number, y1: number, color: Rgb, thickness = 1): void {
+    const steps = Math.max(Math.abs(x1 - x0), Math.abs(y1 - y0), 1);
+    const half = Math.floor(thickness / 2);
+
+    for (let i = 0; i <= steps; i++) {
+      const x = Math.round(x0 + ((x1 - x0) * i) / steps);
+      const y = Math.round(y0 + ((y1 - y0) * i) / steps);
+      this.fillRect(x - half, y - half, thickness, thickness, color);
+    }
+  }
+
+  /**
+   * Draw text in the built-in pixel font. Characters without a glyph leave a
+   * blank space.
+   */
+  drawText(x: number, y: number, text: string, color: Rgb, scale = 2): void {
+    [...text].forEach((char, index) => {
+      const glyph = GLYPHS[char];
+      if (!glyph) return;
+
+      const left = x + index * (GLYPH_WIDTH + 1) * scale;
+      for (let row = 0; row < GLYPH_HEIGHT; row++) {
+        for (let col = 0; col < GLYPH_WIDTH; col++) {
+          if (glyph[row * GLYPH_WIDTH + col] === '1') {
+            this.fillRect(left + col * scale, y + row * scale, scale, scale, color);
+          }
+        }
+      }
+    });
+  }
+
+  /**
+   * Width in pixels of text drawn at the given scale
+   */
+  static textWidth(text: string, scale = 2): number {
+    return text.length === 0 ? 0 : (text.length * (GLYPH_WIDTH + 1) - 1) * scale;
+  }
+
+  static textHeight(scale = 2): number {
+    return GLYPH_HEIGHT * scale;
+  }
+
+  /**
+   * Encode as an 8-bit RGB PNG
+   */
+  toPng(): Buffer {
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(this.width, 0);
+    header.writeUInt32BE(this.height, 4);
+    header[8] = 8; // bit depth
+    header[9] = 2; // colour type: RGB
+    header[10] = 0; // compression
+    header[11] = 0; // filter method
+    header[12] = 0; // no interlace
+
+    // Every scanline starts with its filter type; 0 leaves the bytes as they are
+    const rowLength = this.width * 3;
+    const raw = Buffer.alloc((rowLength + 1) * this.height);
+    for (let y = 0; y < this.height; y++) {
+      this.pixels.copy(raw, y * (rowLength + 1) + 1, y * rowLength, (y + 1) * rowLength);
+    }
+
+    return Buffer.concat([
+      PNG_SIGNATURE,
+      pngChunk('IHDR', header),
+      pngChunk('IDAT', deflateSync(raw)),
+      pngChunk('IEND', Buffer.alloc(0)),
+    ]);
+  }
+}
@@ -3,3 +3,4 @@ export { ClickRedisRepository } from './repositories/clickRepository';
 export { LeaderboardRedisRepository } from './repositories/leaderboardRepository';
 export { RateLimiterRedisRepository } from './repositories/rateLimiterRepository';
 export { SessionRedisRepository } from './repositories/sessionRepository';
+export { GroupRedisRepository } from './repositories/groupRepository';
@@ -0,0 +1,300 @@
+import type Redis from 'ioredis';
+import type { Result } from 'ioredis';
+import { redisClient } from '../client';
+import type {
+  ChatQueueEntry,
+  ChatSendLimits,
+  IChatQueueRepository,
+} from '../../../domain/repositories/IChatQueueRepository';
+
+/**
+ * Keeps priorities apart in the sort order; the sequence number below keeps
+ * jobs of the same priority first in, first out
+ */
+const PRIORITY_SPAN = 1e12;
+
+/**
+ * Take the chat at the head of the ring and mark it as held, in one step, so
+ * a process that dies mid-turn leaves the chat where recoverChats finds it.
+ * KEYS = the ring, the held chats. ARGV = now (ms).
+ */
+const NEXT_CHAT_SCRIPT = `
+local chatId = redis.call('LPOP', KEYS[1])
+if not chatId then
+  return false
+end
+redis.call('ZADD', KEYS[2], ARGV[1], chatId)
+return chatId
+`;
+
+/**
+ * Hand a held chat back: to the end of the ring while it has jobs, otherwise
+ * out of the active set, so the next push puts it back in the ring. Chats no
+ * longer held were recovered already and are left alone. KEYS = the held
+ * chats, the chat's exempt jobs, its other jobs, the active set, the ring.
+ * ARGV = chat id.
+ */
+const RELEASE_CHAT_SCRIPT = `
+if redis.call('ZREM', KEYS[1], ARGV[1]) == 0 then
+  return 0
+end
+if redis.call('ZCARD', KEYS[2]) + redis.call('ZCARD', KEYS[3]) == 0 then
+  redis.call('SREM', KEYS[4], ARGV[1])
+  return 0
+end
+redis.call('RPUSH', KEYS[5], ARGV[1])
+return 1
+`;
+
+/**
+ * Release every chat held since before the cutoff. KEYS = the held chats,
+ * the active set, the ring. ARGV = cutoff (ms), exempt jobs key prefix,
+ * other jobs key prefix. Returns the number of chats released.
+ */
+const RECOVER_CHATS_SCRIPT = `
+local stale = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1])
+for _, chatId in ipairs(stale) do
+  redis.call('ZREM', KEYS[1], chatId)
+  if redis.call('ZCARD', ARGV[2] .. chatId) + redis.call('ZCARD', ARGV[3] .. chatId) == 0 then
+    redis.call('SREM', KEYS[2], chatId)
+  else
+    redis.call('RPUSH', KEYS[3], chatId)
+  end
+end
+return #stale
+`;
+
+declare module 'ioredis' {
+  interface RedisCommander<Context> {
+    nextChat(ringKey: string, heldKey: string, now: number): Result<string | null, Context>;
+    releaseChat(
+      heldKey: string,
+      exemptKey: string,
+      chatKey: string,
+      activeKey: string,
+      ringKey: string,
+      chatId: string,
+    ): Result<number, Context>;
+    recoverChats(
+      heldKey: string,
+      activeKey: string,
+      ringKey: string,
+      cutoff: number,
+      exemptPrefix: string,
+      chatPrefix: string,
+    ): Result<number, Context>;
+  }
+}
+
+/**
+ * Per-chat sub-queues of outgoing jobs and the ring of chats that have jobs
+ * waiting. Each chat's jobs are ordered by priority, then arrival; jobs exempt
+ * from the send limits wait in a lane of their own, ahead of the others, so a
+ * held back message cannot block them. A chat is in the ring at most once: the set of active chats guards the list. A chat
+ * taken from the ring is held until it is released.
+ */
+export class ChatQueueRedisRepository<T> implements IChatQueueRepository<T> {
+  private redis: Redis;
+  private readonly chatPrefix = 'scheduler:chat:';
+  private readonly exemptPrefix = 'scheduler:exempt:';
+  private readonly jobsKey = 'scheduler:jobs';
+  private readonly ringKey = 'scheduler:ring';
+  private readonly activeKey = 'scheduler:active';
+  private readonly heldKey = 'scheduler:held';
+  private readonly sequenceKey = 'scheduler:seq';
+  private readonly sizeKey = 'scheduler:size';
+  private readonly slotPrefix = 'scheduler:slot:';
+  private readonly minutePrefix = 'scheduler:minute:';
+
+  constructor() {
+    this.redis = redisClient.getClient();
+    this.redis.defineCommand('nextChat', { numberOfKeys: 2, lua: NEXT_CHAT_SCRIPT });
+    this.redis.defineCommand('releaseChat', { numberOfKeys: 5, lua: RELEASE_CHAT_SCRIPT });
+    this.redis.defineCommand('recoverChats', { numberOfKeys: 3, lua: RECOVER_CHATS_SCRIPT });
+  }
+
+  /**
+   * Add a job to its chat's queue. A job pushed back keeps its sequence, and
+   * so its place.
+   */
+  async push(entry: ChatQueueEntry<T>): Promise<void> {
+    const sequence = entry.sequence ?? (await this.redis.incr(this.sequenceKey));
+    await this.redis
+      .multi()
+      .hset(this.jobsKey, entry.id, JSON.stringify({ ...entry, sequence }))
+      .zadd(
+        `${entry.exempt ? this.exemptPrefix : this.chatPrefix}${entry.chatId}`,
+        -entry.priority * PRIORITY_SPAN + sequence,
+        entry.id,
+      )
+      .incr(this.sizeKey)
+      .exec();
+
+    if ((await this.redis.sadd(this.activeKey, entry.chatId)) === 1) {
+      await this.redis.rpush(this.ringKey, entry.chatId);
+    }
+  }
+
+  /**
+   * Drop a job that has not been dispatched yet. Returns false when it is
+   * no longer waiting here.
+   */
+  async remove(chatId: string, id: string): Promise<boolean> {
+    if (!(await this.unqueue(chatId, id))) return false;
+
+    await this.redis.multi().hdel(this.jobsKey, id).decr(this.sizeKey).exec();
+    return true;
+  }
+
+  /**
+   * The chat's next job, left in place: the most urgent exempt one, if any
+   */
+  async peek(chatId: string): Promise<ChatQueueEntry<T> | null> {
+    for (const lane of this.lanes(chatId)) {
+      const [id] = await this.redis.zrange(lane, 0, 0);
+      if (!id) continue;
+
+      const stored = await this.redis.hget(this.jobsKey, id);
+      return stored ? (JSON.parse(stored) as ChatQueueEntry<T>) : null;
+    }
+    return null;
+  }
+
+  /**
+   * Take a given job out of the chat's queue. Returns null when it is no
+   * longer waiting here.
+   */
+  async take(chatId: string, id: string): Promise<ChatQueueEntry<T> | null> {
+    if (!(await this.unqueue(chatId, id))) return null;
+
+    return this.unstore(id);
+  }
+
+  /**
+   * Take the chat's next job: the most urgent exempt one, if any
+   */
+  async pop(chatId: string): Promise<ChatQueueEntry<T> | null> {
+    for (const lane of this.lanes(chatId)) {
+      const [id] = await this.redis.zpopmin(lane);
+      if (id) return this.unstore(id);
+    }
+    return null;
+  }
+
+  /**
+   * The chat's exempt lane, then its other jobs
+   */
+  private lanes(chatId: string): [string, string] {
+    return [`${this.exemptPrefix}${chatId}`, `${this.chatPrefix}${chatId}`];
+  }
+
+  /**
+   * Take a job out of whichever lane it waits in
+   */
+  private async unqueue(chatId: string, id: string): Promise<boolean> {
+    for (const lane of this.lanes(chatId)) {
+      if ((await this.redis.zrem(lane, id)) === 1) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Take back a job's stored entry once it has left its chat's queue
+   */
+  private async unstore(id: string): Promise<ChatQueueEntry<T> | null> {
+    const [[, stored]] = (await this.redis
+      .multi()
+      .hget(this.jobsKey, id)
+      .hdel(this.jobsKey, id)
+      .decr(this.sizeKey)
+      .exec()) as [[Error | null, string | null]];
+    return stored ? (JSON.parse(stored) as ChatQueueEntry<T>) : null;
+  }
+
+  /**
+   * Take the next chat in the ring; hand it back with releaseChat
+   */
+  async nextChat(): Promise<string | null> {
+    return (await this.redis.nextChat(this.ringKey, this.heldKey, Date.now())) || null;
+  }
+
+  /**
+   * Put a chat back at the end of the ring if it still has jobs
+   */
+  async releaseChat(chatId: string): Promise<void> {
+    await this.redis.releaseChat(
+      this.heldKey,
+      ...this.lanes(chatId),
+      this.activeKey,
+      this.ringKey,
+      chatId,
+    );
+  }
+
+  /**
+   * Release chats held for longer than a turn can take, such as those of a
+   * process that stopped mid-turn. Returns the number released.
+   */
+  async recoverChats(maxHoldMs: number): Promise<number> {
+    return this.redis.recoverChats(
+      this.heldKey,
+      this.activeKey,
+      this.ringKey,
+      Date.now() - maxHoldMs,
+      this.exemptPrefix,
+      this.chatPrefix,
+    );
+  }
+
+  async countChats(): Promise<number> {
+    return this.redis.llen(this.ringKey);
+  }
+
+  /**
+   * Jobs waiting in every chat's queue
+   */
+  async size(): Promise<number> {
+    return parseInt((await this.redis.get(this.sizeKey)) ?? '0', 10);
+  }
+
+  /**
+   * Claim the right to send to a chat now, within its per-send interval and
+   * per-minute cap
+   */
+  async acquireSendSlot(chatId: string, limits: ChatSendLimits): Promise<boolean> {
+    const minuteKey = `${this.minutePrefix}${chatId}:${Math.floor(Date.now() / 60000)}`;
+    if (limits.perMinute !== undefined) {
+      const sent = parseInt((await this.redis.get(minuteKey)) ?? '0', 10);
+      if (sent >= limits.perMinute) return false;
+    }
+
+    const slot = await this.redis.set(
+      `${this.slotPrefix}${chatId}`,
+      1,
+      'PX',
+      limits.minIntervalMs,
+      'NX',
+    );
+    if (slot === null) return false;
+
+    if (limits.perMinute !== undefined) {
+      await this.redis.multi().incr(minuteKey).expire(minuteKey, 60).exec();
+    }
+    return true;
+  }
+
+  /**
+   * Drop every waiting job
+   */
+  async clear(): Promise<void> {
+    const chatIds = await this.redis.smembers(this.activeKey);
+    await this.redis.del(
+      ...chatIds.flatMap((chatId) => this.lanes(chatId)),
+      this.jobsKey,
+      this.ringKey,
+      this.activeKey,
+      this.heldKey,
+      this.sizeKey,
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import type Redis from 'ioredis';
+import { redisClient } from '../client';
+import { REDIS_KEYS } from '../../../shared/constants';
+import type { ClanStanding, IClanRepository } from '../../../domain/repositories/IClanRepository';
+
+export class ClanRedisRepository implements IClanRepository {
+  private redis: Redis;
+  private readonly leaderboardKey = REDIS_KEYS.CLAN_LEADERBOARD;
+  private readonly namesKey = 'clans:names';
+  private readonly membershipKey = 'clans:members';
+
+  constructor() {
+    this.redis = redisClient.getClient();
+  }
+
+  /**
+   * Add a clan to the team leaderboard, keeping its score if already there
+   */
+  async register(clanId: string, name: string): Promise<void> {
+    await this.redis
+      .multi()
+      .hset(this.namesKey, clanId, name)
+      .zadd(this.leaderboardKey, 'NX', 0, clanId)
+      .exec();
+  }
+
+  /**
+   * Drop a disbanded clan from the team leaderboard
+   */
+  async remove(clanId: string): Promise<void> {
+    await this.redis.multi().hdel(this.namesKey, clanId).zrem(this.leaderboardKey, clanId).exec();
+  }
+
+  /**
+   * Map a player to their clan so clicks can be credited without a database lookup
+   */
+  async setMembership(userId: string, clanId: string): Promise<void> {
+    await this.redis.hset(this.membershipKey, userId, clanId);
+  }
+
+  async removeMembership(userId: string): Promise<void> {
+    await this.redis.hdel(this.membershipKey, userId);
+  }
+
+  async getMembership(userId: string): Promise<string | null> {
+    return this.redis.hget(this.membershipKey, userId);
+  }
+
+  /**
+   * Add a member's points to their clan's score. Returns the new team score,
+   * or null when the player is not in a clan. Each member's share is kept per
+   * clan so a progress reset can take it back.
+   */
+  async addMemberPoints(userId: string, points: number): Promise<number | null> {
+    const clanId = await this.getMembership(userId);
+    if (!clanId) return null;
+
+    const results = await this.redis
+      .multi()
+      .zincrby(this.leaderboardKey, points, clanId)
+      .hincrby(`${REDIS_KEYS.CLAN_CONTRIBUTIONS}${userId}`, clanId, points)
+      .exec();
+    return parseFloat(results?.[0]?.[1] as string);
+  }
+
+  async getScore(clanId: string): Promise<number> {
+    const score = await this.redis.zscore(this.leaderboardKey, clanId);
+    return score ? parseFloat(score) : 0;
+  }
+
+  /**
+   * Get a clan's rank on the team leaderboard (1-indexed)
+   */
+  async getRank(clanId: string): Promise<number | null> {
+    const rank = await this.redis.zrevrank(this.leaderboardKey, clanId);
+    return rank !== null ? rank + 1 : null;
+  }
+
+  /**
+   * Get a page of the team leaderboard with clan names
+   */
+  async getTop(limit: number, offset: number = 0): Promise<ClanStanding[]> {
+    const results = await this.redis.zrevrange(
+      this.leaderboardKey,
+      offset,
+      offset + limit - 1,
+      'WITHSCORES',
+    );
+
+    const clanIds = results.filter((_, index) => index % 2 === 0);
+    if (clanIds.length === 0) {
+      return [];
+    }
+
+    const names = await this.redis.hmget(this.namesKey, ...clanIds);
+    return clanIds.map((clanId, index) => ({
+      clanId,
+      name: names[index] || 'Unknown',
+      score: parseFloat(results[index * 2 + 1] ?? '0'),
+      rank: offset + index + 1,
+    }));
+  }
+
+  async getTotalClans(): Promise<number> {
+    return this.redis.zcard(this.leaderboardKey);
+  }
+}
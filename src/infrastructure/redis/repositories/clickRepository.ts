@@ -1,7 +1,16 @@
 import type Redis from 'ioredis';
 import { redisClient } from '../client';
+import { REDIS_KEYS } from '../../../shared/constants';
 import type { IClickRepository } from '../../../domain/repositories/IClickRepository';
 
+function parseFields(fields: string[]): Record<string, string> {
+  const data: Record<string, string> = {};
+  for (let i = 0; i < fields.length; i += 2) {
+    data[fields[i] as string] = fields[i + 1] as string;
+  }
+  return data;
+}
+
 export class ClickRedisRepository implements IClickRepository {
   private redis: Redis;
 
@@ -31,6 +40,29 @@ export class ClickRedisRepository implements IClickRepository {
     return count ? parseInt(count, 10) : 0;
   }
 
+  /**
+   * Add points that were not earned by clicking (passive income, rewards).
+   * The batch save adds them to the score without recording clicks.
+   */
+  async incrementPendingScore(userId: string, points: number): Promise<number> {
+    const key = `${REDIS_KEYS.SCORE_PENDING}${userId}`;
+    const newScore = await this.redis.incrby(key, points);
+    await this.redis.expire(key, 300);
+    return newScore;
+  }
+
+  /**
+   * Points waiting for the batch save, from clicks and otherwise. Balances
+   * add these to the persisted score.
+   */
+  async getPendingPoints(userId: string): Promise<number> {
+    const [clicks, score] = await this.redis.mget(
+      `clicks:pending:${userId}`,
+      `${REDIS_KEYS.SCORE_PENDING}${userId}`,
+    );
+    return parseInt(clicks ?? '0', 10) + parseInt(score ?? '0', 10);
+  }
+
   /**
    * Get all pending clicks for batch processing
    */
@@ -77,6 +109,14 @@ export class ClickRedisRepository implements IClickRepository {
     await pipeline.exec();
   }
 
+  /**
+   * Drop points not earned by clicking that are waiting for the batch save
+   */
+  async clearPendingScore(userIds: string[]): Promise<void> {
+    if (userIds.length === 0) return;
+    await this.redis.del(...userIds.map((userId) => `${REDIS_KEYS.SCORE_PENDING}${userId}`));
+  }
+
   /**
    * Add click event to stream for event sourcing
    */
@@ -125,10 +165,7 @@ export class ClickRedisRepository implements IClickRepository {
 
     if (messages) {
       for (const [id, fields] of messages) {
-        const data: Record<string, string> = {};
-        for (let i = 0; i < fields.length; i += 2) {
-          data[fields[i] as string] = fields[i + 1] as string;
-        }
+        const data = parseFields(fields);
 
         events.push({
           id,
@@ -0,0 +1,74 @@
+import type Redis from 'ioredis';
+import { redisClient } from '../client';
+import type {
+  DeadLetter,
+  IDeadLetterRepository,
+} from '../../../domain/repositories/IDeadLetterRepository';
+
+/**
+ * Jobs that failed for good, newest first. Only the latest `limit` are kept.
+ */
+export class DeadLetterRedisRepository<T> implements IDeadLetterRepository<T> {
+  private redis: Redis;
+  private readonly limit: number;
+  private readonly lettersKey = 'queue:deadletter:jobs';
+  private readonly indexKey = 'queue:deadletter:index';
+
+  constructor(limit: number) {
+    this.redis = redisClient.getClient();
+    this.limit = limit;
+  }
+
+  async add(letter: DeadLetter<T>): Promise<void> {
+    await this.redis
+      .multi()
+      .hset(this.lettersKey, letter.id, JSON.stringify(letter))
+      .zadd(this.indexKey, letter.failedAt, letter.id)
+      .exec();
+
+    const overflow = (await this.redis.zcard(this.indexKey)) - this.limit;
+    if (overflow <= 0) return;
+
+    const oldest = await this.redis.zrange(this.indexKey, 0, overflow - 1);
+    await this.redis
+      .multi()
+      .hdel(this.lettersKey, ...oldest)
+      .zrem(this.indexKey, ...oldest)
+      .exec();
+  }
+
+  async get(id: string): Promise<DeadLetter<T> | null> {
+    const raw = await this.redis.hget(this.lettersKey, id);
+    return raw ? (JSON.parse(raw) as DeadLetter<T>) : null;
+  }
+
+  async list(offset: number, limit: number): Promise<DeadLetter<T>[]> {
+    const ids = await this.redis.zrevrange(this.indexKey, offset, offset + limit - 1);
+    if (ids.length === 0) return [];
+
+    const raws = await this.redis.hmget(this.lettersKey, ...ids);
+    return raws.filter((raw): raw is string => raw !== null).map((raw) => JSON.parse(raw));
+  }
+
+  async remove(id: string): Promise<boolean> {
+    const results = await this.redis
+      .multi()
+      .hdel(this.lettersKey, id)
+      .zrem(this.indexKey, id)
+      .exec();
+    return Number(results?.[0]?.[1] ?? 0) > 0;
+  }
+
+  /**
+   * Drop every dead letter. Returns how many there were.
+   */
+  async purge(): Promise<number> {
+    const count = await this.count();
+    await this.redis.del(this.lettersKey, this.indexKey);
+    return count;
+  }
+
+  async count(): Promise<number> {
+    return this.redis.zcard(this.indexKey);
+  }
+}
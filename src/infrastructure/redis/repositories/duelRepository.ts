@@ -0,0 +1,172 @@
+import type Redis from 'ioredis';
+import { redisClient } from '../client';
+import type { IDuelRepository } from '../../../domain/repositories/IDuelRepository';
+import { Duel } from '../../../domain/value-objects/Duel';
+
+/**
+ * Duels live only in Redis: the duel itself, a per-user lock so a player is
+ * in at most one duel, the click counts (kept apart from the pending click
+ * counters) and the deadlines of running duels
+ */
+export class DuelRedisRepository implements IDuelRepository {
+  private redis: Redis;
+  private readonly duelPrefix = 'duels:duel:';
+  private readonly clicksPrefix = 'duels:clicks:';
+  private readonly userPrefix = 'duels:user:';
+  private readonly deadlinesKey = 'duels:deadlines';
+
+  constructor() {
+    this.redis = redisClient.getClient();
+  }
+
+  /**
+   * Store a pending challenge that expires unless accepted. Returns false,
+   * storing nothing, when either player is already in a duel.
+   */
+  async create(duel: Duel, ttlSeconds: number): Promise<boolean> {
+    const [challenger, opponent] = duel.players;
+    const challengerKey = `${this.userPrefix}${challenger.userId}`;
+
+    if (!(await this.redis.set(challengerKey, duel.id, 'EX', ttlSeconds, 'NX'))) {
+      return false;
+    }
+    if (
+      !(await this.redis.set(
+        `${this.userPrefix}${opponent.userId}`,
+        duel.id,
+        'EX',
+        ttlSeconds,
+        'NX',
+      ))
+    ) {
+      await this.redis.del(challengerKey);
+      return false;
+    }
+
+    const key = `${this.duelPrefix}${duel.id}`;
+    await this.redis
+      .multi()
+      .hset(key, {
+        challengerId: challenger.userId,
+        challengerTelegramId: challenger.telegramId,
+        challengerChatId: challenger.chatId,
+        challengerName: challenger.name,
+        opponentId: opponent.userId,
+        opponentTelegramId: opponent.telegramId,
+        opponentChatId: opponent.chatId,
+        opponentName: opponent.name,
+        wager: duel.wager,
+      })
+      .expire(key, ttlSeconds)
+      .exec();
+
+    return true;
+  }
+
+  async get(duelId: string): Promise<Duel | null> {
+    const data = await this.redis.hgetall(`${this.duelPrefix}${duelId}`);
+    if (!data['challengerId'] || !data['opponentId']) return null;
+
+    return new Duel({
+      id: duelId,
+      challenger: {
+        userId: data['challengerId'],
+        telegramId: data['challengerTelegramId'] ?? '',
+        chatId: data['challengerChatId'] ?? '',
+        name: data['challengerName'] ?? '',
+      },
+      opponent: {
+        userId: data['opponentId'],
+        telegramId: data['opponentTelegramId'] ?? '',
+        chatId: data['opponentChatId'] ?? '',
+        name: data['opponentName'] ?? '',
+      },
+      wager: parseInt(data['wager'] ?? '0', 10),
+      endsAt: data['endsAt'] ? parseInt(data['endsAt'], 10) : null,
+    });
+  }
+
+  /**
+   * The duel a player is challenged to or fighting in
+   */
+  async getUserDuel(userId: string): Promise<string | null> {
+    return this.redis.get(`${this.userPrefix}${userId}`);
+  }
+
+  /**
+   * Open the click window of a pending duel. Returns false when the duel
+   * has expired or was already started.
+   */
+  async start(duelId: string, endsAt: number): Promise<boolean> {
+    const duel = await this.get(duelId);
+    if (!duel || !(await this.redis.hsetnx(`${this.duelPrefix}${duelId}`, 'endsAt', endsAt))) {
+      return false;
+    }
+
+    // A running duel holds escrowed points, so it stays until resolved
+    await this.redis
+      .multi()
+      .persist(`${this.duelPrefix}${duelId}`)
+      .persist(`${this.userPrefix}${duel.challenger.userId}`)
+      .persist(`${this.userPrefix}${duel.opponent.userId}`)
+      .zadd(this.deadlinesKey, endsAt, duelId)
+      .exec();
+
+    return true;
+  }
+
+  /**
+   * Count clicks toward the player's running duel. Returns their duel total,
+   * or null when they are not in a duel or its window is closed.
+   */
+  async addClicks(userId: string, count: number, now: number = Date.now()): Promise<number | null> {
+    const duelId = await this.getUserDuel(userId);
+    if (!duelId) return null;
+
+    const endsAt = await this.redis.hget(`${this.duelPrefix}${duelId}`, 'endsAt');
+    if (!endsAt || now >= parseInt(endsAt, 10)) return null;
+
+    return this.redis.hincrby(`${this.clicksPrefix}${duelId}`, userId, count);
+  }
+
+  async getClicks(duelId: string): Promise<Record<string, number>> {
+    const data = await this.redis.hgetall(`${this.clicksPrefix}${duelId}`);
+    const clicks: Record<string, number> = {};
+    for (const [userId, count] of Object.entries(data)) {
+      clicks[userId] = parseInt(count, 10);
+    }
+    return clicks;
+  }
+
+  /**
+   * Running duels whose window has closed
+   */
+  async getDue(now: number): Promise<string[]> {
+    return this.redis.zrangebyscore(this.deadlinesKey, '-inf', now);
+  }
+
+  /**
+   * Take a due duel off the deadlines so only one caller resolves it
+   */
+  async claim(duelId: string): Promise<boolean> {
+    return (await this.redis.zrem(this.deadlinesKey, duelId)) === 1;
+  }
+
+  /**
+   * Put a claimed duel back on the deadlines after it failed to resolve
+   */
+  async unclaim(duelId: string, dueAt: number): Promise<void> {
+    await this.redis.zadd(this.deadlinesKey, dueAt, duelId);
+  }
+
+  async remove(duel: Duel): Promise<void> {
+    await this.redis
+      .multi()
+      .del(`${this.duelPrefix}${duel.id}`)
+      .del(`${this.clicksPrefix}${duel.id}`)
+      .del(`${this.userPrefix}${duel.challenger.userId}`)
+      .del(`${this.userPrefix}${duel.opponent.userId}`)
+      .zrem(this.deadlinesKey, duel.id)
+      .exec();
+  }
+}
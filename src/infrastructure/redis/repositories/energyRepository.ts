@@ -0,0 +1,101 @@
+import type Redis from 'ioredis';
+import type { Result } from 'ioredis';
+import { redisClient } from '../client';
+import { REDIS_KEYS } from '../../../shared/constants';
+import type {
+  EnergyTank,
+  IEnergyRepository,
+  SpendResult,
+} from '../../../domain/repositories/IEnergyRepository';
+import type { StoredEnergy } from '../../../domain/value-objects/Energy';
+
+/**
+ * Regenerate the stored energy up to now and spend from it if there is
+ * enough, in one step so parallel clicks cannot spend the same energy twice.
+ * Mirrors Energy.fromLevels and Energy.msUntilFull. KEYS[1] = the user's hash.
+ * ARGV = now (ms), cost, max, regeneration per minute. Returns whether it
+ * spent and the energy left.
+ */
+const SPEND_ENERGY_SCRIPT = `
+local now = tonumber(ARGV[1])
+local cost = tonumber(ARGV[2])
+local max = tonumber(ARGV[3])
+local regen = tonumber(ARGV[4])
+local stored = redis.call('HMGET', KEYS[1], 'energy', 'updatedAt')
+local energy = tonumber(stored[1])
+local updatedAt = tonumber(stored[2])
+local current = max
+if energy and updatedAt then
+  local elapsed = math.max(now - updatedAt, 0)
+  current = math.max(math.min(energy + (elapsed / 60000) * regen, max), 0)
+end
+if current < cost then
+  return {0, tostring(current)}
+end
+current = current - cost
+local msUntilFull = math.ceil(((max - current) / regen) * 60000)
+redis.call('HSET', KEYS[1], 'energy', tostring(current), 'updatedAt', tostring(now))
+redis.call('EXPIRE', KEYS[1], math.max(1, math.ceil(msUntilFull / 1000)))
+return {1, tostring(current)}
+`;
+
+declare module 'ioredis' {
+  interface RedisCommander<Context> {
+    spendEnergy(
+      key: string,
+      now: number,
+      cost: number,
+      max: number,
+      regenPerMinute: number,
+    ): Result<[number, string], Context>;
+  }
+}
+
+/**
+ * Stores each player's energy as of their last click. Entries expire once
+ * the tank would be full again, and a missing entry reads as full.
+ */
+export class EnergyRedisRepository implements IEnergyRepository {
+  private redis: Redis;
+  private readonly keyPrefix = REDIS_KEYS.ENERGY;
+
+  constructor() {
+    this.redis = redisClient.getClient();
+    this.redis.defineCommand('spendEnergy', { numberOfKeys: 1, lua: SPEND_ENERGY_SCRIPT });
+  }
+
+  async get(userId: string): Promise<StoredEnergy | null> {
+    const stored = await this.redis.hgetall(`${this.keyPrefix}${userId}`);
+    if (stored.energy === undefined || stored.updatedAt === undefined) return null;
+
+    return { energy: parseFloat(stored.energy), updatedAt: parseInt(stored.updatedAt, 10) };
+  }
+
+  async set(
+    userId: string,
+    { energy, updatedAt }: StoredEnergy,
+    ttlSeconds: number,
+  ): Promise<void> {
+    const key = `${this.keyPrefix}${userId}`;
+    await this.redis
+      .multi()
+      .hset(key, { energy, updatedAt })
+      .expire(key, Math.max(1, ttlSeconds))
+      .exec();
+  }
+
+  async spend(userId: string, cost: number, tank: EnergyTank, now: number): Promise<SpendResult> {
+    const [spent, energy] = await this.redis.spendEnergy(
+      `${this.keyPrefix}${userId}`,
+      now,
+      cost,
+      tank.max,
+      tank.regenPerMinute,
+    );
+    return { spent: spent === 1, energy: { energy: parseFloat(energy), updatedAt: now } };
+  }
+
+  async clear(userId: string): Promise<void> {
+    await this.redis.del(`${this.keyPrefix}${userId}`);
+  }
+}
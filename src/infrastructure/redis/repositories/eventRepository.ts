@@ -0,0 +1,50 @@
+import type Redis from 'ioredis';
+import { redisClient } from '../client';
+import type { IEventRepository } from '../../../domain/repositories/IEventRepository';
+import { GameEvent } from '../../../domain/value-objects/GameEvent';
+
+/**
+ * Caches the running events so every click does not hit the database. The
+ * entry expires at the next event boundary and is dropped whenever events
+ * are scheduled or cancelled.
+ */
+export class EventRedisRepository implements IEventRepository {
+  private redis: Redis;
+  private readonly activeKey = 'events:active';
+
+  constructor() {
+    this.redis = redisClient.getClient();
+  }
+
+  /**
+   * Get the cached running events, or null when nothing is cached
+   */
+  async getActive(): Promise<GameEvent[] | null> {
+    const cached = await this.redis.get(this.activeKey);
+    if (cached === null) return null;
+
+    const records = JSON.parse(cached) as Array<{
+      id: string;
+      title: string;
+      multiplier: number;
+      audience: string | null;
+      startsAt: string;
+      endsAt: string;
+    }>;
+    return records.map((record) =>
+      GameEvent.fromRecord({
+        ...record,
+        startsAt: new Date(record.startsAt),
+        endsAt: new Date(record.endsAt),
+      }),
+    );
+  }
+
+  async setActive(events: GameEvent[], ttlSeconds: number): Promise<void> {
+    await this.redis.set(this.activeKey, JSON.stringify(events), 'EX', ttlSeconds);
+  }
+
+  async clearActive(): Promise<void> {
+    await this.redis.del(this.activeKey);
+  }
+}
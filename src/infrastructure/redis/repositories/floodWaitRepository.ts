@@ -0,0 +1,120 @@
+import type Redis from 'ioredis';
+import type { Result } from 'ioredis';
+import { redisClient } from '../client';
+import type {
+  FloodWaitStats,
+  IFloodWaitRepository,
+} from '../../../domain/repositories/IFloodWaitRepository';
+
+/**
+ * Flood waits from more chats than the threshold within this window are
+ * taken as the bot-wide limit rather than a per-chat one
+ */
+const GLOBAL_WINDOW_MS = 10000;
+
+/**
+ * Record a flood wait in one step. Pauses are only ever extended, so a short
+ * retry_after cannot cut a longer pause short. KEYS = the chat's pause, the
+ * global pause, the recent chats and the stats. ARGV = now (ms), retry_after
+ * (ms), chat id, window (ms), threshold. Returns 1 when every chat is paused.
+ */
+const RECORD_FLOOD_WAIT_SCRIPT = `
+local now = tonumber(ARGV[1])
+local retryAfter = tonumber(ARGV[2])
+local function extend(key)
+  if redis.call('PTTL', key) < retryAfter then
+    redis.call('SET', key, 1, 'PX', retryAfter)
+  end
+end
+
+extend(KEYS[1])
+redis.call('ZADD', KEYS[3], now, ARGV[3])
+redis.call('ZREMRANGEBYSCORE', KEYS[3], '-inf', now - tonumber(ARGV[4]))
+local recentChats = redis.call('ZCARD', KEYS[3])
+redis.call('PEXPIRE', KEYS[3], ARGV[4])
+redis.call('HINCRBY', KEYS[4], 'total', 1)
+if recentChats < tonumber(ARGV[5]) then
+  return 0
+end
+
+extend(KEYS[2])
+redis.call('HINCRBY', KEYS[4], 'global', 1)
+return 1
+`;
+
+declare module 'ioredis' {
+  interface RedisCommander<Context> {
+    recordFloodWait(
+      chatPauseKey: string,
+      globalPauseKey: string,
+      recentKey: string,
+      statsKey: string,
+      now: number,
+      retryAfterMs: number,
+      chatId: string,
+      windowMs: number,
+      threshold: number,
+    ): Result<number, Context>;
+  }
+}
+
+/**
+ * Tracks Telegram flood waits (429 with retry_after). Sends to a chat are
+ * paused for as long as Telegram asked; Telegram does not say when the limit
+ * is bot-wide, so flood waits from several chats at once pause every chat.
+ */
+export class FloodWaitRedisRepository implements IFloodWaitRepository {
+  private redis: Redis;
+  private readonly globalThreshold: number;
+  private readonly chatPausePrefix = 'queue:pause:chat:';
+  private readonly globalPauseKey = 'queue:pause:global';
+  private readonly recentKey = 'queue:floodwait:recent';
+  private readonly statsKey = 'queue:floodwait:stats';
+
+  constructor(globalThreshold: number) {
+    this.redis = redisClient.getClient();
+    this.globalThreshold = globalThreshold;
+    this.redis.defineCommand('recordFloodWait', {
+      numberOfKeys: 4,
+      lua: RECORD_FLOOD_WAIT_SCRIPT,
+    });
+  }
+
+  /**
+   * Record a flood wait and pause the chat for at least its duration.
+   * Returns true when it also paused every chat.
+   */
+  async record(chatId: string, retryAfterMs: number): Promise<boolean> {
+    const global = await this.redis.recordFloodWait(
+      `${this.chatPausePrefix}${chatId}`,
+      this.globalPauseKey,
+      this.recentKey,
+      this.statsKey,
+      Date.now(),
+      retryAfterMs,
+      chatId,
+      GLOBAL_WINDOW_MS,
+      this.globalThreshold,
+    );
+    return global === 1;
+  }
+
+  /**
+   * Milliseconds until sends to this chat may resume, 0 when not paused
+   */
+  async getPauseRemaining(chatId: string): Promise<number> {
+    const [chat, global] = await Promise.all([
+      this.redis.pttl(`${this.chatPausePrefix}${chatId}`),
+      this.redis.pttl(this.globalPauseKey),
+    ]);
+    return Math.max(chat, global, 0);
+  }
+
+  async getStats(): Promise<FloodWaitStats> {
+    const stats = await this.redis.hgetall(this.statsKey);
+    return {
+      total: parseInt(stats.total ?? '0', 10),
+      global: parseInt(stats.global ?? '0', 10),
+    };
+  }
+}
@@ -0,0 +1,139 @@
+import type Redis from 'ioredis';
+import { redisClient } from '../client';
+import type { IGroupRepository } from '../../../domain/repositories/IGroupRepository';
+import type { LeaderboardEntry } from '../../../domain/repositories/ILeaderboardRepository';
+import { REDIS_KEYS } from '../../../shared/constants';
+
+export class GroupRedisRepository implements IGroupRepository {
+  private redis: Redis;
+  private readonly updatedKey = 'chats:scoreboard:updated';
+
+  constructor() {
+    this.redis = redisClient.getClient();
+  }
+
+  private membersKey(chatId: string): string {
+    return `chat:${chatId}:members`;
+  }
+
+  private scoreboardKey(chatId: string): string {
+    return `chat:${chatId}:scoreboard`;
+  }
+
+  /**
+   * Record a click by a user in a group chat.
+   * Members are scored by their last activity and the group is flagged for a scoreboard refresh.
+   */
+  async addMember(chatId: string, userId: string): Promise<void> {
+    await this.redis
+      .multi()
+      .zadd(this.membersKey(chatId), Date.now(), userId)
+      .sadd(this.updatedKey, chatId)
+      .exec();
+  }
+
+  /**
+   * Remove a user from a group
+   */
+  async removeMember(chatId: string, userId: string): Promise<void> {
+    await this.redis.zrem(this.membersKey(chatId), userId);
+  }
+
+  /**
+   * Get number of tracked members in a group
+   */
+  async getMemberCount(chatId: string): Promise<number> {
+    return this.redis.zcard(this.membersKey(chatId));
+  }
+
+  /**
+   * Get group members ranked by their global score
+   */
+  async getLeaderboard(chatId: string, limit: number): Promise<LeaderboardEntry[]> {
+    const ranked = await this.getRankedMembers(chatId);
+    const top = ranked.slice(0, limit);
+
+    if (top.length === 0) {
+      return [];
+    }
+
+    const pipeline = this.redis.pipeline();
+    top.forEach(({ userId }) => {
+      pipeline.get(`${REDIS_KEYS.LEADERBOARD_USER}${userId}`);
+    });
+    const usernames = await pipeline.exec();
+
+    return top.map(({ userId, score }, index) => {
+      const [, username] = usernames?.[index] ?? [];
+      return {
+        userId,
+        username: (username as string) || 'Anonymous',
+        score,
+        rank: index + 1,
+      };
+    });
+  }
+
+  /**
+   * Get a member's rank within the group (1-indexed)
+   */
+  async getMemberRank(chatId: string, userId: string): Promise<number | null> {
+    const ranked = await this.getRankedMembers(chatId);
+    const index = ranked.findIndex((member) => member.userId === userId);
+    return index === -1 ? null : index + 1;
+  }
+
+  /**
+   * Get the id of the pinned scoreboard message
+   */
+  async getScoreboardMessageId(chatId: string): Promise<number | null> {
+    const messageId = await this.redis.get(this.scoreboardKey(chatId));
+    return messageId ? parseInt(messageId, 10) : null;
+  }
+
+  /**
+   * Store the id of the pinned scoreboard message
+   */
+  async setScoreboardMessageId(chatId: string, messageId: number): Promise<void> {
+    await this.redis.set(this.scoreboardKey(chatId), messageId.toString());
+  }
+
+  /**
+   * Forget the pinned scoreboard message so the next refresh posts a new one
+   */
+  async clearScoreboardMessageId(chatId: string): Promise<void> {
+    await this.redis.del(this.scoreboardKey(chatId));
+  }
+
+  /**
+   * Get and reset the groups that had clicks since the last call
+   */
+  async takeUpdatedGroups(): Promise<string[]> {
+    const results = await this.redis.multi().smembers(this.updatedKey).del(this.updatedKey).exec();
+
+    const [, chatIds] = results?.[0] ?? [];
+    return (chatIds as string[] | undefined) ?? [];
+  }
+
+  private async getRankedMembers(
+    chatId: string,
+  ): Promise<Array<{ userId: string; score: number }>> {
+    const members = await this.redis.zrange(this.membersKey(chatId), 0, -1);
+    if (members.length === 0) {
+      return [];
+    }
+
+    const pipeline = this.redis.pipeline();
+    members.forEach((userId) => {
+      pipeline.zscore(REDIS_KEYS.LEADERBOARD, userId);
+    });
+    const scores = await pipeline.exec();
+
+    return members
+      .map((userId, index) => {
+        const [, score] = scores?.[index] ?? [];
+        return { userId, score: score ? parseFloat(score as string) : 0 };
+      })
+      .sort((a, b) => b.score - a.score);
+  }
+}
@@ -3,12 +3,29 @@ import { redisClient } from '../client';
 import type {
   ILeaderboardRepository,
   LeaderboardEntry,
+  LeaderboardPeriod,
 } from '../../../domain/repositories/ILeaderboardRepository';
 
+type TimedPeriod = Exclude<LeaderboardPeriod, 'global' | 'season'>;
+
+const DAY_SECONDS = 86400;
+
 export class LeaderboardRedisRepository implements ILeaderboardRepository {
   private redis: Redis;
   private readonly key = 'leaderboard:global';
+  private readonly seasonKey = 'leaderboard:season';
   private readonly userDataPrefix = 'leaderboard:user:';
+  private readonly timedPeriods: readonly TimedPeriod[] = ['daily', 'weekly', 'monthly'];
+
+  /**
+   * Buckets are kept one full period past their end so the previous
+   * day/week/month can still be read after rollover
+   */
+  private readonly periodTtlSeconds: Record<TimedPeriod, number> = {
+    daily: 2 * DAY_SECONDS,
+    weekly: 14 * DAY_SECONDS,
+    monthly: 62 * DAY_SECONDS,
+  };
 
   constructor() {
     this.redis = redisClient.getClient();
@@ -22,34 +39,73 @@ export class LeaderboardRedisRepository implements ILeaderboardRepository {
   }
 
   /**
-   * Increment user score in the leaderboard
+   * Increment user score in the global and season leaderboards and the
+   * current daily, weekly and monthly buckets
    */
   async incrementScore(userId: string, increment: number): Promise<number> {
-    const newScore = await this.redis.zincrby(this.key, increment, userId);
+    const now = new Date();
+    const pipeline = this.redis.multi();
+
+    pipeline.zincrby(this.key, increment, userId);
+    pipeline.zincrby(this.seasonKey, increment, userId);
+    for (const period of this.timedPeriods) {
+      const periodKey = this.getPeriodKey(period, now);
+      pipeline.zincrby(periodKey, increment, userId);
+      pipeline.expire(periodKey, this.periodTtlSeconds[period]);
+    }
+
+    const results = await pipeline.exec();
+    const [, newScore] = results?.[0] ?? [];
+    return parseFloat((newScore as string) ?? '0');
+  }
+
+  /**
+   * Deduct spent points from the global leaderboard. Season and period
+   * boards rank points earned in them, so spending does not touch them.
+   */
+  async deductScore(userId: string, amount: number): Promise<number> {
+    const newScore = await this.redis.zincrby(this.key, -amount, userId);
+    return parseFloat(newScore);
+  }
+
+  /**
+   * Add points back to the global leaderboard only, the inverse of
+   * deductScore for points that were held rather than spent
+   */
+  async creditScore(userId: string, amount: number): Promise<number> {
+    const newScore = await this.redis.zincrby(this.key, amount, userId);
     return parseFloat(newScore);
   }
 
   /**
    * Get user's rank (1-indexed)
    */
-  async getUserRank(userId: string): Promise<number | null> {
-    const rank = await this.redis.zrevrank(this.key, userId);
+  async getUserRank(userId: string, period: LeaderboardPeriod = 'global'): Promise<number | null> {
+    const rank = await this.redis.zrevrank(this.getPeriodKey(period), userId);
     return rank !== null ? rank + 1 : null;
   }
 
   /**
    * Get user's score
    */
-  async getUserScore(userId: string): Promise<number> {
-    const score = await this.redis.zscore(this.key, userId);
+  async getUserScore(userId: string, period: LeaderboardPeriod = 'global'): Promise<number> {
+    const score = await this.redis.zscore(this.getPeriodKey(period), userId);
     return score ? parseFloat(score) : 0;
   }
 
   /**
    * Get top N users from leaderboard
    */
-  async getTop(limit: number): Promise<Array<{ userId: string; score: number; rank: number }>> {
-    const results = await this.redis.zrevrange(this.key, 0, limit - 1, 'WITHSCORES');
+  async getTop(
+    limit: number,
+    period: LeaderboardPeriod = 'global',
+  ): Promise<Array<{ userId: string; score: number; rank: number }>> {
+    const results = await this.redis.zrevrange(
+      this.getPeriodKey(period),
+      0,
+      limit - 1,
+      'WITHSCORES',
+    );
 
     const leaderboard: Array<{ userId: string; score: number; rank: number }> = [];
 
@@ -76,8 +132,10 @@ export class LeaderboardRedisRepository implements ILeaderboardRepository {
     userId: string,
     above: number,
     below: number,
+    period: LeaderboardPeriod = 'global',
   ): Promise<Array<{ userId: string; score: number; rank: number }>> {
-    const rank = await this.redis.zrevrank(this.key, userId);
+    const key = this.getPeriodKey(period);
+    const rank = await this.redis.zrevrank(key, userId);
 
     if (rank === null) {
       return [];
@@ -86,7 +144,7 @@ export class LeaderboardRedisRepository implements ILeaderboardRepository {
     const start = Math.max(0, rank - above);
     const stop = rank + below;
 
-    const results = await this.redis.zrevrange(this.key, start, stop, 'WITHSCORES');
+    const results = await this.redis.zrevrange(key, start, stop, 'WITHSCORES');
 
     const neighbors: Array<{ userId: string; score: number; rank: number }> = [];
 
@@ -125,8 +183,11 @@ export class LeaderboardRedisRepository implements ILeaderboardRepository {
   /**
    * Get full leaderboard with user data
    */
-  async getFullLeaderboard(limit: number): Promise<LeaderboardEntry[]> {
-    const topUsers = await this.getTop(limit);
+  async getFullLeaderboard(
+    limit: number,
+    period: LeaderboardPeriod = 'global',
+  ): Promise<LeaderboardEntry[]> {
+    const topUsers = await this.getTop(limit, period);
 
     const pipeline = this.redis.pipeline();
     topUsers.forEach((user) => {
@@ -151,14 +212,55 @@ export class LeaderboardRedisRepository implements ILeaderboardRepository {
    */
   async removeUser(userId: string): Promise<void> {
     await this.redis.zrem(this.key, userId);
+    await this.redis.zrem(this.seasonKey, userId);
+    for (const period of this.timedPeriods) {
+      await this.redis.zrem(this.getPeriodKey(period), userId);
+    }
     await this.redis.del(`${this.userDataPrefix}${userId}`);
   }
 
   /**
    * Get total number of users in leaderboard
    */
-  async getTotalUsers(): Promise<number> {
-    return this.redis.zcard(this.key);
+  async getTotalUsers(period: LeaderboardPeriod = 'global'): Promise<number> {
+    return this.redis.zcard(this.getPeriodKey(period));
+  }
+
+  /**
+   * Read the final season standings and empty the season board in one
+   * transaction, so no click lands between the two
+   */
+  async resetSeason(): Promise<Array<{ userId: string; score: number; rank: number }>> {
+    const results = await this.redis
+      .multi()
+      .zrevrange(this.seasonKey, 0, -1, 'WITHSCORES')
+      .del(this.seasonKey)
+      .exec();
+    const [, members] = results?.[0] ?? [];
+    const flat = (members as string[] | undefined) ?? [];
+
+    const standings: Array<{ userId: string; score: number; rank: number }> = [];
+    for (let i = 0; i < flat.length; i += 2) {
+      const userId = flat[i];
+      if (userId) {
+        standings.push({ userId, score: parseFloat(flat[i + 1] ?? '0'), rank: i / 2 + 1 });
+      }
+    }
+
+    return standings;
+  }
+
+  /**
+   * Put reset standings back, on top of anything scored since the reset
+   */
+  async restoreSeason(standings: Array<{ userId: string; score: number }>): Promise<void> {
+    if (standings.length === 0) return;
+
+    const pipeline = this.redis.multi();
+    for (const { userId, score } of standings) {
+      pipeline.zincrby(this.seasonKey, score, userId);
+    }
+    await pipeline.exec();
   }
 
   /**
@@ -166,9 +268,48 @@ export class LeaderboardRedisRepository implements ILeaderboardRepository {
    */
   async clear(): Promise<void> {
     const keys = await this.redis.keys(`${this.userDataPrefix}*`);
+    for (const period of this.timedPeriods) {
+      keys.push(...(await this.redis.keys(`leaderboard:${period}:*`)));
+    }
     if (keys.length > 0) {
       await this.redis.del(...keys);
     }
-    await this.redis.del(this.key);
+    await this.redis.del(this.key, this.seasonKey);
+  }
+
+  /**
+   * Get the Redis key of the bucket covering the given date (UTC).
+   * Weekly buckets use ISO-8601 week numbering.
+   */
+  getPeriodKey(period: LeaderboardPeriod, date: Date = new Date()): string {
+    const year = date.getUTCFullYear();
+    const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+    const day = String(date.getUTCDate()).padStart(2, '0');
+
+    switch (period) {
+      case 'global':
+        return this.key;
+      case 'season':
+        return this.seasonKey;
+      case 'daily':
+        return `leaderboard:daily:${year}-${month}-${day}`;
+      case 'weekly':
+        return `leaderboard:weekly:${this.getIsoWeek(date)}`;
+      case 'monthly':
+        return `leaderboard:monthly:${year}-${month}`;
+    }
+  }
+
+  private getIsoWeek(date: Date): string {
+    const thursday = new Date(
+      Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+    );
+    // Shift to the Thursday of the same week: it decides which year the week belongs to
+    thursday.setUTCDate(thursday.getUTCDate() + 4 - (thursday.getUTCDay() || 7));
+
+    const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+    const week = Math.ceil(((thursday.getTime() - yearStart) / (DAY_SECONDS * 1000) + 1) / 7);
+
+    return `${thursday.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
   }
 }
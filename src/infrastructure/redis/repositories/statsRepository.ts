@@ -0,0 +1,158 @@
+import type Redis from 'ioredis';
+import type { Result } from 'ioredis';
+import { redisClient } from '../client';
+import type {
+  HourlyActivity,
+  IStatsRepository,
+} from '../../../domain/repositories/IStatsRepository';
+import { GAME_SETTINGS, REDIS_KEYS } from '../../../shared/constants';
+
+const RETENTION_MONTHS = 13;
+const RETENTION_SECONDS = 400 * 86400;
+
+/**
+ * Count a click and its points in their hour and start a new session after a
+ * long enough break. KEYS[1] = the month's hash, KEYS[2] = the last click time.
+ * ARGV = now (ms), the hour's field suffix, points, session timeout (ms), TTL (s).
+ */
+const RECORD_CLICK_SCRIPT = `
+local now = tonumber(ARGV[1])
+local last = tonumber(redis.call('GET', KEYS[2]) or '0')
+redis.call('HINCRBY', KEYS[1], 'clicks:' .. ARGV[2], 1)
+redis.call('HINCRBY', KEYS[1], 'points:' .. ARGV[2], ARGV[3])
+if now - last > tonumber(ARGV[4]) then
+  redis.call('HINCRBY', KEYS[1], 'sessions:' .. ARGV[2], 1)
+end
+redis.call('EXPIRE', KEYS[1], ARGV[5])
+if now > last then
+  redis.call('SET', KEYS[2], now, 'EX', ARGV[5])
+end
+return 1
+`;
+
+declare module 'ioredis' {
+  interface RedisCommander<Context> {
+    recordStatsClick(
+      monthKey: string,
+      lastClickKey: string,
+      now: number,
+      hour: string,
+      points: number,
+      sessionTimeoutMs: number,
+      ttlSeconds: number,
+    ): Result<number, Context>;
+  }
+}
+
+/**
+ * Per-user click counts, points earned and session starts bucketed by UTC hour. Each month
+ * is one hash (fields like `clicks:05:14` for the 5th, 14:00) that expires
+ * after about 13 months, so reading a period touches at most a few keys.
+ */
+export class StatsRedisRepository implements IStatsRepository {
+  private redis: Redis;
+
+  constructor() {
+    this.redis = redisClient.getClient();
+    this.redis.defineCommand('recordStatsClick', { numberOfKeys: 2, lua: RECORD_CLICK_SCRIPT });
+  }
+
+  async recordClick(userId: string, points: number, at: Date = new Date()): Promise<void> {
+    await this.redis.recordStatsClick(
+      this.monthKey(userId, at),
+      `${REDIS_KEYS.STATS_USER}${userId}:last`,
+      at.getTime(),
+      this.hourField(at),
+      points,
+      GAME_SETTINGS.SESSION_TIMEOUT_MS,
+      RETENTION_SECONDS,
+    );
+  }
+
+  /**
+   * Points earned without a click (passive income, rewards)
+   */
+  async recordPoints(userId: string, points: number, at: Date = new Date()): Promise<void> {
+    const key = this.monthKey(userId, at);
+    await this.redis
+      .multi()
+      .hincrby(key, `points:${this.hourField(at)}`, points)
+      .expire(key, RETENTION_SECONDS)
+      .exec();
+  }
+
+  /**
+   * Activity per hour in [from, to), only hours with any clicks or points
+   */
+  async getHourly(userId: string, from: Date, to: Date): Promise<HourlyActivity[]> {
+    const months: Date[] = [];
+    for (
+      let month = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), 1));
+      month.getTime() < to.getTime();
+      month = new Date(Date.UTC(month.getUTCFullYear(), month.getUTCMonth() + 1, 1))
+    ) {
+      months.push(month);
+    }
+
+    const pipeline = this.redis.pipeline();
+    for (const month of months) {
+      pipeline.hgetall(this.monthKey(userId, month));
+    }
+    const results = (await pipeline.exec()) ?? [];
+
+    const hourly = new Map<number, HourlyActivity>();
+    months.forEach((month, index) => {
+      const fields = (results[index]?.[1] ?? {}) as Record<string, string>;
+      for (const [field, value] of Object.entries(fields)) {
+        const [kind, day, hourOfDay] = field.split(':');
+        const hour = Date.UTC(
+          month.getUTCFullYear(),
+          month.getUTCMonth(),
+          Number(day),
+          Number(hourOfDay),
+        );
+        if (hour < from.getTime() || hour >= to.getTime()) continue;
+
+        const entry = hourly.get(hour) ?? {
+          hour: new Date(hour),
+          clicks: 0,
+          points: 0,
+          sessions: 0,
+        };
+        if (kind === 'clicks') entry.clicks += parseInt(value, 10);
+        if (kind === 'points') entry.points += parseInt(value, 10);
+        if (kind === 'sessions') entry.sessions += parseInt(value, 10);
+        hourly.set(hour, entry);
+      }
+    });
+
+    return [...hourly.values()].sort((a, b) => a.hour.getTime() - b.hour.getTime());
+  }
+
+  /**
+   * Forget all of a user's activity
+   */
+  async clear(userId: string, now: Date = new Date()): Promise<void> {
+    const keys = [`${REDIS_KEYS.STATS_USER}${userId}:last`];
+    for (let offset = 0; offset <= RETENTION_MONTHS; offset++) {
+      keys.push(
+        this.monthKey(
+          userId,
+          new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - offset, 1)),
+        ),
+      );
+    }
+    await this.redis.del(...keys);
+  }
+
+  /**
+   * The day and hour part of a field, like `05:14`
+   */
+  private hourField(at: Date): string {
+    return at.toISOString().slice(8, 13).replace('T', ':');
+  }
+
+  private monthKey(userId: string, at: Date): string {
+    return `${REDIS_KEYS.STATS_USER}${userId}:${at.toISOString().slice(0, 7)}`;
+  }
+}
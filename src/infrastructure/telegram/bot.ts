@@ -2,18 +2,30 @@ import { Bot, session } from 'grammy';
 import type { BotContext, BotSessionData } from './types';
 import { config } from '../../shared/config/env';
 import { BOT_COMMANDS } from '../../shared/constants';
+import { localizedCommands } from '../../shared/i18n';
+import { LANGUAGES, type Language } from '../../domain/value-objects/Preferences';
 import { container } from '../../shared/container/DIContainer';
 import { errorMiddleware } from './middleware/errorMiddleware';
 import { loggingMiddleware } from './middleware/loggingMiddleware';
 import { rateLimitMiddleware } from './middleware/rateLimitMiddleware';
 import { authMiddleware } from './middleware/authMiddleware';
+import { i18nMiddleware } from './middleware/i18nMiddleware';
+import { adminMiddleware } from './middleware/adminMiddleware';
 import {
   startCommand,
   clickCommand,
   leaderboardCommand,
   statsCommand,
+  dailyCommand,
+  shopCommand,
   changeNameCommand,
   helpCommand,
+  exportCommand,
+  clanCommand,
+  duelCommand,
+  eventCommand,
+  deadLetterCommand,
+  inlineQueryHandler,
 } from './handlers';
 import { handleNavigation } from './handlers/navigationHandler';
 
@@ -42,6 +54,9 @@ export class TelegramBot {
       }),
     );
 
+    // Locale and ctx.t(), before error handling so errors are translated too
+    this.bot.use(i18nMiddleware);
+
     // Error handling middleware (must be early)
     this.bot.use(errorMiddleware);
 
@@ -61,8 +76,20 @@ export class TelegramBot {
     this.bot.command('click', clickCommand);
     this.bot.command('leaderboard', leaderboardCommand);
     this.bot.command('stats', statsCommand);
+    this.bot.command('daily', dailyCommand);
+    this.bot.command('shop', shopCommand);
     this.bot.command('changename', changeNameCommand);
     this.bot.command('help', helpCommand);
+    this.bot.command('export', exportCommand);
+    this.bot.command('clan', clanCommand);
+    this.bot.command('duel', duelCommand);
+
+    // Admin commands, left out of the command menu
+    this.bot.command('event', adminMiddleware, eventCommand);
+    this.bot.command('deadletters', adminMiddleware, deadLetterCommand);
+
+    // Inline mode: score card, top 10 and challenge link in any chat
+    this.bot.on('inline_query', inlineQueryHandler);
 
     // Handle callback queries with the comprehensive navigation handler
     this.bot.on('callback_query', handleNavigation);
@@ -74,7 +101,7 @@ export class TelegramBot {
         const newName = ctx.message.text.trim();
 
         if (newName.length < 2 || newName.length > 30) {
-          await ctx.reply('Name must be between 2 and 30 characters. Please try again.');
+          await ctx.reply(ctx.t('changeName.invalidLength'));
           return;
         }
 
@@ -94,25 +121,27 @@ export class TelegramBot {
           const leaderboardRepo = container.getLeaderboardRepository();
           await leaderboardRepo.setUserData(user.id, user.getDisplayName());
 
-          await ctx.reply(
-            `✅ Name changed successfully to: <b>${newName}</b>\n\nYour new display name is now active!`,
-            { parse_mode: 'HTML' },
-          );
+          await ctx.reply(ctx.t('changeName.success', { name: newName }), { parse_mode: 'HTML' });
         }
 
         // Clear the expectation
         ctx.session.temporaryData = {};
       } else {
-        await ctx.reply("I didn't understand that. Use /help to see available commands.");
+        await ctx.reply(ctx.t('common.unknownInput'));
       }
     });
   }
 
   /**
-   * Set bot commands in Telegram
+   * Set bot commands in Telegram: English by default, plus a translated list
+   * for each supported client language
    */
   public async setBotCommands(): Promise<void> {
     await this.bot.api.setMyCommands(BOT_COMMANDS);
+
+    for (const language of Object.keys(LANGUAGES) as Language[]) {
+      await this.bot.api.setMyCommands(localizedCommands(language), { language_code: language });
+    }
   }
 
   /**
@@ -1,5 +1,4 @@
 import type { CommandHandler } from '../types';
-import { EMOJIS } from '../../../shared/constants';
 import { container } from '../../../shared/container/DIContainer';
 
 export const changeNameCommand: CommandHandler = async (ctx) => {
@@ -9,7 +8,7 @@ export const changeNameCommand: CommandHandler = async (ctx) => {
   if (!user || !chatId) {
     if (chatId) {
       const queuedMessageService = container.getQueuedMessageService();
-      await queuedMessageService.sendMessage(chatId, 'Please use /start to begin the game.');
+      await queuedMessageService.sendMessage(chatId, ctx.t('common.useStart'));
     }
     return;
   }
@@ -18,17 +17,16 @@ export const changeNameCommand: CommandHandler = async (ctx) => {
 
   await queuedMessageService.sendPriorityMessage(
     chatId,
-    `${EMOJIS.INFO} <b>Change Display Name</b>\n\nCurrent name: <b>${user.getDisplayName()}</b>\n\nPlease send your new display name:`,
+    ctx.t('changeName.prompt', { name: user.getDisplayName() }),
     {
       parse_mode: 'HTML',
       reply_markup: {
         force_reply: true,
-        input_field_placeholder: 'Enter new name...',
+        input_field_placeholder: ctx.t('changeName.placeholder'),
       },
     },
   );
 
-  ctx.session.gameState = 'clicking';
   ctx.session.temporaryData = {
     expectingName: true,
   };
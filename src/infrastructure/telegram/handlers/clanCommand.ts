@@ -0,0 +1,110 @@
+import type { BotContext, CommandHandler } from '../types';
+import { container } from '../../../shared/container/DIContainer';
+import { NavigationKeyboards } from '../keyboards/navigationKeyboard';
+import { CLAN_INVITE_PREFIX, type ClanOverview } from '../../../application/services/ClanService';
+import { CLAN_MAX_MEMBERS } from '../../../domain/value-objects/Clan';
+import { ClanActionError } from '../../../shared/errors';
+import type { TranslateFn } from '../../../shared/i18n';
+
+/**
+ * `/clan` shows the user's clan; `/clan create <name>`, `/clan join <code>`
+ * and `/clan leave` manage membership
+ */
+export const clanCommand: CommandHandler = async (ctx) => {
+  const user = ctx.session.user;
+  const chatId = ctx.chat?.id.toString();
+
+  if (!user || !chatId) {
+    if (chatId) {
+      const queuedMessageService = container.getQueuedMessageService();
+      await queuedMessageService.sendMessage(chatId, ctx.t('common.useStart'));
+    }
+    return;
+  }
+
+  const queuedMessageService = container.getQueuedMessageService();
+  const clanService = container.getClanService();
+
+  const input = typeof ctx.match === 'string' ? ctx.match.trim() : '';
+  const [subcommand = '', ...rest] = input.split(/\s+/);
+  const argument = rest.join(' ');
+
+  let notice: string | undefined;
+  try {
+    switch (subcommand.toLowerCase()) {
+      case '':
+        break;
+      case 'create': {
+        const clan = await clanService.create(user.id, argument);
+        notice = ctx.t('clan.created', { name: clan.name });
+        break;
+      }
+      case 'join': {
+        const clan = await clanService.join(user.id, argument);
+        notice = ctx.t('clan.joined', { name: clan.name });
+        break;
+      }
+      case 'leave': {
+        const { clan, disbanded } = await clanService.leave(user.id);
+        notice = ctx.t(disbanded ? 'clan.disbanded' : 'clan.left', { name: clan.name });
+        break;
+      }
+      default:
+        await queuedMessageService.sendMessage(chatId, ctx.t('clan.usage'), {
+          parse_mode: 'HTML',
+        });
+        return;
+    }
+  } catch (error) {
+    if (!(error instanceof ClanActionError)) throw error;
+    notice = formatClanError(ctx.t, error);
+  }
+
+  const overview = await clanService.getOverview(user.id);
+  await queuedMessageService.sendMessage(chatId, formatClanPage(ctx, overview, notice), {
+    parse_mode: 'HTML',
+    reply_markup: NavigationKeyboards.clanPage(
+      ctx.t,
+      overview ? clanInviteLink(ctx, overview.clan.inviteCode) : null,
+      overview?.clan.name,
+    ),
+  });
+};
+
+/**
+ * Deep link that joins the clan when opened
+ */
+export function clanInviteLink(ctx: BotContext, inviteCode: string): string {
+  return `https://t.me/${ctx.me.username}?start=${CLAN_INVITE_PREFIX}${inviteCode}`;
+}
+
+export function formatClanError(t: TranslateFn, error: ClanActionError): string {
+  return t(`clan.error.${error.reason}`, { max: CLAN_MAX_MEMBERS });
+}
+
+/**
+ * Render the clan page, or how to get into one for players without a clan
+ */
+export function formatClanPage(
+  ctx: BotContext,
+  overview: ClanOverview | null,
+  notice?: string,
+): string {
+  const noticeText = notice ? `\n${notice}\n` : '';
+  if (!overview) {
+    return ctx.t('clan.none', { notice: noticeText });
+  }
+
+  const { clan, role, score, rank } = overview;
+  return ctx.t('clan.page', {
+    notice: noticeText,
+    name: clan.name,
+    rank: rank ? `#${rank}` : ctx.t('stats.unranked'),
+    score,
+    members: clan.members.length,
+    max: CLAN_MAX_MEMBERS,
+    role: ctx.t(`clan.role.${role}`),
+    code: clan.inviteCode,
+    link: clanInviteLink(ctx, clan.inviteCode),
+  });
+}
@@ -1,9 +1,12 @@
 import { InlineKeyboard } from 'grammy';
-import type { CommandHandler } from '../types';
+import type { BotContext, CommandHandler } from '../types';
 import { container } from '../../../shared/container/DIContainer';
-import { EMOJIS, GAME_SETTINGS } from '../../../shared/constants';
-import { Click } from '../../../domain/value-objects/Click';
-import { RateLimitError } from '../../../shared/errors';
+import { EMOJIS } from '../../../shared/constants';
+import { Combo } from '../../../domain/value-objects/Combo';
+import type { Energy } from '../../../domain/value-objects/Energy';
+import { OutOfEnergyError, RateLimitError } from '../../../shared/errors';
+
+const MINUTE_MS = 60000;
 
 export const clickCommand: CommandHandler = async (ctx) => {
   const user = ctx.session.user;
@@ -13,7 +16,7 @@ export const clickCommand: CommandHandler = async (ctx) => {
   if (!user || !session || !chatId) {
     if (chatId) {
       const queuedMessageService = container.getQueuedMessageService();
-      await queuedMessageService.sendMessage(chatId, 'Please use /start to begin the game.');
+      await queuedMessageService.sendMessage(chatId, ctx.t('common.useStart'));
     }
     return;
   }
@@ -31,46 +34,33 @@ export const clickCommand: CommandHandler = async (ctx) => {
     throw new RateLimitError(rateLimit.resetAt);
   }
 
-  const clickCount = 1;
-
   try {
-    new Click({
-      userId: user.id,
-      count: clickCount,
+    const clickService = container.getClickService();
+    const clickContext = {
+      user,
+      session,
+      chatId,
+      chatType: ctx.chat?.type,
+      combo: Combo.fromSnapshot(ctx.session),
+    };
+    const { points, critical, pendingTotal, energy, combo } =
+      await clickService.click(clickContext);
+    Object.assign(ctx.session, combo.toSnapshot());
+
+    const responseMessage = ctx.t('click.commandResult', {
+      points: ctx.t('click.points', { count: points }),
+      critical: critical ? ` ${EMOJIS.FIRE} ${ctx.t('click.critical')}` : '',
+      score: user.score,
+      sessionClicks: session.clickCount,
+      pending: pendingTotal,
+      energy: formatEnergy(ctx, energy),
     });
 
-    const clickRepo = container.getClickRepository();
-    const newPendingTotal = await clickRepo.incrementClickCount(user.id, clickCount);
-
-    user.addClicks(clickCount);
-
-    session.addClicks(clickCount);
-    const sessionRepo = container.getSessionRepository();
-    await sessionRepo.incrementClickCount(session.token, clickCount);
-
-    const leaderboardRepo = container.getLeaderboardRepository();
-    await leaderboardRepo.incrementScore(user.id, clickCount);
-
-    await clickRepo.addClickEvent(user.id, clickCount);
-
-    const responseMessage = `
-${EMOJIS.CLICK} <b>Click Registered!</b>
-
-${EMOJIS.SPARKLES} +${clickCount} point
-${EMOJIS.TROPHY} Total score: <b>${user.score}</b>
-${EMOJIS.FIRE} Session total: <b>${session.clickCount}</b> clicks
-${EMOJIS.SPARKLES} Pending save to DB: <b>${newPendingTotal}</b>
-
-<b>⚠️ Rate Limit Status:</b>
-Remaining: <b>${rateLimit.remaining}/${GAME_SETTINGS.MAX_CLICKS_PER_SECOND}</b> clicks
-<i>Max 10 clicks/second to respect Telegram limits</i>
-    `.trim();
-
     const keyboard = new InlineKeyboard()
-      .text(`${EMOJIS.CLICK} Click Again!`, 'click')
+      .text(ctx.t('buttons.clickAgain'), 'click')
       .row()
-      .text(`${EMOJIS.TROPHY} Leaderboard`, 'leaderboard')
-      .text(`${EMOJIS.STAR} My Stats`, 'stats');
+      .text(ctx.t('buttons.leaderboard'), 'leaderboard')
+      .text(ctx.t('buttons.myStats'), 'stats');
 
     if (ctx.callbackQuery) {
       await ctx.editMessageText(responseMessage, {
@@ -84,23 +74,50 @@ Remaining: <b>${rateLimit.remaining}/${GAME_SETTINGS.MAX_CLICKS_PER_SECOND}</b>
       });
     }
 
-    if (user.score >= BigInt(100) && user.score - BigInt(clickCount) < BigInt(100)) {
-      await queuedMessageService.sendNotification(
-        chatId,
-        `${EMOJIS.PARTY} Congratulations! You've reached 100 points! ${EMOJIS.PARTY}`,
-      );
-    }
-    if (user.score >= BigInt(1000) && user.score - BigInt(clickCount) < BigInt(1000)) {
-      await queuedMessageService.sendNotification(
-        chatId,
-        `${EMOJIS.TROPHY} Amazing! You've reached 1,000 points! Keep going! ${EMOJIS.TROPHY}`,
-      );
-    }
+    await clickService.evaluateAchievements(clickContext);
   } catch (error) {
-    if (error instanceof Error) {
+    if (error instanceof OutOfEnergyError) {
+      await queuedMessageService.sendMessage(chatId, formatOutOfEnergy(ctx, error.refillsAt));
+    } else if (error instanceof Error) {
       await queuedMessageService.sendError(chatId, error.message);
     } else {
       throw error;
     }
   }
 };
+
+/**
+ * The player's energy line for click pages and results
+ */
+export function formatEnergy(ctx: BotContext, energy: Energy): string {
+  return ctx.t('click.energy', {
+    current: energy.available,
+    max: energy.max,
+    regen: energy.regenPerMinute,
+  });
+}
+
+/**
+ * Tells an out-of-energy player how long until they can click again
+ */
+export function formatOutOfEnergy(ctx: BotContext, refillsAt: Date): string {
+  const minutes = Math.max(1, Math.ceil((refillsAt.getTime() - Date.now()) / MINUTE_MS));
+  return ctx.t('click.outOfEnergy', { time: ctx.t('click.refillMinutes', { count: minutes }) });
+}
+
+/**
+ * The player's combo line with its line break, for click pages and results.
+ * Empty without a combo.
+ */
+export function formatCombo(ctx: BotContext, combo: Combo): string {
+  const expiresAt = combo.expiresAt;
+  if (combo.phase === 'idle' || expiresAt === null) return '';
+
+  const seconds = Math.max(1, Math.ceil((expiresAt - Date.now()) / 1000));
+  const line = ctx.t(combo.phase === 'clicking' ? 'click.combo' : 'click.comboFading', {
+    count: combo.count,
+    multiplier: combo.multiplier,
+    seconds,
+  });
+  return `${line}\n`;
+}
@@ -0,0 +1,67 @@
+import type { CommandHandler } from '../types';
+import { container } from '../../../shared/container/DIContainer';
+import { NavigationKeyboards } from '../keyboards/navigationKeyboard';
+import { Streak } from '../../../domain/value-objects/Streak';
+import { DailyRewardClaimedError } from '../../../shared/errors';
+import type { TranslateFn } from '../../../shared/i18n';
+
+/**
+ * Claims today's reward if it is still available, otherwise shows the streak
+ */
+export const dailyCommand: CommandHandler = async (ctx) => {
+  const user = ctx.session.user;
+  const chatId = ctx.chat?.id.toString();
+
+  if (!user || !chatId) {
+    if (chatId) {
+      const queuedMessageService = container.getQueuedMessageService();
+      await queuedMessageService.sendMessage(chatId, ctx.t('common.useStart'));
+    }
+    return;
+  }
+
+  const queuedMessageService = container.getQueuedMessageService();
+  const streakService = container.getStreakService();
+
+  let notice: string | undefined;
+  try {
+    const { streak, reward } = await streakService.claim(user.id);
+    user.addClicks(reward);
+    notice = ctx.t('daily.claimed', { reward, day: streak.current });
+
+    await container.getAchievementService().evaluate(user.id, chatId, {
+      score: user.score,
+      streakDays: streak.current,
+    });
+  } catch (error) {
+    if (!(error instanceof DailyRewardClaimedError)) throw error;
+  }
+
+  const streak = await streakService.getStreak(user.id);
+  const preferences = await container.getPreferencesService().get(user.telegramId.toString());
+
+  await queuedMessageService.sendMessage(chatId, formatDailyStatus(ctx.t, streak, notice), {
+    parse_mode: 'HTML',
+    reply_markup: NavigationKeyboards.dailyPage(
+      ctx.t,
+      streak.canClaim(),
+      preferences.allows('reminders'),
+    ),
+  });
+};
+
+/**
+ * Render the daily reward page
+ */
+export function formatDailyStatus(t: TranslateFn, streak: Streak, notice?: string): string {
+  const status = streak.canClaim()
+    ? t('daily.todayReward', { reward: streak.nextReward() })
+    : t('daily.claimedToday', { reward: Streak.rewardFor(streak.current + 1) });
+
+  return t('daily.page', {
+    notice: notice ? `\n${notice}\n` : '',
+    current: t('daily.currentStreak', { count: streak.activeDays() }),
+    best: t('daily.bestStreak', { count: streak.best }),
+    status,
+  });
+}
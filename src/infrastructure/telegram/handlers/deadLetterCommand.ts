@@ -0,0 +1,92 @@
+import type { BotContext, CommandHandler } from '../types';
+import { container } from '../../../shared/container/DIContainer';
+import type { DeadLetter } from '../../../domain/repositories/IDeadLetterRepository';
+
+const PAGE_SIZE = 10;
+
+/**
+ * Admin-only. `/deadletters [page]` lists messages the queue gave up on,
+ * `/deadletters show <id>` shows one with its attempts,
+ * `/deadletters replay <id>` queues it again and `/deadletters purge`
+ * drops them all.
+ */
+export const deadLetterCommand: CommandHandler = async (ctx) => {
+  const chatId = ctx.chat?.id.toString();
+  if (!chatId) return;
+
+  const queuedMessageService = container.getQueuedMessageService();
+  const messageQueue = container.getMessageQueue();
+
+  const input = typeof ctx.match === 'string' ? ctx.match.trim() : '';
+  const [action = '', id, ...rest] = input.split(/\s+/);
+
+  let reply: string;
+  if (action === '' || /^\d+$/.test(action)) {
+    const page = Math.max(Number(action || 1), 1);
+    const letters = await messageQueue.listDeadLetters((page - 1) * PAGE_SIZE, PAGE_SIZE);
+    const { deadLetters } = await messageQueue.getQueueStats();
+    reply = formatList(ctx, letters, deadLetters, page);
+  } else if (action === 'show' && id && rest.length === 0) {
+    const letter = await messageQueue.getDeadLetter(id);
+    reply = letter ? formatDetails(ctx, letter) : ctx.t('deadLetter.notFound');
+  } else if (action === 'replay' && id && rest.length === 0) {
+    reply = (await messageQueue.replayDeadLetter(id))
+      ? ctx.t('deadLetter.replayed', { id })
+      : ctx.t('deadLetter.notFound');
+  } else if (action === 'purge' && !id) {
+    reply = ctx.t('deadLetter.purged', { count: await messageQueue.purgeDeadLetters() });
+  } else {
+    reply = ctx.t('deadLetter.usage');
+  }
+
+  await queuedMessageService.sendMessage(chatId, reply, { parse_mode: 'HTML' });
+};
+
+function formatList(ctx: BotContext, letters: DeadLetter[], total: number, page: number): string {
+  if (letters.length === 0) return ctx.t('deadLetter.none');
+
+  const lines = letters.map((letter) =>
+    ctx.t('deadLetter.listItem', {
+      failedAt: formatUtc(ctx, letter.failedAt),
+      chatId: letter.chatId,
+      description: escapeHtml(letter.description),
+      error: escapeHtml(letter.error),
+      id: letter.id,
+    }),
+  );
+  return `${ctx.t('deadLetter.listTitle', { count: total, page })}\n\n${lines.join('\n\n')}`;
+}
+
+function formatDetails(ctx: BotContext, letter: DeadLetter): string {
+  const attempts = letter.attempts.map((attempt, index) =>
+    ctx.t('deadLetter.attempt', {
+      number: index + 1,
+      at: formatUtc(ctx, attempt.at),
+      error: escapeHtml(attempt.error),
+    }),
+  );
+
+  return ctx.t('deadLetter.details', {
+    id: letter.id,
+    chatId: letter.chatId,
+    channel: letter.channel ?? ctx.t('deadLetter.noChannel'),
+    description: escapeHtml(letter.description),
+    error: escapeHtml(letter.error),
+    code: letter.errorCode ?? '-',
+    retried: ctx.t(letter.retryable ? 'deadLetter.retried' : 'deadLetter.notRetried'),
+    failedAt: formatUtc(ctx, letter.failedAt),
+    attempts: attempts.join('\n'),
+  });
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function formatUtc(ctx: BotContext, time: number): string {
+  return new Date(time).toLocaleString(ctx.locale, {
+    dateStyle: 'medium',
+    timeStyle: 'medium',
+    timeZone: 'UTC',
+  });
+}
@@ -0,0 +1,74 @@
+import type { CommandHandler } from '../types';
+import { container } from '../../../shared/container/DIContainer';
+import { NavigationKeyboards } from '../keyboards/navigationKeyboard';
+import { ActionChannels } from '../../../domain/value-objects/ActionChannel';
+import { DUEL_DURATION_MS, DUEL_INVITE_TTL_SECONDS } from '../../../domain/value-objects/Duel';
+import { DuelActionError } from '../../../shared/errors';
+import type { TranslateFn } from '../../../shared/i18n';
+
+/**
+ * `/duel @username [wager]` challenges another player to a click duel. The
+ * challenge goes to their private chat in their own language.
+ */
+export const duelCommand: CommandHandler = async (ctx) => {
+  const user = ctx.session.user;
+  const chatId = ctx.chat?.id.toString();
+
+  if (!user || !chatId) {
+    if (chatId) {
+      const queuedMessageService = container.getQueuedMessageService();
+      await queuedMessageService.sendMessage(chatId, ctx.t('common.useStart'));
+    }
+    return;
+  }
+
+  const queuedMessageService = container.getQueuedMessageService();
+
+  const input = typeof ctx.match === 'string' ? ctx.match.trim() : '';
+  const [username = '', wager = '0', ...rest] = input.split(/\s+/);
+  if (!username || rest.length > 0) {
+    await queuedMessageService.sendMessage(
+      chatId,
+      ctx.t('duel.usage', { seconds: DUEL_DURATION_MS / 1000 }),
+      { parse_mode: 'HTML' },
+    );
+    return;
+  }
+
+  let reply: string;
+  try {
+    const duel = await container.getDuelService().challenge(user, chatId, username, Number(wager));
+
+    const t = await container.getPreferencesService().getTranslator(duel.opponent.telegramId);
+    await queuedMessageService.sendNotification(
+      duel.opponent.chatId,
+      t('duel.invite', {
+        name: duel.challenger.name,
+        seconds: DUEL_DURATION_MS / 1000,
+        stake: formatStake(t, duel.wager),
+      }),
+      { parse_mode: 'HTML', reply_markup: NavigationKeyboards.duelInvite(t, duel.id) },
+      ActionChannels.System.notification,
+      'social',
+    );
+
+    reply = ctx.t('duel.challenged', {
+      name: duel.opponent.name,
+      stake: formatStake(ctx.t, duel.wager),
+      minutes: DUEL_INVITE_TTL_SECONDS / 60,
+    });
+  } catch (error) {
+    if (!(error instanceof DuelActionError)) throw error;
+    reply = formatDuelError(ctx.t, error);
+  }
+
+  await queuedMessageService.sendMessage(chatId, reply, { parse_mode: 'HTML' });
+};
+
+export function formatStake(t: TranslateFn, wager: number): string {
+  return wager > 0 ? t('duel.stake', { count: wager }) : t('duel.noStake');
+}
+
+export function formatDuelError(t: TranslateFn, error: DuelActionError): string {
+  return t(`duel.error.${error.reason}`);
+}
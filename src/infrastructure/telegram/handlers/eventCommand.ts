@@ -0,0 +1,135 @@
+import type { BotContext, CommandHandler } from '../types';
+import { container } from '../../../shared/container/DIContainer';
+import {
+  MAX_EVENT_MULTIPLIER,
+  isEventAudience,
+  type EventAudience,
+  type GameEvent,
+} from '../../../domain/value-objects/GameEvent';
+import { EventScheduleError } from '../../../shared/errors';
+
+const HOUR_MS = 3600000;
+
+/**
+ * Admin-only. `/event` lists running and upcoming events,
+ * `/event add <multiplier> <start> <hours> [audience] <title>` schedules one
+ * and `/event cancel <id>` removes it. Start is `now` or a UTC time such as
+ * 2025-11-08T00:00.
+ */
+export const eventCommand: CommandHandler = async (ctx) => {
+  const chatId = ctx.chat?.id.toString();
+  if (!chatId || !ctx.from) return;
+
+  const queuedMessageService = container.getQueuedMessageService();
+
+  const input = typeof ctx.match === 'string' ? ctx.match.trim() : '';
+  const [action = '', ...args] = input.split(/\s+/);
+
+  let reply: string;
+  try {
+    switch (action) {
+      case '':
+        reply = await listEvents(ctx);
+        break;
+      case 'add':
+        reply = await addEvent(ctx, args);
+        break;
+      case 'cancel':
+        reply = await cancelEvent(ctx, args);
+        break;
+      default:
+        reply = ctx.t('event.usage');
+    }
+  } catch (error) {
+    if (!(error instanceof EventScheduleError)) throw error;
+    reply = ctx.t(`event.error.${error.reason}`, { max: MAX_EVENT_MULTIPLIER });
+  }
+
+  await queuedMessageService.sendMessage(chatId, reply, { parse_mode: 'HTML' });
+};
+
+/**
+ * One line describing the event boosting the player's clicks, for the click page
+ */
+export function formatEventBanner(ctx: BotContext, event: GameEvent): string {
+  return ctx.t('event.banner', {
+    title: event.title,
+    multiplier: event.multiplier,
+    end: formatUtc(ctx, event.endsAt),
+  });
+}
+
+async function listEvents(ctx: BotContext): Promise<string> {
+  const events = await container.getEventService().listUpcoming();
+  if (events.length === 0) return ctx.t('event.none');
+
+  const now = new Date();
+  const lines = events.map((event) =>
+    ctx.t('event.listItem', {
+      status: event.isActive(now) ? '🟢' : '🕒',
+      title: event.title,
+      multiplier: event.multiplier,
+      audience: formatAudience(ctx, event.audience),
+      start: formatUtc(ctx, event.startsAt),
+      end: formatUtc(ctx, event.endsAt),
+      id: event.id,
+    }),
+  );
+  return `${ctx.t('event.listTitle')}\n\n${lines.join('\n\n')}`;
+}
+
+async function addEvent(ctx: BotContext, args: string[]): Promise<string> {
+  const [multiplier, start, hours, ...rest] = args;
+  const audience: EventAudience | null = rest[0] && isEventAudience(rest[0]) ? rest[0] : null;
+  const title = (audience ? rest.slice(1) : rest).join(' ');
+  if (!multiplier || !start || !hours || !title || !ctx.from) return ctx.t('event.usage');
+
+  const startsAt = parseStart(start);
+  const event = await container.getEventService().schedule({
+    title,
+    multiplier: Number(multiplier),
+    audience,
+    startsAt,
+    endsAt: new Date(startsAt.getTime() + Number(hours) * HOUR_MS),
+    createdBy: BigInt(ctx.from.id),
+  });
+
+  return ctx.t('event.scheduled', {
+    title: event.title,
+    multiplier: event.multiplier,
+    audience: formatAudience(ctx, event.audience),
+    start: formatUtc(ctx, event.startsAt),
+    end: formatUtc(ctx, event.endsAt),
+    id: event.id,
+  });
+}
+
+async function cancelEvent(ctx: BotContext, args: string[]): Promise<string> {
+  const [eventId, ...rest] = args;
+  if (!eventId || rest.length > 0) return ctx.t('event.usage');
+
+  const event = await container.getEventService().cancel(eventId);
+  return ctx.t('event.cancelled', { title: event.title });
+}
+
+/**
+ * `now`, or a UTC date and time. Anything else gives an invalid date, which
+ * scheduling rejects.
+ */
+function parseStart(value: string): Date {
+  if (value === 'now') return new Date();
+  if (!/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/.test(value)) return new Date(NaN);
+  return new Date(`${value}:00Z`);
+}
+
+function formatAudience(ctx: BotContext, audience: EventAudience | null): string {
+  return ctx.t(`event.audience.${audience ?? 'all'}`);
+}
+
+function formatUtc(ctx: BotContext, date: Date): string {
+  return date.toLocaleString(ctx.locale, {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+    timeZone: 'UTC',
+  });
+}
@@ -0,0 +1,53 @@
+import type { CommandHandler } from '../types';
+import { container } from '../../../shared/container/DIContainer';
+import { RateLimitError } from '../../../shared/errors';
+import { ActionChannels } from '../../../domain/value-objects/ActionChannel';
+
+/**
+ * Sends the user a copy of everything stored about them, once per day
+ */
+export const exportCommand: CommandHandler = async (ctx) => {
+  const user = ctx.session.user;
+  const chatId = ctx.chat?.id.toString();
+  if (!chatId) return;
+
+  const queuedMessageService = container.getQueuedMessageService();
+  if (!user) {
+    await queuedMessageService.sendMessage(chatId, ctx.t('common.useStart'));
+    return;
+  }
+
+  // Personal data only goes to the user's private chat
+  const privateChatId = user.telegramId.toString();
+  if (chatId !== privateChatId) {
+    await queuedMessageService.sendMessage(chatId, ctx.t('export.privateOnly'));
+    return;
+  }
+
+  // Queued ahead of the files so it arrives first. A reply in the same
+  // channel replaces it if the export does not go out.
+  const status = ActionChannels.System.status;
+  await queuedMessageService.sendMessage(chatId, ctx.t('export.preparing'), undefined, status);
+
+  try {
+    const sent = await container
+      .getDataExportService()
+      .sendExport(user.id, privateChatId, ctx.t('export.caption'));
+    if (!sent) {
+      await queuedMessageService.sendMessage(chatId, ctx.t('common.useStart'), undefined, status);
+    }
+  } catch (error) {
+    if (!(error instanceof RateLimitError)) throw error;
+
+    const date = error.retryAfter.toLocaleString(ctx.locale, {
+      dateStyle: 'medium',
+      timeStyle: 'short',
+    });
+    await queuedMessageService.sendMessage(
+      chatId,
+      ctx.t('export.rateLimited', { date }),
+      undefined,
+      status,
+    );
+  }
+};
@@ -2,5 +2,13 @@ export { startCommand } from './startCommand';
 export { clickCommand } from './clickCommand';
 export { leaderboardCommand } from './leaderboardCommand';
 export { statsCommand } from './statsCommand';
+export { dailyCommand } from './dailyCommand';
+export { shopCommand } from './shopCommand';
 export { changeNameCommand } from './changeNameCommand';
 export { helpCommand } from './helpCommand';
+export { exportCommand } from './exportCommand';
+export { clanCommand } from './clanCommand';
+export { duelCommand } from './duelCommand';
+export { eventCommand } from './eventCommand';
+export { deadLetterCommand } from './deadLetterCommand';
+export { inlineQueryHandler } from './inlineQueryHandler';
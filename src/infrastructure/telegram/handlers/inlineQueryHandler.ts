@@ -0,0 +1,79 @@
+import { InlineKeyboard, InlineQueryResultBuilder } from 'grammy';
+import type { CommandHandler } from '../types';
+import { container } from '../../../shared/container/DIContainer';
+import { LeaderboardEntry } from '../../../domain/value-objects/LeaderboardEntry';
+import { isLeaderboardPeriod } from '../../../domain/repositories/ILeaderboardRepository';
+import { TELEGRAM_LIMITS } from '../../../shared/constants';
+
+const CACHE_TIME_SECONDS = 30;
+
+/**
+ * `/start` payload of the challenge link, followed by the challenger's user id
+ */
+export const CHALLENGE_PREFIX = 'challenge_';
+
+/**
+ * Inline mode: lets a player share their score card, the top 10 or a
+ * challenge link in any chat by typing the bot's username
+ */
+export const inlineQueryHandler: CommandHandler = async (ctx) => {
+  const user = ctx.session.user;
+  if (!ctx.inlineQuery || !user) return;
+
+  // Typing a period name ("daily", "weekly", ...) switches the board shown
+  const query = ctx.inlineQuery.query.trim().toLowerCase();
+  const period = isLeaderboardPeriod(query) ? query : 'global';
+  const periodLabel = ctx.t(`leaderboard.period.${period}`);
+
+  const inlineQueryService = container.getInlineQueryService();
+  const [card, topPlayers] = await Promise.all([
+    inlineQueryService.getPlayerCard(user.id, period),
+    inlineQueryService.getTopPlayers(period),
+  ]);
+
+  const link = `https://t.me/${ctx.me.username}?start=${CHALLENGE_PREFIX}${user.id}`;
+  const playKeyboard = new InlineKeyboard().url(ctx.t('inline.playButton'), link);
+  const name = user.getDisplayName();
+  const rank = card.rank ? `#${card.rank}` : ctx.t('stats.unranked');
+
+  let topText = `${ctx.t('leaderboard.topTitle')}\n<i>${periodLabel}</i>\n\n`;
+  topText +=
+    topPlayers.length === 0
+      ? ctx.t('leaderboard.empty')
+      : topPlayers
+          .map((player) => new LeaderboardEntry({ ...player, previousRank: player.rank }).format())
+          .join('\n');
+
+  const results = [
+    InlineQueryResultBuilder.article(
+      `rank:${period}`,
+      ctx.t('inline.rankTitle', { score: card.score, rank }),
+      { description: periodLabel, reply_markup: playKeyboard },
+    ).text(
+      ctx.t('inline.rankCard', {
+        name,
+        rank,
+        score: card.score,
+        count: card.totalPlayers,
+        period: periodLabel,
+      }),
+      { parse_mode: 'HTML' },
+    ),
+    InlineQueryResultBuilder.article(`top:${period}`, ctx.t('inline.topTitle'), {
+      description: periodLabel,
+      reply_markup: playKeyboard,
+    }).text(topText, { parse_mode: 'HTML' }),
+    InlineQueryResultBuilder.article('challenge', ctx.t('inline.challengeTitle'), {
+      description: ctx.t('inline.challengeDescription'),
+      reply_markup: new InlineKeyboard().url(ctx.t('inline.challengeButton'), link),
+    }).text(ctx.t('inline.challengeMessage', { name, score: user.score }), {
+      parse_mode: 'HTML',
+    }),
+  ];
+
+  // The card depends on who is asking, so Telegram must not share it between users
+  await ctx.answerInlineQuery(results.slice(0, TELEGRAM_LIMITS.INLINE_QUERY_RESULTS), {
+    cache_time: CACHE_TIME_SECONDS,
+    is_personal: true,
+  });
+};
@@ -1,7 +1,8 @@
 import type { CommandHandler } from '../types';
 import { container } from '../../../shared/container/DIContainer';
-import { EMOJIS } from '../../../shared/constants';
 import { LeaderboardEntry } from '../../../domain/value-objects/LeaderboardEntry';
+import { isLeaderboardPeriod } from '../../../domain/repositories/ILeaderboardRepository';
+import { NavigationKeyboards } from '../keyboards/navigationKeyboard';
 
 export const leaderboardCommand: CommandHandler = async (ctx) => {
   const user = ctx.session.user;
@@ -10,7 +11,7 @@ export const leaderboardCommand: CommandHandler = async (ctx) => {
   if (!user || !chatId) {
     if (chatId) {
       const queuedMessageService = container.getQueuedMessageService();
-      await queuedMessageService.sendMessage(chatId, 'Please use /start to begin the game.');
+      await queuedMessageService.sendMessage(chatId, ctx.t('common.useStart'));
     }
     return;
   }
@@ -18,18 +19,48 @@ export const leaderboardCommand: CommandHandler = async (ctx) => {
   const queuedMessageService = container.getQueuedMessageService();
   const leaderboardRepo = container.getLeaderboardRepository();
 
-  const topPlayers = await leaderboardRepo.getFullLeaderboard(10);
+  // `/leaderboard daily` etc. selects a period, anything else shows all-time
+  const argument = typeof ctx.match === 'string' ? ctx.match.trim().toLowerCase() : '';
 
-  const userRank = await leaderboardRepo.getUserRank(user.id);
-  const userScore = await leaderboardRepo.getUserScore(user.id);
+  if (argument === 'group') {
+    if (ctx.chat?.type !== 'group' && ctx.chat?.type !== 'supergroup') {
+      await queuedMessageService.sendMessage(chatId, ctx.t('leaderboard.groupOnly'));
+      return;
+    }
+
+    const groupScoreboard = await container.getGroupScoreboardService().render(chatId);
+    await queuedMessageService.sendLeaderboardUpdate(chatId, groupScoreboard, {
+      parse_mode: 'HTML',
+    });
+    return;
+  }
+
+  const period = isLeaderboardPeriod(argument) ? argument : 'global';
+
+  const topPlayers = await leaderboardRepo.getFullLeaderboard(10, period);
+
+  const userRank = await leaderboardRepo.getUserRank(user.id, period);
+  const userScore = await leaderboardRepo.getUserScore(user.id, period);
+
+  // Snapshots only cover the all-time board, other periods show no movement
+  const previousRanks =
+    period === 'global'
+      ? await container
+          .getLeaderboardSnapshotService()
+          .getPreviousRanks([...topPlayers.map((player) => player.userId), user.id])
+      : null;
 
-  let leaderboardText = `${EMOJIS.TROPHY} <b>TOP 10 LEADERBOARD</b> ${EMOJIS.TROPHY}\n\n`;
+  let leaderboardText = `${ctx.t('leaderboard.topTitle')}\n`;
+  leaderboardText += `<i>${ctx.t(`leaderboard.period.${period}`)}</i>\n\n`;
 
   if (topPlayers.length === 0) {
-    leaderboardText += 'No players yet. Be the first!\n';
+    leaderboardText += `${ctx.t('leaderboard.empty')}\n`;
   } else {
     for (const player of topPlayers) {
-      const entry = new LeaderboardEntry(player);
+      const entry = new LeaderboardEntry({
+        ...player,
+        previousRank: previousRanks ? previousRanks.get(player.userId) : player.rank,
+      });
       leaderboardText += `${entry.format()}\n`;
     }
   }
@@ -41,14 +72,16 @@ export const leaderboardCommand: CommandHandler = async (ctx) => {
       username: user.getDisplayName(),
       score: Number(userScore),
       rank: userRank,
+      previousRank: previousRanks ? previousRanks.get(user.id) : userRank,
     });
-    leaderboardText += `<b>Your Position:</b>\n${userEntry.format()}\n`;
+    leaderboardText += `${ctx.t('leaderboard.yourPositionHeader')}\n${userEntry.format()}\n`;
   }
 
-  const totalPlayers = await leaderboardRepo.getTotalUsers();
-  leaderboardText += `\n${EMOJIS.INFO} Total players: <b>${totalPlayers}</b>`;
+  const totalPlayers = await leaderboardRepo.getTotalUsers(period);
+  leaderboardText += `\n${ctx.t('leaderboard.totalPlayers', { count: totalPlayers })}`;
 
   await queuedMessageService.sendLeaderboardUpdate(chatId, leaderboardText, {
     parse_mode: 'HTML',
+    reply_markup: NavigationKeyboards.leaderboardTabs(ctx.t, period),
   });
 };
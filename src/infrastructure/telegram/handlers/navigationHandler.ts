@@ -1,7 +1,45 @@
 import type { BotContext } from '../types';
-import { NavigationKeyboards } from '../keyboards/navigationKeyboard';
+import { NavigationKeyboards, type LeaderboardView } from '../keyboards/navigationKeyboard';
 import { EMOJIS } from '../../../shared/constants';
+import { isLeaderboardPeriod } from '../../../domain/repositories/ILeaderboardRepository';
 import { container } from '../../../shared/container/DIContainer';
+import { LeaderboardEntry } from '../../../domain/value-objects/LeaderboardEntry';
+import {
+  isStatsPeriod,
+  type ClickHistory,
+  type StatsPeriod,
+} from '../../../domain/value-objects/ClickHistory';
+import {
+  AccountCooldownError,
+  ClanActionError,
+  DailyRewardClaimedError,
+  DomainError,
+  DuelActionError,
+  InsufficientPointsError,
+  OutOfEnergyError,
+} from '../../../shared/errors';
+import { isAccountWipeAction } from '../../../application/services/AccountService';
+import type { ClickOutcome } from '../../../application/services/ClickService';
+import { REFERRAL_PREFIX, REFERRAL_REWARDS } from '../../../application/services/ReferralService';
+import { formatDailyStatus } from './dailyCommand';
+import { formatCombo, formatEnergy, formatOutOfEnergy } from './clickCommand';
+import { clanInviteLink, formatClanError, formatClanPage } from './clanCommand';
+import { CLAN_MAX_MEMBERS, type ClanRole } from '../../../domain/value-objects/Clan';
+import { formatDuelError } from './duelCommand';
+import { formatEventBanner } from './eventCommand';
+import { DUEL_DURATION_MS } from '../../../domain/value-objects/Duel';
+import { Combo } from '../../../domain/value-objects/Combo';
+import { ActionChannels } from '../../../domain/value-objects/ActionChannel';
+import { applyLocale } from '../middleware/i18nMiddleware';
+import { formatNumber } from '../../../shared/i18n';
+import {
+  LANGUAGES,
+  NOTIFICATION_CATEGORIES,
+  THEMES,
+  isLanguage,
+  isNotificationCategory,
+  isTheme,
+} from '../../../domain/value-objects/Preferences';
 
 /**
  * Handle all navigation callbacks from inline keyboards
@@ -30,10 +68,10 @@ export async function handleNavigation(ctx: BotContext): Promise<void> {
         if (action) await handleHelpSection(ctx, action);
         break;
       case 'settings':
-        if (action) await handleSettings(ctx, action);
+        if (action) await handleSettings(ctx, action, params);
         break;
       case 'confirm':
-        if (action) await handleConfirmation(ctx, action);
+        if (action) await handleConfirmation(ctx, action, params);
         break;
       default:
         // Fallback for old callback data format
@@ -43,8 +81,8 @@ export async function handleNavigation(ctx: BotContext): Promise<void> {
     console.error('Navigation error:', error);
     // Keep using editMessageText for errors since it's editing an existing message
     // This doesn't count against rate limit in the same way as new messages
-    await ctx.editMessageText(`${EMOJIS.ERROR} An error occurred. Please try again.`, {
-      reply_markup: NavigationKeyboards.errorKeyboard(),
+    await ctx.editMessageText(`${EMOJIS.ERROR} ${ctx.t('errors.navigation')}`, {
+      reply_markup: NavigationKeyboards.errorKeyboard(ctx.t),
     });
   }
 }
@@ -81,20 +119,64 @@ async function handleMenuNavigation(ctx: BotContext, destination: string): Promi
     case 'achievements':
       await showAchievements(ctx);
       break;
+    case 'shop':
+      await showShopPage(ctx);
+      break;
+    case 'daily':
+      await showDailyPage(ctx);
+      break;
+    case 'referrals':
+      await showReferralsPage(ctx);
+      break;
+    case 'clan':
+      await showClanPage(ctx);
+      break;
+    case 'clan_members':
+      await showClanMembers(ctx);
+      break;
   }
 }
 
 /**
  * Handle actions
  */
-async function handleAction(ctx: BotContext, action: string, _params: string[]): Promise<void> {
+async function handleAction(ctx: BotContext, action: string, params: string[]): Promise<void> {
   switch (action) {
     case 'click':
       await handleClickAction(ctx);
       break;
+    case 'buy':
+      if (params[0]) await handleBuyAction(ctx, params[0]);
+      break;
+    case 'daily_claim':
+      await handleDailyClaim(ctx);
+      break;
+    case 'daily_reminders':
+      await toggleStreakReminders(ctx);
+      break;
     case 'myposition':
       await showUserPosition(ctx);
       break;
+    case 'charts':
+      await sendStatsCharts(ctx, params);
+      break;
+    case 'clan_leave':
+      await showClanLeaveConfirmation(ctx);
+      break;
+    case 'clan_member':
+      if (params[0]) await showClanMember(ctx, params[0]);
+      break;
+    case 'clan_promote':
+    case 'clan_demote':
+    case 'clan_kick':
+      if (params[0]) await handleClanMemberAction(ctx, action, params[0]);
+      break;
+    case 'duel_accept':
+      if (params[0]) await handleDuelAccept(ctx, params[0]);
+      break;
+    case 'duel_decline':
+      if (params[0]) await handleDuelDecline(ctx, params[0]);
+      break;
     case 'cancel':
       await showMainMenu(ctx);
       break;
@@ -103,7 +185,7 @@ async function handleAction(ctx: BotContext, action: string, _params: string[]):
       break;
     case 'wait':
       await ctx.answerCallbackQuery({
-        text: 'Please wait for rate limit to reset...',
+        text: ctx.t('click.waitAlert'),
         show_alert: true,
       });
       break;
@@ -116,22 +198,15 @@ async function handleAction(ctx: BotContext, action: string, _params: string[]):
 async function showMainMenu(ctx: BotContext): Promise<void> {
   const user = ctx.session.user;
   if (!user) {
-    await ctx.editMessageText('Please use /start to begin');
+    await ctx.editMessageText(ctx.t('menu.useStart'));
     return;
   }
 
-  const menuText = `
-${EMOJIS.ROCKET} <b>Telegram Clicker Bot</b> ${EMOJIS.ROCKET}
-
-Welcome back, ${user.getDisplayName()}!
-Your Score: <b>${user.score}</b> points
-
-What would you like to do?
-  `.trim();
+  const menuText = ctx.t('menu.text', { name: user.getDisplayName(), score: user.score });
 
   await ctx.editMessageText(menuText, {
     parse_mode: 'HTML',
-    reply_markup: NavigationKeyboards.mainMenu(),
+    reply_markup: NavigationKeyboards.mainMenu(ctx.t),
   });
 }
 
@@ -144,21 +219,39 @@ async function showClickPage(ctx: BotContext): Promise<void> {
 
   const rateLimiter = container.getRateLimiterRepository();
   const rateStatus = await rateLimiter.getRateLimitStatus(user.id, 10, 1);
+  const power = await container.getUpgradeService().getClickPower(user.id);
+  const { theme } = await container.getPreferencesService().get(user.telegramId.toString());
+  const event = await container.getEventService().getActiveFor(user);
+  const energy = await container.getEnergyService().getEnergy(user.id);
+
+  // Record the combo cooling down or running out since the last click
+  const combo = Combo.fromSnapshot(ctx.session);
+  Object.assign(ctx.session, combo.toSnapshot());
+
+  let status = ctx.t('click.ready');
+  if (!rateStatus.allowed) {
+    status = ctx.t('click.rateLimited');
+  } else if (!energy.canSpend()) {
+    status = formatOutOfEnergy(ctx, new Date(Date.now() + energy.msUntil()));
+  }
 
-  const clickPageText = `
-${EMOJIS.CLICK} <b>CLICK ZONE</b> ${EMOJIS.CLICK}
-
-Your Score: <b>${user.score}</b> points
-Rate Limit: ${rateStatus.remaining}/10 clicks available
-
-Each click = +1 point
-
-${rateStatus.allowed ? '✅ Ready to click!' : '⏳ Rate limited - wait a moment'}
-  `.trim();
+  const clickPageText = ctx.t('click.page', {
+    emoji: THEMES[theme].emoji,
+    score: user.score,
+    energy: formatEnergy(ctx, energy),
+    power: ctx.t('click.points', { count: power.basePoints }),
+    crit:
+      power.critChance > 0
+        ? ctx.t('click.critChance', { percent: Math.round(power.critChance * 100) })
+        : '',
+    combo: formatCombo(ctx, combo),
+    event: event ? `${formatEventBanner(ctx, event)}\n` : '',
+    status,
+  });
 
   await ctx.editMessageText(clickPageText, {
     parse_mode: 'HTML',
-    reply_markup: NavigationKeyboards.clickPage(rateStatus.allowed),
+    reply_markup: NavigationKeyboards.clickPage(ctx.t, rateStatus.allowed, theme),
   });
 }
 
@@ -182,86 +275,543 @@ async function handleClickAction(ctx: BotContext): Promise<void> {
   }
 
   // IMMEDIATELY process the click (not queued)
-  const clickCount = 1;
+  const clickService = container.getClickService();
+  const clickContext = {
+    user,
+    session,
+    chatId,
+    chatType: ctx.chat?.type,
+    combo: Combo.fromSnapshot(ctx.session),
+  };
+  let outcome: ClickOutcome;
+  try {
+    outcome = await clickService.click(clickContext);
+  } catch (error) {
+    if (!(error instanceof OutOfEnergyError)) throw error;
+    // The click page tells the player when their energy refills
+    await showClickPage(ctx);
+    return;
+  }
+  const { points, critical, pendingTotal, energy, combo, event } = outcome;
+  Object.assign(ctx.session, combo.toSnapshot());
+  const { theme } = await container.getPreferencesService().get(user.telegramId.toString());
+
+  const resultText = ctx.t('click.result', {
+    emoji: THEMES[theme].emoji,
+    points: ctx.t('click.points', { count: points }),
+    critical: critical ? ` ${EMOJIS.FIRE} ${ctx.t('click.critical')}` : '',
+    score: user.score,
+    pending: pendingTotal,
+    combo: formatCombo(ctx, combo),
+    event: event ? `${formatEventBanner(ctx, event)}\n` : '',
+    energy: formatEnergy(ctx, energy),
+  });
 
-  const clickRepo = container.getClickRepository();
-  const newPendingTotal = await clickRepo.incrementClickCount(user.id, clickCount);
+  // Edit the message IMMEDIATELY, not queued
+  try {
+    await ctx.editMessageText(resultText, {
+      parse_mode: 'HTML',
+      reply_markup: NavigationKeyboards.clickPage(ctx.t, rateLimit.remaining > 0, theme),
+    });
+  } catch (error) {
+    // If edit fails, log it but don't crash
+    console.error('[CLICK] Failed to update UI:', error);
+  }
+
+  await clickService.evaluateAchievements(clickContext);
+}
+
+/**
+ * Show upgrade shop
+ */
+async function showShopPage(ctx: BotContext, notice?: string): Promise<void> {
+  const user = ctx.session.user;
+  if (!user) return;
 
-  user.addClicks(clickCount);
-  session.addClicks(clickCount);
+  const upgradeService = container.getUpgradeService();
+  const shop = await upgradeService.getShop(user.id);
 
-  const sessionRepo = container.getSessionRepository();
-  await sessionRepo.incrementClickCount(session.token, clickCount);
+  // Passive income never passes through the session, so resync the score
+  user.score = await upgradeService.getBalance(user.id);
 
-  const leaderboardRepo = container.getLeaderboardRepository();
-  await leaderboardRepo.incrementScore(user.id, clickCount);
+  const shopText = ctx.t('shop.page', {
+    notice: notice ? `\n${notice}\n` : '',
+    points: user.score,
+    upgrades: shop.map(({ upgrade, level }) => upgrade.format(level, ctx.t)).join('\n\n'),
+  });
+
+  await ctx.editMessageText(shopText, {
+    parse_mode: 'HTML',
+    reply_markup: NavigationKeyboards.shopPage(ctx.t, shop),
+  });
+}
+
+/**
+ * Buy the next level of an upgrade and refresh the shop
+ */
+async function handleBuyAction(ctx: BotContext, upgradeId: string): Promise<void> {
+  const user = ctx.session.user;
+  if (!user) return;
+
+  let notice: string;
+  try {
+    const { upgrade, level, price } = await container
+      .getUpgradeService()
+      .purchase(user.id, upgradeId);
+    notice = ctx.t('shop.bought', {
+      emoji: upgrade.emoji,
+      title: ctx.t(upgrade.title),
+      level,
+      price,
+    });
+  } catch (error) {
+    if (error instanceof InsufficientPointsError) {
+      notice = ctx.t('shop.notEnough', { required: error.required, available: error.available });
+    } else if (error instanceof DomainError) {
+      notice = `${EMOJIS.WARNING} ${error.message}`;
+    } else {
+      throw error;
+    }
+  }
 
-  await clickRepo.addClickEvent(user.id, clickCount);
+  await showShopPage(ctx, notice);
+}
 
-  const resultText = `
-${EMOJIS.CLICK} <b>Click Registered!</b>
+/**
+ * Show daily reward page
+ */
+async function showDailyPage(ctx: BotContext, notice?: string): Promise<void> {
+  const user = ctx.session.user;
+  if (!user) return;
 
-${EMOJIS.SPARKLES} +${clickCount} point
-${EMOJIS.TROPHY} Total Score: <b>${user.score}</b>
-${EMOJIS.SPARKLES} Pending: ${newPendingTotal}
+  const streak = await container.getStreakService().getStreak(user.id);
+  const preferences = await container.getPreferencesService().get(user.telegramId.toString());
 
-Rate Limit: ${rateLimit.remaining}/10 remaining
-  `.trim();
+  await ctx.editMessageText(formatDailyStatus(ctx.t, streak, notice), {
+    parse_mode: 'HTML',
+    reply_markup: NavigationKeyboards.dailyPage(
+      ctx.t,
+      streak.canClaim(),
+      preferences.allows('reminders'),
+    ),
+  });
+}
 
-  // Edit the message IMMEDIATELY, not queued
+/**
+ * Claim today's reward and refresh the daily page
+ */
+async function handleDailyClaim(ctx: BotContext): Promise<void> {
+  const user = ctx.session.user;
+  const chatId = ctx.chat?.id.toString();
+  if (!user || !chatId) return;
+
+  let notice: string;
   try {
-    await ctx.editMessageText(resultText, {
-      parse_mode: 'HTML',
-      reply_markup: NavigationKeyboards.clickPage(rateLimit.remaining > 0),
+    const { streak, reward } = await container.getStreakService().claim(user.id);
+    user.addClicks(reward);
+    notice = ctx.t('daily.claimed', { reward, day: streak.current });
+
+    await container.getAchievementService().evaluate(user.id, chatId, {
+      score: user.score,
+      streakDays: streak.current,
     });
   } catch (error) {
-    // If edit fails, log it but don't crash
-    console.error('[CLICK] Failed to update UI:', error);
+    if (!(error instanceof DailyRewardClaimedError)) throw error;
+    notice = ctx.t('daily.alreadyClaimed');
   }
+
+  await showDailyPage(ctx, notice);
+}
+
+/**
+ * Toggle "streak about to break" reminders
+ */
+async function toggleStreakReminders(ctx: BotContext): Promise<void> {
+  const user = ctx.session.user;
+  if (!user) return;
+
+  const preferencesService = container.getPreferencesService();
+  const telegramId = user.telegramId.toString();
+  const preferences = await preferencesService.get(telegramId);
+  const remindersEnabled = preferences.allows('reminders');
+
+  // Turning reminders on also turns the master switch back on
+  await preferencesService.save(
+    user.id,
+    telegramId,
+    remindersEnabled
+      ? preferences.withNotification('reminders', false)
+      : preferences.withNotification('reminders', true).withNotificationsEnabled(true),
+  );
+
+  await showDailyPage(ctx, ctx.t(remindersEnabled ? 'daily.remindersOff' : 'daily.remindersOn'));
+}
+
+/**
+ * Show the user's invite link and the friends who joined through it
+ */
+async function showReferralsPage(ctx: BotContext): Promise<void> {
+  const user = ctx.session.user;
+  if (!user) return;
+
+  const summary = await container.getReferralService().getSummary(user.id);
+  const link = `https://t.me/${ctx.me.username}?start=${REFERRAL_PREFIX}${summary.code}`;
+
+  const list =
+    summary.invitees.length === 0
+      ? ctx.t('referral.none')
+      : summary.invitees
+          .map(({ name, score, rewarded }) =>
+            ctx.t('referral.entry', { icon: rewarded ? '✅' : '⏳', name, score }),
+          )
+          .join('\n');
+
+  const referralsText = ctx.t('referral.page', {
+    link,
+    threshold: REFERRAL_REWARDS.threshold,
+    inviterBonus: REFERRAL_REWARDS.inviter,
+    inviteeBonus: REFERRAL_REWARDS.invitee,
+    invited: ctx.t('referral.invited', { count: summary.totalInvited }),
+    list,
+    earned: summary.totalEarned,
+  });
+
+  await ctx.editMessageText(referralsText, {
+    parse_mode: 'HTML',
+    reply_markup: NavigationKeyboards.referralsPage(ctx.t, link),
+  });
 }
 
 /**
  * Show leaderboard page
  */
-async function showLeaderboardPage(ctx: BotContext, page: number = 1): Promise<void> {
+async function showLeaderboardPage(
+  ctx: BotContext,
+  page: number = 1,
+  period: LeaderboardView = 'global',
+): Promise<void> {
   const user = ctx.session.user;
   if (!user) return;
 
+  if (period === 'clans') {
+    await showClanLeaderboard(ctx, page);
+    return;
+  }
+
   const leaderboardRepo = container.getLeaderboardRepository();
   const limit = 10;
   const offset = (page - 1) * limit;
 
-  const topPlayers = await leaderboardRepo.getFullLeaderboard(limit);
-  const totalPlayers = await leaderboardRepo.getTotalUsers();
-  const userRank = await leaderboardRepo.getUserRank(user.id);
+  const topPlayers = await leaderboardRepo.getFullLeaderboard(limit, period);
+  const totalPlayers = await leaderboardRepo.getTotalUsers(period);
+  const userRank = await leaderboardRepo.getUserRank(user.id, period);
+
+  // Snapshots only cover the all-time board, other periods show no movement
+  const previousRanks =
+    period === 'global'
+      ? await container
+          .getLeaderboardSnapshotService()
+          .getPreviousRanks(topPlayers.map((player) => player.userId))
+      : null;
 
-  let leaderboardText = `${EMOJIS.TROPHY} <b>LEADERBOARD - Page ${page}</b> ${EMOJIS.TROPHY}\n\n`;
+  let leaderboardText = `${ctx.t('leaderboard.pageTitle', { page })}\n`;
+  leaderboardText += `<i>${ctx.t(`leaderboard.period.${period}`)}</i>\n\n`;
 
   if (topPlayers.length === 0) {
-    leaderboardText += 'No players yet. Be the first!\n';
+    leaderboardText += `${ctx.t('leaderboard.empty')}\n`;
   } else {
     topPlayers.forEach((player, index) => {
       const position = offset + index + 1;
       const medal =
         position === 1 ? '🥇' : position === 2 ? '🥈' : position === 3 ? '🥉' : `${position}.`;
-      leaderboardText += `${medal} ${player.username} - <b>${player.score}</b>\n`;
+      const change = new LeaderboardEntry({
+        ...player,
+        previousRank: previousRanks ? previousRanks.get(player.userId) : player.rank,
+      }).getChangeEmoji();
+      leaderboardText += `${medal} ${player.username} - <b>${player.score}</b>${change ? ` ${change}` : ''}\n`;
     });
   }
 
   if (userRank && userRank > 10) {
-    leaderboardText += `\n...\n\n📍 Your Position: #${userRank}`;
+    leaderboardText += `\n...\n\n${ctx.t('leaderboard.yourPosition', { rank: userRank })}`;
   }
 
-  leaderboardText += `\n\n👥 Total Players: ${totalPlayers}`;
+  leaderboardText += `\n\n${ctx.t('leaderboard.totalPlayers', { count: totalPlayers })}`;
 
   const hasMore = totalPlayers > page * limit;
 
   await ctx.editMessageText(leaderboardText, {
     parse_mode: 'HTML',
-    reply_markup: NavigationKeyboards.leaderboardPage(page, hasMore),
+    reply_markup: NavigationKeyboards.leaderboardPage(ctx.t, page, hasMore, period),
+  });
+}
+
+/**
+ * Show the clan leaderboard, ranked by team score
+ */
+async function showClanLeaderboard(ctx: BotContext, page: number): Promise<void> {
+  const user = ctx.session.user;
+  if (!user) return;
+
+  const clanRepo = container.getClanRepository();
+  const limit = 10;
+  const offset = (page - 1) * limit;
+
+  const [topClans, totalClans, clanId] = await Promise.all([
+    clanRepo.getTop(limit, offset),
+    clanRepo.getTotalClans(),
+    clanRepo.getMembership(user.id),
+  ]);
+  const clanRank = clanId ? await clanRepo.getRank(clanId) : null;
+
+  let leaderboardText = `${ctx.t('leaderboard.pageTitle', { page })}\n`;
+  leaderboardText += `<i>${ctx.t('leaderboard.clansTab')}</i>\n\n`;
+
+  if (topClans.length === 0) {
+    leaderboardText += `${ctx.t('leaderboard.noClans')}\n`;
+  } else {
+    topClans.forEach(({ name, score, rank }) => {
+      const medal = rank === 1 ? '🥇' : rank === 2 ? '🥈' : rank === 3 ? '🥉' : `${rank}.`;
+      leaderboardText += `${medal} ${name} - <b>${score}</b>\n`;
+    });
+  }
+
+  if (clanRank) {
+    leaderboardText += `\n${ctx.t('leaderboard.yourClan', { rank: clanRank })}`;
+  }
+
+  leaderboardText += `\n\n${ctx.t('leaderboard.totalClans', { count: totalClans })}`;
+
+  await ctx.editMessageText(leaderboardText, {
+    parse_mode: 'HTML',
+    reply_markup: NavigationKeyboards.leaderboardPage(
+      ctx.t,
+      page,
+      totalClans > page * limit,
+      'clans',
+    ),
+  });
+}
+
+/**
+ * Show the user's clan, or how to join one
+ */
+async function showClanPage(ctx: BotContext, notice?: string): Promise<void> {
+  const user = ctx.session.user;
+  if (!user) return;
+
+  const overview = await container.getClanService().getOverview(user.id);
+
+  await ctx.editMessageText(formatClanPage(ctx, overview, notice), {
+    parse_mode: 'HTML',
+    reply_markup: NavigationKeyboards.clanPage(
+      ctx.t,
+      overview ? clanInviteLink(ctx, overview.clan.inviteCode) : null,
+      overview?.clan.name,
+    ),
+  });
+}
+
+/**
+ * Show the clan roster with each member's role
+ */
+async function showClanMembers(ctx: BotContext, notice?: string): Promise<void> {
+  const user = ctx.session.user;
+  if (!user) return;
+
+  const overview = await container.getClanService().getOverview(user.id);
+  if (!overview) {
+    await showClanPage(ctx, notice);
+    return;
+  }
+
+  const { clan, role } = overview;
+  const list = clan.members
+    .map((member) =>
+      ctx.t('clan.memberEntry', {
+        name: member.userId === user.id ? `<b>${member.name}</b>` : member.name,
+        role: ctx.t(`clan.role.${member.role}`),
+      }),
+    )
+    .join('\n');
+
+  const membersText = ctx.t('clan.members', {
+    notice: notice ? `\n${notice}\n` : '',
+    name: clan.name,
+    count: clan.members.length,
+    max: CLAN_MAX_MEMBERS,
+    list,
+  });
+
+  await ctx.editMessageText(membersText, {
+    parse_mode: 'HTML',
+    reply_markup: NavigationKeyboards.clanMembers(ctx.t, role, clan.members),
   });
 }
 
+/**
+ * Show the actions the user may take on another member
+ */
+async function showClanMember(ctx: BotContext, memberId: string): Promise<void> {
+  const user = ctx.session.user;
+  if (!user) return;
+
+  const overview = await container.getClanService().getOverview(user.id);
+  const member = overview?.clan.getMember(memberId);
+  if (!overview || !member) {
+    await showClanMembers(ctx, ctx.t('clan.error.unknown_member'));
+    return;
+  }
+
+  await ctx.editMessageText(
+    ctx.t('clan.manageMember', { name: member.name, role: ctx.t(`clan.role.${member.role}`) }),
+    {
+      parse_mode: 'HTML',
+      reply_markup: NavigationKeyboards.clanMember(ctx.t, overview.role, member),
+    },
+  );
+}
+
+const CLAN_ROLE_ACTIONS: Record<
+  string,
+  { role: ClanRole; notice: 'clan.promoted' | 'clan.demoted' }
+> = {
+  clan_promote: { role: 'officer', notice: 'clan.promoted' },
+  clan_demote: { role: 'member', notice: 'clan.demoted' },
+};
+
+/**
+ * Promote, demote or remove a member, then return to the roster
+ */
+async function handleClanMemberAction(
+  ctx: BotContext,
+  action: string,
+  memberId: string,
+): Promise<void> {
+  const user = ctx.session.user;
+  if (!user) return;
+
+  const clanService = container.getClanService();
+  const roleAction = CLAN_ROLE_ACTIONS[action];
+
+  let notice: string;
+  try {
+    if (roleAction) {
+      const member = await clanService.setRole(user.id, memberId, roleAction.role);
+      notice = ctx.t(roleAction.notice, { name: member.name });
+    } else {
+      const member = await clanService.kick(user.id, memberId);
+      notice = ctx.t('clan.kicked', { name: member.name });
+    }
+  } catch (error) {
+    if (!(error instanceof ClanActionError)) throw error;
+    notice = formatClanError(ctx.t, error);
+  }
+
+  await showClanMembers(ctx, notice);
+}
+
+/**
+ * Ask before leaving the clan
+ */
+async function showClanLeaveConfirmation(ctx: BotContext): Promise<void> {
+  const user = ctx.session.user;
+  if (!user) return;
+
+  const overview = await container.getClanService().getOverview(user.id);
+  if (!overview) {
+    await showClanPage(ctx);
+    return;
+  }
+
+  await ctx.editMessageText(ctx.t('clan.leaveConfirm', { name: overview.clan.name }), {
+    parse_mode: 'HTML',
+    reply_markup: NavigationKeyboards.confirmation(ctx.t, 'clan_leave'),
+  });
+}
+
+async function handleClanLeave(ctx: BotContext): Promise<void> {
+  const user = ctx.session.user;
+  if (!user) return;
+
+  let notice: string;
+  try {
+    const { clan, disbanded } = await container.getClanService().leave(user.id);
+    notice = ctx.t(disbanded ? 'clan.disbanded' : 'clan.left', { name: clan.name });
+  } catch (error) {
+    if (!(error instanceof ClanActionError)) throw error;
+    notice = formatClanError(ctx.t, error);
+  }
+
+  await showClanPage(ctx, notice);
+}
+
+/**
+ * Start a duel from the challenge message and tell the challenger
+ */
+async function handleDuelAccept(ctx: BotContext, duelId: string): Promise<void> {
+  const user = ctx.session.user;
+  if (!user) return;
+
+  try {
+    const duel = await container.getDuelService().accept(user.id, duelId);
+    const seconds = DUEL_DURATION_MS / 1000;
+
+    await ctx.editMessageText(ctx.t('duel.started', { name: duel.challenger.name, seconds }), {
+      parse_mode: 'HTML',
+      reply_markup: NavigationKeyboards.duelStarted(ctx.t),
+    });
+
+    const t = await container.getPreferencesService().getTranslator(duel.challenger.telegramId);
+    await container
+      .getQueuedMessageService()
+      .sendPriorityMessage(
+        duel.challenger.chatId,
+        t('duel.started', { name: duel.opponent.name, seconds }),
+        { parse_mode: 'HTML', reply_markup: NavigationKeyboards.duelStarted(t) },
+        ActionChannels.Game.session,
+      );
+  } catch (error) {
+    if (!(error instanceof DuelActionError)) throw error;
+    await ctx.editMessageText(formatDuelError(ctx.t, error), {
+      reply_markup: NavigationKeyboards.backButton(ctx.t),
+    });
+  }
+}
+
+/**
+ * Turn down a duel from the challenge message and tell the challenger
+ */
+async function handleDuelDecline(ctx: BotContext, duelId: string): Promise<void> {
+  const user = ctx.session.user;
+  if (!user) return;
+
+  try {
+    const duel = await container.getDuelService().decline(user.id, duelId);
+
+    await ctx.editMessageText(ctx.t('duel.declined', { name: duel.challenger.name }), {
+      parse_mode: 'HTML',
+      reply_markup: NavigationKeyboards.backButton(ctx.t),
+    });
+
+    const t = await container.getPreferencesService().getTranslator(duel.challenger.telegramId);
+    await container
+      .getQueuedMessageService()
+      .sendMessage(
+        duel.challenger.chatId,
+        t('duel.declinedByOpponent', { name: duel.opponent.name }),
+        {
+          parse_mode: 'HTML',
+        },
+      );
+  } catch (error) {
+    if (!(error instanceof DuelActionError)) throw error;
+    await ctx.editMessageText(formatDuelError(ctx.t, error), {
+      reply_markup: NavigationKeyboards.backButton(ctx.t),
+    });
+  }
+}
+
 /**
  * Show stats page
  */
@@ -276,24 +826,18 @@ async function showStatsPage(ctx: BotContext): Promise<void> {
   const userRank = await leaderboardRepo.getUserRank(user.id);
   const pendingClicks = await clickRepo.getPendingClicks(user.id);
 
-  const statsText = `
-${EMOJIS.STAR} <b>YOUR STATISTICS</b> ${EMOJIS.STAR}
-
-👤 Player: ${user.getDisplayName()}
-${EMOJIS.TROPHY} Score: <b>${user.score}</b>
-🏅 Rank: <b>#${userRank || 'Unranked'}</b>
-
-📊 Session Stats:
-• Clicks: ${session.clickCount}
-• Pending: ${pendingClicks}
-• Started: ${session.createdAt.toLocaleTimeString()}
-
-Keep clicking to climb! ${EMOJIS.FIRE}
-  `.trim();
+  const statsText = ctx.t('stats.page', {
+    name: user.getDisplayName(),
+    score: user.score,
+    rank: userRank ? `#${userRank}` : ctx.t('stats.unranked'),
+    sessionClicks: session.clickCount,
+    pending: pendingClicks,
+    sessionStarted: session.createdAt.toLocaleTimeString(ctx.locale),
+  });
 
   await ctx.editMessageText(statsText, {
     parse_mode: 'HTML',
-    reply_markup: NavigationKeyboards.statsPage(),
+    reply_markup: NavigationKeyboards.statsPage(ctx.t),
   });
 }
 
@@ -301,45 +845,36 @@ Keep clicking to climb! ${EMOJIS.FIRE}
  * Show help page
  */
 async function showHelpPage(ctx: BotContext): Promise<void> {
-  const helpText = `
-${EMOJIS.INFO} <b>HELP CENTER</b> ${EMOJIS.INFO}
-
-Welcome to Telegram Clicker Bot!
-
-This is a fun clicking game where you:
-• Click to earn points
-• Compete on the leaderboard
-• Track your progress
-
-Use the buttons below to learn more!
-  `.trim();
-
-  await ctx.editMessageText(helpText, {
+  await ctx.editMessageText(ctx.t('help.center'), {
     parse_mode: 'HTML',
-    reply_markup: NavigationKeyboards.helpPage(),
+    reply_markup: NavigationKeyboards.helpPage(ctx.t),
   });
 }
 
 /**
  * Show settings page
  */
-async function showSettingsPage(ctx: BotContext): Promise<void> {
+async function showSettingsPage(ctx: BotContext, notice?: string): Promise<void> {
   const user = ctx.session.user;
   if (!user) return;
 
-  const settingsText = `
-⚙️ <b>SETTINGS</b> ⚙️
-
-Configure your bot experience:
-
-👤 User: ${user.getDisplayName()}
-🆔 ID: <code>${user.telegramId}</code>
-📅 Joined: ${user.createdAt.toLocaleDateString()}
-  `.trim();
+  const preferences = await container.getPreferencesService().get(user.telegramId.toString());
+
+  const settingsText = ctx.t('settings.page', {
+    notice: notice ? `\n${notice}\n` : '',
+    name: user.getDisplayName(),
+    id: user.telegramId.toString(),
+    joined: user.createdAt.toLocaleDateString(ctx.locale),
+    notifications: ctx.t(preferences.notificationsEnabled ? 'common.on' : 'common.off'),
+    language: preferences.language
+      ? LANGUAGES[preferences.language]
+      : ctx.t('settings.languageAuto', { language: LANGUAGES[ctx.locale] }),
+    theme: ctx.t(`theme.${preferences.theme}`),
+  });
 
   await ctx.editMessageText(settingsText, {
     parse_mode: 'HTML',
-    reply_markup: NavigationKeyboards.settingsPage(true),
+    reply_markup: NavigationKeyboards.settingsPage(ctx.t, preferences.notificationsEnabled),
   });
 }
 
@@ -350,22 +885,9 @@ async function showChangeNamePage(ctx: BotContext): Promise<void> {
   const user = ctx.session.user;
   if (!user) return;
 
-  const changeNameText = `
-✏️ <b>CHANGE DISPLAY NAME</b> ✏️
-
-Current name: <b>${user.getDisplayName()}</b>
-
-To change your name:
-1. Click the button below
-2. Send your new name
-3. Confirm the change
-
-Note: This won't change your Telegram username
-  `.trim();
-
-  await ctx.editMessageText(changeNameText, {
+  await ctx.editMessageText(ctx.t('changeName.page', { name: user.getDisplayName() }), {
     parse_mode: 'HTML',
-    reply_markup: NavigationKeyboards.backButton('main'),
+    reply_markup: NavigationKeyboards.backButton(ctx.t, 'main'),
   });
 
   ctx.session.temporaryData = { expectingName: true };
@@ -382,21 +904,21 @@ async function showUserPosition(ctx: BotContext): Promise<void> {
   const userRank = await leaderboardRepo.getUserRank(user.id);
   const neighbors = await leaderboardRepo.getUserNeighbors(user.id, 2, 2);
 
-  let positionText = `📍 <b>YOUR POSITION</b> 📍\n\n`;
+  let positionText = `${ctx.t('position.title')}\n\n`;
 
   if (userRank) {
     neighbors.forEach((player) => {
       const isUser = player.userId === user.id;
       const prefix = isUser ? '👉 ' : '   ';
-      positionText += `${prefix}#${player.rank} ${isUser ? `<b>${user.getDisplayName()}</b>` : 'Player'} - ${player.score}\n`;
+      positionText += `${prefix}#${player.rank} ${isUser ? `<b>${user.getDisplayName()}</b>` : ctx.t('position.player')} - ${player.score}\n`;
     });
   } else {
-    positionText += 'You are not ranked yet. Start clicking!';
+    positionText += ctx.t('position.unranked');
   }
 
   await ctx.editMessageText(positionText, {
     parse_mode: 'HTML',
-    reply_markup: NavigationKeyboards.backButton('leaderboard'),
+    reply_markup: NavigationKeyboards.backButton(ctx.t, 'leaderboard'),
   });
 }
 
@@ -407,150 +929,362 @@ async function handlePagination(ctx: BotContext, section: string, params: string
   const page = parseInt(params[0] || '1', 10);
 
   if (section === 'leaderboard') {
-    await showLeaderboardPage(ctx, page);
+    const period: LeaderboardView =
+      params[1] === 'clans' || isLeaderboardPeriod(params[1]) ? params[1] : 'global';
+    await showLeaderboardPage(ctx, page, period);
+  } else if (section === 'stats') {
+    const period = isStatsPeriod(params[1]) ? params[1] : 'week';
+    await showDetailedStats(ctx, period, Math.max(page || 0, 0));
   }
 }
 
+const HELP_SECTIONS = ['howto', 'rules', 'commands', 'faq'] as const;
+
+function isHelpSection(value: string): value is (typeof HELP_SECTIONS)[number] {
+  return HELP_SECTIONS.includes(value as (typeof HELP_SECTIONS)[number]);
+}
+
 /**
  * Handle help sections
  */
 async function handleHelpSection(ctx: BotContext, section: string): Promise<void> {
-  let helpText = '';
-
-  switch (section) {
-    case 'howto':
-      helpText = `
-🎮 <b>HOW TO PLAY</b>
-
-1. Click the "Start Clicking" button
-2. Choose your click power
-3. Earn points with each click
-4. Check the leaderboard
-5. Beat other players!
-
-It's that simple! ${EMOJIS.PARTY}
-      `;
-      break;
-    case 'rules':
-      helpText = `
-📜 <b>GAME RULES</b>
-
-• Max 10 clicks per second
-• Points range: 1-100 per click
-• Fair play only - no bots!
-• Respect rate limits
-• Have fun!
-      `;
-      break;
-    case 'commands':
-      helpText = `
-⚡ <b>COMMANDS</b>
-
-While you can navigate with buttons, these commands also work:
-
-/start - Start the bot
-/click - Click to earn
-/leaderboard - View rankings
-/stats - Your statistics
-/help - This help menu
-      `;
-      break;
-    case 'faq':
-      helpText = `
-❓ <b>FAQ</b>
+  if (!isHelpSection(section)) return;
 
-Q: Why am I rate limited?
-A: To ensure fair play and respect Telegram limits
-
-Q: How are points calculated?
-A: Random 1-10 points per click, with multipliers
-
-Q: Can I change my name?
-A: Yes! Use the Change Name option in settings
-      `;
-      break;
-  }
-
-  await ctx.editMessageText(helpText.trim(), {
+  await ctx.editMessageText(ctx.t(`help.${section}`), {
     parse_mode: 'HTML',
-    reply_markup: NavigationKeyboards.backButton('help'),
+    reply_markup: NavigationKeyboards.backButton(ctx.t, 'help'),
   });
 }
 
 /**
  * Handle settings
  */
-async function handleSettings(ctx: BotContext, setting: string): Promise<void> {
+async function handleSettings(ctx: BotContext, setting: string, params: string[]): Promise<void> {
   switch (setting) {
     case 'notifications':
-      await ctx.answerCallbackQuery({
-        text: 'Notification settings coming soon!',
-        show_alert: true,
-      });
+      await handleNotificationSettings(ctx, params[0]);
       break;
     case 'language':
-      await ctx.answerCallbackQuery({
-        text: 'Language selection coming soon!',
-        show_alert: true,
-      });
+      await handleLanguageSettings(ctx, params[0]);
       break;
     case 'theme':
-      await ctx.answerCallbackQuery({
-        text: 'Theme selection coming soon!',
-        show_alert: true,
-      });
+      await handleThemeSettings(ctx, params[0]);
       break;
     case 'profile':
       await showStatsPage(ctx);
       break;
     case 'clear':
-      await ctx.editMessageText(
-        '⚠️ <b>Clear Data</b>\n\nAre you sure you want to reset your progress?',
-        {
-          parse_mode: 'HTML',
-          reply_markup: NavigationKeyboards.confirmation('cleardata'),
-        },
-      );
+      await handleClearData(ctx, params[0]);
       break;
   }
 }
 
 /**
- * Handle confirmations
+ * Show notification settings, toggling the master switch or a category first if given
  */
-async function handleConfirmation(ctx: BotContext, action: string): Promise<void> {
-  if (action === 'cleardata') {
-    await ctx.answerCallbackQuery({
-      text: 'Data clearing not implemented yet',
-      show_alert: true,
-    });
+async function handleNotificationSettings(ctx: BotContext, toggle?: string): Promise<void> {
+  const user = ctx.session.user;
+  if (!user) return;
+
+  const preferencesService = container.getPreferencesService();
+  const telegramId = user.telegramId.toString();
+  let preferences = await preferencesService.get(telegramId);
+
+  if (toggle === 'all') {
+    preferences = preferences.withNotificationsEnabled(!preferences.notificationsEnabled);
+    await preferencesService.save(user.id, telegramId, preferences);
+  } else if (isNotificationCategory(toggle)) {
+    preferences = preferences.withNotification(toggle, !preferences.notifications[toggle]);
+    await preferencesService.save(user.id, telegramId, preferences);
   }
-  await showMainMenu(ctx);
+
+  const categoryLines = NOTIFICATION_CATEGORIES.map(
+    (category) =>
+      `${preferences.notifications[category] ? '✅' : '⬜'} ${ctx.t(`notifications.${category}`)}`,
+  ).join('\n');
+
+  const notificationsText = ctx.t('settings.notificationsPage', {
+    status: ctx.t(preferences.notificationsEnabled ? 'common.on' : 'common.off'),
+    categories: categoryLines,
+  });
+
+  await ctx.editMessageText(notificationsText, {
+    parse_mode: 'HTML',
+    reply_markup: NavigationKeyboards.notificationSettings(ctx.t, preferences),
+  });
 }
 
 /**
- * Show detailed stats
+ * Show the language picker, or switch language and return to settings.
+ * "auto" clears the choice so the Telegram client language applies.
  */
-async function showDetailedStats(ctx: BotContext): Promise<void> {
+async function handleLanguageSettings(ctx: BotContext, language?: string): Promise<void> {
   const user = ctx.session.user;
   if (!user) return;
 
-  const detailedText = `
-📈 <b>DETAILED STATISTICS</b> 📈
+  const preferencesService = container.getPreferencesService();
+  const telegramId = user.telegramId.toString();
+  const preferences = await preferencesService.get(telegramId);
 
-Coming soon:
-• Daily/Weekly/Monthly stats
-• Click patterns
-• Best scores
-• Achievement progress
-• Performance graphs
+  if (language === 'auto' || isLanguage(language)) {
+    const chosen = language === 'auto' ? null : language;
+    await preferencesService.save(user.id, telegramId, preferences.withLanguage(chosen));
 
-Stay tuned! ${EMOJIS.STAR}
-  `.trim();
+    // Re-render the settings page in the new language straight away
+    applyLocale(ctx, chosen);
+    const label = chosen
+      ? LANGUAGES[chosen]
+      : ctx.t('settings.languageAuto', { language: LANGUAGES[ctx.locale] });
+    await showSettingsPage(ctx, ctx.t('settings.languageSet', { language: label }));
+    return;
+  }
+
+  await ctx.editMessageText(ctx.t('settings.languagePage'), {
+    parse_mode: 'HTML',
+    reply_markup: NavigationKeyboards.languageSettings(ctx.t, preferences.language),
+  });
+}
+
+/**
+ * Show the theme picker, or switch theme and return to settings
+ */
+async function handleThemeSettings(ctx: BotContext, theme?: string): Promise<void> {
+  const user = ctx.session.user;
+  if (!user) return;
+
+  const preferencesService = container.getPreferencesService();
+  const telegramId = user.telegramId.toString();
+  const preferences = await preferencesService.get(telegramId);
+
+  if (isTheme(theme)) {
+    await preferencesService.save(user.id, telegramId, preferences.withTheme(theme));
+    await showSettingsPage(ctx, ctx.t('settings.themeSet', { theme: ctx.t(`theme.${theme}`) }));
+    return;
+  }
+
+  await ctx.editMessageText(ctx.t('settings.themePage'), {
+    parse_mode: 'HTML',
+    reply_markup: NavigationKeyboards.themeSettings(ctx.t, preferences.theme),
+  });
+}
+
+/**
+ * Show the clear data options, or start the chosen wipe by asking for a
+ * final confirmation
+ */
+async function handleClearData(ctx: BotContext, wipeAction?: string): Promise<void> {
+  const user = ctx.session.user;
+  if (!user) return;
 
-  await ctx.editMessageText(detailedText, {
+  if (!isAccountWipeAction(wipeAction)) {
+    await ctx.editMessageText(ctx.t('settings.clearPage'), {
+      parse_mode: 'HTML',
+      reply_markup: NavigationKeyboards.clearDataPage(ctx.t),
+    });
+    return;
+  }
+
+  let token: string;
+  try {
+    token = await container.getAccountService().requestWipe(user.id, user.telegramId, wipeAction);
+  } catch (error) {
+    if (!(error instanceof AccountCooldownError)) throw error;
+    await showClearCooldown(ctx, error);
+    return;
+  }
+
+  const confirmText = ctx.t(
+    wipeAction === 'delete' ? 'settings.deleteConfirm' : 'settings.resetConfirm',
+    { score: user.score },
+  );
+  await ctx.editMessageText(confirmText, {
     parse_mode: 'HTML',
-    reply_markup: NavigationKeyboards.backButton('stats'),
+    reply_markup: NavigationKeyboards.confirmation(ctx.t, `cleardata:${wipeAction}:${token}`),
+  });
+}
+
+async function showClearCooldown(ctx: BotContext, error: AccountCooldownError): Promise<void> {
+  const date = error.retryAfter.toLocaleString(ctx.locale, {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  });
+  await showSettingsPage(ctx, ctx.t('settings.clearCooldown', { date }));
+}
+
+/**
+ * Handle confirmations
+ */
+async function handleConfirmation(
+  ctx: BotContext,
+  action: string,
+  params: string[],
+): Promise<void> {
+  if (action === 'clan_leave') {
+    await handleClanLeave(ctx);
+    return;
+  }
+
+  const [wipeAction, token] = params;
+  const user = ctx.session.user;
+
+  if (action !== 'cleardata' || !user || !isAccountWipeAction(wipeAction) || !token) {
+    await showMainMenu(ctx);
+    return;
+  }
+
+  let confirmed: boolean;
+  try {
+    confirmed = await container
+      .getAccountService()
+      .confirmWipe(user.id, user.telegramId, wipeAction, token);
+  } catch (error) {
+    if (!(error instanceof AccountCooldownError)) throw error;
+    await showClearCooldown(ctx, error);
+    return;
+  }
+
+  if (!confirmed) {
+    await showSettingsPage(ctx, ctx.t('settings.clearExpired'));
+    return;
+  }
+
+  // The stored sessions are gone; the next update starts a fresh one
+  ctx.session.session = undefined;
+
+  if (wipeAction === 'delete') {
+    ctx.session.user = undefined;
+    await ctx.editMessageText(ctx.t('settings.deleted'), { parse_mode: 'HTML' });
+    return;
+  }
+
+  user.score = BigInt(0);
+  Object.assign(ctx.session, Combo.empty().toSnapshot());
+  await showSettingsPage(ctx, ctx.t('settings.resetDone'));
+}
+
+const CHART_WIDTH = 10;
+
+/**
+ * One bar per day (per active hour for a single day), scaled to the busiest
+ */
+function formatHistoryChart(ctx: BotContext, history: ClickHistory): string {
+  const rows =
+    history.period === 'day'
+      ? history
+          .hourOfDayTotals()
+          .map((clicks, hour) => ({ label: `${String(hour).padStart(2, '0')}:00`, clicks }))
+          .filter(({ clicks }) => clicks > 0)
+      : history.dailyTotals().map(({ day, clicks }) => ({
+          label: day.toLocaleDateString(ctx.locale, {
+            weekday: 'short',
+            day: 'numeric',
+            timeZone: 'UTC',
+          }),
+          clicks,
+        }));
+  const most = Math.max(0, ...rows.map(({ clicks }) => clicks));
+  if (most === 0) return ctx.t('stats.noClicks');
+
+  const lines = rows.map(({ label, clicks }) => {
+    const filled = Math.round((clicks / most) * CHART_WIDTH);
+    const bar = '▓'.repeat(filled) + '░'.repeat(CHART_WIDTH - filled);
+    return `<code>${label.padEnd(7)} ${bar}</code> ${formatNumber(ctx.locale, clicks)}`;
+  });
+  return lines.join('\n');
+}
+
+function formatHistoryRange(ctx: BotContext, history: ClickHistory): string {
+  const format = (date: Date, options: Intl.DateTimeFormatOptions) =>
+    date.toLocaleDateString(ctx.locale, { ...options, timeZone: 'UTC' });
+
+  switch (history.period) {
+    case 'day':
+      return format(history.start, { dateStyle: 'medium' });
+    case 'week': {
+      const lastDay = new Date(history.end.getTime() - 86400000);
+      return `${format(history.start, { dateStyle: 'medium' })} – ${format(lastDay, { dateStyle: 'medium' })}`;
+    }
+    case 'month':
+      return format(history.start, { month: 'long', year: 'numeric' });
+  }
+}
+
+/**
+ * Show detailed stats for a day, week or month, `offset` periods back
+ */
+async function showDetailedStats(
+  ctx: BotContext,
+  period: StatsPeriod = 'week',
+  offset: number = 0,
+): Promise<void> {
+  const user = ctx.session.user;
+  if (!user) return;
+
+  const statisticsService = container.getStatisticsService();
+  const history = await statisticsService.getHistory(user.id, period, offset);
+
+  const change = history.changePercent();
+  const bestDay = history.bestDay();
+  const busiestHour = history.busiestHour();
+  const none = ctx.t('stats.none');
+
+  const message = ctx.t('stats.detailed', {
+    range: formatHistoryRange(ctx, history),
+    chart: formatHistoryChart(ctx, history),
+    total: history.total,
+    change:
+      change === null
+        ? ''
+        : ctx.t(`stats.change.${period}`, { change: `${change > 0 ? '+' : ''}${change}` }),
+    bestDay: bestDay
+      ? ctx.t('stats.bestDay', {
+          day: bestDay.day.toLocaleDateString(ctx.locale, {
+            weekday: 'short',
+            day: 'numeric',
+            month: 'short',
+            timeZone: 'UTC',
+          }),
+          clicks: bestDay.clicks,
+        })
+      : none,
+    average: history.averagePerSession(),
+    sessions: ctx.t('stats.sessions', { count: history.sessions }),
+    busiestHour:
+      busiestHour === null
+        ? none
+        : ctx.t('stats.busiestHour', {
+            from: String(busiestHour).padStart(2, '0'),
+            to: String((busiestHour + 1) % 24).padStart(2, '0'),
+          }),
+  });
+
+  await ctx.editMessageText(message, {
+    parse_mode: 'HTML',
+    reply_markup: NavigationKeyboards.detailedStatsPage(
+      ctx.t,
+      period,
+      offset,
+      history.start.getTime() > user.createdAt.getTime(),
+    ),
+  });
+}
+
+/**
+ * Send the charts for the period shown on the detailed stats page
+ */
+async function sendStatsCharts(ctx: BotContext, params: string[]): Promise<void> {
+  const user = ctx.session.user;
+  const chatId = ctx.chat?.id;
+  if (!user || !chatId) return;
+
+  const period = isStatsPeriod(params[0]) ? params[0] : 'week';
+  const offset = Math.max(parseInt(params[1] || '0', 10) || 0, 0);
+  const history = await container.getStatisticsService().getHistory(user.id, period, offset);
+  const range = formatHistoryRange(ctx, history);
+
+  await container.getProgressChartService().sendCharts(user.id, chatId.toString(), period, offset, {
+    score: ctx.t('stats.chartScoreCaption', { range }),
+    clicks: ctx.t('stats.chartClicksCaption', { range }),
   });
 }
 
@@ -561,23 +1295,36 @@ async function showAchievements(ctx: BotContext): Promise<void> {
   const user = ctx.session.user;
   if (!user) return;
 
+  const achievementService = container.getAchievementService();
+  const progress = await achievementService.getProgress(user.id);
+  const unlockedCount = progress.filter(({ unlocked }) => unlocked).length;
   const score = Number(user.score);
 
-  const achievementsText = `
-🏆 <b>ACHIEVEMENTS</b> 🏆
-
-${score >= 100 ? '✅' : '⬜'} First Century - 100 points
-${score >= 1000 ? '✅' : '⬜'} Thousand Club - 1,000 points
-${score >= 10000 ? '✅' : '⬜'} Ten K Master - 10,000 points
-${score >= 100000 ? '✅' : '⬜'} Hundred K Legend - 100,000 points
-${score >= 1000000 ? '✅' : '⬜'} Millionaire - 1,000,000 points
-
-Your Progress: ${score >= 1000000 ? '🏆 LEGEND!' : score >= 100000 ? '🥇 Master' : score >= 10000 ? '🥈 Expert' : score >= 1000 ? '🥉 Advanced' : score >= 100 ? '⭐ Beginner' : '🌱 Newcomer'}
-  `.trim();
+  const tier =
+    score >= 1000000
+      ? 'legend'
+      : score >= 100000
+        ? 'master'
+        : score >= 10000
+          ? 'expert'
+          : score >= 1000
+            ? 'advanced'
+            : score >= 100
+              ? 'beginner'
+              : 'newcomer';
+
+  const achievementsText = ctx.t('achievements.page', {
+    list: progress
+      .map(({ achievement, unlocked }) => achievement.format(unlocked, ctx.t))
+      .join('\n'),
+    unlocked: unlockedCount,
+    total: progress.length,
+    tier: ctx.t(`achievements.tier.${tier}`),
+  });
 
   await ctx.editMessageText(achievementsText, {
     parse_mode: 'HTML',
-    reply_markup: NavigationKeyboards.backButton('stats'),
+    reply_markup: NavigationKeyboards.backButton(ctx.t, 'stats'),
   });
 }
 
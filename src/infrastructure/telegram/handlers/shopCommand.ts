@@ -0,0 +1,33 @@
+import type { CommandHandler } from '../types';
+import { container } from '../../../shared/container/DIContainer';
+import { NavigationKeyboards } from '../keyboards/navigationKeyboard';
+
+export const shopCommand: CommandHandler = async (ctx) => {
+  const user = ctx.session.user;
+  const chatId = ctx.chat?.id.toString();
+
+  if (!user || !chatId) {
+    if (chatId) {
+      const queuedMessageService = container.getQueuedMessageService();
+      await queuedMessageService.sendMessage(chatId, ctx.t('common.useStart'));
+    }
+    return;
+  }
+
+  const queuedMessageService = container.getQueuedMessageService();
+  const upgradeService = container.getUpgradeService();
+
+  const shop = await upgradeService.getShop(user.id);
+  user.score = await upgradeService.getBalance(user.id);
+
+  const shopMessage = ctx.t('shop.page', {
+    notice: '',
+    points: user.score,
+    upgrades: shop.map(({ upgrade, level }) => upgrade.format(level, ctx.t)).join('\n\n'),
+  });
+
+  await queuedMessageService.sendMessage(chatId, shopMessage, {
+    parse_mode: 'HTML',
+    reply_markup: NavigationKeyboards.shopPage(ctx.t, shop),
+  });
+};
@@ -1,12 +1,16 @@
 import { InlineKeyboard } from 'grammy';
 import type { CommandHandler } from '../types';
-import { EMOJIS } from '../../../shared/constants';
 import { container } from '../../../shared/container/DIContainer';
+import { CHALLENGE_PREFIX } from './inlineQueryHandler';
+import { REFERRAL_PREFIX, REFERRAL_REWARDS } from '../../../application/services/ReferralService';
+import { CLAN_INVITE_PREFIX } from '../../../application/services/ClanService';
+import { ClanActionError, ReferralNotAllowedError } from '../../../shared/errors';
+import { formatClanError } from './clanCommand';
 
 export const startCommand: CommandHandler = async (ctx) => {
   const user = ctx.session.user;
   if (!user) {
-    await ctx.reply('Error: User not found. Please try again.');
+    await ctx.reply(ctx.t('start.userNotFound'));
     return;
   }
 
@@ -15,32 +19,63 @@ export const startCommand: CommandHandler = async (ctx) => {
 
   const queuedMessageService = container.getQueuedMessageService();
 
-  const welcomeMessage = `
-${EMOJIS.ROCKET} <b>Welcome to Telegram Clicker Bot!</b> ${EMOJIS.ROCKET}
+  // Starting the bot again undoes a block, so messages can reach them again
+  await container.getUserStatusService().markReachable(user.telegramId.toString());
 
-Hello, ${user.getDisplayName()}!
-
-${EMOJIS.CLICK} Click to earn points and climb the leaderboard!
-${EMOJIS.TROPHY} Compete with other players
-${EMOJIS.FIRE} Show your clicking skills!
+  let welcomeMessage = ctx.t('start.welcome', {
+    name: user.getDisplayName(),
+    score: user.score,
+  });
 
-Your current score: <b>${user.score}</b> points
+  // Opened from a challenge link shared through inline mode
+  const payload = typeof ctx.match === 'string' ? ctx.match.trim() : '';
+  const challengerId = payload.startsWith(CHALLENGE_PREFIX)
+    ? payload.slice(CHALLENGE_PREFIX.length)
+    : null;
+  if (challengerId && challengerId !== user.id) {
+    const leaderboardRepo = container.getLeaderboardRepository();
+    const challengerName = await leaderboardRepo.getUserData(challengerId);
+    if (challengerName) {
+      const challengerScore = await leaderboardRepo.getUserScore(challengerId);
+      welcomeMessage += `\n\n${ctx.t('start.challenged', { name: challengerName, score: challengerScore })}`;
+    }
+  }
 
-<b>Available Commands:</b>
-/click - ${EMOJIS.CLICK} Start clicking
-/leaderboard - ${EMOJIS.TROPHY} View top players
-/stats - ${EMOJIS.STAR} Your statistics
-/changename - ${EMOJIS.INFO} Change display name
-/help - ${EMOJIS.INFO} Show help
+  // Opened from another player's referral link
+  if (payload.startsWith(REFERRAL_PREFIX)) {
+    try {
+      const inviterName = await container
+        .getReferralService()
+        .register(user, payload.slice(REFERRAL_PREFIX.length));
+      welcomeMessage += `\n\n${ctx.t('referral.joined', {
+        name: inviterName,
+        threshold: REFERRAL_REWARDS.threshold,
+        bonus: REFERRAL_REWARDS.invitee,
+      })}`;
+    } catch (error) {
+      if (!(error instanceof ReferralNotAllowedError)) throw error;
+      welcomeMessage += `\n\n${ctx.t(`referral.rejected.${error.reason}`)}`;
+    }
+  }
 
-Let's start clicking! ${EMOJIS.PARTY}
-  `.trim();
+  // Opened from a clan invite link
+  if (payload.startsWith(CLAN_INVITE_PREFIX)) {
+    try {
+      const clan = await container
+        .getClanService()
+        .join(user.id, payload.slice(CLAN_INVITE_PREFIX.length));
+      welcomeMessage += `\n\n${ctx.t('clan.joined', { name: clan.name })}`;
+    } catch (error) {
+      if (!(error instanceof ClanActionError)) throw error;
+      welcomeMessage += `\n\n${formatClanError(ctx.t, error)}`;
+    }
+  }
 
   const keyboard = new InlineKeyboard()
-    .text(`${EMOJIS.CLICK} Start Clicking`, 'click')
+    .text(ctx.t('buttons.startClicking'), 'click')
     .row()
-    .text(`${EMOJIS.TROPHY} Leaderboard`, 'leaderboard')
-    .text(`${EMOJIS.STAR} My Stats`, 'stats');
+    .text(ctx.t('buttons.leaderboard'), 'leaderboard')
+    .text(ctx.t('buttons.myStats'), 'stats');
 
   await queuedMessageService.sendPriorityMessage(chatId, welcomeMessage, {
     parse_mode: 'HTML',
@@ -1,6 +1,7 @@
 import type { CommandHandler } from '../types';
 import { container } from '../../../shared/container/DIContainer';
 import { EMOJIS } from '../../../shared/constants';
+import { badgeEmoji } from '../../../domain/value-objects/Season';
 
 export const statsCommand: CommandHandler = async (ctx) => {
   const user = ctx.session.user;
@@ -10,7 +11,7 @@ export const statsCommand: CommandHandler = async (ctx) => {
   if (!user || !session || !chatId) {
     if (chatId) {
       const queuedMessageService = container.getQueuedMessageService();
-      await queuedMessageService.sendMessage(chatId, 'Please use /start to begin the game.');
+      await queuedMessageService.sendMessage(chatId, ctx.t('common.useStart'));
     }
     return;
   }
@@ -23,36 +24,59 @@ export const statsCommand: CommandHandler = async (ctx) => {
   const userRank = await leaderboardRepo.getUserRank(user.id);
   const pendingClicks = await clickRepo.getPendingClicks(user.id);
   const activeSessions = await sessionRepo.getUserSessions(user.id);
+  const rankDayAgo = await container.getLeaderboardSnapshotService().getRankAgo(user.id);
+
+  const seasonService = container.getSeasonService();
+  const season = await seasonService.getCurrent();
+  const seasonRank = await leaderboardRepo.getUserRank(user.id, 'season');
+  const seasonScore = await leaderboardRepo.getUserScore(user.id, 'season');
+  const badges = await seasonService.getBadges(user.id);
 
   const timePlaying = Date.now() - user.createdAt.getTime();
   const daysPlaying = Math.floor(timePlaying / (1000 * 60 * 60 * 24));
   const hoursPlaying = Math.floor(timePlaying / (1000 * 60 * 60)) % 24;
 
-  const statsMessage = `
-${EMOJIS.STAR} <b>YOUR STATISTICS</b> ${EMOJIS.STAR}
-
-<b>Player:</b> ${user.getDisplayName()}
-<b>ID:</b> <code>${user.telegramId}</code>
-
-${EMOJIS.TROPHY} <b>Score & Ranking</b>
-Total Score: <b>${user.score}</b> points
-Global Rank: <b>#${userRank || 'Unranked'}</b>
-Pending Clicks: <b>${pendingClicks}</b>
-
-${EMOJIS.CLICK} <b>Session Stats</b>
-Current Session: <b>${session.clickCount}</b> clicks
-Active Sessions: <b>${activeSessions.length}</b>
-Session Started: <b>${session.createdAt.toLocaleTimeString()}</b>
-
-${EMOJIS.INFO} <b>Account Info</b>
-Playing for: <b>${daysPlaying}d ${hoursPlaying}h</b>
-Joined: <b>${user.createdAt.toLocaleDateString()}</b>
-Last Updated: <b>${user.updatedAt.toLocaleTimeString()}</b>
-
-${EMOJIS.FIRE} Keep clicking to climb the ranks!
-  `.trim();
+  const statsMessage = ctx.t('stats.full', {
+    name: user.getDisplayName(),
+    id: user.telegramId.toString(),
+    score: user.score,
+    rank: userRank ? `#${userRank}` : ctx.t('stats.unranked'),
+    rankAgo: rankDayAgo
+      ? `#${rankDayAgo}${formatRankChange(rankDayAgo, userRank)}`
+      : ctx.t('stats.notAvailable'),
+    pending: pendingClicks,
+    seasonNumber: season.number,
+    seasonScore,
+    seasonRank: seasonRank ? `#${seasonRank}` : ctx.t('stats.unranked'),
+    seasonEnds: season.endsAt.toLocaleDateString(ctx.locale),
+    badges:
+      badges.length > 0
+        ? badges
+            .map(({ seasonNumber, rank }) =>
+              ctx.t('season.badge', { emoji: badgeEmoji(rank), number: seasonNumber }),
+            )
+            .join(' ')
+        : ctx.t('stats.none'),
+    sessionClicks: session.clickCount,
+    activeSessions: activeSessions.length,
+    sessionStarted: session.createdAt.toLocaleTimeString(ctx.locale),
+    days: daysPlaying,
+    hours: hoursPlaying,
+    joined: user.createdAt.toLocaleDateString(ctx.locale),
+    updated: user.updatedAt.toLocaleTimeString(ctx.locale),
+  });
 
   await queuedMessageService.sendMessage(chatId, statsMessage, {
     parse_mode: 'HTML',
   });
 };
+
+/**
+ * Describe movement from a previous rank, e.g. " (⬆️ 3)"
+ */
+function formatRankChange(previousRank: number, currentRank: number | null): string {
+  if (!currentRank || currentRank === previousRank) return '';
+  return currentRank < previousRank
+    ? ` (${EMOJIS.UP_ARROW} ${previousRank - currentRank})`
+    : ` (${EMOJIS.DOWN_ARROW} ${currentRank - previousRank})`;
+}
@@ -1,133 +1,443 @@
 import { InlineKeyboard } from 'grammy';
-import { EMOJIS } from '../../../shared/constants';
+import type { TranslateFn } from '../../../shared/i18n';
+import type { Upgrade } from '../../../domain/value-objects/Upgrade';
+import {
+  LANGUAGES,
+  NOTIFICATION_CATEGORIES,
+  THEMES,
+  type Language,
+  type Preferences,
+  type Theme,
+} from '../../../domain/value-objects/Preferences';
+import { STATS_PERIODS, type StatsPeriod } from '../../../domain/value-objects/ClickHistory';
+import { canChangeRole, canKick, type ClanRole } from '../../../domain/value-objects/Clan';
+import {
+  LEADERBOARD_PERIODS,
+  type LeaderboardPeriod,
+} from '../../../domain/repositories/ILeaderboardRepository';
 
+/**
+ * A player leaderboard period, or the clan leaderboard
+ */
+export type LeaderboardView = LeaderboardPeriod | 'clans';
+
+function tabLabel(label: string, active: boolean): string {
+  return active ? `• ${label} •` : label;
+}
+
+/**
+ * Append one button per leaderboard period, two per row, then the clan
+ * board, marking the active one
+ */
+function addLeaderboardTabs(
+  t: TranslateFn,
+  keyboard: InlineKeyboard,
+  view: LeaderboardView,
+): InlineKeyboard {
+  LEADERBOARD_PERIODS.forEach((tab, index) => {
+    keyboard.text(
+      tabLabel(t(`leaderboard.period.${tab}`), tab === view),
+      `page:leaderboard:1:${tab}`,
+    );
+    if (index % 2 === 1) keyboard.row();
+  });
+  return keyboard
+    .text(tabLabel(t('leaderboard.clansTab'), view === 'clans'), 'page:leaderboard:1:clans')
+    .row();
+}
+
+function onOff(t: TranslateFn, enabled: boolean): { icon: string; status: string } {
+  return { icon: enabled ? '🔔' : '🔕', status: t(enabled ? 'common.on' : 'common.off') };
+}
+
+/**
+ * Keyboards take the context's translator so labels follow the user's locale
+ */
 export const NavigationKeyboards = {
   /**
    * Main menu keyboard
    */
-  mainMenu: () =>
+  mainMenu: (t: TranslateFn) =>
     new InlineKeyboard()
-      .text(`${EMOJIS.CLICK} Start Clicking`, 'menu:click')
-      .text(`${EMOJIS.TROPHY} Leaderboard`, 'menu:leaderboard')
+      .text(t('buttons.startClicking'), 'menu:click')
+      .text(t('buttons.leaderboard'), 'menu:leaderboard')
       .row()
-      .text(`${EMOJIS.STAR} My Stats`, 'menu:stats')
-      .text(`${EMOJIS.INFO} Help`, 'menu:help')
+      .text(t('buttons.myStats'), 'menu:stats')
+      .text(t('buttons.help'), 'menu:help')
       .row()
-      .text(`✏️ Change Name`, 'menu:changename')
-      .text(`⚙️ Settings`, 'menu:settings'),
+      .text(t('buttons.dailyReward'), 'menu:daily')
+      .text(t('buttons.shop'), 'menu:shop')
+      .row()
+      .text(t('buttons.changeName'), 'menu:changename')
+      .text(t('buttons.settings'), 'menu:settings')
+      .row()
+      .text(t('buttons.clan'), 'menu:clan')
+      .text(t('buttons.referrals'), 'menu:referrals'),
 
   /**
    * Click page keyboard
    */
-  clickPage: (canClick: boolean) => {
+  clickPage: (t: TranslateFn, canClick: boolean, theme: Theme = 'classic') => {
     const keyboard = new InlineKeyboard();
 
     if (canClick) {
-      keyboard.text(`${EMOJIS.CLICK} Click! ${EMOJIS.CLICK}`, 'action:click').row().row();
+      keyboard
+        .text(t('click.button', { emoji: THEMES[theme].emoji }), 'action:click')
+        .row()
+        .row();
     } else {
-      keyboard.text('⏳ Rate Limited - Please Wait', 'action:wait').row();
+      keyboard.text(t('click.rateLimitedButton'), 'action:wait').row();
     }
 
     return keyboard
-      .text(`${EMOJIS.TROPHY} Leaderboard`, 'menu:leaderboard')
-      .text(`${EMOJIS.STAR} My Stats`, 'menu:stats')
+      .text(t('buttons.leaderboard'), 'menu:leaderboard')
+      .text(t('buttons.myStats'), 'menu:stats')
       .row()
-      .text('🏠 Main Menu', 'menu:main');
+      .text(t('buttons.mainMenu'), 'menu:main');
   },
 
+  /**
+   * Leaderboard tabs (all-time, today, this week, this month, clans)
+   */
+  leaderboardTabs: (t: TranslateFn, period: LeaderboardPeriod = 'global') =>
+    addLeaderboardTabs(t, new InlineKeyboard(), period),
+
   /**
    * Leaderboard page keyboard
    */
-  leaderboardPage: (currentPage: number = 1, hasMore: boolean = false) => {
-    const keyboard = new InlineKeyboard();
+  leaderboardPage: (
+    t: TranslateFn,
+    currentPage: number = 1,
+    hasMore: boolean = false,
+    period: LeaderboardView = 'global',
+  ) => {
+    const keyboard = addLeaderboardTabs(t, new InlineKeyboard(), period);
 
     if (currentPage > 1 || hasMore) {
-      keyboard.row();
       if (currentPage > 1) {
-        keyboard.text('⬅️ Previous', `page:leaderboard:${currentPage - 1}`);
+        keyboard.text(t('buttons.previous'), `page:leaderboard:${currentPage - 1}:${period}`);
       }
-      keyboard.text(`📄 Page ${currentPage}`, 'action:current');
+      keyboard.text(t('leaderboard.pageButton', { page: currentPage }), 'action:current');
       if (hasMore) {
-        keyboard.text('➡️ Next', `page:leaderboard:${currentPage + 1}`);
+        keyboard.text(t('buttons.next'), `page:leaderboard:${currentPage + 1}:${period}`);
       }
       keyboard.row();
     }
 
     return keyboard
-      .text('📊 My Position', 'action:myposition')
+      .text(t('leaderboard.myPositionButton'), 'action:myposition')
       .row()
-      .text(`${EMOJIS.CLICK} Click`, 'menu:click')
-      .text(`${EMOJIS.STAR} My Stats`, 'menu:stats')
+      .text(t('buttons.click'), 'menu:click')
+      .text(t('buttons.myStats'), 'menu:stats')
       .row()
-      .text('🏠 Main Menu', 'menu:main');
+      .text(t('buttons.mainMenu'), 'menu:main');
   },
 
   /**
    * Stats page keyboard
    */
-  statsPage: () =>
+  statsPage: (t: TranslateFn) =>
     new InlineKeyboard()
       .row()
-      .text('📈 Detailed Stats', 'menu:detailed_stats')
-      .text('🏆 Achievements', 'menu:achievements')
+      .text(t('stats.detailedButton'), 'menu:detailed_stats')
+      .text(t('stats.achievementsButton'), 'menu:achievements')
+      .row()
+      .text(t('buttons.click'), 'menu:click')
+      .text(t('buttons.leaderboard'), 'menu:leaderboard')
+      .row()
+      .text(t('buttons.mainMenu'), 'menu:main'),
+
+  /**
+   * Detailed stats keyboard: period tabs and paging to older periods
+   */
+  detailedStatsPage: (t: TranslateFn, period: StatsPeriod, offset: number, hasOlder: boolean) => {
+    const keyboard = new InlineKeyboard();
+
+    STATS_PERIODS.forEach((tab) => {
+      const label = t(`stats.period.${tab}`);
+      keyboard.text(tab === period ? `• ${label} •` : label, `page:stats:0:${tab}`);
+    });
+    keyboard.row();
+    if (hasOlder) {
+      keyboard.text(t('stats.olderButton'), `page:stats:${offset + 1}:${period}`);
+    }
+    if (offset > 0) {
+      keyboard.text(t('stats.newerButton'), `page:stats:${offset - 1}:${period}`);
+    }
+
+    return keyboard
+      .row()
+      .text(t('stats.chartsButton'), `action:charts:${period}:${offset}`)
+      .row()
+      .text(t('buttons.back'), 'menu:stats')
+      .text(t('buttons.mainMenu'), 'menu:main');
+  },
+
+  /**
+   * Shop keyboard, one buy button per upgrade that is not maxed out
+   */
+  shopPage: (t: TranslateFn, shop: Array<{ upgrade: Upgrade; level: number }>) => {
+    const keyboard = new InlineKeyboard();
+
+    for (const { upgrade, level } of shop) {
+      if (upgrade.isMaxed(level)) continue;
+      keyboard
+        .text(
+          t('shop.buyButton', {
+            emoji: upgrade.emoji,
+            title: t(upgrade.title),
+            price: upgrade.getPrice(level),
+          }),
+          `action:buy:${upgrade.id}`,
+        )
+        .row();
+    }
+
+    return keyboard
+      .text(t('buttons.click'), 'menu:click')
+      .text(t('buttons.myStats'), 'menu:stats')
+      .row()
+      .text(t('buttons.mainMenu'), 'menu:main');
+  },
+
+  /**
+   * Daily reward keyboard
+   */
+  dailyPage: (t: TranslateFn, canClaim: boolean, remindersEnabled: boolean) => {
+    const keyboard = new InlineKeyboard();
+
+    if (canClaim) {
+      keyboard.text(t('daily.claimButton'), 'action:daily_claim').row();
+    }
+
+    return keyboard
+      .text(t('daily.remindersButton', onOff(t, remindersEnabled)), 'action:daily_reminders')
+      .row()
+      .text(t('buttons.click'), 'menu:click')
+      .text(t('buttons.shop'), 'menu:shop')
+      .row()
+      .text(t('buttons.mainMenu'), 'menu:main');
+  },
+
+  /**
+   * Referrals page keyboard: opens Telegram's share dialog with the invite link
+   */
+  referralsPage: (t: TranslateFn, link: string) =>
+    new InlineKeyboard()
+      .url(
+        t('referral.shareButton'),
+        `https://t.me/share/url?url=${encodeURIComponent(link)}&text=${encodeURIComponent(t('referral.shareText'))}`,
+      )
       .row()
-      .text(`${EMOJIS.CLICK} Click`, 'menu:click')
-      .text(`${EMOJIS.TROPHY} Leaderboard`, 'menu:leaderboard')
+      .text(t('buttons.mainMenu'), 'menu:main'),
+
+  /**
+   * Clan page keyboard. Without an invite link the player has no clan.
+   */
+  clanPage: (t: TranslateFn, inviteLink: string | null, clanName?: string) => {
+    const keyboard = new InlineKeyboard();
+
+    if (inviteLink) {
+      keyboard
+        .url(
+          t('clan.shareButton'),
+          `https://t.me/share/url?url=${encodeURIComponent(inviteLink)}&text=${encodeURIComponent(t('clan.shareText', { name: clanName ?? '' }))}`,
+        )
+        .row()
+        .text(t('clan.membersButton'), 'menu:clan_members')
+        .text(t('clan.leaveButton'), 'action:clan_leave')
+        .row();
+    }
+
+    return keyboard
+      .text(t('clan.leaderboardButton'), 'page:leaderboard:1:clans')
       .row()
-      .text('🏠 Main Menu', 'menu:main'),
+      .text(t('buttons.mainMenu'), 'menu:main');
+  },
+
+  /**
+   * Clan roster keyboard: one button per member the viewer can manage
+   */
+  clanMembers: (
+    t: TranslateFn,
+    viewerRole: ClanRole,
+    members: ReadonlyArray<{ userId: string; name: string; role: ClanRole }>,
+  ) => {
+    const keyboard = new InlineKeyboard();
+
+    members
+      .filter(({ role }) => canKick(viewerRole, role) || canChangeRole(viewerRole, role, 'officer'))
+      .forEach(({ userId, name }) => {
+        keyboard.text(t('clan.manageButton', { name }), `action:clan_member:${userId}`).row();
+      });
+
+    return keyboard.text(t('buttons.back'), 'menu:clan').text(t('buttons.mainMenu'), 'menu:main');
+  },
+
+  /**
+   * Actions on one clan member, limited to what the viewer's role allows
+   */
+  clanMember: (
+    t: TranslateFn,
+    viewerRole: ClanRole,
+    member: { userId: string; role: ClanRole },
+  ) => {
+    const keyboard = new InlineKeyboard();
+
+    if (canChangeRole(viewerRole, member.role, 'officer')) {
+      keyboard.text(t('clan.promoteButton'), `action:clan_promote:${member.userId}`).row();
+    }
+    if (canChangeRole(viewerRole, member.role, 'member')) {
+      keyboard.text(t('clan.demoteButton'), `action:clan_demote:${member.userId}`).row();
+    }
+    if (canKick(viewerRole, member.role)) {
+      keyboard.text(t('clan.kickButton'), `action:clan_kick:${member.userId}`).row();
+    }
+
+    return keyboard
+      .text(t('buttons.back'), 'menu:clan_members')
+      .text(t('buttons.mainMenu'), 'menu:main');
+  },
+
+  /**
+   * Duel challenge keyboard for the challenged player
+   */
+  duelInvite: (t: TranslateFn, duelId: string) =>
+    new InlineKeyboard()
+      .text(t('duel.acceptButton'), `action:duel_accept:${duelId}`)
+      .text(t('duel.declineButton'), `action:duel_decline:${duelId}`),
+
+  /**
+   * Sent to both players when a duel starts
+   */
+  duelStarted: (t: TranslateFn) =>
+    new InlineKeyboard().text(t('buttons.startClicking'), 'menu:click'),
 
   /**
    * Help page keyboard
    */
-  helpPage: () =>
+  helpPage: (t: TranslateFn) =>
     new InlineKeyboard()
-      .text('🎮 How to Play', 'help:howto')
-      .text('📜 Rules', 'help:rules')
+      .text(t('help.howtoButton'), 'help:howto')
+      .text(t('help.rulesButton'), 'help:rules')
       .row()
-      .text('⚡ Commands', 'help:commands')
-      .text('❓ FAQ', 'help:faq')
+      .text(t('help.commandsButton'), 'help:commands')
+      .text(t('help.faqButton'), 'help:faq')
       .row()
-      .text(`${EMOJIS.CLICK} Start Playing`, 'menu:click')
+      .text(t('buttons.startPlaying'), 'menu:click')
       .row()
-      .text('🏠 Main Menu', 'menu:main'),
+      .text(t('buttons.mainMenu'), 'menu:main'),
 
   /**
    * Settings page keyboard
    */
-  settingsPage: (notifications: boolean = true) =>
+  settingsPage: (t: TranslateFn, notifications: boolean = true) =>
     new InlineKeyboard()
+      .text(t('settings.notificationsButton', onOff(t, notifications)), 'settings:notifications')
+      .row()
+      .text(t('settings.languageButton'), 'settings:language')
+      .text(t('settings.themeButton'), 'settings:theme')
+      .row()
+      .text(t('settings.profileButton'), 'settings:profile')
+      .text(t('settings.clearButton'), 'settings:clear')
+      .row()
+      .text(t('buttons.mainMenu'), 'menu:main'),
+
+  /**
+   * Notification settings keyboard: master switch plus one toggle per category
+   */
+  notificationSettings: (t: TranslateFn, preferences: Preferences) => {
+    const keyboard = new InlineKeyboard()
       .text(
-        `${notifications ? '🔔' : '🔕'} Notifications: ${notifications ? 'ON' : 'OFF'}`,
-        'settings:notifications',
+        t('settings.allNotificationsButton', onOff(t, preferences.notificationsEnabled)),
+        'settings:notifications:all',
       )
+      .row();
+
+    for (const category of NOTIFICATION_CATEGORIES) {
+      keyboard
+        .text(
+          t('settings.categoryButton', {
+            category: t(`notifications.${category}`),
+            status: onOff(t, preferences.notifications[category]).status,
+          }),
+          `settings:notifications:${category}`,
+        )
+        .row();
+    }
+
+    return keyboard
+      .text(t('buttons.back'), 'menu:settings')
+      .text(t('buttons.mainMenu'), 'menu:main');
+  },
+
+  /**
+   * Language picker. "Automatic" follows the Telegram client language.
+   */
+  languageSettings: (t: TranslateFn, current: Language | null) => {
+    const autoLabel = t('settings.autoLanguageButton');
+    const keyboard = new InlineKeyboard()
+      .text(current === null ? `• ${autoLabel} •` : autoLabel, 'settings:language:auto')
+      .row();
+
+    for (const [code, label] of Object.entries(LANGUAGES)) {
+      keyboard.text(code === current ? `• ${label} •` : label, `settings:language:${code}`).row();
+    }
+
+    return keyboard
+      .text(t('buttons.back'), 'menu:settings')
+      .text(t('buttons.mainMenu'), 'menu:main');
+  },
+
+  /**
+   * Theme picker
+   */
+  themeSettings: (t: TranslateFn, current: Theme) => {
+    const keyboard = new InlineKeyboard();
+
+    for (const name of Object.keys(THEMES) as Theme[]) {
+      const label = t(`theme.${name}`);
+      keyboard.text(name === current ? `• ${label} •` : label, `settings:theme:${name}`).row();
+    }
+
+    return keyboard
+      .text(t('buttons.back'), 'menu:settings')
+      .text(t('buttons.mainMenu'), 'menu:main');
+  },
+
+  /**
+   * Clear data options
+   */
+  clearDataPage: (t: TranslateFn) =>
+    new InlineKeyboard()
+      .text(t('settings.resetButton'), 'settings:clear:reset')
       .row()
-      .text('🌍 Language', 'settings:language')
-      .text('🎨 Theme', 'settings:theme')
-      .row()
-      .text('👤 Profile', 'settings:profile')
-      .text('🗑️ Clear Data', 'settings:clear')
+      .text(t('settings.deleteButton'), 'settings:clear:delete')
       .row()
-      .text('🏠 Main Menu', 'menu:main'),
+      .text(t('buttons.back'), 'menu:settings')
+      .text(t('buttons.mainMenu'), 'menu:main'),
 
   /**
    * Confirmation keyboard
    */
-  confirmation: (action: string) =>
+  confirmation: (t: TranslateFn, action: string) =>
     new InlineKeyboard()
-      .text('✅ Yes', `confirm:${action}`)
-      .text('❌ No', 'action:cancel')
+      .text(t('buttons.yes'), `confirm:${action}`)
+      .text(t('buttons.no'), 'action:cancel')
       .row()
-      .text('🏠 Main Menu', 'menu:main'),
+      .text(t('buttons.mainMenu'), 'menu:main'),
 
   /**
    * Back button only
    */
-  backButton: (destination: string = 'main') =>
-    new InlineKeyboard().text('⬅️ Back', `menu:${destination}`),
+  backButton: (t: TranslateFn, destination: string = 'main') =>
+    new InlineKeyboard().text(t('buttons.back'), `menu:${destination}`),
 
   /**
    * Error keyboard
    */
-  errorKeyboard: () =>
-    new InlineKeyboard().text('🔄 Try Again', 'action:retry').text('🏠 Main Menu', 'menu:main'),
+  errorKeyboard: (t: TranslateFn) =>
+    new InlineKeyboard()
+      .text(t('buttons.tryAgain'), 'action:retry')
+      .text(t('buttons.mainMenu'), 'menu:main'),
 };
@@ -0,0 +1,20 @@
+import type { BotMiddleware } from '../types';
+import { container } from '../../../shared/container/DIContainer';
+import { config } from '../../../shared/config/env';
+
+/**
+ * Let only the Telegram users listed in ADMIN_TELEGRAM_IDS through to the
+ * admin commands registered after it
+ */
+export const adminMiddleware: BotMiddleware = async (ctx, next) => {
+  const telegramId = ctx.from?.id.toString();
+  if (telegramId && config.telegram.adminIds.includes(telegramId)) {
+    await next();
+    return;
+  }
+
+  const chatId = ctx.chat?.id.toString();
+  if (chatId) {
+    await container.getQueuedMessageService().sendMessage(chatId, ctx.t('admin.only'));
+  }
+};
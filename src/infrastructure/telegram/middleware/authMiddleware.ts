@@ -10,6 +10,18 @@ export const authMiddleware: BotMiddleware = async (ctx, next) => {
   }
 
   const telegramId = BigInt(ctx.from.id);
+  const sessionRepo = container.getSessionRepository();
+
+  if (ctx.session.session && !ctx.session.session.isExpired()) {
+    ctx.session.session.touch();
+    const exists = await sessionRepo.touchSession(ctx.session.session.token);
+
+    // Sessions are cleared when the account is reset or deleted, so reload the user
+    if (!exists) {
+      ctx.session.user = undefined;
+      ctx.session.session = undefined;
+    }
+  }
 
   if (!ctx.session.user) {
     const prisma = container.getPrisma();
@@ -52,7 +64,6 @@ export const authMiddleware: BotMiddleware = async (ctx, next) => {
       username: ctx.from.username,
     });
 
-    const sessionRepo = container.getSessionRepository();
     await sessionRepo.setSession(newSession.token, {
       userId: newSession.userId,
       telegramId: newSession.telegramId.toString(),
@@ -62,10 +73,6 @@ export const authMiddleware: BotMiddleware = async (ctx, next) => {
     });
 
     ctx.session.session = newSession;
-  } else {
-    ctx.session.session.touch();
-    const sessionRepo = container.getSessionRepository();
-    await sessionRepo.touchSession(ctx.session.session.token);
   }
 
   const leaderboardRepo = container.getLeaderboardRepository();
@@ -0,0 +1,30 @@
+import type { BotContext, BotMiddleware } from '../types';
+import { container } from '../../../shared/container/DIContainer';
+import { resolveLocale, translator } from '../../../shared/i18n';
+import type { Language } from '../../../domain/value-objects/Preferences';
+
+/**
+ * Set `ctx.locale` and `ctx.t` from the user's language preference,
+ * falling back to their Telegram client language
+ */
+export function applyLocale(ctx: BotContext, preferred: Language | null): void {
+  ctx.locale = resolveLocale(preferred, ctx.from?.language_code);
+  ctx.t = translator(ctx.locale);
+}
+
+export const i18nMiddleware: BotMiddleware = async (ctx, next) => {
+  let preferred: Language | null = null;
+
+  if (ctx.from && !ctx.from.is_bot) {
+    try {
+      const preferences = await container.getPreferencesService().get(ctx.from.id.toString());
+      preferred = preferences.language;
+    } catch (error) {
+      // A missing preference should never block the update
+      console.error('[i18n] Failed to load language preference:', error);
+    }
+  }
+
+  applyLocale(ctx, preferred);
+  await next();
+};
@@ -1,6 +1,8 @@
 import type { Context, SessionFlavor } from 'grammy';
 import type { Session } from '../../domain/entities/Session';
 import type { User } from '../../domain/entities/User';
+import type { ComboPhase } from '../../domain/value-objects/Combo';
+import type { I18nFlavor } from '../../shared/i18n';
 
 /**
  * Custom session data stored in bot context
@@ -8,12 +10,13 @@ import type { User } from '../../domain/entities/User';
 export interface BotSessionData {
   user?: User;
   session?: Session;
-  gameState: 'idle' | 'clicking' | 'cooldown';
+  /** The click combo, see ComboSnapshot */
+  gameState: ComboPhase;
   lastClickTime?: number;
   clickBuffer: number[];
   temporaryData?: Record<string, unknown>;
 }
 
-export type BotContext = Context & SessionFlavor<BotSessionData>;
+export type BotContext = Context & SessionFlavor<BotSessionData> & I18nFlavor;
 export type CommandHandler = (ctx: BotContext) => Promise<void>;
 export type BotMiddleware = (ctx: BotContext, next: () => Promise<void>) => Promise<void>;
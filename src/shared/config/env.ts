@@ -10,6 +10,13 @@ function getEnvVariable(key: string, defaultValue?: string): string {
   return value;
 }
 
+function getEnvList(key: string): string[] {
+  return (process.env[key] ?? '')
+    .split(',')
+    .map((value) => value.trim())
+    .filter(Boolean);
+}
+
 function getEnvNumber(key: string, defaultValue?: number): number {
   const value = process.env[key];
   if (!value && defaultValue !== undefined) {
@@ -25,6 +32,7 @@ function getEnvNumber(key: string, defaultValue?: number): number {
 export const config = {
   telegram: {
     botToken: getEnvVariable('BOT_TOKEN'),
+    adminIds: getEnvList('ADMIN_TELEGRAM_IDS'),
   },
   database: {
     url: getEnvVariable('DATABASE_URL'),
@@ -50,6 +58,25 @@ export const config = {
   leaderboard: {
     updateIntervalMs: getEnvNumber('LEADERBOARD_UPDATE_INTERVAL_MS', 500),
     size: getEnvNumber('LEADERBOARD_SIZE', 100),
+    snapshotIntervalMs: getEnvNumber('LEADERBOARD_SNAPSHOT_INTERVAL_MS', 3600000),
+  },
+  groups: {
+    scoreboardIntervalMs: getEnvNumber('GROUP_SCOREBOARD_INTERVAL_MS', 60000),
+    scoreboardSize: getEnvNumber('GROUP_SCOREBOARD_SIZE', 10),
+  },
+  streak: {
+    reminderIntervalMs: getEnvNumber('STREAK_REMINDER_INTERVAL_MS', 3600000),
+    reminderHourUtc: getEnvNumber('STREAK_REMINDER_HOUR_UTC', 18),
+  },
+  duels: {
+    resolveIntervalMs: getEnvNumber('DUEL_RESOLVE_INTERVAL_MS', 2000),
+  },
+  seasons: {
+    lengthDays: getEnvNumber('SEASON_LENGTH_DAYS', 30),
+    checkIntervalMs: getEnvNumber('SEASON_CHECK_INTERVAL_MS', 60000),
+  },
+  events: {
+    checkIntervalMs: getEnvNumber('EVENT_CHECK_INTERVAL_MS', 60000),
   },
   session: {
     timeoutMs: getEnvNumber('SESSION_TIMEOUT_MS', 3600000),
@@ -60,5 +87,8 @@ export const config = {
   },
   queue: {
     channelTrackingTtlSeconds: getEnvNumber('QUEUE_CHANNEL_TTL_SECONDS', 300),
+    globalFloodWaitChats: getEnvNumber('QUEUE_GLOBAL_FLOOD_WAIT_CHATS', 3),
+    dispatchIntervalMs: getEnvNumber('QUEUE_DISPATCH_INTERVAL_MS', 100),
+    deadLetterLimit: getEnvNumber('QUEUE_DEAD_LETTER_LIMIT', 1000),
   },
 } as const;
@@ -26,6 +26,7 @@ export const GAME_SETTINGS = {
   BATCH_SAVE_INTERVAL_MS: 5000,
   LEADERBOARD_SIZE: 100,
   LEADERBOARD_CACHE_TTL_MS: 500,
+  PASSIVE_INCOME_INTERVAL_MS: 60000,
 } as const;
 
 export const BOT_COMMANDS = [
@@ -33,6 +34,8 @@ export const BOT_COMMANDS = [
   { command: 'click', description: '👆 Click to earn points' },
   { command: 'leaderboard', description: '🏆 View top players' },
   { command: 'stats', description: '📊 View your statistics' },
+  { command: 'daily', description: '🎁 Claim your daily reward' },
+  { command: 'shop', description: '🛒 Buy upgrades' },
   { command: 'changename', description: '✏️ Change your display name' },
   { command: 'help', description: '❓ Show help information' },
 ] as const;
@@ -60,6 +63,7 @@ export const EMOJIS = {
 
 export const REDIS_KEYS = {
   CLICK_PENDING: 'clicks:pending:',
+  SCORE_PENDING: 'score:pending:',
   CLICK_STREAM: 'clicks:stream',
   LEADERBOARD: 'leaderboard:global',
   LEADERBOARD_USER: 'leaderboard:user:',
@@ -67,6 +71,21 @@ export const REDIS_KEYS = {
   RATE_LIMIT: 'ratelimit:',
   USER_CACHE: 'cache:user:',
   STATS_CACHE: 'cache:stats:',
+  STATS_USER: 'stats:user:',
+  CHART_CACHE: 'cache:chart:',
+  INLINE_CACHE: 'cache:inline:',
+  ACHIEVEMENTS: 'achievements:user:',
+  LEADERBOARD_SNAPSHOT: 'leaderboard:snapshot:latest',
+  UPGRADES: 'upgrades:user:',
+  PASSIVE_INCOME: 'upgrades:passive',
+  STREAK: 'streak:user:',
+  ENERGY: 'energy:user:',
+  CLAN_LEADERBOARD: 'clans:leaderboard',
+  CLAN_CONTRIBUTIONS: 'clans:contributions:',
+  PREFERENCES: 'prefs:user:',
+  USER_STATUS: 'status:user:',
+  ACCOUNT_CONFIRM: 'account:confirm:',
+  DATA_EXPORT: 'export:user:',
 } as const;
 
 export const ERROR_MESSAGES = {
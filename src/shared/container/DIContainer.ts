@@ -4,14 +4,49 @@ import { ClickRedisRepository } from '../../infrastructure/redis/repositories/cl
 import { LeaderboardRedisRepository } from '../../infrastructure/redis/repositories/leaderboardRepository';
 import { RateLimiterRedisRepository } from '../../infrastructure/redis/repositories/rateLimiterRepository';
 import { SessionRedisRepository } from '../../infrastructure/redis/repositories/sessionRepository';
+import { GroupRedisRepository } from '../../infrastructure/redis/repositories/groupRepository';
+import { ClanRedisRepository } from '../../infrastructure/redis/repositories/clanRepository';
+import { DuelRedisRepository } from '../../infrastructure/redis/repositories/duelRepository';
+import { EventRedisRepository } from '../../infrastructure/redis/repositories/eventRepository';
+import { EnergyRedisRepository } from '../../infrastructure/redis/repositories/energyRepository';
+import { StatsRedisRepository } from '../../infrastructure/redis/repositories/statsRepository';
 import { TelegramBot } from '../../infrastructure/telegram/bot';
 import { BatchSaveWorker } from '../../application/workers/BatchSaveWorker';
+import { LeaderboardSnapshotWorker } from '../../application/workers/LeaderboardSnapshotWorker';
+import { GroupScoreboardWorker } from '../../application/workers/GroupScoreboardWorker';
+import { PassiveIncomeWorker } from '../../application/workers/PassiveIncomeWorker';
+import { StreakReminderWorker } from '../../application/workers/StreakReminderWorker';
+import { DuelWorker } from '../../application/workers/DuelWorker';
+import { SeasonWorker } from '../../application/workers/SeasonWorker';
+import { EventWorker } from '../../application/workers/EventWorker';
 import { MessageQueueService } from '../../application/services/MessageQueueService';
+import { ActionRegistry } from '../../application/services/ActionRegistry';
 import { QueuedMessageService } from '../../application/services/QueuedMessageService';
+import { AchievementService } from '../../application/services/AchievementService';
+import { LeaderboardSnapshotService } from '../../application/services/LeaderboardSnapshotService';
+import { GroupScoreboardService } from '../../application/services/GroupScoreboardService';
+import { UpgradeService } from '../../application/services/UpgradeService';
+import { EnergyService } from '../../application/services/EnergyService';
+import { ClickService } from '../../application/services/ClickService';
+import { StreakService } from '../../application/services/StreakService';
+import { ReferralService } from '../../application/services/ReferralService';
+import { ClanService } from '../../application/services/ClanService';
+import { DuelService } from '../../application/services/DuelService';
+import { SeasonService } from '../../application/services/SeasonService';
+import { EventService } from '../../application/services/EventService';
+import { PreferencesService } from '../../application/services/PreferencesService';
+import { UserStatusService } from '../../application/services/UserStatusService';
+import { AccountService } from '../../application/services/AccountService';
+import { DataExportService } from '../../application/services/DataExportService';
+import { StatisticsService } from '../../application/services/StatisticsService';
+import { ProgressChartService } from '../../application/services/ProgressChartService';
+import { InlineQueryService } from '../../application/services/InlineQueryService';
 import type { IClickRepository } from '../../domain/repositories/IClickRepository';
 import type { ILeaderboardRepository } from '../../domain/repositories/ILeaderboardRepository';
 import type { IRateLimiterRepository } from '../../domain/repositories/IRateLimiterRepository';
 import type { ISessionRepository } from '../../domain/repositories/ISessionRepository';
+import type { IGroupRepository } from '../../domain/repositories/IGroupRepository';
+import type { IClanRepository } from '../../domain/repositories/IClanRepository';
 
 /**
  * Dependency Injection Container
@@ -45,28 +80,229 @@ export class DIContainer {
     this.services.set('prisma', prisma);
 
     // Initialize repositories
-    this.services.set('clickRepository', new ClickRedisRepository());
-    this.services.set('leaderboardRepository', new LeaderboardRedisRepository());
+    const clickRepository = new ClickRedisRepository();
+    const leaderboardRepository = new LeaderboardRedisRepository();
+    const sessionRepository = new SessionRedisRepository();
+    this.services.set('clickRepository', clickRepository);
+    this.services.set('leaderboardRepository', leaderboardRepository);
     this.services.set('rateLimiterRepository', new RateLimiterRedisRepository());
-    this.services.set('sessionRepository', new SessionRedisRepository());
+    this.services.set('sessionRepository', sessionRepository);
+    const groupRepository = new GroupRedisRepository();
+    this.services.set('groupRepository', groupRepository);
+    const clanRepository = new ClanRedisRepository();
+    this.services.set('clanRepository', clanRepository);
+    const duelRepository = new DuelRedisRepository();
+    this.services.set('duelRepository', duelRepository);
+    const eventRepository = new EventRedisRepository();
+    this.services.set('eventRepository', eventRepository);
+    const energyRepository = new EnergyRedisRepository();
+    this.services.set('energyRepository', energyRepository);
+    const statsRepository = new StatsRedisRepository();
+    this.services.set('statsRepository', statsRepository);
 
     // Initialize Telegram bot
     const bot = new TelegramBot();
     this.services.set('bot', bot);
 
-    // Initialize MessageQueueService for rate-limited message sending
-    const messageQueue = new MessageQueueService(bot.getBotInstance());
+    // Initialize MessageQueueService for rate-limited message sending, with the
+    // registry of handlers for actions queued by name
+    const actionRegistry = new ActionRegistry();
+    this.services.set('actionRegistry', actionRegistry);
+    const messageQueue = new MessageQueueService(bot.getBotInstance(), actionRegistry);
     this.services.set('messageQueue', messageQueue);
 
+    // Initialize PreferencesService, used to honour notification opt-outs
+    const preferencesService = new PreferencesService(prisma);
+    this.services.set('preferencesService', preferencesService);
+
+    // Initialize UserStatusService, which stops messages to users who blocked
+    // the bot until they start it again
+    const userStatusService = new UserStatusService(prisma);
+    this.services.set('userStatusService', userStatusService);
+    messageQueue.onUnreachable(async (chatId) => {
+      await userStatusService.markUnreachable(chatId);
+    });
+
     // Initialize QueuedMessageService wrapper
-    const queuedMessageService = new QueuedMessageService(messageQueue);
+    const queuedMessageService = new QueuedMessageService(
+      messageQueue,
+      preferencesService,
+      userStatusService,
+    );
     this.services.set('queuedMessageService', queuedMessageService);
 
+    // Initialize AchievementService
+    const achievementService = new AchievementService(
+      prisma,
+      queuedMessageService,
+      preferencesService,
+    );
+    this.services.set('achievementService', achievementService);
+
+    // Initialize EventService, whose running events boost clicks
+    const eventService = new EventService(
+      prisma,
+      eventRepository,
+      clanRepository,
+      queuedMessageService,
+      preferencesService,
+    );
+    this.services.set('eventService', eventService);
+
+    // Initialize UpgradeService and the click pipeline built on it
+    const upgradeService = new UpgradeService(prisma, clickRepository, leaderboardRepository);
+    this.services.set('upgradeService', upgradeService);
+    const energyService = new EnergyService(energyRepository, upgradeService);
+    this.services.set('energyService', energyService);
+    const clickService = new ClickService(
+      clickRepository,
+      sessionRepository,
+      leaderboardRepository,
+      groupRepository,
+      clanRepository,
+      duelRepository,
+      statsRepository,
+      upgradeService,
+      energyService,
+      achievementService,
+      eventService,
+    );
+    this.services.set('clickService', clickService);
+
+    // Initialize ClanService for /clan and the team leaderboard
+    const clanService = new ClanService(prisma, clanRepository);
+    this.services.set('clanService', clanService);
+
+    // Initialize ReferralService, paid out by the batch save
+    const referralService = new ReferralService(
+      prisma,
+      clickRepository,
+      leaderboardRepository,
+      queuedMessageService,
+      preferencesService,
+    );
+    this.services.set('referralService', referralService);
+
     // Initialize and start BatchSaveWorker
-    const batchSaveWorker = new BatchSaveWorker(prisma, redisClient);
+    const batchSaveWorker = new BatchSaveWorker(
+      prisma,
+      redisClient,
+      achievementService,
+      referralService,
+      statsRepository,
+    );
     this.services.set('batchSaveWorker', batchSaveWorker);
     batchSaveWorker.start();
 
+    // Initialize AccountService, which pauses the batch save while wiping data
+    const accountService = new AccountService(
+      prisma,
+      batchSaveWorker,
+      leaderboardRepository,
+      sessionRepository,
+      statsRepository,
+      clanService,
+    );
+    this.services.set('accountService', accountService);
+
+    // Initialize DataExportService for /export
+    const dataExportService = new DataExportService(prisma, queuedMessageService);
+    this.services.set('dataExportService', dataExportService);
+
+    // Initialize StatisticsService for the detailed stats page
+    const statisticsService = new StatisticsService(statsRepository);
+    this.services.set('statisticsService', statisticsService);
+
+    // Initialize ProgressChartService for the stats charts
+    const progressChartService = new ProgressChartService(statisticsService, queuedMessageService);
+    this.services.set('progressChartService', progressChartService);
+
+    // Initialize InlineQueryService for inline mode
+    const inlineQueryService = new InlineQueryService(leaderboardRepository);
+    this.services.set('inlineQueryService', inlineQueryService);
+
+    // Initialize and start LeaderboardSnapshotWorker
+    const leaderboardSnapshotService = new LeaderboardSnapshotService(
+      prisma,
+      leaderboardRepository,
+    );
+    this.services.set('leaderboardSnapshotService', leaderboardSnapshotService);
+    const leaderboardSnapshotWorker = new LeaderboardSnapshotWorker(leaderboardSnapshotService);
+    this.services.set('leaderboardSnapshotWorker', leaderboardSnapshotWorker);
+    leaderboardSnapshotWorker.start();
+
+    // Initialize and start GroupScoreboardWorker
+    const groupScoreboardService = new GroupScoreboardService(
+      bot.getBotInstance().api,
+      groupRepository,
+      queuedMessageService,
+      preferencesService,
+      actionRegistry,
+    );
+    this.services.set('groupScoreboardService', groupScoreboardService);
+    const groupScoreboardWorker = new GroupScoreboardWorker(
+      groupScoreboardService,
+      groupRepository,
+    );
+    this.services.set('groupScoreboardWorker', groupScoreboardWorker);
+    groupScoreboardWorker.start();
+
+    // Initialize and start PassiveIncomeWorker
+    const passiveIncomeWorker = new PassiveIncomeWorker(
+      upgradeService,
+      clickRepository,
+      leaderboardRepository,
+      clanRepository,
+    );
+    this.services.set('passiveIncomeWorker', passiveIncomeWorker);
+    passiveIncomeWorker.start();
+
+    // Initialize and start StreakReminderWorker
+    const streakService = new StreakService(
+      prisma,
+      clickRepository,
+      leaderboardRepository,
+      queuedMessageService,
+      preferencesService,
+    );
+    this.services.set('streakService', streakService);
+    const streakReminderWorker = new StreakReminderWorker(streakService);
+    this.services.set('streakReminderWorker', streakReminderWorker);
+    streakReminderWorker.start();
+
+    // Initialize and start DuelWorker, which resolves finished duels
+    const duelService = new DuelService(
+      prisma,
+      duelRepository,
+      clickRepository,
+      leaderboardRepository,
+      upgradeService,
+      queuedMessageService,
+      preferencesService,
+    );
+    this.services.set('duelService', duelService);
+    const duelWorker = new DuelWorker(duelService);
+    this.services.set('duelWorker', duelWorker);
+    duelWorker.start();
+
+    // Initialize and start SeasonWorker, which ends seasons and opens the next
+    const seasonService = new SeasonService(
+      prisma,
+      leaderboardRepository,
+      batchSaveWorker,
+      queuedMessageService,
+      preferencesService,
+    );
+    this.services.set('seasonService', seasonService);
+    const seasonWorker = new SeasonWorker(seasonService);
+    this.services.set('seasonWorker', seasonWorker);
+    seasonWorker.start();
+
+    // Start EventWorker, which announces events as they start
+    const eventWorker = new EventWorker(eventService);
+    this.services.set('eventWorker', eventWorker);
+    eventWorker.start();
+
     console.log('DI Container initialized successfully');
 
     // Start the Telegram bot
@@ -128,6 +364,28 @@ export class DIContainer {
     return repo;
   }
 
+  /**
+   * Get Group Repository
+   */
+  public getGroupRepository(): IGroupRepository {
+    const repo = this.services.get('groupRepository') as IGroupRepository;
+    if (!repo) {
+      throw new Error('GroupRepository not initialized');
+    }
+    return repo;
+  }
+
+  /**
+   * Get Clan Repository
+   */
+  public getClanRepository(): IClanRepository {
+    const repo = this.services.get('clanRepository') as IClanRepository;
+    if (!repo) {
+      throw new Error('ClanRepository not initialized');
+    }
+    return repo;
+  }
+
   /**
    * Get Telegram Bot
    */
@@ -172,6 +430,215 @@ export class DIContainer {
     return service;
   }
 
+  /**
+   * Get Achievement Service
+   */
+  public getAchievementService(): AchievementService {
+    const service = this.services.get('achievementService') as AchievementService;
+    if (!service) {
+      throw new Error('AchievementService not initialized');
+    }
+    return service;
+  }
+
+  /**
+   * Get Leaderboard Snapshot Service
+   */
+  public getLeaderboardSnapshotService(): LeaderboardSnapshotService {
+    const service = this.services.get('leaderboardSnapshotService') as LeaderboardSnapshotService;
+    if (!service) {
+      throw new Error('LeaderboardSnapshotService not initialized');
+    }
+    return service;
+  }
+
+  /**
+   * Get Group Scoreboard Service
+   */
+  public getGroupScoreboardService(): GroupScoreboardService {
+    const service = this.services.get('groupScoreboardService') as GroupScoreboardService;
+    if (!service) {
+      throw new Error('GroupScoreboardService not initialized');
+    }
+    return service;
+  }
+
+  /**
+   * Get Upgrade Service
+   */
+  public getUpgradeService(): UpgradeService {
+    const service = this.services.get('upgradeService') as UpgradeService;
+    if (!service) {
+      throw new Error('UpgradeService not initialized');
+    }
+    return service;
+  }
+
+  /**
+   * Get Energy Service
+   */
+  public getEnergyService(): EnergyService {
+    const service = this.services.get('energyService') as EnergyService;
+    if (!service) {
+      throw new Error('EnergyService not initialized');
+    }
+    return service;
+  }
+
+  /**
+   * Get Click Service
+   */
+  public getClickService(): ClickService {
+    const service = this.services.get('clickService') as ClickService;
+    if (!service) {
+      throw new Error('ClickService not initialized');
+    }
+    return service;
+  }
+
+  /**
+   * Get Streak Service
+   */
+  public getStreakService(): StreakService {
+    const service = this.services.get('streakService') as StreakService;
+    if (!service) {
+      throw new Error('StreakService not initialized');
+    }
+    return service;
+  }
+
+  /**
+   * Get ClanService
+   */
+  public getClanService(): ClanService {
+    const service = this.services.get('clanService') as ClanService;
+    if (!service) {
+      throw new Error('ClanService not initialized');
+    }
+    return service;
+  }
+
+  /**
+   * Get ReferralService
+   */
+  public getReferralService(): ReferralService {
+    const service = this.services.get('referralService') as ReferralService;
+    if (!service) {
+      throw new Error('ReferralService not initialized');
+    }
+    return service;
+  }
+
+  /**
+   * Get Preferences Service
+   */
+  public getPreferencesService(): PreferencesService {
+    const service = this.services.get('preferencesService') as PreferencesService;
+    if (!service) {
+      throw new Error('PreferencesService not initialized');
+    }
+    return service;
+  }
+
+  /**
+   * Get User Status Service
+   */
+  public getUserStatusService(): UserStatusService {
+    const service = this.services.get('userStatusService') as UserStatusService;
+    if (!service) {
+      throw new Error('UserStatusService not initialized');
+    }
+    return service;
+  }
+
+  /**
+   * Get Account Service
+   */
+  public getAccountService(): AccountService {
+    const service = this.services.get('accountService') as AccountService;
+    if (!service) {
+      throw new Error('AccountService not initialized');
+    }
+    return service;
+  }
+
+  /**
+   * Get Data Export Service
+   */
+  public getDataExportService(): DataExportService {
+    const service = this.services.get('dataExportService') as DataExportService;
+    if (!service) {
+      throw new Error('DataExportService not initialized');
+    }
+    return service;
+  }
+
+  /**
+   * Get StatisticsService
+   */
+  public getStatisticsService(): StatisticsService {
+    const service = this.services.get('statisticsService') as StatisticsService;
+    if (!service) {
+      throw new Error('StatisticsService not initialized');
+    }
+    return service;
+  }
+
+  /**
+   * Get ProgressChartService
+   */
+  public getProgressChartService(): ProgressChartService {
+    const service = this.services.get('progressChartService') as ProgressChartService;
+    if (!service) {
+      throw new Error('ProgressChartService not initialized');
+    }
+    return service;
+  }
+
+  /**
+   * Get InlineQueryService
+   */
+  public getInlineQueryService(): InlineQueryService {
+    const service = this.services.get('inlineQueryService') as InlineQueryService;
+    if (!service) {
+      throw new Error('InlineQueryService not initialized');
+    }
+    return service;
+  }
+
+  /**
+   * Get DuelService
+   */
+  public getDuelService(): DuelService {
+    const service = this.services.get('duelService') as DuelService;
+    if (!service) {
+      throw new Error('DuelService not initialized');
+    }
+    return service;
+  }
+
+  /**
+   * Get SeasonService
+   */
+  public getSeasonService(): SeasonService {
+    const service = this.services.get('seasonService') as SeasonService;
+    if (!service) {
+      throw new Error('SeasonService not initialized');
+    }
+    return service;
+  }
+
+  /**
+   * Get EventService
+   */
+  public getEventService(): EventService {
+    const service = this.services.get('eventService') as EventService;
+    if (!service) {
+      throw new Error('EventService not initialized');
+    }
+    return service;
+  }
+
   /**
    * Clean up all services
    */
@@ -186,11 +653,51 @@ export class DIContainer {
       await messageQueue.shutdown();
     }
 
+    // Stop passive income first so the final batch save includes its last payout
+    const passiveIncomeWorker = this.services.get('passiveIncomeWorker') as PassiveIncomeWorker;
+    if (passiveIncomeWorker) {
+      passiveIncomeWorker.stop();
+    }
+
     const batchSaveWorker = this.services.get('batchSaveWorker') as BatchSaveWorker;
     if (batchSaveWorker) {
       await batchSaveWorker.stop();
     }
 
+    const leaderboardSnapshotWorker = this.services.get(
+      'leaderboardSnapshotWorker',
+    ) as LeaderboardSnapshotWorker;
+    if (leaderboardSnapshotWorker) {
+      leaderboardSnapshotWorker.stop();
+    }
+
+    const groupScoreboardWorker = this.services.get(
+      'groupScoreboardWorker',
+    ) as GroupScoreboardWorker;
+    if (groupScoreboardWorker) {
+      groupScoreboardWorker.stop();
+    }
+
+    const streakReminderWorker = this.services.get('streakReminderWorker') as StreakReminderWorker;
+    if (streakReminderWorker) {
+      streakReminderWorker.stop();
+    }
+
+    const duelWorker = this.services.get('duelWorker') as DuelWorker;
+    if (duelWorker) {
+      duelWorker.stop();
+    }
+
+    const seasonWorker = this.services.get('seasonWorker') as SeasonWorker;
+    if (seasonWorker) {
+      seasonWorker.stop();
+    }
+
+    const eventWorker = this.services.get('eventWorker') as EventWorker;
+    if (eventWorker) {
+      eventWorker.stop();
+    }
+
     const prisma = this.services.get('prisma') as PrismaClient;
     if (prisma) {
       await prisma.$disconnect();
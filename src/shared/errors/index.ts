@@ -46,6 +46,115 @@ export class InvalidClickError extends DomainError {
   }
 }
 
+export class InsufficientPointsError extends DomainError {
+  public readonly required: bigint;
+  public readonly available: bigint;
+
+  constructor(required: bigint, available: bigint) {
+    super(`Not enough points: ${required} required, ${available} available`, 'INSUFFICIENT_POINTS');
+    this.name = 'InsufficientPointsError';
+    this.required = required;
+    this.available = available;
+  }
+}
+
+export class UpgradeMaxLevelError extends DomainError {
+  constructor(upgradeId: string) {
+    super(`Upgrade already at max level: ${upgradeId}`, 'UPGRADE_MAX_LEVEL');
+    this.name = 'UpgradeMaxLevelError';
+  }
+}
+
+export class OutOfEnergyError extends DomainError {
+  public readonly refillsAt: Date;
+
+  constructor(refillsAt: Date) {
+    super('Not enough energy to click', 'OUT_OF_ENERGY');
+    this.name = 'OutOfEnergyError';
+    this.refillsAt = refillsAt;
+  }
+}
+
+export class DailyRewardClaimedError extends DomainError {
+  constructor() {
+    super('Daily reward already claimed today', 'DAILY_REWARD_CLAIMED');
+    this.name = 'DailyRewardClaimedError';
+  }
+}
+
+export class AccountCooldownError extends DomainError {
+  public readonly retryAfter: Date;
+
+  constructor(retryAfter: Date) {
+    super('Account data was cleared recently', 'ACCOUNT_COOLDOWN');
+    this.name = 'AccountCooldownError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+export type ReferralRejection = 'unknown_code' | 'self' | 'not_new' | 'already_referred';
+
+export class ReferralNotAllowedError extends DomainError {
+  public readonly reason: ReferralRejection;
+
+  constructor(reason: ReferralRejection) {
+    super(`Referral not allowed: ${reason}`, 'REFERRAL_NOT_ALLOWED');
+    this.name = 'ReferralNotAllowedError';
+    this.reason = reason;
+  }
+}
+
+export type ClanRejection =
+  | 'invalid_name'
+  | 'name_taken'
+  | 'unknown_code'
+  | 'already_member'
+  | 'not_member'
+  | 'unknown_member'
+  | 'full'
+  | 'forbidden';
+
+export class ClanActionError extends DomainError {
+  public readonly reason: ClanRejection;
+
+  constructor(reason: ClanRejection) {
+    super(`Clan action rejected: ${reason}`, 'CLAN_ACTION_REJECTED');
+    this.name = 'ClanActionError';
+    this.reason = reason;
+  }
+}
+
+export type DuelRejection =
+  | 'invalid_wager'
+  | 'unknown_player'
+  | 'self'
+  | 'busy'
+  | 'insufficient_points'
+  | 'expired'
+  | 'not_invited';
+
+export class DuelActionError extends DomainError {
+  public readonly reason: DuelRejection;
+
+  constructor(reason: DuelRejection) {
+    super(`Duel action rejected: ${reason}`, 'DUEL_ACTION_REJECTED');
+    this.name = 'DuelActionError';
+    this.reason = reason;
+  }
+}
+
+export type EventRejection = 'invalid_multiplier' | 'invalid_window' | 'not_found';
+
+export class EventScheduleError extends DomainError {
+  public readonly reason: EventRejection;
+
+  constructor(reason: EventRejection) {
+    super(`Event scheduling rejected: ${reason}`, 'EVENT_SCHEDULE_REJECTED');
+    this.name = 'EventScheduleError';
+    this.reason = reason;
+  }
+}
+
 export class TelegramApiError extends Error {
   public readonly errorCode: number;
   public readonly description: string;
@@ -0,0 +1,107 @@
+import { BOT_COMMANDS } from '../constants';
+import type { BotCommand } from '../types';
+import { isLanguage, type Language } from '../../domain/value-objects/Preferences';
+import { en } from './locales/en';
+import { es } from './locales/es';
+import { ru } from './locales/ru';
+import type {
+  Catalogue,
+  Message,
+  MessageKey,
+  MessageParams,
+  PluralForms,
+  TranslateFn,
+} from './types';
+
+export type { Catalogue, Message, MessageKey, MessageParams, PluralForms, TranslateFn };
+
+export const DEFAULT_LOCALE: Language = 'en';
+
+export const CATALOGUES: Record<Language, Catalogue> = { en, es, ru };
+
+/**
+ * Context flavor added by the i18n middleware
+ */
+export interface I18nFlavor {
+  locale: Language;
+  t: TranslateFn;
+}
+
+const numberFormats = new Map<Language, Intl.NumberFormat>();
+const pluralRules = new Map<Language, Intl.PluralRules>();
+
+/**
+ * Pick the locale for a user: an explicit choice wins, then Telegram's
+ * `language_code` (e.g. "es-MX" → "es"), then English.
+ */
+export function resolveLocale(preferred: Language | null, languageCode?: string): Language {
+  if (preferred) return preferred;
+  const base = languageCode?.toLowerCase().split('-')[0];
+  return isLanguage(base) ? base : DEFAULT_LOCALE;
+}
+
+/**
+ * Format a number with the locale's digit grouping
+ */
+export function formatNumber(locale: Language, value: number | bigint): string {
+  let format = numberFormats.get(locale);
+  if (!format) {
+    format = new Intl.NumberFormat(locale);
+    numberFormats.set(locale, format);
+  }
+  return format.format(value);
+}
+
+function selectPlural(
+  locale: Language,
+  forms: PluralForms,
+  count: MessageParams[string] = 0,
+): string {
+  let rules = pluralRules.get(locale);
+  if (!rules) {
+    rules = new Intl.PluralRules(locale);
+    pluralRules.set(locale, rules);
+  }
+  return forms[rules.select(Number(count))] ?? forms.other;
+}
+
+/**
+ * Look up a message and fill in its `{name}` placeholders. Plural messages
+ * are chosen by the `count` param. Unknown placeholders are left in place.
+ */
+export function translate(locale: Language, key: MessageKey, params: MessageParams = {}): string {
+  const message: Message = CATALOGUES[locale][key] ?? en[key];
+  const template =
+    typeof message === 'string' ? message : selectPlural(locale, message, params.count);
+
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    if (value === undefined) return placeholder;
+    return typeof value === 'string' ? value : formatNumber(locale, value);
+  });
+}
+
+/**
+ * Bind `translate` to a locale
+ */
+export function translator(locale: Language): TranslateFn {
+  return (key, params) => translate(locale, key, params);
+}
+
+/**
+ * The context's translator, or English when the i18n middleware has not run
+ * (e.g. errors raised before it)
+ */
+export function getTranslator(ctx: Partial<I18nFlavor>): TranslateFn {
+  return ctx.t ?? translator(DEFAULT_LOCALE);
+}
+
+/**
+ * Bot command list with descriptions in the given locale
+ */
+export function localizedCommands(locale: Language): BotCommand[] {
+  return BOT_COMMANDS.map(({ command }) => ({
+    command,
+    description: translate(locale, `commands.${command}` as const),
+  }));
+}
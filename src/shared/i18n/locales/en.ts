@@ -0,0 +1,758 @@
+import { ERROR_MESSAGES } from '../../constants';
+import type { Message } from '../types';
+
+/**
+ * English catalogue. It is the reference locale: its keys define `MessageKey`
+ * and every other catalogue must translate all of them.
+ */
+export const en = {
+  'commands.start': '🚀 Start the game',
+  'commands.click': '👆 Click to earn points',
+  'commands.leaderboard': '🏆 View top players',
+  'commands.stats': '📊 View your statistics',
+  'commands.daily': '🎁 Claim your daily reward',
+  'commands.shop': '🛒 Buy upgrades',
+  'commands.changename': '✏️ Change your display name',
+  'commands.help': '❓ Show help information',
+
+  'common.useStart': 'Please use /start to begin the game.',
+  'common.on': 'ON',
+  'common.off': 'OFF',
+  'common.unknownInput': "I didn't understand that. Use /help to see available commands.",
+
+  'errors.rateLimit': ERROR_MESSAGES.RATE_LIMIT,
+  'errors.sessionExpired': ERROR_MESSAGES.SESSION_EXPIRED,
+  'errors.invalidClick': ERROR_MESSAGES.INVALID_CLICK,
+  'errors.database': ERROR_MESSAGES.DATABASE_ERROR,
+  'errors.notFound': ERROR_MESSAGES.NOT_FOUND,
+  'errors.telegram': ERROR_MESSAGES.TELEGRAM_ERROR,
+  'errors.databaseHint': '<i>Our team has been notified. Please try again later.</i>',
+  'errors.redis': 'Temporary service issue.\n\n<i>Please try again in a moment.</i>',
+  'errors.validation':
+    '<b>Validation Error</b>\n\n{fields}\n\n<i>Please check your input and try again.</i>',
+  'errors.invalidSession': 'Invalid session. Please use /start to begin.',
+  'errors.rateLimitExceeded': `<b>Rate Limit Exceeded!</b>
+
+You've reached the maximum of <b>10 clicks per second</b>.
+
+This limit exists to:
+• Protect the bot from Telegram API limits
+• Ensure fair play for all 🏆
+• Keep the bot running smoothly for 100k+ users`,
+  'errors.rateLimitWait': {
+    one: '⏱ Wait <b>{count} second</b> before trying again.',
+    other: '⏱ Wait <b>{count} seconds</b> before trying again.',
+  },
+  'errors.rateLimitTip': '<i>Tip: Click steadily, not too fast!</i>',
+  'errors.telegramRateLimit': `<b>Telegram Rate Limit</b>
+
+The bot is experiencing high traffic. Please try again in a moment.
+
+<i>This protects the bot from being blocked by Telegram.</i>`,
+  'errors.telegramDetail': '<i>Error {code}: {description}</i>',
+  'errors.unexpected': `<b>Unexpected Error</b>
+
+Something went wrong. Our team has been notified.
+
+<i>Please try again later.</i>`,
+  'errors.navigation': 'An error occurred. Please try again.',
+  'errors.queued': '❌ <b>Error</b>\n\n{message}',
+
+  'buttons.startClicking': '👆 Start Clicking',
+  'buttons.leaderboard': '🏆 Leaderboard',
+  'buttons.myStats': '⭐ My Stats',
+  'buttons.help': 'ℹ️ Help',
+  'buttons.dailyReward': '🎁 Daily Reward',
+  'buttons.shop': '🛒 Shop',
+  'buttons.changeName': '✏️ Change Name',
+  'buttons.settings': '⚙️ Settings',
+  'buttons.click': '👆 Click',
+  'buttons.clickAgain': '👆 Click Again!',
+  'buttons.mainMenu': '🏠 Main Menu',
+  'buttons.back': '⬅️ Back',
+  'buttons.previous': '⬅️ Previous',
+  'buttons.next': '➡️ Next',
+  'buttons.yes': '✅ Yes',
+  'buttons.no': '❌ No',
+  'buttons.tryAgain': '🔄 Try Again',
+  'buttons.startPlaying': '👆 Start Playing',
+  'buttons.referrals': '🤝 Invite Friends',
+  'buttons.clan': '🛡️ Clan',
+
+  'start.userNotFound': 'Error: User not found. Please try again.',
+  'start.welcome': `🚀 <b>Welcome to Telegram Clicker Bot!</b> 🚀
+
+Hello, {name}!
+
+👆 Click to earn points and climb the leaderboard!
+🏆 Compete with other players
+🔥 Show your clicking skills!
+
+Your current score: <b>{score}</b> points
+
+<b>Available Commands:</b>
+/click - 👆 Start clicking
+/leaderboard - 🏆 View top players
+/stats - ⭐ Your statistics
+/changename - ℹ️ Change display name
+/help - ℹ️ Show help
+
+Let's start clicking! 🎉`,
+  'start.challenged': '⚔️ <b>{name}</b> challenged you to beat <b>{score}</b> points. Good luck!',
+
+  'menu.useStart': 'Please use /start to begin',
+  'menu.text': `🚀 <b>Telegram Clicker Bot</b> 🚀
+
+Welcome back, {name}!
+Your Score: <b>{score}</b> points
+
+What would you like to do?`,
+
+  'click.points': { one: '+{count} point', other: '+{count} points' },
+  'click.critical': '<b>CRITICAL!</b>',
+  'click.critChance': ' ({percent}% crit chance)',
+  'click.ready': '✅ Ready to click!',
+  'click.rateLimited': '⏳ Rate limited - wait a moment',
+  'click.waitAlert': 'Please wait for rate limit to reset...',
+  'click.energy': '🔋 Energy: <b>{current}/{max}</b> (+{regen}/min)',
+  'click.outOfEnergy': '🪫 Out of energy! Refills in {time}',
+  'click.refillMinutes': { one: '{count} minute', other: '{count} minutes' },
+  'click.combo': '🔥 Combo <b>{count}</b> (×{multiplier}) - click within {seconds}s to keep it',
+  'click.comboFading': '🧊 Combo <b>{count}</b> fading - gone in {seconds}s',
+  'click.button': '{emoji} Click! {emoji}',
+  'click.rateLimitedButton': '⏳ Rate Limited - Please Wait',
+  'click.page': `{emoji} <b>CLICK ZONE</b> {emoji}
+
+Your Score: <b>{score}</b> points
+{energy}
+
+Each click = {power}{crit}
+{combo}{event}
+{status}`,
+  'click.result': `{emoji} <b>Click Registered!</b>
+
+✨ {points}{critical}
+🏆 Total Score: <b>{score}</b>
+✨ Pending: {pending}
+{combo}{event}
+{energy}`,
+  'click.commandResult': `👆 <b>Click Registered!</b>
+
+✨ {points}{critical}
+🏆 Total score: <b>{score}</b>
+🔥 Session total: <b>{sessionClicks}</b> clicks
+✨ Pending save to DB: <b>{pending}</b>
+
+{energy}`,
+
+  'shop.page': `🛒 <b>UPGRADE SHOP</b> 🛒
+{notice}
+Your Points: <b>{points}</b>
+
+{upgrades}
+
+<i>Upgrades are paid with points and lower your score.</i>`,
+  'shop.buyButton': '{emoji} {title} - {price} pts',
+  'shop.bought': '✅ Bought {emoji} <b>{title}</b> level {level} for {price} points!',
+  'shop.notEnough':
+    '❌ Not enough points: you need <b>{required}</b>, you have <b>{available}</b>.',
+  'shop.upgrade': `{emoji} <b>{title}</b> (Lv {level}/{maxLevel})
+<i>{description}</i>
+Now: {effect} • {next}`,
+  'shop.next': 'Next: {effect} for {price} points',
+  'shop.maxLevel': 'MAX LEVEL',
+  'shop.effect.clickMultiplier': '+{value} per click',
+  'shop.effect.autoClicker': '{value} points/min',
+  'shop.effect.critChance': '{value}% crit chance',
+  'shop.effect.maxEnergy': '+{value} max energy',
+  'shop.effect.energyRegen': '+{value} energy/min',
+  'upgrades.powerFinger.title': 'Power Finger',
+  'upgrades.powerFinger.description': 'Each click earns one more point',
+  'upgrades.autoClicker.title': 'Auto Clicker',
+  'upgrades.autoClicker.description': 'Earns points every minute, even while you are away',
+  'upgrades.luckyStrike.title': 'Lucky Strike',
+  'upgrades.luckyStrike.description': 'Chance for a click to earn 5x points',
+  'upgrades.energyTank.title': 'Energy Tank',
+  'upgrades.energyTank.description': 'Store more energy for long clicking sessions',
+  'upgrades.quickCharge.title': 'Quick Charge',
+  'upgrades.quickCharge.description': 'Energy refills faster',
+
+  'daily.page': `🎁 <b>DAILY REWARD</b> 🎁
+{notice}
+{current}
+{best}
+
+{status}
+
+<i>Rewards grow every day until day 7. Miss a day (UTC) and the streak starts over.</i>`,
+  'daily.currentStreak': {
+    one: '🔥 Current streak: <b>{count}</b> day',
+    other: '🔥 Current streak: <b>{count}</b> days',
+  },
+  'daily.bestStreak': {
+    one: '🏅 Best streak: <b>{count}</b> day',
+    other: '🏅 Best streak: <b>{count}</b> days',
+  },
+  'daily.todayReward': "Today's reward: <b>{reward}</b> points",
+  'daily.claimedToday': '✅ Claimed today. Come back tomorrow for <b>{reward}</b> points!',
+  'daily.claimed': '🎉 <b>+{reward} points!</b> Day {day} of your streak.',
+  'daily.alreadyClaimed': "ℹ️ You already claimed today's reward.",
+  'daily.remindersOff': '🔕 Streak reminders turned off.',
+  'daily.remindersOn': "🔔 We'll remind you in the evening if your streak is about to break.",
+  'daily.claimButton': '🎁 Claim Reward',
+  'daily.remindersButton': '{icon} Streak Reminders: {status}',
+  'daily.reminder': {
+    one: `⚠️ <b>Your {count}-day streak is about to break!</b>
+
+Claim today's reward of <b>{reward}</b> points before midnight UTC.`,
+    other: `⚠️ <b>Your {count}-day streak is about to break!</b>
+
+Claim today's reward of <b>{reward}</b> points before midnight UTC.`,
+  },
+
+  'leaderboard.period.global': '🌍 All-time',
+  'leaderboard.period.season': '🏁 This Season',
+  'leaderboard.period.daily': '📅 Today',
+  'leaderboard.period.weekly': '🗓️ This Week',
+  'leaderboard.period.monthly': '📆 This Month',
+  'leaderboard.pageTitle': '🏆 <b>LEADERBOARD - Page {page}</b> 🏆',
+  'leaderboard.topTitle': '🏆 <b>TOP 10 LEADERBOARD</b> 🏆',
+  'leaderboard.empty': 'No players yet. Be the first!',
+  'leaderboard.yourPosition': '📍 Your Position: #{rank}',
+  'leaderboard.yourPositionHeader': '<b>Your Position:</b>',
+  'leaderboard.totalPlayers': '👥 Total players: <b>{count}</b>',
+  'leaderboard.groupOnly': 'ℹ️ Group leaderboards are only available in group chats.',
+  'leaderboard.groupTitle': '🏆 <b>GROUP SCOREBOARD</b> 🏆',
+  'leaderboard.groupEmpty': 'Nobody has clicked in this group yet. Use /click to start!',
+  'leaderboard.groupPlayers': 'ℹ️ Players in this group: <b>{count}</b>',
+  'leaderboard.pageButton': '📄 Page {page}',
+  'leaderboard.myPositionButton': '📊 My Position',
+  'leaderboard.clansTab': '🛡️ Clans',
+  'leaderboard.noClans': 'No clans yet. Found one with /clan create Name!',
+  'leaderboard.yourClan': '🛡️ Your clan: #{rank}',
+  'leaderboard.totalClans': '🛡️ Total clans: <b>{count}</b>',
+  'position.title': '📍 <b>YOUR POSITION</b> 📍',
+  'position.player': 'Player',
+  'position.unranked': 'You are not ranked yet. Start clicking!',
+
+  'stats.unranked': 'Unranked',
+  'stats.notAvailable': 'N/A',
+  'stats.full': `⭐ <b>YOUR STATISTICS</b> ⭐
+
+<b>Player:</b> {name}
+<b>ID:</b> <code>{id}</code>
+
+🏆 <b>Score & Ranking</b>
+Total Score: <b>{score}</b> points
+Global Rank: <b>{rank}</b>
+Rank 24h ago: <b>{rankAgo}</b>
+Pending Clicks: <b>{pending}</b>
+
+🏁 <b>Season {seasonNumber}</b>
+Season Score: <b>{seasonScore}</b> points
+Season Rank: <b>{seasonRank}</b>
+Ends: <b>{seasonEnds}</b>
+Badges: {badges}
+
+👆 <b>Session Stats</b>
+Current Session: <b>{sessionClicks}</b> clicks
+Active Sessions: <b>{activeSessions}</b>
+Session Started: <b>{sessionStarted}</b>
+
+ℹ️ <b>Account Info</b>
+Playing for: <b>{days}d {hours}h</b>
+Joined: <b>{joined}</b>
+Last Updated: <b>{updated}</b>
+
+🔥 Keep clicking to climb the ranks!`,
+  'stats.page': `⭐ <b>YOUR STATISTICS</b> ⭐
+
+👤 Player: {name}
+🏆 Score: <b>{score}</b>
+🏅 Rank: <b>{rank}</b>
+
+📊 Session Stats:
+• Clicks: {sessionClicks}
+• Pending: {pending}
+• Started: {sessionStarted}
+
+Keep clicking to climb! 🔥`,
+  'stats.detailed': `📈 <b>DETAILED STATISTICS</b> 📈
+<i>{range}</i>
+
+{chart}
+
+📊 Total: <b>{total}</b>{change}
+🏆 Best day: {bestDay}
+🎯 Average per session: {average} ({sessions})
+⏰ Busiest hour: {busiestHour}`,
+  'stats.period.day': '📅 Day',
+  'stats.period.week': '🗓️ Week',
+  'stats.period.month': '📆 Month',
+  'stats.change.day': ' ({change}% vs the day before)',
+  'stats.change.week': ' ({change}% vs the week before)',
+  'stats.change.month': ' ({change}% vs the month before)',
+  'stats.bestDay': '{day} ({clicks})',
+  'stats.sessions': { one: '{count} session', other: '{count} sessions' },
+  'stats.busiestHour': '{from}:00–{to}:00 UTC',
+  'stats.noClicks': '<i>No clicks in this period.</i>',
+  'stats.none': '—',
+  'stats.olderButton': '◀️ Older',
+  'stats.newerButton': 'Newer ▶️',
+  'stats.chartsButton': '🖼️ Charts',
+  'stats.chartScoreCaption': '📈 <b>Score gained</b> — {range}',
+  'stats.chartClicksCaption': '📊 <b>Clicks</b> — {range}',
+  'stats.detailedButton': '📈 Detailed Stats',
+  'stats.achievementsButton': '🏆 Achievements',
+
+  'achievements.page': `🏆 <b>ACHIEVEMENTS</b> 🏆
+
+{list}
+
+Unlocked: <b>{unlocked}/{total}</b>
+Your Progress: {tier}`,
+  'achievements.tier.legend': '🏆 LEGEND!',
+  'achievements.tier.master': '🥇 Master',
+  'achievements.tier.expert': '🥈 Expert',
+  'achievements.tier.advanced': '🥉 Advanced',
+  'achievements.tier.beginner': '⭐ Beginner',
+  'achievements.tier.newcomer': '🌱 Newcomer',
+  'achievements.unlocked': `🎉 <b>Achievement unlocked!</b>
+
+{emoji} <b>{title}</b>
+<i>{description}</i>`,
+  'achievements.firstCentury.title': 'First Century',
+  'achievements.firstCentury.description': '100 points',
+  'achievements.thousandClub.title': 'Thousand Club',
+  'achievements.thousandClub.description': '1,000 points',
+  'achievements.tenKMaster.title': 'Ten K Master',
+  'achievements.tenKMaster.description': '10,000 points',
+  'achievements.hundredKLegend.title': 'Hundred K Legend',
+  'achievements.hundredKLegend.description': '100,000 points',
+  'achievements.millionaire.title': 'Millionaire',
+  'achievements.millionaire.description': '1,000,000 points',
+  'achievements.warmingUp.title': 'Warming Up',
+  'achievements.warmingUp.description': '50 clicks in one session',
+  'achievements.marathon.title': 'Marathon',
+  'achievements.marathon.description': '500 clicks in one session',
+  'achievements.regular.title': 'Regular',
+  'achievements.regular.description': '3-day streak',
+  'achievements.dedicated.title': 'Dedicated',
+  'achievements.dedicated.description': '7-day streak',
+  'achievements.topHundred.title': 'Top 100',
+  'achievements.topHundred.description': 'Reach rank #100',
+  'achievements.topTen.title': 'Top 10',
+  'achievements.topTen.description': 'Reach rank #10',
+  'achievements.champion.title': 'Champion',
+  'achievements.champion.description': 'Reach rank #1',
+
+  'help.full': `ℹ️ <b>TELEGRAM CLICKER BOT HELP</b> ℹ️
+
+<b>How to Play:</b>
+1. Use /click to earn points
+2. Compete with other players on the leaderboard
+3. Check your stats and climb the ranks!
+
+<b>Available Commands:</b>
+{commands}
+
+<b>Game Features:</b>
+👆 <b>Clicking System</b>
+- Each click gives you 1 point, more with upgrades
+- Rate limited to prevent spam
+- Points are saved automatically
+
+🏆 <b>Leaderboard</b>
+- Real-time global rankings
+- See top 10 players
+- Track your position
+- Daily, weekly and monthly boards: /leaderboard daily
+- Group scoreboard: /leaderboard group (in groups)
+
+🎁 <b>Daily Reward</b>
+- Claim a reward every day with /daily
+- Rewards grow for every day in a row
+- Opt into reminders before your streak breaks
+
+🛒 <b>Upgrade Shop</b>
+- Spend points on upgrades with /shop
+- Power Finger: more points per click
+- Auto Clicker: earns points every minute
+- Lucky Strike: chance of 5x critical clicks
+
+⭐ <b>Statistics</b>
+- Total score and rank
+- Session statistics
+- Playing time
+
+🔥 <b>Tips:</b>
+- Click consistently to build your score
+- Check the leaderboard to see your competition
+- Use inline buttons for quick actions
+
+<b>Rate Limits:</b>
+- Max 10 clicks per second
+- Telegram message limits apply
+
+Enjoy the game! 🎉`,
+  'help.center': `ℹ️ <b>HELP CENTER</b> ℹ️
+
+Welcome to Telegram Clicker Bot!
+
+This is a fun clicking game where you:
+• Click to earn points
+• Compete on the leaderboard
+• Track your progress
+
+Use the buttons below to learn more!`,
+  'help.howto': `🎮 <b>HOW TO PLAY</b>
+
+1. Click the "Start Clicking" button
+2. Choose your click power
+3. Earn points with each click
+4. Check the leaderboard
+5. Beat other players!
+
+It's that simple! 🎉`,
+  'help.rules': `📜 <b>GAME RULES</b>
+
+• Max 10 clicks per second
+• Each click costs energy, which refills over time
+• Quick consecutive clicks build a combo worth bonus points
+• Points range: 1-100 per click
+• Fair play only - no bots!
+• Respect rate limits
+• Have fun!`,
+  'help.commands': `⚡ <b>COMMANDS</b>
+
+While you can navigate with buttons, these commands also work:
+
+/start - Start the bot
+/click - Click to earn
+/leaderboard - View rankings
+/stats - Your statistics
+/daily - Claim your daily reward
+/shop - Buy upgrades
+/help - This help menu
+/export - Download all your data
+/clan - Your clan
+/duel - Challenge a player`,
+  'help.faq': `❓ <b>FAQ</b>
+
+Q: Why am I rate limited?
+A: To ensure fair play and respect Telegram limits
+
+Q: How are points calculated?
+A: 1 point per click, more with upgrades from the shop
+
+Q: Can I change my name?
+A: Yes! Use the Change Name option in settings`,
+  'help.howtoButton': '🎮 How to Play',
+  'help.rulesButton': '📜 Rules',
+  'help.commandsButton': '⚡ Commands',
+  'help.faqButton': '❓ FAQ',
+
+  'changeName.page': `✏️ <b>CHANGE DISPLAY NAME</b> ✏️
+
+Current name: <b>{name}</b>
+
+To change your name:
+1. Click the button below
+2. Send your new name
+3. Confirm the change
+
+Note: This won't change your Telegram username`,
+  'changeName.prompt':
+    'ℹ️ <b>Change Display Name</b>\n\nCurrent name: <b>{name}</b>\n\nPlease send your new display name:',
+  'changeName.placeholder': 'Enter new name...',
+  'changeName.invalidLength': 'Name must be between 2 and 30 characters. Please try again.',
+  'changeName.success':
+    '✅ Name changed successfully to: <b>{name}</b>\n\nYour new display name is now active!',
+
+  'settings.page': `⚙️ <b>SETTINGS</b> ⚙️
+{notice}
+Configure your bot experience:
+
+👤 User: {name}
+🆔 ID: <code>{id}</code>
+📅 Joined: {joined}
+
+🔔 Notifications: <b>{notifications}</b>
+🌍 Language: <b>{language}</b>
+🎨 Theme: <b>{theme}</b>`,
+  'settings.languageAuto': '🌐 Automatic ({language})',
+  'settings.notificationsPage': `🔔 <b>NOTIFICATIONS</b> 🔔
+
+All notifications: <b>{status}</b>
+
+{categories}
+
+<i>Turning all notifications off mutes every category.</i>`,
+  'settings.languagePage': '🌍 <b>LANGUAGE</b>\n\nChoose your language:',
+  'settings.themePage': '🎨 <b>THEME</b>\n\nThe theme changes the emoji on your click button:',
+  'settings.languageSet': '✅ Language set to {language}',
+  'settings.themeSet': '✅ Theme set to {theme}',
+  'settings.clearPage': `⚠️ <b>Clear Data</b>
+
+<b>Reset progress</b> sets your score back to zero and removes your click history, upgrades, streak and achievements. Your settings are kept.
+
+<b>Delete account</b> removes everything stored about you.
+
+Either can be done once every 24 hours.`,
+  'settings.resetConfirm': `⚠️ <b>Reset your progress?</b>
+
+Your <b>{score}</b> points, upgrades, streak and achievements will be lost. This cannot be undone.
+
+This confirmation expires in 2 minutes.`,
+  'settings.deleteConfirm': `⚠️ <b>Delete your account?</b>
+
+Your <b>{score}</b> points and all your data will be permanently removed. This cannot be undone.
+
+This confirmation expires in 2 minutes.`,
+  'settings.clearCooldown': '⏳ Your data was cleared recently. You can do it again on {date}.',
+  'settings.clearExpired': '⌛ That confirmation has expired. Please start again.',
+  'settings.resetDone': '✅ Your progress has been reset. Enjoy the fresh start!',
+  'settings.deleted': `👋 <b>Your account has been deleted.</b>
+
+Send /start whenever you want to play again.`,
+  'settings.notificationsButton': '{icon} Notifications: {status}',
+  'settings.allNotificationsButton': '{icon} All Notifications: {status}',
+  'settings.categoryButton': '{category}: {status}',
+  'settings.languageButton': '🌍 Language',
+  'settings.autoLanguageButton': '🌐 Automatic',
+  'settings.themeButton': '🎨 Theme',
+  'settings.profileButton': '👤 Profile',
+  'settings.clearButton': '🗑️ Clear Data',
+  'settings.resetButton': '🔄 Reset Progress',
+  'settings.deleteButton': '🗑️ Delete Account',
+
+  'inline.rankTitle': '🏆 My score: {score} ({rank})',
+  'inline.rankCard': {
+    one: '🏆 <b>{name}</b> is {rank} of {count} player with <b>{score}</b> points\n<i>{period}</i>',
+    other:
+      '🏆 <b>{name}</b> is {rank} of {count} players with <b>{score}</b> points\n<i>{period}</i>',
+  },
+  'inline.topTitle': '🥇 Top 10 players',
+  'inline.challengeTitle': '⚔️ Challenge a friend',
+  'inline.challengeDescription': 'Dare them to beat your score',
+  'inline.challengeMessage':
+    '⚔️ <b>{name}</b> challenges you to beat <b>{score}</b> points in the clicker game!',
+  'inline.playButton': '🎮 Play',
+  'inline.challengeButton': '⚔️ Accept the challenge',
+
+  'referral.page': `🤝 <b>INVITE FRIENDS</b> 🤝
+
+Your invite link:
+<code>{link}</code>
+
+When a friend joins through it and reaches <b>{threshold}</b> points, you get <b>{inviterBonus}</b> points and they get <b>{inviteeBonus}</b>.
+
+<b>{invited}</b>
+{list}
+
+Earned so far: <b>{earned}</b> points`,
+  'referral.invited': {
+    one: '{count} friend invited',
+    other: '{count} friends invited',
+  },
+  'referral.entry': '{icon} {name} — {score}',
+  'referral.none': '<i>No one has joined through your link yet.</i>',
+  'referral.shareButton': '📤 Share Invite Link',
+  'referral.shareText': 'Join me in the clicker game!',
+  'referral.joined':
+    '🤝 You were invited by <b>{name}</b>. Reach <b>{threshold}</b> points and you both get a bonus: <b>{bonus}</b> points for you!',
+  'referral.rewardInviter':
+    '🎉 <b>Referral bonus!</b>\n\n{name} reached {threshold} points. You earned <b>{points}</b> points.',
+  'referral.rewardInvitee':
+    '🎉 <b>Referral bonus!</b>\n\nYou reached {threshold} points. You and {name} both earned a bonus: <b>{points}</b> points for you.',
+  'referral.rejected.unknown_code': 'ℹ️ This invite link is not valid.',
+  'referral.rejected.self': "ℹ️ You can't use your own invite link.",
+  'referral.rejected.not_new': 'ℹ️ Invite links only work for new players.',
+  'referral.rejected.already_referred': 'ℹ️ You have already joined through an invite link.',
+
+  'clan.page': `🛡️ <b>{name}</b> 🛡️
+{notice}
+🏆 Rank: <b>{rank}</b>
+⭐ Team score: <b>{score}</b>
+👥 Members: <b>{members}/{max}</b>
+🎖️ Your role: {role}
+
+Invite code: <code>{code}</code>
+Invite link: {link}
+
+<i>Every point you earn also counts for your clan.</i>`,
+  'clan.none': `🛡️ <b>CLANS</b> 🛡️
+{notice}
+You are not in a clan yet. Team up and climb the clan leaderboard together: every point a member earns counts for the whole clan.
+
+Found one: <code>/clan create Name</code>
+Join one: <code>/clan join CODE</code> or open an invite link`,
+  'clan.usage': `🛡️ <b>Clan commands</b>
+
+/clan - Your clan
+<code>/clan create Name</code> - Found a clan
+<code>/clan join CODE</code> - Join with an invite code
+<code>/clan leave</code> - Leave your clan`,
+  'clan.role.owner': '👑 Owner',
+  'clan.role.officer': '⭐ Officer',
+  'clan.role.member': '👤 Member',
+  'clan.members': `👥 <b>{name}</b> ({count}/{max})
+{notice}
+{list}`,
+  'clan.memberEntry': '{role} {name}',
+  'clan.manageMember': '👤 <b>{name}</b>\n{role}',
+  'clan.created': '🎉 Clan <b>{name}</b> founded! Share the invite link to recruit members.',
+  'clan.joined': '🎉 Welcome to <b>{name}</b>!',
+  'clan.left': '👋 You left <b>{name}</b>.',
+  'clan.disbanded': '👋 You left <b>{name}</b>. It had no other members and was disbanded.',
+  'clan.leaveConfirm':
+    'Leave <b>{name}</b>? The points you earned stay with the clan. If you are the owner, the most senior officer takes over.',
+  'clan.promoted': '⬆️ {name} is now an officer.',
+  'clan.demoted': '⬇️ {name} is now a member.',
+  'clan.kicked': '🚫 {name} was removed from the clan.',
+  'clan.error.invalid_name':
+    '⚠️ Clan names are 3 to 24 characters: letters, digits, spaces, "_" or "-".',
+  'clan.error.name_taken': '⚠️ That clan name is already taken.',
+  'clan.error.unknown_code': '⚠️ No clan uses this invite code.',
+  'clan.error.already_member': '⚠️ You are already in a clan. Leave it first.',
+  'clan.error.not_member': '⚠️ You are not in a clan.',
+  'clan.error.unknown_member': '⚠️ That player is no longer in your clan.',
+  'clan.error.full': '⚠️ This clan is full ({max} members).',
+  'clan.error.forbidden': "⚠️ Your role doesn't allow that.",
+  'clan.shareButton': '📤 Share Invite Link',
+  'clan.shareText': 'Join my clan {name}!',
+  'clan.membersButton': '👥 Members',
+  'clan.leaveButton': '🚪 Leave Clan',
+  'clan.leaderboardButton': '🛡️ Clan Leaderboard',
+  'clan.manageButton': '⚙️ {name}',
+  'clan.promoteButton': '⬆️ Make Officer',
+  'clan.demoteButton': '⬇️ Make Member',
+  'clan.kickButton': '🚫 Remove from Clan',
+
+  'duel.usage': `⚔️ <b>Duels</b>
+
+<code>/duel @username</code> - Challenge a player: whoever clicks more in {seconds} seconds wins
+<code>/duel @username 500</code> - Wager 500 points each; the winner takes both stakes`,
+  'duel.challenged': `⚔️ Challenge sent to <b>{name}</b>!
+{stake}
+
+They have {minutes} minutes to accept.`,
+  'duel.invite': `⚔️ <b>{name}</b> challenges you to a duel!
+
+Whoever clicks more in {seconds} seconds wins.
+{stake}`,
+  'duel.stake': {
+    one: '💰 Stake: <b>{count}</b> point each',
+    other: '💰 Stake: <b>{count}</b> points each',
+  },
+  'duel.noStake': '🎲 Just for glory, no points at stake.',
+  'duel.started': `⚔️ <b>Duel on!</b> You vs <b>{name}</b>.
+
+Click as fast as you can: you have {seconds} seconds!`,
+  'duel.declined': '🏳️ You declined the duel with <b>{name}</b>.',
+  'duel.declinedByOpponent': '🏳️ <b>{name}</b> declined your duel.',
+  'duel.result': `⚔️ <b>DUEL OVER</b>
+
+{challenger}: <b>{challengerClicks}</b>
+{opponent}: <b>{opponentClicks}</b>
+
+{outcome}`,
+  'duel.winner': '🏆 <b>{name}</b> wins! {prize}',
+  'duel.draw': "🤝 It's a draw!",
+  'duel.drawRefunded': "🤝 It's a draw! Both stakes were returned.",
+  'duel.error.invalid_wager': '⚠️ The wager must be a whole number of points.',
+  'duel.error.unknown_player': '⚠️ No player has that username. They need to start the bot first.',
+  'duel.error.self': "⚠️ You can't duel yourself.",
+  'duel.error.busy': '⚠️ One of you is already in a duel.',
+  'duel.error.insufficient_points': '⚠️ Not enough points to cover the wager.',
+  'duel.error.expired': '⌛ This challenge is no longer open.',
+  'duel.error.not_invited': '⚠️ This challenge is for someone else.',
+  'duel.acceptButton': '⚔️ Accept',
+  'duel.declineButton': '🏳️ Decline',
+
+  'season.badge': '{emoji} S{number}',
+  'season.badgeAwarded': `{emoji} <b>Season {number} is over!</b>
+
+You finished <b>#{rank}</b> with <b>{score}</b> points and earned a season badge.
+A new season has started, good luck!`,
+
+  'event.banner': '🎉 <b>{title}</b>: ×{multiplier} points until {end} UTC',
+  'event.started': `🎉 <b>{title}</b> has started!
+
+Every click earns <b>×{multiplier}</b> points for the next {duration}. Go click!`,
+  'event.hours': { one: '{count} hour', other: '{count} hours' },
+  'event.usage': `🎉 <b>Events</b>
+/event - list running and upcoming events
+/event add &lt;multiplier&gt; &lt;start&gt; &lt;hours&gt; [audience] &lt;title&gt; - schedule an event
+/event cancel &lt;id&gt; - cancel an event
+
+Start is <code>now</code> or a UTC time like <code>2025-11-08T00:00</code>.
+Audience is <code>new_players</code> or <code>clan_members</code>; leave it out for everyone.`,
+  'event.scheduled': `✅ <b>{title}</b> scheduled: ×{multiplier} for {audience}
+{start} – {end} UTC
+ID: <code>{id}</code>`,
+  'event.cancelled': '🗑️ <b>{title}</b> cancelled.',
+  'event.listTitle': '🎉 <b>Events</b>',
+  'event.listItem': `{status} <b>{title}</b>: ×{multiplier} for {audience}
+{start} – {end} UTC
+<code>{id}</code>`,
+  'event.none': 'No running or upcoming events.',
+  'event.audience.all': 'everyone',
+  'event.audience.new_players': 'new players',
+  'event.audience.clan_members': 'clan members',
+  'event.error.invalid_multiplier': '⚠️ The multiplier must be above 1 and at most {max}.',
+  'event.error.invalid_window':
+    '⚠️ Check the start time and duration: the event has to end in the future.',
+  'event.error.not_found': '⚠️ There is no event with that ID.',
+
+  'deadLetter.usage': `📭 <b>Dead letters</b>
+/deadletters [page] - list messages the queue gave up on
+/deadletters show &lt;id&gt; - show one with its attempts
+/deadletters replay &lt;id&gt; - queue it again
+/deadletters purge - delete them all`,
+  'deadLetter.listTitle': {
+    one: '📭 <b>{count} dead letter</b> (page {page})',
+    other: '📭 <b>{count} dead letters</b> (page {page})',
+  },
+  'deadLetter.listItem': `{failedAt} UTC · chat <code>{chatId}</code> · {description}
+<code>{error}</code>
+ID: <code>{id}</code>`,
+  'deadLetter.none': 'No dead letters.',
+  'deadLetter.details': `📭 <b>Dead letter</b> <code>{id}</code>
+Chat: <code>{chatId}</code>
+Channel: {channel}
+Job: {description}
+Error: <code>{error}</code> (code {code}, {retried})
+Failed: {failedAt} UTC
+
+<b>Attempts</b>
+{attempts}`,
+  'deadLetter.attempt': '{number}. {at} UTC: <code>{error}</code>',
+  'deadLetter.noChannel': 'none',
+  'deadLetter.retried': 'retries used up',
+  'deadLetter.notRetried': 'not retried',
+  'deadLetter.notFound': '⚠️ There is no dead letter with that ID.',
+  'deadLetter.replayed': '🔁 Dead letter <code>{id}</code> queued again.',
+  'deadLetter.purged': {
+    one: '🗑️ Deleted {count} dead letter.',
+    other: '🗑️ Deleted {count} dead letters.',
+  },
+
+  'admin.only': '⛔ This command is only available to admins.',
+
+  'export.preparing': '📦 Preparing your data export. The files will arrive in a moment.',
+  'export.caption': '📦 <b>Your data export</b>\n\nEverything stored about you, as JSON and CSV.',
+  'export.rateLimited': '⏳ You can request one export per day. Try again on {date}.',
+  'export.privateOnly': '🔒 Use /export in a private chat with the bot.',
+
+  'notifications.achievements': '🏆 Achievements',
+  'notifications.reminders': '⏰ Streak reminders',
+  'notifications.events': '🎪 Events',
+  'notifications.social': '👥 Social',
+
+  'theme.classic': '👆 Classic',
+  'theme.fire': '🔥 Fire',
+  'theme.space': '🚀 Space',
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof en;
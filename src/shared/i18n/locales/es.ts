@@ -0,0 +1,756 @@
+import type { Catalogue } from '../types';
+
+export const es: Catalogue = {
+  'commands.start': '🚀 Empezar el juego',
+  'commands.click': '👆 Haz clic para ganar puntos',
+  'commands.leaderboard': '🏆 Ver los mejores jugadores',
+  'commands.stats': '📊 Ver tus estadísticas',
+  'commands.daily': '🎁 Reclamar tu recompensa diaria',
+  'commands.shop': '🛒 Comprar mejoras',
+  'commands.changename': '✏️ Cambiar tu nombre visible',
+  'commands.help': '❓ Mostrar la ayuda',
+
+  'common.useStart': 'Usa /start para empezar el juego.',
+  'common.on': 'SÍ',
+  'common.off': 'NO',
+  'common.unknownInput': 'No te he entendido. Usa /help para ver los comandos disponibles.',
+
+  'errors.rateLimit': '¡Más despacio! Estás haciendo clic demasiado rápido. Espera un momento.',
+  'errors.sessionExpired': 'Tu sesión ha caducado. Usa /start para volver a empezar.',
+  'errors.invalidClick': 'Clic no válido. Inténtalo de nuevo.',
+  'errors.database': 'Algo ha salido mal. Inténtalo de nuevo más tarde.',
+  'errors.notFound': 'Usuario no encontrado. Usa /start para registrarte.',
+  'errors.telegram': 'No se pudo enviar el mensaje. Inténtalo de nuevo.',
+  'errors.databaseHint': '<i>Nuestro equipo ha sido avisado. Inténtalo de nuevo más tarde.</i>',
+  'errors.redis': 'Problema temporal del servicio.\n\n<i>Inténtalo de nuevo en un momento.</i>',
+  'errors.validation':
+    '<b>Error de validación</b>\n\n{fields}\n\n<i>Revisa los datos e inténtalo de nuevo.</i>',
+  'errors.invalidSession': 'Sesión no válida. Usa /start para empezar.',
+  'errors.rateLimitExceeded': `<b>¡Límite de velocidad superado!</b>
+
+Has alcanzado el máximo de <b>10 clics por segundo</b>.
+
+Este límite sirve para:
+• Proteger el bot de los límites de la API de Telegram
+• Garantizar el juego limpio para todos 🏆
+• Mantener el bot fluido para más de 100k usuarios`,
+  'errors.rateLimitWait': {
+    one: '⏱ Espera <b>{count} segundo</b> antes de volver a intentarlo.',
+    other: '⏱ Espera <b>{count} segundos</b> antes de volver a intentarlo.',
+  },
+  'errors.rateLimitTip': '<i>Consejo: ¡haz clic a un ritmo constante, sin prisas!</i>',
+  'errors.telegramRateLimit': `<b>Límite de Telegram</b>
+
+El bot tiene mucho tráfico. Inténtalo de nuevo en un momento.
+
+<i>Así evitamos que Telegram bloquee el bot.</i>`,
+  'errors.telegramDetail': '<i>Error {code}: {description}</i>',
+  'errors.unexpected': `<b>Error inesperado</b>
+
+Algo ha salido mal. Nuestro equipo ha sido avisado.
+
+<i>Inténtalo de nuevo más tarde.</i>`,
+  'errors.navigation': 'Se ha producido un error. Inténtalo de nuevo.',
+  'errors.queued': '❌ <b>Error</b>\n\n{message}',
+
+  'buttons.startClicking': '👆 Empezar a jugar',
+  'buttons.leaderboard': '🏆 Clasificación',
+  'buttons.myStats': '⭐ Mis estadísticas',
+  'buttons.help': 'ℹ️ Ayuda',
+  'buttons.dailyReward': '🎁 Recompensa diaria',
+  'buttons.shop': '🛒 Tienda',
+  'buttons.changeName': '✏️ Cambiar nombre',
+  'buttons.settings': '⚙️ Ajustes',
+  'buttons.click': '👆 Clic',
+  'buttons.clickAgain': '👆 ¡Otro clic!',
+  'buttons.mainMenu': '🏠 Menú principal',
+  'buttons.back': '⬅️ Atrás',
+  'buttons.previous': '⬅️ Anterior',
+  'buttons.next': '➡️ Siguiente',
+  'buttons.yes': '✅ Sí',
+  'buttons.no': '❌ No',
+  'buttons.tryAgain': '🔄 Reintentar',
+  'buttons.startPlaying': '👆 Jugar',
+  'buttons.referrals': '🤝 Invitar amigos',
+  'buttons.clan': '🛡️ Clan',
+
+  'start.userNotFound': 'Error: usuario no encontrado. Inténtalo de nuevo.',
+  'start.welcome': `🚀 <b>¡Bienvenido a Telegram Clicker Bot!</b> 🚀
+
+¡Hola, {name}!
+
+👆 ¡Haz clic para ganar puntos y subir en la clasificación!
+🏆 Compite con otros jugadores
+🔥 ¡Demuestra lo rápido que eres!
+
+Tu puntuación actual: <b>{score}</b> puntos
+
+<b>Comandos disponibles:</b>
+/click - 👆 Empezar a hacer clic
+/leaderboard - 🏆 Ver los mejores jugadores
+/stats - ⭐ Tus estadísticas
+/changename - ℹ️ Cambiar tu nombre visible
+/help - ℹ️ Mostrar la ayuda
+
+¡A hacer clic! 🎉`,
+  'start.challenged': '⚔️ <b>{name}</b> te ha retado a superar <b>{score}</b> puntos. ¡Suerte!',
+
+  'menu.useStart': 'Usa /start para empezar',
+  'menu.text': `🚀 <b>Telegram Clicker Bot</b> 🚀
+
+¡Hola de nuevo, {name}!
+Tu puntuación: <b>{score}</b> puntos
+
+¿Qué quieres hacer?`,
+
+  'click.points': { one: '+{count} punto', other: '+{count} puntos' },
+  'click.critical': '<b>¡CRÍTICO!</b>',
+  'click.critChance': ' ({percent}% de probabilidad de crítico)',
+  'click.ready': '✅ ¡Listo para hacer clic!',
+  'click.rateLimited': '⏳ Límite alcanzado - espera un momento',
+  'click.waitAlert': 'Espera a que se restablezca el límite...',
+  'click.energy': '🔋 Energía: <b>{current}/{max}</b> (+{regen}/min)',
+  'click.outOfEnergy': '🪫 ¡Sin energía! Se recarga en {time}',
+  'click.refillMinutes': { one: '{count} minuto', other: '{count} minutos' },
+  'click.combo':
+    '🔥 Combo <b>{count}</b> (×{multiplier}) - haz clic en {seconds} s para mantenerlo',
+  'click.comboFading': '🧊 Combo <b>{count}</b> apagándose - desaparece en {seconds} s',
+  'click.button': '{emoji} ¡Clic! {emoji}',
+  'click.rateLimitedButton': '⏳ Límite alcanzado - Espera',
+  'click.page': `{emoji} <b>ZONA DE CLICS</b> {emoji}
+
+Tu puntuación: <b>{score}</b> puntos
+{energy}
+
+Cada clic = {power}{crit}
+{combo}{event}
+{status}`,
+  'click.result': `{emoji} <b>¡Clic registrado!</b>
+
+✨ {points}{critical}
+🏆 Puntuación total: <b>{score}</b>
+✨ Pendiente: {pending}
+{combo}{event}
+{energy}`,
+  'click.commandResult': `👆 <b>¡Clic registrado!</b>
+
+✨ {points}{critical}
+🏆 Puntuación total: <b>{score}</b>
+🔥 Clics en esta sesión: <b>{sessionClicks}</b>
+✨ Pendiente de guardar: <b>{pending}</b>
+
+{energy}`,
+
+  'shop.page': `🛒 <b>TIENDA DE MEJORAS</b> 🛒
+{notice}
+Tus puntos: <b>{points}</b>
+
+{upgrades}
+
+<i>Las mejoras se pagan con puntos y reducen tu puntuación.</i>`,
+  'shop.buyButton': '{emoji} {title} - {price} pts',
+  'shop.bought': '✅ ¡Has comprado {emoji} <b>{title}</b> nivel {level} por {price} puntos!',
+  'shop.notEnough':
+    '❌ Puntos insuficientes: necesitas <b>{required}</b> y tienes <b>{available}</b>.',
+  'shop.upgrade': `{emoji} <b>{title}</b> (Nv {level}/{maxLevel})
+<i>{description}</i>
+Ahora: {effect} • {next}`,
+  'shop.next': 'Siguiente: {effect} por {price} puntos',
+  'shop.maxLevel': 'NIVEL MÁXIMO',
+  'shop.effect.clickMultiplier': '+{value} por clic',
+  'shop.effect.autoClicker': '{value} puntos/min',
+  'shop.effect.critChance': '{value}% de probabilidad de crítico',
+  'shop.effect.maxEnergy': '+{value} de energía máxima',
+  'shop.effect.energyRegen': '+{value} de energía/min',
+  'upgrades.powerFinger.title': 'Dedo de Poder',
+  'upgrades.powerFinger.description': 'Cada clic da un punto más',
+  'upgrades.autoClicker.title': 'Autoclicker',
+  'upgrades.autoClicker.description': 'Gana puntos cada minuto, incluso cuando no estás',
+  'upgrades.luckyStrike.title': 'Golpe de Suerte',
+  'upgrades.luckyStrike.description': 'Probabilidad de que un clic dé 5 veces más puntos',
+  'upgrades.energyTank.title': 'Tanque de Energía',
+  'upgrades.energyTank.description': 'Guarda más energía para sesiones largas',
+  'upgrades.quickCharge.title': 'Carga Rápida',
+  'upgrades.quickCharge.description': 'La energía se recarga más rápido',
+
+  'daily.page': `🎁 <b>RECOMPENSA DIARIA</b> 🎁
+{notice}
+{current}
+{best}
+
+{status}
+
+<i>Las recompensas crecen cada día hasta el día 7. Si te saltas un día (UTC), la racha vuelve a empezar.</i>`,
+  'daily.currentStreak': {
+    one: '🔥 Racha actual: <b>{count}</b> día',
+    other: '🔥 Racha actual: <b>{count}</b> días',
+  },
+  'daily.bestStreak': {
+    one: '🏅 Mejor racha: <b>{count}</b> día',
+    other: '🏅 Mejor racha: <b>{count}</b> días',
+  },
+  'daily.todayReward': 'Recompensa de hoy: <b>{reward}</b> puntos',
+  'daily.claimedToday': '✅ Ya la has reclamado hoy. ¡Vuelve mañana a por <b>{reward}</b> puntos!',
+  'daily.claimed': '🎉 <b>¡+{reward} puntos!</b> Día {day} de tu racha.',
+  'daily.alreadyClaimed': 'ℹ️ Ya has reclamado la recompensa de hoy.',
+  'daily.remindersOff': '🔕 Recordatorios de racha desactivados.',
+  'daily.remindersOn': '🔔 Te avisaremos por la tarde si tu racha está a punto de romperse.',
+  'daily.claimButton': '🎁 Reclamar recompensa',
+  'daily.remindersButton': '{icon} Recordatorios de racha: {status}',
+  'daily.reminder': {
+    one: `⚠️ <b>¡Tu racha de {count} día está a punto de romperse!</b>
+
+Reclama la recompensa de hoy de <b>{reward}</b> puntos antes de la medianoche UTC.`,
+    other: `⚠️ <b>¡Tu racha de {count} días está a punto de romperse!</b>
+
+Reclama la recompensa de hoy de <b>{reward}</b> puntos antes de la medianoche UTC.`,
+  },
+
+  'leaderboard.period.global': '🌍 Histórico',
+  'leaderboard.period.season': '🏁 Esta temporada',
+  'leaderboard.period.daily': '📅 Hoy',
+  'leaderboard.period.weekly': '🗓️ Esta semana',
+  'leaderboard.period.monthly': '📆 Este mes',
+  'leaderboard.pageTitle': '🏆 <b>CLASIFICACIÓN - Página {page}</b> 🏆',
+  'leaderboard.topTitle': '🏆 <b>TOP 10</b> 🏆',
+  'leaderboard.empty': 'Todavía no hay jugadores. ¡Sé el primero!',
+  'leaderboard.yourPosition': '📍 Tu posición: #{rank}',
+  'leaderboard.yourPositionHeader': '<b>Tu posición:</b>',
+  'leaderboard.totalPlayers': '👥 Jugadores en total: <b>{count}</b>',
+  'leaderboard.groupOnly':
+    'ℹ️ Las clasificaciones de grupo solo están disponibles en chats de grupo.',
+  'leaderboard.groupTitle': '🏆 <b>MARCADOR DEL GRUPO</b> 🏆',
+  'leaderboard.groupEmpty': 'Nadie ha hecho clic en este grupo todavía. ¡Usa /click para empezar!',
+  'leaderboard.groupPlayers': 'ℹ️ Jugadores en este grupo: <b>{count}</b>',
+  'leaderboard.pageButton': '📄 Página {page}',
+  'leaderboard.myPositionButton': '📊 Mi posición',
+  'leaderboard.clansTab': '🛡️ Clanes',
+  'leaderboard.noClans': 'Aún no hay clanes. ¡Funda uno con /clan create Nombre!',
+  'leaderboard.yourClan': '🛡️ Tu clan: #{rank}',
+  'leaderboard.totalClans': '🛡️ Clanes en total: <b>{count}</b>',
+  'position.title': '📍 <b>TU POSICIÓN</b> 📍',
+  'position.player': 'Jugador',
+  'position.unranked': 'Todavía no estás en la clasificación. ¡Empieza a hacer clic!',
+
+  'stats.unranked': 'Sin clasificar',
+  'stats.notAvailable': 'N/D',
+  'stats.full': `⭐ <b>TUS ESTADÍSTICAS</b> ⭐
+
+<b>Jugador:</b> {name}
+<b>ID:</b> <code>{id}</code>
+
+🏆 <b>Puntuación y clasificación</b>
+Puntuación total: <b>{score}</b> puntos
+Posición global: <b>{rank}</b>
+Posición hace 24 h: <b>{rankAgo}</b>
+Clics pendientes: <b>{pending}</b>
+
+🏁 <b>Temporada {seasonNumber}</b>
+Puntuación de la temporada: <b>{seasonScore}</b> puntos
+Posición en la temporada: <b>{seasonRank}</b>
+Termina: <b>{seasonEnds}</b>
+Insignias: {badges}
+
+👆 <b>Sesión</b>
+Clics en esta sesión: <b>{sessionClicks}</b>
+Sesiones activas: <b>{activeSessions}</b>
+Inicio de la sesión: <b>{sessionStarted}</b>
+
+ℹ️ <b>Cuenta</b>
+Jugando desde hace: <b>{days} d {hours} h</b>
+Registro: <b>{joined}</b>
+Última actualización: <b>{updated}</b>
+
+🔥 ¡Sigue haciendo clic para subir posiciones!`,
+  'stats.page': `⭐ <b>TUS ESTADÍSTICAS</b> ⭐
+
+👤 Jugador: {name}
+🏆 Puntuación: <b>{score}</b>
+🏅 Posición: <b>{rank}</b>
+
+📊 Sesión:
+• Clics: {sessionClicks}
+• Pendientes: {pending}
+• Inicio: {sessionStarted}
+
+¡Sigue haciendo clic para subir! 🔥`,
+  'stats.detailed': `📈 <b>ESTADÍSTICAS DETALLADAS</b> 📈
+<i>{range}</i>
+
+{chart}
+
+📊 Total: <b>{total}</b>{change}
+🏆 Mejor día: {bestDay}
+🎯 Media por sesión: {average} ({sessions})
+⏰ Hora más activa: {busiestHour}`,
+  'stats.period.day': '📅 Día',
+  'stats.period.week': '🗓️ Semana',
+  'stats.period.month': '📆 Mes',
+  'stats.change.day': ' ({change}% frente al día anterior)',
+  'stats.change.week': ' ({change}% frente a la semana anterior)',
+  'stats.change.month': ' ({change}% frente al mes anterior)',
+  'stats.bestDay': '{day} ({clicks})',
+  'stats.sessions': { one: '{count} sesión', other: '{count} sesiones' },
+  'stats.busiestHour': '{from}:00–{to}:00 UTC',
+  'stats.noClicks': '<i>No hay clics en este periodo.</i>',
+  'stats.none': '—',
+  'stats.olderButton': '◀️ Anterior',
+  'stats.newerButton': 'Siguiente ▶️',
+  'stats.chartsButton': '🖼️ Gráficos',
+  'stats.chartScoreCaption': '📈 <b>Puntos ganados</b> — {range}',
+  'stats.chartClicksCaption': '📊 <b>Clics</b> — {range}',
+  'stats.detailedButton': '📈 Estadísticas detalladas',
+  'stats.achievementsButton': '🏆 Logros',
+
+  'achievements.page': `🏆 <b>LOGROS</b> 🏆
+
+{list}
+
+Desbloqueados: <b>{unlocked}/{total}</b>
+Tu nivel: {tier}`,
+  'achievements.tier.legend': '🏆 ¡LEYENDA!',
+  'achievements.tier.master': '🥇 Maestro',
+  'achievements.tier.expert': '🥈 Experto',
+  'achievements.tier.advanced': '🥉 Avanzado',
+  'achievements.tier.beginner': '⭐ Principiante',
+  'achievements.tier.newcomer': '🌱 Recién llegado',
+  'achievements.unlocked': `🎉 <b>¡Logro desbloqueado!</b>
+
+{emoji} <b>{title}</b>
+<i>{description}</i>`,
+  'achievements.firstCentury.title': 'Primer Centenar',
+  'achievements.firstCentury.description': '100 puntos',
+  'achievements.thousandClub.title': 'Club de los Mil',
+  'achievements.thousandClub.description': '1000 puntos',
+  'achievements.tenKMaster.title': 'Maestro de los 10 000',
+  'achievements.tenKMaster.description': '10 000 puntos',
+  'achievements.hundredKLegend.title': 'Leyenda de los 100 000',
+  'achievements.hundredKLegend.description': '100 000 puntos',
+  'achievements.millionaire.title': 'Millonario',
+  'achievements.millionaire.description': '1 000 000 puntos',
+  'achievements.warmingUp.title': 'Calentando',
+  'achievements.warmingUp.description': '50 clics en una sesión',
+  'achievements.marathon.title': 'Maratón',
+  'achievements.marathon.description': '500 clics en una sesión',
+  'achievements.regular.title': 'Habitual',
+  'achievements.regular.description': 'Racha de 3 días',
+  'achievements.dedicated.title': 'Constante',
+  'achievements.dedicated.description': 'Racha de 7 días',
+  'achievements.topHundred.title': 'Top 100',
+  'achievements.topHundred.description': 'Llega al puesto #100',
+  'achievements.topTen.title': 'Top 10',
+  'achievements.topTen.description': 'Llega al puesto #10',
+  'achievements.champion.title': 'Campeón',
+  'achievements.champion.description': 'Llega al puesto #1',
+
+  'help.full': `ℹ️ <b>AYUDA DE TELEGRAM CLICKER BOT</b> ℹ️
+
+<b>Cómo jugar:</b>
+1. Usa /click para ganar puntos
+2. Compite con otros jugadores en la clasificación
+3. ¡Consulta tus estadísticas y sube de posición!
+
+<b>Comandos disponibles:</b>
+{commands}
+
+<b>Funciones del juego:</b>
+👆 <b>Sistema de clics</b>
+- Cada clic te da 1 punto, más con mejoras
+- Con límite de velocidad para evitar el spam
+- Los puntos se guardan automáticamente
+
+🏆 <b>Clasificación</b>
+- Clasificación global en tiempo real
+- Consulta el top 10
+- Sigue tu posición
+- Clasificaciones diaria, semanal y mensual: /leaderboard daily
+- Marcador del grupo: /leaderboard group (en grupos)
+
+🎁 <b>Recompensa diaria</b>
+- Reclama una recompensa cada día con /daily
+- Las recompensas crecen con cada día seguido
+- Activa los recordatorios antes de que se rompa tu racha
+
+🛒 <b>Tienda de mejoras</b>
+- Gasta puntos en mejoras con /shop
+- Dedo poderoso: más puntos por clic
+- Autoclicker: gana puntos cada minuto
+- Golpe de suerte: probabilidad de clics críticos x5
+
+⭐ <b>Estadísticas</b>
+- Puntuación total y posición
+- Estadísticas de la sesión
+- Tiempo de juego
+
+🔥 <b>Consejos:</b>
+- Haz clic con constancia para aumentar tu puntuación
+- Mira la clasificación para conocer a tus rivales
+- Usa los botones para ir más rápido
+
+<b>Límites:</b>
+- Máximo 10 clics por segundo
+- Se aplican los límites de mensajes de Telegram
+
+¡Disfruta del juego! 🎉`,
+  'help.center': `ℹ️ <b>CENTRO DE AYUDA</b> ℹ️
+
+¡Bienvenido a Telegram Clicker Bot!
+
+Es un juego de clics en el que:
+• Haces clic para ganar puntos
+• Compites en la clasificación
+• Sigues tu progreso
+
+¡Usa los botones de abajo para saber más!`,
+  'help.howto': `🎮 <b>CÓMO JUGAR</b>
+
+1. Pulsa el botón "Empezar a jugar"
+2. Elige tu poder de clic
+3. Gana puntos con cada clic
+4. Consulta la clasificación
+5. ¡Supera a los demás jugadores!
+
+¡Así de fácil! 🎉`,
+  'help.rules': `📜 <b>REGLAS DEL JUEGO</b>
+
+• Máximo 10 clics por segundo
+• Cada clic gasta energía, que se recarga con el tiempo
+• Los clics seguidos forman un combo que da puntos extra
+• Puntos por clic: de 1 a 100
+• Solo juego limpio, ¡nada de bots!
+• Respeta los límites de velocidad
+• ¡Diviértete!`,
+  'help.commands': `⚡ <b>COMANDOS</b>
+
+Puedes moverte con los botones, pero estos comandos también funcionan:
+
+/start - Iniciar el bot
+/click - Hacer clic para ganar
+/leaderboard - Ver la clasificación
+/stats - Tus estadísticas
+/daily - Reclamar tu recompensa diaria
+/shop - Comprar mejoras
+/help - Este menú de ayuda
+/export - Descargar todos tus datos
+/clan - Tu clan
+/duel - Desafiar a un jugador`,
+  'help.faq': `❓ <b>PREGUNTAS FRECUENTES</b>
+
+P: ¿Por qué tengo un límite de velocidad?
+R: Para garantizar el juego limpio y respetar los límites de Telegram
+
+P: ¿Cómo se calculan los puntos?
+R: 1 punto por clic, más con las mejoras de la tienda
+
+P: ¿Puedo cambiar mi nombre?
+R: ¡Sí! Usa la opción Cambiar nombre del menú`,
+  'help.howtoButton': '🎮 Cómo jugar',
+  'help.rulesButton': '📜 Reglas',
+  'help.commandsButton': '⚡ Comandos',
+  'help.faqButton': '❓ Preguntas',
+
+  'changeName.page': `✏️ <b>CAMBIAR NOMBRE VISIBLE</b> ✏️
+
+Nombre actual: <b>{name}</b>
+
+Para cambiar tu nombre:
+1. Pulsa el botón de abajo
+2. Envía tu nuevo nombre
+3. Confirma el cambio
+
+Nota: esto no cambia tu nombre de usuario de Telegram`,
+  'changeName.prompt':
+    'ℹ️ <b>Cambiar nombre visible</b>\n\nNombre actual: <b>{name}</b>\n\nEnvía tu nuevo nombre visible:',
+  'changeName.placeholder': 'Escribe tu nuevo nombre...',
+  'changeName.invalidLength': 'El nombre debe tener entre 2 y 30 caracteres. Inténtalo de nuevo.',
+  'changeName.success':
+    '✅ Nombre cambiado a: <b>{name}</b>\n\n¡Tu nuevo nombre visible ya está activo!',
+
+  'settings.page': `⚙️ <b>AJUSTES</b> ⚙️
+{notice}
+Configura tu experiencia con el bot:
+
+👤 Usuario: {name}
+🆔 ID: <code>{id}</code>
+📅 Registro: {joined}
+
+🔔 Notificaciones: <b>{notifications}</b>
+🌍 Idioma: <b>{language}</b>
+🎨 Tema: <b>{theme}</b>`,
+  'settings.languageAuto': '🌐 Automático ({language})',
+  'settings.notificationsPage': `🔔 <b>NOTIFICACIONES</b> 🔔
+
+Todas las notificaciones: <b>{status}</b>
+
+{categories}
+
+<i>Si desactivas todas las notificaciones, se silencian todas las categorías.</i>`,
+  'settings.languagePage': '🌍 <b>IDIOMA</b>\n\nElige tu idioma:',
+  'settings.themePage': '🎨 <b>TEMA</b>\n\nEl tema cambia el emoji de tu botón de clic:',
+  'settings.languageSet': '✅ Idioma cambiado a {language}',
+  'settings.themeSet': '✅ Tema cambiado a {theme}',
+  'settings.clearPage': `⚠️ <b>Borrar datos</b>
+
+<b>Reiniciar progreso</b> pone tu puntuación a cero y elimina tu historial de clics, mejoras, racha y logros. Tus ajustes se conservan.
+
+<b>Eliminar cuenta</b> borra todo lo que guardamos sobre ti.
+
+Puedes hacer cualquiera de las dos una vez cada 24 horas.`,
+  'settings.resetConfirm': `⚠️ <b>¿Reiniciar tu progreso?</b>
+
+Perderás tus <b>{score}</b> puntos, mejoras, racha y logros. No se puede deshacer.
+
+Esta confirmación caduca en 2 minutos.`,
+  'settings.deleteConfirm': `⚠️ <b>¿Eliminar tu cuenta?</b>
+
+Tus <b>{score}</b> puntos y todos tus datos se borrarán para siempre. No se puede deshacer.
+
+Esta confirmación caduca en 2 minutos.`,
+  'settings.clearCooldown': '⏳ Borraste tus datos hace poco. Podrás volver a hacerlo el {date}.',
+  'settings.clearExpired': '⌛ Esa confirmación ha caducado. Empieza de nuevo.',
+  'settings.resetDone': '✅ Tu progreso se ha reiniciado. ¡Disfruta del nuevo comienzo!',
+  'settings.deleted': `👋 <b>Tu cuenta ha sido eliminada.</b>
+
+Envía /start cuando quieras volver a jugar.`,
+  'settings.notificationsButton': '{icon} Notificaciones: {status}',
+  'settings.allNotificationsButton': '{icon} Todas las notificaciones: {status}',
+  'settings.categoryButton': '{category}: {status}',
+  'settings.languageButton': '🌍 Idioma',
+  'settings.autoLanguageButton': '🌐 Automático',
+  'settings.themeButton': '🎨 Tema',
+  'settings.profileButton': '👤 Perfil',
+  'settings.clearButton': '🗑️ Borrar datos',
+  'settings.resetButton': '🔄 Reiniciar progreso',
+  'settings.deleteButton': '🗑️ Eliminar cuenta',
+
+  'inline.rankTitle': '🏆 Mi puntuación: {score} ({rank})',
+  'inline.rankCard': {
+    one: '🏆 <b>{name}</b> está en el puesto {rank} de {count} jugador con <b>{score}</b> puntos\n<i>{period}</i>',
+    other:
+      '🏆 <b>{name}</b> está en el puesto {rank} de {count} jugadores con <b>{score}</b> puntos\n<i>{period}</i>',
+  },
+  'inline.topTitle': '🥇 Top 10 jugadores',
+  'inline.challengeTitle': '⚔️ Reta a un amigo',
+  'inline.challengeDescription': 'Desafíale a superar tu puntuación',
+  'inline.challengeMessage':
+    '⚔️ ¡<b>{name}</b> te reta a superar <b>{score}</b> puntos en el juego de clics!',
+  'inline.playButton': '🎮 Jugar',
+  'inline.challengeButton': '⚔️ Aceptar el reto',
+
+  'referral.page': `🤝 <b>INVITAR AMIGOS</b> 🤝
+
+Tu enlace de invitación:
+<code>{link}</code>
+
+Cuando un amigo se una con él y llegue a <b>{threshold}</b> puntos, tú recibes <b>{inviterBonus}</b> puntos y él <b>{inviteeBonus}</b>.
+
+<b>{invited}</b>
+{list}
+
+Ganado hasta ahora: <b>{earned}</b> puntos`,
+  'referral.invited': {
+    one: '{count} amigo invitado',
+    other: '{count} amigos invitados',
+  },
+  'referral.entry': '{icon} {name} — {score}',
+  'referral.none': '<i>Nadie se ha unido con tu enlace todavía.</i>',
+  'referral.shareButton': '📤 Compartir enlace',
+  'referral.shareText': '¡Juega conmigo al juego de clics!',
+  'referral.joined':
+    '🤝 Te ha invitado <b>{name}</b>. Llega a <b>{threshold}</b> puntos y ambos recibiréis un bono: ¡<b>{bonus}</b> puntos para ti!',
+  'referral.rewardInviter':
+    '🎉 <b>¡Bono por invitación!</b>\n\n{name} ha llegado a {threshold} puntos. Has ganado <b>{points}</b> puntos.',
+  'referral.rewardInvitee':
+    '🎉 <b>¡Bono por invitación!</b>\n\nHas llegado a {threshold} puntos. Tú y {name} recibís un bono: <b>{points}</b> puntos para ti.',
+  'referral.rejected.unknown_code': 'ℹ️ Este enlace de invitación no es válido.',
+  'referral.rejected.self': 'ℹ️ No puedes usar tu propio enlace de invitación.',
+  'referral.rejected.not_new': 'ℹ️ Los enlaces de invitación solo sirven para jugadores nuevos.',
+  'referral.rejected.already_referred': 'ℹ️ Ya te uniste con un enlace de invitación.',
+
+  'clan.page': `🛡️ <b>{name}</b> 🛡️
+{notice}
+🏆 Puesto: <b>{rank}</b>
+⭐ Puntuación del equipo: <b>{score}</b>
+👥 Miembros: <b>{members}/{max}</b>
+🎖️ Tu rol: {role}
+
+Código de invitación: <code>{code}</code>
+Enlace de invitación: {link}
+
+<i>Cada punto que ganas también cuenta para tu clan.</i>`,
+  'clan.none': `🛡️ <b>CLANES</b> 🛡️
+{notice}
+Todavía no estás en un clan. Formad equipo y subid juntos en la clasificación de clanes: cada punto de un miembro cuenta para todo el clan.
+
+Funda uno: <code>/clan create Nombre</code>
+Únete a uno: <code>/clan join CÓDIGO</code> o abre un enlace de invitación`,
+  'clan.usage': `🛡️ <b>Comandos de clan</b>
+
+/clan - Tu clan
+<code>/clan create Nombre</code> - Fundar un clan
+<code>/clan join CÓDIGO</code> - Unirse con un código
+<code>/clan leave</code> - Salir de tu clan`,
+  'clan.role.owner': '👑 Líder',
+  'clan.role.officer': '⭐ Oficial',
+  'clan.role.member': '👤 Miembro',
+  'clan.members': `👥 <b>{name}</b> ({count}/{max})
+{notice}
+{list}`,
+  'clan.memberEntry': '{role} {name}',
+  'clan.manageMember': '👤 <b>{name}</b>\n{role}',
+  'clan.created': '🎉 ¡Clan <b>{name}</b> fundado! Comparte el enlace para reclutar miembros.',
+  'clan.joined': '🎉 ¡Bienvenido a <b>{name}</b>!',
+  'clan.left': '👋 Has salido de <b>{name}</b>.',
+  'clan.disbanded': '👋 Has salido de <b>{name}</b>. No quedaban miembros y se ha disuelto.',
+  'clan.leaveConfirm':
+    '¿Salir de <b>{name}</b>? Los puntos que ganaste se quedan en el clan. Si eres el líder, el oficial más antiguo toma el mando.',
+  'clan.promoted': '⬆️ {name} ahora es oficial.',
+  'clan.demoted': '⬇️ {name} ahora es miembro.',
+  'clan.kicked': '🚫 {name} ha sido expulsado del clan.',
+  'clan.error.invalid_name':
+    '⚠️ El nombre del clan debe tener de 3 a 24 caracteres: letras, números, espacios, "_" o "-".',
+  'clan.error.name_taken': '⚠️ Ese nombre de clan ya está en uso.',
+  'clan.error.unknown_code': '⚠️ Ningún clan usa este código de invitación.',
+  'clan.error.already_member': '⚠️ Ya estás en un clan. Sal de él primero.',
+  'clan.error.not_member': '⚠️ No estás en ningún clan.',
+  'clan.error.unknown_member': '⚠️ Ese jugador ya no está en tu clan.',
+  'clan.error.full': '⚠️ Este clan está lleno ({max} miembros).',
+  'clan.error.forbidden': '⚠️ Tu rol no permite hacer eso.',
+  'clan.shareButton': '📤 Compartir invitación',
+  'clan.shareText': '¡Únete a mi clan {name}!',
+  'clan.membersButton': '👥 Miembros',
+  'clan.leaveButton': '🚪 Salir del clan',
+  'clan.leaderboardButton': '🛡️ Clasificación de clanes',
+  'clan.manageButton': '⚙️ {name}',
+  'clan.promoteButton': '⬆️ Hacer oficial',
+  'clan.demoteButton': '⬇️ Hacer miembro',
+  'clan.kickButton': '🚫 Expulsar del clan',
+
+  'duel.usage': `⚔️ <b>Duelos</b>
+
+<code>/duel @usuario</code> - Desafía a un jugador: gana quien haga más clics en {seconds} segundos
+<code>/duel @usuario 500</code> - Apuesta 500 puntos cada uno; el ganador se lleva ambas apuestas`,
+  'duel.challenged': `⚔️ ¡Desafío enviado a <b>{name}</b>!
+{stake}
+
+Tiene {minutes} minutos para aceptar.`,
+  'duel.invite': `⚔️ ¡<b>{name}</b> te desafía a un duelo!
+
+Gana quien haga más clics en {seconds} segundos.
+{stake}`,
+  'duel.stake': {
+    one: '💰 Apuesta: <b>{count}</b> punto cada uno',
+    other: '💰 Apuesta: <b>{count}</b> puntos cada uno',
+  },
+  'duel.noStake': '🎲 Solo por la gloria, sin puntos en juego.',
+  'duel.started': `⚔️ <b>¡Empieza el duelo!</b> Tú contra <b>{name}</b>.
+
+Haz clic lo más rápido que puedas: ¡tienes {seconds} segundos!`,
+  'duel.declined': '🏳️ Rechazaste el duelo con <b>{name}</b>.',
+  'duel.declinedByOpponent': '🏳️ <b>{name}</b> rechazó tu duelo.',
+  'duel.result': `⚔️ <b>FIN DEL DUELO</b>
+
+{challenger}: <b>{challengerClicks}</b>
+{opponent}: <b>{opponentClicks}</b>
+
+{outcome}`,
+  'duel.winner': '🏆 ¡<b>{name}</b> gana! {prize}',
+  'duel.draw': '🤝 ¡Empate!',
+  'duel.drawRefunded': '🤝 ¡Empate! Se devolvieron ambas apuestas.',
+  'duel.error.invalid_wager': '⚠️ La apuesta debe ser un número entero de puntos.',
+  'duel.error.unknown_player':
+    '⚠️ Ningún jugador tiene ese nombre de usuario. Primero debe iniciar el bot.',
+  'duel.error.self': '⚠️ No puedes batirte en duelo contigo mismo.',
+  'duel.error.busy': '⚠️ Uno de los dos ya está en un duelo.',
+  'duel.error.insufficient_points': '⚠️ No hay puntos suficientes para cubrir la apuesta.',
+  'duel.error.expired': '⌛ Este desafío ya no está abierto.',
+  'duel.error.not_invited': '⚠️ Este desafío es para otra persona.',
+  'duel.acceptButton': '⚔️ Aceptar',
+  'duel.declineButton': '🏳️ Rechazar',
+
+  'season.badge': '{emoji} T{number}',
+  'season.badgeAwarded': `{emoji} <b>¡Terminó la temporada {number}!</b>
+
+Quedaste <b>#{rank}</b> con <b>{score}</b> puntos y ganaste una insignia de temporada.
+Ya empezó una nueva temporada, ¡suerte!`,
+
+  'event.banner': '🎉 <b>{title}</b>: ×{multiplier} puntos hasta el {end} UTC',
+  'event.started': `🎉 ¡Empezó <b>{title}</b>!
+
+Cada clic da <b>×{multiplier}</b> puntos durante {duration}. ¡A hacer clic!`,
+  'event.hours': { one: '{count} hora', other: '{count} horas' },
+  'event.usage': `🎉 <b>Eventos</b>
+/event - ver eventos en curso y próximos
+/event add &lt;multiplicador&gt; &lt;inicio&gt; &lt;horas&gt; [público] &lt;título&gt; - programar un evento
+/event cancel &lt;id&gt; - cancelar un evento
+
+El inicio es <code>now</code> o una hora UTC como <code>2025-11-08T00:00</code>.
+El público es <code>new_players</code> o <code>clan_members</code>; omítelo para todos.`,
+  'event.scheduled': `✅ <b>{title}</b> programado: ×{multiplier} para {audience}
+{start} – {end} UTC
+ID: <code>{id}</code>`,
+  'event.cancelled': '🗑️ <b>{title}</b> cancelado.',
+  'event.listTitle': '🎉 <b>Eventos</b>',
+  'event.listItem': `{status} <b>{title}</b>: ×{multiplier} para {audience}
+{start} – {end} UTC
+<code>{id}</code>`,
+  'event.none': 'No hay eventos en curso ni próximos.',
+  'event.audience.all': 'todos',
+  'event.audience.new_players': 'jugadores nuevos',
+  'event.audience.clan_members': 'miembros de clanes',
+  'event.error.invalid_multiplier': '⚠️ El multiplicador debe ser mayor que 1 y como máximo {max}.',
+  'event.error.invalid_window':
+    '⚠️ Revisa el inicio y la duración: el evento tiene que terminar en el futuro.',
+  'event.error.not_found': '⚠️ No hay ningún evento con ese ID.',
+
+  'deadLetter.usage': `📭 <b>Mensajes fallidos</b>
+/deadletters [página] - lista los mensajes que la cola no pudo enviar
+/deadletters show &lt;id&gt; - muestra uno con sus intentos
+/deadletters replay &lt;id&gt; - lo vuelve a encolar
+/deadletters purge - los borra todos`,
+  'deadLetter.listTitle': {
+    one: '📭 <b>{count} mensaje fallido</b> (página {page})',
+    other: '📭 <b>{count} mensajes fallidos</b> (página {page})',
+  },
+  'deadLetter.listItem': `{failedAt} UTC · chat <code>{chatId}</code> · {description}
+<code>{error}</code>
+ID: <code>{id}</code>`,
+  'deadLetter.none': 'No hay mensajes fallidos.',
+  'deadLetter.details': `📭 <b>Mensaje fallido</b> <code>{id}</code>
+Chat: <code>{chatId}</code>
+Canal: {channel}
+Tarea: {description}
+Error: <code>{error}</code> (código {code}, {retried})
+Falló: {failedAt} UTC
+
+<b>Intentos</b>
+{attempts}`,
+  'deadLetter.attempt': '{number}. {at} UTC: <code>{error}</code>',
+  'deadLetter.noChannel': 'ninguno',
+  'deadLetter.retried': 'reintentos agotados',
+  'deadLetter.notRetried': 'sin reintentos',
+  'deadLetter.notFound': '⚠️ No hay ningún mensaje fallido con ese ID.',
+  'deadLetter.replayed': '🔁 Mensaje fallido <code>{id}</code> encolado de nuevo.',
+  'deadLetter.purged': {
+    one: '🗑️ Se borró {count} mensaje fallido.',
+    other: '🗑️ Se borraron {count} mensajes fallidos.',
+  },
+
+  'admin.only': '⛔ Este comando solo está disponible para administradores.',
+
+  'export.preparing':
+    '📦 Preparando la exportación de tus datos. Los archivos llegarán en un momento.',
+  'export.caption':
+    '📦 <b>Exportación de tus datos</b>\n\nTodo lo que guardamos sobre ti, en JSON y CSV.',
+  'export.rateLimited': '⏳ Puedes pedir una exportación al día. Vuelve a intentarlo el {date}.',
+  'export.privateOnly': '🔒 Usa /export en un chat privado con el bot.',
+
+  'notifications.achievements': '🏆 Logros',
+  'notifications.reminders': '⏰ Recordatorios de racha',
+  'notifications.events': '🎪 Eventos',
+  'notifications.social': '👥 Social',
+
+  'theme.classic': '👆 Clásico',
+  'theme.fire': '🔥 Fuego',
+  'theme.space': '🚀 Espacio',
+};
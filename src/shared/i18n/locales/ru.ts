@@ -0,0 +1,794 @@
+import type { Catalogue } from '../types';
+
+export const ru: Catalogue = {
+  'commands.start': '🚀 Начать игру',
+  'commands.click': '👆 Кликать и зарабатывать очки',
+  'commands.leaderboard': '🏆 Лучшие игроки',
+  'commands.stats': '📊 Ваша статистика',
+  'commands.daily': '🎁 Получить ежедневную награду',
+  'commands.shop': '🛒 Купить улучшения',
+  'commands.changename': '✏️ Изменить отображаемое имя',
+  'commands.help': '❓ Помощь',
+
+  'common.useStart': 'Чтобы начать игру, отправьте /start.',
+  'common.on': 'ВКЛ',
+  'common.off': 'ВЫКЛ',
+  'common.unknownInput': 'Я не понял. Отправьте /help, чтобы увидеть список команд.',
+
+  'errors.rateLimit': 'Помедленнее! Вы кликаете слишком быстро. Подождите немного.',
+  'errors.sessionExpired': 'Ваша сессия истекла. Отправьте /start, чтобы начать заново.',
+  'errors.invalidClick': 'Недопустимый клик. Попробуйте ещё раз.',
+  'errors.database': 'Что-то пошло не так. Попробуйте позже.',
+  'errors.notFound': 'Пользователь не найден. Отправьте /start, чтобы зарегистрироваться.',
+  'errors.telegram': 'Не удалось отправить сообщение. Попробуйте ещё раз.',
+  'errors.databaseHint': '<i>Мы уже знаем о проблеме. Попробуйте позже.</i>',
+  'errors.redis': 'Временные неполадки сервиса.\n\n<i>Попробуйте ещё раз через минуту.</i>',
+  'errors.validation':
+    '<b>Ошибка проверки</b>\n\n{fields}\n\n<i>Проверьте введённые данные и попробуйте ещё раз.</i>',
+  'errors.invalidSession': 'Недействительная сессия. Отправьте /start, чтобы начать.',
+  'errors.rateLimitExceeded': `<b>Превышен лимит скорости!</b>
+
+Вы достигли максимума в <b>10 кликов в секунду</b>.
+
+Этот лимит нужен, чтобы:
+• Защитить бота от ограничений Telegram API
+• Обеспечить честную игру для всех 🏆
+• Бот работал стабильно для 100k+ пользователей`,
+  'errors.rateLimitWait': {
+    one: '⏱ Подождите <b>{count} секунду</b> и попробуйте снова.',
+    few: '⏱ Подождите <b>{count} секунды</b> и попробуйте снова.',
+    many: '⏱ Подождите <b>{count} секунд</b> и попробуйте снова.',
+    other: '⏱ Подождите <b>{count} секунды</b> и попробуйте снова.',
+  },
+  'errors.rateLimitTip': '<i>Совет: кликайте размеренно, не торопитесь!</i>',
+  'errors.telegramRateLimit': `<b>Лимит Telegram</b>
+
+Сейчас у бота высокая нагрузка. Попробуйте ещё раз через минуту.
+
+<i>Так мы защищаем бота от блокировки со стороны Telegram.</i>`,
+  'errors.telegramDetail': '<i>Ошибка {code}: {description}</i>',
+  'errors.unexpected': `<b>Непредвиденная ошибка</b>
+
+Что-то пошло не так. Мы уже знаем о проблеме.
+
+<i>Попробуйте позже.</i>`,
+  'errors.navigation': 'Произошла ошибка. Попробуйте ещё раз.',
+  'errors.queued': '❌ <b>Ошибка</b>\n\n{message}',
+
+  'buttons.startClicking': '👆 Начать кликать',
+  'buttons.leaderboard': '🏆 Рейтинг',
+  'buttons.myStats': '⭐ Моя статистика',
+  'buttons.help': 'ℹ️ Помощь',
+  'buttons.dailyReward': '🎁 Ежедневная награда',
+  'buttons.shop': '🛒 Магазин',
+  'buttons.changeName': '✏️ Сменить имя',
+  'buttons.settings': '⚙️ Настройки',
+  'buttons.click': '👆 Клик',
+  'buttons.clickAgain': '👆 Ещё клик!',
+  'buttons.mainMenu': '🏠 Главное меню',
+  'buttons.back': '⬅️ Назад',
+  'buttons.previous': '⬅️ Назад',
+  'buttons.next': '➡️ Далее',
+  'buttons.yes': '✅ Да',
+  'buttons.no': '❌ Нет',
+  'buttons.tryAgain': '🔄 Повторить',
+  'buttons.startPlaying': '👆 Играть',
+  'buttons.referrals': '🤝 Пригласить друзей',
+  'buttons.clan': '🛡️ Клан',
+
+  'start.userNotFound': 'Ошибка: пользователь не найден. Попробуйте ещё раз.',
+  'start.welcome': `🚀 <b>Добро пожаловать в Telegram Clicker Bot!</b> 🚀
+
+Привет, {name}!
+
+👆 Кликайте, зарабатывайте очки и поднимайтесь в рейтинге!
+🏆 Соревнуйтесь с другими игроками
+🔥 Покажите, на что вы способны!
+
+Ваш текущий счёт: <b>{score}</b>
+
+<b>Доступные команды:</b>
+/click - 👆 Начать кликать
+/leaderboard - 🏆 Лучшие игроки
+/stats - ⭐ Ваша статистика
+/changename - ℹ️ Сменить отображаемое имя
+/help - ℹ️ Помощь
+
+Начнём! 🎉`,
+  'start.challenged': '⚔️ <b>{name}</b> вызывает вас побить рекорд в <b>{score}</b> очков. Удачи!',
+
+  'menu.useStart': 'Чтобы начать, отправьте /start',
+  'menu.text': `🚀 <b>Telegram Clicker Bot</b> 🚀
+
+С возвращением, {name}!
+Ваш счёт: <b>{score}</b>
+
+Что будем делать?`,
+
+  'click.points': {
+    one: '+{count} очко',
+    few: '+{count} очка',
+    many: '+{count} очков',
+    other: '+{count} очка',
+  },
+  'click.critical': '<b>КРИТ!</b>',
+  'click.critChance': ' ({percent}% шанс крита)',
+  'click.ready': '✅ Можно кликать!',
+  'click.rateLimited': '⏳ Лимит - подождите немного',
+  'click.waitAlert': 'Подождите, пока лимит обновится...',
+  'click.energy': '🔋 Энергия: <b>{current}/{max}</b> (+{regen}/мин)',
+  'click.outOfEnergy': '🪫 Энергия закончилась! Восстановится через {time}',
+  'click.refillMinutes': {
+    one: '{count} минуту',
+    few: '{count} минуты',
+    many: '{count} минут',
+    other: '{count} минуты',
+  },
+  'click.combo':
+    '🔥 Комбо <b>{count}</b> (×{multiplier}) - кликните в течение {seconds} с, чтобы сохранить',
+  'click.comboFading': '🧊 Комбо <b>{count}</b> угасает - исчезнет через {seconds} с',
+  'click.button': '{emoji} Клик! {emoji}',
+  'click.rateLimitedButton': '⏳ Лимит - подождите',
+  'click.page': `{emoji} <b>ЗОНА КЛИКОВ</b> {emoji}
+
+Ваш счёт: <b>{score}</b>
+{energy}
+
+Каждый клик = {power}{crit}
+{combo}{event}
+{status}`,
+  'click.result': `{emoji} <b>Клик засчитан!</b>
+
+✨ {points}{critical}
+🏆 Общий счёт: <b>{score}</b>
+✨ Ожидает сохранения: {pending}
+{combo}{event}
+{energy}`,
+  'click.commandResult': `👆 <b>Клик засчитан!</b>
+
+✨ {points}{critical}
+🏆 Общий счёт: <b>{score}</b>
+🔥 Кликов за сессию: <b>{sessionClicks}</b>
+✨ Ожидает сохранения в БД: <b>{pending}</b>
+
+{energy}`,
+
+  'shop.page': `🛒 <b>МАГАЗИН УЛУЧШЕНИЙ</b> 🛒
+{notice}
+Ваши очки: <b>{points}</b>
+
+{upgrades}
+
+<i>Улучшения оплачиваются очками и уменьшают ваш счёт.</i>`,
+  'shop.buyButton': '{emoji} {title} - {price} оч.',
+  'shop.bought': '✅ Куплено: {emoji} <b>{title}</b>, уровень {level}, за {price} оч.!',
+  'shop.notEnough': '❌ Недостаточно очков: нужно <b>{required}</b>, у вас <b>{available}</b>.',
+  'shop.upgrade': `{emoji} <b>{title}</b> (ур. {level}/{maxLevel})
+<i>{description}</i>
+Сейчас: {effect} • {next}`,
+  'shop.next': 'Далее: {effect} за {price} оч.',
+  'shop.maxLevel': 'МАКС. УРОВЕНЬ',
+  'shop.effect.clickMultiplier': '+{value} за клик',
+  'shop.effect.autoClicker': '{value} оч./мин',
+  'shop.effect.critChance': '{value}% шанс крита',
+  'shop.effect.maxEnergy': '+{value} к макс. энергии',
+  'shop.effect.energyRegen': '+{value} энергии/мин',
+  'upgrades.powerFinger.title': 'Сильный палец',
+  'upgrades.powerFinger.description': 'Каждый клик приносит на одно очко больше',
+  'upgrades.autoClicker.title': 'Автокликер',
+  'upgrades.autoClicker.description': 'Приносит очки каждую минуту, даже когда вас нет',
+  'upgrades.luckyStrike.title': 'Удачный удар',
+  'upgrades.luckyStrike.description': 'Шанс, что клик принесёт в 5 раз больше очков',
+  'upgrades.energyTank.title': 'Бак энергии',
+  'upgrades.energyTank.description': 'Больше энергии для долгих сессий',
+  'upgrades.quickCharge.title': 'Быстрая зарядка',
+  'upgrades.quickCharge.description': 'Энергия восстанавливается быстрее',
+
+  'daily.page': `🎁 <b>ЕЖЕДНЕВНАЯ НАГРАДА</b> 🎁
+{notice}
+{current}
+{best}
+
+{status}
+
+<i>Награда растёт каждый день до 7-го дня. Пропустите день (по UTC) - и серия начнётся заново.</i>`,
+  'daily.currentStreak': {
+    one: '🔥 Текущая серия: <b>{count}</b> день',
+    few: '🔥 Текущая серия: <b>{count}</b> дня',
+    many: '🔥 Текущая серия: <b>{count}</b> дней',
+    other: '🔥 Текущая серия: <b>{count}</b> дня',
+  },
+  'daily.bestStreak': {
+    one: '🏅 Лучшая серия: <b>{count}</b> день',
+    few: '🏅 Лучшая серия: <b>{count}</b> дня',
+    many: '🏅 Лучшая серия: <b>{count}</b> дней',
+    other: '🏅 Лучшая серия: <b>{count}</b> дня',
+  },
+  'daily.todayReward': 'Награда за сегодня: <b>{reward}</b> оч.',
+  'daily.claimedToday': '✅ Сегодня уже получено. Возвращайтесь завтра за <b>{reward}</b> оч.!',
+  'daily.claimed': '🎉 <b>+{reward} оч.!</b> День {day} вашей серии.',
+  'daily.alreadyClaimed': 'ℹ️ Вы уже получили сегодняшнюю награду.',
+  'daily.remindersOff': '🔕 Напоминания о серии выключены.',
+  'daily.remindersOn': '🔔 Мы напомним вечером, если ваша серия будет под угрозой.',
+  'daily.claimButton': '🎁 Забрать награду',
+  'daily.remindersButton': '{icon} Напоминания о серии: {status}',
+  'daily.reminder': {
+    one: `⚠️ <b>Ваша серия в {count} день вот-вот прервётся!</b>
+
+Заберите сегодняшнюю награду в <b>{reward}</b> оч. до полуночи по UTC.`,
+    few: `⚠️ <b>Ваша серия в {count} дня вот-вот прервётся!</b>
+
+Заберите сегодняшнюю награду в <b>{reward}</b> оч. до полуночи по UTC.`,
+    many: `⚠️ <b>Ваша серия в {count} дней вот-вот прервётся!</b>
+
+Заберите сегодняшнюю награду в <b>{reward}</b> оч. до полуночи по UTC.`,
+    other: `⚠️ <b>Ваша серия в {count} дня вот-вот прервётся!</b>
+
+Заберите сегодняшнюю награду в <b>{reward}</b> оч. до полуночи по UTC.`,
+  },
+
+  'leaderboard.period.global': '🌍 За всё время',
+  'leaderboard.period.season': '🏁 Этот сезон',
+  'leaderboard.period.daily': '📅 Сегодня',
+  'leaderboard.period.weekly': '🗓️ Эта неделя',
+  'leaderboard.period.monthly': '📆 Этот месяц',
+  'leaderboard.pageTitle': '🏆 <b>РЕЙТИНГ - Страница {page}</b> 🏆',
+  'leaderboard.topTitle': '🏆 <b>ТОП-10</b> 🏆',
+  'leaderboard.empty': 'Игроков пока нет. Станьте первым!',
+  'leaderboard.yourPosition': '📍 Ваше место: #{rank}',
+  'leaderboard.yourPositionHeader': '<b>Ваше место:</b>',
+  'leaderboard.totalPlayers': '👥 Всего игроков: <b>{count}</b>',
+  'leaderboard.groupOnly': 'ℹ️ Рейтинг группы доступен только в групповых чатах.',
+  'leaderboard.groupTitle': '🏆 <b>РЕЙТИНГ ГРУППЫ</b> 🏆',
+  'leaderboard.groupEmpty': 'В этой группе ещё никто не кликал. Отправьте /click, чтобы начать!',
+  'leaderboard.groupPlayers': 'ℹ️ Игроков в группе: <b>{count}</b>',
+  'leaderboard.pageButton': '📄 Стр. {page}',
+  'leaderboard.myPositionButton': '📊 Моё место',
+  'leaderboard.clansTab': '🛡️ Кланы',
+  'leaderboard.noClans': 'Кланов пока нет. Создайте первый: /clan create Название!',
+  'leaderboard.yourClan': '🛡️ Ваш клан: #{rank}',
+  'leaderboard.totalClans': '🛡️ Всего кланов: <b>{count}</b>',
+  'position.title': '📍 <b>ВАШЕ МЕСТО</b> 📍',
+  'position.player': 'Игрок',
+  'position.unranked': 'Вас пока нет в рейтинге. Начните кликать!',
+
+  'stats.unranked': 'Без места',
+  'stats.notAvailable': 'Н/Д',
+  'stats.full': `⭐ <b>ВАША СТАТИСТИКА</b> ⭐
+
+<b>Игрок:</b> {name}
+<b>ID:</b> <code>{id}</code>
+
+🏆 <b>Счёт и рейтинг</b>
+Общий счёт: <b>{score}</b>
+Место в рейтинге: <b>{rank}</b>
+Место 24 ч назад: <b>{rankAgo}</b>
+Ожидающие клики: <b>{pending}</b>
+
+🏁 <b>Сезон {seasonNumber}</b>
+Счёт за сезон: <b>{seasonScore}</b>
+Место в сезоне: <b>{seasonRank}</b>
+Окончание: <b>{seasonEnds}</b>
+Значки: {badges}
+
+👆 <b>Сессия</b>
+Кликов за сессию: <b>{sessionClicks}</b>
+Активных сессий: <b>{activeSessions}</b>
+Начало сессии: <b>{sessionStarted}</b>
+
+ℹ️ <b>Аккаунт</b>
+В игре: <b>{days} д {hours} ч</b>
+Регистрация: <b>{joined}</b>
+Обновлено: <b>{updated}</b>
+
+🔥 Кликайте дальше, чтобы подняться выше!`,
+  'stats.page': `⭐ <b>ВАША СТАТИСТИКА</b> ⭐
+
+👤 Игрок: {name}
+🏆 Счёт: <b>{score}</b>
+🏅 Место: <b>{rank}</b>
+
+📊 Сессия:
+• Клики: {sessionClicks}
+• Ожидают: {pending}
+• Начало: {sessionStarted}
+
+Кликайте, чтобы подняться выше! 🔥`,
+  'stats.detailed': `📈 <b>ПОДРОБНАЯ СТАТИСТИКА</b> 📈
+<i>{range}</i>
+
+{chart}
+
+📊 Всего: <b>{total}</b>{change}
+🏆 Лучший день: {bestDay}
+🎯 В среднем за сессию: {average} ({sessions})
+⏰ Самый активный час: {busiestHour}`,
+  'stats.period.day': '📅 День',
+  'stats.period.week': '🗓️ Неделя',
+  'stats.period.month': '📆 Месяц',
+  'stats.change.day': ' ({change}% к предыдущему дню)',
+  'stats.change.week': ' ({change}% к предыдущей неделе)',
+  'stats.change.month': ' ({change}% к предыдущему месяцу)',
+  'stats.bestDay': '{day} ({clicks})',
+  'stats.sessions': {
+    one: '{count} сессия',
+    few: '{count} сессии',
+    many: '{count} сессий',
+    other: '{count} сессии',
+  },
+  'stats.busiestHour': '{from}:00–{to}:00 UTC',
+  'stats.noClicks': '<i>В этом периоде кликов нет.</i>',
+  'stats.none': '—',
+  'stats.olderButton': '◀️ Раньше',
+  'stats.newerButton': 'Позже ▶️',
+  'stats.chartsButton': '🖼️ Графики',
+  'stats.chartScoreCaption': '📈 <b>Набранные очки</b> — {range}',
+  'stats.chartClicksCaption': '📊 <b>Клики</b> — {range}',
+  'stats.detailedButton': '📈 Подробнее',
+  'stats.achievementsButton': '🏆 Достижения',
+
+  'achievements.page': `🏆 <b>ДОСТИЖЕНИЯ</b> 🏆
+
+{list}
+
+Открыто: <b>{unlocked}/{total}</b>
+Ваш уровень: {tier}`,
+  'achievements.tier.legend': '🏆 ЛЕГЕНДА!',
+  'achievements.tier.master': '🥇 Мастер',
+  'achievements.tier.expert': '🥈 Эксперт',
+  'achievements.tier.advanced': '🥉 Продвинутый',
+  'achievements.tier.beginner': '⭐ Начинающий',
+  'achievements.tier.newcomer': '🌱 Новичок',
+  'achievements.unlocked': `🎉 <b>Достижение получено!</b>
+
+{emoji} <b>{title}</b>
+<i>{description}</i>`,
+  'achievements.firstCentury.title': 'Первая сотня',
+  'achievements.firstCentury.description': '100 очков',
+  'achievements.thousandClub.title': 'Клуб тысячи',
+  'achievements.thousandClub.description': '1 000 очков',
+  'achievements.tenKMaster.title': 'Мастер 10 тысяч',
+  'achievements.tenKMaster.description': '10 000 очков',
+  'achievements.hundredKLegend.title': 'Легенда 100 тысяч',
+  'achievements.hundredKLegend.description': '100 000 очков',
+  'achievements.millionaire.title': 'Миллионер',
+  'achievements.millionaire.description': '1 000 000 очков',
+  'achievements.warmingUp.title': 'Разминка',
+  'achievements.warmingUp.description': '50 кликов за сессию',
+  'achievements.marathon.title': 'Марафон',
+  'achievements.marathon.description': '500 кликов за сессию',
+  'achievements.regular.title': 'Завсегдатай',
+  'achievements.regular.description': 'Серия из 3 дней',
+  'achievements.dedicated.title': 'Преданный игрок',
+  'achievements.dedicated.description': 'Серия из 7 дней',
+  'achievements.topHundred.title': 'Топ-100',
+  'achievements.topHundred.description': 'Займите 100-е место',
+  'achievements.topTen.title': 'Топ-10',
+  'achievements.topTen.description': 'Займите 10-е место',
+  'achievements.champion.title': 'Чемпион',
+  'achievements.champion.description': 'Займите 1-е место',
+
+  'help.full': `ℹ️ <b>ПОМОЩЬ ПО TELEGRAM CLICKER BOT</b> ℹ️
+
+<b>Как играть:</b>
+1. Отправьте /click, чтобы заработать очки
+2. Соревнуйтесь с другими игроками в рейтинге
+3. Следите за статистикой и поднимайтесь выше!
+
+<b>Доступные команды:</b>
+{commands}
+
+<b>Возможности игры:</b>
+👆 <b>Клики</b>
+- Каждый клик даёт 1 очко, с улучшениями больше
+- Есть лимит скорости против спама
+- Очки сохраняются автоматически
+
+🏆 <b>Рейтинг</b>
+- Глобальный рейтинг в реальном времени
+- Топ-10 игроков
+- Ваше место в рейтинге
+- Рейтинги за день, неделю и месяц: /leaderboard daily
+- Рейтинг группы: /leaderboard group (в группах)
+
+🎁 <b>Ежедневная награда</b>
+- Забирайте награду каждый день через /daily
+- Награда растёт с каждым днём подряд
+- Включите напоминания, чтобы не прервать серию
+
+🛒 <b>Магазин улучшений</b>
+- Тратьте очки на улучшения через /shop
+- Сильный палец: больше очков за клик
+- Автокликер: приносит очки каждую минуту
+- Удачный удар: шанс критического клика x5
+
+⭐ <b>Статистика</b>
+- Общий счёт и место
+- Статистика сессии
+- Время в игре
+
+🔥 <b>Советы:</b>
+- Кликайте регулярно, чтобы наращивать счёт
+- Следите за рейтингом и соперниками
+- Пользуйтесь кнопками для быстрых действий
+
+<b>Ограничения:</b>
+- Не больше 10 кликов в секунду
+- Действуют лимиты сообщений Telegram
+
+Приятной игры! 🎉`,
+  'help.center': `ℹ️ <b>ЦЕНТР ПОМОЩИ</b> ℹ️
+
+Добро пожаловать в Telegram Clicker Bot!
+
+Это весёлая игра, в которой вы:
+• Кликаете и зарабатываете очки
+• Соревнуетесь в рейтинге
+• Следите за своим прогрессом
+
+Нажмите кнопку ниже, чтобы узнать больше!`,
+  'help.howto': `🎮 <b>КАК ИГРАТЬ</b>
+
+1. Нажмите кнопку "Начать кликать"
+2. Выберите силу клика
+3. Получайте очки за каждый клик
+4. Загляните в рейтинг
+5. Обгоните других игроков!
+
+Вот и всё! 🎉`,
+  'help.rules': `📜 <b>ПРАВИЛА ИГРЫ</b>
+
+• Не больше 10 кликов в секунду
+• Каждый клик тратит энергию, которая восстанавливается со временем
+• Быстрые клики подряд собирают комбо с бонусными очками
+• От 1 до 100 очков за клик
+• Только честная игра - никаких ботов!
+• Соблюдайте лимиты скорости
+• Получайте удовольствие!`,
+  'help.commands': `⚡ <b>КОМАНДЫ</b>
+
+Можно пользоваться кнопками, но эти команды тоже работают:
+
+/start - Запустить бота
+/click - Кликнуть
+/leaderboard - Рейтинг
+/stats - Ваша статистика
+/daily - Ежедневная награда
+/shop - Купить улучшения
+/help - Это меню помощи
+/export - Скачать все ваши данные
+/clan - Ваш клан
+/duel - Вызвать игрока на дуэль`,
+  'help.faq': `❓ <b>ЧАСТЫЕ ВОПРОСЫ</b>
+
+В: Почему у меня лимит скорости?
+О: Чтобы игра была честной и соблюдались ограничения Telegram
+
+В: Как начисляются очки?
+О: 1 очко за клик, больше с улучшениями из магазина
+
+В: Можно ли сменить имя?
+О: Да! Выберите «Сменить имя» в меню`,
+  'help.howtoButton': '🎮 Как играть',
+  'help.rulesButton': '📜 Правила',
+  'help.commandsButton': '⚡ Команды',
+  'help.faqButton': '❓ Вопросы',
+
+  'changeName.page': `✏️ <b>СМЕНА ИМЕНИ</b> ✏️
+
+Текущее имя: <b>{name}</b>
+
+Чтобы сменить имя:
+1. Нажмите кнопку ниже
+2. Отправьте новое имя
+3. Подтвердите изменение
+
+Примечание: ваше имя пользователя в Telegram не изменится`,
+  'changeName.prompt':
+    'ℹ️ <b>Смена имени</b>\n\nТекущее имя: <b>{name}</b>\n\nОтправьте новое отображаемое имя:',
+  'changeName.placeholder': 'Введите новое имя...',
+  'changeName.invalidLength': 'Имя должно содержать от 2 до 30 символов. Попробуйте ещё раз.',
+  'changeName.success': '✅ Имя изменено на: <b>{name}</b>\n\nНовое имя уже отображается!',
+
+  'settings.page': `⚙️ <b>НАСТРОЙКИ</b> ⚙️
+{notice}
+Настройте бота под себя:
+
+👤 Пользователь: {name}
+🆔 ID: <code>{id}</code>
+📅 Регистрация: {joined}
+
+🔔 Уведомления: <b>{notifications}</b>
+🌍 Язык: <b>{language}</b>
+🎨 Тема: <b>{theme}</b>`,
+  'settings.languageAuto': '🌐 Автоматически ({language})',
+  'settings.notificationsPage': `🔔 <b>УВЕДОМЛЕНИЯ</b> 🔔
+
+Все уведомления: <b>{status}</b>
+
+{categories}
+
+<i>Если выключить все уведомления, будут отключены все категории.</i>`,
+  'settings.languagePage': '🌍 <b>ЯЗЫК</b>\n\nВыберите язык:',
+  'settings.themePage': '🎨 <b>ТЕМА</b>\n\nТема меняет эмодзи на кнопке клика:',
+  'settings.languageSet': '✅ Язык изменён: {language}',
+  'settings.themeSet': '✅ Тема изменена: {theme}',
+  'settings.clearPage': `⚠️ <b>Удаление данных</b>
+
+<b>Сброс прогресса</b> обнуляет счёт и удаляет историю кликов, улучшения, серию и достижения. Настройки сохраняются.
+
+<b>Удаление аккаунта</b> стирает все данные о вас.
+
+Любое из действий доступно раз в 24 часа.`,
+  'settings.resetConfirm': `⚠️ <b>Сбросить прогресс?</b>
+
+Ваши <b>{score}</b> очков, улучшения, серия и достижения будут потеряны. Это нельзя отменить.
+
+Подтверждение действует 2 минуты.`,
+  'settings.deleteConfirm': `⚠️ <b>Удалить аккаунт?</b>
+
+Ваши <b>{score}</b> очков и все данные будут удалены навсегда. Это нельзя отменить.
+
+Подтверждение действует 2 минуты.`,
+  'settings.clearCooldown': '⏳ Вы недавно удаляли данные. Повторить можно {date}.',
+  'settings.clearExpired': '⌛ Срок подтверждения истёк. Начните заново.',
+  'settings.resetDone': '✅ Прогресс сброшен. Удачного нового старта!',
+  'settings.deleted': `👋 <b>Ваш аккаунт удалён.</b>
+
+Отправьте /start, когда захотите снова играть.`,
+  'settings.notificationsButton': '{icon} Уведомления: {status}',
+  'settings.allNotificationsButton': '{icon} Все уведомления: {status}',
+  'settings.categoryButton': '{category}: {status}',
+  'settings.languageButton': '🌍 Язык',
+  'settings.autoLanguageButton': '🌐 Автоматически',
+  'settings.themeButton': '🎨 Тема',
+  'settings.profileButton': '👤 Профиль',
+  'settings.clearButton': '🗑️ Удалить данные',
+  'settings.resetButton': '🔄 Сбросить прогресс',
+  'settings.deleteButton': '🗑️ Удалить аккаунт',
+
+  'inline.rankTitle': '🏆 Мой счёт: {score} ({rank})',
+  'inline.rankCard': {
+    one: '🏆 <b>{name}</b> на месте {rank} из {count} игрока с <b>{score}</b> очками\n<i>{period}</i>',
+    few: '🏆 <b>{name}</b> на месте {rank} из {count} игроков с <b>{score}</b> очками\n<i>{period}</i>',
+    many: '🏆 <b>{name}</b> на месте {rank} из {count} игроков с <b>{score}</b> очками\n<i>{period}</i>',
+    other:
+      '🏆 <b>{name}</b> на месте {rank} из {count} игрока с <b>{score}</b> очками\n<i>{period}</i>',
+  },
+  'inline.topTitle': '🥇 Топ-10 игроков',
+  'inline.challengeTitle': '⚔️ Бросить вызов другу',
+  'inline.challengeDescription': 'Предложите побить ваш рекорд',
+  'inline.challengeMessage':
+    '⚔️ <b>{name}</b> вызывает вас побить <b>{score}</b> очков в игре-кликере!',
+  'inline.playButton': '🎮 Играть',
+  'inline.challengeButton': '⚔️ Принять вызов',
+
+  'referral.page': `🤝 <b>ПРИГЛАСИТЬ ДРУЗЕЙ</b> 🤝
+
+Ваша ссылка-приглашение:
+<code>{link}</code>
+
+Когда друг присоединится по ней и наберёт <b>{threshold}</b> очков, вы получите <b>{inviterBonus}</b> очков, а он — <b>{inviteeBonus}</b>.
+
+<b>{invited}</b>
+{list}
+
+Заработано: <b>{earned}</b> очков`,
+  'referral.invited': {
+    one: 'Приглашён {count} друг',
+    few: 'Приглашено {count} друга',
+    many: 'Приглашено {count} друзей',
+    other: 'Приглашено {count} друга',
+  },
+  'referral.entry': '{icon} {name} — {score}',
+  'referral.none': '<i>По вашей ссылке ещё никто не присоединился.</i>',
+  'referral.shareButton': '📤 Поделиться ссылкой',
+  'referral.shareText': 'Играй со мной в кликер!',
+  'referral.joined':
+    '🤝 Вас пригласил <b>{name}</b>. Наберите <b>{threshold}</b> очков, и вы оба получите бонус: <b>{bonus}</b> очков для вас!',
+  'referral.rewardInviter':
+    '🎉 <b>Бонус за приглашение!</b>\n\n{name} набрал(а) {threshold} очков. Вы получили <b>{points}</b> очков.',
+  'referral.rewardInvitee':
+    '🎉 <b>Бонус за приглашение!</b>\n\nВы набрали {threshold} очков. Вы и {name} получаете бонус: <b>{points}</b> очков для вас.',
+  'referral.rejected.unknown_code': 'ℹ️ Эта ссылка-приглашение недействительна.',
+  'referral.rejected.self': 'ℹ️ Нельзя использовать собственную ссылку-приглашение.',
+  'referral.rejected.not_new': 'ℹ️ Ссылки-приглашения работают только для новых игроков.',
+  'referral.rejected.already_referred': 'ℹ️ Вы уже присоединились по ссылке-приглашению.',
+
+  'clan.page': `🛡️ <b>{name}</b> 🛡️
+{notice}
+🏆 Место: <b>{rank}</b>
+⭐ Очки команды: <b>{score}</b>
+👥 Участники: <b>{members}/{max}</b>
+🎖️ Ваша роль: {role}
+
+Код приглашения: <code>{code}</code>
+Ссылка-приглашение: {link}
+
+<i>Каждое ваше очко засчитывается и клану.</i>`,
+  'clan.none': `🛡️ <b>КЛАНЫ</b> 🛡️
+{notice}
+Вы пока не состоите в клане. Объединяйтесь и поднимайтесь в рейтинге кланов вместе: каждое очко участника идёт в копилку всего клана.
+
+Создать клан: <code>/clan create Название</code>
+Вступить: <code>/clan join КОД</code> или откройте ссылку-приглашение`,
+  'clan.usage': `🛡️ <b>Команды клана</b>
+
+/clan - Ваш клан
+<code>/clan create Название</code> - Создать клан
+<code>/clan join КОД</code> - Вступить по коду
+<code>/clan leave</code> - Покинуть клан`,
+  'clan.role.owner': '👑 Глава',
+  'clan.role.officer': '⭐ Офицер',
+  'clan.role.member': '👤 Участник',
+  'clan.members': `👥 <b>{name}</b> ({count}/{max})
+{notice}
+{list}`,
+  'clan.memberEntry': '{role} {name}',
+  'clan.manageMember': '👤 <b>{name}</b>\n{role}',
+  'clan.created': '🎉 Клан <b>{name}</b> создан! Поделитесь ссылкой, чтобы набрать участников.',
+  'clan.joined': '🎉 Добро пожаловать в <b>{name}</b>!',
+  'clan.left': '👋 Вы покинули <b>{name}</b>.',
+  'clan.disbanded': '👋 Вы покинули <b>{name}</b>. В клане никого не осталось, и он распущен.',
+  'clan.leaveConfirm':
+    'Покинуть <b>{name}</b>? Заработанные очки останутся клану. Если вы глава, руководство перейдёт к самому опытному офицеру.',
+  'clan.promoted': '⬆️ {name} теперь офицер.',
+  'clan.demoted': '⬇️ {name} теперь участник.',
+  'clan.kicked': '🚫 {name} исключён из клана.',
+  'clan.error.invalid_name':
+    '⚠️ Название клана — от 3 до 24 символов: буквы, цифры, пробелы, «_» или «-».',
+  'clan.error.name_taken': '⚠️ Это название уже занято.',
+  'clan.error.unknown_code': '⚠️ Клана с таким кодом нет.',
+  'clan.error.already_member': '⚠️ Вы уже состоите в клане. Сначала покиньте его.',
+  'clan.error.not_member': '⚠️ Вы не состоите в клане.',
+  'clan.error.unknown_member': '⚠️ Этот игрок больше не в вашем клане.',
+  'clan.error.full': '⚠️ В клане нет мест ({max} участников).',
+  'clan.error.forbidden': '⚠️ Ваша роль не позволяет этого.',
+  'clan.shareButton': '📤 Поделиться приглашением',
+  'clan.shareText': 'Вступай в мой клан {name}!',
+  'clan.membersButton': '👥 Участники',
+  'clan.leaveButton': '🚪 Покинуть клан',
+  'clan.leaderboardButton': '🛡️ Рейтинг кланов',
+  'clan.manageButton': '⚙️ {name}',
+  'clan.promoteButton': '⬆️ Сделать офицером',
+  'clan.demoteButton': '⬇️ Сделать участником',
+  'clan.kickButton': '🚫 Исключить из клана',
+
+  'duel.usage': `⚔️ <b>Дуэли</b>
+
+<code>/duel @username</code> - Вызвать игрока: побеждает тот, кто сделает больше кликов за {seconds} секунд
+<code>/duel @username 500</code> - Ставка по 500 очков; победитель забирает обе ставки`,
+  'duel.challenged': `⚔️ Вызов отправлен игроку <b>{name}</b>!
+{stake}
+
+На ответ у него {minutes} минут.`,
+  'duel.invite': `⚔️ <b>{name}</b> вызывает вас на дуэль!
+
+Побеждает тот, кто сделает больше кликов за {seconds} секунд.
+{stake}`,
+  'duel.stake': {
+    one: '💰 Ставка: <b>{count}</b> очко с каждого',
+    few: '💰 Ставка: <b>{count}</b> очка с каждого',
+    many: '💰 Ставка: <b>{count}</b> очков с каждого',
+    other: '💰 Ставка: <b>{count}</b> очка с каждого',
+  },
+  'duel.noStake': '🎲 Только ради славы, без ставки.',
+  'duel.started': `⚔️ <b>Дуэль началась!</b> Вы против <b>{name}</b>.
+
+Кликайте как можно быстрее: у вас {seconds} секунд!`,
+  'duel.declined': '🏳️ Вы отклонили дуэль с <b>{name}</b>.',
+  'duel.declinedByOpponent': '🏳️ <b>{name}</b> отклонил вашу дуэль.',
+  'duel.result': `⚔️ <b>ДУЭЛЬ ОКОНЧЕНА</b>
+
+{challenger}: <b>{challengerClicks}</b>
+{opponent}: <b>{opponentClicks}</b>
+
+{outcome}`,
+  'duel.winner': '🏆 Побеждает <b>{name}</b>! {prize}',
+  'duel.draw': '🤝 Ничья!',
+  'duel.drawRefunded': '🤝 Ничья! Обе ставки возвращены.',
+  'duel.error.invalid_wager': '⚠️ Ставка должна быть целым числом очков.',
+  'duel.error.unknown_player':
+    '⚠️ Игрока с таким именем пользователя нет. Сначала ему нужно запустить бота.',
+  'duel.error.self': '⚠️ Нельзя вызвать на дуэль самого себя.',
+  'duel.error.busy': '⚠️ Один из вас уже участвует в дуэли.',
+  'duel.error.insufficient_points': '⚠️ Недостаточно очков для ставки.',
+  'duel.error.expired': '⌛ Этот вызов больше не действует.',
+  'duel.error.not_invited': '⚠️ Этот вызов адресован другому игроку.',
+  'duel.acceptButton': '⚔️ Принять',
+  'duel.declineButton': '🏳️ Отклонить',
+
+  'season.badge': '{emoji} С{number}',
+  'season.badgeAwarded': `{emoji} <b>Сезон {number} завершён!</b>
+
+Вы заняли <b>#{rank}</b> место со счётом <b>{score}</b> и получили сезонный значок.
+Начался новый сезон, удачи!`,
+
+  'event.banner': '🎉 <b>{title}</b>: ×{multiplier} очков до {end} UTC',
+  'event.started': `🎉 Начался ивент <b>{title}</b>!
+
+Каждый клик приносит <b>×{multiplier}</b> очков в течение {duration}. Кликайте!`,
+  'event.hours': {
+    one: '{count} часа',
+    few: '{count} часов',
+    many: '{count} часов',
+    other: '{count} часа',
+  },
+  'event.usage': `🎉 <b>Ивенты</b>
+/event - текущие и предстоящие ивенты
+/event add &lt;множитель&gt; &lt;начало&gt; &lt;часы&gt; [аудитория] &lt;название&gt; - запланировать ивент
+/event cancel &lt;id&gt; - отменить ивент
+
+Начало: <code>now</code> или время UTC, например <code>2025-11-08T00:00</code>.
+Аудитория: <code>new_players</code> или <code>clan_members</code>; не указывайте её, чтобы ивент был для всех.`,
+  'event.scheduled': `✅ Ивент <b>{title}</b> запланирован: ×{multiplier} для аудитории «{audience}»
+{start} – {end} UTC
+ID: <code>{id}</code>`,
+  'event.cancelled': '🗑️ Ивент <b>{title}</b> отменён.',
+  'event.listTitle': '🎉 <b>Ивенты</b>',
+  'event.listItem': `{status} <b>{title}</b>: ×{multiplier}, аудитория «{audience}»
+{start} – {end} UTC
+<code>{id}</code>`,
+  'event.none': 'Нет текущих или предстоящих ивентов.',
+  'event.audience.all': 'все',
+  'event.audience.new_players': 'новые игроки',
+  'event.audience.clan_members': 'участники кланов',
+  'event.error.invalid_multiplier': '⚠️ Множитель должен быть больше 1 и не больше {max}.',
+  'event.error.invalid_window':
+    '⚠️ Проверьте начало и длительность: ивент должен закончиться в будущем.',
+  'event.error.not_found': '⚠️ Ивент с таким ID не найден.',
+
+  'deadLetter.usage': `📭 <b>Недоставленные сообщения</b>
+/deadletters [страница] - сообщения, которые очередь не смогла отправить
+/deadletters show &lt;id&gt; - одно сообщение и его попытки
+/deadletters replay &lt;id&gt; - поставить в очередь снова
+/deadletters purge - удалить все`,
+  'deadLetter.listTitle': {
+    one: '📭 <b>{count} недоставленное сообщение</b> (страница {page})',
+    few: '📭 <b>{count} недоставленных сообщения</b> (страница {page})',
+    many: '📭 <b>{count} недоставленных сообщений</b> (страница {page})',
+    other: '📭 <b>{count} недоставленных сообщения</b> (страница {page})',
+  },
+  'deadLetter.listItem': `{failedAt} UTC · чат <code>{chatId}</code> · {description}
+<code>{error}</code>
+ID: <code>{id}</code>`,
+  'deadLetter.none': 'Недоставленных сообщений нет.',
+  'deadLetter.details': `📭 <b>Недоставленное сообщение</b> <code>{id}</code>
+Чат: <code>{chatId}</code>
+Канал: {channel}
+Задача: {description}
+Ошибка: <code>{error}</code> (код {code}, {retried})
+Сбой: {failedAt} UTC
+
+<b>Попытки</b>
+{attempts}`,
+  'deadLetter.attempt': '{number}. {at} UTC: <code>{error}</code>',
+  'deadLetter.noChannel': 'нет',
+  'deadLetter.retried': 'попытки исчерпаны',
+  'deadLetter.notRetried': 'без повторов',
+  'deadLetter.notFound': '⚠️ Недоставленного сообщения с таким ID нет.',
+  'deadLetter.replayed': '🔁 Сообщение <code>{id}</code> снова в очереди.',
+  'deadLetter.purged': {
+    one: '🗑️ Удалено {count} недоставленное сообщение.',
+    few: '🗑️ Удалено {count} недоставленных сообщения.',
+    many: '🗑️ Удалено {count} недоставленных сообщений.',
+    other: '🗑️ Удалено {count} недоставленных сообщения.',
+  },
+
+  'admin.only': '⛔ Эта команда доступна только администраторам.',
+
+  'export.preparing': '📦 Готовим выгрузку ваших данных. Файлы придут через минуту.',
+  'export.caption':
+    '📦 <b>Выгрузка ваших данных</b>\n\nВсё, что о вас хранится, в форматах JSON и CSV.',
+  'export.rateLimited': '⏳ Выгрузку можно запрашивать раз в день. Попробуйте снова {date}.',
+  'export.privateOnly': '🔒 Используйте /export в личном чате с ботом.',
+
+  'notifications.achievements': '🏆 Достижения',
+  'notifications.reminders': '⏰ Напоминания о серии',
+  'notifications.events': '🎪 События',
+  'notifications.social': '👥 Социальные',
+
+  'theme.classic': '👆 Классика',
+  'theme.fire': '🔥 Огонь',
+  'theme.space': '🚀 Космос',
+};
@@ -0,0 +1,24 @@
+import type { MessageKey } from './locales/en';
+
+/**
+ * Plural variants keyed by CLDR plural category. `other` is required because
+ * every locale falls back to it.
+ */
+export type PluralForms = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+export type Message = string | PluralForms;
+
+/**
+ * A complete translation: every English key must be present
+ */
+export type Catalogue = Record<MessageKey, Message>;
+
+/**
+ * Values interpolated into `{name}` placeholders. Numbers are formatted for
+ * the locale, strings are inserted as-is.
+ */
+export type MessageParams = Record<string, string | number | bigint>;
+
+export type TranslateFn = (key: MessageKey, params?: MessageParams) => string;
+
+export type { MessageKey };
@@ -31,6 +31,8 @@ export enum UserStatus {
   ACTIVE = 'active',
   INACTIVE = 'inactive',
   BANNED = 'banned',
+  /** Blocked the bot or deleted their account, so messages cannot reach them */
+  UNREACHABLE = 'unreachable',
 }
 
 export enum GameState {
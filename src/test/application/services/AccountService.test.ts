@@ -0,0 +1,264 @@
+import { AccountService } from '../../../application/services/AccountService';
+import type { ClanService } from '../../../application/services/ClanService';
+import { BatchSaveWorker } from '../../../application/workers/BatchSaveWorker';
+import { ClickRedisRepository } from '../../../infrastructure/redis/repositories/clickRepository';
+import { LeaderboardRedisRepository } from '../../../infrastructure/redis/repositories/leaderboardRepository';
+import { SessionRedisRepository } from '../../../infrastructure/redis/repositories/sessionRepository';
+import { StatsRedisRepository } from '../../../infrastructure/redis/repositories/statsRepository';
+import { ClanRedisRepository } from '../../../infrastructure/redis/repositories/clanRepository';
+import { redisClient } from '../../../infrastructure/redis/client';
+import { AccountCooldownError, ClanActionError } from '../../../shared/errors';
+import { REDIS_KEYS } from '../../../shared/constants';
+import type { PrismaClient } from '../../../generated/prisma';
+
+jest.mock('../../../generated/prisma');
+
+describe('AccountService', () => {
+  const telegramId = BigInt(123456789);
+
+  let service: AccountService;
+  let worker: BatchSaveWorker;
+  let clickRepo: ClickRedisRepository;
+  let leaderboardRepo: LeaderboardRedisRepository;
+  let sessionRepo: SessionRedisRepository;
+  let statsRepo: StatsRedisRepository;
+  let clanRepo: ClanRedisRepository;
+  let mockTx: Record<string, Record<string, jest.Mock>>;
+  let mockPrisma: {
+    accountAudit: { findFirst: jest.Mock };
+    $transaction: jest.Mock;
+  };
+
+  beforeEach(async () => {
+    await redisClient.getClient().flushdb();
+
+    mockTx = {
+      user: {
+        findUnique: jest.fn().mockResolvedValue({ score: BigInt(5000) }),
+        update: jest.fn().mockResolvedValue({}),
+        delete: jest.fn().mockResolvedValue({}),
+      },
+      accountAudit: { create: jest.fn().mockResolvedValue({}) },
+      leaderboardSnapshot: { deleteMany: jest.fn().mockResolvedValue({ count: 0 }) },
+      click: { deleteMany: jest.fn().mockResolvedValue({ count: 0 }) },
+      session: { deleteMany: jest.fn().mockResolvedValue({ count: 0 }) },
+      userUpgrade: { deleteMany: jest.fn().mockResolvedValue({ count: 0 }) },
+      userStreak: { deleteMany: jest.fn().mockResolvedValue({ count: 0 }) },
+      userAchievement: { deleteMany: jest.fn().mockResolvedValue({ count: 0 }) },
+    };
+    mockPrisma = {
+      accountAudit: { findFirst: jest.fn().mockResolvedValue(null) },
+      $transaction: jest.fn(async (callback: (tx: unknown) => Promise<unknown>) =>
+        callback(mockTx),
+      ),
+    };
+
+    clickRepo = new ClickRedisRepository();
+    leaderboardRepo = new LeaderboardRedisRepository();
+    sessionRepo = new SessionRedisRepository();
+    statsRepo = new StatsRedisRepository();
+    clanRepo = new ClanRedisRepository();
+    worker = new BatchSaveWorker(mockPrisma as unknown as PrismaClient, redisClient);
+    service = new AccountService(
+      mockPrisma as unknown as PrismaClient,
+      worker,
+      leaderboardRepo,
+      sessionRepo,
+      statsRepo,
+    );
+  });
+
+  afterEach(async () => {
+    await redisClient.getClient().flushdb();
+    jest.clearAllMocks();
+  });
+
+  describe('requestWipe', () => {
+    it('should issue a confirmation token', async () => {
+      const token = await service.requestWipe('user-1', telegramId, 'reset');
+
+      expect(token).toMatch(/^[0-9a-f]{12}$/);
+      expect(await redisClient.getClient().get(`${REDIS_KEYS.ACCOUNT_CONFIRM}user-1`)).toBe(
+        `reset:${token}`,
+      );
+    });
+
+    it('should refuse during the cooldown', async () => {
+      mockPrisma.accountAudit.findFirst.mockResolvedValue({ createdAt: new Date() });
+
+      await expect(service.requestWipe('user-1', telegramId, 'reset')).rejects.toBeInstanceOf(
+        AccountCooldownError,
+      );
+    });
+  });
+
+  describe('confirmWipe', () => {
+    it('should reject a wrong token', async () => {
+      await service.requestWipe('user-1', telegramId, 'reset');
+
+      await expect(service.confirmWipe('user-1', telegramId, 'reset', 'bad')).resolves.toBe(false);
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should reject a token issued for another action', async () => {
+      const token = await service.requestWipe('user-1', telegramId, 'reset');
+
+      await expect(service.confirmWipe('user-1', telegramId, 'delete', token)).resolves.toBe(false);
+    });
+
+    it('should only accept a token once', async () => {
+      const token = await service.requestWipe('user-1', telegramId, 'reset');
+
+      await expect(service.confirmWipe('user-1', telegramId, 'reset', token)).resolves.toBe(true);
+      await expect(service.confirmWipe('user-1', telegramId, 'reset', token)).resolves.toBe(false);
+    });
+
+    it('should reset progress and record an audit entry', async () => {
+      const token = await service.requestWipe('user-1', telegramId, 'reset');
+
+      await service.confirmWipe('user-1', telegramId, 'reset', token);
+
+      expect(mockTx.accountAudit!.create).toHaveBeenCalledWith({
+        data: { userId: 'user-1', telegramId, action: 'reset', previousScore: BigInt(5000) },
+      });
+      expect(mockTx.click!.deleteMany).toHaveBeenCalledWith({ where: { userId: 'user-1' } });
+      expect(mockTx.userUpgrade!.deleteMany).toHaveBeenCalled();
+      expect(mockTx.user!.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { score: BigInt(0), seasonScore: BigInt(0) },
+      });
+      expect(mockTx.user!.delete).not.toHaveBeenCalled();
+    });
+
+    it('should delete the user when deleting the account', async () => {
+      const token = await service.requestWipe('user-1', telegramId, 'delete');
+
+      await service.confirmWipe('user-1', telegramId, 'delete', token);
+
+      expect(mockTx.user!.delete).toHaveBeenCalledWith({ where: { id: 'user-1' } });
+      expect(mockTx.accountAudit!.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: 'delete' }),
+      });
+    });
+
+    it('should leave the clan before deleting the account', async () => {
+      const clanService = { leave: jest.fn().mockRejectedValue(new ClanActionError('not_member')) };
+      service = new AccountService(
+        mockPrisma as unknown as PrismaClient,
+        worker,
+        leaderboardRepo,
+        sessionRepo,
+        statsRepo,
+        clanService as unknown as ClanService,
+      );
+      const token = await service.requestWipe('user-1', telegramId, 'delete');
+
+      await service.confirmWipe('user-1', telegramId, 'delete', token);
+
+      expect(clanService.leave).toHaveBeenCalledWith('user-1');
+      expect(mockTx.user!.delete).toHaveBeenCalled();
+    });
+
+    it('should clear pending clicks, leaderboards, sessions and stats', async () => {
+      const client = redisClient.getClient();
+      await clickRepo.incrementClickCount('user-1', 100);
+      await statsRepo.recordClick('user-1', 1);
+      await leaderboardRepo.incrementScore('user-1', 100);
+      await leaderboardRepo.incrementScore('user-2', 50);
+      await sessionRepo.setSession('token-1', {
+        userId: 'user-1',
+        telegramId: telegramId.toString(),
+        lastActivity: new Date(),
+        clickCount: 0,
+      });
+      await client.hset(REDIS_KEYS.PASSIVE_INCOME, 'user-1', 5);
+
+      const token = await service.requestWipe('user-1', telegramId, 'reset');
+      await service.confirmWipe('user-1', telegramId, 'reset', token);
+
+      expect(await clickRepo.getPendingClicks('user-1')).toBe(0);
+      expect(await leaderboardRepo.getUserRank('user-1')).toBeNull();
+      expect(await leaderboardRepo.getUserRank('user-1', 'daily')).toBeNull();
+      expect(await leaderboardRepo.getUserScore('user-2')).toBe(50);
+      expect(await sessionRepo.sessionExists('token-1')).toBe(false);
+      expect(await client.hget(REDIS_KEYS.PASSIVE_INCOME, 'user-1')).toBeNull();
+      expect(
+        await statsRepo.getHourly('user-1', new Date(0), new Date(Date.now() + 3600000)),
+      ).toEqual([]);
+    });
+
+    it('should clear pending score, energy and the season score on reset', async () => {
+      const client = redisClient.getClient();
+      await clickRepo.incrementPendingScore('user-1', 40);
+      await client.hset(`${REDIS_KEYS.ENERGY}user-1`, { energy: 10, updatedAt: Date.now() });
+      await leaderboardRepo.incrementScore('user-1', 100);
+
+      const token = await service.requestWipe('user-1', telegramId, 'reset');
+      await service.confirmWipe('user-1', telegramId, 'reset', token);
+
+      expect(await clickRepo.getPendingPoints('user-1')).toBe(0);
+      expect(await client.exists(`${REDIS_KEYS.ENERGY}user-1`)).toBe(0);
+      expect(await leaderboardRepo.getUserRank('user-1', 'season')).toBeNull();
+      expect(mockTx.user!.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: expect.objectContaining({ seasonScore: BigInt(0) }),
+      });
+    });
+
+    it("should take the user's points back from their clans on reset", async () => {
+      const client = redisClient.getClient();
+      await clanRepo.register('clan-1', 'Clickers');
+      await clanRepo.register('clan-2', 'Tappers');
+      await clanRepo.setMembership('user-2', 'clan-1');
+      await clanRepo.addMemberPoints('user-2', 30);
+      await clanRepo.setMembership('user-1', 'clan-2');
+      await clanRepo.addMemberPoints('user-1', 15);
+      await clanRepo.setMembership('user-1', 'clan-1');
+      await clanRepo.addMemberPoints('user-1', 20);
+
+      const token = await service.requestWipe('user-1', telegramId, 'reset');
+      await service.confirmWipe('user-1', telegramId, 'reset', token);
+
+      expect(await clanRepo.getScore('clan-1')).toBe(30);
+      expect(await clanRepo.getScore('clan-2')).toBe(0);
+      expect(await client.exists(`${REDIS_KEYS.CLAN_CONTRIBUTIONS}user-1`)).toBe(0);
+    });
+
+    it('should leave clan points in place when deleting the account', async () => {
+      await clanRepo.register('clan-1', 'Clickers');
+      await clanRepo.setMembership('user-1', 'clan-1');
+      await clanRepo.addMemberPoints('user-1', 20);
+
+      const token = await service.requestWipe('user-1', telegramId, 'delete');
+      await service.confirmWipe('user-1', telegramId, 'delete', token);
+
+      expect(await clanRepo.getScore('clan-1')).toBe(20);
+    });
+
+    it('should not bring back a disbanded clan on reset', async () => {
+      await clanRepo.register('clan-1', 'Clickers');
+      await clanRepo.setMembership('user-1', 'clan-1');
+      await clanRepo.addMemberPoints('user-1', 20);
+      await clanRepo.remove('clan-1');
+
+      const token = await service.requestWipe('user-1', telegramId, 'reset');
+      await service.confirmWipe('user-1', telegramId, 'reset', token);
+
+      expect(await clanRepo.getTotalClans()).toBe(0);
+    });
+
+    it('should wait for an in-flight batch save before wiping', async () => {
+      const order: string[] = [];
+      const token = await service.requestWipe('user-1', telegramId, 'reset');
+      await worker.runExclusive(async () => {
+        const wipe = service.confirmWipe('user-1', telegramId, 'reset', token);
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        order.push('batch');
+        void wipe.then(() => order.push('wipe'));
+      });
+
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      expect(order).toEqual(['batch', 'wipe']);
+    });
+  });
+});
@@ -0,0 +1,35 @@
+import { ActionRegistry } from '../../../application/services/ActionRegistry';
+
+describe('ActionRegistry', () => {
+  let registry: ActionRegistry;
+
+  beforeEach(() => {
+    registry = new ActionRegistry();
+  });
+
+  it('should run the handler registered for a stored action', async () => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+    registry.register('deleteMessage', handler);
+
+    // Payloads come back from Redis as parsed JSON
+    const payload: unknown = JSON.parse(JSON.stringify({ messageId: 42 }));
+    await registry.execute('deleteMessage', 'chat-123', payload);
+
+    expect(registry.has('deleteMessage')).toBe(true);
+    expect(handler).toHaveBeenCalledWith('chat-123', { messageId: 42 });
+  });
+
+  it('should reject actions without a handler', async () => {
+    await expect(registry.execute('deleteMessage', 'chat-123', {})).rejects.toThrow(
+      'No handler registered for action: deleteMessage',
+    );
+  });
+
+  it('should refuse a second handler for the same action', () => {
+    registry.register('deleteMessage', jest.fn());
+
+    expect(() => registry.register('deleteMessage', jest.fn())).toThrow(
+      'Action handler already registered: deleteMessage',
+    );
+  });
+});
@@ -0,0 +1,158 @@
+import { ChatScheduler, sendLimitsFor } from '../../../application/services/ChatScheduler';
+import { ChatQueueRedisRepository } from '../../../infrastructure/redis/repositories/chatQueueRepository';
+import { redisClient } from '../../../infrastructure/redis/client';
+import type { ChatQueueEntry } from '../../../domain/repositories/IChatQueueRepository';
+import type { IFloodWaitRepository } from '../../../domain/repositories/IFloodWaitRepository';
+
+describe('ChatScheduler', () => {
+  let scheduler: ChatScheduler<string>;
+  let dispatched: string[];
+  let dispatch: jest.Mock;
+
+  const entry = (id: string, chatId: string, priority = 0): ChatQueueEntry<string> => ({
+    id,
+    chatId,
+    priority,
+    data: id,
+  });
+
+  beforeEach(async () => {
+    await redisClient.getClient().flushdb();
+    dispatched = [];
+    dispatch = jest.fn(async ({ id }: ChatQueueEntry<string>) => {
+      dispatched.push(id);
+    });
+    scheduler = new ChatScheduler(new ChatQueueRedisRepository<string>(), dispatch, 100, 10);
+  });
+
+  afterEach(async () => {
+    scheduler.stop();
+    await redisClient.getClient().flushdb();
+  });
+
+  it('should take turns between chats instead of draining the busiest first', async () => {
+    for (let i = 1; i <= 3; i++) await scheduler.schedule(entry(`busy-${i}`, 'chat-busy'));
+    await scheduler.schedule(entry('quiet-1', 'chat-quiet'));
+
+    expect(await scheduler.tick()).toBe(2);
+    expect(dispatched).toEqual(['busy-1', 'quiet-1']);
+  });
+
+  it('should send one job per chat per interval, most urgent first', async () => {
+    await scheduler.schedule(entry('normal', 'chat-1'));
+    await scheduler.schedule(entry('urgent', 'chat-1', 10));
+
+    await scheduler.tick();
+    await scheduler.tick();
+
+    expect(dispatched).toEqual(['urgent']);
+    expect(await scheduler.getPendingCount()).toBe(1);
+  });
+
+  it('should cap the jobs dispatched per tick', async () => {
+    scheduler = new ChatScheduler(new ChatQueueRedisRepository<string>(), dispatch, 100, 1);
+    await scheduler.schedule(entry('a', 'chat-a'));
+    await scheduler.schedule(entry('b', 'chat-b'));
+
+    expect(await scheduler.tick()).toBe(1);
+  });
+
+  it('should keep a job whose dispatch failed', async () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+    dispatch.mockRejectedValueOnce(new Error('Redis down'));
+    await scheduler.schedule(entry('a', 'chat-a'));
+
+    expect(await scheduler.tick()).toBe(0);
+    expect(await scheduler.getPendingCount()).toBe(1);
+
+    consoleErrorSpy.mockRestore();
+  });
+
+  it('should keep the order of jobs after a failed dispatch', async () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+    dispatch.mockRejectedValueOnce(new Error('Redis down'));
+    await scheduler.schedule(entry('first', 'chat-a'));
+    await scheduler.schedule(entry('second', 'chat-a'));
+
+    await scheduler.tick();
+    await redisClient.getClient().del('scheduler:slot:chat-a');
+    await scheduler.tick();
+
+    expect(dispatched).toEqual(['first']);
+
+    consoleErrorSpy.mockRestore();
+  });
+
+  it('should send exempt jobs without waiting for a send slot', async () => {
+    await scheduler.schedule(entry('message', 'chat-a'));
+    await scheduler.schedule({ ...entry('answer', 'chat-a'), exempt: true });
+    await scheduler.schedule(entry('later', 'chat-a'));
+
+    await scheduler.tick();
+    await scheduler.tick();
+    await scheduler.tick();
+
+    expect(dispatched).toEqual(['answer', 'message']);
+  });
+
+  it('should send exempt jobs past a message held by the group cap', async () => {
+    const minute = Math.floor(Date.now() / 60000);
+    await redisClient.getClient().set(`scheduler:minute:-100:${minute}`, 20);
+    await scheduler.schedule(entry('message', '-100'));
+    await scheduler.schedule({ ...entry('answer', '-100'), exempt: true });
+    await scheduler.schedule({ ...entry('edit', '-100'), exempt: true });
+
+    await scheduler.tick();
+    await scheduler.tick();
+    await scheduler.tick();
+
+    expect(dispatched).toEqual(['answer', 'edit']);
+    expect(await scheduler.getPendingCount()).toBe(1);
+  });
+
+  it('should give back chats a stopped process was holding', async () => {
+    const chatQueue = new ChatQueueRedisRepository<string>();
+    await scheduler.schedule(entry('a', 'chat-a'));
+    await chatQueue.nextChat();
+    await redisClient.getClient().zadd('scheduler:held', 0, 'chat-a');
+
+    expect(await scheduler.tick()).toBe(1);
+    expect(dispatched).toEqual(['a']);
+  });
+
+  it('should hold the jobs of paused chats until the pause ends', async () => {
+    const floodWaits = {
+      getPauseRemaining: jest.fn(async (chatId: string) => (chatId === 'chat-a' ? 5000 : 0)),
+    };
+    scheduler = new ChatScheduler(
+      new ChatQueueRedisRepository<string>(),
+      dispatch,
+      100,
+      10,
+      floodWaits as unknown as IFloodWaitRepository,
+    );
+    await scheduler.schedule(entry('a', 'chat-a'));
+    await scheduler.schedule(entry('b', 'chat-b'));
+
+    expect(await scheduler.tick()).toBe(1);
+    expect(dispatched).toEqual(['b']);
+
+    floodWaits.getPauseRemaining.mockResolvedValue(0);
+    expect(await scheduler.tick()).toBe(1);
+    expect(dispatched).toEqual(['b', 'a']);
+  });
+
+  it('should not dispatch jobs that were cancelled', async () => {
+    await scheduler.schedule(entry('a', 'chat-a'));
+
+    expect(await scheduler.cancel('chat-a', 'a')).toBe(true);
+    expect(await scheduler.tick()).toBe(0);
+  });
+
+  describe('sendLimitsFor', () => {
+    it('should add the per-minute cap for groups only', () => {
+      expect(sendLimitsFor('12345')).toEqual({ minIntervalMs: 1000 });
+      expect(sendLimitsFor('-100123')).toEqual({ minIntervalMs: 1000, perMinute: 20 });
+    });
+  });
+});
@@ -0,0 +1,302 @@
+import { ClanService } from '../../../application/services/ClanService';
+import { ClanRedisRepository } from '../../../infrastructure/redis/repositories/clanRepository';
+import { redisClient } from '../../../infrastructure/redis/client';
+import { CLAN_MAX_MEMBERS } from '../../../domain/value-objects/Clan';
+import { ClanActionError } from '../../../shared/errors';
+import { Prisma, type PrismaClient } from '../../../generated/prisma';
+
+jest.mock('../../../generated/prisma');
+
+function memberRow(userId: string, role: string, joinedAt: string) {
+  return {
+    userId,
+    role,
+    joinedAt: new Date(joinedAt),
+    user: {
+      id: userId,
+      telegramId: BigInt(1),
+      username: null,
+      firstName: userId,
+      lastName: null,
+      customName: null,
+    },
+  };
+}
+
+function clanRow(members: ReturnType<typeof memberRow>[]) {
+  return { id: 'clan-1', name: 'Clickers', inviteCode: 'ABCD2345', members };
+}
+
+function uniqueViolation(target: string[]) {
+  // The generated client is auto-mocked, so build the error from its prototype
+  return Object.assign(Object.create(Prisma.PrismaClientKnownRequestError.prototype), {
+    code: 'P2002',
+    meta: { target },
+  });
+}
+
+describe('ClanService', () => {
+  let service: ClanService;
+  let clanRepo: ClanRedisRepository;
+  let mockPrisma: {
+    $transaction: jest.Mock;
+    clan: {
+      create: jest.Mock;
+      findUnique: jest.Mock;
+      findUniqueOrThrow: jest.Mock;
+      updateMany: jest.Mock;
+      update: jest.Mock;
+      delete: jest.Mock;
+    };
+    clanMember: {
+      findUnique: jest.Mock;
+      create: jest.Mock;
+      update: jest.Mock;
+      delete: jest.Mock;
+    };
+  };
+
+  /**
+   * The user belongs to clan-1 with the given roster
+   */
+  function givenMembership(userId: string, members: ReturnType<typeof memberRow>[]) {
+    const role = members.find((member) => member.userId === userId)?.role;
+    mockPrisma.clanMember.findUnique.mockResolvedValue({ role, clan: clanRow(members) });
+  }
+
+  beforeEach(async () => {
+    await redisClient.getClient().flushdb();
+
+    mockPrisma = {
+      $transaction: jest.fn(),
+      clan: {
+        create: jest.fn(),
+        findUnique: jest.fn().mockResolvedValue(null),
+        findUniqueOrThrow: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        update: jest.fn().mockResolvedValue({}),
+        delete: jest.fn().mockResolvedValue({}),
+      },
+      clanMember: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        create: jest.fn().mockResolvedValue({}),
+        update: jest.fn().mockResolvedValue({}),
+        delete: jest.fn().mockResolvedValue({}),
+      },
+    };
+    mockPrisma.$transaction.mockImplementation((fn: (tx: unknown) => unknown) => fn(mockPrisma));
+
+    clanRepo = new ClanRedisRepository();
+    service = new ClanService(mockPrisma as unknown as PrismaClient, clanRepo);
+  });
+
+  afterEach(async () => {
+    await redisClient.getClient().flushdb();
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should found a clan owned by the user and start crediting it', async () => {
+      mockPrisma.clan.create.mockResolvedValue(
+        clanRow([memberRow('user-1', 'owner', '2024-06-01')]),
+      );
+
+      const clan = await service.create('user-1', '  Clickers  ');
+
+      expect(clan.name).toBe('Clickers');
+      expect(mockPrisma.clan.create.mock.calls[0][0].data).toMatchObject({
+        name: 'Clickers',
+        memberCount: 1,
+        members: { create: { userId: 'user-1', role: 'owner' } },
+      });
+      expect(await clanRepo.addMemberPoints('user-1', 5)).toBe(5);
+    });
+
+    it('should reject invalid names', async () => {
+      await expect(service.create('user-1', 'x')).rejects.toMatchObject({
+        reason: 'invalid_name',
+      });
+      expect(mockPrisma.clan.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject players already in a clan', async () => {
+      mockPrisma.clanMember.findUnique.mockResolvedValue({ id: 'member-1' });
+
+      await expect(service.create('user-1', 'Clickers')).rejects.toMatchObject({
+        reason: 'already_member',
+      });
+    });
+
+    it('should report a taken name', async () => {
+      mockPrisma.clan.create.mockRejectedValue(uniqueViolation(['name']));
+
+      await expect(service.create('user-1', 'Clickers')).rejects.toMatchObject({
+        reason: 'name_taken',
+      });
+    });
+  });
+
+  describe('join', () => {
+    it('should add the user as a member', async () => {
+      mockPrisma.clan.findUnique.mockResolvedValue({ id: 'clan-1' });
+      mockPrisma.clan.findUniqueOrThrow.mockResolvedValue(
+        clanRow([
+          memberRow('user-1', 'owner', '2024-06-01'),
+          memberRow('user-2', 'member', '2024-06-02'),
+        ]),
+      );
+
+      const clan = await service.join('user-2', 'abcd2345');
+
+      expect(mockPrisma.clan.updateMany).toHaveBeenCalledWith({
+        where: { inviteCode: 'ABCD2345', memberCount: { lt: CLAN_MAX_MEMBERS } },
+        data: { memberCount: { increment: 1 } },
+      });
+      expect(mockPrisma.clanMember.create).toHaveBeenCalledWith({
+        data: { clanId: 'clan-1', userId: 'user-2', role: 'member' },
+      });
+      expect(clan.members).toHaveLength(2);
+      expect(await clanRepo.getMembership('user-2')).toBe('clan-1');
+    });
+
+    it('should reject unknown codes', async () => {
+      mockPrisma.clan.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.join('user-2', 'NOPE')).rejects.toMatchObject({
+        reason: 'unknown_code',
+      });
+    });
+
+    it('should reject full clans', async () => {
+      mockPrisma.clan.findUnique.mockResolvedValue({ id: 'clan-1' });
+      mockPrisma.clan.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.join('user-2', 'ABCD2345')).rejects.toMatchObject({ reason: 'full' });
+      expect(mockPrisma.clanMember.create).not.toHaveBeenCalled();
+    });
+
+    it('should not take the clan past the cap when players join at once', async () => {
+      // The database applies each conditional update atomically
+      let memberCount = CLAN_MAX_MEMBERS - 2;
+      mockPrisma.clan.findUnique.mockResolvedValue({ id: 'clan-1' });
+      mockPrisma.clan.findUniqueOrThrow.mockResolvedValue(clanRow([]));
+      mockPrisma.clan.updateMany.mockImplementation(async ({ where }) => {
+        await new Promise((resolve) => setImmediate(resolve));
+        if (memberCount >= where.memberCount.lt) return { count: 0 };
+        memberCount++;
+        return { count: 1 };
+      });
+
+      const results = await Promise.allSettled(
+        ['user-2', 'user-3', 'user-4', 'user-5', 'user-6'].map((userId) =>
+          service.join(userId, 'ABCD2345'),
+        ),
+      );
+
+      expect(results.filter(({ status }) => status === 'fulfilled')).toHaveLength(2);
+      expect(
+        results.filter((result) => result.status === 'rejected' && result.reason.reason === 'full'),
+      ).toHaveLength(3);
+      expect(mockPrisma.clanMember.create).toHaveBeenCalledTimes(2);
+      expect(memberCount).toBe(CLAN_MAX_MEMBERS);
+    });
+
+    it('should reject players already in a clan', async () => {
+      mockPrisma.clan.findUnique.mockResolvedValue({ id: 'clan-1' });
+      mockPrisma.clanMember.create.mockRejectedValue(uniqueViolation(['user_id']));
+
+      await expect(service.join('user-2', 'ABCD2345')).rejects.toBeInstanceOf(ClanActionError);
+    });
+  });
+
+  describe('leave', () => {
+    it('should hand the clan to the most senior officer when the owner leaves', async () => {
+      givenMembership('user-1', [
+        memberRow('user-1', 'owner', '2024-06-01'),
+        memberRow('user-2', 'member', '2024-06-02'),
+        memberRow('user-3', 'officer', '2024-06-03'),
+      ]);
+      await clanRepo.setMembership('user-1', 'clan-1');
+
+      const { disbanded } = await service.leave('user-1');
+
+      expect(disbanded).toBe(false);
+      expect(mockPrisma.clanMember.delete).toHaveBeenCalledWith({ where: { userId: 'user-1' } });
+      expect(mockPrisma.clan.update).toHaveBeenCalledWith({
+        where: { id: 'clan-1' },
+        data: { memberCount: { decrement: 1 } },
+      });
+      expect(mockPrisma.clanMember.update).toHaveBeenCalledWith({
+        where: { userId: 'user-3' },
+        data: { role: 'owner' },
+      });
+      expect(await clanRepo.getMembership('user-1')).toBeNull();
+    });
+
+    it('should disband the clan when the last member leaves', async () => {
+      givenMembership('user-1', [memberRow('user-1', 'owner', '2024-06-01')]);
+      await clanRepo.register('clan-1', 'Clickers');
+
+      const { disbanded } = await service.leave('user-1');
+
+      expect(disbanded).toBe(true);
+      expect(mockPrisma.clan.delete).toHaveBeenCalledWith({ where: { id: 'clan-1' } });
+      expect(await clanRepo.getTotalClans()).toBe(0);
+    });
+
+    it('should reject players without a clan', async () => {
+      await expect(service.leave('user-1')).rejects.toMatchObject({ reason: 'not_member' });
+    });
+  });
+
+  describe('member management', () => {
+    const roster = [
+      memberRow('user-1', 'owner', '2024-06-01'),
+      memberRow('user-2', 'officer', '2024-06-02'),
+      memberRow('user-3', 'member', '2024-06-03'),
+    ];
+
+    it('should let officers remove members', async () => {
+      givenMembership('user-2', roster);
+      await clanRepo.setMembership('user-3', 'clan-1');
+
+      const removed = await service.kick('user-2', 'user-3');
+
+      expect(removed.userId).toBe('user-3');
+      expect(mockPrisma.clanMember.delete).toHaveBeenCalledWith({ where: { userId: 'user-3' } });
+      expect(mockPrisma.clan.update).toHaveBeenCalledWith({
+        where: { id: 'clan-1' },
+        data: { memberCount: { decrement: 1 } },
+      });
+      expect(await clanRepo.getMembership('user-3')).toBeNull();
+    });
+
+    it('should not let officers remove other officers', async () => {
+      givenMembership('user-2', [...roster, memberRow('user-4', 'officer', '2024-06-04')]);
+
+      await expect(service.kick('user-2', 'user-4')).rejects.toMatchObject({
+        reason: 'forbidden',
+      });
+      expect(mockPrisma.clanMember.delete).not.toHaveBeenCalled();
+    });
+
+    it('should let the owner promote members', async () => {
+      givenMembership('user-1', roster);
+
+      await service.setRole('user-1', 'user-3', 'officer');
+
+      expect(mockPrisma.clanMember.update).toHaveBeenCalledWith({
+        where: { userId: 'user-3' },
+        data: { role: 'officer' },
+      });
+    });
+
+    it('should reject players outside the clan', async () => {
+      givenMembership('user-1', roster);
+
+      await expect(service.setRole('user-1', 'user-9', 'officer')).rejects.toMatchObject({
+        reason: 'unknown_member',
+      });
+    });
+  });
+});
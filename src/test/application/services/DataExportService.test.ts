@@ -0,0 +1,179 @@
+import { DataExportService } from '../../../application/services/DataExportService';
+import type { QueuedMessageService } from '../../../application/services/QueuedMessageService';
+import { redisClient } from '../../../infrastructure/redis/client';
+import { RateLimitError } from '../../../shared/errors';
+import type { PrismaClient } from '../../../generated/prisma';
+
+jest.mock('../../../generated/prisma');
+
+describe('DataExportService', () => {
+  let service: DataExportService;
+  let mockQueuedMessageService: { sendDocument: jest.Mock };
+  let mockPrisma: Record<string, Record<string, jest.Mock>>;
+
+  beforeEach(async () => {
+    await redisClient.getClient().flushdb();
+
+    mockPrisma = {
+      user: {
+        findUnique: jest.fn().mockResolvedValue({
+          id: 'user-1',
+          telegramId: BigInt(123456789),
+          username: 'alice',
+          firstName: 'Alice',
+          lastName: null,
+          customName: null,
+          score: BigInt(1500),
+          createdAt: new Date('2025-10-01T08:00:00Z'),
+          updatedAt: new Date('2025-10-05T08:00:00Z'),
+        }),
+      },
+      click: {
+        findMany: jest
+          .fn()
+          .mockResolvedValue([{ count: 10, timestamp: new Date('2025-10-02T09:00:00Z') }]),
+      },
+      session: { findMany: jest.fn().mockResolvedValue([]) },
+      leaderboardSnapshot: { findMany: jest.fn().mockResolvedValue([]) },
+      userAchievement: { findMany: jest.fn().mockResolvedValue([]) },
+      userUpgrade: { findMany: jest.fn().mockResolvedValue([]) },
+      userStreak: { findUnique: jest.fn().mockResolvedValue(null) },
+      userPreferences: { findUnique: jest.fn().mockResolvedValue(null) },
+      referral: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        findMany: jest.fn().mockResolvedValue([]),
+      },
+      clanMember: { findUnique: jest.fn().mockResolvedValue(null) },
+      seasonBadge: { findMany: jest.fn().mockResolvedValue([]) },
+      accountAudit: { findMany: jest.fn().mockResolvedValue([]) },
+    };
+    mockQueuedMessageService = { sendDocument: jest.fn().mockResolvedValue(undefined) };
+
+    service = new DataExportService(
+      mockPrisma as unknown as PrismaClient,
+      mockQueuedMessageService as unknown as QueuedMessageService,
+    );
+  });
+
+  afterEach(async () => {
+    await redisClient.getClient().flushdb();
+    jest.clearAllMocks();
+  });
+
+  describe('collect', () => {
+    it('should return null for unknown users', async () => {
+      mockPrisma.user!.findUnique!.mockResolvedValue(null);
+
+      await expect(service.collect('missing')).resolves.toBeNull();
+    });
+
+    it('should assemble every section', async () => {
+      const dataExport = await service.collect('user-1');
+
+      expect(dataExport?.sections.user.id).toBe('user-1');
+      expect(dataExport?.sections.clicks).toHaveLength(1);
+      expect(dataExport?.sections.streak).toBeNull();
+      expect(mockPrisma.accountAudit!.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { telegramId: BigInt(123456789) } }),
+      );
+    });
+
+    it('should include referrals, clan, season badges and account status', async () => {
+      mockPrisma.user!.findUnique!.mockResolvedValue({
+        id: 'user-1',
+        telegramId: BigInt(123456789),
+        referralCode: 'ALICE1',
+        status: 'active',
+      });
+      mockPrisma.referral!.findUnique!.mockResolvedValue({
+        inviterId: 'user-0',
+        inviteeBonus: 500,
+        rewardedAt: null,
+        createdAt: new Date('2025-10-01T08:00:00Z'),
+      });
+      mockPrisma.referral!.findMany!.mockResolvedValue([
+        {
+          inviteeId: 'user-2',
+          inviterBonus: 1000,
+          rewardedAt: new Date('2025-10-03T08:00:00Z'),
+          createdAt: new Date('2025-10-02T08:00:00Z'),
+        },
+      ]);
+      mockPrisma.clanMember!.findUnique!.mockResolvedValue({
+        role: 'officer',
+        joinedAt: new Date('2025-10-04T08:00:00Z'),
+        clan: { name: 'Clickers' },
+      });
+      mockPrisma.seasonBadge!.findMany!.mockResolvedValue([
+        { rank: 2, awardedAt: new Date('2025-11-01T00:00:00Z'), season: { number: 3 } },
+      ]);
+
+      const sections = (await service.collect('user-1'))!.sections;
+
+      expect(sections.user).toEqual(
+        expect.objectContaining({ referralCode: 'ALICE1', status: 'active' }),
+      );
+      expect(sections.referredBy?.inviterId).toBe('user-0');
+      expect(sections.invitees.map(({ inviteeId }) => inviteeId)).toEqual(['user-2']);
+      expect(sections.clan).toEqual({
+        name: 'Clickers',
+        role: 'officer',
+        joinedAt: new Date('2025-10-04T08:00:00Z'),
+      });
+      expect(sections.seasonBadges).toEqual([
+        { season: 3, rank: 2, awardedAt: new Date('2025-11-01T00:00:00Z') },
+      ]);
+      expect(mockPrisma.referral!.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { inviterId: 'user-1' } }),
+      );
+    });
+
+    it('should leave session tokens out', async () => {
+      await service.collect('user-1');
+
+      const { select } = mockPrisma.session!.findMany!.mock.calls[0][0];
+      expect(select.token).toBeUndefined();
+    });
+  });
+
+  describe('sendExport', () => {
+    it('should queue a JSON and a CSV file', async () => {
+      await expect(service.sendExport('user-1', '123456789', 'caption')).resolves.toBe(true);
+
+      expect(mockQueuedMessageService.sendDocument).toHaveBeenCalledTimes(2);
+      const [[, json, caption], [, csv]] = mockQueuedMessageService.sendDocument.mock.calls;
+      expect(json.filename).toMatch(/^data-export-\d{4}-\d{2}-\d{2}\.json$/);
+      expect(JSON.parse(json.content).user.score).toBe('1500');
+      expect(caption).toBe('caption');
+      expect(csv.filename).toMatch(/\.csv$/);
+      expect(csv.content.split('\r\n')[0]).toBe('section,record,field,value');
+    });
+
+    it('should only allow one export per day', async () => {
+      await service.sendExport('user-1', '123456789', 'caption');
+
+      await expect(service.sendExport('user-1', '123456789', 'caption')).rejects.toBeInstanceOf(
+        RateLimitError,
+      );
+      expect(mockQueuedMessageService.sendDocument).toHaveBeenCalledTimes(2);
+    });
+
+    it('should report the time of the next allowed export', async () => {
+      await service.sendExport('user-1', '123456789', 'caption');
+
+      const error = await service.sendExport('user-1', '123456789', 'caption').catch((e) => e);
+      const hoursLeft = (error.retryAfter.getTime() - Date.now()) / 3600000;
+      expect(hoursLeft).toBeGreaterThan(23);
+      expect(hoursLeft).toBeLessThanOrEqual(24);
+    });
+
+    it('should not use up the allowance when collecting fails', async () => {
+      mockPrisma.user!.findUnique!.mockRejectedValueOnce(new Error('Database error'));
+
+      await expect(service.sendExport('user-1', '123456789', 'caption')).rejects.toThrow(
+        'Database error',
+      );
+      await expect(service.sendExport('user-1', '123456789', 'caption')).resolves.toBe(true);
+    });
+  });
+});
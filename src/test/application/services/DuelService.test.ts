@@ -0,0 +1,259 @@
+import { DuelService } from '../../../application/services/DuelService';
+import { UpgradeService } from '../../../application/services/UpgradeService';
+import { PreferencesService } from '../../../application/services/PreferencesService';
+import type { QueuedMessageService } from '../../../application/services/QueuedMessageService';
+import { ClickRedisRepository } from '../../../infrastructure/redis/repositories/clickRepository';
+import { DuelRedisRepository } from '../../../infrastructure/redis/repositories/duelRepository';
+import { LeaderboardRedisRepository } from '../../../infrastructure/redis/repositories/leaderboardRepository';
+import { redisClient } from '../../../infrastructure/redis/client';
+import { User } from '../../../domain/entities/User';
+import { ActionChannels } from '../../../domain/value-objects/ActionChannel';
+import { DUEL_DURATION_MS } from '../../../domain/value-objects/Duel';
+import { DuelActionError } from '../../../shared/errors';
+import type { PrismaClient } from '../../../generated/prisma';
+
+jest.mock('../../../generated/prisma');
+
+describe('DuelService', () => {
+  const alice = new User({ id: 'user-1', telegramId: BigInt(111), firstName: 'Alice' });
+  const bobRow = {
+    id: 'user-2',
+    telegramId: BigInt(222),
+    username: 'bob',
+    firstName: 'Bob',
+    lastName: null,
+    customName: null,
+  };
+
+  let service: DuelService;
+  let clickRepo: ClickRedisRepository;
+  let duelRepo: DuelRedisRepository;
+  let leaderboardRepo: LeaderboardRedisRepository;
+  let mockQueuedMessageService: { sendMessage: jest.Mock };
+  let mockPrisma: {
+    $transaction: jest.Mock;
+    user: { findFirst: jest.Mock; findUnique: jest.Mock; updateMany: jest.Mock };
+    userPreferences: { findFirst: jest.Mock };
+  };
+
+  /**
+   * Alice challenges Bob and Bob accepts
+   */
+  async function startDuel(wager: number): Promise<string> {
+    const duel = await service.challenge(alice, '-100', '@Bob', wager);
+    await service.accept('user-2', duel.id);
+    return duel.id;
+  }
+
+  beforeEach(async () => {
+    await redisClient.getClient().flushdb();
+
+    mockPrisma = {
+      $transaction: jest.fn(),
+      user: {
+        findFirst: jest.fn().mockResolvedValue(bobRow),
+        findUnique: jest.fn().mockResolvedValue({ score: BigInt(1000) }),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      userPreferences: { findFirst: jest.fn().mockResolvedValue(null) },
+    };
+    mockPrisma.$transaction.mockImplementation((fn: (tx: unknown) => unknown) => fn(mockPrisma));
+    mockQueuedMessageService = { sendMessage: jest.fn().mockResolvedValue(undefined) };
+
+    const prisma = mockPrisma as unknown as PrismaClient;
+    clickRepo = new ClickRedisRepository();
+    duelRepo = new DuelRedisRepository();
+    leaderboardRepo = new LeaderboardRedisRepository();
+    service = new DuelService(
+      prisma,
+      duelRepo,
+      clickRepo,
+      leaderboardRepo,
+      new UpgradeService(prisma, clickRepo, leaderboardRepo),
+      mockQueuedMessageService as unknown as QueuedMessageService,
+      new PreferencesService(prisma),
+    );
+  });
+
+  afterEach(async () => {
+    await redisClient.getClient().flushdb();
+    jest.clearAllMocks();
+  });
+
+  describe('challenge', () => {
+    it('should invite the player with that username', async () => {
+      const duel = await service.challenge(alice, '-100', '@Bob', 0);
+
+      expect(mockPrisma.user.findFirst.mock.calls[0][0].where).toEqual({
+        username: { equals: 'Bob', mode: 'insensitive' },
+      });
+      expect(duel.opponent).toMatchObject({ userId: 'user-2', chatId: '222', name: '@bob' });
+      expect(await duelRepo.getUserDuel('user-1')).toBe(duel.id);
+    });
+
+    it('should reject unknown players and the challenger themselves', async () => {
+      mockPrisma.user.findFirst.mockResolvedValueOnce(null);
+      await expect(service.challenge(alice, '-100', '@nobody', 0)).rejects.toMatchObject({
+        reason: 'unknown_player',
+      });
+
+      mockPrisma.user.findFirst.mockResolvedValueOnce({ ...bobRow, id: 'user-1' });
+      await expect(service.challenge(alice, '-100', '@alice', 0)).rejects.toMatchObject({
+        reason: 'self',
+      });
+    });
+
+    it('should reject wagers the challenger cannot cover', async () => {
+      await expect(service.challenge(alice, '-100', '@Bob', 5000)).rejects.toMatchObject({
+        reason: 'insufficient_points',
+      });
+      await expect(service.challenge(alice, '-100', '@Bob', 1.5)).rejects.toMatchObject({
+        reason: 'invalid_wager',
+      });
+    });
+
+    it('should reject players already in a duel', async () => {
+      await service.challenge(alice, '-100', '@Bob', 0);
+
+      await expect(service.challenge(alice, '-100', '@Bob', 0)).rejects.toBeInstanceOf(
+        DuelActionError,
+      );
+    });
+  });
+
+  describe('accept', () => {
+    it('should escrow both wagers and open the click window', async () => {
+      const duel = await service.challenge(alice, '-100', '@Bob', 100);
+
+      const started = await service.accept('user-2', duel.id);
+
+      expect(started.endsAt).toBeGreaterThan(Date.now() + DUEL_DURATION_MS - 1000);
+      expect(mockPrisma.user.updateMany).toHaveBeenCalledTimes(2);
+      expect(mockPrisma.user.updateMany.mock.calls[1][0]).toMatchObject({
+        where: { id: 'user-2' },
+        data: { score: { decrement: 100 } },
+      });
+      expect(await duelRepo.addClicks('user-1', 1)).toBe(1);
+    });
+
+    it('should call the duel off when a player cannot cover the wager', async () => {
+      const duel = await service.challenge(alice, '-100', '@Bob', 100);
+      mockPrisma.user.updateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({
+        count: 0,
+      });
+
+      await expect(service.accept('user-2', duel.id)).rejects.toMatchObject({
+        reason: 'insufficient_points',
+      });
+      expect(await duelRepo.getUserDuel('user-1')).toBeNull();
+    });
+
+    it('should only let the challenged player accept, once', async () => {
+      const duel = await service.challenge(alice, '-100', '@Bob', 0);
+
+      await expect(service.accept('user-1', duel.id)).rejects.toMatchObject({
+        reason: 'not_invited',
+      });
+      await service.accept('user-2', duel.id);
+      await expect(service.accept('user-2', duel.id)).rejects.toMatchObject({
+        reason: 'expired',
+      });
+    });
+  });
+
+  describe('decline', () => {
+    it('should free both players', async () => {
+      const duel = await service.challenge(alice, '-100', '@Bob', 0);
+
+      await service.decline('user-2', duel.id);
+
+      expect(await duelRepo.get(duel.id)).toBeNull();
+      expect(await duelRepo.getUserDuel('user-2')).toBeNull();
+    });
+  });
+
+  describe('resolveDue', () => {
+    it('should pay the pot to the player with more clicks and announce it to both chats', async () => {
+      const duelId = await startDuel(100);
+      await duelRepo.addClicks('user-2', 1);
+      await duelRepo.addClicks('user-2', 1);
+      await duelRepo.addClicks('user-1', 1);
+
+      expect(await service.resolveDue(Date.now() + DUEL_DURATION_MS)).toBe(1);
+
+      expect(mockPrisma.user.updateMany).toHaveBeenCalledTimes(3);
+      expect(mockPrisma.user.updateMany.mock.calls[2][0]).toMatchObject({
+        where: { id: 'user-2' },
+        data: { score: { increment: 200 } },
+      });
+      expect(await duelRepo.get(duelId)).toBeNull();
+
+      const chats = mockQueuedMessageService.sendMessage.mock.calls.map(([chatId]) => chatId);
+      expect(chats).toEqual(['-100', '222']);
+      const [, message, , channel] = mockQueuedMessageService.sendMessage.mock.calls[0];
+      expect(message).toContain('@bob</b> wins');
+      expect(channel).toBe(ActionChannels.Game.results);
+    });
+
+    it('should hand the wagers back on a draw', async () => {
+      await startDuel(100);
+
+      await service.resolveDue(Date.now() + DUEL_DURATION_MS);
+
+      expect(mockPrisma.user.updateMany.mock.calls.slice(2).map(([args]) => args)).toEqual([
+        expect.objectContaining({
+          where: { id: 'user-1' },
+          data: expect.objectContaining({ score: { increment: 100 } }),
+        }),
+        expect.objectContaining({
+          where: { id: 'user-2' },
+          data: expect.objectContaining({ score: { increment: 100 } }),
+        }),
+      ]);
+    });
+
+    it('should return the pot to the boards escrow took it from, without clicks', async () => {
+      await leaderboardRepo.incrementScore('user-1', 500);
+      await leaderboardRepo.incrementScore('user-2', 500);
+      await startDuel(100);
+      await duelRepo.addClicks('user-2', 1);
+
+      await service.resolveDue(Date.now() + DUEL_DURATION_MS);
+
+      expect(await leaderboardRepo.getUserScore('user-1')).toBe(400);
+      expect(await leaderboardRepo.getUserScore('user-2')).toBe(600);
+      for (const period of ['season', 'daily', 'weekly', 'monthly'] as const) {
+        expect(await leaderboardRepo.getUserScore('user-1', period)).toBe(500);
+        expect(await leaderboardRepo.getUserScore('user-2', period)).toBe(500);
+      }
+      expect(await clickRepo.getPendingPoints('user-1')).toBe(0);
+      expect(await clickRepo.getPendingPoints('user-2')).toBe(0);
+    });
+
+    it('should resolve a duel whose payout failed on the next run', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      const duelId = await startDuel(100);
+      mockPrisma.$transaction.mockRejectedValueOnce(new Error('Database down'));
+
+      expect(await service.resolveDue(Date.now() + DUEL_DURATION_MS)).toBe(0);
+      expect(await duelRepo.get(duelId)).not.toBeNull();
+      expect(await duelRepo.getUserDuel('user-1')).toBe(duelId);
+
+      expect(await service.resolveDue(Date.now() + DUEL_DURATION_MS)).toBe(1);
+      expect(mockPrisma.user.updateMany.mock.calls.slice(2).map(([args]) => args.where)).toEqual([
+        { id: 'user-1' },
+        { id: 'user-2' },
+      ]);
+      expect(await duelRepo.getUserDuel('user-1')).toBeNull();
+
+      consoleErrorSpy.mockRestore();
+    });
+
+    it('should leave duels that are still running', async () => {
+      await startDuel(0);
+
+      expect(await service.resolveDue()).toBe(0);
+      expect(mockQueuedMessageService.sendMessage).not.toHaveBeenCalled();
+    });
+  });
+});
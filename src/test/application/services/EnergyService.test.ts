@@ -0,0 +1,88 @@
+import { EnergyService } from '../../../application/services/EnergyService';
+import { UpgradeService } from '../../../application/services/UpgradeService';
+import { ClickRedisRepository } from '../../../infrastructure/redis/repositories/clickRepository';
+import { EnergyRedisRepository } from '../../../infrastructure/redis/repositories/energyRepository';
+import { LeaderboardRedisRepository } from '../../../infrastructure/redis/repositories/leaderboardRepository';
+import { redisClient } from '../../../infrastructure/redis/client';
+import { Energy } from '../../../domain/value-objects/Energy';
+import { OutOfEnergyError } from '../../../shared/errors';
+import type { PrismaClient } from '../../../generated/prisma';
+
+jest.mock('../../../generated/prisma');
+
+describe('EnergyService', () => {
+  const now = new Date('2025-11-08T12:00:00Z');
+
+  let service: EnergyService;
+  let energyRepo: EnergyRedisRepository;
+  let mockPrisma: { userUpgrade: { findMany: jest.Mock } };
+
+  beforeEach(async () => {
+    await redisClient.getClient().flushdb();
+
+    mockPrisma = { userUpgrade: { findMany: jest.fn().mockResolvedValue([]) } };
+    const upgradeService = new UpgradeService(
+      mockPrisma as unknown as PrismaClient,
+      new ClickRedisRepository(),
+      new LeaderboardRedisRepository(),
+    );
+    energyRepo = new EnergyRedisRepository();
+    service = new EnergyService(energyRepo, upgradeService);
+  });
+
+  afterEach(async () => {
+    await redisClient.getClient().flushdb();
+    jest.clearAllMocks();
+  });
+
+  it('should give new players a full tank sized by their upgrades', async () => {
+    mockPrisma.userUpgrade.findMany.mockResolvedValue([{ upgradeId: 'energy_tank', level: 1 }]);
+
+    const energy = await service.getEnergy('user-1', now);
+
+    expect(energy.available).toBe(Energy.BASE_MAX + 100);
+  });
+
+  it('should store what is left after a click until the tank refills', async () => {
+    const energy = await service.spend('user-1', 1, now);
+
+    expect(energy.available).toBe(Energy.BASE_MAX - 1);
+    expect(await energyRepo.get('user-1')).toEqual({
+      energy: Energy.BASE_MAX - 1,
+      updatedAt: now.getTime(),
+    });
+    expect(await redisClient.getClient().ttl('energy:user:user-1')).toBe(2);
+  });
+
+  it('should refill lazily between clicks', async () => {
+    await energyRepo.set('user-1', { energy: 0, updatedAt: now.getTime() - 60000 }, 600);
+
+    expect((await service.getEnergy('user-1', now)).available).toBe(Energy.BASE_REGEN_PER_MINUTE);
+  });
+
+  it('should reject clicks on an empty tank with the refill time', async () => {
+    await energyRepo.set('user-1', { energy: 0, updatedAt: now.getTime() }, 600);
+
+    const error = await service.spend('user-1', 1, now).catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(OutOfEnergyError);
+    expect((error as OutOfEnergyError).refillsAt).toEqual(new Date(now.getTime() + 2000));
+    expect(await energyRepo.get('user-1')).toEqual({ energy: 0, updatedAt: now.getTime() });
+  });
+
+  it('should not let parallel clicks spend the same energy', async () => {
+    await energyRepo.set('user-1', { energy: 3, updatedAt: now.getTime() }, 600);
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 10 }, () => service.spend('user-1', 1, now)),
+    );
+
+    expect(results.filter(({ status }) => status === 'fulfilled')).toHaveLength(3);
+    expect(
+      results.filter(
+        (result) => result.status === 'rejected' && result.reason instanceof OutOfEnergyError,
+      ),
+    ).toHaveLength(7);
+    expect(await energyRepo.get('user-1')).toEqual({ energy: 0, updatedAt: now.getTime() });
+  });
+});
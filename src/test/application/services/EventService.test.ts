@@ -0,0 +1,205 @@
+import { EventService } from '../../../application/services/EventService';
+import { PreferencesService } from '../../../application/services/PreferencesService';
+import type { QueuedMessageService } from '../../../application/services/QueuedMessageService';
+import { ClanRedisRepository } from '../../../infrastructure/redis/repositories/clanRepository';
+import { EventRedisRepository } from '../../../infrastructure/redis/repositories/eventRepository';
+import { redisClient } from '../../../infrastructure/redis/client';
+import { User } from '../../../domain/entities/User';
+import { ActionChannels } from '../../../domain/value-objects/ActionChannel';
+import { EventScheduleError } from '../../../shared/errors';
+import type { PrismaClient } from '../../../generated/prisma';
+
+jest.mock('../../../generated/prisma');
+
+const HOUR_MS = 3600000;
+
+describe('EventService', () => {
+  const now = new Date('2025-11-08T12:00:00Z');
+  const eventRow = (overrides: Record<string, unknown> = {}) => ({
+    id: 'event-1',
+    title: 'Double Points Weekend',
+    multiplier: 2,
+    audience: null,
+    startsAt: new Date(now.getTime() - HOUR_MS),
+    endsAt: new Date(now.getTime() + 10 * HOUR_MS),
+    announcedAt: null,
+    createdBy: BigInt(1),
+    createdAt: now,
+    ...overrides,
+  });
+
+  let service: EventService;
+  let eventRepo: EventRedisRepository;
+  let clanRepo: ClanRedisRepository;
+  let mockQueuedMessageService: { sendNotification: jest.Mock };
+  let mockPrisma: {
+    event: {
+      create: jest.Mock;
+      findUnique: jest.Mock;
+      delete: jest.Mock;
+      findMany: jest.Mock;
+      findFirst: jest.Mock;
+      updateMany: jest.Mock;
+    };
+    user: { findMany: jest.Mock };
+    userPreferences: { findFirst: jest.Mock };
+  };
+
+  beforeEach(async () => {
+    await redisClient.getClient().flushdb();
+
+    mockPrisma = {
+      event: {
+        create: jest.fn().mockImplementation(({ data }) => eventRow(data)),
+        findUnique: jest.fn().mockResolvedValue(eventRow()),
+        delete: jest.fn(),
+        findMany: jest.fn().mockResolvedValue([]),
+        findFirst: jest.fn().mockResolvedValue(null),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      user: { findMany: jest.fn().mockResolvedValue([]) },
+      userPreferences: { findFirst: jest.fn().mockResolvedValue(null) },
+    };
+    mockQueuedMessageService = { sendNotification: jest.fn().mockResolvedValue(undefined) };
+
+    const prisma = mockPrisma as unknown as PrismaClient;
+    eventRepo = new EventRedisRepository();
+    clanRepo = new ClanRedisRepository();
+    service = new EventService(
+      prisma,
+      eventRepo,
+      clanRepo,
+      mockQueuedMessageService as unknown as QueuedMessageService,
+      new PreferencesService(prisma),
+    );
+  });
+
+  afterEach(async () => {
+    await redisClient.getClient().flushdb();
+    jest.clearAllMocks();
+  });
+
+  describe('schedule', () => {
+    const draft = {
+      title: 'Double Points Weekend',
+      multiplier: 2,
+      audience: null,
+      startsAt: now,
+      endsAt: new Date(now.getTime() + 48 * HOUR_MS),
+      createdBy: BigInt(1),
+    };
+
+    it('should store the event and drop the cached running events', async () => {
+      await eventRepo.setActive([], 60);
+
+      const event = await service.schedule(draft, now);
+
+      expect(event.multiplier).toBe(2);
+      expect(mockPrisma.event.create).toHaveBeenCalledWith({ data: draft });
+      expect(await eventRepo.getActive()).toBeNull();
+    });
+
+    it('should reject multipliers that do not boost or are too large', async () => {
+      for (const multiplier of [1, 0.5, 11, NaN]) {
+        await expect(service.schedule({ ...draft, multiplier }, now)).rejects.toMatchObject({
+          reason: 'invalid_multiplier',
+        });
+      }
+    });
+
+    it('should reject events that end before they start or in the past', async () => {
+      await expect(
+        service.schedule({ ...draft, endsAt: draft.startsAt }, now),
+      ).rejects.toMatchObject({ reason: 'invalid_window' });
+      await expect(
+        service.schedule({ ...draft, startsAt: new Date(NaN) }, now),
+      ).rejects.toBeInstanceOf(EventScheduleError);
+      await expect(
+        service.schedule(draft, new Date(draft.endsAt.getTime() + 1)),
+      ).rejects.toMatchObject({ reason: 'invalid_window' });
+    });
+  });
+
+  describe('cancel', () => {
+    it('should reject unknown events', async () => {
+      mockPrisma.event.findUnique.mockResolvedValue(null);
+
+      await expect(service.cancel('missing')).rejects.toMatchObject({ reason: 'not_found' });
+      expect(mockPrisma.event.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getActive', () => {
+    it('should cache running events until the next boundary', async () => {
+      mockPrisma.event.findMany.mockResolvedValue([eventRow()]);
+      mockPrisma.event.findFirst.mockResolvedValue({
+        startsAt: new Date(now.getTime() + 30000),
+      });
+
+      expect(await service.getActive(now)).toHaveLength(1);
+      expect(await service.getActive(now)).toHaveLength(1);
+
+      expect(mockPrisma.event.findMany).toHaveBeenCalledTimes(1);
+      expect(await redisClient.getClient().ttl('events:active')).toBe(30);
+    });
+
+    it('should leave out cached events that have ended', async () => {
+      mockPrisma.event.findMany.mockResolvedValue([eventRow()]);
+      await service.getActive(now);
+
+      expect(await service.getActive(new Date(now.getTime() + 10 * HOUR_MS))).toEqual([]);
+    });
+  });
+
+  describe('getActiveFor', () => {
+    const user = new User({ id: 'user-1', telegramId: BigInt(111), createdAt: new Date(0) });
+
+    it('should pick the largest multiplier among events the user qualifies for', async () => {
+      mockPrisma.event.findMany.mockResolvedValue([
+        eventRow({ id: 'everyone', multiplier: 1.5 }),
+        eventRow({ id: 'clans', multiplier: 3, audience: 'clan_members' }),
+        eventRow({ id: 'newcomers', multiplier: 5, audience: 'new_players' }),
+      ]);
+
+      expect((await service.getActiveFor(user, now))?.id).toBe('everyone');
+
+      await clanRepo.setMembership('user-1', 'clan-1');
+      expect((await service.getActiveFor(user, now))?.id).toBe('clans');
+    });
+
+    it('should return null without a running event', async () => {
+      expect(await service.getActiveFor(user, now)).toBeNull();
+    });
+  });
+
+  describe('announceStarted', () => {
+    it('should announce each started event once to its audience', async () => {
+      mockPrisma.event.findMany.mockResolvedValue([eventRow({ audience: 'new_players' })]);
+      mockPrisma.user.findMany.mockResolvedValue([
+        { telegramId: BigInt(111) },
+        { telegramId: BigInt(222) },
+      ]);
+
+      expect(await service.announceStarted(now)).toBe(1);
+
+      expect(mockPrisma.user.findMany.mock.calls[0][0].where).toEqual({
+        createdAt: { gte: new Date(now.getTime() - 7 * 24 * HOUR_MS) },
+      });
+      expect(mockQueuedMessageService.sendNotification).toHaveBeenCalledTimes(2);
+      const [chatId, message, , channel, category] =
+        mockQueuedMessageService.sendNotification.mock.calls[0];
+      expect(chatId).toBe('111');
+      expect(message).toContain('for the next 10 hours');
+      expect(channel).toBe(ActionChannels.System.notification);
+      expect(category).toBe('events');
+    });
+
+    it('should skip events another instance already announced', async () => {
+      mockPrisma.event.findMany.mockResolvedValue([eventRow()]);
+      mockPrisma.event.updateMany.mockResolvedValue({ count: 0 });
+
+      expect(await service.announceStarted(now)).toBe(0);
+      expect(mockPrisma.user.findMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { InlineQueryService } from '../../../application/services/InlineQueryService';
+import { LeaderboardRedisRepository } from '../../../infrastructure/redis/repositories/leaderboardRepository';
+import { redisClient } from '../../../infrastructure/redis/client';
+
+describe('InlineQueryService', () => {
+  let service: InlineQueryService;
+  let leaderboardRepo: LeaderboardRedisRepository;
+
+  beforeEach(async () => {
+    await redisClient.getClient().flushdb();
+
+    leaderboardRepo = new LeaderboardRedisRepository();
+    service = new InlineQueryService(leaderboardRepo);
+
+    for (let i = 1; i <= 12; i++) {
+      await leaderboardRepo.updateScore(`user-${i}`, i * 100);
+      await leaderboardRepo.setUserData(`user-${i}`, `Player ${i}`);
+    }
+  });
+
+  afterEach(async () => {
+    await redisClient.getClient().flushdb();
+    jest.restoreAllMocks();
+  });
+
+  describe('getTopPlayers', () => {
+    it('should return the top 10 with names', async () => {
+      const top = await service.getTopPlayers();
+
+      expect(top).toHaveLength(10);
+      expect(top[0]).toEqual({ userId: 'user-12', username: 'Player 12', score: 1200, rank: 1 });
+    });
+
+    it('should serve repeated queries from the cache', async () => {
+      const spy = jest.spyOn(leaderboardRepo, 'getFullLeaderboard');
+
+      await service.getTopPlayers();
+      await leaderboardRepo.updateScore('user-1', 5000);
+      const top = await service.getTopPlayers();
+
+      expect(spy).toHaveBeenCalledTimes(1);
+      expect(top[0]?.userId).toBe('user-12');
+    });
+
+    it('should cache each period separately', async () => {
+      const spy = jest.spyOn(leaderboardRepo, 'getFullLeaderboard');
+
+      await service.getTopPlayers('global');
+      await service.getTopPlayers('daily');
+
+      expect(spy).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('getPlayerCard', () => {
+    it("should return the player's score, rank and the number of players", async () => {
+      await expect(service.getPlayerCard('user-3')).resolves.toEqual({
+        score: 300,
+        rank: 10,
+        totalPlayers: 12,
+      });
+    });
+
+    it('should leave unranked players without a rank', async () => {
+      const card = await service.getPlayerCard('newcomer');
+
+      expect(card.rank).toBeNull();
+      expect(card.score).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { LeaderboardSnapshotService } from '../../../application/services/LeaderboardSnapshotService';
+import { LeaderboardRedisRepository } from '../../../infrastructure/redis/repositories/leaderboardRepository';
+import { redisClient } from '../../../infrastructure/redis/client';
+import type { PrismaClient } from '../../../generated/prisma';
+
+jest.mock('../../../generated/prisma');
+
+describe('LeaderboardSnapshotService', () => {
+  let service: LeaderboardSnapshotService;
+  let leaderboardRepo: LeaderboardRedisRepository;
+  let mockPrisma: {
+    leaderboardSnapshot: {
+      createMany: jest.Mock;
+      findFirst: jest.Mock;
+      findMany: jest.Mock;
+    };
+  };
+
+  beforeEach(async () => {
+    await redisClient.getClient().flushdb();
+
+    mockPrisma = {
+      leaderboardSnapshot: {
+        createMany: jest.fn().mockResolvedValue({ count: 0 }),
+        findFirst: jest.fn().mockResolvedValue(null),
+        findMany: jest.fn().mockResolvedValue([]),
+      },
+    };
+
+    leaderboardRepo = new LeaderboardRedisRepository();
+    service = new LeaderboardSnapshotService(
+      mockPrisma as unknown as PrismaClient,
+      leaderboardRepo,
+    );
+  });
+
+  afterEach(async () => {
+    await redisClient.getClient().flushdb();
+    jest.clearAllMocks();
+  });
+
+  describe('takeSnapshot', () => {
+    it('should persist the top players with their global rank', async () => {
+      await leaderboardRepo.updateScore('user-1', 300);
+      await leaderboardRepo.updateScore('user-2', 200);
+      await leaderboardRepo.setUserData('user-1', 'Alice');
+
+      const rows = await service.takeSnapshot();
+
+      expect(rows).toBe(2);
+      const { data } = mockPrisma.leaderboardSnapshot.createMany.mock.calls[0][0];
+      expect(data).toEqual([
+        expect.objectContaining({ userId: 'user-1', username: 'Alice', rank: 1, score: 300n }),
+        expect.objectContaining({ userId: 'user-2', username: null, rank: 2, score: 200n }),
+      ]);
+      expect(data[0].createdAt).toBe(data[1].createdAt);
+    });
+
+    it('should include users active today', async () => {
+      await leaderboardRepo.incrementScore('active-user', 5);
+
+      await service.takeSnapshot();
+
+      const { data } = mockPrisma.leaderboardSnapshot.createMany.mock.calls[0][0];
+      expect(data).toEqual([expect.objectContaining({ userId: 'active-user', rank: 1 })]);
+    });
+
+    it('should not write anything for an empty leaderboard', async () => {
+      const rows = await service.takeSnapshot();
+
+      expect(rows).toBe(0);
+      expect(mockPrisma.leaderboardSnapshot.createMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getPreviousRanks', () => {
+    it('should return ranks from the latest snapshot', async () => {
+      await leaderboardRepo.updateScore('user-1', 300);
+      await leaderboardRepo.updateScore('user-2', 200);
+      await service.takeSnapshot();
+      await leaderboardRepo.updateScore('user-2', 400);
+
+      const ranks = await service.getPreviousRanks(['user-1', 'user-2', 'user-3']);
+
+      expect(ranks.get('user-1')).toBe(1);
+      expect(ranks.get('user-2')).toBe(2);
+      expect(ranks.has('user-3')).toBe(false);
+    });
+
+    it('should load the latest snapshot from the database when not cached', async () => {
+      const createdAt = new Date();
+      mockPrisma.leaderboardSnapshot.findFirst.mockResolvedValue({ createdAt });
+      mockPrisma.leaderboardSnapshot.findMany.mockResolvedValue([{ userId: 'user-1', rank: 7 }]);
+
+      const ranks = await service.getPreviousRanks(['user-1']);
+
+      expect(mockPrisma.leaderboardSnapshot.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { createdAt } }),
+      );
+      expect(ranks.get('user-1')).toBe(7);
+    });
+
+    it('should return an empty map when no snapshot exists', async () => {
+      const ranks = await service.getPreviousRanks(['user-1']);
+
+      expect(ranks.size).toBe(0);
+    });
+  });
+
+  describe('getRankAgo', () => {
+    it('should query the latest snapshot older than the given age', async () => {
+      mockPrisma.leaderboardSnapshot.findFirst.mockResolvedValue({ rank: 24 });
+
+      const rank = await service.getRankAgo('user-1');
+
+      expect(rank).toBe(24);
+      const { where } = mockPrisma.leaderboardSnapshot.findFirst.mock.calls[0][0];
+      expect(where.userId).toBe('user-1');
+      expect(Date.now() - where.createdAt.lte.getTime()).toBeGreaterThanOrEqual(86400000);
+    });
+
+    it('should return null without an old enough snapshot', async () => {
+      await expect(service.getRankAgo('user-1')).resolves.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { PreferencesService } from '../../../application/services/PreferencesService';
+import { redisClient } from '../../../infrastructure/redis/client';
+import { Preferences } from '../../../domain/value-objects/Preferences';
+import { REDIS_KEYS } from '../../../shared/constants';
+import type { PrismaClient } from '../../../generated/prisma';
+
+jest.mock('../../../generated/prisma');
+
+describe('PreferencesService', () => {
+  let service: PreferencesService;
+  let mockPrisma: {
+    userPreferences: {
+      findFirst: jest.Mock;
+      upsert: jest.Mock;
+    };
+  };
+
+  beforeEach(async () => {
+    await redisClient.getClient().flushdb();
+
+    mockPrisma = {
+      userPreferences: {
+        findFirst: jest.fn().mockResolvedValue(null),
+        upsert: jest.fn().mockResolvedValue({}),
+      },
+    };
+
+    service = new PreferencesService(mockPrisma as unknown as PrismaClient);
+  });
+
+  afterEach(async () => {
+    await redisClient.getClient().flushdb();
+    jest.clearAllMocks();
+  });
+
+  describe('get', () => {
+    it('should return defaults for users without a row and cache them', async () => {
+      const preferences = await service.get('123');
+
+      expect(preferences).toEqual(Preferences.defaults());
+      expect(mockPrisma.userPreferences.findFirst).toHaveBeenCalledWith({
+        where: { user: { telegramId: BigInt(123) } },
+      });
+      expect(await redisClient.getClient().get(`${REDIS_KEYS.PREFERENCES}123`)).not.toBeNull();
+    });
+
+    it('should map stored rows and serve repeat reads from the cache', async () => {
+      mockPrisma.userPreferences.findFirst.mockResolvedValue({
+        notificationsEnabled: true,
+        notifyAchievements: false,
+        notifyReminders: true,
+        notifyEvents: true,
+        notifySocial: false,
+        language: 'es',
+        theme: 'fire',
+      });
+
+      await service.get('123');
+      const preferences = await service.get('123');
+
+      expect(mockPrisma.userPreferences.findFirst).toHaveBeenCalledTimes(1);
+      expect(preferences.language).toBe('es');
+      expect(preferences.theme).toBe('fire');
+      expect(preferences.allows('achievements')).toBe(false);
+      expect(preferences.allows('reminders')).toBe(true);
+    });
+  });
+
+  describe('save', () => {
+    it('should upsert the row and refresh the cache', async () => {
+      const preferences = Preferences.defaults().withLanguage('ru').withNotificationsEnabled(false);
+
+      await service.save('user-1', '123', preferences);
+
+      expect(mockPrisma.userPreferences.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId: 'user-1' },
+          update: expect.objectContaining({ notificationsEnabled: false, language: 'ru' }),
+        }),
+      );
+      expect((await service.get('123')).language).toBe('ru');
+      expect(mockPrisma.userPreferences.findFirst).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('canNotify', () => {
+    it('should honour the user opt-outs for private chats', async () => {
+      await service.save('user-1', '123', Preferences.defaults());
+
+      expect(await service.canNotify('123', 'achievements')).toBe(true);
+      expect(await service.canNotify('123', 'reminders')).toBe(false);
+    });
+
+    it('should always allow group chats', async () => {
+      expect(await service.canNotify('-100123', 'reminders')).toBe(true);
+      expect(mockPrisma.userPreferences.findFirst).not.toHaveBeenCalled();
+    });
+  });
+});
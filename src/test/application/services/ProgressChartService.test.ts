@@ -0,0 +1,98 @@
+import { ProgressChartService } from '../../../application/services/ProgressChartService';
+import type { StatisticsService } from '../../../application/services/StatisticsService';
+import type { QueuedMessageService } from '../../../application/services/QueuedMessageService';
+import { ClickHistory, getStatsRange } from '../../../domain/value-objects/ClickHistory';
+import * as ChartRenderer from '../../../infrastructure/charts/ChartRenderer';
+import { redisClient } from '../../../infrastructure/redis/client';
+
+describe('ProgressChartService', () => {
+  const now = new Date('2025-11-05T15:30:00Z');
+
+  let service: ProgressChartService;
+  let mockStatisticsService: { getHistory: jest.Mock };
+  let mockQueuedMessageService: { sendPhoto: jest.Mock };
+
+  beforeEach(async () => {
+    await redisClient.getClient().flushdb();
+
+    mockStatisticsService = {
+      getHistory: jest.fn(
+        async () =>
+          new ClickHistory({
+            period: 'week',
+            ...getStatsRange('week', 0, now),
+            hourly: [
+              { hour: new Date('2025-11-03T09:00:00Z'), clicks: 100, points: 250 },
+              { hour: new Date('2025-11-04T20:00:00Z'), clicks: 0, points: 500 },
+              { hour: new Date('2025-11-05T14:00:00Z'), clicks: 40, points: 40 },
+            ],
+            sessions: 2,
+            previousTotal: 0,
+          }),
+      ),
+    };
+    mockQueuedMessageService = { sendPhoto: jest.fn().mockResolvedValue(undefined) };
+
+    service = new ProgressChartService(
+      mockStatisticsService as unknown as StatisticsService,
+      mockQueuedMessageService as unknown as QueuedMessageService,
+    );
+  });
+
+  afterEach(async () => {
+    await redisClient.getClient().flushdb();
+    jest.restoreAllMocks();
+  });
+
+  it('should render both charts as PNG', async () => {
+    const charts = await service.render('user-1', 'week', 0, now);
+
+    expect(charts.score.subarray(1, 4).toString('ascii')).toBe('PNG');
+    expect(charts.clicks.subarray(1, 4).toString('ascii')).toBe('PNG');
+    expect(mockStatisticsService.getHistory).toHaveBeenCalledWith('user-1', 'week', 0, now);
+  });
+
+  it('should chart the score from points earned and the clicks from clicks', async () => {
+    const lineChart = jest.spyOn(ChartRenderer, 'renderLineChart');
+    const barChart = jest.spyOn(ChartRenderer, 'renderBarChart');
+
+    await service.render('user-1', 'week', 0, now);
+
+    expect(lineChart.mock.calls[0]?.[0].values).toEqual([250, 750, 790, 790, 790, 790, 790]);
+    expect(barChart.mock.calls[0]?.[0].values).toEqual([100, 0, 40, 0, 0, 0, 0]);
+  });
+
+  it('should reuse cached charts instead of re-rendering', async () => {
+    const first = await service.render('user-1', 'week', 0, now);
+    const second = await service.render('user-1', 'week', 0, now);
+
+    expect(second.score.equals(first.score)).toBe(true);
+    expect(mockStatisticsService.getHistory).toHaveBeenCalledTimes(1);
+
+    await service.render('user-2', 'week', 0, now);
+    await service.render('user-1', 'month', 0, now);
+    expect(mockStatisticsService.getHistory).toHaveBeenCalledTimes(3);
+  });
+
+  it('should expire cached charts after a few minutes', async () => {
+    await service.render('user-1', 'week', 0, now);
+
+    const ttl = await redisClient.getClient().ttl('cache:chart:user-1:week:0');
+    expect(ttl).toBeGreaterThan(0);
+    expect(ttl).toBeLessThanOrEqual(300);
+  });
+
+  it('should queue both charts as photos with their captions', async () => {
+    await service.sendCharts('user-1', '123', 'week', 0, { score: 'Score', clicks: 'Clicks' });
+
+    expect(mockQueuedMessageService.sendPhoto).toHaveBeenCalledTimes(2);
+    const [[chatId, score, scoreCaption], [, clicks, clicksCaption]] =
+      mockQueuedMessageService.sendPhoto.mock.calls;
+    expect(chatId).toBe('123');
+    expect(score.filename).toBe('score-week.png');
+    expect(Buffer.from(score.data, 'base64').subarray(1, 4).toString('ascii')).toBe('PNG');
+    expect(scoreCaption).toBe('Score');
+    expect(clicks.filename).toBe('clicks-week.png');
+    expect(clicksCaption).toBe('Clicks');
+  });
+});
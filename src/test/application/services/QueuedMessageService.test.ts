@@ -1,5 +1,8 @@
 import { QueuedMessageService } from '../../../application/services/QueuedMessageService';
 import type { MessageQueueService } from '../../../application/services/MessageQueueService';
+import type { PreferencesService } from '../../../application/services/PreferencesService';
+import { translator } from '../../../shared/i18n';
+import type { UserStatusService } from '../../../application/services/UserStatusService';
 import { ActionChannel } from '../../../domain/value-objects/ActionChannel';
 import { InlineKeyboard } from 'grammy';
 
@@ -11,6 +14,9 @@ describe('QueuedMessageService', () => {
     mockMessageQueue = {
       queueMessage: jest.fn(),
       queueAction: jest.fn(),
+      queueNamedAction: jest.fn(),
+      queueDocument: jest.fn(),
+      queuePhoto: jest.fn(),
       getQueueStats: jest.fn(),
       clearQueue: jest.fn(),
       shutdown: jest.fn(),
@@ -30,7 +36,13 @@ describe('QueuedMessageService', () => {
 
       await service.sendMessage(chatId, message);
 
-      expect(mockMessageQueue.queueMessage).toHaveBeenCalledWith(chatId, message, undefined, 0, undefined);
+      expect(mockMessageQueue.queueMessage).toHaveBeenCalledWith(
+        chatId,
+        message,
+        undefined,
+        0,
+        undefined,
+      );
     });
 
     it('should queue message with HTML parse mode', async () => {
@@ -40,7 +52,13 @@ describe('QueuedMessageService', () => {
 
       await service.sendMessage(chatId, message, options);
 
-      expect(mockMessageQueue.queueMessage).toHaveBeenCalledWith(chatId, message, options, 0, undefined);
+      expect(mockMessageQueue.queueMessage).toHaveBeenCalledWith(
+        chatId,
+        message,
+        options,
+        0,
+        undefined,
+      );
     });
 
     it('should queue message with Markdown parse mode', async () => {
@@ -50,7 +68,13 @@ describe('QueuedMessageService', () => {
 
       await service.sendMessage(chatId, message, options);
 
-      expect(mockMessageQueue.queueMessage).toHaveBeenCalledWith(chatId, message, options, 0, undefined);
+      expect(mockMessageQueue.queueMessage).toHaveBeenCalledWith(
+        chatId,
+        message,
+        options,
+        0,
+        undefined,
+      );
     });
 
     it('should queue message with inline keyboard', async () => {
@@ -61,7 +85,13 @@ describe('QueuedMessageService', () => {
 
       await service.sendMessage(chatId, message, options);
 
-      expect(mockMessageQueue.queueMessage).toHaveBeenCalledWith(chatId, message, options, 0, undefined);
+      expect(mockMessageQueue.queueMessage).toHaveBeenCalledWith(
+        chatId,
+        message,
+        options,
+        0,
+        undefined,
+      );
     });
 
     it('should queue message with action channel', async () => {
@@ -71,7 +101,13 @@ describe('QueuedMessageService', () => {
 
       await service.sendMessage(chatId, message, undefined, channel);
 
-      expect(mockMessageQueue.queueMessage).toHaveBeenCalledWith(chatId, message, undefined, 0, channel);
+      expect(mockMessageQueue.queueMessage).toHaveBeenCalledWith(
+        chatId,
+        message,
+        undefined,
+        0,
+        channel,
+      );
     });
 
     it('should handle errors gracefully', async () => {
@@ -190,7 +226,13 @@ describe('QueuedMessageService', () => {
 
       await service.sendNotification(chatId, message);
 
-      expect(mockMessageQueue.queueMessage).toHaveBeenCalledWith(chatId, message, undefined, -1, undefined);
+      expect(mockMessageQueue.queueMessage).toHaveBeenCalledWith(
+        chatId,
+        message,
+        undefined,
+        -1,
+        undefined,
+      );
     });
 
     it('should queue notification with options', async () => {
@@ -200,7 +242,13 @@ describe('QueuedMessageService', () => {
 
       await service.sendNotification(chatId, message, options);
 
-      expect(mockMessageQueue.queueMessage).toHaveBeenCalledWith(chatId, message, options, -1, undefined);
+      expect(mockMessageQueue.queueMessage).toHaveBeenCalledWith(
+        chatId,
+        message,
+        options,
+        -1,
+        undefined,
+      );
     });
 
     it('should handle notification errors gracefully', async () => {
@@ -221,6 +269,58 @@ describe('QueuedMessageService', () => {
     });
   });
 
+  describe('sendDocument', () => {
+    it('should queue a document with its caption', async () => {
+      const document = { filename: 'export.json', content: '{}' };
+
+      await service.sendDocument('chat-123', document, 'Your data', { parse_mode: 'HTML' });
+
+      expect(mockMessageQueue.queueDocument).toHaveBeenCalledWith(
+        'chat-123',
+        document,
+        'Your data',
+        { parse_mode: 'HTML' },
+      );
+    });
+
+    it('should handle queue errors gracefully', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      mockMessageQueue.queueDocument.mockRejectedValueOnce(new Error('Queue full'));
+
+      await expect(
+        service.sendDocument('chat-123', { filename: 'export.csv', content: '' }),
+      ).resolves.not.toThrow();
+      expect(consoleErrorSpy).toHaveBeenCalled();
+
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
+  describe('sendPhoto', () => {
+    it('should queue a photo with its caption and keyboard', async () => {
+      const photo = { filename: 'chart.png', data: 'iVBORw0KGgo=' };
+      const keyboard = new InlineKeyboard().text('Back', 'menu:stats');
+
+      await service.sendPhoto('chat-123', photo, 'Your chart', { reply_markup: keyboard });
+
+      expect(mockMessageQueue.queuePhoto).toHaveBeenCalledWith('chat-123', photo, 'Your chart', {
+        reply_markup: keyboard,
+      });
+    });
+
+    it('should handle queue errors gracefully', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      mockMessageQueue.queuePhoto.mockRejectedValueOnce(new Error('Queue full'));
+
+      await expect(
+        service.sendPhoto('chat-123', { filename: 'chart.png', data: '' }),
+      ).resolves.not.toThrow();
+      expect(consoleErrorSpy).toHaveBeenCalled();
+
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
   describe('broadcastMessage', () => {
     beforeEach(() => {
       mockMessageQueue.broadcastMessage = jest.fn();
@@ -234,7 +334,9 @@ describe('QueuedMessageService', () => {
       await service.broadcastMessage(chatIds, message);
 
       expect(mockMessageQueue.broadcastMessage).toHaveBeenCalledWith(chatIds, message, undefined);
-      expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining('Broadcasting to 3 users'));
+      expect(consoleWarnSpy).toHaveBeenCalledWith(
+        expect.stringContaining('Broadcasting to 3 users'),
+      );
 
       consoleWarnSpy.mockRestore();
     });
@@ -250,6 +352,123 @@ describe('QueuedMessageService', () => {
     });
   });
 
+  describe('notification preferences', () => {
+    let mockPreferences: { canNotify: jest.Mock };
+
+    beforeEach(() => {
+      mockPreferences = { canNotify: jest.fn() };
+      mockMessageQueue.broadcastMessage = jest.fn();
+      service = new QueuedMessageService(
+        mockMessageQueue,
+        mockPreferences as unknown as PreferencesService,
+      );
+    });
+
+    it('should skip notifications the recipient opted out of', async () => {
+      mockPreferences.canNotify.mockResolvedValue(false);
+
+      await service.sendNotification('123', 'Achievement!', undefined, undefined, 'achievements');
+
+      expect(mockPreferences.canNotify).toHaveBeenCalledWith('123', 'achievements');
+      expect(mockMessageQueue.queueMessage).not.toHaveBeenCalled();
+    });
+
+    it('should queue notifications the recipient allows', async () => {
+      mockPreferences.canNotify.mockResolvedValue(true);
+
+      await service.sendNotification('123', 'Achievement!', undefined, undefined, 'achievements');
+
+      expect(mockMessageQueue.queueMessage).toHaveBeenCalledWith(
+        '123',
+        'Achievement!',
+        undefined,
+        -1,
+        undefined,
+      );
+    });
+
+    it('should skip leaderboard updates when notifications are off', async () => {
+      mockPreferences.canNotify.mockResolvedValue(false);
+
+      await service.sendLeaderboardUpdate('123', 'Top Players');
+
+      expect(mockPreferences.canNotify).toHaveBeenCalledWith('123', undefined);
+      expect(mockMessageQueue.queueMessage).not.toHaveBeenCalled();
+    });
+
+    it('should only broadcast to recipients who allow the category', async () => {
+      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      mockPreferences.canNotify.mockImplementation(async (chatId: string) => chatId !== '2');
+
+      await service.broadcastMessage(['1', '2', '3'], 'Event started', undefined, 'events');
+
+      expect(mockMessageQueue.broadcastMessage).toHaveBeenCalledWith(
+        ['1', '3'],
+        'Event started',
+        undefined,
+      );
+
+      consoleWarnSpy.mockRestore();
+    });
+
+    it('should still send when preferences cannot be read', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      mockPreferences.canNotify.mockRejectedValue(new Error('Redis down'));
+
+      await service.sendNotification('123', 'Reminder', undefined, undefined, 'reminders');
+
+      expect(mockMessageQueue.queueMessage).toHaveBeenCalled();
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('Failed to read preferences'),
+        expect.any(Error),
+      );
+
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
+  describe('unreachable users', () => {
+    let mockUserStatus: { isReachable: jest.Mock };
+
+    beforeEach(() => {
+      mockUserStatus = {
+        isReachable: jest.fn().mockImplementation(async (chatId: string) => chatId !== '2'),
+      };
+      mockMessageQueue.broadcastMessage = jest.fn();
+      service = new QueuedMessageService(
+        mockMessageQueue,
+        undefined,
+        mockUserStatus as unknown as UserStatusService,
+      );
+    });
+
+    it('should skip notifications to users who blocked the bot', async () => {
+      await service.sendNotification('2', 'Reminder', undefined, undefined, 'reminders');
+
+      expect(mockMessageQueue.queueMessage).not.toHaveBeenCalled();
+    });
+
+    it('should leave users who blocked the bot out of broadcasts', async () => {
+      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+
+      await service.broadcastMessage(['1', '2', '3'], 'Event started');
+
+      expect(mockMessageQueue.broadcastMessage).toHaveBeenCalledWith(
+        ['1', '3'],
+        'Event started',
+        undefined,
+      );
+
+      consoleWarnSpy.mockRestore();
+    });
+
+    it('should still send replies to users who blocked the bot', async () => {
+      await service.sendMessage('2', 'Welcome back');
+
+      expect(mockMessageQueue.queueMessage).toHaveBeenCalled();
+    });
+  });
+
   describe('sendLeaderboardUpdate', () => {
     it('should queue leaderboard update with specific priority', async () => {
       const chatId = 'chat-123';
@@ -273,7 +492,13 @@ describe('QueuedMessageService', () => {
 
       await service.sendLeaderboardUpdate(chatId, leaderboard, options);
 
-      expect(mockMessageQueue.queueMessage).toHaveBeenCalledWith(chatId, leaderboard, options, -2, undefined);
+      expect(mockMessageQueue.queueMessage).toHaveBeenCalledWith(
+        chatId,
+        leaderboard,
+        options,
+        -2,
+        undefined,
+      );
     });
 
     it('should handle leaderboard update errors gracefully', async () => {
@@ -337,6 +562,65 @@ describe('QueuedMessageService', () => {
 
       consoleErrorSpy.mockRestore();
     });
+
+    it("should title the error in the recipient's language", async () => {
+      const mockPreferences = {
+        getTranslator: jest.fn().mockResolvedValue(translator('ru')),
+      };
+      service = new QueuedMessageService(
+        mockMessageQueue,
+        mockPreferences as unknown as PreferencesService,
+      );
+
+      await service.sendError('123', 'Нет соединения');
+
+      expect(mockPreferences.getTranslator).toHaveBeenCalledWith('123');
+      expect(mockMessageQueue.queueMessage).toHaveBeenCalledWith(
+        '123',
+        '❌ <b>Ошибка</b>\n\nНет соединения',
+        { parse_mode: 'HTML' },
+        5,
+        undefined,
+      );
+    });
+  });
+
+  describe('queueNamedAction', () => {
+    it('should queue the action by name with its payload', async () => {
+      const channel = ActionChannel.replaceable('Social', 'leaderboard');
+
+      await service.queueNamedAction(
+        'chat-123',
+        'editMessageText',
+        { messageId: 7, text: 'Updated' },
+        'Edit scoreboard',
+        -2,
+        channel,
+      );
+
+      expect(mockMessageQueue.queueNamedAction).toHaveBeenCalledWith(
+        'chat-123',
+        'editMessageText',
+        { messageId: 7, text: 'Updated' },
+        'Edit scoreboard',
+        -2,
+        channel,
+      );
+    });
+
+    it('should handle queueing errors gracefully', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      mockMessageQueue.queueNamedAction.mockRejectedValueOnce(new Error('Failed'));
+
+      await service.queueNamedAction('chat-123', 'deleteMessage', { messageId: 7 });
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('Failed to queue deleteMessage action'),
+        expect.any(Error),
+      );
+
+      consoleErrorSpy.mockRestore();
+    });
   });
 
   describe('queueNavigationAction', () => {
@@ -351,7 +635,13 @@ describe('QueuedMessageService', () => {
 
       await service.queueNavigationAction(chatId, action, description);
 
-      expect(mockMessageQueue.queueAction).toHaveBeenCalledWith(chatId, action, description, 0, undefined);
+      expect(mockMessageQueue.queueAction).toHaveBeenCalledWith(
+        chatId,
+        action,
+        description,
+        0,
+        undefined,
+      );
     });
 
     it('should queue action with priority', async () => {
@@ -362,7 +652,13 @@ describe('QueuedMessageService', () => {
 
       await service.queueNavigationAction(chatId, action, description, priority);
 
-      expect(mockMessageQueue.queueAction).toHaveBeenCalledWith(chatId, action, description, 10, undefined);
+      expect(mockMessageQueue.queueAction).toHaveBeenCalledWith(
+        chatId,
+        action,
+        description,
+        10,
+        undefined,
+      );
     });
 
     it('should queue action without description', async () => {
@@ -401,7 +697,13 @@ describe('QueuedMessageService', () => {
 
       await service.queueMessageEdit(chatId, editAction, description);
 
-      expect(mockMessageQueue.queueEdit).toHaveBeenCalledWith(chatId, editAction, description, 0, undefined);
+      expect(mockMessageQueue.queueEdit).toHaveBeenCalledWith(
+        chatId,
+        editAction,
+        description,
+        0,
+        undefined,
+      );
     });
 
     it('should queue edit with priority', async () => {
@@ -412,7 +714,13 @@ describe('QueuedMessageService', () => {
 
       await service.queueMessageEdit(chatId, editAction, description, priority);
 
-      expect(mockMessageQueue.queueEdit).toHaveBeenCalledWith(chatId, editAction, description, 5, undefined);
+      expect(mockMessageQueue.queueEdit).toHaveBeenCalledWith(
+        chatId,
+        editAction,
+        description,
+        5,
+        undefined,
+      );
     });
 
     it('should handle edit errors gracefully', async () => {
@@ -439,6 +747,9 @@ describe('QueuedMessageService', () => {
         failed: 5,
         delayed: 0,
         paused: 0,
+        floodWaits: 0,
+        globalFloodWaits: 0,
+        deadLetters: 0,
       };
 
       mockMessageQueue.getQueueStats.mockResolvedValueOnce(mockStats);
@@ -462,6 +773,9 @@ describe('QueuedMessageService', () => {
         failed: 0,
         delayed: 0,
         paused: 0,
+        floodWaits: 0,
+        globalFloodWaits: 0,
+        deadLetters: 0,
       };
 
       mockMessageQueue.getQueueStats.mockResolvedValueOnce(mockStats);
@@ -486,6 +800,9 @@ describe('QueuedMessageService', () => {
         failed: 10,
         delayed: 0,
         paused: 0,
+        floodWaits: 0,
+        globalFloodWaits: 0,
+        deadLetters: 0,
       });
 
       const result = await service.isUnderHeavyLoad();
@@ -501,6 +818,9 @@ describe('QueuedMessageService', () => {
         failed: 10,
         delayed: 0,
         paused: 0,
+        floodWaits: 0,
+        globalFloodWaits: 0,
+        deadLetters: 0,
       });
 
       const result = await service.isUnderHeavyLoad();
@@ -516,6 +836,9 @@ describe('QueuedMessageService', () => {
         failed: 0,
         delayed: 0,
         paused: 0,
+        floodWaits: 0,
+        globalFloodWaits: 0,
+        deadLetters: 0,
       });
 
       const result = await service.isUnderHeavyLoad();
@@ -554,7 +877,9 @@ describe('QueuedMessageService', () => {
       await service.resume();
 
       expect(mockMessageQueue.resume).toHaveBeenCalled();
-      expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining('Resumed message processing'));
+      expect(consoleWarnSpy).toHaveBeenCalledWith(
+        expect.stringContaining('Resumed message processing'),
+      );
 
       consoleWarnSpy.mockRestore();
     });
@@ -636,7 +961,13 @@ describe('QueuedMessageService', () => {
 
       await service.sendMessage(chatId, message);
 
-      expect(mockMessageQueue.queueMessage).toHaveBeenCalledWith(chatId, '', undefined, 0, undefined);
+      expect(mockMessageQueue.queueMessage).toHaveBeenCalledWith(
+        chatId,
+        '',
+        undefined,
+        0,
+        undefined,
+      );
     });
 
     it('should handle very long messages', async () => {
@@ -645,7 +976,13 @@ describe('QueuedMessageService', () => {
 
       await service.sendMessage(chatId, message);
 
-      expect(mockMessageQueue.queueMessage).toHaveBeenCalledWith(chatId, message, undefined, 0, undefined);
+      expect(mockMessageQueue.queueMessage).toHaveBeenCalledWith(
+        chatId,
+        message,
+        undefined,
+        0,
+        undefined,
+      );
     });
 
     it('should handle special characters in messages', async () => {
@@ -654,7 +991,13 @@ describe('QueuedMessageService', () => {
 
       await service.sendMessage(chatId, message);
 
-      expect(mockMessageQueue.queueMessage).toHaveBeenCalledWith(chatId, message, undefined, 0, undefined);
+      expect(mockMessageQueue.queueMessage).toHaveBeenCalledWith(
+        chatId,
+        message,
+        undefined,
+        0,
+        undefined,
+      );
     });
 
     it('should handle concurrent errors without throwing', async () => {
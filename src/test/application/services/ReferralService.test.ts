@@ -0,0 +1,316 @@
+import { ReferralService, REFERRAL_REWARDS } from '../../../application/services/ReferralService';
+import type { QueuedMessageService } from '../../../application/services/QueuedMessageService';
+import { PreferencesService } from '../../../application/services/PreferencesService';
+import { ClickRedisRepository } from '../../../infrastructure/redis/repositories/clickRepository';
+import { LeaderboardRedisRepository } from '../../../infrastructure/redis/repositories/leaderboardRepository';
+import { redisClient } from '../../../infrastructure/redis/client';
+import { ReferralNotAllowedError } from '../../../shared/errors';
+import { Prisma, type PrismaClient } from '../../../generated/prisma';
+
+jest.mock('../../../generated/prisma');
+
+function userRow(id: string, telegramId: number, firstName: string) {
+  return {
+    id,
+    telegramId: BigInt(telegramId),
+    username: null,
+    firstName,
+    lastName: null,
+    customName: null,
+  };
+}
+
+describe('ReferralService', () => {
+  const now = new Date('2024-06-15T12:00:00Z');
+  const alice = userRow('user-1', 111, 'Alice');
+  const bob = userRow('user-2', 222, 'Bob');
+
+  let service: ReferralService;
+  let clickRepo: ClickRedisRepository;
+  let leaderboardRepo: LeaderboardRedisRepository;
+  let mockQueuedMessageService: { sendNotification: jest.Mock };
+  let mockPrisma: {
+    user: { findUnique: jest.Mock; updateMany: jest.Mock };
+    referral: {
+      create: jest.Mock;
+      findMany: jest.Mock;
+      updateMany: jest.Mock;
+      update: jest.Mock;
+      count: jest.Mock;
+      aggregate: jest.Mock;
+    };
+    rewardedInvitee: { findUnique: jest.Mock; createMany: jest.Mock };
+    userPreferences: { findFirst: jest.Mock };
+    $transaction: jest.Mock;
+  };
+
+  beforeEach(async () => {
+    await redisClient.getClient().flushdb();
+
+    mockPrisma = {
+      user: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      referral: {
+        create: jest.fn().mockResolvedValue({}),
+        findMany: jest.fn().mockResolvedValue([]),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        update: jest.fn().mockResolvedValue({}),
+        count: jest.fn().mockResolvedValue(0),
+        aggregate: jest.fn().mockResolvedValue({ _sum: { inviterBonus: null } }),
+      },
+      rewardedInvitee: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        createMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      userPreferences: { findFirst: jest.fn().mockResolvedValue(null) },
+      $transaction: jest.fn(async (callback: (tx: unknown) => Promise<unknown>) =>
+        callback(mockPrisma),
+      ),
+    };
+    mockQueuedMessageService = { sendNotification: jest.fn().mockResolvedValue(undefined) };
+
+    clickRepo = new ClickRedisRepository();
+    leaderboardRepo = new LeaderboardRedisRepository();
+    const prisma = mockPrisma as unknown as PrismaClient;
+    service = new ReferralService(
+      prisma,
+      clickRepo,
+      leaderboardRepo,
+      mockQueuedMessageService as unknown as QueuedMessageService,
+      new PreferencesService(prisma),
+    );
+  });
+
+  afterEach(async () => {
+    await redisClient.getClient().flushdb();
+    jest.clearAllMocks();
+  });
+
+  describe('getCode', () => {
+    it('should return the existing code', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ referralCode: 'abc12345' });
+
+      expect(await service.getCode('user-1')).toBe('abc12345');
+      expect(mockPrisma.user.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should generate and store a code on first use', async () => {
+      const code = await service.getCode('user-1');
+
+      expect(code).toMatch(/^[a-z0-9]{8}$/);
+      expect(mockPrisma.user.updateMany).toHaveBeenCalledWith({
+        where: { id: 'user-1', referralCode: null },
+        data: { referralCode: code },
+      });
+    });
+
+    it('should retry when the generated code is taken', async () => {
+      const uniqueViolation = Object.assign(
+        Object.create(Prisma.PrismaClientKnownRequestError.prototype),
+        { code: 'P2002' },
+      );
+      mockPrisma.user.updateMany
+        .mockRejectedValueOnce(uniqueViolation)
+        .mockResolvedValueOnce({ count: 1 });
+
+      const code = await service.getCode('user-1');
+
+      expect(mockPrisma.user.updateMany).toHaveBeenCalledTimes(2);
+      expect(mockPrisma.user.updateMany.mock.calls[1][0].data.referralCode).toBe(code);
+    });
+  });
+
+  describe('register', () => {
+    const newInvitee = {
+      id: 'user-2',
+      telegramId: BigInt(222),
+      createdAt: new Date('2024-06-15T11:59:00Z'),
+    };
+
+    it('should link a new player to the inviter', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(alice);
+
+      const inviterName = await service.register(newInvitee, 'abc12345', now);
+
+      expect(inviterName).toBe('Alice');
+      expect(mockPrisma.referral.create).toHaveBeenCalledWith({
+        data: { inviterId: 'user-1', inviteeId: 'user-2' },
+      });
+    });
+
+    it('should reject unknown codes', async () => {
+      await expect(service.register(newInvitee, 'nope', now)).rejects.toMatchObject({
+        reason: 'unknown_code',
+      });
+    });
+
+    it('should reject self-referrals', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(bob);
+
+      await expect(service.register(newInvitee, 'abc12345', now)).rejects.toMatchObject({
+        reason: 'self',
+      });
+      expect(mockPrisma.referral.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject accounts that are not new', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(alice);
+      const oldInvitee = { ...newInvitee, createdAt: new Date('2024-06-01T00:00:00Z') };
+
+      await expect(service.register(oldInvitee, 'abc12345', now)).rejects.toMatchObject({
+        reason: 'not_new',
+      });
+      expect(mockPrisma.referral.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject players who already have a referrer', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(alice);
+      mockPrisma.referral.create.mockRejectedValue(
+        Object.assign(Object.create(Prisma.PrismaClientKnownRequestError.prototype), {
+          code: 'P2002',
+        }),
+      );
+
+      const attempt = service.register(newInvitee, 'abc12345', now);
+      await expect(attempt).rejects.toBeInstanceOf(ReferralNotAllowedError);
+      await expect(attempt).rejects.toMatchObject({ reason: 'already_referred' });
+    });
+
+    it('should reject a recreated account that was already paid as an invitee', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(alice);
+      mockPrisma.rewardedInvitee.findUnique.mockResolvedValue({ telegramId: BigInt(222) });
+
+      await expect(service.register(newInvitee, 'abc12345', now)).rejects.toMatchObject({
+        reason: 'already_referred',
+      });
+      expect(mockPrisma.rewardedInvitee.findUnique).toHaveBeenCalledWith({
+        where: { telegramId: BigInt(222) },
+      });
+      expect(mockPrisma.referral.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rewardQualified', () => {
+    it('should skip players below the threshold', async () => {
+      const rewarded = await service.rewardQualified([{ userId: 'user-2', score: BigInt(10) }]);
+
+      expect(rewarded).toBe(0);
+      expect(mockPrisma.referral.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should credit both sides once and notify them', async () => {
+      mockPrisma.referral.findMany.mockResolvedValue([
+        { id: 'ref-1', inviter: alice, invitee: bob },
+      ]);
+
+      const rewarded = await service.rewardQualified([
+        { userId: 'user-2', score: BigInt(REFERRAL_REWARDS.threshold) },
+      ]);
+
+      expect(rewarded).toBe(1);
+      expect(mockPrisma.referral.updateMany).toHaveBeenCalledWith({
+        where: { id: 'ref-1', rewardedAt: null },
+        data: expect.objectContaining({
+          inviterBonus: REFERRAL_REWARDS.inviter,
+          inviteeBonus: REFERRAL_REWARDS.invitee,
+        }),
+      });
+      expect(mockPrisma.rewardedInvitee.createMany).toHaveBeenCalledWith({
+        data: [{ telegramId: BigInt(222) }],
+        skipDuplicates: true,
+      });
+      expect(await clickRepo.getPendingClicks('user-1')).toBe(0);
+      expect(await clickRepo.getPendingPoints('user-1')).toBe(REFERRAL_REWARDS.inviter);
+      expect(await clickRepo.getPendingPoints('user-2')).toBe(REFERRAL_REWARDS.invitee);
+      expect(await leaderboardRepo.getUserScore('user-1')).toBe(REFERRAL_REWARDS.inviter);
+      expect(mockQueuedMessageService.sendNotification).toHaveBeenCalledTimes(2);
+      expect(mockQueuedMessageService.sendNotification.mock.calls[0][0]).toBe('111');
+      expect(mockQueuedMessageService.sendNotification.mock.calls[0][1]).toContain('Bob reached');
+      expect(mockQueuedMessageService.sendNotification.mock.calls[0][4]).toBe('social');
+    });
+
+    it('should notify each side in their own language', async () => {
+      mockPrisma.referral.findMany.mockResolvedValue([
+        { id: 'ref-1', inviter: alice, invitee: bob },
+      ]);
+      mockPrisma.userPreferences.findFirst.mockImplementation(async ({ where }) =>
+        where.user.telegramId === BigInt(111)
+          ? {
+              notificationsEnabled: true,
+              notifyAchievements: true,
+              notifyReminders: true,
+              notifyEvents: true,
+              notifySocial: true,
+              language: 'ru',
+              theme: 'classic',
+            }
+          : null,
+      );
+
+      await service.rewardQualified([{ userId: 'user-2', score: BigInt(5000) }]);
+
+      const [[, inviterText], [, inviteeText]] =
+        mockQueuedMessageService.sendNotification.mock.calls;
+      expect(inviterText).toContain('Бонус за приглашение');
+      expect(inviteeText).toContain('Referral bonus');
+    });
+
+    it('should not pay an account that was already paid before it was deleted', async () => {
+      mockPrisma.referral.findMany.mockResolvedValue([
+        { id: 'ref-1', inviter: alice, invitee: bob },
+      ]);
+      mockPrisma.rewardedInvitee.createMany.mockResolvedValue({ count: 0 });
+
+      const rewarded = await service.rewardQualified([{ userId: 'user-2', score: BigInt(5000) }]);
+
+      expect(rewarded).toBe(0);
+      expect(mockPrisma.referral.update).toHaveBeenCalledWith({
+        where: { id: 'ref-1' },
+        data: { inviterBonus: 0, inviteeBonus: 0 },
+      });
+      expect(await clickRepo.getPendingPoints('user-1')).toBe(0);
+      expect(mockQueuedMessageService.sendNotification).not.toHaveBeenCalled();
+    });
+
+    it('should not pay a referral another batch already rewarded', async () => {
+      mockPrisma.referral.findMany.mockResolvedValue([
+        { id: 'ref-1', inviter: alice, invitee: bob },
+      ]);
+      mockPrisma.referral.updateMany.mockResolvedValue({ count: 0 });
+
+      const rewarded = await service.rewardQualified([{ userId: 'user-2', score: BigInt(5000) }]);
+
+      expect(rewarded).toBe(0);
+      expect(await clickRepo.getPendingPoints('user-1')).toBe(0);
+      expect(mockQueuedMessageService.sendNotification).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getSummary', () => {
+    it('should list invitees and the bonuses earned', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ referralCode: 'abc12345' });
+      mockPrisma.referral.findMany.mockResolvedValue([
+        {
+          rewardedAt: now,
+          createdAt: now,
+          invitee: { ...bob, score: BigInt(1200) },
+        },
+      ]);
+      mockPrisma.referral.count.mockResolvedValue(1);
+      mockPrisma.referral.aggregate.mockResolvedValue({
+        _sum: { inviterBonus: REFERRAL_REWARDS.inviter },
+      });
+
+      const summary = await service.getSummary('user-1');
+
+      expect(summary).toEqual({
+        code: 'abc12345',
+        invitees: [{ name: 'Bob', score: BigInt(1200), rewarded: true, joinedAt: now }],
+        totalInvited: 1,
+        totalEarned: REFERRAL_REWARDS.inviter,
+      });
+    });
+  });
+});
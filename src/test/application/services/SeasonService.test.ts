@@ -0,0 +1,174 @@
+import { SeasonService } from '../../../application/services/SeasonService';
+import { PreferencesService } from '../../../application/services/PreferencesService';
+import type { QueuedMessageService } from '../../../application/services/QueuedMessageService';
+import type { BatchSaveWorker } from '../../../application/workers/BatchSaveWorker';
+import { LeaderboardRedisRepository } from '../../../infrastructure/redis/repositories/leaderboardRepository';
+import { redisClient } from '../../../infrastructure/redis/client';
+import { Prisma, type PrismaClient } from '../../../generated/prisma';
+
+jest.mock('../../../generated/prisma');
+
+const DAY_MS = 86400000;
+
+describe('SeasonService', () => {
+  const startsAt = new Date('2025-01-01T00:00:00Z');
+  const endsAt = new Date(startsAt.getTime() + 30 * DAY_MS);
+  const seasonRow = { id: 'season-1', number: 1, startsAt, endsAt, endedAt: null };
+
+  let service: SeasonService;
+  let leaderboardRepo: LeaderboardRedisRepository;
+  let mockQueuedMessageService: { sendNotification: jest.Mock };
+  let mockPrisma: {
+    $transaction: jest.Mock;
+    season: { findFirst: jest.Mock; create: jest.Mock; updateMany: jest.Mock };
+    seasonBadge: { createMany: jest.Mock; findMany: jest.Mock };
+    leaderboardSnapshot: { createMany: jest.Mock };
+    user: { findMany: jest.Mock; findUnique: jest.Mock; updateMany: jest.Mock };
+    userPreferences: { findFirst: jest.Mock };
+  };
+
+  beforeEach(async () => {
+    await redisClient.getClient().flushdb();
+
+    mockPrisma = {
+      $transaction: jest.fn(),
+      season: {
+        findFirst: jest.fn().mockResolvedValue(seasonRow),
+        create: jest.fn().mockImplementation(({ data }) => ({ id: 'season-2', ...data })),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      seasonBadge: { createMany: jest.fn(), findMany: jest.fn().mockResolvedValue([]) },
+      leaderboardSnapshot: { createMany: jest.fn() },
+      user: {
+        findMany: jest
+          .fn()
+          .mockImplementation(({ where }) => where.id.in.map((id: string) => ({ id }))),
+        findUnique: jest.fn().mockResolvedValue({ telegramId: BigInt(111) }),
+        updateMany: jest.fn().mockResolvedValue({ count: 3 }),
+      },
+      userPreferences: { findFirst: jest.fn().mockResolvedValue(null) },
+    };
+    mockPrisma.$transaction.mockImplementation((fn: (tx: unknown) => unknown) => fn(mockPrisma));
+    mockQueuedMessageService = { sendNotification: jest.fn().mockResolvedValue(undefined) };
+
+    const prisma = mockPrisma as unknown as PrismaClient;
+    const batchSaveWorker = {
+      runExclusive: jest.fn((task: () => Promise<unknown>) => task()),
+    };
+    leaderboardRepo = new LeaderboardRedisRepository();
+    service = new SeasonService(
+      prisma,
+      leaderboardRepo,
+      batchSaveWorker as unknown as BatchSaveWorker,
+      mockQueuedMessageService as unknown as QueuedMessageService,
+      new PreferencesService(prisma),
+    );
+  });
+
+  afterEach(async () => {
+    await redisClient.getClient().flushdb();
+    jest.clearAllMocks();
+  });
+
+  describe('getCurrent', () => {
+    it('should return the open season', async () => {
+      const season = await service.getCurrent();
+
+      expect(season.number).toBe(1);
+      expect(mockPrisma.season.create).not.toHaveBeenCalled();
+    });
+
+    it('should open the first season when none exists', async () => {
+      mockPrisma.season.findFirst.mockResolvedValue(null);
+
+      const season = await service.getCurrent(startsAt);
+
+      expect(season.number).toBe(1);
+      expect(season.endsAt).toEqual(endsAt);
+    });
+
+    it('should re-read the season another instance opened first', async () => {
+      mockPrisma.season.findFirst
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(seasonRow);
+      mockPrisma.season.create.mockRejectedValue(
+        Object.assign(Object.create(Prisma.PrismaClientKnownRequestError.prototype), {
+          code: 'P2002',
+        }),
+      );
+
+      await expect(service.getCurrent()).resolves.toMatchObject({ id: 'season-1' });
+    });
+  });
+
+  describe('rollover', () => {
+    beforeEach(async () => {
+      for (const [userId, score] of [
+        ['user-1', 50],
+        ['user-2', 40],
+        ['user-3', 30],
+        ['user-4', 20],
+      ] as const) {
+        await leaderboardRepo.incrementScore(userId, score);
+      }
+    });
+
+    it('should leave a running season alone', async () => {
+      expect(await service.rollover(new Date(endsAt.getTime() - 1))).toBeNull();
+      expect(await leaderboardRepo.getTotalUsers('season')).toBe(4);
+    });
+
+    it('should archive the standings, badge the top 3 and open the next season', async () => {
+      const ended = await service.rollover(endsAt);
+
+      expect(ended?.number).toBe(1);
+      const { data: snapshots } = mockPrisma.leaderboardSnapshot.createMany.mock.calls[0][0];
+      expect(snapshots).toHaveLength(4);
+      expect(snapshots[3]).toMatchObject({ userId: 'user-4', rank: 4, seasonId: 'season-1' });
+      expect(mockPrisma.seasonBadge.createMany.mock.calls[0][0].data).toEqual([
+        { seasonId: 'season-1', userId: 'user-1', rank: 1 },
+        { seasonId: 'season-1', userId: 'user-2', rank: 2 },
+        { seasonId: 'season-1', userId: 'user-3', rank: 3 },
+      ]);
+      expect(mockPrisma.user.updateMany.mock.calls[0][0].data).toEqual({ seasonScore: 0 });
+      expect(mockPrisma.season.create.mock.calls[0][0].data).toMatchObject({
+        number: 2,
+        startsAt: endsAt,
+      });
+
+      expect(await leaderboardRepo.getTotalUsers('season')).toBe(0);
+      expect(await leaderboardRepo.getUserScore('user-1')).toBe(50);
+      expect(mockQueuedMessageService.sendNotification).toHaveBeenCalledTimes(3);
+      const [, message, , , category] = mockQueuedMessageService.sendNotification.mock.calls[0];
+      expect(message).toContain('Season 1 is over');
+      expect(category).toBe('achievements');
+    });
+
+    it('should restore the season board when archiving fails', async () => {
+      mockPrisma.leaderboardSnapshot.createMany.mockRejectedValue(new Error('db down'));
+
+      await expect(service.rollover(endsAt)).rejects.toThrow('db down');
+
+      expect(await leaderboardRepo.getUserScore('user-1', 'season')).toBe(50);
+      expect(mockQueuedMessageService.sendNotification).not.toHaveBeenCalled();
+    });
+
+    it('should not end a season another instance already ended', async () => {
+      mockPrisma.season.updateMany.mockResolvedValue({ count: 0 });
+
+      expect(await service.rollover(endsAt)).toBeNull();
+
+      expect(mockPrisma.seasonBadge.createMany).not.toHaveBeenCalled();
+      expect(await leaderboardRepo.getTotalUsers('season')).toBe(4);
+    });
+  });
+
+  describe('getBadges', () => {
+    it('should map badges to season numbers', async () => {
+      mockPrisma.seasonBadge.findMany.mockResolvedValue([{ rank: 2, season: { number: 3 } }]);
+
+      expect(await service.getBadges('user-1')).toEqual([{ seasonNumber: 3, rank: 2 }]);
+    });
+  });
+});
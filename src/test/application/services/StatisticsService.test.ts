@@ -0,0 +1,81 @@
+import { StatisticsService } from '../../../application/services/StatisticsService';
+import { StatsRedisRepository } from '../../../infrastructure/redis/repositories/statsRepository';
+import { redisClient } from '../../../infrastructure/redis/client';
+
+describe('StatisticsService', () => {
+  // A Wednesday; the week started on 2025-11-03
+  const now = new Date('2025-11-05T15:30:00Z');
+
+  let service: StatisticsService;
+  let statsRepo: StatsRedisRepository;
+
+  const clickAt = async (userId: string, count: number, at: string, points = 1) => {
+    for (let i = 0; i < count; i++) {
+      await statsRepo.recordClick(userId, points, new Date(at));
+    }
+  };
+
+  beforeEach(async () => {
+    await redisClient.getClient().flushdb();
+
+    statsRepo = new StatsRedisRepository();
+    service = new StatisticsService(statsRepo);
+
+    await clickAt('user-1', 10, '2025-10-29T10:00:00Z');
+    await clickAt('user-1', 8, '2025-11-03T09:00:00Z');
+    await clickAt('user-1', 4, '2025-11-05T14:00:00Z');
+    await clickAt('user-2', 7, '2025-11-05T14:30:00Z');
+  });
+
+  afterEach(async () => {
+    await redisClient.getClient().flushdb();
+  });
+
+  it("should build the week from the user's clicks and compare with the week before", async () => {
+    const history = await service.getHistory('user-1', 'week', 0, now);
+
+    expect(history.start).toEqual(new Date('2025-11-03T00:00:00Z'));
+    expect(history.total).toBe(12);
+    expect(history.previousTotal).toBe(10);
+    expect(history.changePercent()).toBe(20);
+    expect(history.sessions).toBe(2);
+    expect(history.averagePerSession()).toBe(6);
+  });
+
+  it('should count clicks apart from the points they earned', async () => {
+    await clickAt('user-1', 2, '2025-11-05T14:10:00Z', 5);
+    await statsRepo.recordPoints('user-1', 100, new Date('2025-11-05T15:00:00Z'));
+
+    const history = await service.getHistory('user-1', 'day', 0, now);
+
+    expect(history.total).toBe(6);
+    expect(history.hourOfDayTotals()[14]).toBe(6);
+    expect(history.hourOfDayTotals()[15]).toBe(0);
+    expect(history.hourOfDayPoints()[14]).toBe(14);
+    expect(history.hourOfDayPoints()[15]).toBe(100);
+  });
+
+  it('should start a session after a long break', async () => {
+    await clickAt('user-1', 1, '2025-11-05T14:50:00Z');
+    await clickAt('user-1', 1, '2025-11-05T17:00:00Z');
+
+    const history = await service.getHistory('user-1', 'day', 0, new Date('2025-11-05T18:00:00Z'));
+
+    expect(history.total).toBe(6);
+    expect(history.sessions).toBe(2);
+  });
+
+  it('should cache the history briefly', async () => {
+    const getHourly = jest.spyOn(statsRepo, 'getHourly');
+
+    await service.getHistory('user-1', 'week', 0, now);
+    await clickAt('user-1', 5, '2025-11-05T15:00:00Z');
+    const history = await service.getHistory('user-1', 'week', 0, now);
+
+    expect(history.total).toBe(12);
+    expect(getHourly).toHaveBeenCalledTimes(1);
+
+    await service.getHistory('user-1', 'week', 1, now);
+    expect(getHourly).toHaveBeenCalledTimes(2);
+  });
+});
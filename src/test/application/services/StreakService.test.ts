@@ -0,0 +1,191 @@
+import { StreakService } from '../../../application/services/StreakService';
+import type { QueuedMessageService } from '../../../application/services/QueuedMessageService';
+import { PreferencesService } from '../../../application/services/PreferencesService';
+import { ClickRedisRepository } from '../../../infrastructure/redis/repositories/clickRepository';
+import { LeaderboardRedisRepository } from '../../../infrastructure/redis/repositories/leaderboardRepository';
+import { redisClient } from '../../../infrastructure/redis/client';
+import { DAILY_REWARDS } from '../../../domain/value-objects/Streak';
+import { DailyRewardClaimedError } from '../../../shared/errors';
+import { Prisma, type PrismaClient } from '../../../generated/prisma';
+
+jest.mock('../../../generated/prisma');
+
+describe('StreakService', () => {
+  const now = new Date('2024-06-15T19:00:00Z');
+
+  let service: StreakService;
+  let clickRepo: ClickRedisRepository;
+  let leaderboardRepo: LeaderboardRedisRepository;
+  let mockQueuedMessageService: { sendNotification: jest.Mock };
+  let mockPrisma: {
+    userStreak: {
+      findUnique: jest.Mock;
+      findMany: jest.Mock;
+      create: jest.Mock;
+      updateMany: jest.Mock;
+    };
+    userPreferences: { findFirst: jest.Mock };
+  };
+
+  beforeEach(async () => {
+    await redisClient.getClient().flushdb();
+
+    mockPrisma = {
+      userStreak: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        findMany: jest.fn().mockResolvedValue([]),
+        create: jest.fn().mockResolvedValue({}),
+        updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+      },
+      userPreferences: { findFirst: jest.fn().mockResolvedValue(null) },
+    };
+    mockQueuedMessageService = { sendNotification: jest.fn().mockResolvedValue(undefined) };
+
+    clickRepo = new ClickRedisRepository();
+    leaderboardRepo = new LeaderboardRedisRepository();
+    const prisma = mockPrisma as unknown as PrismaClient;
+    service = new StreakService(
+      prisma,
+      clickRepo,
+      leaderboardRepo,
+      mockQueuedMessageService as unknown as QueuedMessageService,
+      new PreferencesService(prisma),
+    );
+  });
+
+  afterEach(async () => {
+    await redisClient.getClient().flushdb();
+    jest.clearAllMocks();
+  });
+
+  describe('getStreak', () => {
+    it('should return an empty streak for new users and cache it', async () => {
+      const streak = await service.getStreak('user-1');
+      await service.getStreak('user-1');
+
+      expect(streak.current).toBe(0);
+      expect(mockPrisma.userStreak.findUnique).toHaveBeenCalledTimes(1);
+    });
+
+    it('should load the streak from the database', async () => {
+      mockPrisma.userStreak.findUnique.mockResolvedValue({
+        currentStreak: 3,
+        bestStreak: 5,
+        lastClaimDate: new Date('2024-06-14T00:00:00Z'),
+      });
+
+      const streak = await service.getStreak('user-1');
+
+      expect(streak.current).toBe(3);
+      expect(streak.best).toBe(5);
+      expect(streak.lastClaimDay).toBe('2024-06-14');
+    });
+  });
+
+  describe('claim', () => {
+    it('should create the streak on the first claim and credit the reward', async () => {
+      const { streak, reward } = await service.claim('user-1', now);
+
+      expect(streak.current).toBe(1);
+      expect(reward).toBe(DAILY_REWARDS[0]);
+      expect(mockPrisma.userStreak.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ userId: 'user-1', currentStreak: 1 }),
+      });
+      expect(await clickRepo.getPendingPoints('user-1')).toBe(reward);
+      expect(await clickRepo.getPendingClicks('user-1')).toBe(0);
+      expect(await leaderboardRepo.getUserScore('user-1', 'daily')).toBe(reward);
+    });
+
+    it('should extend the streak guarded by the previous claim day', async () => {
+      mockPrisma.userStreak.findUnique.mockResolvedValue({
+        currentStreak: 2,
+        bestStreak: 2,
+        lastClaimDate: new Date('2024-06-14T00:00:00Z'),
+      });
+      mockPrisma.userStreak.updateMany.mockResolvedValue({ count: 1 });
+
+      const { streak, reward } = await service.claim('user-1', now);
+
+      expect(streak.current).toBe(3);
+      expect(reward).toBe(DAILY_REWARDS[2]);
+      expect(mockPrisma.userStreak.updateMany.mock.calls[0][0].where).toEqual({
+        userId: 'user-1',
+        lastClaimDate: new Date('2024-06-14T00:00:00Z'),
+      });
+      expect(mockPrisma.userStreak.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a second claim on the same day', async () => {
+      await service.claim('user-1', now);
+
+      await expect(service.claim('user-1', now)).rejects.toBeInstanceOf(DailyRewardClaimedError);
+      expect(await clickRepo.getPendingPoints('user-1')).toBe(DAILY_REWARDS[0]);
+    });
+
+    it('should not pay when a concurrent claim won the race', async () => {
+      // The generated client is auto-mocked, so build the error from its prototype
+      const uniqueViolation = Object.assign(
+        Object.create(Prisma.PrismaClientKnownRequestError.prototype),
+        { code: 'P2002' },
+      );
+      mockPrisma.userStreak.create.mockRejectedValue(uniqueViolation);
+
+      await expect(service.claim('user-1', now)).rejects.toBeInstanceOf(DailyRewardClaimedError);
+      expect(await clickRepo.getPendingPoints('user-1')).toBe(0);
+    });
+  });
+
+  describe('sendReminders', () => {
+    it('should remind users whose streak is about to break', async () => {
+      mockPrisma.userStreak.findMany.mockResolvedValue([
+        { userId: 'user-1', currentStreak: 4, user: { telegramId: BigInt(123) } },
+      ]);
+
+      const reminded = await service.sendReminders(now);
+
+      expect(reminded).toBe(1);
+      const { where } = mockPrisma.userStreak.findMany.mock.calls[0][0];
+      expect(where.user).toEqual({
+        preferences: { is: { notificationsEnabled: true, notifyReminders: true } },
+      });
+      expect(where.lastClaimDate).toEqual(new Date('2024-06-14T00:00:00Z'));
+      expect(mockQueuedMessageService.sendNotification).toHaveBeenCalledWith(
+        '123',
+        expect.stringContaining('4-day streak'),
+        expect.anything(),
+        expect.anything(),
+        'reminders',
+      );
+      expect(mockPrisma.userStreak.updateMany).toHaveBeenCalledWith({
+        where: { userId: { in: ['user-1'] } },
+        data: { lastRemindedAt: now },
+      });
+    });
+
+    it("should remind in the user's language", async () => {
+      mockPrisma.userStreak.findMany.mockResolvedValue([
+        { userId: 'user-1', currentStreak: 5, user: { telegramId: BigInt(123) } },
+      ]);
+      mockPrisma.userPreferences.findFirst.mockResolvedValue({
+        notificationsEnabled: true,
+        notifyAchievements: true,
+        notifyReminders: true,
+        notifyEvents: true,
+        notifySocial: true,
+        language: 'ru',
+        theme: 'classic',
+      });
+
+      await service.sendReminders(now);
+
+      const [, text, options] = mockQueuedMessageService.sendNotification.mock.calls[0];
+      expect(text).toContain('Ваша серия в 5 дней');
+      expect(options.reply_markup.inline_keyboard[0][0].text).toBe('🎁 Забрать награду');
+    });
+
+    it('should do nothing without streaks at risk', async () => {
+      await expect(service.sendReminders(now)).resolves.toBe(0);
+      expect(mockQueuedMessageService.sendNotification).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import { UpgradeService } from '../../../application/services/UpgradeService';
+import { ClickRedisRepository } from '../../../infrastructure/redis/repositories/clickRepository';
+import { LeaderboardRedisRepository } from '../../../infrastructure/redis/repositories/leaderboardRepository';
+import { redisClient } from '../../../infrastructure/redis/client';
+import { InsufficientPointsError, UpgradeMaxLevelError } from '../../../shared/errors';
+import type { PrismaClient } from '../../../generated/prisma';
+
+jest.mock('../../../generated/prisma');
+
+describe('UpgradeService', () => {
+  let service: UpgradeService;
+  let clickRepo: ClickRedisRepository;
+  let leaderboardRepo: LeaderboardRedisRepository;
+  let mockTx: {
+    user: { updateMany: jest.Mock; findUnique: jest.Mock };
+    userUpgrade: { createMany: jest.Mock; updateMany: jest.Mock };
+  };
+  let mockPrisma: {
+    user: { findUnique: jest.Mock };
+    userUpgrade: { findMany: jest.Mock };
+    $transaction: jest.Mock;
+  };
+
+  beforeEach(async () => {
+    await redisClient.getClient().flushdb();
+
+    mockTx = {
+      user: {
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        findUnique: jest.fn().mockResolvedValue({ score: BigInt(0) }),
+      },
+      userUpgrade: {
+        createMany: jest.fn().mockResolvedValue({ count: 1 }),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+    };
+    mockPrisma = {
+      user: { findUnique: jest.fn().mockResolvedValue({ score: BigInt(0) }) },
+      userUpgrade: { findMany: jest.fn().mockResolvedValue([]) },
+      $transaction: jest.fn((callback) => callback(mockTx)),
+    };
+
+    clickRepo = new ClickRedisRepository();
+    leaderboardRepo = new LeaderboardRedisRepository();
+    service = new UpgradeService(mockPrisma as unknown as PrismaClient, clickRepo, leaderboardRepo);
+  });
+
+  afterEach(async () => {
+    await redisClient.getClient().flushdb();
+    jest.clearAllMocks();
+  });
+
+  describe('getLevels', () => {
+    it('should load levels from the database once and cache them', async () => {
+      mockPrisma.userUpgrade.findMany.mockResolvedValue([{ upgradeId: 'power_finger', level: 2 }]);
+
+      expect(await service.getLevels('user-1')).toEqual({ power_finger: 2 });
+      expect(await service.getLevels('user-1')).toEqual({ power_finger: 2 });
+      expect(mockPrisma.userUpgrade.findMany).toHaveBeenCalledTimes(1);
+    });
+
+    it('should cache users without upgrades', async () => {
+      await service.getLevels('user-1');
+      await service.getLevels('user-1');
+
+      expect(mockPrisma.userUpgrade.findMany).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getClickPower', () => {
+    it('should derive click power from owned levels', async () => {
+      mockPrisma.userUpgrade.findMany.mockResolvedValue([{ upgradeId: 'power_finger', level: 3 }]);
+
+      const power = await service.getClickPower('user-1');
+
+      expect(power.basePoints).toBe(4);
+    });
+  });
+
+  describe('getBalance', () => {
+    it('should add pending clicks to the persisted score', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ score: BigInt(100) });
+      await clickRepo.incrementClickCount('user-1', 25);
+
+      expect(await service.getBalance('user-1')).toBe(BigInt(125));
+    });
+
+    it('should add pending passive income to the persisted score', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ score: BigInt(100) });
+      await clickRepo.incrementClickCount('user-1', 25);
+      await clickRepo.incrementPendingScore('user-1', 10);
+
+      expect(await service.getBalance('user-1')).toBe(BigInt(135));
+    });
+  });
+
+  describe('purchase', () => {
+    it('should charge the price counting pending clicks', async () => {
+      await clickRepo.incrementClickCount('user-1', 20);
+      await leaderboardRepo.incrementScore('user-1', 120);
+
+      const result = await service.purchase('user-1', 'power_finger');
+
+      expect(result).toEqual(expect.objectContaining({ level: 1, price: 50 }));
+      const { where, data } = mockTx.user.updateMany.mock.calls[0][0];
+      expect(where.score).toEqual({ gte: BigInt(30) });
+      expect(data.score).toEqual({ decrement: 50 });
+      expect(mockTx.userUpgrade.createMany).toHaveBeenCalledWith({
+        data: { userId: 'user-1', upgradeId: 'power_finger', level: 1 },
+        skipDuplicates: true,
+      });
+      expect(await leaderboardRepo.getUserScore('user-1')).toBe(70);
+      expect(await service.getLevels('user-1')).toEqual({ power_finger: 1 });
+    });
+
+    it('should bump existing levels guarded by the current level', async () => {
+      mockPrisma.userUpgrade.findMany.mockResolvedValue([{ upgradeId: 'power_finger', level: 2 }]);
+
+      const result = await service.purchase('user-1', 'power_finger');
+
+      expect(result.level).toBe(3);
+      expect(result.price).toBe(200);
+      expect(mockTx.userUpgrade.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', upgradeId: 'power_finger', level: 2 },
+        data: { level: 3 },
+      });
+    });
+
+    it('should reject a first level another purchase bought meanwhile', async () => {
+      mockTx.userUpgrade.createMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.purchase('user-1', 'power_finger')).rejects.toMatchObject({
+        code: 'UPGRADE_CONFLICT',
+      });
+    });
+
+    it('should reject purchases the user cannot afford', async () => {
+      mockTx.user.updateMany.mockResolvedValue({ count: 0 });
+      mockTx.user.findUnique.mockResolvedValue({ score: BigInt(10) });
+
+      await expect(service.purchase('user-1', 'power_finger')).rejects.toBeInstanceOf(
+        InsufficientPointsError,
+      );
+      expect(mockTx.userUpgrade.createMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject upgrades at max level', async () => {
+      mockPrisma.userUpgrade.findMany.mockResolvedValue([{ upgradeId: 'power_finger', level: 9 }]);
+
+      await expect(service.purchase('user-1', 'power_finger')).rejects.toBeInstanceOf(
+        UpgradeMaxLevelError,
+      );
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown upgrades', async () => {
+      await expect(service.purchase('user-1', 'golden_mouse')).rejects.toThrow('Unknown upgrade');
+    });
+
+    it('should register auto clickers for passive income', async () => {
+      await service.purchase('user-1', 'auto_clicker');
+
+      expect(await service.getPassiveIncome()).toEqual(new Map([['user-1', 2]]));
+    });
+  });
+
+  describe('loadPassiveIncome', () => {
+    it('should rebuild passive income from the database', async () => {
+      mockPrisma.userUpgrade.findMany.mockResolvedValue([
+        { userId: 'user-1', upgradeId: 'auto_clicker', level: 3 },
+      ]);
+
+      const users = await service.loadPassiveIncome();
+
+      expect(users).toBe(1);
+      expect(await service.getPassiveIncome()).toEqual(new Map([['user-1', 6]]));
+    });
+  });
+});
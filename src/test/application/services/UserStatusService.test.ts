@@ -0,0 +1,79 @@
+import { UserStatusService } from '../../../application/services/UserStatusService';
+import { redisClient } from '../../../infrastructure/redis/client';
+import { UserStatus } from '../../../shared/types';
+import type { PrismaClient } from '../../../generated/prisma';
+
+jest.mock('../../../generated/prisma');
+
+describe('UserStatusService', () => {
+  let service: UserStatusService;
+  let mockPrisma: { user: { findUnique: jest.Mock; updateMany: jest.Mock } };
+
+  beforeEach(async () => {
+    await redisClient.getClient().flushdb();
+
+    mockPrisma = {
+      user: {
+        findUnique: jest.fn().mockResolvedValue({ status: UserStatus.ACTIVE }),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+    };
+    service = new UserStatusService(mockPrisma as unknown as PrismaClient);
+  });
+
+  afterEach(async () => {
+    await redisClient.getClient().flushdb();
+    jest.clearAllMocks();
+  });
+
+  describe('isReachable', () => {
+    it('should cache the stored status', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ status: UserStatus.UNREACHABLE });
+
+      expect(await service.isReachable('111')).toBe(false);
+      expect(await service.isReachable('111')).toBe(false);
+
+      expect(mockPrisma.user.findUnique).toHaveBeenCalledTimes(1);
+    });
+
+    it('should treat unknown users and group chats as reachable', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(null);
+
+      expect(await service.isReachable('111')).toBe(true);
+      expect(await service.isReachable('-100123')).toBe(true);
+      expect(mockPrisma.user.findUnique).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('markUnreachable', () => {
+    it('should store the status and drop the cached one', async () => {
+      await service.isReachable('111');
+      mockPrisma.user.findUnique.mockResolvedValue({ status: UserStatus.UNREACHABLE });
+
+      expect(await service.markUnreachable('111')).toBe(true);
+
+      expect(mockPrisma.user.updateMany).toHaveBeenCalledWith({
+        where: { telegramId: BigInt(111), status: UserStatus.ACTIVE },
+        data: { status: UserStatus.UNREACHABLE },
+      });
+      expect(await service.isReachable('111')).toBe(false);
+    });
+
+    it('should ignore group chats', async () => {
+      expect(await service.markUnreachable('-100123')).toBe(false);
+      expect(mockPrisma.user.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('markReachable', () => {
+    it('should only clear users marked unreachable', async () => {
+      mockPrisma.user.updateMany.mockResolvedValue({ count: 0 });
+
+      expect(await service.markReachable('111')).toBe(false);
+      expect(mockPrisma.user.updateMany).toHaveBeenCalledWith({
+        where: { telegramId: BigInt(111), status: UserStatus.UNREACHABLE },
+        data: { status: UserStatus.ACTIVE },
+      });
+    });
+  });
+});
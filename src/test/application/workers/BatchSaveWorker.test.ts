@@ -2,6 +2,7 @@ import { BatchSaveWorker } from '../../../application/workers/BatchSaveWorker';
 import type { PrismaClient } from '../../../generated/prisma';
 import { redisClient } from '../../../infrastructure/redis/client';
 import { REDIS_KEYS } from '../../../shared/constants';
+import type { AchievementService } from '../../../application/services/AchievementService';
 
 jest.mock('../../../generated/prisma');
 
@@ -18,6 +19,7 @@ describe('BatchSaveWorker', () => {
       $transaction: jest.fn(),
       user: {
         update: jest.fn(),
+        findMany: jest.fn(async ({ where }: any) => where.id.in.map((id: string) => ({ id }))),
       } as any,
       click: {
         create: jest.fn(),
@@ -246,6 +248,91 @@ describe('BatchSaveWorker', () => {
     });
   });
 
+  describe('pending score', () => {
+    it('should add pending score without creating click records', async () => {
+      const client = redisClient.getClient();
+      await client.set(`${REDIS_KEYS.SCORE_PENDING}user-1`, '40');
+
+      const mockTx = {
+        user: { update: jest.fn().mockResolvedValue({}) },
+        click: { create: jest.fn().mockResolvedValue({}) },
+      };
+      mockPrisma.$transaction.mockImplementation(async (callback: any) => callback(mockTx));
+
+      await worker.forceSave();
+
+      expect(mockTx.user.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'user-1' },
+          data: expect.objectContaining({
+            score: { increment: 40 },
+            seasonScore: { increment: 40 },
+          }),
+        }),
+      );
+      expect(mockTx.click.create).not.toHaveBeenCalled();
+      expect(await client.get(`${REDIS_KEYS.SCORE_PENDING}user-1`)).toBeNull();
+    });
+
+    it('should record only clicked points as clicks', async () => {
+      const client = redisClient.getClient();
+      await client.set(`${REDIS_KEYS.CLICK_PENDING}user-1`, '10');
+      await client.set(`${REDIS_KEYS.SCORE_PENDING}user-1`, '30');
+
+      const mockTx = {
+        user: { update: jest.fn().mockResolvedValue({}) },
+        click: { create: jest.fn().mockResolvedValue({}) },
+      };
+      mockPrisma.$transaction.mockImplementation(async (callback: any) => callback(mockTx));
+
+      await worker.forceSave();
+
+      expect(mockTx.user.update).toHaveBeenCalledTimes(1);
+      expect(mockTx.user.update.mock.calls[0][0].data.score).toEqual({ increment: 40 });
+      expect(mockTx.click.create).toHaveBeenCalledTimes(1);
+      expect(mockTx.click.create.mock.calls[0][0].data.count).toBe(10);
+    });
+
+    it('should add saved points that were not clicked to the hourly stats', async () => {
+      const client = redisClient.getClient();
+      await client.set(`${REDIS_KEYS.CLICK_PENDING}user-1`, '10');
+      await client.set(`${REDIS_KEYS.SCORE_PENDING}user-1`, '30');
+      await client.set(`${REDIS_KEYS.CLICK_PENDING}user-2`, '5');
+
+      const mockTx = {
+        user: { update: jest.fn().mockResolvedValue({}) },
+        click: { create: jest.fn().mockResolvedValue({}) },
+      };
+      mockPrisma.$transaction.mockImplementation(async (callback: any) => callback(mockTx));
+      const statsRepo = { recordPoints: jest.fn().mockResolvedValue(undefined) };
+      const statsWorker = new BatchSaveWorker(
+        mockPrisma,
+        redisClient,
+        undefined,
+        undefined,
+        statsRepo as any,
+      );
+
+      await statsWorker.forceSave();
+
+      expect(statsRepo.recordPoints).toHaveBeenCalledTimes(1);
+      expect(statsRepo.recordPoints).toHaveBeenCalledWith('user-1', 30);
+    });
+
+    it('should restore pending score on database failure', async () => {
+      const client = redisClient.getClient();
+      await client.set(`${REDIS_KEYS.CLICK_PENDING}user-1`, '10');
+      await client.set(`${REDIS_KEYS.SCORE_PENDING}user-1`, '30');
+
+      mockPrisma.$transaction.mockRejectedValueOnce(new Error('DB error'));
+
+      await worker.forceSave().catch(() => undefined);
+
+      expect(await client.get(`${REDIS_KEYS.CLICK_PENDING}user-1`)).toBe('10');
+      expect(await client.get(`${REDIS_KEYS.SCORE_PENDING}user-1`)).toBe('30');
+    });
+  });
+
   describe('forceSave', () => {
     it('should immediately process all pending clicks', async () => {
       const client = redisClient.getClient();
@@ -475,9 +562,7 @@ describe('BatchSaveWorker', () => {
 
       await worker.forceSave();
 
-      expect(consoleLogSpy).toHaveBeenCalledWith(
-        expect.stringMatching(/Batch processed in \d+ms/),
-      );
+      expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringMatching(/Batch processed in \d+ms/));
 
       consoleLogSpy.mockRestore();
     });
@@ -505,4 +590,120 @@ describe('BatchSaveWorker', () => {
       consoleLogSpy.mockRestore();
     });
   });
+
+  describe('deleted users', () => {
+    it('should drop clicks for users that no longer exist', async () => {
+      const client = redisClient.getClient();
+      await client.set(`${REDIS_KEYS.CLICK_PENDING}user-1`, '100');
+      await client.set(`${REDIS_KEYS.CLICK_PENDING}deleted-user`, '50');
+
+      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      (mockPrisma.user.findMany as jest.Mock).mockResolvedValueOnce([{ id: 'user-1' }]);
+      const mockTx = {
+        user: { update: jest.fn().mockResolvedValue({}) },
+        click: { create: jest.fn().mockResolvedValue({}) },
+      };
+      mockPrisma.$transaction.mockImplementation(async (callback: any) => callback(mockTx));
+
+      await worker.forceSave();
+
+      expect(mockTx.user.update).toHaveBeenCalledTimes(1);
+      expect(mockTx.user.update).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'user-1' } }),
+      );
+      expect(await client.get(`${REDIS_KEYS.CLICK_PENDING}deleted-user`)).toBeNull();
+
+      consoleWarnSpy.mockRestore();
+    });
+  });
+
+  describe('runExclusive', () => {
+    it('should not run a task while a batch is in flight', async () => {
+      const client = redisClient.getClient();
+      await client.set(`${REDIS_KEYS.CLICK_PENDING}user-1`, '100');
+
+      const order: string[] = [];
+      mockPrisma.$transaction.mockImplementation(async (callback: any) => {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        order.push('batch');
+        return callback({ user: { update: jest.fn() }, click: { create: jest.fn() } });
+      });
+
+      const save = worker.forceSave();
+      const task = worker.runExclusive(async () => {
+        order.push('task');
+        return 'done';
+      });
+
+      await expect(task).resolves.toBe('done');
+      await save;
+      expect(order).toEqual(['batch', 'task']);
+    });
+
+    it('should keep running tasks after one fails', async () => {
+      await expect(
+        worker.runExclusive(async () => {
+          throw new Error('boom');
+        }),
+      ).rejects.toThrow('boom');
+
+      await expect(worker.runExclusive(async () => 42)).resolves.toBe(42);
+    });
+  });
+
+  describe('achievements', () => {
+    it('should evaluate achievements with the persisted score', async () => {
+      const client = redisClient.getClient();
+      await client.set(`${REDIS_KEYS.CLICK_PENDING}user-1`, '100');
+
+      const mockAchievementService = {
+        evaluate: jest.fn().mockResolvedValue([]),
+      } as unknown as jest.Mocked<AchievementService>;
+      const achievementWorker = new BatchSaveWorker(
+        mockPrisma,
+        redisClient,
+        mockAchievementService,
+      );
+
+      mockPrisma.$transaction.mockImplementation(async (callback: any) => {
+        return await callback({
+          user: {
+            update: jest
+              .fn()
+              .mockResolvedValue({ telegramId: BigInt(123456789), score: BigInt(1500) }),
+          },
+          click: { create: jest.fn() },
+        });
+      });
+
+      await achievementWorker.forceSave();
+
+      expect(mockAchievementService.evaluate).toHaveBeenCalledWith('user-1', '123456789', {
+        score: BigInt(1500),
+      });
+    });
+
+    it('should not evaluate achievements when the transaction fails', async () => {
+      const client = redisClient.getClient();
+      await client.set(`${REDIS_KEYS.CLICK_PENDING}user-1`, '100');
+
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      const mockAchievementService = {
+        evaluate: jest.fn(),
+      } as unknown as jest.Mocked<AchievementService>;
+      const achievementWorker = new BatchSaveWorker(
+        mockPrisma,
+        redisClient,
+        mockAchievementService,
+      );
+
+      mockPrisma.$transaction.mockRejectedValue(new Error('Database error'));
+
+      await achievementWorker.forceSave();
+
+      expect(mockAchievementService.evaluate).not.toHaveBeenCalled();
+
+      consoleErrorSpy.mockRestore();
+    });
+  });
 });
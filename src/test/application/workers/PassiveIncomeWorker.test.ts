@@ -0,0 +1,51 @@
+import { PassiveIncomeWorker } from '../../../application/workers/PassiveIncomeWorker';
+import type { UpgradeService } from '../../../application/services/UpgradeService';
+import { ClickRedisRepository } from '../../../infrastructure/redis/repositories/clickRepository';
+import { LeaderboardRedisRepository } from '../../../infrastructure/redis/repositories/leaderboardRepository';
+import { ClanRedisRepository } from '../../../infrastructure/redis/repositories/clanRepository';
+import { redisClient } from '../../../infrastructure/redis/client';
+
+describe('PassiveIncomeWorker', () => {
+  let worker: PassiveIncomeWorker;
+  let clickRepo: ClickRedisRepository;
+  let leaderboardRepo: LeaderboardRedisRepository;
+  let clanRepo: ClanRedisRepository;
+
+  beforeEach(async () => {
+    await redisClient.getClient().flushdb();
+
+    const upgradeService = {
+      getPassiveIncome: jest.fn().mockResolvedValue(
+        new Map([
+          ['user-1', 5],
+          ['user-2', 3],
+        ]),
+      ),
+    };
+    clickRepo = new ClickRedisRepository();
+    leaderboardRepo = new LeaderboardRedisRepository();
+    clanRepo = new ClanRedisRepository();
+    worker = new PassiveIncomeWorker(
+      upgradeService as unknown as UpgradeService,
+      clickRepo,
+      leaderboardRepo,
+      clanRepo,
+    );
+  });
+
+  afterEach(async () => {
+    await redisClient.getClient().flushdb();
+  });
+
+  it('should credit the income to the score, the leaderboard and the clan', async () => {
+    await clanRepo.register('clan-1', 'Clickers');
+    await clanRepo.setMembership('user-1', 'clan-1');
+
+    expect(await worker.payout()).toBe(2);
+
+    expect(await clickRepo.getPendingPoints('user-1')).toBe(5);
+    expect(await leaderboardRepo.getUserScore('user-1')).toBe(5);
+    expect(await leaderboardRepo.getUserScore('user-2')).toBe(3);
+    expect(await clanRepo.getScore('clan-1')).toBe(5);
+  });
+});
@@ -46,6 +46,23 @@ describe('User Entity', () => {
     });
   });
 
+  describe('fromRecord', () => {
+    it('should treat null names as missing', () => {
+      const user = User.fromRecord({
+        id: 'test-id',
+        telegramId: BigInt(123456),
+        username: null,
+        firstName: 'Test',
+        lastName: null,
+        customName: null,
+      });
+
+      expect(user.username).toBeUndefined();
+      expect(user.customName).toBeUndefined();
+      expect(user.getDisplayName()).toBe('Test');
+    });
+  });
+
   describe('getDisplayName', () => {
     it('should return custom name if set', () => {
       const user = SAMPLE_USERS.customName;
@@ -0,0 +1,129 @@
+import { Achievement, ACHIEVEMENT_CATALOGUE } from '../../../domain/value-objects/Achievement';
+import { translator } from '../../../shared/i18n';
+
+describe('Achievement Value Object', () => {
+  describe('constructor', () => {
+    it('should create achievement with valid params', () => {
+      const achievement = new Achievement({
+        id: 'first_century',
+        title: 'achievements.firstCentury.title',
+        description: 'achievements.firstCentury.description',
+        emoji: '⭐',
+        criterion: 'score',
+        threshold: 100,
+      });
+
+      expect(achievement.id).toBe('first_century');
+      expect(achievement.criterion).toBe('score');
+      expect(achievement.threshold).toBe(100);
+    });
+
+    it('should reject ids that are not snake_case', () => {
+      expect(
+        () =>
+          new Achievement({
+            id: 'FirstCentury',
+            title: 'achievements.firstCentury.title',
+            description: 'achievements.firstCentury.description',
+            emoji: '⭐',
+            criterion: 'score',
+            threshold: 100,
+          }),
+      ).toThrow('Achievement id must be snake_case');
+    });
+
+    it('should reject non-positive thresholds', () => {
+      expect(
+        () =>
+          new Achievement({
+            id: 'nothing',
+            title: 'achievements.firstCentury.title',
+            description: 'achievements.firstCentury.description',
+            emoji: '⭐',
+            criterion: 'score',
+            threshold: 0,
+          }),
+      ).toThrow('Achievement threshold must be a positive integer');
+    });
+  });
+
+  describe('isUnlockedBy', () => {
+    const create = (criterion: Achievement['criterion'], threshold: number): Achievement =>
+      new Achievement({
+        id: 'test_achievement',
+        title: 'achievements.firstCentury.title',
+        description: 'achievements.firstCentury.description',
+        emoji: '⭐',
+        criterion,
+        threshold,
+      });
+
+    it('should unlock score achievements at the threshold', () => {
+      const achievement = create('score', 100);
+
+      expect(achievement.isUnlockedBy({ score: BigInt(99) })).toBe(false);
+      expect(achievement.isUnlockedBy({ score: BigInt(100) })).toBe(true);
+    });
+
+    it('should unlock session click achievements', () => {
+      const achievement = create('sessionClicks', 50);
+
+      expect(achievement.isUnlockedBy({ score: BigInt(0), sessionClicks: 49 })).toBe(false);
+      expect(achievement.isUnlockedBy({ score: BigInt(0), sessionClicks: 50 })).toBe(true);
+    });
+
+    it('should unlock streak achievements', () => {
+      const achievement = create('streakDays', 7);
+
+      expect(achievement.isUnlockedBy({ score: BigInt(0), streakDays: 6 })).toBe(false);
+      expect(achievement.isUnlockedBy({ score: BigInt(0), streakDays: 7 })).toBe(true);
+    });
+
+    it('should unlock rank achievements at or above the threshold rank', () => {
+      const achievement = create('rank', 10);
+
+      expect(achievement.isUnlockedBy({ score: BigInt(0), rank: 11 })).toBe(false);
+      expect(achievement.isUnlockedBy({ score: BigInt(0), rank: 10 })).toBe(true);
+      expect(achievement.isUnlockedBy({ score: BigInt(0), rank: 1 })).toBe(true);
+    });
+
+    it('should treat missing progress as not reached', () => {
+      expect(create('sessionClicks', 1).isUnlockedBy({ score: BigInt(0) })).toBe(false);
+      expect(create('streakDays', 1).isUnlockedBy({ score: BigInt(0) })).toBe(false);
+      expect(create('rank', 100).isUnlockedBy({ score: BigInt(0), rank: null })).toBe(false);
+    });
+  });
+
+  describe('format', () => {
+    const t = translator('en');
+
+    it('should show unlock state', () => {
+      const achievement = ACHIEVEMENT_CATALOGUE[0]!;
+
+      expect(achievement.format(true, t)).toContain('✅');
+      expect(achievement.format(false, t)).toContain('⬜');
+      expect(achievement.format(true, t)).toContain('First Century');
+    });
+
+    it("should render in the reader's language", () => {
+      const achievement = ACHIEVEMENT_CATALOGUE[0]!;
+
+      expect(achievement.format(true, translator('es'))).toContain('Primer Centenar - 100 puntos');
+    });
+  });
+
+  describe('ACHIEVEMENT_CATALOGUE', () => {
+    it('should have unique ids', () => {
+      const ids = ACHIEVEMENT_CATALOGUE.map((achievement) => achievement.id);
+      expect(new Set(ids).size).toBe(ids.length);
+    });
+
+    it('should keep the original score milestones', () => {
+      const scoreThresholds = ACHIEVEMENT_CATALOGUE.filter((a) => a.criterion === 'score').map(
+        (a) => a.threshold,
+      );
+
+      expect(scoreThresholds).toEqual([100, 1_000, 10_000, 100_000, 1_000_000]);
+    });
+  });
+});
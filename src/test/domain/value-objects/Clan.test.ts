@@ -0,0 +1,94 @@
+import {
+  CLAN_MAX_MEMBERS,
+  Clan,
+  canChangeRole,
+  canKick,
+  isClanRole,
+  isValidClanName,
+  type ClanMemberInfo,
+} from '../../../domain/value-objects/Clan';
+
+function member(userId: string, role: ClanMemberInfo['role'], joinedAt: string): ClanMemberInfo {
+  return { userId, name: userId, role, joinedAt: new Date(joinedAt) };
+}
+
+describe('Clan', () => {
+  describe('isClanRole', () => {
+    it('should accept known roles only', () => {
+      expect(isClanRole('officer')).toBe(true);
+      expect(isClanRole('admin')).toBe(false);
+    });
+  });
+
+  describe('isValidClanName', () => {
+    it('should accept letters, digits, spaces, underscores and dashes', () => {
+      expect(isValidClanName('Click Masters_2')).toBe(true);
+      expect(isValidClanName('Кликеры-1')).toBe(true);
+    });
+
+    it('should reject names that are too short, too long or use other characters', () => {
+      expect(isValidClanName('ab')).toBe(false);
+      expect(isValidClanName('a'.repeat(25))).toBe(false);
+      expect(isValidClanName('<b>Bold</b>')).toBe(false);
+    });
+  });
+
+  describe('permissions', () => {
+    it('should let owners and officers kick lower ranks only', () => {
+      expect(canKick('owner', 'officer')).toBe(true);
+      expect(canKick('officer', 'member')).toBe(true);
+      expect(canKick('officer', 'officer')).toBe(false);
+      expect(canKick('member', 'member')).toBe(false);
+      expect(canKick('officer', 'owner')).toBe(false);
+    });
+
+    it('should let only the owner promote and demote', () => {
+      expect(canChangeRole('owner', 'member', 'officer')).toBe(true);
+      expect(canChangeRole('owner', 'officer', 'member')).toBe(true);
+      expect(canChangeRole('owner', 'officer', 'officer')).toBe(false);
+      expect(canChangeRole('owner', 'member', 'owner')).toBe(false);
+      expect(canChangeRole('officer', 'member', 'officer')).toBe(false);
+    });
+  });
+
+  describe('members', () => {
+    const clan = new Clan({
+      id: 'clan-1',
+      name: 'Clickers',
+      inviteCode: 'ABCD2345',
+      members: [
+        member('user-3', 'member', '2024-01-01'),
+        member('user-2', 'officer', '2024-03-01'),
+        member('user-1', 'owner', '2024-02-01'),
+        member('user-4', 'officer', '2024-02-15'),
+      ],
+    });
+
+    it('should order members by role, then seniority', () => {
+      expect(clan.members.map(({ userId }) => userId)).toEqual([
+        'user-1',
+        'user-4',
+        'user-2',
+        'user-3',
+      ]);
+    });
+
+    it('should pick the most senior officer as successor', () => {
+      expect(clan.getSuccessor()?.userId).toBe('user-4');
+    });
+
+    it('should find members by user id', () => {
+      expect(clan.getMember('user-2')?.role).toBe('officer');
+      expect(clan.getMember('user-9')).toBeUndefined();
+    });
+
+    it('should be full at the member cap', () => {
+      const members = Array.from({ length: CLAN_MAX_MEMBERS }, (_, index) =>
+        member(`user-${index}`, index === 0 ? 'owner' : 'member', '2024-01-01'),
+      );
+
+      expect(clan.isFull()).toBe(false);
+      expect(new Clan({ id: 'c', name: 'Full', inviteCode: 'X', members }).isFull()).toBe(true);
+    });
+  });
+});
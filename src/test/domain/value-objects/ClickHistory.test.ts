@@ -0,0 +1,131 @@
+import {
+  ClickHistory,
+  getStatsRange,
+  isStatsPeriod,
+  type HourlyClicks,
+} from '../../../domain/value-objects/ClickHistory';
+
+describe('ClickHistory', () => {
+  // A Wednesday
+  const now = new Date('2025-11-05T15:30:00Z');
+
+  describe('getStatsRange', () => {
+    it('should cover the UTC day', () => {
+      expect(getStatsRange('day', 0, now)).toEqual({
+        start: new Date('2025-11-05T00:00:00Z'),
+        end: new Date('2025-11-06T00:00:00Z'),
+      });
+      expect(getStatsRange('day', 5, now).start).toEqual(new Date('2025-10-31T00:00:00Z'));
+    });
+
+    it('should start weeks on Monday', () => {
+      expect(getStatsRange('week', 0, now)).toEqual({
+        start: new Date('2025-11-03T00:00:00Z'),
+        end: new Date('2025-11-10T00:00:00Z'),
+      });
+      expect(getStatsRange('week', 0, new Date('2025-11-09T23:00:00Z')).start).toEqual(
+        new Date('2025-11-03T00:00:00Z'),
+      );
+      expect(getStatsRange('week', 1, now).start).toEqual(new Date('2025-10-27T00:00:00Z'));
+    });
+
+    it('should cover calendar months across years', () => {
+      expect(getStatsRange('month', 0, now)).toEqual({
+        start: new Date('2025-11-01T00:00:00Z'),
+        end: new Date('2025-12-01T00:00:00Z'),
+      });
+      expect(getStatsRange('month', 11, now).start).toEqual(new Date('2024-12-01T00:00:00Z'));
+    });
+  });
+
+  describe('isStatsPeriod', () => {
+    it('should accept known periods only', () => {
+      expect(isStatsPeriod('week')).toBe(true);
+      expect(isStatsPeriod('year')).toBe(false);
+      expect(isStatsPeriod(undefined)).toBe(false);
+    });
+  });
+
+  const week = (hourly: HourlyClicks[], sessions = 3, previousTotal = 0) =>
+    new ClickHistory({
+      period: 'week',
+      ...getStatsRange('week', 0, now),
+      hourly,
+      sessions,
+      previousTotal,
+    });
+
+  const hourly: HourlyClicks[] = [
+    { hour: new Date('2025-11-03T09:00:00Z'), clicks: 100 },
+    { hour: new Date('2025-11-03T18:00:00Z'), clicks: 50 },
+    { hour: new Date('2025-11-05T18:00:00Z'), clicks: 120 },
+    // Outside the week
+    { hour: new Date('2025-11-02T18:00:00Z'), clicks: 1000 },
+  ];
+
+  it('should reject an empty range', () => {
+    expect(
+      () =>
+        new ClickHistory({
+          period: 'day',
+          start: now,
+          end: now,
+          hourly: [],
+          sessions: 0,
+          previousTotal: 0,
+        }),
+    ).toThrow('Statistics range must end after it starts');
+  });
+
+  it('should total only the clicks within the range', () => {
+    expect(week(hourly).total).toBe(270);
+  });
+
+  it('should fill every day of the period', () => {
+    const days = week(hourly).dailyTotals();
+
+    expect(days).toHaveLength(7);
+    expect(days[0]).toEqual({ day: new Date('2025-11-03T00:00:00Z'), clicks: 150 });
+    expect(days[1]?.clicks).toBe(0);
+    expect(days[2]?.clicks).toBe(120);
+  });
+
+  it('should sum points apart from clicks', () => {
+    const history = week([
+      { hour: new Date('2025-11-03T09:00:00Z'), clicks: 10, points: 25 },
+      { hour: new Date('2025-11-05T09:00:00Z'), clicks: 0, points: 500 },
+      { hour: new Date('2025-11-05T18:00:00Z'), clicks: 5 },
+    ]);
+
+    expect(history.total).toBe(15);
+    expect(history.dailyPoints()).toEqual([25, 0, 500, 0, 0, 0, 0]);
+    expect(history.hourOfDayPoints()[9]).toBe(525);
+    expect(history.hourOfDayPoints()[18]).toBe(0);
+  });
+
+  it('should find the best day and busiest hour', () => {
+    const history = week(hourly);
+
+    expect(history.bestDay()).toEqual({ day: new Date('2025-11-03T00:00:00Z'), clicks: 150 });
+    expect(history.busiestHour()).toBe(18);
+  });
+
+  it('should report no best day or busiest hour without clicks', () => {
+    const history = week([]);
+
+    expect(history.bestDay()).toBeNull();
+    expect(history.busiestHour()).toBeNull();
+    expect(history.averagePerSession()).toBe(0);
+  });
+
+  it('should average clicks per session', () => {
+    expect(week(hourly, 4).averagePerSession()).toBe(68);
+    expect(week(hourly, 0).averagePerSession()).toBe(0);
+  });
+
+  it('should compare with the previous period', () => {
+    expect(week(hourly, 3, 200).changePercent()).toBe(35);
+    expect(week(hourly, 3, 540).changePercent()).toBe(-50);
+    expect(week(hourly, 3, 0).changePercent()).toBeNull();
+  });
+});
@@ -0,0 +1,42 @@
+import { ClickPower } from '../../../domain/value-objects/ClickPower';
+
+describe('ClickPower Value Object', () => {
+  it('should be worth one point without upgrades', () => {
+    const power = ClickPower.fromLevels({});
+
+    expect(power.basePoints).toBe(1);
+    expect(power.critChance).toBe(0);
+    expect(power.roll()).toEqual({ points: 1, critical: false });
+  });
+
+  it('should add click multiplier levels to the base points', () => {
+    const power = ClickPower.fromLevels({ power_finger: 4 });
+
+    expect(power.roll()).toEqual({ points: 5, critical: false });
+  });
+
+  it('should multiply points on a critical roll', () => {
+    const power = ClickPower.fromLevels({ power_finger: 1, lucky_strike: 2 });
+
+    expect(power.critChance).toBeCloseTo(0.1);
+    expect(power.roll(() => 0.05)).toEqual({ points: 10, critical: true });
+    expect(power.roll(() => 0.5)).toEqual({ points: 2, critical: false });
+  });
+
+  it('should never exceed the maximum points per click', () => {
+    const power = new ClickPower({ basePoints: 50, critChance: 1 });
+
+    expect(power.roll().points).toBe(100);
+  });
+
+  it('should apply an event multiplier, rounding to whole points', () => {
+    const power = new ClickPower({ basePoints: 3, critChance: 0 }).withMultiplier(1.5);
+
+    expect(power.roll()).toEqual({ points: 5, critical: false });
+    expect(power.withMultiplier(100).roll().points).toBe(100);
+  });
+
+  it('should ignore passive upgrades', () => {
+    expect(ClickPower.fromLevels({ auto_clicker: 5 }).basePoints).toBe(1);
+  });
+});
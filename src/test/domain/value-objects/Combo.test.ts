@@ -0,0 +1,99 @@
+import {
+  Combo,
+  COMBO_DECAY_MS,
+  COMBO_WINDOW_MS,
+  MAX_COMBO_LENGTH,
+  MAX_COMBO_MULTIPLIER,
+} from '../../../domain/value-objects/Combo';
+
+describe('Combo Value Object', () => {
+  const now = 1_700_000_000_000;
+
+  const build = (clicks: number): Combo => {
+    let combo = Combo.empty();
+    for (let i = 0; i < clicks; i++) combo = combo.hit(now);
+    return combo;
+  };
+
+  describe('hit', () => {
+    it('should move from idle to clicking on the first click', () => {
+      const combo = Combo.empty().hit(now);
+
+      expect(combo.phase).toBe('clicking');
+      expect(combo.count).toBe(1);
+      expect(combo.expiresAt).toBe(now + COMBO_WINDOW_MS);
+    });
+
+    it('should stop growing the buffer once the multiplier is maxed', () => {
+      const combo = build(MAX_COMBO_LENGTH + 5);
+
+      expect(combo.count).toBe(MAX_COMBO_LENGTH);
+      expect(combo.multiplier).toBe(MAX_COMBO_MULTIPLIER);
+    });
+  });
+
+  describe('multiplier', () => {
+    it('should rise by a step every ten clicks', () => {
+      expect(build(9).multiplier).toBe(1);
+      expect(build(10).multiplier).toBe(1.5);
+      expect(build(25).multiplier).toBe(2);
+    });
+  });
+
+  describe('fromSnapshot', () => {
+    it('should read an empty session as idle', () => {
+      const combo = Combo.fromSnapshot({ gameState: 'idle', clickBuffer: [] }, now);
+
+      expect(combo.phase).toBe('idle');
+      expect(combo.expiresAt).toBeNull();
+    });
+
+    it('should keep the combo within the window', () => {
+      const snapshot = build(3).toSnapshot();
+
+      const combo = Combo.fromSnapshot(snapshot, now + COMBO_WINDOW_MS);
+
+      expect(combo.phase).toBe('clicking');
+      expect(combo.count).toBe(3);
+    });
+
+    it('should cool down and lose a click per decay period after the window', () => {
+      const snapshot = build(3).toSnapshot();
+
+      const combo = Combo.fromSnapshot(snapshot, now + COMBO_WINDOW_MS + COMBO_DECAY_MS + 1);
+
+      expect(combo.phase).toBe('cooldown');
+      expect(combo.count).toBe(2);
+      expect(combo.expiresAt).toBe(now + COMBO_WINDOW_MS + 3 * COMBO_DECAY_MS);
+    });
+
+    it('should go idle once the combo has fully decayed', () => {
+      const snapshot = build(3).toSnapshot();
+
+      const combo = Combo.fromSnapshot(snapshot, now + COMBO_WINDOW_MS + 3 * COMBO_DECAY_MS);
+
+      expect(combo.phase).toBe('idle');
+      expect(combo.toSnapshot()).toEqual({
+        gameState: 'idle',
+        lastClickTime: undefined,
+        clickBuffer: [],
+      });
+    });
+
+    it('should not decay twice when a cooling combo is saved and read again', () => {
+      const later = now + COMBO_WINDOW_MS + COMBO_DECAY_MS;
+      const cooling = Combo.fromSnapshot(build(3).toSnapshot(), later);
+
+      expect(Combo.fromSnapshot(cooling.toSnapshot(), later).count).toBe(cooling.count);
+    });
+
+    it('should resume a cooling combo from what is left', () => {
+      const later = now + COMBO_WINDOW_MS + 2 * COMBO_DECAY_MS;
+
+      const combo = Combo.fromSnapshot(build(3).toSnapshot(), later).hit(later);
+
+      expect(combo.phase).toBe('clicking');
+      expect(combo.count).toBe(2);
+    });
+  });
+});
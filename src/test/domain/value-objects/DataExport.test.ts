@@ -0,0 +1,72 @@
+import { DataExport, type DataExportSections } from '../../../domain/value-objects/DataExport';
+
+describe('DataExport', () => {
+  const exportedAt = new Date('2025-11-01T12:00:00Z');
+
+  const sections = (overrides: Partial<DataExportSections> = {}): DataExportSections => ({
+    user: {
+      id: 'user-1',
+      telegramId: BigInt(123456789),
+      username: 'alice',
+      customName: null,
+      score: BigInt(1500),
+      createdAt: new Date('2025-10-01T08:00:00Z'),
+    },
+    clicks: [
+      { count: 10, timestamp: new Date('2025-10-02T09:00:00Z') },
+      { count: 5, timestamp: new Date('2025-10-03T09:00:00Z') },
+    ],
+    sessions: [],
+    leaderboardSnapshots: [],
+    achievements: [{ achievementId: 'first_click', unlockedAt: new Date('2025-10-02T09:00:00Z') }],
+    upgrades: [],
+    streak: null,
+    preferences: { notificationsEnabled: true, language: null, theme: 'classic' },
+    referredBy: null,
+    invitees: [],
+    clan: null,
+    seasonBadges: [],
+    accountHistory: [],
+    ...overrides,
+  });
+
+  describe('toJsonFile', () => {
+    it('should include every section with serialized values', () => {
+      const json = JSON.parse(new DataExport(sections(), exportedAt).toJsonFile());
+
+      expect(json.exportedAt).toBe('2025-11-01T12:00:00.000Z');
+      expect(json.user.telegramId).toBe('123456789');
+      expect(json.user.score).toBe('1500');
+      expect(json.user.customName).toBeNull();
+      expect(json.clicks).toHaveLength(2);
+      expect(json.clicks[0]).toEqual({ count: 10, timestamp: '2025-10-02T09:00:00.000Z' });
+      expect(json.streak).toBeNull();
+      expect(json.preferences.language).toBeNull();
+      expect(json.sessions).toEqual([]);
+    });
+  });
+
+  describe('toCsvFile', () => {
+    it('should write one row per field', () => {
+      const lines = new DataExport(sections(), exportedAt).toCsvFile().split('\r\n');
+
+      expect(lines[0]).toBe('section,record,field,value');
+      expect(lines).toContain('user,0,score,1500');
+      expect(lines).toContain('clicks,1,count,5');
+      expect(lines).toContain('clicks,1,timestamp,2025-10-03T09:00:00.000Z');
+      expect(lines).toContain('preferences,0,language,');
+      expect(lines.some((line) => line.startsWith('streak,'))).toBe(false);
+    });
+
+    it('should quote values containing separators or quotes', () => {
+      const csv = new DataExport(
+        sections({
+          user: { id: 'user-1', customName: 'Bob, "the clicker"' },
+        }),
+        exportedAt,
+      ).toCsvFile();
+
+      expect(csv).toContain('user,0,customName,"Bob, ""the clicker"""');
+    });
+  });
+});
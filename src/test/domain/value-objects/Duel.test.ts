@@ -0,0 +1,32 @@
+import { Duel } from '../../../domain/value-objects/Duel';
+
+describe('Duel', () => {
+  const duel = new Duel({
+    id: 'duel-1',
+    challenger: { userId: 'user-1', telegramId: '111', chatId: '111', name: 'Alice' },
+    opponent: { userId: 'user-2', telegramId: '222', chatId: '222', name: 'Bob' },
+    wager: 0,
+  });
+
+  describe('getWinner', () => {
+    it('should pick the player with more clicks', () => {
+      expect(duel.getWinner({ 'user-1': 3, 'user-2': 5 })?.userId).toBe('user-2');
+      expect(duel.getWinner({ 'user-1': 1 })?.userId).toBe('user-1');
+    });
+
+    it('should call equal counts a draw', () => {
+      expect(duel.getWinner({ 'user-1': 4, 'user-2': 4 })).toBeNull();
+      expect(duel.getWinner({})).toBeNull();
+    });
+  });
+
+  describe('withEndsAt', () => {
+    it('should start the duel without changing the original', () => {
+      const started = duel.withEndsAt(60000);
+
+      expect(started.isStarted()).toBe(true);
+      expect(started.opponent).toEqual(duel.opponent);
+      expect(duel.isStarted()).toBe(false);
+    });
+  });
+});
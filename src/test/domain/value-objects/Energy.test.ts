@@ -0,0 +1,53 @@
+import { Energy } from '../../../domain/value-objects/Energy';
+
+describe('Energy Value Object', () => {
+  const now = 1_700_000_000_000;
+
+  describe('fromLevels', () => {
+    it('should start full without a stored value', () => {
+      const energy = Energy.fromLevels({}, null, now);
+
+      expect(energy.available).toBe(Energy.BASE_MAX);
+      expect(energy.isFull).toBe(true);
+    });
+
+    it('should regenerate from the stored value and stop at the maximum', () => {
+      const stored = { energy: 10, updatedAt: now - 60000 };
+
+      expect(Energy.fromLevels({}, stored, now).available).toBe(40);
+      expect(Energy.fromLevels({}, stored, now + 3600000).available).toBe(Energy.BASE_MAX);
+    });
+
+    it('should raise the maximum and regeneration with upgrades', () => {
+      const energy = Energy.fromLevels({ energy_tank: 2, quick_charge: 1 }, null, now);
+
+      expect(energy.max).toBe(Energy.BASE_MAX + 200);
+      expect(energy.regenPerMinute).toBe(Energy.BASE_REGEN_PER_MINUTE + 10);
+    });
+  });
+
+  describe('spend', () => {
+    it('should take the cost off the current energy', () => {
+      const energy = new Energy({ current: 5, max: 10, regenPerMinute: 30 });
+
+      expect(energy.spend(2).current).toBe(3);
+    });
+
+    it('should refuse to go below zero', () => {
+      const energy = new Energy({ current: 0.5, max: 10, regenPerMinute: 30 });
+
+      expect(energy.canSpend()).toBe(false);
+      expect(() => energy.spend()).toThrow('Not enough energy');
+    });
+  });
+
+  describe('refill times', () => {
+    it('should tell how long until a click and a full tank', () => {
+      const energy = new Energy({ current: 0.5, max: 30, regenPerMinute: 30 });
+
+      expect(energy.msUntil()).toBe(1000);
+      expect(energy.msUntilFull()).toBe(59000);
+      expect(new Energy({ current: 3, max: 10, regenPerMinute: 30 }).msUntil()).toBe(0);
+    });
+  });
+});
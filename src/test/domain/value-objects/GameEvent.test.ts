@@ -0,0 +1,37 @@
+import { GameEvent, NEW_PLAYER_WINDOW_MS } from '../../../domain/value-objects/GameEvent';
+
+describe('GameEvent', () => {
+  const now = new Date('2025-11-08T12:00:00Z');
+
+  function event(audience: string | null): GameEvent {
+    return GameEvent.fromRecord({
+      id: 'event-1',
+      title: 'Double Points Weekend',
+      multiplier: 2,
+      audience,
+      startsAt: new Date('2025-11-08T00:00:00Z'),
+      endsAt: new Date('2025-11-10T00:00:00Z'),
+    });
+  }
+
+  it('should be active from its start until its end', () => {
+    expect(event(null).isActive(now)).toBe(true);
+    expect(event(null).isActive(new Date('2025-11-07T23:59:59Z'))).toBe(false);
+    expect(event(null).isActive(new Date('2025-11-10T00:00:00Z'))).toBe(false);
+  });
+
+  it('should apply to its audience only', () => {
+    const veteran = { joinedAt: new Date(now.getTime() - NEW_PLAYER_WINDOW_MS), inClan: true };
+    const newcomer = { joinedAt: now, inClan: false };
+
+    expect(event(null).appliesTo(newcomer, now)).toBe(true);
+    expect(event('new_players').appliesTo(newcomer, now)).toBe(true);
+    expect(event('new_players').appliesTo(veteran, now)).toBe(false);
+    expect(event('clan_members').appliesTo(veteran, now)).toBe(true);
+    expect(event('clan_members').appliesTo(newcomer, now)).toBe(false);
+  });
+
+  it('should target everyone when the stored audience is unknown', () => {
+    expect(event('vip').audience).toBeNull();
+  });
+});
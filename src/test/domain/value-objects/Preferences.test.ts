@@ -0,0 +1,86 @@
+import {
+  Preferences,
+  isLanguage,
+  isNotificationCategory,
+  isTheme,
+} from '../../../domain/value-objects/Preferences';
+
+describe('Preferences Value Object', () => {
+  describe('defaults', () => {
+    it('should enable notifications except streak reminders', () => {
+      const preferences = Preferences.defaults();
+
+      expect(preferences.notificationsEnabled).toBe(true);
+      expect(preferences.notifications).toEqual({
+        achievements: true,
+        reminders: false,
+        events: true,
+        social: true,
+      });
+      expect(preferences.language).toBeNull();
+      expect(preferences.theme).toBe('classic');
+    });
+
+    it('should fall back to defaults for unknown language and theme', () => {
+      const preferences = new Preferences({ language: 'xx', theme: 'neon' });
+
+      expect(preferences.language).toBeNull();
+      expect(preferences.theme).toBe('classic');
+    });
+  });
+
+  describe('allows', () => {
+    it('should respect per-category switches', () => {
+      const preferences = Preferences.defaults();
+
+      expect(preferences.allows('achievements')).toBe(true);
+      expect(preferences.allows('reminders')).toBe(false);
+    });
+
+    it('should block every category when the master switch is off', () => {
+      const preferences = Preferences.defaults()
+        .withNotification('reminders', true)
+        .withNotificationsEnabled(false);
+
+      expect(preferences.allows()).toBe(false);
+      expect(preferences.allows('reminders')).toBe(false);
+    });
+
+    it('should only check the master switch without a category', () => {
+      const preferences = Preferences.defaults().withNotification('achievements', false);
+
+      expect(preferences.allows()).toBe(true);
+    });
+  });
+
+  describe('updates', () => {
+    it('should return new instances and leave the original untouched', () => {
+      const original = Preferences.defaults();
+      const updated = original.withLanguage('ru').withTheme('space');
+
+      expect(updated.language).toBe('ru');
+      expect(updated.theme).toBe('space');
+      expect(original.language).toBeNull();
+      expect(original.theme).toBe('classic');
+    });
+
+    it('should round-trip through JSON', () => {
+      const preferences = Preferences.defaults()
+        .withNotification('social', false)
+        .withTheme('fire');
+
+      expect(new Preferences(JSON.parse(JSON.stringify(preferences)))).toEqual(preferences);
+    });
+  });
+
+  describe('guards', () => {
+    it('should recognise known values only', () => {
+      expect(isNotificationCategory('events')).toBe(true);
+      expect(isNotificationCategory('spam')).toBe(false);
+      expect(isLanguage('es')).toBe(true);
+      expect(isLanguage('toString')).toBe(false);
+      expect(isTheme('fire')).toBe(true);
+      expect(isTheme(undefined)).toBe(false);
+    });
+  });
+});
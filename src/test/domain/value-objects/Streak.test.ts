@@ -0,0 +1,89 @@
+import { Streak, DAILY_REWARDS, toDayKey } from '../../../domain/value-objects/Streak';
+
+describe('Streak Value Object', () => {
+  const now = new Date('2024-06-15T12:00:00Z');
+
+  describe('constructor', () => {
+    it('should reject negative streaks', () => {
+      expect(() => new Streak({ current: -1, best: 0, lastClaimDay: null })).toThrow(
+        'Streak must be a non-negative integer',
+      );
+    });
+
+    it('should reject malformed claim days', () => {
+      expect(() => new Streak({ current: 1, best: 1, lastClaimDay: '15/06/2024' })).toThrow(
+        'Last claim day must be formatted as YYYY-MM-DD',
+      );
+    });
+
+    it('should never report a best below the current streak', () => {
+      expect(new Streak({ current: 5, best: 2, lastClaimDay: '2024-06-15' }).best).toBe(5);
+    });
+  });
+
+  describe('claim', () => {
+    it('should start a streak on the first claim', () => {
+      const streak = Streak.empty().claim(now);
+
+      expect(streak.current).toBe(1);
+      expect(streak.best).toBe(1);
+      expect(streak.lastClaimDay).toBe('2024-06-15');
+    });
+
+    it('should extend a streak claimed yesterday', () => {
+      const streak = new Streak({ current: 3, best: 3, lastClaimDay: '2024-06-14' }).claim(now);
+
+      expect(streak.current).toBe(4);
+      expect(streak.best).toBe(4);
+    });
+
+    it('should restart a broken streak but keep the best', () => {
+      const streak = new Streak({ current: 6, best: 6, lastClaimDay: '2024-06-12' }).claim(now);
+
+      expect(streak.current).toBe(1);
+      expect(streak.best).toBe(6);
+    });
+
+    it('should not allow claiming twice a day', () => {
+      const streak = Streak.empty().claim(now);
+
+      expect(streak.canClaim(now)).toBe(false);
+      expect(() => streak.claim(now)).toThrow('Daily reward already claimed today');
+    });
+  });
+
+  describe('activeDays', () => {
+    it('should report zero once a day was missed', () => {
+      const streak = new Streak({ current: 4, best: 4, lastClaimDay: '2024-06-13' });
+
+      expect(streak.activeDays(now)).toBe(0);
+      expect(streak.nextReward(now)).toBe(DAILY_REWARDS[0]);
+    });
+  });
+
+  describe('isAtRisk', () => {
+    it('should flag streaks not yet claimed today', () => {
+      expect(new Streak({ current: 2, best: 2, lastClaimDay: '2024-06-14' }).isAtRisk(now)).toBe(
+        true,
+      );
+      expect(new Streak({ current: 2, best: 2, lastClaimDay: '2024-06-15' }).isAtRisk(now)).toBe(
+        false,
+      );
+      expect(Streak.empty().isAtRisk(now)).toBe(false);
+    });
+  });
+
+  describe('rewardFor', () => {
+    it('should escalate and then stay at the last reward', () => {
+      expect(Streak.rewardFor(1)).toBe(DAILY_REWARDS[0]);
+      expect(Streak.rewardFor(2)).toBeGreaterThan(Streak.rewardFor(1));
+      expect(Streak.rewardFor(30)).toBe(DAILY_REWARDS[DAILY_REWARDS.length - 1]);
+    });
+  });
+
+  describe('toDayKey', () => {
+    it('should use the UTC calendar day', () => {
+      expect(toDayKey(new Date('2024-06-15T23:30:00-02:00'))).toBe('2024-06-16');
+    });
+  });
+});
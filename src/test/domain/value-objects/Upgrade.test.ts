@@ -0,0 +1,93 @@
+import { Upgrade, UPGRADE_CATALOGUE, findUpgrade } from '../../../domain/value-objects/Upgrade';
+import { translator } from '../../../shared/i18n';
+
+describe('Upgrade Value Object', () => {
+  const create = (overrides: Partial<ConstructorParameters<typeof Upgrade>[0]> = {}): Upgrade =>
+    new Upgrade({
+      id: 'test_upgrade',
+      title: 'upgrades.powerFinger.title',
+      description: 'upgrades.powerFinger.description',
+      emoji: '🧪',
+      effect: 'clickMultiplier',
+      basePrice: 50,
+      priceGrowth: 2,
+      maxLevel: 3,
+      effectPerLevel: 1,
+      ...overrides,
+    });
+
+  describe('constructor', () => {
+    it('should reject ids that are not snake_case', () => {
+      expect(() => create({ id: 'TestUpgrade' })).toThrow('Upgrade id must be snake_case');
+    });
+
+    it('should reject non-positive prices', () => {
+      expect(() => create({ basePrice: 0 })).toThrow(
+        'Upgrade base price must be a positive integer',
+      );
+    });
+
+    it('should reject prices that shrink', () => {
+      expect(() => create({ priceGrowth: 0.5 })).toThrow('Upgrade price growth must be at least 1');
+    });
+  });
+
+  describe('getPrice', () => {
+    it('should grow the price with each level', () => {
+      const upgrade = create();
+
+      expect(upgrade.getPrice(0)).toBe(50);
+      expect(upgrade.getPrice(1)).toBe(100);
+      expect(upgrade.getPrice(2)).toBe(200);
+    });
+  });
+
+  describe('getEffect', () => {
+    it('should scale with level and stop at the max level', () => {
+      const upgrade = create({ effectPerLevel: 2 });
+
+      expect(upgrade.getEffect(0)).toBe(0);
+      expect(upgrade.getEffect(2)).toBe(4);
+      expect(upgrade.getEffect(10)).toBe(6);
+    });
+  });
+
+  describe('format', () => {
+    const t = translator('en');
+
+    it('should show the next price until maxed out', () => {
+      const upgrade = create();
+
+      expect(upgrade.format(0, t)).toContain('for 50 points');
+      expect(upgrade.format(3, t)).toContain('MAX LEVEL');
+    });
+
+    it('should describe energy effects', () => {
+      expect(create({ effect: 'maxEnergy', effectPerLevel: 100 }).format(0, t)).toContain(
+        '+100 max energy',
+      );
+      expect(create({ effect: 'energyRegen', effectPerLevel: 10 }).format(0, t)).toContain(
+        '+10 energy/min',
+      );
+    });
+
+    it("should render in the reader's language", () => {
+      expect(create().format(3, translator('es'))).toContain('NIVEL MÁXIMO');
+      expect(
+        create({ effect: 'critChance', effectPerLevel: 0.05 }).format(0, translator('ru')),
+      ).toContain('5% шанс крита');
+    });
+  });
+
+  describe('UPGRADE_CATALOGUE', () => {
+    it('should have unique ids', () => {
+      const ids = UPGRADE_CATALOGUE.map((upgrade) => upgrade.id);
+      expect(new Set(ids).size).toBe(ids.length);
+    });
+
+    it('should find upgrades by id', () => {
+      expect(findUpgrade('auto_clicker')?.effect).toBe('autoClicker');
+      expect(findUpgrade('missing')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,39 @@
+import {
+  formatCompact,
+  renderBarChart,
+  renderLineChart,
+} from '../../../infrastructure/charts/ChartRenderer';
+
+describe('ChartRenderer', () => {
+  const series = {
+    labels: ['1', '2', '3', '4', '5', '6', '7'],
+    values: [120, 0, 340, 80, 1500, 20, 0],
+  };
+
+  describe('formatCompact', () => {
+    it('should shorten large numbers', () => {
+      expect(formatCompact(0)).toBe('0');
+      expect(formatCompact(950)).toBe('950');
+      expect(formatCompact(1200)).toBe('1.2k');
+      expect(formatCompact(25000)).toBe('25k');
+      expect(formatCompact(3_400_000)).toBe('3.4M');
+    });
+  });
+
+  it.each([
+    ['bar', renderBarChart],
+    ['line', renderLineChart],
+  ])('should render a %s chart as an 800x400 PNG', (_, render) => {
+    const png = render(series);
+
+    expect(png.subarray(1, 4).toString('ascii')).toBe('PNG');
+    expect(png.readUInt32BE(16)).toBe(800);
+    expect(png.readUInt32BE(20)).toBe(400);
+  });
+
+  it('should render a chart without any clicks', () => {
+    const png = renderBarChart({ labels: ['0', '1'], values: [0, 0] });
+
+    expect(png.subarray(1, 4).toString('ascii')).toBe('PNG');
+  });
+});
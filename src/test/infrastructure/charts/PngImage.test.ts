@@ -0,0 +1,80 @@
+import { inflateSync } from 'zlib';
+import { PngImage } from '../../../infrastructure/charts/PngImage';
+
+/**
+ * Read back the chunks of an encoded image
+ */
+function readChunks(png: Buffer): Map<string, Buffer> {
+  const chunks = new Map<string, Buffer>();
+  let offset = 8;
+  while (offset < png.length) {
+    const length = png.readUInt32BE(offset);
+    const type = png.toString('ascii', offset + 4, offset + 8);
+    chunks.set(type, png.subarray(offset + 8, offset + 8 + length));
+    offset += length + 12;
+  }
+  return chunks;
+}
+
+describe('PngImage', () => {
+  const white = [255, 255, 255] as const;
+  const red = [255, 0, 0] as const;
+
+  it('should reject invalid sizes', () => {
+    expect(() => new PngImage(0, 10, white)).toThrow('Image size must be positive integers');
+    expect(() => new PngImage(10.5, 10, white)).toThrow('Image size must be positive integers');
+  });
+
+  it('should fill the background and ignore pixels outside the image', () => {
+    const image = new PngImage(4, 3, white);
+    image.setPixel(10, 10, red);
+    image.setPixel(-1, 0, red);
+
+    expect(image.getPixel(3, 2)).toEqual([255, 255, 255]);
+  });
+
+  it('should draw rectangles and lines', () => {
+    const image = new PngImage(10, 10, white);
+    image.fillRect(2, 2, 2, 2, red);
+    image.drawLine(0, 9, 9, 9, red);
+
+    expect(image.getPixel(3, 3)).toEqual([255, 0, 0]);
+    expect(image.getPixel(4, 4)).toEqual([255, 255, 255]);
+    expect(image.getPixel(5, 9)).toEqual([255, 0, 0]);
+  });
+
+  it('should draw text in the pixel font', () => {
+    const image = new PngImage(20, 20, white);
+    image.drawText(0, 0, '1', red, 1);
+
+    // The top row of "1" is 010
+    expect(image.getPixel(0, 0)).toEqual([255, 255, 255]);
+    expect(image.getPixel(1, 0)).toEqual([255, 0, 0]);
+    expect(PngImage.textWidth('12', 2)).toBe(14);
+  });
+
+  it('should encode a valid PNG', () => {
+    const image = new PngImage(3, 2, white);
+    image.setPixel(1, 1, red);
+
+    const png = image.toPng();
+    const chunks = readChunks(png);
+    const header = chunks.get('IHDR')!;
+    const raw = inflateSync(chunks.get('IDAT')!);
+
+    expect(png.subarray(0, 8)).toEqual(Buffer.from([137, 80, 78, 71, 13, 10, 26, 10]));
+    expect(header.readUInt32BE(0)).toBe(3);
+    expect(header.readUInt32BE(4)).toBe(2);
+    expect(chunks.has('IEND')).toBe(true);
+    // Second scanline: filter byte, then pixels 0 and 1
+    expect([...raw.subarray(10, 17)]).toEqual([0, 255, 255, 255, 255, 0, 0]);
+  });
+
+  it('should write correct chunk checksums', () => {
+    const png = new PngImage(1, 1, white).toPng();
+    const length = png.readUInt32BE(8);
+
+    // CRC of "IHDR" + data, as computed by the reference algorithm
+    expect(png.readUInt32BE(8 + 8 + length)).toBe(0x907753de);
+  });
+});
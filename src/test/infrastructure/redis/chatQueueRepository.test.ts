@@ -0,0 +1,158 @@
+import { ChatQueueRedisRepository } from '../../../infrastructure/redis/repositories/chatQueueRepository';
+import { redisClient } from '../../../infrastructure/redis/client';
+
+describe('ChatQueueRedisRepository', () => {
+  let repository: ChatQueueRedisRepository<{ text: string }>;
+
+  const entry = (id: string, chatId: string, priority = 0) => ({
+    id,
+    chatId,
+    priority,
+    data: { text: id },
+  });
+
+  beforeEach(async () => {
+    repository = new ChatQueueRedisRepository();
+    await redisClient.getClient().flushdb();
+  });
+
+  afterEach(async () => {
+    await redisClient.getClient().flushdb();
+  });
+
+  it('should pop a chat’s jobs by priority, then in arrival order', async () => {
+    await repository.push(entry('first', 'chat-1'));
+    await repository.push(entry('second', 'chat-1'));
+    await repository.push(entry('urgent', 'chat-1', 10));
+
+    expect((await repository.pop('chat-1'))?.id).toBe('urgent');
+    expect((await repository.pop('chat-1'))?.id).toBe('first');
+    expect((await repository.pop('chat-1'))?.data).toEqual({ text: 'second' });
+    expect(await repository.pop('chat-1')).toBeNull();
+    expect(await repository.size()).toBe(0);
+  });
+
+  it('should put each chat with jobs in the ring once', async () => {
+    await repository.push(entry('a1', 'chat-a'));
+    await repository.push(entry('a2', 'chat-a'));
+    await repository.push(entry('b1', 'chat-b'));
+
+    expect(await repository.countChats()).toBe(2);
+    expect(await repository.nextChat()).toBe('chat-a');
+    expect(await repository.nextChat()).toBe('chat-b');
+  });
+
+  it('should send a released chat to the back of the ring only while it has jobs', async () => {
+    await repository.push(entry('a1', 'chat-a'));
+    await repository.push(entry('b1', 'chat-b'));
+
+    const chatId = await repository.nextChat();
+    await repository.pop(chatId!);
+    await repository.releaseChat(chatId!);
+    expect(await repository.countChats()).toBe(1);
+
+    await repository.push(entry('a2', 'chat-a'));
+    expect(await repository.nextChat()).toBe('chat-b');
+    expect(await repository.nextChat()).toBe('chat-a');
+  });
+
+  it('should keep the place of a job pushed back', async () => {
+    await repository.push(entry('first', 'chat-1'));
+    await repository.push(entry('second', 'chat-1'));
+
+    const first = await repository.pop('chat-1');
+    await repository.push(first!);
+
+    expect((await repository.pop('chat-1'))?.id).toBe('first');
+    expect((await repository.pop('chat-1'))?.id).toBe('second');
+  });
+
+  it('should peek at the most urgent job and take a given one', async () => {
+    await repository.push(entry('first', 'chat-1'));
+    await repository.push(entry('urgent', 'chat-1', 10));
+
+    expect((await repository.peek('chat-1'))?.id).toBe('urgent');
+    expect((await repository.take('chat-1', 'first'))?.id).toBe('first');
+    expect(await repository.take('chat-1', 'first')).toBeNull();
+    expect(await repository.size()).toBe(1);
+  });
+
+  it('should queue exempt jobs ahead of the others', async () => {
+    await repository.push(entry('urgent', 'chat-1', 10));
+    await repository.push({ ...entry('answer', 'chat-1'), exempt: true });
+
+    expect((await repository.peek('chat-1'))?.id).toBe('answer');
+    expect(await repository.remove('chat-1', 'answer')).toBe(true);
+    expect((await repository.pop('chat-1'))?.id).toBe('urgent');
+  });
+
+  it('should keep a chat with only exempt jobs in the ring', async () => {
+    await repository.push({ ...entry('a1', 'chat-a'), exempt: true });
+    await repository.push({ ...entry('a2', 'chat-a'), exempt: true });
+
+    const chatId = await repository.nextChat();
+    await repository.pop(chatId!);
+    await repository.releaseChat(chatId!);
+
+    expect(await repository.countChats()).toBe(1);
+  });
+
+  it('should put chats held past the limit back in the ring', async () => {
+    await repository.push(entry('a1', 'chat-a'));
+    await repository.push(entry('b1', 'chat-b'));
+
+    // Both taken by a process that stopped before releasing them
+    await repository.nextChat();
+    await repository.nextChat();
+    await repository.pop('chat-b');
+
+    expect(await repository.recoverChats(60000)).toBe(0);
+    expect(await repository.countChats()).toBe(0);
+
+    expect(await repository.recoverChats(-1)).toBe(2);
+    expect(await repository.countChats()).toBe(1);
+    expect(await repository.nextChat()).toBe('chat-a');
+
+    // chat-b left the active set, so a new job puts it back in the ring
+    await repository.push(entry('b2', 'chat-b'));
+    expect(await repository.nextChat()).toBe('chat-b');
+  });
+
+  it('should not release a chat twice once it was recovered', async () => {
+    await repository.push(entry('a1', 'chat-a'));
+
+    await repository.nextChat();
+    await repository.recoverChats(-1);
+    await repository.releaseChat('chat-a');
+
+    expect(await repository.countChats()).toBe(1);
+  });
+
+  it('should remove a job that is still waiting', async () => {
+    await repository.push(entry('a1', 'chat-a'));
+
+    expect(await repository.remove('chat-a', 'a1')).toBe(true);
+    expect(await repository.remove('chat-a', 'a1')).toBe(false);
+    expect(await repository.pop('chat-a')).toBeNull();
+  });
+
+  it('should hold sends within the chat interval and per-minute cap', async () => {
+    const limits = { minIntervalMs: 60000, perMinute: 1 };
+
+    expect(await repository.acquireSendSlot('-100', limits)).toBe(true);
+    expect(await repository.acquireSendSlot('-100', limits)).toBe(false);
+
+    await redisClient.getClient().del('scheduler:slot:-100');
+    expect(await repository.acquireSendSlot('-100', limits)).toBe(false);
+    expect(await repository.acquireSendSlot('-200', limits)).toBe(true);
+  });
+
+  it('should drop every waiting job on clear', async () => {
+    await repository.push(entry('a1', 'chat-a'));
+    await repository.clear();
+
+    expect(await repository.size()).toBe(0);
+    expect(await repository.nextChat()).toBeNull();
+    expect(await repository.pop('chat-a')).toBeNull();
+  });
+});
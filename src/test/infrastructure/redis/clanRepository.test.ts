@@ -0,0 +1,100 @@
+import { ClanRedisRepository } from '../../../infrastructure/redis/repositories/clanRepository';
+import { redisClient } from '../../../infrastructure/redis/client';
+import { REDIS_KEYS } from '../../../shared/constants';
+
+describe('ClanRedisRepository', () => {
+  let repository: ClanRedisRepository;
+
+  beforeEach(async () => {
+    repository = new ClanRedisRepository();
+    await redisClient.getClient().flushdb();
+  });
+
+  afterEach(async () => {
+    await redisClient.getClient().flushdb();
+  });
+
+  describe('addMemberPoints', () => {
+    it('should add points to the member clan score', async () => {
+      await repository.register('clan-1', 'Clickers');
+      await repository.setMembership('user-1', 'clan-1');
+
+      expect(await repository.addMemberPoints('user-1', 5)).toBe(5);
+      expect(await repository.addMemberPoints('user-1', 3)).toBe(8);
+      expect(await repository.getScore('clan-1')).toBe(8);
+    });
+
+    it("should keep each member's share per clan", async () => {
+      await repository.register('clan-1', 'Clickers');
+      await repository.setMembership('user-1', 'clan-1');
+      await repository.addMemberPoints('user-1', 5);
+      await repository.addMemberPoints('user-1', 3);
+
+      expect(
+        await redisClient.getClient().hgetall(`${REDIS_KEYS.CLAN_CONTRIBUTIONS}user-1`),
+      ).toEqual({ 'clan-1': '8' });
+    });
+
+    it('should ignore players without a clan', async () => {
+      expect(await repository.addMemberPoints('user-1', 5)).toBeNull();
+      expect(await repository.getTotalClans()).toBe(0);
+    });
+
+    it('should stop crediting after the membership is removed', async () => {
+      await repository.register('clan-1', 'Clickers');
+      await repository.setMembership('user-1', 'clan-1');
+      await repository.removeMembership('user-1');
+
+      expect(await repository.addMemberPoints('user-1', 5)).toBeNull();
+      expect(await repository.getScore('clan-1')).toBe(0);
+    });
+  });
+
+  describe('register', () => {
+    it('should keep the score of a clan registered again', async () => {
+      await repository.register('clan-1', 'Clickers');
+      await repository.setMembership('user-1', 'clan-1');
+      await repository.addMemberPoints('user-1', 10);
+
+      await repository.register('clan-1', 'Clickers');
+
+      expect(await repository.getScore('clan-1')).toBe(10);
+    });
+  });
+
+  describe('getTop', () => {
+    beforeEach(async () => {
+      const clans: Array<[string, string, number]> = [
+        ['clan-1', 'Alpha', 30],
+        ['clan-2', 'Bravo', 50],
+        ['clan-3', 'Charlie', 10],
+      ];
+      for (const [clanId, name, points] of clans) {
+        await repository.register(clanId, name);
+        await repository.setMembership(`member-of-${clanId}`, clanId);
+        await repository.addMemberPoints(`member-of-${clanId}`, points);
+      }
+    });
+
+    it('should rank clans by score with their names', async () => {
+      expect(await repository.getTop(2)).toEqual([
+        { clanId: 'clan-2', name: 'Bravo', score: 50, rank: 1 },
+        { clanId: 'clan-1', name: 'Alpha', score: 30, rank: 2 },
+      ]);
+      expect(await repository.getRank('clan-3')).toBe(3);
+    });
+
+    it('should page from the offset', async () => {
+      expect(await repository.getTop(2, 2)).toEqual([
+        { clanId: 'clan-3', name: 'Charlie', score: 10, rank: 3 },
+      ]);
+    });
+
+    it('should drop removed clans', async () => {
+      await repository.remove('clan-2');
+
+      expect(await repository.getTotalClans()).toBe(2);
+      expect(await repository.getRank('clan-2')).toBeNull();
+    });
+  });
+});
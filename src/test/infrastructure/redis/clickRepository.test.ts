@@ -149,6 +149,32 @@ describe('ClickRedisRepository', () => {
     });
   });
 
+  describe('pending score', () => {
+    it('should keep pending score apart from pending clicks', async () => {
+      await repository.incrementClickCount('user-1', 10);
+      await repository.incrementPendingScore('user-1', 25);
+
+      expect(await repository.getPendingClicks('user-1')).toBe(10);
+      expect(await repository.getPendingPoints('user-1')).toBe(35);
+      expect((await repository.getAllPendingClicks()).get('user-1')).toBe(10);
+    });
+
+    it('should return 0 pending points for user with nothing pending', async () => {
+      expect(await repository.getPendingPoints('user-1')).toBe(0);
+    });
+
+    it('should clear pending score for specified users', async () => {
+      await repository.incrementClickCount('user-1', 10);
+      await repository.incrementPendingScore('user-1', 25);
+      await repository.incrementPendingScore('user-2', 5);
+
+      await repository.clearPendingScore(['user-1']);
+
+      expect(await repository.getPendingPoints('user-1')).toBe(10);
+      expect(await repository.getPendingPoints('user-2')).toBe(5);
+    });
+  });
+
   describe('addClickEvent', () => {
     it('should add click event to stream', async () => {
       const id = await repository.addClickEvent('user-1', 5);
@@ -0,0 +1,64 @@
+import { DeadLetterRedisRepository } from '../../../infrastructure/redis/repositories/deadLetterRepository';
+import { redisClient } from '../../../infrastructure/redis/client';
+import type { DeadLetter } from '../../../domain/repositories/IDeadLetterRepository';
+
+describe('DeadLetterRedisRepository', () => {
+  let repository: DeadLetterRedisRepository<{ message: string }>;
+
+  const letter = (id: string, failedAt: number): DeadLetter<{ message: string }> => ({
+    id,
+    chatId: '111',
+    channel: null,
+    description: 'message',
+    error: '403: Forbidden: bot was blocked by the user',
+    errorCode: 403,
+    retryable: false,
+    attempts: [{ at: failedAt, error: '403: Forbidden: bot was blocked by the user' }],
+    failedAt,
+    data: { message: `hello ${id}` },
+  });
+
+  beforeEach(async () => {
+    repository = new DeadLetterRedisRepository(3);
+    await redisClient.getClient().flushdb();
+  });
+
+  afterEach(async () => {
+    await redisClient.getClient().flushdb();
+  });
+
+  it('should store a dead letter with its attempts and job', async () => {
+    await repository.add(letter('job-1', 1000));
+
+    expect(await repository.get('job-1')).toEqual(letter('job-1', 1000));
+    expect(await repository.get('missing')).toBeNull();
+  });
+
+  it('should list dead letters newest first, a page at a time', async () => {
+    await repository.add(letter('old', 1000));
+    await repository.add(letter('new', 3000));
+    await repository.add(letter('middle', 2000));
+
+    expect((await repository.list(0, 2)).map(({ id }) => id)).toEqual(['new', 'middle']);
+    expect((await repository.list(2, 2)).map(({ id }) => id)).toEqual(['old']);
+  });
+
+  it('should keep only the latest dead letters past the limit', async () => {
+    for (let i = 1; i <= 4; i++) await repository.add(letter(`job-${i}`, i * 1000));
+
+    expect(await repository.count()).toBe(3);
+    expect(await repository.get('job-1')).toBeNull();
+  });
+
+  it('should remove one dead letter or purge them all', async () => {
+    await repository.add(letter('job-1', 1000));
+    await repository.add(letter('job-2', 2000));
+
+    expect(await repository.remove('job-1')).toBe(true);
+    expect(await repository.remove('job-1')).toBe(false);
+
+    expect(await repository.purge()).toBe(1);
+    expect(await repository.count()).toBe(0);
+    expect(await repository.list(0, 10)).toEqual([]);
+  });
+});
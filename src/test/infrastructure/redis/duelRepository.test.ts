@@ -0,0 +1,108 @@
+import { DuelRedisRepository } from '../../../infrastructure/redis/repositories/duelRepository';
+import { redisClient } from '../../../infrastructure/redis/client';
+import { Duel } from '../../../domain/value-objects/Duel';
+
+function duel(id: string, challengerId = 'user-1', opponentId = 'user-2'): Duel {
+  return new Duel({
+    id,
+    challenger: { userId: challengerId, telegramId: '111', chatId: '-100', name: 'Alice' },
+    opponent: { userId: opponentId, telegramId: '222', chatId: '222', name: 'Bob' },
+    wager: 50,
+  });
+}
+
+describe('DuelRedisRepository', () => {
+  let repository: DuelRedisRepository;
+
+  beforeEach(async () => {
+    repository = new DuelRedisRepository();
+    await redisClient.getClient().flushdb();
+  });
+
+  afterEach(async () => {
+    await redisClient.getClient().flushdb();
+  });
+
+  describe('create', () => {
+    it('should store a pending duel for both players', async () => {
+      expect(await repository.create(duel('duel-1'), 300)).toBe(true);
+
+      const stored = await repository.get('duel-1');
+      expect(stored?.challenger).toEqual(duel('duel-1').challenger);
+      expect(stored?.wager).toBe(50);
+      expect(stored?.isStarted()).toBe(false);
+      expect(await repository.getUserDuel('user-2')).toBe('duel-1');
+    });
+
+    it('should refuse players already in a duel', async () => {
+      await repository.create(duel('duel-1'), 300);
+
+      expect(await repository.create(duel('duel-2', 'user-3', 'user-2'), 300)).toBe(false);
+      expect(await repository.getUserDuel('user-3')).toBeNull();
+      expect(await repository.get('duel-2')).toBeNull();
+    });
+  });
+
+  describe('start', () => {
+    it('should start a pending duel only once', async () => {
+      await repository.create(duel('duel-1'), 300);
+
+      expect(await repository.start('duel-1', 60000)).toBe(true);
+      expect(await repository.start('duel-1', 70000)).toBe(false);
+      expect((await repository.get('duel-1'))?.endsAt).toBe(60000);
+    });
+
+    it('should not start an expired duel', async () => {
+      expect(await repository.start('duel-1', 60000)).toBe(false);
+      expect(await repository.getDue(60000)).toEqual([]);
+    });
+  });
+
+  describe('addClicks', () => {
+    it('should count clicks only while the window is open', async () => {
+      await repository.create(duel('duel-1'), 300);
+      await repository.start('duel-1', 60000);
+
+      expect(await repository.addClicks('user-1', 1, 1000)).toBe(1);
+      expect(await repository.addClicks('user-1', 1, 2000)).toBe(2);
+      expect(await repository.addClicks('user-2', 1, 2000)).toBe(1);
+      expect(await repository.addClicks('user-2', 1, 60000)).toBeNull();
+
+      expect(await repository.getClicks('duel-1')).toEqual({ 'user-1': 2, 'user-2': 1 });
+    });
+
+    it('should ignore clicks before the duel is accepted', async () => {
+      await repository.create(duel('duel-1'), 300);
+
+      expect(await repository.addClicks('user-1', 1, 1000)).toBeNull();
+    });
+  });
+
+  describe('deadlines', () => {
+    it('should list due duels and let only one caller claim each', async () => {
+      await repository.create(duel('duel-1'), 300);
+      await repository.create(duel('duel-2', 'user-3', 'user-4'), 300);
+      await repository.start('duel-1', 60000);
+      await repository.start('duel-2', 90000);
+
+      expect(await repository.getDue(70000)).toEqual(['duel-1']);
+      expect(await repository.claim('duel-1')).toBe(true);
+      expect(await repository.claim('duel-1')).toBe(false);
+    });
+  });
+
+  describe('remove', () => {
+    it('should free both players', async () => {
+      await repository.create(duel('duel-1'), 300);
+      await repository.start('duel-1', 60000);
+      await repository.addClicks('user-1', 1, 1000);
+
+      await repository.remove(duel('duel-1'));
+
+      expect(await repository.get('duel-1')).toBeNull();
+      expect(await repository.getClicks('duel-1')).toEqual({});
+      expect(await repository.getUserDuel('user-1')).toBeNull();
+      expect(await repository.getDue(60000)).toEqual([]);
+    });
+  });
+});
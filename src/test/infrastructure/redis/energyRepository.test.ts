@@ -0,0 +1,63 @@
+import { EnergyRedisRepository } from '../../../infrastructure/redis/repositories/energyRepository';
+import { redisClient } from '../../../infrastructure/redis/client';
+
+describe('EnergyRedisRepository', () => {
+  let repository: EnergyRedisRepository;
+
+  beforeEach(async () => {
+    repository = new EnergyRedisRepository();
+    await redisClient.getClient().flushdb();
+  });
+
+  afterEach(async () => {
+    await redisClient.getClient().flushdb();
+  });
+
+  it('should return null for users who never spent energy', async () => {
+    expect(await repository.get('user-1')).toBeNull();
+  });
+
+  it('should store fractional energy with its timestamp and expiry', async () => {
+    await repository.set('user-1', { energy: 12.5, updatedAt: 1700000000000 }, 90);
+
+    expect(await repository.get('user-1')).toEqual({ energy: 12.5, updatedAt: 1700000000000 });
+    expect(await redisClient.getClient().ttl('energy:user:user-1')).toBe(90);
+  });
+
+  describe('spend', () => {
+    const tank = { max: 100, regenPerMinute: 30 };
+    const now = 1700000060000;
+
+    it('should spend from a full tank when nothing is stored', async () => {
+      const result = await repository.spend('user-1', 1, tank, now);
+
+      expect(result).toEqual({ spent: true, energy: { energy: 99, updatedAt: now } });
+      expect(await repository.get('user-1')).toEqual({ energy: 99, updatedAt: now });
+      expect(await redisClient.getClient().ttl('energy:user:user-1')).toBe(2);
+    });
+
+    it('should regenerate the stored energy before spending', async () => {
+      await repository.set('user-1', { energy: 0.5, updatedAt: now - 60000 }, 600);
+
+      const result = await repository.spend('user-1', 1, tank, now);
+
+      expect(result).toEqual({ spent: true, energy: { energy: 29.5, updatedAt: now } });
+    });
+
+    it('should leave the stored energy alone when there is not enough', async () => {
+      await repository.set('user-1', { energy: 0.5, updatedAt: now }, 600);
+
+      const result = await repository.spend('user-1', 1, tank, now);
+
+      expect(result).toEqual({ spent: false, energy: { energy: 0.5, updatedAt: now } });
+      expect(await repository.get('user-1')).toEqual({ energy: 0.5, updatedAt: now });
+    });
+  });
+
+  it('should forget the stored energy on clear', async () => {
+    await repository.set('user-1', { energy: 3, updatedAt: 1700000000000 }, 90);
+    await repository.clear('user-1');
+
+    expect(await repository.get('user-1')).toBeNull();
+  });
+});
@@ -0,0 +1,48 @@
+import { EventRedisRepository } from '../../../infrastructure/redis/repositories/eventRepository';
+import { redisClient } from '../../../infrastructure/redis/client';
+import { GameEvent } from '../../../domain/value-objects/GameEvent';
+
+describe('EventRedisRepository', () => {
+  let repository: EventRedisRepository;
+
+  const event = new GameEvent({
+    id: 'event-1',
+    title: 'Double Points Weekend',
+    multiplier: 2,
+    audience: 'clan_members',
+    startsAt: new Date('2025-11-08T00:00:00Z'),
+    endsAt: new Date('2025-11-10T00:00:00Z'),
+  });
+
+  beforeEach(async () => {
+    repository = new EventRedisRepository();
+    await redisClient.getClient().flushdb();
+  });
+
+  afterEach(async () => {
+    await redisClient.getClient().flushdb();
+  });
+
+  it('should report a cache miss as null and an empty cache as no events', async () => {
+    expect(await repository.getActive()).toBeNull();
+
+    await repository.setActive([], 60);
+
+    expect(await repository.getActive()).toEqual([]);
+  });
+
+  it('should round-trip cached events with an expiry', async () => {
+    await repository.setActive([event], 60);
+
+    expect(await repository.getActive()).toEqual([event]);
+    expect(await redisClient.getClient().ttl('events:active')).toBeGreaterThan(0);
+  });
+
+  it('should drop the cache on clear', async () => {
+    await repository.setActive([event], 60);
+
+    await repository.clearActive();
+
+    expect(await repository.getActive()).toBeNull();
+  });
+});
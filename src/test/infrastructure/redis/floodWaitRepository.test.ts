@@ -0,0 +1,63 @@
+import { FloodWaitRedisRepository } from '../../../infrastructure/redis/repositories/floodWaitRepository';
+import { redisClient } from '../../../infrastructure/redis/client';
+
+describe('FloodWaitRedisRepository', () => {
+  let repository: FloodWaitRedisRepository;
+
+  beforeEach(async () => {
+    repository = new FloodWaitRedisRepository(3);
+    await redisClient.getClient().flushdb();
+  });
+
+  afterEach(async () => {
+    await redisClient.getClient().flushdb();
+  });
+
+  it('should not pause chats without a flood wait', async () => {
+    expect(await repository.getPauseRemaining('chat-1')).toBe(0);
+    expect(await repository.getStats()).toEqual({ total: 0, global: 0 });
+  });
+
+  it('should pause only the chat that hit the limit for retry_after', async () => {
+    expect(await repository.record('chat-1', 5000)).toBe(false);
+
+    const remaining = await repository.getPauseRemaining('chat-1');
+    expect(remaining).toBeGreaterThan(4000);
+    expect(remaining).toBeLessThanOrEqual(5000);
+    expect(await repository.getPauseRemaining('chat-2')).toBe(0);
+  });
+
+  it('should pause every chat when several chats hit the limit at once', async () => {
+    await repository.record('chat-1', 5000);
+    await repository.record('chat-2', 5000);
+    expect(await repository.record('chat-3', 7000)).toBe(true);
+
+    expect(await repository.getPauseRemaining('chat-4')).toBeGreaterThan(5000);
+    expect(await repository.getStats()).toEqual({ total: 3, global: 1 });
+  });
+
+  it('should count repeated flood waits from one chat once towards a global pause', async () => {
+    await repository.record('chat-1', 5000);
+    await repository.record('chat-1', 5000);
+
+    expect(await repository.record('chat-1', 5000)).toBe(false);
+    expect(await repository.getStats()).toEqual({ total: 3, global: 0 });
+  });
+
+  it('should not shorten a longer pause already in place', async () => {
+    await repository.record('chat-1', 8000);
+    await repository.record('chat-1', 1000);
+
+    expect(await repository.getPauseRemaining('chat-1')).toBeGreaterThan(7000);
+  });
+
+  it('should not shorten a longer global pause', async () => {
+    await repository.record('chat-1', 5000);
+    await repository.record('chat-2', 5000);
+    await repository.record('chat-3', 9000);
+    expect(await repository.record('chat-4', 1000)).toBe(true);
+
+    expect(await repository.getPauseRemaining('chat-5')).toBeGreaterThan(8000);
+    expect(await repository.getStats()).toEqual({ total: 4, global: 2 });
+  });
+});
@@ -0,0 +1,103 @@
+import { GroupRedisRepository } from '../../../infrastructure/redis/repositories/groupRepository';
+import { LeaderboardRedisRepository } from '../../../infrastructure/redis/repositories/leaderboardRepository';
+import { redisClient } from '../../../infrastructure/redis/client';
+
+describe('GroupRedisRepository', () => {
+  let repository: GroupRedisRepository;
+  let leaderboard: LeaderboardRedisRepository;
+
+  beforeEach(async () => {
+    repository = new GroupRedisRepository();
+    leaderboard = new LeaderboardRedisRepository();
+    await redisClient.getClient().flushdb();
+  });
+
+  afterEach(async () => {
+    await redisClient.getClient().flushdb();
+  });
+
+  describe('addMember', () => {
+    it('should track members per group', async () => {
+      await repository.addMember('-100', 'user-1');
+      await repository.addMember('-100', 'user-2');
+      await repository.addMember('-200', 'user-1');
+
+      expect(await repository.getMemberCount('-100')).toBe(2);
+      expect(await repository.getMemberCount('-200')).toBe(1);
+    });
+
+    it('should not duplicate members', async () => {
+      await repository.addMember('-100', 'user-1');
+      await repository.addMember('-100', 'user-1');
+
+      expect(await repository.getMemberCount('-100')).toBe(1);
+    });
+
+    it('should flag the group as updated', async () => {
+      await repository.addMember('-100', 'user-1');
+      await repository.addMember('-200', 'user-1');
+
+      const updated = await repository.takeUpdatedGroups();
+
+      expect(updated.sort()).toEqual(['-100', '-200']);
+      expect(await repository.takeUpdatedGroups()).toEqual([]);
+    });
+  });
+
+  describe('getLeaderboard', () => {
+    it('should rank only group members by global score', async () => {
+      await leaderboard.updateScore('user-1', 100);
+      await leaderboard.updateScore('user-2', 300);
+      await leaderboard.updateScore('outsider', 1000);
+      await leaderboard.setUserData('user-2', 'Bob');
+      await repository.addMember('-100', 'user-1');
+      await repository.addMember('-100', 'user-2');
+
+      const board = await repository.getLeaderboard('-100', 10);
+
+      expect(board).toEqual([
+        { userId: 'user-2', username: 'Bob', score: 300, rank: 1 },
+        { userId: 'user-1', username: 'Anonymous', score: 100, rank: 2 },
+      ]);
+    });
+
+    it('should respect the limit', async () => {
+      for (let i = 1; i <= 5; i++) {
+        await leaderboard.updateScore(`user-${i}`, i * 10);
+        await repository.addMember('-100', `user-${i}`);
+      }
+
+      const board = await repository.getLeaderboard('-100', 3);
+
+      expect(board.map((entry) => entry.userId)).toEqual(['user-5', 'user-4', 'user-3']);
+    });
+
+    it('should return empty array for unknown group', async () => {
+      expect(await repository.getLeaderboard('-999', 10)).toEqual([]);
+    });
+  });
+
+  describe('getMemberRank', () => {
+    it('should return rank within the group', async () => {
+      await leaderboard.updateScore('user-1', 100);
+      await leaderboard.updateScore('user-2', 300);
+      await repository.addMember('-100', 'user-1');
+      await repository.addMember('-100', 'user-2');
+
+      expect(await repository.getMemberRank('-100', 'user-1')).toBe(2);
+      expect(await repository.getMemberRank('-100', 'user-3')).toBeNull();
+    });
+  });
+
+  describe('scoreboard message', () => {
+    it('should store and clear the pinned message id', async () => {
+      expect(await repository.getScoreboardMessageId('-100')).toBeNull();
+
+      await repository.setScoreboardMessageId('-100', 42);
+      expect(await repository.getScoreboardMessageId('-100')).toBe(42);
+
+      await repository.clearScoreboardMessageId('-100');
+      expect(await repository.getScoreboardMessageId('-100')).toBeNull();
+    });
+  });
+});
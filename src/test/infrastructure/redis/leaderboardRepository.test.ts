@@ -362,4 +362,130 @@ describe('LeaderboardRedisRepository', () => {
       expect(score).toBeGreaterThan(0);
     });
   });
+
+  describe('time-bucketed periods', () => {
+    it('should increment global and every period bucket', async () => {
+      await repository.incrementScore('user-1', 25);
+
+      expect(await repository.getUserScore('user-1')).toBe(25);
+      expect(await repository.getUserScore('user-1', 'daily')).toBe(25);
+      expect(await repository.getUserScore('user-1', 'weekly')).toBe(25);
+      expect(await repository.getUserScore('user-1', 'monthly')).toBe(25);
+    });
+
+    it('should not add absolute score updates to period buckets', async () => {
+      await repository.updateScore('user-1', 1000);
+      await repository.incrementScore('user-2', 10);
+
+      expect(await repository.getUserRank('user-1')).toBe(1);
+      expect(await repository.getUserRank('user-1', 'daily')).toBeNull();
+      expect(await repository.getUserRank('user-2', 'daily')).toBe(1);
+      expect(await repository.getTotalUsers('daily')).toBe(1);
+    });
+
+    it('should set an expiry on period buckets', async () => {
+      await repository.incrementScore('user-1', 1);
+
+      const client = redisClient.getClient();
+      expect(await client.ttl(repository.getPeriodKey('global'))).toBe(-1);
+      expect(await client.ttl(repository.getPeriodKey('daily'))).toBeGreaterThan(0);
+      expect(await client.ttl(repository.getPeriodKey('weekly'))).toBeGreaterThan(0);
+      expect(await client.ttl(repository.getPeriodKey('monthly'))).toBeGreaterThan(0);
+    });
+
+    it('should return top players for a period', async () => {
+      await repository.updateScore('veteran', 100000);
+      await repository.incrementScore('newbie', 50);
+      await repository.setUserData('newbie', 'Newbie');
+
+      const top = await repository.getFullLeaderboard(10, 'weekly');
+
+      expect(top).toEqual([{ userId: 'newbie', username: 'Newbie', score: 50, rank: 1 }]);
+    });
+
+    it('should deduct spent points from the global board only', async () => {
+      await repository.incrementScore('user-1', 100);
+
+      const score = await repository.deductScore('user-1', 40);
+
+      expect(score).toBe(60);
+      expect(await repository.getUserScore('user-1')).toBe(60);
+      expect(await repository.getUserScore('user-1', 'daily')).toBe(100);
+    });
+
+    it('should credit held points back to the global board only', async () => {
+      await repository.incrementScore('user-1', 100);
+      await repository.deductScore('user-1', 40);
+
+      const score = await repository.creditScore('user-1', 40);
+
+      expect(score).toBe(100);
+      expect(await repository.getUserScore('user-1', 'daily')).toBe(100);
+      expect(await repository.getUserScore('user-1', 'season')).toBe(100);
+    });
+
+    it('should remove user from period buckets', async () => {
+      await repository.incrementScore('user-1', 10);
+
+      await repository.removeUser('user-1');
+
+      expect(await repository.getUserRank('user-1', 'monthly')).toBeNull();
+    });
+
+    it('should build bucket keys from UTC dates', () => {
+      const date = new Date('2024-12-30T12:00:00Z');
+
+      expect(repository.getPeriodKey('daily', date)).toBe('leaderboard:daily:2024-12-30');
+      expect(repository.getPeriodKey('monthly', date)).toBe('leaderboard:monthly:2024-12');
+      expect(repository.getPeriodKey('global', date)).toBe('leaderboard:global');
+    });
+
+    it('should use ISO week numbering for weekly buckets', () => {
+      expect(repository.getPeriodKey('weekly', new Date('2024-12-30T00:00:00Z'))).toBe(
+        'leaderboard:weekly:2025-W01',
+      );
+      expect(repository.getPeriodKey('weekly', new Date('2021-01-03T00:00:00Z'))).toBe(
+        'leaderboard:weekly:2020-W53',
+      );
+      expect(repository.getPeriodKey('weekly', new Date('2025-10-22T00:00:00Z'))).toBe(
+        'leaderboard:weekly:2025-W43',
+      );
+    });
+  });
+
+  describe('season board', () => {
+    it('should count earned points but not spending or absolute updates', async () => {
+      await repository.updateScore('veteran', 100000);
+      await repository.incrementScore('user-1', 100);
+      await repository.deductScore('user-1', 40);
+
+      expect(await repository.getUserScore('user-1', 'season')).toBe(100);
+      expect(await repository.getUserRank('veteran', 'season')).toBeNull();
+      expect(await redisClient.getClient().ttl(repository.getPeriodKey('season'))).toBe(-1);
+    });
+
+    it('should return the final standings and empty the board on reset', async () => {
+      await repository.incrementScore('user-1', 10);
+      await repository.incrementScore('user-2', 30);
+
+      const standings = await repository.resetSeason();
+
+      expect(standings).toEqual([
+        { userId: 'user-2', score: 30, rank: 1 },
+        { userId: 'user-1', score: 10, rank: 2 },
+      ]);
+      expect(await repository.getTotalUsers('season')).toBe(0);
+      expect(await repository.getUserScore('user-2')).toBe(30);
+    });
+
+    it('should add reset standings back on restore', async () => {
+      await repository.incrementScore('user-1', 10);
+      const standings = await repository.resetSeason();
+      await repository.incrementScore('user-1', 5);
+
+      await repository.restoreSeason(standings);
+
+      expect(await repository.getUserScore('user-1', 'season')).toBe(15);
+    });
+  });
 });
@@ -0,0 +1,103 @@
+import { StatsRedisRepository } from '../../../infrastructure/redis/repositories/statsRepository';
+import { redisClient } from '../../../infrastructure/redis/client';
+
+describe('StatsRedisRepository', () => {
+  let repository: StatsRedisRepository;
+
+  const at = (iso: string) => new Date(iso);
+
+  beforeEach(async () => {
+    repository = new StatsRedisRepository();
+    await redisClient.getClient().flushdb();
+  });
+
+  afterEach(async () => {
+    await redisClient.getClient().flushdb();
+  });
+
+  it('should count clicks per hour', async () => {
+    await repository.recordClick('user-1', 1, at('2025-11-05T14:05:00Z'));
+    await repository.recordClick('user-1', 1, at('2025-11-05T14:06:00Z'));
+    await repository.recordClick('user-1', 1, at('2025-11-05T15:00:00Z'));
+    await repository.recordClick('user-2', 1, at('2025-11-05T14:07:00Z'));
+
+    const hourly = await repository.getHourly(
+      'user-1',
+      at('2025-11-05T00:00:00Z'),
+      at('2025-11-06T00:00:00Z'),
+    );
+
+    expect(hourly).toEqual([
+      { hour: at('2025-11-05T14:00:00Z'), clicks: 2, points: 2, sessions: 1 },
+      { hour: at('2025-11-05T15:00:00Z'), clicks: 1, points: 1, sessions: 0 },
+    ]);
+  });
+
+  it('should add points earned without clicks to their hour', async () => {
+    await repository.recordClick('user-1', 3, at('2025-11-05T14:05:00Z'));
+    await repository.recordPoints('user-1', 50, at('2025-11-05T14:30:00Z'));
+    await repository.recordPoints('user-1', 20, at('2025-11-05T16:00:00Z'));
+
+    const hourly = await repository.getHourly(
+      'user-1',
+      at('2025-11-05T00:00:00Z'),
+      at('2025-11-06T00:00:00Z'),
+    );
+
+    expect(hourly).toEqual([
+      { hour: at('2025-11-05T14:00:00Z'), clicks: 1, points: 53, sessions: 1 },
+      { hour: at('2025-11-05T16:00:00Z'), clicks: 0, points: 20, sessions: 0 },
+    ]);
+  });
+
+  it('should start a new session after a long break', async () => {
+    await repository.recordClick('user-1', 1, at('2025-11-05T09:00:00Z'));
+    await repository.recordClick('user-1', 1, at('2025-11-05T09:50:00Z'));
+    await repository.recordClick('user-1', 1, at('2025-11-05T11:00:00Z'));
+
+    const hourly = await repository.getHourly(
+      'user-1',
+      at('2025-11-05T00:00:00Z'),
+      at('2025-11-06T00:00:00Z'),
+    );
+
+    expect(hourly.reduce((sum, { sessions }) => sum + sessions, 0)).toBe(2);
+  });
+
+  it('should read ranges spanning months and leave out hours outside them', async () => {
+    await repository.recordClick('user-1', 1, at('2025-10-31T22:30:00Z'));
+    await repository.recordClick('user-1', 1, at('2025-10-31T23:30:00Z'));
+    await repository.recordClick('user-1', 1, at('2025-11-01T00:30:00Z'));
+    await repository.recordClick('user-1', 1, at('2025-11-02T00:30:00Z'));
+
+    const hourly = await repository.getHourly(
+      'user-1',
+      at('2025-10-31T23:00:00Z'),
+      at('2025-11-02T00:00:00Z'),
+    );
+
+    expect(hourly.map(({ hour }) => hour)).toEqual([
+      at('2025-10-31T23:00:00Z'),
+      at('2025-11-01T00:00:00Z'),
+    ]);
+  });
+
+  it('should expire month buckets after about a year', async () => {
+    await repository.recordClick('user-1', 1, at('2025-11-05T14:05:00Z'));
+
+    const ttl = await redisClient.getClient().ttl('stats:user:user-1:2025-11');
+    expect(ttl).toBeGreaterThan(365 * 86400);
+  });
+
+  it('should forget all activity on clear', async () => {
+    await repository.recordClick('user-1', 1, at('2025-03-05T14:05:00Z'));
+    await repository.recordClick('user-1', 1, at('2025-11-05T14:05:00Z'));
+
+    await repository.clear('user-1', at('2025-11-06T00:00:00Z'));
+
+    expect(
+      await repository.getHourly('user-1', at('2025-01-01T00:00:00Z'), at('2026-01-01T00:00:00Z')),
+    ).toEqual([]);
+    expect(await redisClient.getClient().keys('stats:user:user-1:*')).toEqual([]);
+  });
+});
@@ -0,0 +1,46 @@
+import { adminMiddleware } from '../../../../infrastructure/telegram/middleware/adminMiddleware';
+import { container } from '../../../../shared/container/DIContainer';
+import type { BotContext } from '../../../../infrastructure/telegram/types';
+
+jest.mock('../../../../shared/container/DIContainer');
+jest.mock('../../../../shared/config/env', () => ({
+  config: { telegram: { adminIds: ['111'] } },
+}));
+
+const createMockContext = (fromId: number): BotContext => {
+  return {
+    from: { id: fromId, first_name: 'Test', is_bot: false },
+    chat: { id: fromId, type: 'private' },
+    t: (key: string) => key,
+  } as unknown as BotContext;
+};
+
+describe('adminMiddleware', () => {
+  let mockQueuedMessageService: { sendMessage: jest.Mock };
+  let mockNext: jest.Mock;
+
+  beforeEach(() => {
+    mockQueuedMessageService = { sendMessage: jest.fn() };
+    mockNext = jest.fn();
+
+    (container.getQueuedMessageService as jest.Mock).mockReturnValue(mockQueuedMessageService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should let admins through', async () => {
+    await adminMiddleware(createMockContext(111), mockNext);
+
+    expect(mockNext).toHaveBeenCalled();
+    expect(mockQueuedMessageService.sendMessage).not.toHaveBeenCalled();
+  });
+
+  it('should turn everyone else away', async () => {
+    await adminMiddleware(createMockContext(222), mockNext);
+
+    expect(mockNext).not.toHaveBeenCalled();
+    expect(mockQueuedMessageService.sendMessage).toHaveBeenCalledWith('222', 'admin.only');
+  });
+});
@@ -39,7 +39,7 @@ describe('authMiddleware', () => {
 
     mockSessionRepo = {
       setSession: jest.fn(),
-      touchSession: jest.fn(),
+      touchSession: jest.fn().mockResolvedValue(true),
     };
 
     mockLeaderboardRepo = {
@@ -323,6 +323,38 @@ describe('authMiddleware', () => {
       expect(mockSessionRepo.setSession).not.toHaveBeenCalled();
     });
 
+    it('should reload the user when the stored session was cleared', async () => {
+      const ctx = createMockContext();
+      ctx.session.user = new User({
+        id: 'user-1',
+        telegramId: BigInt(123456789),
+        score: BigInt(5000),
+      });
+      ctx.session.session = new Session({
+        userId: 'user-1',
+        telegramId: BigInt(123456789),
+      });
+
+      mockSessionRepo.touchSession.mockResolvedValueOnce(false);
+      mockPrisma.user.findUnique.mockResolvedValueOnce({
+        id: 'user-1',
+        telegramId: BigInt(123456789),
+        username: 'testuser',
+        firstName: 'Test',
+        lastName: null,
+        customName: null,
+        score: BigInt(0),
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+
+      await authMiddleware(ctx, mockNext);
+
+      expect(mockPrisma.user.findUnique).toHaveBeenCalled();
+      expect(ctx.session.user?.score).toBe(BigInt(0));
+      expect(mockSessionRepo.setSession).toHaveBeenCalled();
+    });
+
     it('should store session data in Redis', async () => {
       const ctx = createMockContext();
       const existingUser = {
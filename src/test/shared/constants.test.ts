@@ -88,6 +88,8 @@ describe('Shared Constants', () => {
       expect(commands).toContain('click');
       expect(commands).toContain('leaderboard');
       expect(commands).toContain('stats');
+      expect(commands).toContain('daily');
+      expect(commands).toContain('shop');
       expect(commands).toContain('changename');
       expect(commands).toContain('help');
     });
@@ -111,8 +113,8 @@ describe('Shared Constants', () => {
       expect(Object.isFrozen(BOT_COMMANDS)).toBe(false);
     });
 
-    it('should have exactly 6 commands', () => {
-      expect(BOT_COMMANDS).toHaveLength(6);
+    it('should have exactly 8 commands', () => {
+      expect(BOT_COMMANDS).toHaveLength(8);
     });
 
     it('should have start command first', () => {
@@ -5,6 +5,15 @@ import {
   InvalidSessionError,
   RateLimitError,
   InvalidClickError,
+  InsufficientPointsError,
+  UpgradeMaxLevelError,
+  OutOfEnergyError,
+  DailyRewardClaimedError,
+  AccountCooldownError,
+  ReferralNotAllowedError,
+  ClanActionError,
+  DuelActionError,
+  EventScheduleError,
   TelegramApiError,
   DatabaseError,
   RedisError,
@@ -128,6 +137,106 @@ describe('Shared Errors', () => {
     });
   });
 
+  describe('InsufficientPointsError', () => {
+    it('should create error with required and available points', () => {
+      const error = new InsufficientPointsError(BigInt(200), BigInt(50));
+
+      expect(error.message).toBe('Not enough points: 200 required, 50 available');
+      expect(error.code).toBe('INSUFFICIENT_POINTS');
+      expect(error.required).toBe(BigInt(200));
+      expect(error.available).toBe(BigInt(50));
+      expect(error).toBeInstanceOf(DomainError);
+    });
+  });
+
+  describe('UpgradeMaxLevelError', () => {
+    it('should create error with upgrade id', () => {
+      const error = new UpgradeMaxLevelError('power_finger');
+
+      expect(error.message).toBe('Upgrade already at max level: power_finger');
+      expect(error.code).toBe('UPGRADE_MAX_LEVEL');
+      expect(error).toBeInstanceOf(DomainError);
+    });
+  });
+
+  describe('OutOfEnergyError', () => {
+    it('should create error with refill date', () => {
+      const refillsAt = new Date('2025-11-02T10:00:00Z');
+      const error = new OutOfEnergyError(refillsAt);
+
+      expect(error.message).toBe('Not enough energy to click');
+      expect(error.code).toBe('OUT_OF_ENERGY');
+      expect(error.refillsAt).toBe(refillsAt);
+      expect(error).toBeInstanceOf(DomainError);
+    });
+  });
+
+  describe('DailyRewardClaimedError', () => {
+    it('should create error with default message', () => {
+      const error = new DailyRewardClaimedError();
+
+      expect(error.message).toBe('Daily reward already claimed today');
+      expect(error.code).toBe('DAILY_REWARD_CLAIMED');
+      expect(error).toBeInstanceOf(DomainError);
+    });
+  });
+
+  describe('AccountCooldownError', () => {
+    it('should create error with retry date', () => {
+      const retryAfter = new Date('2025-11-02T10:00:00Z');
+      const error = new AccountCooldownError(retryAfter);
+
+      expect(error.message).toBe('Account data was cleared recently');
+      expect(error.code).toBe('ACCOUNT_COOLDOWN');
+      expect(error.retryAfter).toBe(retryAfter);
+      expect(error).toBeInstanceOf(DomainError);
+    });
+  });
+
+  describe('ReferralNotAllowedError', () => {
+    it('should create error with the rejection reason', () => {
+      const error = new ReferralNotAllowedError('self');
+
+      expect(error.message).toBe('Referral not allowed: self');
+      expect(error.code).toBe('REFERRAL_NOT_ALLOWED');
+      expect(error.reason).toBe('self');
+      expect(error).toBeInstanceOf(DomainError);
+    });
+  });
+
+  describe('ClanActionError', () => {
+    it('should create error with the rejection reason', () => {
+      const error = new ClanActionError('full');
+
+      expect(error.message).toBe('Clan action rejected: full');
+      expect(error.code).toBe('CLAN_ACTION_REJECTED');
+      expect(error.reason).toBe('full');
+      expect(error).toBeInstanceOf(DomainError);
+    });
+  });
+
+  describe('DuelActionError', () => {
+    it('should create error with the rejection reason', () => {
+      const error = new DuelActionError('busy');
+
+      expect(error.message).toBe('Duel action rejected: busy');
+      expect(error.code).toBe('DUEL_ACTION_REJECTED');
+      expect(error.reason).toBe('busy');
+      expect(error).toBeInstanceOf(DomainError);
+    });
+  });
+
+  describe('EventScheduleError', () => {
+    it('should create error with the rejection reason', () => {
+      const error = new EventScheduleError('invalid_window');
+
+      expect(error.message).toBe('Event scheduling rejected: invalid_window');
+      expect(error.code).toBe('EVENT_SCHEDULE_REJECTED');
+      expect(error.reason).toBe('invalid_window');
+      expect(error).toBeInstanceOf(DomainError);
+    });
+  });
+
   describe('TelegramApiError', () => {
     it('should create error with code and description', () => {
       const error = new TelegramApiError(429, 'Too Many Requests');
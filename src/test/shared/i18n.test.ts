@@ -0,0 +1,111 @@
+import {
+  CATALOGUES,
+  formatNumber,
+  getTranslator,
+  localizedCommands,
+  resolveLocale,
+  translate,
+  translator,
+  type Message,
+  type MessageKey,
+} from '../../shared/i18n';
+import { en } from '../../shared/i18n/locales/en';
+import { BOT_COMMANDS } from '../../shared/constants';
+
+const placeholders = (message: Message): string[] => {
+  const templates = typeof message === 'string' ? [message] : Object.values(message);
+  const names = templates.flatMap((template) =>
+    [...(template ?? '').matchAll(/\{(\w+)\}/g)].map((match) => match[1] ?? ''),
+  );
+  return [...new Set(names)].sort();
+};
+
+describe('i18n', () => {
+  describe('resolveLocale', () => {
+    it('should prefer the explicit language', () => {
+      expect(resolveLocale('ru', 'es')).toBe('ru');
+    });
+
+    it('should fall back to the Telegram client language', () => {
+      expect(resolveLocale(null, 'es')).toBe('es');
+      expect(resolveLocale(null, 'es-MX')).toBe('es');
+      expect(resolveLocale(null, 'RU')).toBe('ru');
+    });
+
+    it('should default to English for unsupported or missing languages', () => {
+      expect(resolveLocale(null, 'de')).toBe('en');
+      expect(resolveLocale(null)).toBe('en');
+    });
+  });
+
+  describe('translate', () => {
+    it('should fill placeholders', () => {
+      expect(translate('en', 'changeName.success', { name: 'Alice' })).toContain('Alice');
+    });
+
+    it('should format numbers for the locale', () => {
+      expect(translate('en', 'leaderboard.totalPlayers', { count: 1234567 })).toContain(
+        '1,234,567',
+      );
+      expect(formatNumber('en', 1234n)).toBe('1,234');
+      expect(formatNumber('ru', 1234567)).not.toBe('1,234,567');
+    });
+
+    it('should leave unknown placeholders in place', () => {
+      expect(translate('en', 'changeName.success')).toContain('{name}');
+    });
+
+    it('should select English plural forms', () => {
+      expect(translate('en', 'click.points', { count: 1 })).toBe('+1 point');
+      expect(translate('en', 'click.points', { count: 5 })).toBe('+5 points');
+    });
+
+    it('should select Russian one/few/many plural forms', () => {
+      expect(translate('ru', 'click.points', { count: 1 })).toBe('+1 очко');
+      expect(translate('ru', 'click.points', { count: 3 })).toBe('+3 очка');
+      expect(translate('ru', 'click.points', { count: 5 })).toBe('+5 очков');
+      expect(translate('ru', 'click.points', { count: 21 })).toBe('+21 очко');
+    });
+
+    it('should translate per locale', () => {
+      expect(translate('es', 'buttons.back')).not.toBe(translate('en', 'buttons.back'));
+    });
+  });
+
+  describe('translator', () => {
+    it('should bind a locale', () => {
+      const t = translator('ru');
+      expect(t('click.points', { count: 2 })).toBe(translate('ru', 'click.points', { count: 2 }));
+    });
+
+    it('should fall back to English without middleware', () => {
+      const t = getTranslator({});
+      expect(t('buttons.back')).toBe(en['buttons.back']);
+    });
+  });
+
+  describe('localizedCommands', () => {
+    it('should keep command names and translate descriptions', () => {
+      const commands = localizedCommands('es');
+
+      expect(commands.map((c) => c.command)).toEqual(BOT_COMMANDS.map((c) => c.command));
+      commands.forEach(({ command, description }) => {
+        expect(description).toBe(translate('es', `commands.${command}` as MessageKey));
+      });
+    });
+  });
+
+  describe('catalogues', () => {
+    const keys = Object.keys(en) as MessageKey[];
+
+    it.each(Object.keys(CATALOGUES))('%s should use the same placeholders as English', (locale) => {
+      const catalogue = CATALOGUES[locale as keyof typeof CATALOGUES];
+      keys.forEach((key) => {
+        expect({ key, names: placeholders(catalogue[key]) }).toEqual({
+          key,
+          names: placeholders(en[key]),
+        });
+      });
+    });
+  });
+});